@@ -0,0 +1,184 @@
+/**
+ * Cassettes - nagrania przebiegów agenta do deterministycznego odtwarzania
+ *
+ * Kaseta zawiera pełny strumień RawMessage[] oraz wywołania narzędzi MCP
+ * (input/output) każdej tury. ReplayAgentAdapter odtwarza ją bez modelu:
+ * ponownie wykonuje te same wywołania narzędzi na świeżych fixtures,
+ * więc DataDiff i asercje są liczone od nowa.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { RawMessage, ToolCall, TestResult, SystemPromptInfo } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteTurn {
+  userMessage: string;
+  /** Finalna odpowiedź tekstowa agenta */
+  response: string;
+  metrics: {
+    inputTokens: number;
+    outputTokens: number;
+    turnCount: number;
+  };
+  /** Wiadomości agenta z tej tury (bez wiadomości użytkownika) */
+  messages: RawMessage[];
+  /** Wywołania narzędzi w kolejności - MCP tools są wykonywane ponownie przy replay */
+  toolCalls: ToolCall[];
+}
+
+export interface Cassette {
+  version: number;
+  scenarioId: string;
+  scenarioName?: string;
+  recordedAt: string;
+  /** Skąd pochodzi nagranie - bezpośredni zapis przebiegu lub wynik z bazy */
+  source: 'recording' | 'stored-result';
+  /** ID suite run'a (tylko dla source = 'stored-result') */
+  suiteRunId?: string;
+  systemPromptInfo?: SystemPromptInfo;
+  turns: CassetteTurn[];
+}
+
+// ============================================================================
+// FILE I/O
+// ============================================================================
+
+const CASSETTE_EXTENSION = '.cassette.json';
+
+function cassetteFileName(scenarioId: string): string {
+  return `${scenarioId.replace(/[^a-zA-Z0-9._-]/g, '_')}${CASSETTE_EXTENSION}`;
+}
+
+/**
+ * Zapisuje kasetę do katalogu (nadpisuje poprzednie nagranie scenariusza)
+ *
+ * @returns Ścieżka zapisanego pliku
+ */
+export function saveCassette(dir: string, cassette: Cassette): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, cassetteFileName(cassette.scenarioId));
+  fs.writeFileSync(filePath, JSON.stringify(cassette, null, 2));
+  return filePath;
+}
+
+export function loadCassetteFile(filePath: string): Cassette {
+  const cassette = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Cassette;
+  if (cassette.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${cassette.version} in ${filePath}`);
+  }
+  return cassette;
+}
+
+/**
+ * Ładuje kasety z pliku lub katalogu (klucz = scenarioId)
+ */
+export function loadCassettes(fileOrDir: string): Map<string, Cassette> {
+  const cassettes = new Map<string, Cassette>();
+
+  const files = fs.statSync(fileOrDir).isDirectory()
+    ? fs.readdirSync(fileOrDir)
+        .filter((f) => f.endsWith(CASSETTE_EXTENSION))
+        .map((f) => path.join(fileOrDir, f))
+    : [fileOrDir];
+
+  for (const file of files) {
+    const cassette = loadCassetteFile(file);
+    cassettes.set(cassette.scenarioId, cassette);
+  }
+
+  return cassettes;
+}
+
+// ============================================================================
+// STORED RESULTS
+// ============================================================================
+
+/**
+ * Buduje kasetę z zapisanego wyniku scenariusza (ResultsStore)
+ *
+ * Wiadomości są dzielone na tury po wiadomościach użytkownika z treścią tury.
+ * Dla scenariuszy wieloetapowych metryki tokenów per tura nie są znane (0).
+ */
+export function cassetteFromTestResult(result: TestResult, suiteRunId?: string): Cassette {
+  const conversation = (result.messages || []).filter((m) => m.role !== 'system');
+
+  const recordedTurns = result.turns && result.turns.length > 0
+    ? result.turns
+        .filter((t) => !t.skipped && t.userMessage !== undefined)
+        .map((t) => ({
+          userMessage: t.userMessage!,
+          response: t.agentResponse || '',
+          toolCalls: t.toolCalls,
+          metrics: undefined,
+        }))
+    : [{
+        userMessage: result.userMessage || '',
+        response: result.agentResponse || '',
+        toolCalls: result.toolCalls,
+        metrics: result.metrics,
+      }];
+
+  const messagesPerTurn = splitMessagesByTurn(conversation, recordedTurns.map((t) => t.userMessage));
+
+  return {
+    version: CASSETTE_VERSION,
+    scenarioId: result.scenarioId,
+    scenarioName: result.scenarioName,
+    recordedAt: result.completedAt || new Date().toISOString(),
+    source: 'stored-result',
+    suiteRunId,
+    systemPromptInfo: result.systemPromptInfo,
+    turns: recordedTurns.map((turn, i) => {
+      const messages = messagesPerTurn[i] || [];
+      return {
+        userMessage: turn.userMessage,
+        response: turn.response,
+        messages,
+        toolCalls: turn.toolCalls,
+        metrics: turn.metrics
+          ? {
+              inputTokens: turn.metrics.inputTokens,
+              outputTokens: turn.metrics.outputTokens,
+              turnCount: turn.metrics.turnCount,
+            }
+          : { inputTokens: 0, outputTokens: 0, turnCount: messages.filter((m) => m.role === 'assistant').length },
+      };
+    }),
+  };
+}
+
+/**
+ * Dzieli wiadomości rozmowy na tury - granicą jest wiadomość użytkownika
+ * zawierająca wyłącznie tekst danej tury.
+ */
+function splitMessagesByTurn(messages: RawMessage[], userMessages: string[]): RawMessage[][] {
+  const turns: RawMessage[][] = [];
+  let current: RawMessage[] | null = null;
+  let nextTurn = 0;
+
+  for (const message of messages) {
+    const isTurnStart =
+      nextTurn < userMessages.length &&
+      message.role === 'user' &&
+      message.content.length === 1 &&
+      message.content[0].type === 'text' &&
+      message.content[0].text === userMessages[nextTurn];
+
+    if (isTurnStart) {
+      current = [];
+      turns.push(current);
+      nextTurn++;
+      continue;
+    }
+
+    current?.push(message);
+  }
+
+  return turns;
+}
@@ -0,0 +1,125 @@
+/**
+ * Chapter State - stan chaptera po przebiegu odtworzony z fixtures i DataDiff
+ *
+ * Invarianty (noGaps, noOverlaps, ...) dotyczą całego timeline'u, a nie tylko
+ * zmienionych bloków, więc potrzebują pełnego stanu. Odtwarzamy go z fixtures
+ * sprzed przebiegu i DataDiff - tak samo dla żywego przebiegu i dla replay.
+ */
+
+import type { DataSnapshot } from '../storage/json-storage';
+import type { DataDiff, EntityDiff } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type EntityRecord = Record<string, unknown>;
+
+export interface ChapterState {
+  chapterId: string;
+  chapter?: EntityRecord;
+  /** Timeline'y chaptera (klucz = id) */
+  timelines: Map<string, EntityRecord>;
+  /** Bloki na timeline'ach chaptera (klucz = id) */
+  blocks: Map<string, EntityRecord>;
+  /** Wszystkie media assety (klucz = id) */
+  mediaAssets: Map<string, EntityRecord>;
+}
+
+/** Część snapshotu JsonStorage potrzebna do odtworzenia stanu */
+export type ChapterFixtures = Pick<DataSnapshot, 'chapters' | 'timelines' | 'blocks' | 'mediaAssets'>;
+
+// ============================================================================
+// RECONSTRUCTION
+// ============================================================================
+
+/**
+ * Nakłada DataDiff na fixtures i zwraca stan wskazanego chaptera
+ */
+export function reconstructChapterState(
+  fixtures: ChapterFixtures,
+  dataDiff: DataDiff,
+  chapterId: string
+): ChapterState {
+  const timelines = applyEntityDiff(fixtures.timelines, dataDiff.timelines);
+  const blocks = applyEntityDiff(fixtures.blocks, dataDiff.blocks);
+  const mediaAssets = applyEntityDiff(fixtures.mediaAssets, dataDiff.mediaAssets);
+  const chapters = dataDiff.chapters
+    ? applyEntityDiff(fixtures.chapters, dataDiff.chapters)
+    : fixtures.chapters;
+
+  const chapterTimelines = new Map(
+    [...timelines].filter(([, timeline]) => timeline.chapterId === chapterId)
+  );
+  const chapterBlocks = new Map(
+    [...blocks].filter(([, block]) => chapterTimelines.has(block.timelineId as string))
+  );
+
+  return {
+    chapterId,
+    chapter: chapters.get(chapterId) as EntityRecord | undefined,
+    timelines: chapterTimelines,
+    blocks: chapterBlocks,
+    mediaAssets,
+  };
+}
+
+function applyEntityDiff(
+  before: Map<string, unknown>,
+  diff: EntityDiff
+): Map<string, EntityRecord> {
+  const entities = new Map([...before].map(([id, entity]) => [id, entity as EntityRecord]));
+
+  for (const deleted of diff.deleted) {
+    entities.delete(deleted.id);
+  }
+  for (const modified of diff.modified) {
+    entities.set(modified.id, modified.after);
+  }
+  for (const added of diff.added) {
+    entities.set(added.id, added.data);
+  }
+
+  return entities;
+}
+
+// ============================================================================
+// BLOCK GEOMETRY
+// ============================================================================
+
+/**
+ * Pozycja bloku na timeline (w klatkach)
+ *
+ * Długość = durationInFrames; dla bloków bez tego pola wyliczana z zakresu źródła
+ * (fileRelativeEndFrame - fileRelativeStartFrame).
+ */
+export function blockSpan(block: EntityRecord): { start: number; duration: number; end: number } {
+  const start = numberOr(block.timelineOffsetInFrames, 0);
+  const sourceStart = numberOr(block.fileRelativeStartFrame, 0);
+  const duration = typeof block.durationInFrames === 'number'
+    ? block.durationInFrames
+    : numberOr(block.fileRelativeEndFrame, sourceStart) - sourceStart;
+
+  return { start, duration, end: start + duration };
+}
+
+/**
+ * Długość źródła media assetu w klatkach (undefined gdy nieznana)
+ */
+export function sourceDurationInFrames(asset: EntityRecord): number | undefined {
+  let metadata = asset.metadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const value = (metadata as EntityRecord | undefined)?.sourceDurationInFrames;
+  return typeof value === 'number' && value > 0 ? value : undefined;
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
@@ -0,0 +1,93 @@
+/**
+ * Concurrency - limity równoległych przebiegów scenariuszy
+ *
+ * - mapWithConcurrency: limit w obrębie jednego suite'a (opcja `concurrency`)
+ * - ConcurrencyLimiter: limit globalny współdzielony przez wiele suite'ów (TestRunnerService,
+ *   optymalizacja promptu - opcja harnessu `scenarioLimiter`)
+ */
+
+// ============================================================================
+// GLOBAL LIMITER
+// ============================================================================
+
+/**
+ * Semafor ograniczający liczbę jednocześnie wykonywanych zadań (kolejka FIFO)
+ */
+export class ConcurrencyLimiter {
+  public readonly limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  /**
+   * Wykonuje zadanie gdy zwolni się slot
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /** Liczba zadań w trakcie wykonania */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /** Liczba zadań czekających na slot */
+  get pendingCount(): number {
+    return this.waiting.length;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    // Slot jest przekazywany bezpośrednio w release() - active się nie zmienia
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// ============================================================================
+// POOL
+// ============================================================================
+
+/**
+ * Mapuje elementy z co najwyżej `limit` równoległymi wywołaniami
+ *
+ * Elementy są pobierane w kolejności, wyniki zachowują kolejność wejścia.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  const workers = Array.from({ length: workerCount }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
@@ -9,6 +9,7 @@ import type {
   SuiteConfigSnapshot,
   AgentConfigSnapshot,
   SystemPromptSnapshot,
+  SubagentConfigSnapshot,
   McpToolsSnapshot,
   ToolDefinitionSnapshot,
   PlaceholderResolution,
@@ -26,11 +27,13 @@ export interface IAgentConfigProvider {
   getModel(): string;
   getThinkingMode?(): string;
   getMaxTokens?(): number;
-  getSubagents?(): Array<{ name: string; agentType: string; model?: string; description?: string }>;
+  getSubagents?(): SubagentConfigSnapshot[];
 }
 
 export interface IPromptProvider {
   getRawPrompt(agentType: string): string;
+  /** Źródło promptu (domyślnie: 'default') */
+  getPromptSource?(agentType: string): Pick<SystemPromptSnapshot, 'source' | 'sourceFile' | 'patches' | 'mode'>;
   resolvePrompt(agentType: string, context: Record<string, unknown>): string;
   getPlaceholders(agentType: string): Array<{ placeholder: string; source: string }>;
   getDynamicLists?(agentType: string): {
@@ -131,6 +134,7 @@ export class ConfigSnapshotCollector {
   ): SystemPromptSnapshot {
     if (!this.promptProvider) {
       return {
+        source: 'default',
         rawPrompt: '',
         resolvedPrompt: '',
         resolveContext: context,
@@ -152,6 +156,7 @@ export class ConfigSnapshotCollector {
     }));
 
     return {
+      ...(this.promptProvider.getPromptSource?.(agentType) ?? { source: 'default' }),
       rawPrompt,
       resolvedPrompt,
       resolveContext: context,
@@ -222,18 +227,22 @@ export class ConfigSnapshotCollector {
         agentType: data.agentConfig.agentType,
         model: data.agentConfig.model,
         thinkingMode: data.agentConfig.thinkingMode,
+        subagents: (data.agentConfig.subagents ?? [])
+          .map((s) => ({ name: s.name, model: s.model, prompt: s.prompt, tools: s.tools }))
+          .sort((a, b) => a.name.localeCompare(b.name)),
       },
       systemPrompt: {
         rawPrompt: data.systemPrompt.rawPrompt,
+        mode: data.systemPrompt.mode,
         dynamicLists: data.systemPrompt.dynamicLists,
       },
       mcpTools: {
-        allowedTools: data.mcpTools.allowedTools.sort(),
+        allowedTools: [...data.mcpTools.allowedTools].sort(),
         toolDefinitions: data.mcpTools.toolDefinitions
           .map((t) => ({
             name: t.name,
             description: t.description,
-            paramCount: t.parameters.length,
+            parameters: t.parameters.map((p) => ({ name: p.name, description: p.description, required: p.required })),
           }))
           .sort((a, b) => a.name.localeCompare(b.name)),
       },
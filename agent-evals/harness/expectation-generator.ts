@@ -0,0 +1,273 @@
+/**
+ * Expectation Generator - oczekiwania scenariusza wygenerowane z zaobserwowanego przebiegu
+ *
+ * "Promocja" DataDiff poprawnego przebiegu do `finalState`: zmienione pola bloków
+ * i encji stają się warunkami `equals` (albo `within` przy tolerancji klatek),
+ * dodane encje - warunkami `match` na ich polach, usunięte - listami ID.
+ * Z bloków fixtures powstaje lista `unchanged`, z wywołań narzędzi - zbiory
+ * `required` / `optional` / `forbidden`. Wynik jest punktem wyjścia do ręcznego
+ * poluzowania warunków.
+ */
+
+import type {
+  DataDiff,
+  EntityDiff,
+  EntityExpectations,
+  FinalStateExpectations,
+  BlockMatchCondition,
+  MatchCondition,
+  ScenarioExpectations,
+  SettingExpectation,
+  SettingsScope,
+  ToolCall,
+  ToolCallExpectations,
+} from '../types/scenario';
+import { toolCallError } from './assertions';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Tolerancja warunków na polach klatkowych (`...Frame`, `...InFrames`)
+ *
+ * - exact: `equals`
+ * - frames: `within` ± N klatek
+ * - percent: `within` ± N% wartości (zaokrąglone do pełnych klatek)
+ */
+export type FrameTolerance =
+  | { kind: 'exact' }
+  | { kind: 'frames'; frames: number }
+  | { kind: 'percent'; percent: number };
+
+export interface GenerateExpectationsOptions {
+  tolerance?: FrameTolerance;
+  /** Bloki chaptera z fixtures (stan przed przebiegiem) - bloki bez zmian trafiają do `unchanged` */
+  fixtureBlocks?: Array<{ id: string }>;
+  /** Wywołania narzędzi z przebiegu - `required` / `optional` */
+  toolCalls?: ToolCall[];
+  /** Narzędzia dozwolone dla agenta - niewywołane narzędzia modyfikujące trafiają do `forbidden` */
+  allowedTools?: string[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Pola techniczne - zmieniają się przy każdym zapisie, nie są częścią oczekiwań */
+const IGNORED_FIELDS = new Set(['createdDate', 'modifiedDate', 'lastModified', 'createdAt', 'updatedAt']);
+
+/** Narzędzia tylko do odczytu (po prefiksie nazwy) - trafiają do `optional` zamiast `required` */
+const READ_ONLY_TOOL_PREFIXES = ['get', 'list', 'search', 'find', 'read'];
+
+const FRAME_FIELD = /(Frame|Frames)$/;
+
+type Primitive = string | number | boolean;
+
+const EXACT: FrameTolerance = { kind: 'exact' };
+
+function isPrimitive(value: unknown): value is Primitive {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Pola encji nadające się na warunki (wartości proste, bez ID i pól technicznych)
+ */
+function comparableFields(data: Record<string, unknown>): Array<[string, Primitive]> {
+  return Object.entries(data).filter(
+    (entry): entry is [string, Primitive] => entry[0] !== 'id' && !IGNORED_FIELDS.has(entry[0]) && isPrimitive(entry[1])
+  );
+}
+
+/** Warunek na wartości pola - tolerancja tylko dla liczbowych pól klatkowych */
+function valueCondition(key: string, value: Primitive, tolerance: FrameTolerance): MatchCondition {
+  if (typeof value !== 'number' || !FRAME_FIELD.test(key) || tolerance.kind === 'exact') {
+    return { equals: value };
+  }
+
+  const delta = tolerance.kind === 'frames' ? tolerance.frames : Math.round((Math.abs(value) * tolerance.percent) / 100);
+  return delta > 0 ? { within: { of: value, tolerance: delta } } : { equals: value };
+}
+
+/** Warunek `match` dla dodanej encji - stringi dosłownie, liczby i booleany przez `equals` / `within` */
+function matchFromData(
+  data: Record<string, unknown>,
+  tolerance: FrameTolerance = EXACT
+): Record<string, string | MatchCondition> {
+  return Object.fromEntries(
+    comparableFields(data).map(([key, value]) => [
+      key,
+      typeof value === 'string' ? value : valueCondition(key, value, tolerance),
+    ])
+  );
+}
+
+/** Warunki dla pól, które zmieniły wartość */
+function changedFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  tolerance: FrameTolerance = EXACT
+): Record<string, MatchCondition> {
+  return Object.fromEntries(
+    comparableFields(after)
+      .filter(([key, value]) => before[key] !== value)
+      .map(([key, value]) => [key, valueCondition(key, value, tolerance)])
+  );
+}
+
+function hasEntries(record: object): boolean {
+  return Object.keys(record).length > 0;
+}
+
+function entityExpectations(diff: EntityDiff | undefined): EntityExpectations | undefined {
+  if (!diff || diff.added.length + diff.modified.length + diff.deleted.length === 0) return undefined;
+
+  const modified = diff.modified
+    .map((entity) => ({ match: { id: entity.id }, changes: changedFields(entity.before, entity.after) }))
+    .filter((entity) => hasEntries(entity.changes));
+
+  return {
+    ...(diff.added.length > 0 && { added: diff.added.map((entity) => ({ match: matchFromData(entity.data) })) }),
+    ...(modified.length > 0 && { modified }),
+    ...(diff.deleted.length > 0 && { deleted: diff.deleted.map((entity) => entity.id) }),
+  };
+}
+
+// ============================================================================
+// FINAL STATE
+// ============================================================================
+
+/**
+ * Oczekiwania `finalState` odpowiadające zaobserwowanemu DataDiff
+ *
+ * Sekcje bez zmian są pomijane; zmodyfikowane encje bez zmienionych pól prostych
+ * (np. tylko pola techniczne) nie generują warunków. Tolerancja i `unchanged`
+ * dotyczą tylko bloków.
+ */
+export function finalStateFromDataDiff(
+  diff: DataDiff,
+  options: Pick<GenerateExpectationsOptions, 'tolerance' | 'fixtureBlocks'> = {}
+): FinalStateExpectations {
+  const finalState: FinalStateExpectations = {};
+  const tolerance = options.tolerance ?? EXACT;
+
+  const blocksModified: BlockMatchCondition[] = diff.blocks.modified
+    .map((block) => ({ match: { id: block.id }, changes: changedFields(block.before, block.after, tolerance) }))
+    .filter((block) => hasEntries(block.changes));
+  const touchedIds = new Set([...diff.blocks.modified, ...diff.blocks.deleted].map((block) => block.id));
+  const unchanged = (options.fixtureBlocks ?? []).map((block) => block.id).filter((id) => !touchedIds.has(id));
+  const blocks: NonNullable<FinalStateExpectations['blocks']> = {
+    ...(diff.blocks.added.length > 0 && {
+      added: diff.blocks.added.map((block) => ({ match: matchFromData(block.data, tolerance) })),
+    }),
+    ...(blocksModified.length > 0 && { modified: blocksModified }),
+    ...(diff.blocks.deleted.length > 0 && { deleted: diff.blocks.deleted.map((block) => block.id) }),
+    ...(unchanged.length > 0 && { unchanged }),
+  };
+  if (hasEntries(blocks)) finalState.blocks = blocks;
+
+  const timelines = entityExpectations(diff.timelines);
+  if (timelines) {
+    finalState.timelines = {
+      ...(timelines.added && { added: timelines.added }),
+      ...(timelines.modified && {
+        modified: timelines.modified.map((timeline) => ({ match: timeline.match, changes: timeline.changes ?? {} })),
+      }),
+      ...(timelines.deleted && { deleted: timelines.deleted }),
+    };
+  }
+
+  if (diff.mediaAssets.added.length > 0) {
+    finalState.mediaAssets = { added: diff.mediaAssets.added.map((asset) => ({ match: matchFromData(asset.data) })) };
+  }
+
+  const chapters = entityExpectations(diff.chapters);
+  if (chapters) finalState.chapters = chapters;
+  const persons = entityExpectations(diff.persons);
+  if (persons) finalState.persons = persons;
+  const dynamicCompositions = entityExpectations(diff.dynamicCompositions);
+  if (dynamicCompositions) finalState.dynamicCompositions = dynamicCompositions;
+
+  if (diff.settings) {
+    const changed: SettingExpectation[] = (Object.keys(diff.settings) as SettingsScope[]).flatMap((scope) =>
+      diff.settings![scope].map((change) => ({
+        scope,
+        ownerId: change.ownerId,
+        key: change.key,
+        change: change.change,
+        ...(isPrimitive(change.after) && { value: change.after }),
+      }))
+    );
+    if (changed.length > 0) finalState.settings = { changed };
+  }
+
+  return finalState;
+}
+
+// ============================================================================
+// TOOL CALLS
+// ============================================================================
+
+function isReadOnlyTool(toolName: string): boolean {
+  return READ_ONLY_TOOL_PREFIXES.some(
+    (prefix) => toolName.startsWith(prefix) && /^[A-Z]/.test(toolName.slice(prefix.length))
+  );
+}
+
+/**
+ * Zbiory narzędzi z zaobserwowanych wywołań
+ *
+ * Narzędzia modyfikujące wywołane bez błędu -> `required`, narzędzia tylko do odczytu
+ * -> `optional`, niewywołane narzędzia modyfikujące spośród `allowedTools` -> `forbidden`.
+ */
+export function toolCallsFromRun(toolCalls: ToolCall[], allowedTools?: string[]): ToolCallExpectations {
+  const called = new Set(toolCalls.filter((call) => !toolCallError(call.output)).map((call) => call.toolName));
+  const calledAny = new Set(toolCalls.map((call) => call.toolName));
+
+  const required = [...called].filter((tool) => !isReadOnlyTool(tool));
+  const optional = [...called].filter(isReadOnlyTool);
+  const forbidden = (allowedTools ?? []).filter((tool) => !calledAny.has(tool) && !isReadOnlyTool(tool));
+
+  return {
+    ...(required.length > 0 && { required }),
+    ...(optional.length > 0 && { optional }),
+    ...(forbidden.length > 0 && { forbidden }),
+  };
+}
+
+// ============================================================================
+// EXPECTATIONS
+// ============================================================================
+
+/**
+ * Zestaw oczekiwań scenariusza z poprawnego ("złotego") przebiegu
+ */
+export function generateExpectations(diff: DataDiff, options: GenerateExpectationsOptions = {}): ScenarioExpectations {
+  const finalState = finalStateFromDataDiff(diff, options);
+  const toolCalls = options.toolCalls ? toolCallsFromRun(options.toolCalls, options.allowedTools) : {};
+
+  return {
+    ...(hasEntries(toolCalls) && { toolCalls }),
+    ...(hasEntries(finalState) && { finalState }),
+  };
+}
+
+/**
+ * Parsuje tolerancję z tekstu: `exact`, `5f` / `frames:5`, `10%` / `percent:10`
+ */
+export function parseFrameTolerance(spec: string): FrameTolerance {
+  const value = spec.trim();
+  if (value === '' || value === 'exact') return EXACT;
+
+  const frames = value.match(/^(?:frames:)?(\d+)f?$/);
+  if (frames && (value.endsWith('f') || value.startsWith('frames:'))) {
+    return { kind: 'frames', frames: parseInt(frames[1], 10) };
+  }
+
+  const percent = value.match(/^(?:percent:)?(\d+(?:\.\d+)?)%?$/);
+  if (percent && (value.endsWith('%') || value.startsWith('percent:'))) {
+    return { kind: 'percent', percent: parseFloat(percent[1]) };
+  }
+
+  throw new Error(`Invalid tolerance '${spec}' (expected: exact, <N>f, frames:<N>, <N>%, percent:<N>)`);
+}
@@ -0,0 +1,245 @@
+/**
+ * Experiment - zestaw scenariuszy uruchamiany dla macierzy wariantów konfiguracji (A/B promptów)
+ *
+ * Wariant = jedna komórka macierzy (prompt × model × thinking × opisy narzędzi × ...).
+ * Każdy wariant to osobny suite; leaderboard porównuje je po pass rate, tokenach,
+ * czasie i koszcie, z testem istotności względem najlepszego wariantu.
+ */
+
+import { compareSuiteResults, type ComparableResult, type RateDelta } from './suite-comparison';
+import type { SystemPromptConfig, SubagentPromptConfig } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExperimentModel = 'haiku' | 'sonnet' | 'opus';
+export type ExperimentThinkingMode = 'think' | 'hard' | 'harder' | 'ultrathink';
+
+/**
+ * Wariant eksperymentu - nadpisania konfiguracji względem domyślnej
+ */
+export interface ExperimentVariant {
+  /** Unikalny w ramach eksperymentu identyfikator (np. 'prompt=v2,model=opus') */
+  id: string;
+  label?: string;
+  systemPrompt?: SystemPromptConfig;
+  model?: ExperimentModel;
+  thinkingMode?: ExperimentThinkingMode;
+  toolDescriptions?: Record<string, string>;
+  subagentPrompts?: Record<string, SubagentPromptConfig>;
+  enabledTools?: string[];
+}
+
+/** Nazwana wartość osi macierzy - nazwa trafia do id wariantu */
+export interface MatrixOption<T> {
+  name: string;
+  value: T;
+}
+
+/**
+ * Osie macierzy - warianty to iloczyn kartezjański wszystkich podanych osi
+ */
+export interface ExperimentMatrix {
+  systemPrompt?: MatrixOption<SystemPromptConfig | undefined>[];
+  model?: ExperimentModel[];
+  thinkingMode?: ExperimentThinkingMode[];
+  toolDescriptions?: MatrixOption<Record<string, string> | undefined>[];
+  subagentPrompts?: MatrixOption<Record<string, SubagentPromptConfig> | undefined>[];
+  enabledTools?: MatrixOption<string[] | undefined>[];
+}
+
+/**
+ * Definicja eksperymentu (body POST /api/experiments, plik JSON dla CLI)
+ */
+export interface ExperimentDefinition {
+  name: string;
+  description?: string;
+  /** Scenariusze: wszystkie agenta albo wskazane ścieżki (jak w run-suite) */
+  agent?: string;
+  scenarioIds?: string[];
+  tags?: string[];
+  /** Jawna lista wariantów (łączona z wariantami z macierzy) */
+  variants?: ExperimentVariant[];
+  matrix?: ExperimentMatrix;
+  /** Liczba prób każdego scenariusza w każdym wariancie */
+  repetitions?: number;
+  /** Maks. liczba prób równolegle w obrębie jednego wariantu */
+  concurrency?: number;
+}
+
+/**
+ * Pozycja leaderboardu - wynik jednego wariantu
+ */
+export interface VariantLeaderboardEntry {
+  variantId: string;
+  label?: string;
+  rank: number;
+  trials: number;
+  passedTrials: number;
+  passRate: number;
+  avgTokens: number;
+  avgLatencyMs: number;
+  /** Brak, gdy żadna próba nie ma kosztu (nieznany model w cenniku) */
+  totalCostUsd?: number;
+  avgCostUsd?: number;
+  /** Różnica pass rate względem wariantu z rank 1 (brak dla niego samego) */
+  vsBest?: RateDelta;
+}
+
+/** Limit komórek macierzy - każda komórka to pełny suite */
+export const MAX_EXPERIMENT_VARIANTS = 32;
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+type VariantOverrides = Omit<ExperimentVariant, 'id' | 'label'>;
+
+interface AxisValue {
+  /** Fragment id wariantu (np. 'model=opus') */
+  key: string;
+  apply: (variant: VariantOverrides) => void;
+}
+
+function namedAxis<K extends keyof VariantOverrides>(
+  field: K,
+  options: MatrixOption<VariantOverrides[K]>[] | undefined
+): AxisValue[] | null {
+  if (!options || options.length === 0) return null;
+  return options.map((option) => ({
+    key: `${field}=${option.name}`,
+    apply: (variant) => {
+      variant[field] = option.value;
+    },
+  }));
+}
+
+function plainAxis<K extends 'model' | 'thinkingMode'>(
+  field: K,
+  values: VariantOverrides[K][] | undefined
+): AxisValue[] | null {
+  if (!values || values.length === 0) return null;
+  return values.map((value) => ({
+    key: `${field}=${value}`,
+    apply: (variant) => {
+      variant[field] = value;
+    },
+  }));
+}
+
+/**
+ * Rozwija macierz do listy wariantów (iloczyn kartezjański osi, w kolejności pól)
+ */
+export function expandExperimentMatrix(matrix: ExperimentMatrix): ExperimentVariant[] {
+  const axes = [
+    namedAxis('systemPrompt', matrix.systemPrompt),
+    plainAxis('model', matrix.model),
+    plainAxis('thinkingMode', matrix.thinkingMode),
+    namedAxis('toolDescriptions', matrix.toolDescriptions),
+    namedAxis('subagentPrompts', matrix.subagentPrompts),
+    namedAxis('enabledTools', matrix.enabledTools),
+  ].filter((axis): axis is AxisValue[] => axis !== null);
+
+  if (axes.length === 0) return [];
+
+  let cells: AxisValue[][] = [[]];
+  for (const axis of axes) {
+    cells = cells.flatMap((cell) => axis.map((value) => [...cell, value]));
+  }
+
+  return cells.map((cell) => {
+    const overrides: VariantOverrides = {};
+    for (const value of cell) value.apply(overrides);
+    return { id: cell.map((value) => value.key).join(','), ...overrides };
+  });
+}
+
+/**
+ * Warianty eksperymentu: jawne + z macierzy, z walidacją liczby i unikalności id
+ */
+export function resolveExperimentVariants(definition: ExperimentDefinition): ExperimentVariant[] {
+  const variants = [
+    ...(definition.variants ?? []),
+    ...(definition.matrix ? expandExperimentMatrix(definition.matrix) : []),
+  ];
+
+  if (variants.length === 0) {
+    throw new Error('Experiment needs at least one variant (variants or matrix)');
+  }
+  if (variants.length > MAX_EXPERIMENT_VARIANTS) {
+    throw new Error(`Experiment has ${variants.length} variants (max ${MAX_EXPERIMENT_VARIANTS})`);
+  }
+
+  const seen = new Set<string>();
+  for (const variant of variants) {
+    if (!variant.id) {
+      throw new Error('Every variant needs an id');
+    }
+    if (seen.has(variant.id)) {
+      throw new Error(`Duplicate variant id: ${variant.id}`);
+    }
+    seen.add(variant.id);
+  }
+
+  return variants;
+}
+
+// ============================================================================
+// LEADERBOARD
+// ============================================================================
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+/**
+ * Leaderboard wariantów: pass rate malejąco, przy remisie tańszy (koszt, potem tokeny) wyżej
+ *
+ * vsBest - test Fishera pass rate wariantu względem lidera (lider = baseline).
+ */
+export function buildExperimentLeaderboard(
+  variants: Array<{ variantId: string; label?: string; results: ComparableResult[] }>,
+  options: { alpha?: number } = {}
+): VariantLeaderboardEntry[] {
+  const entries = variants.map((variant) => {
+    const costs = variant.results
+      .map((r) => r.metrics.costUsd)
+      .filter((cost): cost is number => cost !== undefined);
+    const passedTrials = variant.results.filter((r) => r.passed).length;
+    const totalCostUsd = costs.length > 0 ? costs.reduce((sum, c) => sum + c, 0) : undefined;
+
+    const entry: VariantLeaderboardEntry = {
+      variantId: variant.variantId,
+      label: variant.label,
+      rank: 0,
+      trials: variant.results.length,
+      passedTrials,
+      passRate: variant.results.length > 0 ? passedTrials / variant.results.length : 0,
+      avgTokens: average(variant.results.map((r) => r.metrics.totalTokens)),
+      avgLatencyMs: average(variant.results.map((r) => r.metrics.latencyMs)),
+      totalCostUsd,
+      avgCostUsd: totalCostUsd !== undefined ? totalCostUsd / costs.length : undefined,
+    };
+    return { variant, entry };
+  });
+
+  entries.sort((a, b) => {
+    // Warianty bez zakończonych prób na końcu
+    if ((a.entry.trials === 0) !== (b.entry.trials === 0)) return a.entry.trials === 0 ? 1 : -1;
+    if (b.entry.passRate !== a.entry.passRate) return b.entry.passRate - a.entry.passRate;
+    const costA = a.entry.avgCostUsd ?? Infinity;
+    const costB = b.entry.avgCostUsd ?? Infinity;
+    if (costA !== costB) return costA - costB;
+    return a.entry.avgTokens - b.entry.avgTokens;
+  });
+
+  const best = entries[0];
+  return entries.map(({ variant, entry }, index) => {
+    entry.rank = index + 1;
+    if (index > 0 && best.entry.trials > 0 && entry.trials > 0) {
+      entry.vsBest = compareSuiteResults(best.variant.results, variant.results, options).overall.passRate;
+    }
+    return entry;
+  });
+}
@@ -0,0 +1,302 @@
+/**
+ * Failure Clustering - grupowanie nieudanych prób po sygnaturze błędu
+ *
+ * Sygnatura łączy nieudane asercje (znormalizowane - bez ID i liczb), brakujące
+ * i zabronione narzędzia, błędy zwrócone przez narzędzia, timeout oraz wzorce ze stderr.
+ * Próby o tej samej sygnaturze trafiają do jednego klastra, a klaster dostaje kategorię
+ * przyczyny (złe narzędzie, złe ID bloku, agent się poddał, dopytał zamiast działać, ...).
+ */
+
+import { toolCallError } from './assertions';
+import type { TestResult, DataDiff, EntityDiff } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FailureCategory =
+  | 'timeout'
+  | 'tool-error'
+  | 'execution-error'
+  | 'asked-instead-of-acting'
+  | 'gave-up'
+  | 'wrong-tool'
+  | 'wrong-block-id'
+  | 'wrong-result';
+
+/** Wycinek nieudanego wyniku potrzebny do klastrowania */
+export type FailureRecord = Pick<
+  TestResult,
+  'scenarioId' | 'scenarioName' | 'assertions' | 'toolCalls' | 'error' | 'stderrLogs' | 'agentResponse' | 'trial'
+> & {
+  suiteId: string;
+  dataDiff?: DataDiff;
+};
+
+export interface FailureSignature {
+  category: FailureCategory;
+  /** Nazwy nieudanych asercji po normalizacji (bez soft checków) */
+  failedAssertions: string[];
+  /** Wymagane narzędzia, których agent nie wywołał */
+  missingTools: string[];
+  /** Zabronione narzędzia, które agent wywołał */
+  forbiddenTools: string[];
+  /** `narzędzie: błąd` po normalizacji */
+  toolErrors: string[];
+  stderrPatterns: string[];
+  timedOut: boolean;
+}
+
+export interface FailureExample {
+  suiteId: string;
+  scenarioId: string;
+  scenarioName: string;
+  trial?: number;
+}
+
+export interface FailureCluster {
+  /** Stabilny klucz sygnatury */
+  key: string;
+  category: FailureCategory;
+  label: string;
+  signature: FailureSignature;
+  /** Liczba nieudanych prób w klastrze */
+  count: number;
+  scenarioIds: string[];
+  suiteIds: string[];
+  examples: FailureExample[];
+}
+
+export interface FailureClusterReport {
+  totalFailures: number;
+  /** Od największego */
+  clusters: FailureCluster[];
+  categoryCounts: Record<FailureCategory, number>;
+}
+
+export const FAILURE_CATEGORY_LABELS: Record<FailureCategory, string> = {
+  timeout: 'Timeout',
+  'tool-error': 'Tool error',
+  'execution-error': 'Execution error',
+  'asked-instead-of-acting': 'Asked instead of acting',
+  'gave-up': 'Gave up',
+  'wrong-tool': 'Wrong tool',
+  'wrong-block-id': 'Wrong block id',
+  'wrong-result': 'Wrong result',
+};
+
+/** Linie stderr uznawane za istotne dla sygnatury */
+const STDERR_PATTERN = /\b(error|exception|fatal|enoent|eacces|econnreset|rate.?limit|overloaded)\b/i;
+
+const MAX_PATTERN_LENGTH = 80;
+const MAX_STDERR_PATTERNS = 3;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalizacja tekstu do sygnatury - ID (uuid / hex), JSON-y, ścieżki i liczby zastępowane
+ * placeholderami, żeby te same błędy na różnych danych trafiały do jednego klastra
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/^\[Turn \d+\]\s*/, '')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\b[0-9a-f]{8,}\b/gi, '<id>')
+    .replace(/\{.*\}/g, '{…}')
+    .replace(/(?:[A-Za-z]:)?(?:[\\/][\w.-]+){2,}/g, '<path>')
+    .replace(/\d+(\.\d+)?/g, 'N')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_PATTERN_LENGTH);
+}
+
+function isEntityDiff(value: unknown): value is EntityDiff {
+  return typeof value === 'object' && value !== null && Array.isArray((value as EntityDiff).added);
+}
+
+/**
+ * Czy agent zmienił jakiekolwiek dane (encje, ustawienia, enrichment)
+ */
+function hasDataChanges(diff: DataDiff | undefined): boolean {
+  if (!diff) return false;
+
+  const entityDiffs: unknown[] = [
+    diff.blocks,
+    diff.timelines,
+    diff.mediaAssets,
+    diff.chapters,
+    diff.persons,
+    diff.dynamicCompositions,
+    ...(diff.enrichment ? Object.values(diff.enrichment) : []),
+  ];
+  const entitiesChanged = entityDiffs.some(
+    (entity) => isEntityDiff(entity) && entity.added.length + entity.modified.length + entity.deleted.length > 0
+  );
+  const settingsChanged = diff.settings ? Object.values(diff.settings).some((changes) => changes.length > 0) : false;
+
+  return entitiesChanged || settingsChanged;
+}
+
+/** Odpowiedź kończy się pytaniem do użytkownika */
+function endsWithQuestion(response: string | undefined): boolean {
+  return !!response && response.trim().slice(-300).includes('?');
+}
+
+function extractQuotedTool(name: string, pattern: RegExp): string | undefined {
+  return name.match(pattern)?.[1];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)].sort();
+}
+
+// ============================================================================
+// SIGNATURE
+// ============================================================================
+
+/**
+ * Sygnatura nieudanej próby z przypisaną kategorią przyczyny
+ *
+ * Kolejność kategorii = kolejność ważności: timeout i błędy narzędzi przesłaniają
+ * skutki (brak zmian, złe bloki), bo zwykle są ich przyczyną.
+ */
+export function failureSignature(record: FailureRecord): FailureSignature {
+  const failed = record.assertions.filter((a) => !a.passed && !a.softCheck);
+  const names = failed.map((a) => a.name.replace(/^\[Turn \d+\]\s*/, ''));
+
+  const missingTools = unique(
+    names.flatMap((name) => extractQuotedTool(name, /^Required tool '([^']+)' was called$/) ?? [])
+  );
+  const forbiddenTools = unique(
+    names.flatMap((name) => extractQuotedTool(name, /^Forbidden tool '([^']+)' was not called$/) ?? [])
+  );
+  const toolErrors = unique(
+    record.toolCalls.flatMap((call) => {
+      const error = toolCallError(call.output);
+      return error !== undefined ? [`${call.toolName}: ${normalizeText(error)}`] : [];
+    })
+  );
+  const stderrPatterns = unique(
+    (record.stderrLogs ?? []).filter((line) => STDERR_PATTERN.test(line)).map(normalizeText)
+  ).slice(0, MAX_STDERR_PATTERNS);
+  const timedOut = /timeout/i.test(record.error ?? '');
+  const failedAssertions = unique(names.map(normalizeText));
+
+  const changed = hasDataChanges(record.dataDiff);
+  const expectedQuestion = names.some((name) => name.includes('clarification_question'));
+  const wrongToolUse =
+    missingTools.length > 0 ||
+    forbiddenTools.length > 0 ||
+    names.some((name) => /^Tools called in expected order|^Tool '[^']+' called/.test(name));
+  const wrongBlock = names.some((name) =>
+    /^Block '[^']+' (was|field)|^Added block '|^Block modified matching/.test(name)
+  );
+
+  let category: FailureCategory;
+  if (timedOut) {
+    category = 'timeout';
+  } else if (toolErrors.length > 0) {
+    category = 'tool-error';
+  } else if (record.error) {
+    category = 'execution-error';
+  } else if (!changed && !expectedQuestion && endsWithQuestion(record.agentResponse)) {
+    category = 'asked-instead-of-acting';
+  } else if (!changed && !expectedQuestion) {
+    category = 'gave-up';
+  } else if (wrongToolUse) {
+    category = 'wrong-tool';
+  } else if (wrongBlock) {
+    category = 'wrong-block-id';
+  } else {
+    category = 'wrong-result';
+  }
+
+  return { category, failedAssertions, missingTools, forbiddenTools, toolErrors, stderrPatterns, timedOut };
+}
+
+function signatureKey(signature: FailureSignature): string {
+  return JSON.stringify([
+    signature.category,
+    signature.failedAssertions,
+    signature.missingTools,
+    signature.forbiddenTools,
+    signature.toolErrors,
+    signature.stderrPatterns,
+  ]);
+}
+
+function clusterLabel(signature: FailureSignature): string {
+  const detail =
+    (signature.missingTools.length > 0 && `missing ${signature.missingTools.join(', ')}`) ||
+    (signature.forbiddenTools.length > 0 && `called ${signature.forbiddenTools.join(', ')}`) ||
+    signature.toolErrors[0] ||
+    signature.stderrPatterns[0] ||
+    signature.failedAssertions[0];
+
+  const label = FAILURE_CATEGORY_LABELS[signature.category];
+  return detail ? `${label}: ${detail}` : label;
+}
+
+// ============================================================================
+// CLUSTERING
+// ============================================================================
+
+/**
+ * Grupuje nieudane próby po sygnaturze (klastry od największego)
+ *
+ * @param maxExamples Limit przykładów (linków do prób) na klaster
+ */
+export function clusterFailures(
+  records: FailureRecord[],
+  options: { maxExamples?: number } = {}
+): FailureClusterReport {
+  const maxExamples = options.maxExamples ?? 5;
+  const clusters = new Map<string, FailureCluster>();
+
+  for (const record of records) {
+    const signature = failureSignature(record);
+    const key = signatureKey(signature);
+
+    let cluster = clusters.get(key);
+    if (!cluster) {
+      cluster = {
+        key,
+        category: signature.category,
+        label: clusterLabel(signature),
+        signature,
+        count: 0,
+        scenarioIds: [],
+        suiteIds: [],
+        examples: [],
+      };
+      clusters.set(key, cluster);
+    }
+
+    cluster.count++;
+    if (!cluster.scenarioIds.includes(record.scenarioId)) cluster.scenarioIds.push(record.scenarioId);
+    if (!cluster.suiteIds.includes(record.suiteId)) cluster.suiteIds.push(record.suiteId);
+    if (cluster.examples.length < maxExamples) {
+      cluster.examples.push({
+        suiteId: record.suiteId,
+        scenarioId: record.scenarioId,
+        scenarioName: record.scenarioName,
+        trial: record.trial,
+      });
+    }
+  }
+
+  const categoryCounts = Object.fromEntries(
+    Object.keys(FAILURE_CATEGORY_LABELS).map((category) => [category, 0])
+  ) as Record<FailureCategory, number>;
+  for (const cluster of clusters.values()) {
+    categoryCounts[cluster.category] += cluster.count;
+  }
+
+  return {
+    totalFailures: records.length,
+    clusters: [...clusters.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    categoryCounts,
+  };
+}
@@ -4,5 +4,21 @@
 
 export * from './tool-tracker';
 export * from './assertions';
+export * from './rubric-judge';
 export * from './test-harness';
 export * from './testable-agent-adapter';
+export * from './suite-config-snapshot';
+export * from './cassette';
+export * from './replay-agent-adapter';
+export * from './trial-stats';
+export * from './suite-comparison';
+export * from './failure-clustering';
+export * from './reporters';
+export * from './expectation-generator';
+export * from './experiment';
+export * from './prompt-optimizer';
+export * from './sandbox';
+export * from './concurrency';
+export * from './chapter-state';
+export * from './model-pricing';
+export * from './render-checks';
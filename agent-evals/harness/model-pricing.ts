@@ -0,0 +1,62 @@
+/**
+ * Model Pricing - szacowanie kosztu przebiegu na podstawie zużycia tokenów
+ *
+ * Używane przez budżet scenariusza (`budget.maxCostUsd`) i metryki wyników.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Cena w USD za 1M tokenów (MTok) */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// ============================================================================
+// PRICE TABLE
+// ============================================================================
+
+/**
+ * Cennik Anthropic (per MTok)
+ * https://www.anthropic.com/pricing
+ *
+ * Klucz = rodzina modelu; pełne ID modelu (np. 'claude-sonnet-...') jest
+ * dopasowywane po nazwie rodziny.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  haiku: { input: 1, output: 5 },
+  sonnet: { input: 3, output: 15 },
+  opus: { input: 15, output: 75 },
+};
+
+/**
+ * Zwraca cennik modelu (undefined gdy model nieznany)
+ */
+export function getModelPricing(
+  model: string,
+  pricing: Record<string, ModelPricing> = MODEL_PRICING
+): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const family = Object.keys(pricing).find((name) => model.toLowerCase().includes(name));
+  return family ? pricing[family] : undefined;
+}
+
+/**
+ * Szacowany koszt w USD (undefined gdy brak cennika dla modelu)
+ */
+export function estimateCostUsd(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  pricing: Record<string, ModelPricing> = MODEL_PRICING
+): number | undefined {
+  const modelPricing = getModelPricing(model, pricing);
+  if (!modelPricing) {
+    return undefined;
+  }
+  return (inputTokens * modelPricing.input + outputTokens * modelPricing.output) / 1_000_000;
+}
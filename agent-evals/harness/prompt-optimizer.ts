@@ -0,0 +1,488 @@
+/**
+ * Prompt Optimizer - automatyczne szukanie patchy system promptu (pętla optymalizacji)
+ *
+ * Proposer podsuwa kandydatów (zestawy patchy find/replace), każdy kandydat jest oceniany
+ * przez AgentTestHarness na tym samym zestawie scenariuszy, a najlepszy staje się bazą
+ * dla kolejnej iteracji. Pętla kończy się po wyczerpaniu iteracji, budżetu tokenów/kosztu
+ * albo gdy kolejne iteracje nic nie poprawiają.
+ *
+ * Proposer jest interfejsem (jak RubricJudge):
+ * - SnippetPatchProposer - lokalny, deterministyczny (biblioteka gotowych patchy)
+ * - LlmPatchProposer - deleguje propozycje do modelu przez wstrzykniętą funkcję completion
+ */
+
+import { AgentTestHarness, type TestHarnessOptions } from './test-harness';
+import { resolveSystemPromptInfo, type AgentType } from './testable-agent-adapter';
+import type { JudgeCompletionFn } from './rubric-judge';
+import type { SystemPromptConfig, TestScenario, TestResult } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PromptPatch = NonNullable<SystemPromptConfig['patches']>[number];
+
+/** Propozycja proposera - pełny zestaw patchy na prompt bazowy */
+export interface PatchCandidate {
+  patches: PromptPatch[];
+  /** Uzasadnienie propozycji (z modelu lub opis snippetu) */
+  rationale?: string;
+}
+
+export interface CandidateScore {
+  trials: number;
+  passedTrials: number;
+  passRate: number;
+  totalTokens: number;
+  /** Brak, gdy żadna próba nie ma kosztu (nieznany model w cenniku) */
+  totalCostUsd?: number;
+  avgLatencyMs: number;
+}
+
+export interface EvaluatedCandidate extends PatchCandidate {
+  /** Kolejny numer kandydata ('c0' = prompt bazowy) */
+  id: string;
+  /** 0 = baseline */
+  iteration: number;
+  /** Kandydat, z którego wyszła propozycja (najlepszy w chwili proponowania) */
+  parentId?: string;
+  score: CandidateScore;
+  /** Nieudane asercje - kontekst dla proposera */
+  failures: string[];
+}
+
+export interface PatchProposerInput {
+  /** Prompt bazowy, na który nakładane są patche */
+  basePrompt: string;
+  best: EvaluatedCandidate;
+  /** Wszyscy dotychczas ocenieni kandydaci (w kolejności oceny) */
+  history: EvaluatedCandidate[];
+  iteration: number;
+  /** Ile kandydatów zaproponować */
+  count: number;
+}
+
+export interface PatchProposer {
+  readonly name: string;
+  propose(input: PatchProposerInput): Promise<PatchCandidate[]>;
+}
+
+export interface PromptOptimizationBudget {
+  /** Liczba iteracji proponowania (domyślnie: 5) */
+  maxIterations?: number;
+  /** Kandydaci na iterację (domyślnie: 3) */
+  candidatesPerIteration?: number;
+  /** Stop po N iteracjach bez poprawy (domyślnie: 2) */
+  patience?: number;
+  /** Łączny limit tokenów wszystkich ocen (z baseline) */
+  maxTotalTokens?: number;
+  /** Łączny limit kosztu wszystkich ocen w USD (z baseline) */
+  maxTotalCostUsd?: number;
+}
+
+export type OptimizationStopReason =
+  | 'max-iterations'
+  | 'no-improvement'
+  | 'no-proposals'
+  | 'token-budget'
+  | 'cost-budget'
+  | 'stopped';
+
+export interface PromptOptimizerOptions {
+  agentType: AgentType;
+  /** Prompt bazowy (brak = domyślny prompt agenta) */
+  basePrompt?: SystemPromptConfig;
+  scenarios: TestScenario[];
+  proposer: PatchProposer;
+  budget?: PromptOptimizationBudget;
+  /** Opcje harnessu dla każdej oceny (system prompt ustawia optymalizator) */
+  harnessOptions?: Omit<TestHarnessOptions, 'defaultSystemPrompt'>;
+  /** Wywoływane po ocenie każdego kandydata (zapis do bazy, logi) */
+  onCandidate?: (candidate: EvaluatedCandidate, results: TestResult[], systemPrompt: SystemPromptConfig) => void | Promise<void>;
+  /** Sprawdzane przed każdą oceną - true przerywa optymalizację */
+  shouldStop?: () => boolean;
+}
+
+export interface PromptOptimizationReport {
+  proposer: string;
+  stopReason: OptimizationStopReason;
+  iterations: number;
+  baseline: EvaluatedCandidate;
+  best: EvaluatedCandidate;
+  /** Wszyscy kandydaci od najlepszego */
+  ranked: EvaluatedCandidate[];
+  /** Konfiguracja promptu zwycięzcy (do użycia w scenariuszach / run-suite) */
+  winner: SystemPromptConfig;
+  totalTokens: number;
+  totalCostUsd?: number;
+}
+
+/** Konfiguracja proposera w definicji (API / plik JSON) */
+export type PatchProposerConfig =
+  | { type: 'snippets'; snippets: PatchSnippet[]; seed?: number }
+  | { type: 'llm'; model?: 'haiku' | 'sonnet' | 'opus' };
+
+/**
+ * Definicja optymalizacji (body POST /api/optimizations)
+ */
+export interface PromptOptimizationDefinition {
+  name: string;
+  agent: AgentType;
+  /** Scenariusze: wskazane ścieżki albo wszystkie agenta, opcjonalnie filtrowane tagami */
+  scenarioIds?: string[];
+  tags?: string[];
+  basePrompt?: SystemPromptConfig;
+  proposer: PatchProposerConfig;
+  budget?: PromptOptimizationBudget;
+  model?: 'haiku' | 'sonnet' | 'opus';
+  thinkingMode?: 'think' | 'hard' | 'harder' | 'ultrathink';
+  /** Liczba prób każdego scenariusza przy ocenie kandydata */
+  repetitions?: number;
+  concurrency?: number;
+}
+
+const DEFAULT_BUDGET: Required<Pick<PromptOptimizationBudget, 'maxIterations' | 'candidatesPerIteration' | 'patience'>> = {
+  maxIterations: 5,
+  candidatesPerIteration: 3,
+  patience: 2,
+};
+
+/** Limit nieudanych asercji przekazywanych proposerowi */
+const MAX_FAILURES = 20;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Nakłada patche kolejno (jak resolveSystemPromptInfo)
+ *
+ * Zwraca null, gdy któregoś `find` nie ma w prompcie - patch byłby no-opem.
+ */
+export function applyPromptPatches(prompt: string, patches: PromptPatch[]): string | null {
+  let result = prompt;
+  for (const patch of patches) {
+    if (!patch.find || !result.includes(patch.find)) return null;
+    result = result.replace(patch.find, patch.replace);
+  }
+  return result;
+}
+
+/**
+ * Konfiguracja promptu kandydata
+ *
+ * Domyślny / patchowany prompt bazowy → patche doklejone do patchy bazy.
+ * Prompt raw / z pliku → patche nałożone lokalnie i wysłane jako raw.
+ */
+function candidateSystemPrompt(
+  base: SystemPromptConfig | undefined,
+  basePrompt: string,
+  patches: PromptPatch[]
+): SystemPromptConfig {
+  if (base?.raw || base?.file) {
+    return { raw: applyPromptPatches(basePrompt, patches) ?? basePrompt, mode: base.mode };
+  }
+  const allPatches = [...(base?.patches ?? []), ...patches];
+  return allPatches.length > 0 ? { patches: allPatches, mode: base?.mode } : { mode: base?.mode };
+}
+
+function patchesKey(patches: PromptPatch[]): string {
+  return JSON.stringify(patches.map((p) => [p.find, p.replace]));
+}
+
+function scoreResults(results: TestResult[]): CandidateScore {
+  const passedTrials = results.filter((r) => r.passed).length;
+  const costs = results.map((r) => r.metrics.costUsd).filter((c): c is number => c !== undefined);
+
+  return {
+    trials: results.length,
+    passedTrials,
+    passRate: results.length > 0 ? passedTrials / results.length : 0,
+    totalTokens: results.reduce((sum, r) => sum + r.metrics.totalTokens, 0),
+    totalCostUsd: costs.length > 0 ? costs.reduce((sum, c) => sum + c, 0) : undefined,
+    avgLatencyMs: results.length > 0 ? results.reduce((sum, r) => sum + r.metrics.latencyMs, 0) / results.length : 0,
+  };
+}
+
+function collectFailures(results: TestResult[]): string[] {
+  return results
+    .flatMap((r) =>
+      r.assertions
+        .filter((a) => !a.passed && !a.softCheck)
+        .map((a) => `${r.scenarioId}: ${a.name}${a.message ? ` - ${a.message}` : ''}`)
+    )
+    .slice(0, MAX_FAILURES);
+}
+
+/**
+ * Porządek kandydatów: pass rate malejąco, przy remisie tańszy (koszt, potem tokeny)
+ */
+export function compareCandidateScores(a: CandidateScore, b: CandidateScore): number {
+  if (b.passRate !== a.passRate) return b.passRate - a.passRate;
+  const costA = a.totalCostUsd ?? Infinity;
+  const costB = b.totalCostUsd ?? Infinity;
+  if (costA !== costB) return costA - costB;
+  return a.totalTokens - b.totalTokens;
+}
+
+/** Deterministyczny PRNG (mulberry32) - ten sam seed = te same propozycje */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// SNIPPET PROPOSER (lokalny, deterministyczny)
+// ============================================================================
+
+/** Gotowy patch z biblioteki snippetów */
+export interface PatchSnippet extends PromptPatch {
+  description?: string;
+}
+
+/**
+ * Lokalny proposer mutujący najlepszego kandydata snippetami z biblioteki.
+ *
+ * Mutacje: dodanie jednego nieużytego snippetu (którego `find` występuje w prompcie
+ * po patchach najlepszego kandydata) albo usunięcie jednego z jego patchy.
+ * Kandydaci już ocenieni są pomijani.
+ */
+export class SnippetPatchProposer implements PatchProposer {
+  readonly name = 'snippets';
+  private readonly random: () => number;
+
+  constructor(
+    private readonly snippets: PatchSnippet[],
+    options: { seed?: number } = {}
+  ) {
+    this.random = createRandom(options.seed ?? 1);
+  }
+
+  async propose(input: PatchProposerInput): Promise<PatchCandidate[]> {
+    const seen = new Set(input.history.map((c) => patchesKey(c.patches)));
+    const bestPatches = input.best.patches;
+    const mutations: PatchCandidate[] = [];
+
+    for (const snippet of this.snippets) {
+      const patches = [...bestPatches, { find: snippet.find, replace: snippet.replace }];
+      if (applyPromptPatches(input.basePrompt, patches) === null) continue;
+      mutations.push({ patches, rationale: `add: ${snippet.description ?? snippet.find}` });
+    }
+    for (let i = 0; i < bestPatches.length; i++) {
+      const patches = bestPatches.filter((_, index) => index !== i);
+      if (applyPromptPatches(input.basePrompt, patches) === null) continue;
+      mutations.push({ patches, rationale: `drop: ${bestPatches[i].find}` });
+    }
+
+    const fresh = mutations.filter((m) => !seen.has(patchesKey(m.patches)));
+
+    // Fisher-Yates z seedowanym PRNG
+    for (let i = fresh.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [fresh[i], fresh[j]] = [fresh[j], fresh[i]];
+    }
+
+    return fresh.slice(0, input.count);
+  }
+}
+
+// ============================================================================
+// LLM PROPOSER
+// ============================================================================
+
+/** Limit znaków promptu bazowego w zapytaniu do modelu */
+const MAX_PROMPT_CHARS = 20000;
+
+/**
+ * Proposer oparty o model językowy.
+ *
+ * Nie zależy od konkretnego SDK - wywołanie modelu jest wstrzykiwane przez `complete`.
+ * Model musi zwrócić JSON: { "candidates": [{ "patches": [{ "find", "replace" }], "rationale" }] }.
+ * Propozycje z `find` spoza promptu są odrzucane.
+ */
+export class LlmPatchProposer implements PatchProposer {
+  constructor(
+    private readonly complete: JudgeCompletionFn,
+    readonly name: string = 'llm'
+  ) {}
+
+  async propose(input: PatchProposerInput): Promise<PatchCandidate[]> {
+    const raw = await this.complete(this.buildPrompt(input));
+    const seen = new Set(input.history.map((c) => patchesKey(c.patches)));
+
+    return this.parseResponse(raw)
+      .filter((c) => applyPromptPatches(input.basePrompt, c.patches) !== null)
+      .filter((c) => !seen.has(patchesKey(c.patches)))
+      .slice(0, input.count);
+  }
+
+  private buildPrompt(input: PatchProposerInput): string {
+    const history = input.history
+      .map((c) => `- ${c.id}: pass rate ${(c.score.passRate * 100).toFixed(0)}%, patches ${JSON.stringify(c.patches)}`)
+      .join('\n');
+
+    return [
+      'You are improving the system prompt of a video editing assistant.',
+      `Propose ${input.count} alternative sets of find/replace patches applied to the base prompt below.`,
+      'Each "find" must be an exact substring of the base prompt. Patches are applied in order.',
+      'Start from the best candidate patches and change them to fix the failures.',
+      `\nBase prompt:\n"""\n${input.basePrompt.slice(0, MAX_PROMPT_CHARS)}\n"""`,
+      `\nBest candidate (${input.best.id}) patches: ${JSON.stringify(input.best.patches)}`,
+      input.best.failures.length > 0 ? `\nFailures of the best candidate:\n${input.best.failures.join('\n')}` : '',
+      history ? `\nEvaluated so far:\n${history}` : '',
+      '\nRespond with JSON only:',
+      '{ "candidates": [{ "patches": [{ "find": "<text>", "replace": "<text>" }], "rationale": "<short>" }] }',
+    ].join('\n');
+  }
+
+  private parseResponse(raw: string): PatchCandidate[] {
+    const match = raw.match(/\{[\s\S]*\}/);
+    if (!match) return [];
+
+    try {
+      const parsed = JSON.parse(match[0]) as { candidates?: unknown };
+      if (!Array.isArray(parsed.candidates)) return [];
+
+      return parsed.candidates.flatMap((candidate): PatchCandidate[] => {
+        const patches = (candidate as { patches?: unknown })?.patches;
+        if (!Array.isArray(patches)) return [];
+        const valid = patches.filter(
+          (p): p is PromptPatch => typeof p?.find === 'string' && typeof p?.replace === 'string'
+        );
+        if (valid.length !== patches.length) return [];
+        const rationale = (candidate as { rationale?: unknown }).rationale;
+        return [{ patches: valid, rationale: typeof rationale === 'string' ? rationale : undefined }];
+      });
+    } catch {
+      return [];
+    }
+  }
+}
+
+// ============================================================================
+// OPTIMIZATION LOOP
+// ============================================================================
+
+/**
+ * Pętla optymalizacji promptu
+ *
+ * Baseline (bez patchy) jest oceniany zawsze, budżet sprawdzany jest przed każdą kolejną oceną.
+ * Rzuca błąd, gdy brak scenariuszy lub promptu bazowego.
+ */
+export async function optimizePrompt(options: PromptOptimizerOptions): Promise<PromptOptimizationReport> {
+  const { agentType, basePrompt: baseConfig, scenarios, proposer, onCandidate, shouldStop } = options;
+  const budget = { ...DEFAULT_BUDGET, ...options.budget };
+
+  if (scenarios.length === 0) {
+    throw new Error('Prompt optimization needs at least one scenario');
+  }
+  const basePrompt = resolveSystemPromptInfo(agentType, baseConfig)?.rawPrompt;
+  if (!basePrompt) {
+    throw new Error(`Base prompt not found for agent: ${agentType}`);
+  }
+
+  const history: EvaluatedCandidate[] = [];
+  let totalTokens = 0;
+  let totalCostUsd: number | undefined;
+
+  const evaluate = async (candidate: PatchCandidate, iteration: number, parentId?: string) => {
+    const systemPrompt = candidateSystemPrompt(baseConfig, basePrompt, candidate.patches);
+    const harness = new AgentTestHarness({ ...options.harnessOptions, defaultSystemPrompt: systemPrompt });
+    const { results } = await harness.runScenarios(scenarios);
+
+    const evaluated: EvaluatedCandidate = {
+      ...candidate,
+      id: `c${history.length}`,
+      iteration,
+      parentId,
+      score: scoreResults(results),
+      failures: collectFailures(results),
+    };
+    history.push(evaluated);
+    totalTokens += evaluated.score.totalTokens;
+    if (evaluated.score.totalCostUsd !== undefined) {
+      totalCostUsd = (totalCostUsd ?? 0) + evaluated.score.totalCostUsd;
+    }
+
+    await onCandidate?.(evaluated, results, systemPrompt);
+    return evaluated;
+  };
+
+  const budgetExceeded = (): OptimizationStopReason | null => {
+    if (shouldStop?.()) return 'stopped';
+    if (budget.maxTotalTokens !== undefined && totalTokens >= budget.maxTotalTokens) return 'token-budget';
+    if (budget.maxTotalCostUsd !== undefined && (totalCostUsd ?? 0) >= budget.maxTotalCostUsd) return 'cost-budget';
+    return null;
+  };
+
+  const baseline = await evaluate({ patches: [], rationale: 'baseline' }, 0);
+  let best = baseline;
+  let iterations = 0;
+  let stalled = 0;
+  let stopReason: OptimizationStopReason = 'max-iterations';
+
+  for (let iteration = 1; iteration <= budget.maxIterations; iteration++) {
+    const exceeded = budgetExceeded();
+    if (exceeded) {
+      stopReason = exceeded;
+      break;
+    }
+
+    const proposals = await proposer.propose({
+      basePrompt,
+      best,
+      history: [...history],
+      iteration,
+      count: budget.candidatesPerIteration,
+    });
+    if (proposals.length === 0) {
+      stopReason = 'no-proposals';
+      break;
+    }
+
+    iterations = iteration;
+    const parent = best;
+    let improved = false;
+    let halted: OptimizationStopReason | null = null;
+
+    for (const proposal of proposals.slice(0, budget.candidatesPerIteration)) {
+      halted = budgetExceeded();
+      if (halted) break;
+
+      const evaluated = await evaluate(proposal, iteration, parent.id);
+      if (compareCandidateScores(evaluated.score, best.score) < 0) {
+        best = evaluated;
+        improved = true;
+      }
+    }
+
+    if (halted) {
+      stopReason = halted;
+      break;
+    }
+
+    stalled = improved ? 0 : stalled + 1;
+    if (stalled >= budget.patience) {
+      stopReason = 'no-improvement';
+      break;
+    }
+  }
+
+  return {
+    proposer: proposer.name,
+    stopReason,
+    iterations,
+    baseline,
+    best,
+    ranked: [...history].sort((a, b) => compareCandidateScores(a.score, b.score)),
+    winner: candidateSystemPrompt(baseConfig, basePrompt, best.patches),
+    totalTokens,
+    totalCostUsd,
+  };
+}
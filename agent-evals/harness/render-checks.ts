@@ -0,0 +1,273 @@
+/**
+ * Render Checks - sprawdzenia wyrenderowanego chaptera po przebiegu agenta
+ *
+ * Render i analiza pliku wymagają ffmpeg i silnika renderowania, więc harness
+ * dostaje je przez interfejs RenderChecker (implementacja w API: renderCheckService).
+ * Bez checkera oczekiwania `renderChecks` kończą się informacyjnym soft checkiem.
+ * Tutaj zostaje czysta część: łączenie oczekiwań i porównanie raportu z limitami.
+ */
+
+import type {
+  AssertionResult,
+  DataDiff,
+  RenderCheckReport,
+  RenderChecksExpectation,
+  RenderTimeSegment,
+  ScenarioExpectations,
+} from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RenderCheckRequest {
+  /** Suite run, w którym działa scenariusz (do powiązania joba renderu) */
+  suiteId?: string;
+  scenarioId: string;
+  projectId: string;
+  chapterId: string;
+  /** Zmiany agenta nakładane na fixtures przed renderem */
+  dataDiff: DataDiff;
+  expectation: ResolvedRenderChecks;
+}
+
+export interface RenderChecker {
+  /** Renderuje stan końcowy chaptera i analizuje plik. Błędy zwraca w `report.error`. */
+  check(request: RenderCheckRequest): Promise<RenderCheckReport>;
+}
+
+export type ResolvedRenderChecks = Required<RenderChecksExpectation>;
+
+type RenderLimit = 'maxBlackSec' | 'maxFrozenSec' | 'maxSilenceSec' | 'maxLoudnessJumpLu' | 'durationToleranceFrames' | 'maxAvDriftMs';
+
+const RENDER_LIMITS: RenderLimit[] = [
+  'maxBlackSec',
+  'maxFrozenSec',
+  'maxSilenceSec',
+  'maxLoudnessJumpLu',
+  'durationToleranceFrames',
+  'maxAvDriftMs',
+];
+
+// Sprawdzenia ścieżki audio - bez strumienia audio są tylko informacyjne
+const AUDIO_LIMITS = new Set<RenderLimit>(['maxSilenceSec', 'maxLoudnessJumpLu', 'maxAvDriftMs']);
+
+export const DEFAULT_RENDER_CHECKS: ResolvedRenderChecks = {
+  engine: 'remotion',
+  maxBlackSec: 0.5,
+  maxFrozenSec: 2,
+  maxSilenceSec: 1,
+  silenceThresholdDb: -50,
+  maxLoudnessJumpLu: 10,
+  durationToleranceFrames: 1,
+  maxAvDriftMs: 100,
+  soft: false,
+};
+
+// ============================================================================
+// RESOLVE
+// ============================================================================
+
+/**
+ * Łączy `renderChecks` z zestawów oczekiwań scenariusza
+ *
+ * Zestawy są alternatywami (OR), więc dla każdego pola wygrywa najłagodniejszy
+ * limit (`false` wyłącza sprawdzenie). Zwraca undefined gdy żaden zestaw nie
+ * ma `renderChecks` - wtedy harness nie renderuje.
+ */
+export function resolveRenderChecks(expectations: ScenarioExpectations[]): ResolvedRenderChecks | undefined {
+  const checks = expectations
+    .map((e) => e.renderChecks)
+    .filter((c): c is RenderChecksExpectation => !!c);
+  if (checks.length === 0) {
+    return undefined;
+  }
+
+  const merged: ResolvedRenderChecks = {
+    ...DEFAULT_RENDER_CHECKS,
+    engine: checks.find((c) => c.engine)?.engine ?? DEFAULT_RENDER_CHECKS.engine,
+    soft: checks.some((c) => c.soft),
+  };
+
+  for (const key of RENDER_LIMITS) {
+    const limits = checks.map((c) => c[key]).filter((l): l is number | false => l !== undefined);
+    if (limits.length === 0) continue;
+    merged[key] = limits.includes(false) ? false : Math.max(...(limits as number[]));
+  }
+
+  const thresholds = checks.map((c) => c.silenceThresholdDb).filter((t): t is number => t !== undefined);
+  if (thresholds.length > 0) {
+    // Niższy próg = mniej fragmentów uznanych za ciszę
+    merged.silenceThresholdDb = Math.min(...thresholds);
+  }
+
+  return merged;
+}
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+function longest(segments: RenderTimeSegment[]): RenderTimeSegment | undefined {
+  return segments.reduce<RenderTimeSegment | undefined>(
+    (max, segment) => (!max || segment.durationSec > max.durationSec ? segment : max),
+    undefined
+  );
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Porównuje raport renderu z limitami - jedna asercja na włączone sprawdzenie
+ */
+export function checkRenderExpectations(
+  expectation: ResolvedRenderChecks,
+  report: RenderCheckReport
+): AssertionResult[] {
+  const soft = expectation.soft;
+
+  if (report.error) {
+    return [{
+      name: `Render: ${expectation.engine}`,
+      passed: false,
+      softCheck: soft,
+      expected: 'rendered chapter',
+      actual: report.error,
+      message: `Render checks failed: ${report.error}`,
+    }];
+  }
+
+  const results: AssertionResult[] = [];
+
+  for (const key of RENDER_LIMITS) {
+    const limit = expectation[key];
+    if (limit === false) continue;
+
+    const name = `Render: ${key} (${limit})`;
+
+    if (AUDIO_LIMITS.has(key) && !report.hasAudio) {
+      results.push({
+        name,
+        passed: false,
+        softCheck: true,
+        expected: `<= ${limit}`,
+        actual: 'no audio stream',
+        message: `Cannot check ${key} - rendered video has no audio stream`,
+      });
+      continue;
+    }
+
+    const { actual, detail } = measure(key, report);
+
+    // Brak wartości (np. ffprobe nie podał długości) - wynik informacyjny
+    if (actual === undefined) {
+      results.push({
+        name,
+        passed: false,
+        softCheck: true,
+        expected: `<= ${limit}`,
+        actual: 'unknown',
+        message: `Cannot check ${key} - no value in render report`,
+      });
+      continue;
+    }
+
+    const passed = actual <= limit;
+    results.push({
+      name,
+      passed,
+      softCheck: soft && !passed,
+      expected: `<= ${limit}`,
+      actual: round(actual),
+      message: passed
+        ? undefined
+        : `Render check '${key}' exceeded: ${round(actual)} > ${limit}${detail ? ` (${detail})` : ''}${soft ? ' (soft check)' : ''}`,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Wartość porównywana z limitem + opis miejsca problemu do komunikatu
+ */
+function measure(key: RenderLimit, report: RenderCheckReport): { actual?: number; detail?: string } {
+  const describe = (segment?: RenderTimeSegment) =>
+    segment ? `at ${round(segment.startSec)}s-${round(segment.endSec)}s` : undefined;
+
+  switch (key) {
+    case 'maxBlackSec': {
+      const segment = longest(report.blackSegments);
+      return { actual: segment?.durationSec ?? 0, detail: describe(segment) };
+    }
+    case 'maxFrozenSec': {
+      const segment = longest(report.frozenSegments);
+      return { actual: segment?.durationSec ?? 0, detail: describe(segment) };
+    }
+    case 'maxSilenceSec': {
+      const segment = longest(report.silenceSegments);
+      return { actual: segment?.durationSec ?? 0, detail: describe(segment) };
+    }
+    case 'maxLoudnessJumpLu': {
+      const cut = report.cutPoints
+        .filter((c) => c.jumpLu !== undefined)
+        .reduce<typeof report.cutPoints[number] | undefined>((max, c) => (!max || c.jumpLu! > max.jumpLu! ? c : max), undefined);
+      return {
+        actual: cut?.jumpLu ?? 0,
+        detail: cut ? `cut at ${round(cut.timeSec)}s: ${cut.beforeLufs} -> ${cut.afterLufs} LUFS` : undefined,
+      };
+    }
+    case 'durationToleranceFrames': {
+      if (report.frameCount === undefined || report.expectedDurationInFrames === undefined) return {};
+      return {
+        actual: Math.abs(report.frameCount - report.expectedDurationInFrames),
+        detail: `rendered ${report.frameCount} frames, timeline ${report.expectedDurationInFrames}`,
+      };
+    }
+    case 'maxAvDriftMs':
+      return { actual: report.avDriftMs };
+  }
+}
+
+// ============================================================================
+// RUN
+// ============================================================================
+
+/**
+ * Renderuje i sprawdza chapter (wywoływane przez harness po zakończeniu agenta)
+ */
+export async function runRenderChecks(
+  checker: RenderChecker | undefined,
+  request: RenderCheckRequest
+): Promise<{ assertions: AssertionResult[]; report?: RenderCheckReport }> {
+  // Scenariusz deklaruje renderChecks - cichy skip dawałby zielony wynik bez sprawdzenia renderu
+  if (!checker) {
+    return {
+      assertions: [{
+        name: 'Render: checker',
+        passed: false,
+        message: 'Scenario declares renderChecks but no render checker is configured',
+      }],
+    };
+  }
+
+  let report: RenderCheckReport;
+  try {
+    report = await checker.check(request);
+  } catch (error) {
+    report = {
+      engine: request.expectation.engine,
+      error: error instanceof Error ? error.message : String(error),
+      blackSegments: [],
+      frozenSegments: [],
+      hasAudio: false,
+      silenceSegments: [],
+      cutPoints: [],
+    };
+  }
+
+  return { assertions: checkRenderExpectations(request.expectation, report), report };
+}
@@ -0,0 +1,159 @@
+/**
+ * ReplayAgentAdapter - odtwarza nagraną kasetę zamiast wywoływać model
+ *
+ * Dla każdej tury:
+ * 1. Ponownie wykonuje nagrane wywołania narzędzi MCP (te same inputy) na świeżych fixtures
+ * 2. Emituje nagrane wiadomości (live streaming działa jak przy normalnym przebiegu)
+ * 3. Zwraca nagraną odpowiedź agenta
+ *
+ * Dzięki temu DataDiff i asercje są liczone deterministycznie, bez sieci.
+ * Narzędzia SDK (Task, TodoWrite, ...) nie mają handlerów - są pomijane,
+ * a harness i tak wyciąga je z nagranych wiadomości.
+ */
+
+import { JsonStorage } from '../storage/json-storage';
+import { ToolTracker } from './tool-tracker';
+import { registerJsonStorage, type ResolvedPromptInfo } from './testable-agent-adapter';
+import { getToolHandlers } from './tool-definitions-provider';
+import type { ITestableAgent } from './test-harness';
+import type { Cassette } from './cassette';
+import type { RawMessage } from '../types/scenario';
+
+export class ReplayAgentAdapter implements ITestableAgent {
+  public readonly name: string;
+  private cassette: Cassette;
+  private tracker: ToolTracker;
+  private turnIndex = 0;
+  private cancelled = false;
+
+  // Wiadomości bieżącej tury (dla partial results)
+  private collectedMessages: RawMessage[] = [];
+
+  // Logi odtwarzania (pominięte narzędzia, rozbieżności wyników) - trafiają do stderrLogs
+  private replayLogs: string[] = [];
+
+  private trackedTools: Record<string, (...args: unknown[]) => unknown> = {};
+
+  constructor(cassette: Cassette, storage: JsonStorage, tracker: ToolTracker) {
+    this.cassette = cassette;
+    this.tracker = tracker;
+    this.name = `Replay(${cassette.scenarioId})`;
+
+    registerJsonStorage(storage);
+  }
+
+  /**
+   * Odtwarza kolejną nagraną turę
+   */
+  async chat(
+    _threadId: string,
+    message: string,
+    _options: { model?: string },
+    context?: Record<string, unknown>,
+    onMessage?: (message: RawMessage) => void
+  ): Promise<{
+    response: string;
+    metrics: { inputTokens: number; outputTokens: number; turnCount: number };
+    messages: RawMessage[];
+  }> {
+    this.collectedMessages = [];
+    this.cancelled = false;
+
+    const turn = this.cassette.turns[this.turnIndex];
+    if (!turn) {
+      throw new Error(
+        `Cassette for '${this.cassette.scenarioId}' has no recorded turn ${this.turnIndex + 1}`
+      );
+    }
+    this.turnIndex++;
+
+    if (turn.userMessage !== message) {
+      this.replayLogs.push(
+        `[Replay] Turn ${this.turnIndex}: user message differs from recording ("${turn.userMessage}" → "${message}")`
+      );
+    }
+
+    const projectId = context?.projectId as string;
+    const chapterId = context?.chapterId as string;
+    const handlers = getToolHandlers({ projectId, chapterId });
+
+    // 1. Ponownie wykonaj nagrane wywołania narzędzi MCP (w nagranej kolejności)
+    const recordedCalls = [...turn.toolCalls].sort((a, b) => a.order - b.order);
+    for (const call of recordedCalls) {
+      if (this.cancelled) break;
+
+      const handler = handlers.get(call.toolName);
+      if (!handler) {
+        this.replayLogs.push(`[Replay] Skipped '${call.toolName}' - not an MCP tool`);
+        continue;
+      }
+
+      let output: unknown;
+      try {
+        output = await this.tracker.wrap(call.toolName, handler)(call.input);
+      } catch (error) {
+        // Tracker zapisał błąd jako output - agent też dostał błąd, kontynuuj
+        output = { error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (call.output !== undefined && JSON.stringify(output) !== JSON.stringify(call.output)) {
+        this.replayLogs.push(`[Replay] Output of '${call.toolName}' (#${call.order}) differs from recording`);
+      }
+    }
+
+    // 2. Wyemituj nagrane wiadomości
+    for (const recorded of turn.messages) {
+      this.collectedMessages.push(recorded);
+      onMessage?.(recorded);
+    }
+
+    return {
+      response: turn.response,
+      metrics: { ...turn.metrics },
+      messages: this.collectedMessages,
+    };
+  }
+
+  getTools(): Record<string, (...args: unknown[]) => unknown> {
+    return this.trackedTools;
+  }
+
+  setTools(tools: Record<string, (...args: unknown[]) => unknown>): void {
+    this.trackedTools = tools;
+  }
+
+  getPartialMetrics(): { inputTokens: number; outputTokens: number; turnCount: number } {
+    return {
+      inputTokens: 0,
+      outputTokens: 0,
+      turnCount: this.collectedMessages.filter((m) => m.role === 'assistant').length,
+    };
+  }
+
+  getCollectedMessages(): RawMessage[] {
+    return this.collectedMessages;
+  }
+
+  getCollectedStderrLogs(): string[] {
+    return [`[Replay] Cassette: ${this.cassette.source} recorded at ${this.cassette.recordedAt}`, ...this.replayLogs];
+  }
+
+  /**
+   * Zwraca nagrany prompt (w formacie TestableAgentAdapter)
+   */
+  getResolvedPromptInfo(): ResolvedPromptInfo | undefined {
+    const info = this.cassette.systemPromptInfo;
+    if (!info) return undefined;
+    return {
+      source: info.source,
+      sourceFile: info.sourceFile,
+      patches: info.patches,
+      rawPrompt: info.content || '',
+      resolvedPrompt: info.resolvedContent,
+    };
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+}
@@ -0,0 +1,382 @@
+/**
+ * Reporters - eksport wyników suite'a do formatów dla CI i code review
+ *
+ * - junit    - JUnit XML (CI: GitLab, Jenkins, GitHub Actions)
+ * - tap      - TAP version 13
+ * - markdown - podsumowanie do komentarza w PR (tabela, delty tokenów vs baseline, linki)
+ * - html     - samodzielny plik HTML (bez zewnętrznych zasobów)
+ *
+ * Formattery są rejestrowane w REPORT_FORMATTERS - własny format dodaje się przez
+ * registerReportFormatter, bez zmian w API i CLI.
+ */
+
+import { summarizeResults } from './test-harness';
+import { groupResultsByScenario } from './trial-stats';
+import type { ComparableResult } from './suite-comparison';
+import type { TestResult, AssertionResult } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReportInput {
+  suite: {
+    id: string;
+    createdAt: string;
+    label?: string;
+    tags?: string[];
+  };
+  results: TestResult[];
+  /** Suite bazowy do delt tokenów / czasu (Markdown, HTML) */
+  baseline?: {
+    suiteId: string;
+    results: ComparableResult[];
+  };
+  /** Adres dashboardu - linki do nieudanych scenariuszy (brak = bez linków) */
+  dashboardUrl?: string;
+}
+
+export interface ReportFormatter {
+  readonly name: string;
+  /** Rozszerzenie pliku (bez kropki) */
+  readonly extension: string;
+  readonly contentType: string;
+  format(input: ReportInput): string;
+}
+
+/** Scenariusz w raporcie - próby zagregowane, jak w summarizeResults */
+interface ScenarioRow {
+  scenarioId: string;
+  scenarioName: string;
+  trials: TestResult[];
+  passedTrials: number;
+  passed: boolean;
+  avgTokens: number;
+  avgLatencyMs: number;
+  /** Różnica średnich tokenów względem baseline (brak, gdy scenariusza nie było w baseline) */
+  tokensDelta?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function buildScenarioRows(input: ReportInput): ScenarioRow[] {
+  const baselineTokens = new Map<string, number>();
+  if (input.baseline) {
+    for (const [scenarioId, trials] of groupResultsByScenario(input.baseline.results)) {
+      baselineTokens.set(scenarioId, average(trials.map((r) => r.metrics.totalTokens)));
+    }
+  }
+
+  return [...groupResultsByScenario(input.results)].map(([scenarioId, trials]) => {
+    const passedTrials = trials.filter((r) => r.passed).length;
+    const avgTokens = average(trials.map((r) => r.metrics.totalTokens));
+    const baseline = baselineTokens.get(scenarioId);
+
+    return {
+      scenarioId,
+      scenarioName: trials[0].scenarioName,
+      trials,
+      passedTrials,
+      passed: passedTrials === trials.length,
+      avgTokens,
+      avgLatencyMs: average(trials.map((r) => r.metrics.latencyMs)),
+      tokensDelta: baseline !== undefined ? avgTokens - baseline : undefined,
+    };
+  });
+}
+
+/** Nieudane asercje próby (bez soft checków) */
+function failedAssertions(result: TestResult): AssertionResult[] {
+  return result.assertions.filter((a) => !a.passed && !a.softCheck);
+}
+
+function failureLines(result: TestResult): string[] {
+  const lines = failedAssertions(result).map((a) => `${a.name}${a.message ? `: ${a.message}` : ''}`);
+  if (result.error && !lines.some((line) => line.includes(result.error!))) {
+    lines.push(`Error: ${result.error}`);
+  }
+  return lines;
+}
+
+function scenarioUrl(input: ReportInput, result: Pick<TestResult, 'scenarioId' | 'trial'>): string | undefined {
+  if (!input.dashboardUrl) return undefined;
+  const base = input.dashboardUrl.replace(/\/$/, '');
+  const trial = result.trial ? `?trial=${result.trial}` : '';
+  return `${base}/results/${input.suite.id}/scenario/${encodeURIComponent(result.scenarioId)}${trial}`;
+}
+
+function suiteTitle(input: ReportInput): string {
+  return input.suite.label || `Suite ${input.suite.id.slice(0, 8)}`;
+}
+
+function formatDelta(delta: number | undefined): string {
+  if (delta === undefined) return '-';
+  const rounded = Math.round(delta);
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Znaki sterujące są niedozwolone w XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/** Suma delt średnich tokenów - tylko scenariusze obecne w obu suite'ach */
+function totalsDelta(rows: ScenarioRow[], input: ReportInput): number | undefined {
+  if (!input.baseline) return undefined;
+  return rows.reduce((sum, row) => sum + (row.tokensDelta ?? 0), 0);
+}
+
+// ============================================================================
+// JUNIT
+// ============================================================================
+
+/**
+ * JUnit XML - każda próba to testcase; classname = katalog scenariusza (np. montage/remove-gaps)
+ */
+export const junitFormatter: ReportFormatter = {
+  name: 'junit',
+  extension: 'xml',
+  contentType: 'application/xml',
+
+  format(input) {
+    const summary = summarizeResults(input.results);
+    const failures = input.results.filter((r) => !r.passed && !r.error).length;
+    const errors = input.results.filter((r) => !r.passed && r.error).length;
+    const time = (summary.totalLatencyMs / 1000).toFixed(3);
+
+    const testcases = input.results.map((result) => {
+      const classname = result.scenarioId.includes('/')
+        ? result.scenarioId.slice(0, result.scenarioId.lastIndexOf('/')).replace(/\//g, '.')
+        : 'scenarios';
+      const name = `${result.scenarioName}${result.trial ? ` [trial ${result.trial}]` : ''}`;
+      const attrs = `classname="${escapeXml(classname)}" name="${escapeXml(name)}" time="${(result.metrics.latencyMs / 1000).toFixed(3)}"`;
+
+      if (result.passed) {
+        return `    <testcase ${attrs} />`;
+      }
+
+      const details = escapeXml(failureLines(result).join('\n'));
+      const element = result.error
+        ? `<error message="${escapeXml(result.error)}" type="ExecutionError">${details}</error>`
+        : `<failure message="${escapeXml(failedAssertions(result)[0]?.name ?? 'failed')}" type="AssertionFailure">${details}</failure>`;
+      const stderr = result.stderrLogs?.length
+        ? `\n      <system-err>${escapeXml(result.stderrLogs.join('\n'))}</system-err>`
+        : '';
+
+      return `    <testcase ${attrs}>\n      ${element}${stderr}\n    </testcase>`;
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="agent-evals" tests="${input.results.length}" failures="${failures}" errors="${errors}" time="${time}">`,
+      `  <testsuite name="${escapeXml(suiteTitle(input))}" id="${escapeXml(input.suite.id)}" tests="${input.results.length}" failures="${failures}" errors="${errors}" time="${time}" timestamp="${escapeXml(input.suite.createdAt)}">`,
+      ...testcases,
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n');
+  },
+};
+
+// ============================================================================
+// TAP
+// ============================================================================
+
+function tapYamlString(text: string): string {
+  return JSON.stringify(text);
+}
+
+export const tapFormatter: ReportFormatter = {
+  name: 'tap',
+  extension: 'tap',
+  contentType: 'text/plain',
+
+  format(input) {
+    const lines = ['TAP version 13', `1..${input.results.length}`];
+
+    input.results.forEach((result, index) => {
+      const name = `${result.scenarioId}${result.trial ? ` [trial ${result.trial}]` : ''}`;
+      lines.push(`${result.passed ? 'ok' : 'not ok'} ${index + 1} - ${name}`);
+
+      if (!result.passed) {
+        lines.push('  ---');
+        lines.push(`  tokens: ${result.metrics.totalTokens}`);
+        lines.push(`  latencyMs: ${result.metrics.latencyMs}`);
+        lines.push('  failures:');
+        for (const line of failureLines(result)) {
+          lines.push(`    - ${tapYamlString(line)}`);
+        }
+        const url = scenarioUrl(input, result);
+        if (url) lines.push(`  url: ${tapYamlString(url)}`);
+        lines.push('  ...');
+      }
+    });
+
+    const summary = summarizeResults(input.results);
+    lines.push(`# pass rate ${formatPercent(summary.passRate)}, ${summary.totalTokens} tokens`);
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+export const markdownFormatter: ReportFormatter = {
+  name: 'markdown',
+  extension: 'md',
+  contentType: 'text/markdown',
+
+  format(input) {
+    const summary = summarizeResults(input.results);
+    const rows = buildScenarioRows(input);
+    const tokensDelta = totalsDelta(rows, input);
+    const status = summary.failed === 0 ? '✅' : '❌';
+
+    const lines = [
+      `## ${status} ${suiteTitle(input)}`,
+      '',
+      `**${summary.passed}/${summary.total}** scenarios passed · pass rate **${formatPercent(summary.passRate)}**` +
+        (summary.totalTrials > summary.total ? ` · ${summary.totalTrials} trials` : ''),
+      '',
+      `Tokens: ${summary.totalTokens.toLocaleString('en-US')}` +
+        (tokensDelta !== undefined ? ` (${formatDelta(tokensDelta)} vs baseline \`${input.baseline!.suiteId.slice(0, 8)}\`)` : '') +
+        ` · Latency: ${(summary.totalLatencyMs / 1000).toFixed(1)}s`,
+      '',
+      '| Scenario | Result | Avg tokens | Δ tokens | Avg latency |',
+      '| --- | --- | ---: | ---: | ---: |',
+      ...rows.map((row) => {
+        const result = row.trials.length > 1
+          ? `${row.passed ? '✅' : '❌'} ${row.passedTrials}/${row.trials.length}`
+          : row.passed ? '✅' : '❌';
+        return `| ${escapeMarkdownCell(row.scenarioName)} | ${result} | ${Math.round(row.avgTokens)} | ${formatDelta(row.tokensDelta)} | ${(row.avgLatencyMs / 1000).toFixed(1)}s |`;
+      }),
+    ];
+
+    const failed = input.results.filter((r) => !r.passed);
+    if (failed.length > 0) {
+      lines.push('', '### Failures', '');
+      for (const result of failed) {
+        const url = scenarioUrl(input, result);
+        const title = `${result.scenarioName}${result.trial ? ` (trial ${result.trial})` : ''}`;
+        lines.push(`- ${url ? `[${title}](${url})` : `**${title}**`}`);
+        for (const line of failureLines(result)) {
+          lines.push(`  - ${escapeMarkdownCell(line)}`);
+        }
+      }
+    }
+
+    return `${lines.join('\n')}\n`;
+  },
+};
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_STYLE = `
+body { font-family: -apple-system, 'Segoe UI', sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { border-bottom: 1px solid #ddd; padding: 6px 10px; text-align: left; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.pass { color: #2e7d32; } .fail { color: #c62828; }
+details { margin: 0.5rem 0; } summary { cursor: pointer; }
+pre { background: #f5f5f5; padding: 8px; white-space: pre-wrap; }
+`;
+
+export const htmlFormatter: ReportFormatter = {
+  name: 'html',
+  extension: 'html',
+  contentType: 'text/html',
+
+  format(input) {
+    const summary = summarizeResults(input.results);
+    const rows = buildScenarioRows(input);
+    const tokensDelta = totalsDelta(rows, input);
+    const title = escapeXml(suiteTitle(input));
+
+    const tableRows = rows.map((row) => {
+      const cls = row.passed ? 'pass' : 'fail';
+      const result = `${row.passed ? 'PASS' : 'FAIL'}${row.trials.length > 1 ? ` ${row.passedTrials}/${row.trials.length}` : ''}`;
+      return `<tr><td>${escapeXml(row.scenarioName)}</td><td class="${cls}">${result}</td>` +
+        `<td class="num">${Math.round(row.avgTokens)}</td><td class="num">${formatDelta(row.tokensDelta)}</td>` +
+        `<td class="num">${(row.avgLatencyMs / 1000).toFixed(1)}s</td></tr>`;
+    });
+
+    const failures = input.results.filter((r) => !r.passed).map((result) => {
+      const url = scenarioUrl(input, result);
+      const name = escapeXml(`${result.scenarioName}${result.trial ? ` (trial ${result.trial})` : ''}`);
+      return `<details><summary class="fail">${url ? `<a href="${escapeXml(url)}">${name}</a>` : name}</summary>` +
+        `<pre>${escapeXml(failureLines(result).join('\n'))}</pre></details>`;
+    });
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en"><head><meta charset="utf-8">',
+      `<title>${title}</title>`,
+      `<style>${HTML_STYLE}</style>`,
+      '</head><body>',
+      `<h1>${title}</h1>`,
+      `<p>${escapeXml(new Date(input.suite.createdAt).toISOString())} · suite <code>${escapeXml(input.suite.id)}</code></p>`,
+      `<p><strong>${summary.passed}/${summary.total}</strong> scenarios passed · pass rate <strong>${formatPercent(summary.passRate)}</strong>` +
+        ` · tokens ${summary.totalTokens}${tokensDelta !== undefined ? ` (${formatDelta(tokensDelta)} vs baseline)` : ''}` +
+        ` · latency ${(summary.totalLatencyMs / 1000).toFixed(1)}s</p>`,
+      '<table><thead><tr><th>Scenario</th><th>Result</th><th>Avg tokens</th><th>Δ tokens</th><th>Avg latency</th></tr></thead>',
+      `<tbody>${tableRows.join('\n')}</tbody></table>`,
+      failures.length > 0 ? `<h2>Failures</h2>\n${failures.join('\n')}` : '',
+      '</body></html>',
+      '',
+    ].join('\n');
+  },
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/** Map, nie obiekt - nazwy z CLI nie mogą trafić w pola prototypu (constructor, toString) */
+export const REPORT_FORMATTERS = new Map<string, ReportFormatter>(
+  [junitFormatter, tapFormatter, markdownFormatter, htmlFormatter].map((formatter) => [formatter.name, formatter])
+);
+
+export function registerReportFormatter(formatter: ReportFormatter): void {
+  REPORT_FORMATTERS.set(formatter.name, formatter);
+}
+
+/**
+ * Formatter po nazwie - rzuca błąd z listą dostępnych dla nieznanej nazwy
+ */
+export function getReportFormatter(name: string): ReportFormatter {
+  const formatter = REPORT_FORMATTERS.get(name);
+  if (!formatter) {
+    throw new Error(`Unknown reporter '${name}' (available: ${[...REPORT_FORMATTERS.keys()].join(', ')})`);
+  }
+  return formatter;
+}
+
+/**
+ * Domyślny adres dashboardu (EVAL_DASHBOARD_URL lub lokalny port Vite)
+ */
+export function defaultDashboardUrl(): string {
+  return process.env.EVAL_DASHBOARD_URL || `http://localhost:${process.env.EVAL_DASHBOARD_PORT || '3101'}`;
+}
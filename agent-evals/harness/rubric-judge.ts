@@ -0,0 +1,292 @@
+/**
+ * Rubric Judge - ocena odpowiedzi agenta według kryteriów (LLM-as-judge)
+ *
+ * Judge jest interfejsem, dzięki czemu można go podmienić:
+ * - KeywordRubricJudge - lokalny, deterministyczny (działa offline, domyślny)
+ * - LlmRubricJudge - deleguje ocenę do modelu przez wstrzykniętą funkcję completion
+ *
+ * Judge jest asynchroniczny, więc oceny są liczone PRZED sprawdzeniem asercji
+ * (evaluateRubrics), a AssertionChecker tylko porównuje wyniki z progami.
+ */
+
+import type {
+  ScenarioExpectations,
+  RubricExpectation,
+  RubricCriterion,
+  DataDiff,
+  EntityDiff,
+} from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RubricJudgeInput {
+  rubric: RubricExpectation;
+  /** Wiadomość użytkownika, na którą odpowiadał agent */
+  userMessage?: string;
+  agentResponse?: string;
+  /** Zmiany danych wykonane przez agenta */
+  dataDiff: DataDiff;
+}
+
+export interface CriterionJudgement {
+  criterionId: string;
+  /** Wynik 0-1 */
+  score: number;
+  reasoning: string;
+}
+
+export interface RubricJudgement {
+  /** Nazwa judge'a, który wystawił ocenę */
+  judge: string;
+  criteria: CriterionJudgement[];
+  /** Błąd judge'a (np. niepoprawna odpowiedź modelu) - wtedy wszystkie wyniki = 0 */
+  error?: string;
+}
+
+export interface RubricJudge {
+  readonly name: string;
+  judge(input: RubricJudgeInput): Promise<RubricJudgement>;
+}
+
+/** Oceny rubryk scenariusza - kluczem jest obiekt rubryki z oczekiwań */
+export type RubricJudgements = Map<RubricExpectation, RubricJudgement>;
+
+// ============================================================================
+// KEYWORD JUDGE (lokalny, deterministyczny)
+// ============================================================================
+
+/**
+ * Lokalny judge oparty o słowa kluczowe.
+ *
+ * - Kryterium z `keywords`: wynik = odsetek znalezionych grup (alternatywy rozdzielone `|`)
+ * - Kryterium bez `keywords`: wynik = pokrycie rdzeni słów z opisu kryterium
+ * - `forbiddenKeywords` proporcjonalnie obniżają wynik
+ *
+ * Przeszukiwany jest tekst odpowiedzi oraz wartości z DataDiff.
+ */
+export class KeywordRubricJudge implements RubricJudge {
+  readonly name = 'keyword';
+
+  async judge(input: RubricJudgeInput): Promise<RubricJudgement> {
+    const haystack = normalizeText(
+      [input.agentResponse || '', ...collectDiffValues(input.dataDiff)].join('\n')
+    );
+
+    return {
+      judge: this.name,
+      criteria: input.rubric.criteria.map((criterion) => this.judgeCriterion(criterion, haystack)),
+    };
+  }
+
+  private judgeCriterion(criterion: RubricCriterion, haystack: string): CriterionJudgement {
+    let score: number;
+    const reasons: string[] = [];
+
+    if (criterion.keywords && criterion.keywords.length > 0) {
+      const found = criterion.keywords.filter((group) => containsAny(haystack, group));
+      const missing = criterion.keywords.filter((group) => !found.includes(group));
+      score = found.length / criterion.keywords.length;
+      reasons.push(`Keywords found ${found.length}/${criterion.keywords.length}`);
+      if (found.length > 0) reasons.push(`found: ${found.join(', ')}`);
+      if (missing.length > 0) reasons.push(`missing: ${missing.join(', ')}`);
+    } else {
+      const stems = [...new Set(tokenize(criterion.description).map(stem))];
+      const haystackStems = new Set(tokenize(haystack).map(stem));
+      const covered = stems.filter((s) => haystackStems.has(s));
+      score = stems.length > 0 ? covered.length / stems.length : 0;
+      reasons.push(`Description terms covered ${covered.length}/${stems.length}`);
+    }
+
+    if (criterion.forbiddenKeywords && criterion.forbiddenKeywords.length > 0) {
+      const present = criterion.forbiddenKeywords.filter((group) => containsAny(haystack, group));
+      if (present.length > 0) {
+        score *= 1 - present.length / criterion.forbiddenKeywords.length;
+        reasons.push(`forbidden present: ${present.join(', ')}`);
+      }
+    }
+
+    return {
+      criterionId: criterion.id,
+      score: roundScore(score),
+      reasoning: reasons.join('; '),
+    };
+  }
+}
+
+// ============================================================================
+// LLM JUDGE
+// ============================================================================
+
+/** Funkcja wysyłająca prompt do modelu i zwracająca tekst odpowiedzi */
+export type JudgeCompletionFn = (prompt: string) => Promise<string>;
+
+/**
+ * Judge oparty o model językowy.
+ *
+ * Nie zależy od konkretnego SDK - wywołanie modelu jest wstrzykiwane przez `complete`.
+ * Model musi zwrócić JSON: { "criteria": [{ "id", "score", "reasoning" }] }.
+ */
+export class LlmRubricJudge implements RubricJudge {
+  constructor(
+    private readonly complete: JudgeCompletionFn,
+    readonly name: string = 'llm'
+  ) {}
+
+  async judge(input: RubricJudgeInput): Promise<RubricJudgement> {
+    const raw = await this.complete(this.buildPrompt(input));
+    return this.parseResponse(raw, input.rubric);
+  }
+
+  private buildPrompt(input: RubricJudgeInput): string {
+    const criteria = input.rubric.criteria
+      .map((c) => `- id: "${c.id}"\n  description: ${c.description}`)
+      .join('\n');
+
+    return [
+      'You are grading the answer of a video editing assistant.',
+      'Score every criterion from 0 (not met) to 1 (fully met) and explain briefly.',
+      input.rubric.context ? `\nContext: ${input.rubric.context}` : '',
+      input.userMessage ? `\nUser message:\n${input.userMessage}` : '',
+      `\nAssistant answer:\n${input.agentResponse || '(no answer)'}`,
+      `\nData changes made by the assistant (JSON):\n${JSON.stringify(input.dataDiff)}`,
+      `\nCriteria:\n${criteria}`,
+      '\nRespond with JSON only: {"criteria": [{"id": "...", "score": 0.0, "reasoning": "..."}]}',
+    ].join('\n');
+  }
+
+  private parseResponse(raw: string, rubric: RubricExpectation): RubricJudgement {
+    // Model może otoczyć JSON tekstem lub blokiem ```json - wyciągnij pierwszy obiekt
+    const jsonMatch = raw.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      return failedJudgement(this.name, rubric, 'Judge response does not contain JSON');
+    }
+
+    let parsed: { criteria?: Array<{ id?: string; score?: number; reasoning?: string }> };
+    try {
+      parsed = JSON.parse(jsonMatch[0]);
+    } catch (error) {
+      return failedJudgement(this.name, rubric, `Invalid judge JSON: ${(error as Error).message}`);
+    }
+
+    const byId = new Map((parsed.criteria || []).map((c) => [c.id, c]));
+    return {
+      judge: this.name,
+      criteria: rubric.criteria.map((criterion) => {
+        const scored = byId.get(criterion.id);
+        if (!scored || typeof scored.score !== 'number') {
+          return { criterionId: criterion.id, score: 0, reasoning: 'Judge did not score this criterion' };
+        }
+        return {
+          criterionId: criterion.id,
+          score: roundScore(Math.min(1, Math.max(0, scored.score))),
+          reasoning: scored.reasoning || '',
+        };
+      }),
+    };
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Ocenia wszystkie rubryki z zestawów oczekiwań.
+ *
+ * Błąd judge'a nie przerywa testu - zapisywany jest jako `error`,
+ * a kryteria dostają wynik 0.
+ */
+export async function evaluateRubrics(
+  expectations: ScenarioExpectations[] | undefined,
+  judge: RubricJudge,
+  input: Omit<RubricJudgeInput, 'rubric'>
+): Promise<RubricJudgements> {
+  const judgements: RubricJudgements = new Map();
+
+  for (const expectation of expectations || []) {
+    if (!expectation.rubric) continue;
+    try {
+      judgements.set(expectation.rubric, await judge.judge({ ...input, rubric: expectation.rubric }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      judgements.set(expectation.rubric, failedJudgement(judge.name, expectation.rubric, message));
+    }
+  }
+
+  return judgements;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function failedJudgement(judge: string, rubric: RubricExpectation, error: string): RubricJudgement {
+  return {
+    judge,
+    error,
+    criteria: rubric.criteria.map((c) => ({ criterionId: c.id, score: 0, reasoning: error })),
+  };
+}
+
+/** Małe litery + usunięcie polskich znaków diakrytycznych */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function containsAny(haystack: string, group: string): boolean {
+  return group
+    .split('|')
+    .map((alt) => normalizeText(alt.trim()))
+    .some((alt) => alt.length > 0 && haystack.includes(alt));
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 4);
+}
+
+/** Prymitywny stemming - polska fleksja zmienia głównie końcówki */
+function stem(word: string): string {
+  return word.slice(0, 5);
+}
+
+/**
+ * Wartości po zmianie ze wszystkich sekcji DataDiff - encje (także enrichment) i zmiany ustawień.
+ * Sekcje opcjonalne mogą nie istnieć w starszych wynikach i kasetach.
+ */
+function collectDiffValues(dataDiff: DataDiff): string[] {
+  const entityDiffs: Array<EntityDiff | undefined> = [
+    dataDiff.blocks,
+    dataDiff.timelines,
+    dataDiff.mediaAssets,
+    dataDiff.chapters,
+    dataDiff.persons,
+    dataDiff.dynamicCompositions,
+    ...(dataDiff.enrichment ? Object.values(dataDiff.enrichment) : []),
+  ];
+
+  const values: string[] = [];
+  for (const entity of entityDiffs) {
+    if (!entity) continue;
+    for (const entry of [...entity.added, ...entity.deleted]) values.push(JSON.stringify(entry.data));
+    for (const entry of entity.modified) values.push(JSON.stringify(entry.after));
+  }
+
+  for (const changes of Object.values(dataDiff.settings ?? {})) {
+    for (const change of changes) {
+      values.push(JSON.stringify({ key: change.key, value: change.after }));
+    }
+  }
+  return values;
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100;
+}
@@ -0,0 +1,147 @@
+/**
+ * Scenario Sandbox - izolacja fixtures przy równoległych przebiegach scenariuszy
+ *
+ * StorageRegistry i SemanticSearchService to globalne singletony aplikacji - agent
+ * i narzędzia MCP zawsze czytają storage z registry. Przy kilku scenariuszach
+ * naraz podmiana storage per scenariusz nadpisywałaby dane innych przebiegów.
+ *
+ * Dlatego każdy przebieg dostaje własny sandbox (JsonStorage, TestVectorStore,
+ * ToolTracker), a registry na czas przebiegów dostaje proxy, które kierują każde
+ * wywołanie do sandboxa bieżącego kontekstu async (AsyncLocalStorage).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { JsonStorage } from '../storage/json-storage';
+import { TestVectorStore } from '../storage/test-vector-store';
+import { storageRegistry } from '../../../desktop-app/shared/storage';
+import { semanticSearchService } from '../../../desktop-app/electron/services/vector/SemanticSearchService';
+import { ToolTracker } from './tool-tracker';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScenarioSandbox {
+  id: string;
+  /** ID scenariusza uruchomionego w sandboxie (dla logów) */
+  scenarioId: string;
+  storage: JsonStorage;
+  tracker: ToolTracker;
+  /** Ustawiany przez attachVectorStore (tylko gdy istnieją LanceDB fixtures) */
+  vectorStore?: TestVectorStore;
+}
+
+// ============================================================================
+// SANDBOX CONTEXT
+// ============================================================================
+
+const sandboxContext = new AsyncLocalStorage<ScenarioSandbox>();
+
+// Liczba aktywnych sandboxów - registry wraca do domyślnego storage po ostatnim
+let activeSandboxes = 0;
+let vectorRoutingInstalled = false;
+
+export function createScenarioSandbox(scenarioId: string): ScenarioSandbox {
+  return {
+    id: uuidv4(),
+    scenarioId,
+    storage: new JsonStorage(),
+    tracker: new ToolTracker(),
+  };
+}
+
+/**
+ * Zwraca sandbox bieżącego przebiegu (null poza runInSandbox)
+ */
+export function getActiveSandbox(): ScenarioSandbox | null {
+  return sandboxContext.getStore() || null;
+}
+
+/**
+ * Uruchamia funkcję w kontekście sandboxa
+ *
+ * Pierwszy aktywny sandbox instaluje routing w StorageRegistry, ostatni
+ * przywraca domyślne storage (SQLite) i vector store.
+ */
+export async function runInSandbox<T>(sandbox: ScenarioSandbox, fn: () => Promise<T>): Promise<T> {
+  if (activeSandboxes === 0) {
+    installStorageRouting();
+  }
+  activeSandboxes++;
+
+  try {
+    return await sandboxContext.run(sandbox, fn);
+  } finally {
+    activeSandboxes--;
+    if (activeSandboxes === 0) {
+      storageRegistry.resetToDefaults();
+      if (vectorRoutingInstalled) {
+        semanticSearchService.resetVectorStore();
+        vectorRoutingInstalled = false;
+      }
+    }
+  }
+}
+
+/**
+ * Podpina LanceDB fixtures do sandboxa (SemanticSearchService czyta je przez routing)
+ */
+export function attachVectorStore(sandbox: ScenarioSandbox, vectorStore: TestVectorStore): void {
+  sandbox.vectorStore = vectorStore;
+
+  if (!vectorRoutingInstalled) {
+    semanticSearchService.setVectorStore(
+      routedTo((active) => active.vectorStore, 'vector store')
+    );
+    vectorRoutingInstalled = true;
+  }
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+function installStorageRouting(): void {
+  storageRegistry.setAll({
+    project: routedTo((s) => s.storage.getProjectStorage(), 'project storage'),
+    chapter: routedTo((s) => s.storage.getChapterStorage(), 'chapter storage'),
+    timeline: routedTo((s) => s.storage.getTimelineStorage(), 'timeline storage'),
+    block: routedTo((s) => s.storage.getBlockStorage(), 'block storage'),
+    mediaAsset: routedTo((s) => s.storage.getMediaAssetStorage(), 'media asset storage'),
+    chat: routedTo((s) => s.storage.getChatStorage(), 'chat storage'),
+    enrichment: routedTo((s) => s.storage.getEnrichmentStorage(), 'enrichment storage'),
+    settings: routedTo((s) => s.storage.getSettingsStorage(), 'settings storage'),
+    person: routedTo((s) => s.storage.getPersonStorage(), 'person storage'),
+    dynamicComposition: routedTo((s) => s.storage.getDynamicCompositionStorage(), 'dynamic composition storage'),
+  });
+
+  if (!storageRegistry.isInitialized()) {
+    throw new Error('StorageRegistry initialization failed - possible module singleton mismatch');
+  }
+}
+
+/**
+ * Proxy delegujące każde odwołanie do obiektu z sandboxa bieżącego kontekstu
+ */
+function routedTo<T extends object>(
+  select: (sandbox: ScenarioSandbox) => T | undefined,
+  label: string
+): T {
+  return new Proxy({} as T, {
+    get(_target, property) {
+      const sandbox = sandboxContext.getStore();
+      if (!sandbox) {
+        throw new Error(`[Sandbox] ${label} accessed outside of a scenario sandbox`);
+      }
+
+      const target = select(sandbox);
+      if (!target) {
+        throw new Error(`[Sandbox] ${label} not available in sandbox of '${sandbox.scenarioId}'`);
+      }
+
+      const value = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
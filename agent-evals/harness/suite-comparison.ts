@@ -0,0 +1,705 @@
+/**
+ * Suite Comparison - statystyczne porównanie przebiegów suite'ów
+ *
+ * Pojedynczy pass/fail i surowa różnica tokenów nie odróżniają regresji od szumu.
+ * Porównujemy dwie pule prób - baseline i kandydata (każda może łączyć kilka suite'ów
+ * o tym samym config_hash) - i dla każdego scenariusza liczymy:
+ * - różnicę pass rate z przedziałem ufności (Newcombe) i p-value (dokładny test Fishera)
+ * - różnicę średnich tokenów i czasu z przedziałem ufności i p-value (test t Welcha)
+ * - zmiany na poziomie asercji (które asercje zaczęły / przestały failować, które zniknęły)
+ *
+ * `evaluateGate` zamienia porównanie w werdykt pass / warn / fail według polityki,
+ * dzięki czemu zmianę promptu można zablokować automatycznie.
+ */
+
+import type { TestResult } from '../types/scenario';
+import {
+  groupResultsByScenario,
+  metricStats,
+  normalCdf,
+  wilsonInterval,
+  type ConfidenceInterval,
+  type MetricStats,
+} from './trial-stats';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Wycinek wyniku potrzebny do porównania (bez wiadomości i tool calls) */
+export type ComparableResult = Pick<TestResult, 'scenarioId' | 'scenarioName' | 'passed' | 'metrics' | 'assertions'>;
+
+/** Kierunek zmiany pass rate - czy jest istotna, mówi `passRate.significant` */
+export type ScenarioChange = 'improved' | 'regressed' | 'unchanged' | 'new' | 'removed';
+
+export interface RateDelta {
+  baseline: number;
+  candidate: number;
+  /** candidate - baseline */
+  diff: number;
+  /** Przedział ufności dla różnicy */
+  confidenceInterval: ConfidenceInterval;
+  pValue: number;
+  significant: boolean;
+}
+
+export interface MetricDelta {
+  /** Średnia baseline */
+  baseline: number;
+  /** Średnia kandydata */
+  candidate: number;
+  /** candidate - baseline */
+  diff: number;
+  /** Zmiana względna w % (brak gdy średnia baseline = 0) */
+  diffPercent?: number;
+  /** Przedział ufności dla różnicy - brak, gdy po którejś stronie jest mniej niż 2 próby */
+  confidenceInterval?: ConfidenceInterval;
+  pValue: number;
+  significant: boolean;
+}
+
+/** 'removed' - asercja występuje tylko w baseline (np. zmienione oczekiwania scenariusza) */
+export type AssertionChangeType = 'started-failing' | 'more-failures' | 'stopped-failing' | 'fewer-failures' | 'removed';
+
+/**
+ * Zmiana wyniku asercji między pulami - liczone są próby, w których asercja wystąpiła
+ * (soft checki nie są liczone jako porażki, tak jak w allPassed)
+ */
+export interface AssertionChange {
+  name: string;
+  /** Numer tury - tylko dla scenariuszy wieloetapowych */
+  turn?: number;
+  change: AssertionChangeType;
+  baselineFailures: number;
+  baselineTrials: number;
+  candidateFailures: number;
+  candidateTrials: number;
+  /** Dokładny test Fishera na odsetku prób z porażką asercji */
+  pValue: number;
+  significant: boolean;
+}
+
+export interface ScenarioComparison {
+  scenarioId: string;
+  scenarioName?: string;
+  change: ScenarioChange;
+  baselineTrials: number;
+  candidateTrials: number;
+  /** Brak dla scenariuszy new / removed */
+  passRate?: RateDelta;
+  tokens?: MetricDelta;
+  latencyMs?: MetricDelta;
+  assertions: AssertionChange[];
+}
+
+export interface SuiteComparison {
+  /** Poziom istotności testów */
+  alpha: number;
+  baselineTrials: number;
+  candidateTrials: number;
+  /** Zbiorczo po wszystkich próbach scenariuszy obecnych w obu pulach */
+  overall: {
+    passRate: RateDelta;
+    tokens: MetricDelta;
+    latencyMs: MetricDelta;
+  };
+  scenarios: ScenarioComparison[];
+  counts: Record<ScenarioChange, number>;
+}
+
+export interface CompareOptions {
+  /** Poziom istotności (domyślnie: 0.05) */
+  alpha?: number;
+}
+
+export type GateVerdict = 'pass' | 'warn' | 'fail';
+
+export type GateRule =
+  | 'passRateDrop'
+  | 'overallPassRateDrop'
+  | 'tokenIncrease'
+  | 'latencyIncrease'
+  | 'newAssertionFailure'
+  | 'removedScenario'
+  | 'insufficientTrials';
+
+/**
+ * Polityka bramki regresji - progi, po których przekroczeniu zmiana jest blokowana
+ */
+export interface GatePolicy {
+  /** Maks. dopuszczalny spadek pass rate scenariusza (0-1) */
+  maxPassRateDrop?: number;
+  /** Maks. dopuszczalny spadek łącznego pass rate (0-1) */
+  maxOverallPassRateDrop?: number;
+  /** Maks. wzrost średniej liczby tokenów w % (brak = bez limitu) */
+  maxTokenIncreasePercent?: number;
+  /** Maks. wzrost średniego czasu w % (brak = bez limitu) */
+  maxLatencyIncreasePercent?: number;
+  /** Przekroczenie progu bez istotności statystycznej daje tylko ostrzeżenie */
+  requireSignificance?: boolean;
+  /** Asercja, która zaczęła failować, blokuje zmianę (z requireSignificance - tylko istotna zmiana) */
+  failOnNewAssertionFailures?: boolean;
+  /** Usunięty scenariusz blokuje zmianę (inaczej tylko ostrzeżenie) */
+  failOnRemovedScenarios?: boolean;
+  /** Minimalna liczba prób scenariusza w każdej puli - poniżej ostrzeżenie */
+  minTrials?: number;
+}
+
+export interface GateViolation {
+  rule: GateRule;
+  severity: 'warn' | 'fail';
+  scenarioId?: string;
+  assertion?: string;
+  message: string;
+}
+
+export interface GateResult {
+  verdict: GateVerdict;
+  /** Polityka po uzupełnieniu wartości domyślnych */
+  policy: GatePolicy;
+  violations: GateViolation[];
+}
+
+export const DEFAULT_ALPHA = 0.05;
+
+export const DEFAULT_GATE_POLICY: GatePolicy = {
+  maxPassRateDrop: 0,
+  maxOverallPassRateDrop: 0,
+  requireSignificance: true,
+  failOnNewAssertionFailures: true,
+  failOnRemovedScenarios: false,
+  minTrials: 3,
+};
+
+/** Kolejność zmian asercji w raporcie - najpierw nowe porażki */
+const ASSERTION_CHANGE_ORDER: AssertionChangeType[] = [
+  'started-failing',
+  'more-failures',
+  'stopped-failing',
+  'fewer-failures',
+  'removed',
+];
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Porównuje pulę prób kandydata z pulą baseline
+ */
+export function compareSuiteResults(
+  baseline: ComparableResult[],
+  candidate: ComparableResult[],
+  options: CompareOptions = {}
+): SuiteComparison {
+  const alpha = options.alpha ?? DEFAULT_ALPHA;
+  if (!(alpha > 0 && alpha < 1)) {
+    throw new Error(`alpha must be between 0 and 1 (got ${alpha})`);
+  }
+
+  const baselineGroups = groupResultsByScenario(baseline);
+  const candidateGroups = groupResultsByScenario(candidate);
+  const scenarioIds = new Set([...baselineGroups.keys(), ...candidateGroups.keys()]);
+
+  const scenarios = [...scenarioIds].map((scenarioId) =>
+    compareScenario(scenarioId, baselineGroups.get(scenarioId) ?? [], candidateGroups.get(scenarioId) ?? [], alpha)
+  );
+
+  const counts: Record<ScenarioChange, number> = { improved: 0, regressed: 0, unchanged: 0, new: 0, removed: 0 };
+  for (const scenario of scenarios) {
+    counts[scenario.change]++;
+  }
+
+  // Łącznie tylko scenariusze z obu pul - nowe/usunięte zaburzyłyby średnie
+  const commonBaseline = baseline.filter((r) => candidateGroups.has(r.scenarioId));
+  const commonCandidate = candidate.filter((r) => baselineGroups.has(r.scenarioId));
+
+  return {
+    alpha,
+    baselineTrials: baseline.length,
+    candidateTrials: candidate.length,
+    overall: {
+      passRate: rateDelta(commonBaseline, commonCandidate, alpha),
+      tokens: metricDelta(
+        commonBaseline.map((r) => r.metrics.totalTokens),
+        commonCandidate.map((r) => r.metrics.totalTokens),
+        alpha
+      ),
+      latencyMs: metricDelta(
+        commonBaseline.map((r) => r.metrics.latencyMs),
+        commonCandidate.map((r) => r.metrics.latencyMs),
+        alpha
+      ),
+    },
+    scenarios,
+    counts,
+  };
+}
+
+function compareScenario(
+  scenarioId: string,
+  baseline: ComparableResult[],
+  candidate: ComparableResult[],
+  alpha: number
+): ScenarioComparison {
+  const entry = {
+    scenarioId,
+    scenarioName: (candidate[0] ?? baseline[0])?.scenarioName,
+    baselineTrials: baseline.length,
+    candidateTrials: candidate.length,
+  };
+
+  if (baseline.length === 0) return { ...entry, change: 'new', assertions: [] };
+  if (candidate.length === 0) return { ...entry, change: 'removed', assertions: [] };
+
+  const passRate = rateDelta(baseline, candidate, alpha);
+
+  return {
+    ...entry,
+    change: passRate.diff > 0 ? 'improved' : passRate.diff < 0 ? 'regressed' : 'unchanged',
+    passRate,
+    tokens: metricDelta(
+      baseline.map((r) => r.metrics.totalTokens),
+      candidate.map((r) => r.metrics.totalTokens),
+      alpha
+    ),
+    latencyMs: metricDelta(
+      baseline.map((r) => r.metrics.latencyMs),
+      candidate.map((r) => r.metrics.latencyMs),
+      alpha
+    ),
+    assertions: compareAssertions(baseline, candidate, alpha),
+  };
+}
+
+function rateDelta(baseline: ComparableResult[], candidate: ComparableResult[], alpha: number): RateDelta {
+  const baselinePassed = baseline.filter((r) => r.passed).length;
+  const candidatePassed = candidate.filter((r) => r.passed).length;
+  const baselineRate = baseline.length > 0 ? baselinePassed / baseline.length : 0;
+  const candidateRate = candidate.length > 0 ? candidatePassed / candidate.length : 0;
+  const pValue = fisherExactTest(baselinePassed, baseline.length, candidatePassed, candidate.length);
+
+  return {
+    baseline: baselineRate,
+    candidate: candidateRate,
+    diff: candidateRate - baselineRate,
+    confidenceInterval: newcombeInterval(baselinePassed, baseline.length, candidatePassed, candidate.length, alpha),
+    pValue,
+    significant: pValue < alpha,
+  };
+}
+
+function metricDelta(baseline: number[], candidate: number[], alpha: number): MetricDelta {
+  const baselineStats = metricStats(baseline);
+  const candidateStats = metricStats(candidate);
+  const diff = candidateStats.mean - baselineStats.mean;
+  const test = welchTTest(baselineStats, baseline.length, candidateStats, candidate.length, alpha);
+  const pValue = test?.pValue ?? 1;
+
+  return {
+    baseline: baselineStats.mean,
+    candidate: candidateStats.mean,
+    diff,
+    diffPercent: baselineStats.mean !== 0 ? (diff / baselineStats.mean) * 100 : undefined,
+    confidenceInterval: test?.confidenceInterval,
+    pValue,
+    significant: pValue < alpha,
+  };
+}
+
+/**
+ * Zmiany asercji - porównuje odsetek prób, w których asercja nie przeszła
+ */
+function compareAssertions(
+  baseline: ComparableResult[],
+  candidate: ComparableResult[],
+  alpha: number
+): AssertionChange[] {
+  const baselineCounts = countAssertionFailures(baseline);
+  const candidateCounts = countAssertionFailures(candidate);
+  const changes: AssertionChange[] = [];
+  const significance = (previous: { failures: number; trials: number }, current: { failures: number; trials: number }) => {
+    const pValue = fisherExactTest(previous.failures, previous.trials, current.failures, current.trials);
+    return { pValue, significant: pValue < alpha };
+  };
+
+  for (const [key, current] of candidateCounts) {
+    const previous = baselineCounts.get(key) ?? { ...current, failures: 0, trials: 0 };
+    const previousRate = previous.trials > 0 ? previous.failures / previous.trials : 0;
+    const currentRate = current.failures / current.trials;
+
+    let change: AssertionChangeType;
+    if (previous.failures === 0 && current.failures > 0) {
+      change = 'started-failing';
+    } else if (previous.failures > 0 && current.failures === 0) {
+      change = 'stopped-failing';
+    } else if (currentRate > previousRate) {
+      change = 'more-failures';
+    } else if (currentRate < previousRate) {
+      change = 'fewer-failures';
+    } else {
+      continue;
+    }
+
+    changes.push({
+      name: current.name,
+      turn: current.turn,
+      change,
+      baselineFailures: previous.failures,
+      baselineTrials: previous.trials,
+      candidateFailures: current.failures,
+      candidateTrials: current.trials,
+      ...significance(previous, current),
+    });
+  }
+
+  // Asercje, których kandydat w ogóle nie sprawdzał - bez tego znika np. usunięte oczekiwanie
+  for (const [key, previous] of baselineCounts) {
+    if (candidateCounts.has(key)) continue;
+    changes.push({
+      name: previous.name,
+      turn: previous.turn,
+      change: 'removed',
+      baselineFailures: previous.failures,
+      baselineTrials: previous.trials,
+      candidateFailures: 0,
+      candidateTrials: 0,
+      pValue: 1,
+      significant: false,
+    });
+  }
+
+  return changes.sort(
+    (a, b) => ASSERTION_CHANGE_ORDER.indexOf(a.change) - ASSERTION_CHANGE_ORDER.indexOf(b.change)
+  );
+}
+
+/**
+ * Liczy próby, w których wystąpiła asercja i w których nie przeszła (klucz = tura + nazwa)
+ */
+function countAssertionFailures(
+  results: ComparableResult[]
+): Map<string, { name: string; turn?: number; failures: number; trials: number }> {
+  const counts = new Map<string, { name: string; turn?: number; failures: number; trials: number }>();
+
+  for (const result of results) {
+    const failedInTrial = new Map<string, boolean>();
+    for (const assertion of result.assertions ?? []) {
+      const key = `${assertion.turn ?? 0}:${assertion.name}`;
+      const failed = !assertion.passed && !assertion.softCheck;
+      failedInTrial.set(key, (failedInTrial.get(key) ?? false) || failed);
+      if (!counts.has(key)) {
+        counts.set(key, { name: assertion.name, turn: assertion.turn, failures: 0, trials: 0 });
+      }
+    }
+
+    for (const [key, failed] of failedInTrial) {
+      const entry = counts.get(key)!;
+      entry.trials++;
+      if (failed) entry.failures++;
+    }
+  }
+
+  return counts;
+}
+
+// ============================================================================
+// GATE
+// ============================================================================
+
+/**
+ * Ocenia porównanie według polityki - werdykt 'fail' oznacza, że zmiana powinna zostać zablokowana
+ */
+export function evaluateGate(comparison: SuiteComparison, policy: GatePolicy = {}): GateResult {
+  const resolved: GatePolicy = { ...DEFAULT_GATE_POLICY, ...policy };
+  validateGatePolicy(resolved);
+
+  const violations: GateViolation[] = [];
+  const severityFor = (significant: boolean): 'warn' | 'fail' =>
+    significant || !resolved.requireSignificance ? 'fail' : 'warn';
+
+  const overall = comparison.overall.passRate;
+  if (-overall.diff > resolved.maxOverallPassRateDrop!) {
+    violations.push({
+      rule: 'overallPassRateDrop',
+      severity: severityFor(overall.significant),
+      message: `Overall pass rate dropped from ${formatPercent(overall.baseline)} to ${formatPercent(overall.candidate)} (p=${formatPValue(overall.pValue)})`,
+    });
+  }
+
+  for (const scenario of comparison.scenarios) {
+    if (scenario.change === 'removed') {
+      violations.push({
+        rule: 'removedScenario',
+        severity: resolved.failOnRemovedScenarios ? 'fail' : 'warn',
+        scenarioId: scenario.scenarioId,
+        message: `Scenario was not run by the candidate`,
+      });
+      continue;
+    }
+    if (scenario.change === 'new') continue;
+
+    const minTrials = Math.min(scenario.baselineTrials, scenario.candidateTrials);
+    if (minTrials < resolved.minTrials!) {
+      violations.push({
+        rule: 'insufficientTrials',
+        severity: 'warn',
+        scenarioId: scenario.scenarioId,
+        message: `Only ${minTrials} trial(s) on one side - pass rate changes cannot be significant below ${resolved.minTrials}`,
+      });
+    }
+
+    const passRate = scenario.passRate!;
+    if (-passRate.diff > resolved.maxPassRateDrop!) {
+      violations.push({
+        rule: 'passRateDrop',
+        severity: severityFor(passRate.significant),
+        scenarioId: scenario.scenarioId,
+        message: `Pass rate dropped from ${formatPercent(passRate.baseline)} to ${formatPercent(passRate.candidate)} (p=${formatPValue(passRate.pValue)})`,
+      });
+    }
+
+    if (resolved.failOnNewAssertionFailures) {
+      for (const assertion of scenario.assertions.filter((a) => a.change === 'started-failing')) {
+        violations.push({
+          rule: 'newAssertionFailure',
+          severity: severityFor(assertion.significant),
+          scenarioId: scenario.scenarioId,
+          assertion: assertion.name,
+          message: `Assertion '${assertion.name}' started failing (${assertion.candidateFailures}/${assertion.candidateTrials} trials, p=${formatPValue(assertion.pValue)})`,
+        });
+      }
+    }
+  }
+
+  const metricRules: Array<{ rule: GateRule; label: string; delta: MetricDelta; limit?: number }> = [
+    { rule: 'tokenIncrease', label: 'Mean tokens', delta: comparison.overall.tokens, limit: resolved.maxTokenIncreasePercent },
+    { rule: 'latencyIncrease', label: 'Mean latency', delta: comparison.overall.latencyMs, limit: resolved.maxLatencyIncreasePercent },
+  ];
+  for (const { rule, label, delta, limit } of metricRules) {
+    if (limit === undefined || delta.diffPercent === undefined || delta.diffPercent <= limit) continue;
+    violations.push({
+      rule,
+      severity: severityFor(delta.significant),
+      message: `${label} increased by ${delta.diffPercent.toFixed(1)}% (limit ${limit}%, p=${formatPValue(delta.pValue)})`,
+    });
+  }
+
+  const verdict: GateVerdict = violations.some((v) => v.severity === 'fail')
+    ? 'fail'
+    : violations.length > 0
+      ? 'warn'
+      : 'pass';
+
+  return { verdict, policy: resolved, violations };
+}
+
+function validateGatePolicy(policy: GatePolicy): void {
+  const ratios: Array<keyof GatePolicy> = ['maxPassRateDrop', 'maxOverallPassRateDrop'];
+  for (const key of ratios) {
+    const value = policy[key] as number;
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      throw new Error(`Gate policy '${key}' must be a number between 0 and 1`);
+    }
+  }
+
+  const percents: Array<keyof GatePolicy> = ['maxTokenIncreasePercent', 'maxLatencyIncreasePercent'];
+  for (const key of percents) {
+    const value = policy[key];
+    if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+      throw new Error(`Gate policy '${key}' must be a non-negative number`);
+    }
+  }
+
+  if (typeof policy.minTrials !== 'number' || policy.minTrials < 1) {
+    throw new Error(`Gate policy 'minTrials' must be a positive number`);
+  }
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/**
+ * Dwustronny dokładny test Fishera dla tabeli 2x2 (sukcesy / próby w obu pulach)
+ */
+function fisherExactTest(successes1: number, n1: number, successes2: number, n2: number): number {
+  const successes = successes1 + successes2;
+  const total = n1 + n2;
+  if (n1 === 0 || n2 === 0 || successes === 0 || successes === total) return 1;
+
+  const logProbability = (x: number) =>
+    logChoose(n1, x) + logChoose(n2, successes - x) - logChoose(total, successes);
+  const observed = logProbability(successes1);
+
+  // Suma prawdopodobieństw tabel nie bardziej prawdopodobnych niż obserwowana
+  let pValue = 0;
+  for (let x = Math.max(0, successes - n2); x <= Math.min(n1, successes); x++) {
+    const logP = logProbability(x);
+    if (logP <= observed + 1e-7) pValue += Math.exp(logP);
+  }
+  return Math.min(1, pValue);
+}
+
+/**
+ * Przedział ufności Newcombe'a (hybrid score) dla różnicy proporcji p2 - p1
+ */
+function newcombeInterval(
+  successes1: number,
+  n1: number,
+  successes2: number,
+  n2: number,
+  alpha: number
+): ConfidenceInterval {
+  const z = normalQuantile(1 - alpha / 2);
+  const p1 = n1 > 0 ? successes1 / n1 : 0;
+  const p2 = n2 > 0 ? successes2 / n2 : 0;
+  const ci1 = wilsonInterval(successes1, n1, z);
+  const ci2 = wilsonInterval(successes2, n2, z);
+  const diff = p2 - p1;
+
+  return {
+    lower: Math.max(-1, diff - Math.sqrt((p2 - ci2.lower) ** 2 + (ci1.upper - p1) ** 2)),
+    upper: Math.min(1, diff + Math.sqrt((ci2.upper - p2) ** 2 + (p1 - ci1.lower) ** 2)),
+    level: 1 - alpha,
+  };
+}
+
+/**
+ * Test t Welcha (nierówne wariancje) - brak wyniku, gdy któraś pula ma mniej niż 2 próby
+ */
+function welchTTest(
+  stats1: MetricStats,
+  n1: number,
+  stats2: MetricStats,
+  n2: number,
+  alpha: number
+): { pValue: number; confidenceInterval: ConfidenceInterval } | undefined {
+  if (n1 < 2 || n2 < 2) return undefined;
+
+  const diff = stats2.mean - stats1.mean;
+  const v1 = stats1.variance / n1;
+  const v2 = stats2.variance / n2;
+  const standardError = Math.sqrt(v1 + v2);
+  const level = 1 - alpha;
+
+  if (standardError === 0) {
+    return { pValue: diff === 0 ? 1 : 0, confidenceInterval: { lower: diff, upper: diff, level } };
+  }
+
+  // Stopnie swobody Welcha-Satterthwaite'a
+  const df = (v1 + v2) ** 2 / (v1 ** 2 / (n1 - 1) + v2 ** 2 / (n2 - 1));
+  const margin = studentTCritical(alpha, df) * standardError;
+
+  return {
+    pValue: studentTTwoSidedP(diff / standardError, df),
+    confidenceInterval: { lower: diff - margin, upper: diff + margin, level },
+  };
+}
+
+/** Dwustronne p-value rozkładu t-Studenta */
+function studentTTwoSidedP(t: number, df: number): number {
+  return regularizedBeta(df / (df + t * t), df / 2, 0.5);
+}
+
+/** Wartość krytyczna t dla dwustronnego testu na poziomie alpha (bisekcja) */
+function studentTCritical(alpha: number, df: number): number {
+  let lower = 0;
+  let upper = 1;
+  while (studentTTwoSidedP(upper, df) > alpha) upper *= 2;
+
+  for (let i = 0; i < 100; i++) {
+    const mid = (lower + upper) / 2;
+    if (studentTTwoSidedP(mid, df) > alpha) lower = mid;
+    else upper = mid;
+  }
+  return (lower + upper) / 2;
+}
+
+/** Kwantyl rozkładu normalnego (bisekcja po normalCdf) */
+function normalQuantile(p: number): number {
+  let lower = -10;
+  let upper = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lower + upper) / 2;
+    if (normalCdf(mid) < p) lower = mid;
+    else upper = mid;
+  }
+  return (lower + upper) / 2;
+}
+
+/** Regularyzowana niepełna funkcja beta I_x(a, b) */
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // Ułamek łańcuchowy zbiega szybko tylko po tej stronie - w przeciwnym razie symetria
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Ułamek łańcuchowy funkcji beta (metoda Lentza) */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-300;
+  const clamp = (value: number) => (Math.abs(value) < tiny ? tiny : value);
+
+  let c = 1;
+  let d = 1 / clamp(1 - ((a + b) * x) / (a + 1));
+  let result = d;
+
+  for (let m = 1; m <= 300; m++) {
+    const m2 = 2 * m;
+    const even = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / clamp(1 + even * d);
+    c = clamp(1 + even / c);
+    result *= d * c;
+
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / clamp(1 + odd * d);
+    c = clamp(1 + odd / c);
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return result;
+}
+
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** Logarytm funkcji gamma (aproksymacja Lanczosa) */
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const shifted = x - 1;
+  let sum = LANCZOS_COEFFICIENTS[0];
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (shifted + i);
+  }
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function logChoose(n: number, k: number): number {
+  return logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? '<0.001' : pValue.toFixed(3);
+}
@@ -0,0 +1,162 @@
+/**
+ * Suite Config Snapshot - pełny snapshot konfiguracji agenta dla przebiegu suite'a
+ *
+ * Buduje SuiteConfigSnapshot (prompt, narzędzia, subagenci, model) z tej samej konfiguracji,
+ * którą dostaje TestableAgentAdapter - dzięki temu diff konfiguracji dwóch suite'ów
+ * pokazuje dokładnie to, co widział agent.
+ */
+
+import { SHARED_SUBAGENTS } from '../../../desktop-app/electron/services/agents/shared-subagents';
+import {
+  MONTAGE_ALLOWED_TOOLS,
+  SCRIPT_ALLOWED_TOOLS,
+} from '../../../desktop-app/shared/prompts/agents/allowed-tools';
+import { ConfigSnapshotCollector } from './config-snapshot-collector';
+import { getToolDefinitionsForAgent } from './tool-definitions-provider';
+import {
+  resolveSystemPromptInfo,
+  resolveEnabledTools,
+  applyToolDescriptionOverrides,
+  type AgentType,
+  type TestableAgentToolsConfig,
+} from './testable-agent-adapter';
+import type { SuiteConfigSnapshot, SubagentConfigSnapshot } from '../types/config-snapshot';
+import type { SystemPromptConfig } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Konfiguracja przebiegu suite'a (ta sama, którą dostaje każdy scenariusz)
+ */
+export interface SuiteRunConfig extends Pick<
+  TestableAgentToolsConfig,
+  'enabledTools' | 'disabledTools' | 'toolDescriptions' | 'toolParameterDescriptions' | 'subagentPrompts'
+> {
+  model?: string;
+  thinkingMode?: string;
+  systemPrompt?: SystemPromptConfig;
+}
+
+const MCP_SERVER = 'clamka-mcp';
+const MCP_PREFIX = `mcp__${MCP_SERVER}__`;
+
+const DEFAULT_MODEL = 'sonnet';
+const DEFAULT_THINKING_MODE = 'think';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isAgentType(agentType: string): agentType is AgentType {
+  return agentType === 'montage' || agentType === 'script';
+}
+
+/**
+ * Subagenci (Task tool) - domyślni z SHARED_SUBAGENTS z nałożonymi nadpisaniami z konfiguracji
+ */
+function collectSubagents(config: SuiteRunConfig): SubagentConfigSnapshot[] {
+  return Object.keys(SHARED_SUBAGENTS).map((name) => {
+    const subagent = SHARED_SUBAGENTS[name];
+    const override = config.subagentPrompts?.[name];
+    return {
+      name,
+      agentType: name,
+      model: override?.model ?? subagent.model,
+      description: subagent.description,
+      prompt: override?.prompt ?? subagent.prompt,
+      tools: override?.tools ?? subagent.tools,
+    };
+  });
+}
+
+/**
+ * Nazwy placeholderów {{...}} występujących w prompcie (bez duplikatów)
+ */
+function findPlaceholders(prompt: string): string[] {
+  const names = new Set<string>();
+  for (const match of prompt.matchAll(/\{\{\s*([\w.-]+)\s*\}\}/g)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Zbiera snapshot konfiguracji jednego agenta
+ */
+async function collectAgentSnapshot(agentType: AgentType, config: SuiteRunConfig): Promise<SuiteConfigSnapshot> {
+  const promptInfo = resolveSystemPromptInfo(agentType, config.systemPrompt);
+  const rawPrompt = promptInfo?.rawPrompt ?? '';
+  const enabledTools = resolveEnabledTools(agentType, config);
+  const subagents = collectSubagents(config);
+
+  // Osobny collector na każdy snapshot - providerzy zależą od konfiguracji suite'a
+  const collector = new ConfigSnapshotCollector();
+  collector.registerProviders({
+    agent: {
+      getAgentType: () => agentType,
+      getModel: () => config.model || DEFAULT_MODEL,
+      getThinkingMode: () => config.thinkingMode || DEFAULT_THINKING_MODE,
+      getSubagents: () => subagents,
+    },
+    prompt: {
+      getRawPrompt: () => rawPrompt,
+      getPromptSource: () => ({
+        source: promptInfo?.source ?? 'default',
+        sourceFile: promptInfo?.sourceFile,
+        patches: promptInfo?.patches,
+        mode: promptInfo?.mode ?? 'append',
+      }),
+      // Placeholdery zależą od projektu scenariusza - na poziomie suite'a prompt zostaje surowy
+      resolvePrompt: () => rawPrompt,
+      getPlaceholders: () => findPlaceholders(rawPrompt).map((placeholder) => ({ placeholder, source: 'context' })),
+    },
+    tools: {
+      getAllowedTools: () => {
+        if (enabledTools) return enabledTools;
+        const allowed: string[] = agentType === 'montage' ? MONTAGE_ALLOWED_TOOLS : SCRIPT_ALLOWED_TOOLS;
+        return allowed.map((t) => t.replace(MCP_PREFIX, ''));
+      },
+      getToolDefinitions: () =>
+        applyToolDescriptionOverrides(getToolDefinitionsForAgent(agentType, enabledTools), config).map((def) => ({
+          name: def.name,
+          fullName: `${MCP_PREFIX}${def.name}`,
+          description: def.description,
+          parameters: (def.parameters || []).map((param) => ({
+            name: param.name,
+            type: param.type,
+            description: param.description,
+            required: param.required,
+          })),
+        })),
+      getMcpServers: () => [MCP_SERVER],
+    },
+  });
+
+  return collector.collect(agentType, {});
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Zbiera pełne snapshoty konfiguracji dla agentów użytych w suite
+ *
+ * Klucz = typ agenta (suite może mieszać scenariusze montage i script).
+ * Nieznane typy agentów są pomijane.
+ */
+export async function collectSuiteConfigSnapshots(
+  agentTypes: string[],
+  config: SuiteRunConfig
+): Promise<Record<string, SuiteConfigSnapshot>> {
+  const snapshots: Record<string, SuiteConfigSnapshot> = {};
+
+  for (const agentType of new Set(agentTypes)) {
+    if (!isAgentType(agentType)) continue;
+    snapshots[agentType] = await collectAgentSnapshot(agentType, config);
+  }
+
+  return snapshots;
+}
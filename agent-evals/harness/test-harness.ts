@@ -9,11 +9,17 @@ import path from 'path';
 import fs from 'fs';
 import { JsonStorage } from '../storage/json-storage';
 import { TestVectorStore } from '../storage/test-vector-store';
-import { storageRegistry } from '../../../desktop-app/shared/storage';
-import { semanticSearchService } from '../../../desktop-app/electron/services/vector/SemanticSearchService';
-import { ToolTracker } from './tool-tracker';
-import { checkExpectations } from './assertions';
+import { createScenarioSandbox, runInSandbox, attachVectorStore, getActiveSandbox, type ScenarioSandbox } from './sandbox';
+import { mapWithConcurrency, type ConcurrencyLimiter } from './concurrency';
+import { checkExpectations, checkTurnExpectations, checkBudgetExpectations, resolveBudget } from './assertions';
+import { estimateCostUsd, type ModelPricing } from './model-pricing';
+import { reconstructChapterState, type ChapterState } from './chapter-state';
+import { KeywordRubricJudge, evaluateRubrics, type RubricJudge, type RubricJudgements } from './rubric-judge';
+import { resolveRenderChecks, runRenderChecks, type RenderChecker } from './render-checks';
 import { TestableAgentAdapter, type AgentType } from './testable-agent-adapter';
+import { ReplayAgentAdapter } from './replay-agent-adapter';
+import { CASSETTE_VERSION, saveCassette, type Cassette, type CassetteTurn } from './cassette';
+import { computeTrialStats, type ScenarioTrialStats } from './trial-stats';
 import { evalStorageService } from '../../api/services/eval-storage-service';
 import type {
   TestScenario,
@@ -21,9 +27,14 @@ import type {
   TestMetrics,
   ToolCall,
   RawMessage,
+  DataDiff,
+  ScenarioTurn,
+  TurnResult,
   SystemPromptConfig,
   TransAgentPromptConfig,
   SubagentPromptConfig,
+  BudgetExpectations,
+  RenderCheckReport,
 } from '../types/scenario';
 
 // ============================================================================
@@ -49,11 +60,11 @@ export interface TestHarnessOptions {
   /** Czy logować szczegóły do konsoli */
   verbose?: boolean;
   /** Callback wywoływany po każdym wywołaniu narzędzia */
-  onToolCall?: (toolCall: ToolCall) => void;
+  onToolCall?: (toolCall: ToolCall, scenarioId: string, trial?: number) => void;
   /** Callback wywoływany po zakończeniu testu */
   onTestComplete?: (result: TestResult) => void;
   /** Callback wywoływany dla każdej wiadomości (dla live streaming) */
-  onMessage?: (message: RawMessage, scenarioId: string) => void;
+  onMessage?: (message: RawMessage, scenarioId: string, trial?: number) => void;
 
   /** Domyślny system prompt dla wszystkich scenariuszy (nadpisywany przez prompt ze scenariusza) */
   defaultSystemPrompt?: SystemPromptConfig;
@@ -81,6 +92,45 @@ export interface TestHarnessOptions {
    * Klucz = typ subagenta (np. 'chapter-explorator', 'web-researcher', 'script-segments-editor')
    */
   subagentPrompts?: Record<string, SubagentPromptConfig>;
+  /** Judge oceniający oczekiwania `rubric` (domyślnie: lokalny KeywordRubricJudge) */
+  rubricJudge?: RubricJudge;
+  /** Limit prób współdzielony z innymi przebiegami w procesie (np. globalny limit kolejki testów API) */
+  scenarioLimiter?: ConcurrencyLimiter;
+  /**
+   * Domyślny budżet dla wszystkich scenariuszy (tokeny, tury, czas, koszt).
+   * Pola `budget` ze scenariusza nadpisują odpowiednie pola domyślne.
+   */
+  budget?: BudgetExpectations;
+  /** Cennik modeli do szacowania kosztu (domyślnie: MODEL_PRICING) */
+  modelPricing?: Record<string, ModelPricing>;
+  /**
+   * Render i analiza chaptera dla oczekiwań `renderChecks` (implementacja w API).
+   * Bez checkera scenariusz z `renderChecks` nie przechodzi.
+   */
+  renderChecker?: RenderChecker;
+  /**
+   * Liczba powtórzeń każdego scenariusza (domyślnie: 1).
+   * Przy N > 1 każda próba jest osobnym wynikiem (`trial`), a podsumowanie liczy pass rate i pass@k.
+   */
+  repetitions?: number;
+
+  // === RÓWNOLEGŁOŚĆ ===
+
+  /**
+   * Maks. liczba prób uruchamianych równolegle w obrębie runScenarios (domyślnie: 1).
+   * Każda próba działa we własnym sandboxie (JsonStorage, TestVectorStore, ToolTracker).
+   */
+  concurrency?: number;
+
+  // === RECORD / REPLAY ===
+
+  /** Katalog do zapisu kaset z przebiegów (nagrywanie wyłączone gdy brak) */
+  recordCassettesDir?: string;
+  /**
+   * Kasety do odtworzenia (klucz = scenarioId).
+   * Gdy ustawione, model NIE jest wywoływany - scenariusz bez kasety kończy się błędem.
+   */
+  replayCassettes?: Map<string, Cassette>;
 
   // === OPCJE ZAPISU DO BAZY DANYCH ===
 
@@ -159,22 +209,64 @@ function extractToolCallsFromMessages(messages: RawMessage[]): ToolCall[] {
   return toolCalls;
 }
 
+/**
+ * Łączy MCP tool calls (z trackera) z SDK tool calls (z messages),
+ * pomijając SDK calls dla narzędzi już śledzonych przez tracker.
+ */
+function mergeToolCalls(mcpToolCalls: ToolCall[], sdkToolCalls: ToolCall[]): ToolCall[] {
+  const mcpToolNames = new Set(mcpToolCalls.map(c => c.toolName));
+  const uniqueSdkCalls = sdkToolCalls.filter(c => !mcpToolNames.has(c.toolName));
+  return [...mcpToolCalls, ...uniqueSdkCalls];
+}
+
+// ============================================================================
+// HELPER: Multi-turn scenarios
+// ============================================================================
+
+/**
+ * Wybiera wiadomość użytkownika dla kolejnej tury na podstawie ostatniej odpowiedzi agenta.
+ * Zwraca null gdy żadna reguła nie pasuje i tura nie ma stałej wiadomości.
+ */
+function resolveTurnUserMessage(turn: ScenarioTurn, lastAgentResponse: string): string | null {
+  for (const rule of turn.replies || []) {
+    // Pattern może być RegExp lub string (po serializacji JSON)
+    const regex = rule.whenResponseMatches instanceof RegExp
+      ? rule.whenResponseMatches
+      : typeof rule.whenResponseMatches === 'string' && rule.whenResponseMatches.length > 0
+        ? new RegExp(rule.whenResponseMatches, 'i')
+        : null;
+    if (regex && regex.test(lastAgentResponse)) {
+      return rule.userMessage;
+    }
+  }
+  return turn.userMessage ?? null;
+}
+
+function createEmptyDataDiff(): DataDiff {
+  return {
+    blocks: { added: [], modified: [], deleted: [] },
+    timelines: { added: [], modified: [], deleted: [] },
+    mediaAssets: { added: [], modified: [], deleted: [] },
+  };
+}
+
 // ============================================================================
 // TEST HARNESS
 // ============================================================================
 
 // Typ dla Required<TestHarnessOptions> z opcjonalnymi polami bazy danych
 type RequiredHarnessOptions = Required<Pick<TestHarnessOptions,
-  'fixturesPath' | 'fixturesDbPath' | 'vectorFixturesPath' | 'defaultTimeout' | 'verbose' | 'onToolCall' | 'onTestComplete'
+  'fixturesPath' | 'fixturesDbPath' | 'vectorFixturesPath' | 'defaultTimeout' | 'verbose' | 'onToolCall' | 'onTestComplete' |
+  'rubricJudge' | 'repetitions' | 'concurrency'
 >> & Pick<TestHarnessOptions,
   'saveResults' | 'tags' | 'label' | 'configSnapshot' | 'onMessage' | 'defaultSystemPrompt' |
   'model' | 'thinkingMode' | 'enabledTools' | 'disabledTools' | 'toolDescriptions' | 'toolParameterDescriptions' |
-  'transAgentPrompts' | 'transAgentEnabledTools' | 'subagentPrompts'
+  'transAgentPrompts' | 'transAgentEnabledTools' | 'subagentPrompts' |
+  'recordCassettesDir' | 'replayCassettes' | 'budget' | 'modelPricing' | 'renderChecker' | 'scenarioLimiter'
 >;
 
 export class AgentTestHarness {
   private options: RequiredHarnessOptions;
-  private storage: JsonStorage | null = null;
   private currentSuiteRunId: string | null = null;
 
   constructor(options: TestHarnessOptions = {}) {
@@ -198,6 +290,15 @@ export class AgentTestHarness {
       transAgentPrompts: options.transAgentPrompts,
       transAgentEnabledTools: options.transAgentEnabledTools,
       subagentPrompts: options.subagentPrompts,
+      rubricJudge: options.rubricJudge || new KeywordRubricJudge(),
+      budget: options.budget,
+      modelPricing: options.modelPricing,
+      renderChecker: options.renderChecker,
+      scenarioLimiter: options.scenarioLimiter,
+      repetitions: Math.max(1, Math.floor(options.repetitions || 1)),
+      concurrency: Math.max(1, Math.floor(options.concurrency || 1)),
+      recordCassettesDir: options.recordCassettesDir,
+      replayCassettes: options.replayCassettes,
       // Opcje bazy danych
       saveResults: options.saveResults,
       tags: options.tags,
@@ -208,25 +309,46 @@ export class AgentTestHarness {
 
   /**
    * Uruchamia pojedynczy scenariusz testowy
+   *
+   * Scenariusz działa we własnym sandboxie, więc może być uruchamiany równolegle z innymi.
+   *
+   * @param trial Numer próby (1..N) przy powtarzanych przebiegach - zapisywany w wyniku
+   */
+  async runScenario(scenario: TestScenario, trial?: number): Promise<TestResult> {
+    const sandbox = createScenarioSandbox(scenario.id);
+    return runInSandbox(sandbox, () => this.executeScenario(scenario, sandbox, trial));
+  }
+
+  /**
+   * Wykonuje scenariusz w sandboxie (storage i tracker przebiegu)
    */
-  async runScenario(scenario: TestScenario): Promise<TestResult> {
+  private async executeScenario(
+    scenario: TestScenario,
+    sandbox: ScenarioSandbox,
+    trial?: number
+  ): Promise<TestResult> {
+    const { storage, tracker } = sandbox;
     const testId = uuidv4();
     const startedAt = new Date().toISOString();
 
-    this.log(`Starting scenario: ${scenario.name} (${scenario.id})`);
+    this.log(`Starting scenario: ${scenario.name} (${scenario.id})${trial ? ` - trial ${trial}` : ''}`);
 
     // Zmienne zadeklarowane przed try - dostępne w catch dla partial results
-    let tracker: ToolTracker | null = null;
-    let agent: TestableAgentAdapter | null = null;
+    let agent: TestableAgentAdapter | ReplayAgentAdapter | null = null;
     let beforeSnapshot: ReturnType<JsonStorage['getSnapshot']> | null = null;
 
-    try {
-      // 1. Załaduj fixtures do JSON storage
-      this.storage = new JsonStorage();
+    // Stan rozmowy wieloetapowej - dostępny w catch dla partial results
+    const conversationMessages: RawMessage[] = [];
+    const turnResults: TurnResult[] = [];
+    const cassetteTurns: CassetteTurn[] = [];
+    const completedTurnsMetrics = { inputTokens: 0, outputTokens: 0, turnCount: 0 };
+    let turnInProgress = false;
 
+    try {
+      // 1. Załaduj fixtures do JSON storage sandboxa
       // Używamy ID z input.context - ładujemy z wspólnej bazy fixtures.db
       const { projectId, chapterId } = scenario.input.context;
-      await this.storage.loadFromSqliteDb(
+      await storage.loadFromSqliteDb(
         projectId,
         chapterId || null,
         this.options.fixturesDbPath
@@ -237,14 +359,13 @@ export class AgentTestHarness {
       if (fs.existsSync(this.options.vectorFixturesPath)) {
         const testVectorStore = new TestVectorStore(this.options.vectorFixturesPath);
         await testVectorStore.initialize();
-        semanticSearchService.setVectorStore(testVectorStore);
+        attachVectorStore(sandbox, testVectorStore);
         this.log(`Loaded LanceDB fixtures from: ${this.options.vectorFixturesPath}`);
       }
 
-      beforeSnapshot = this.storage.getSnapshot();
+      beforeSnapshot = storage.getSnapshot();
 
-      // 2. Utwórz tracker narzędzi
-      tracker = new ToolTracker();
+      // 2. Tracker narzędzi pochodzi z sandboxa (osobny dla każdego przebiegu)
 
       // 3. Sprawdź typ agenta
       const agentType = scenario.agent as AgentType;
@@ -252,88 +373,250 @@ export class AgentTestHarness {
         throw new Error(`Unknown agent type: ${scenario.agent}. Expected 'montage' or 'script'.`);
       }
 
-      // 4. Utwórz adapter agenta (automatycznie wstrzykuje JsonStorage do StorageRegistry)
-      // Użyj prompt ze scenariusza LUB defaultSystemPrompt z harness
-      const effectivePrompt = scenario.systemPrompt || this.options.defaultSystemPrompt;
-      agent = new TestableAgentAdapter(
-        agentType,
-        this.storage,
-        tracker,
-        effectivePrompt,
-        {
-          enabledTools: this.options.enabledTools,
-          disabledTools: this.options.disabledTools,
-          toolDescriptions: this.options.toolDescriptions,
-          toolParameterDescriptions: this.options.toolParameterDescriptions,
-          transAgentPrompts: this.options.transAgentPrompts,
-          transAgentEnabledTools: this.options.transAgentEnabledTools,
-          subagentPrompts: this.options.subagentPrompts,
-        }
-      );
+      // 4. Utwórz adapter agenta (StorageRegistry kieruje do storage sandboxa)
+      // W trybie replay - odtwarzanie kasety zamiast wywołań modelu
+      const cassette = this.options.replayCassettes?.get(scenario.id);
+      if (this.options.replayCassettes && !cassette) {
+        throw new Error(`No cassette recorded for scenario: ${scenario.id}`);
+      }
+
+      if (cassette) {
+        agent = new ReplayAgentAdapter(cassette, storage, tracker);
+        this.log(`Replaying cassette (${cassette.source}, ${cassette.turns.length} turns)`);
+      } else {
+        // Użyj prompt ze scenariusza LUB defaultSystemPrompt z harness
+        const effectivePrompt = scenario.systemPrompt || this.options.defaultSystemPrompt;
+        agent = new TestableAgentAdapter(
+          agentType,
+          storage,
+          tracker,
+          effectivePrompt,
+          {
+            enabledTools: this.options.enabledTools,
+            disabledTools: this.options.disabledTools,
+            toolDescriptions: this.options.toolDescriptions,
+            toolParameterDescriptions: this.options.toolParameterDescriptions,
+            transAgentPrompts: this.options.transAgentPrompts,
+            transAgentEnabledTools: this.options.transAgentEnabledTools,
+            subagentPrompts: this.options.subagentPrompts,
+          }
+        );
+      }
 
       // 5. Uruchom agenta z timeoutem
       const timeout = scenario.timeout || this.options.defaultTimeout;
 
       // Callback dla live streaming wiadomości
       const messageCallback = this.options.onMessage
-        ? (msg: RawMessage) => this.options.onMessage!(msg, scenario.id)
+        ? (msg: RawMessage) => this.options.onMessage!(msg, scenario.id, trial)
         : undefined;
 
       // Użyj model i thinkingMode z opcji harness (domyślnie sonnet/think)
       const effectiveModel = this.options.model || 'sonnet';
       const effectiveThinkingMode = this.options.thinkingMode || 'think';
 
-      const agentResult = await this.runWithTimeout(
-        agent.chat(
-          `test-thread-${testId}`,
-          scenario.input.userMessage,
-          { model: effectiveModel, thinkingMode: effectiveThinkingMode },
-          scenario.input.context,
-          messageCallback
-        ),
-        timeout,
-        agent // przekaż agenta do runWithTimeout dla cancel przy timeout
-      );
+      // Tura 1 = input scenariusza, kolejne tury = scenario.turns (ten sam wątek)
+      const threadId = `test-thread-${testId}`;
+      const turnPlan: ScenarioTurn[] = [
+        { userMessage: scenario.input.userMessage, expectations: scenario.expectations },
+        ...(scenario.turns || []),
+      ];
+      let lastResponse = '';
+      const rubricJudgements: RubricJudgements = new Map();
+      // Stan chaptera po każdej turze (dla invariants), indeks = numer tury - 1
+      const turnStates: Array<ChapterState | undefined> = [];
+
+      for (let i = 0; i < turnPlan.length; i++) {
+        const turnNumber = i + 1;
+        const userMessage = i === 0
+          ? scenario.input.userMessage
+          : resolveTurnUserMessage(turnPlan[i], lastResponse);
+
+        // Brak pasującej odpowiedzi - rozmowa kończy się, pozostałe tury są pomijane
+        if (userMessage === null) {
+          for (let j = i; j < turnPlan.length; j++) {
+            turnResults.push({
+              turn: j + 1,
+              passed: true,
+              skipped: true,
+              toolCalls: [],
+              dataDiff: createEmptyDataDiff(),
+              assertions: [],
+            });
+          }
+          this.log(`Turn ${turnNumber}: no reply rule matched - conversation ended`);
+          break;
+        }
 
-      // 6. Zbierz wyniki
-      const afterSnapshot = this.storage.getSnapshot();
+        const turnBeforeSnapshot = storage.getSnapshot();
+        const trackedCallsBefore = tracker.getCalls().length;
+
+        conversationMessages.push({
+          role: 'user',
+          timestamp: Date.now(),
+          content: [{ type: 'text', text: userMessage }],
+        });
+        turnInProgress = true;
+
+        const agentResult = await this.runWithTimeout(
+          agent.chat(
+            threadId,
+            userMessage,
+            { model: effectiveModel, thinkingMode: effectiveThinkingMode },
+            scenario.input.context,
+            messageCallback
+          ),
+          timeout,
+          agent // przekaż agenta do runWithTimeout dla cancel przy timeout
+        );
+
+        // Zbierz tool calls tej tury z OBU źródeł:
+        // 1. MCP tools z tracker (mają pełne input/output/timing)
+        // 2. SDK built-in tools z messages (tylko tool_use blocks - Task, TodoWrite, WebSearch, etc.)
+        const turnToolCalls = mergeToolCalls(
+          tracker.getCalls().slice(trackedCallsBefore),
+          extractToolCallsFromMessages(agentResult.messages)
+        );
+
+        conversationMessages.push(...agentResult.messages);
+        turnInProgress = false;
 
-      // Zbierz tool calls z OBU źródeł:
-      // 1. MCP tools z tracker (mają pełne input/output/timing)
-      // 2. SDK built-in tools z messages (tylko tool_use blocks - Task, TodoWrite, WebSearch, etc.)
-      const mcpToolCalls = tracker.getCalls();
-      const sdkToolCalls = extractToolCallsFromMessages(agentResult.messages);
+        completedTurnsMetrics.inputTokens += agentResult.metrics.inputTokens;
+        completedTurnsMetrics.outputTokens += agentResult.metrics.outputTokens;
+        completedTurnsMetrics.turnCount += agentResult.metrics.turnCount;
+        lastResponse = agentResult.response;
 
-      // Połącz, ale unikaj duplikatów (MCP tools mogą być w obu źródłach)
-      const mcpToolNames = new Set(mcpToolCalls.map(c => c.toolName));
-      const uniqueSdkCalls = sdkToolCalls.filter(c => !mcpToolNames.has(c.toolName));
-      const toolCalls = [...mcpToolCalls, ...uniqueSdkCalls];
+        const turnDataDiff = storage.diff(turnBeforeSnapshot, storage.getSnapshot());
+        turnStates[i] = chapterId ? reconstructChapterState(turnBeforeSnapshot, turnDataDiff, chapterId) : undefined;
+
+        cassetteTurns.push({
+          userMessage,
+          response: agentResult.response,
+          metrics: agentResult.metrics,
+          messages: agentResult.messages,
+          toolCalls: tracker.getCalls().slice(trackedCallsBefore),
+        });
+
+        // Oceny rubryk tej tury (judge jest async - liczony przed sprawdzeniem asercji)
+        const turnJudgements = await evaluateRubrics(turnPlan[i].expectations, this.options.rubricJudge, {
+          userMessage,
+          agentResponse: agentResult.response,
+          dataDiff: turnDataDiff,
+        });
+        turnJudgements.forEach((judgement, rubric) => rubricJudgements.set(rubric, judgement));
+
+        turnResults.push({
+          turn: turnNumber,
+          userMessage,
+          agentResponse: agentResult.response,
+          passed: true,
+          toolCalls: turnToolCalls,
+          dataDiff: turnDataDiff,
+          assertions: [],
+        });
+      }
 
-      const dataDiff = this.storage.diff(beforeSnapshot, afterSnapshot);
+      // 6. Zbierz wyniki
+      const afterSnapshot = storage.getSnapshot();
+      const toolCalls = turnResults.flatMap((t) => t.toolCalls);
+      const dataDiff = storage.diff(beforeSnapshot, afterSnapshot);
 
       // 7. Wywołaj callback dla każdego tool call
       for (const call of toolCalls) {
-        this.options.onToolCall(call);
+        this.options.onToolCall(call, scenario.id, trial);
       }
 
-      // 8. Sprawdź oczekiwania
-      const { assertions, allPassed } = checkExpectations(
-        scenario.expectations,
-        toolCalls,
-        dataDiff,
-        agentResult.response
-      );
+      // 8. Sprawdź oczekiwania (per tura dla scenariuszy wieloetapowych)
+      let assertions: TestResult['assertions'];
+      let allPassed: boolean;
+
+      if (scenario.turns && scenario.turns.length > 0) {
+        const checked = checkTurnExpectations(
+          turnResults
+            .filter((t) => !t.skipped)
+            .map((t) => ({
+              turn: t.turn,
+              expectations: turnPlan[t.turn - 1].expectations,
+              toolCalls: t.toolCalls,
+              dataDiff: t.dataDiff,
+              agentResponse: t.agentResponse,
+              rubricJudgements,
+              chapterState: turnStates[t.turn - 1],
+            }))
+        );
+
+        for (const turnResult of turnResults) {
+          if (turnResult.skipped) {
+            turnResult.assertions = [{
+              name: `[Turn ${turnResult.turn}] Skipped - no reply rule matched the agent's answer`,
+              passed: false,
+              softCheck: true,
+              turn: turnResult.turn,
+              expected: turnPlan[turnResult.turn - 1].replies?.map((r) => String(r.whenResponseMatches)),
+              actual: lastResponse,
+            }];
+            continue;
+          }
+          turnResult.assertions = checked.assertions.filter((a) => a.turn === turnResult.turn);
+          turnResult.passed = turnResult.assertions.every((a) => a.passed || a.softCheck);
+        }
+
+        assertions = turnResults.flatMap((t) => t.assertions);
+        allPassed = checked.allPassed;
+      } else {
+        ({ assertions, allPassed } = checkExpectations(
+          scenario.expectations,
+          toolCalls,
+          dataDiff,
+          lastResponse,
+          rubricJudgements,
+          chapterId ? reconstructChapterState(beforeSnapshot, dataDiff, chapterId) : undefined
+        ));
+      }
 
       // 9. Zbuduj wynik
       const completedAt = new Date().toISOString();
+      const costUsd = estimateCostUsd(
+        effectiveModel,
+        completedTurnsMetrics.inputTokens,
+        completedTurnsMetrics.outputTokens,
+        this.options.modelPricing
+      );
       const metrics: TestMetrics = {
-        inputTokens: agentResult.metrics.inputTokens,
-        outputTokens: agentResult.metrics.outputTokens,
-        totalTokens: agentResult.metrics.inputTokens + agentResult.metrics.outputTokens,
+        inputTokens: completedTurnsMetrics.inputTokens,
+        outputTokens: completedTurnsMetrics.outputTokens,
+        totalTokens: completedTurnsMetrics.inputTokens + completedTurnsMetrics.outputTokens,
         latencyMs: new Date(completedAt).getTime() - new Date(startedAt).getTime(),
-        turnCount: agentResult.metrics.turnCount,
+        turnCount: completedTurnsMetrics.turnCount,
+        ...(costUsd !== undefined && { costUsd }),
       };
 
+      // Budżet przebiegu (wymaga metryk - sprawdzany po pozostałych oczekiwaniach)
+      const budget = resolveBudget(this.options.budget, scenario.expectations);
+      if (budget) {
+        const budgetAssertions = checkBudgetExpectations(budget, metrics, toolCalls.length);
+        assertions = [...assertions, ...budgetAssertions];
+        allPassed = allPassed && budgetAssertions.every((a) => a.passed || a.softCheck);
+      }
+
+      // Render stanu końcowego chaptera (po agencie, poza zmierzonym czasem przebiegu)
+      const renderChecks = resolveRenderChecks(scenario.expectations);
+      let renderReport: RenderCheckReport | undefined;
+      if (renderChecks) {
+        this.log(`Running render checks (${renderChecks.engine}) for chapter ${chapterId}`);
+        const rendered = await runRenderChecks(this.options.renderChecker, {
+          suiteId: this.currentSuiteRunId ?? undefined,
+          scenarioId: scenario.id,
+          projectId,
+          chapterId,
+          dataDiff,
+          expectation: renderChecks,
+        });
+        renderReport = rendered.report;
+        assertions = [...assertions, ...rendered.assertions];
+        allPassed = allPassed && rendered.assertions.every((a) => a.passed || a.softCheck);
+      }
+
       // Pobierz informacje o prompcie
       const promptInfo = agent.getResolvedPromptInfo();
 
@@ -347,14 +630,8 @@ export class AgentTestHarness {
         content: [{ type: 'text', text: promptInfo?.resolvedPrompt || '' }],
       };
 
-      // Wiadomość użytkownika jako druga
-      const userMessageEntry: RawMessage = {
-        role: 'user',
-        timestamp: new Date(startedAt).getTime(),
-        content: [{ type: 'text', text: scenario.input.userMessage }],
-      };
-
-      const fullMessages = [systemMessageEntry, userMessageEntry, ...agentResult.messages];
+      // Wiadomości użytkownika i agenta ze wszystkich tur
+      const fullMessages = [systemMessageEntry, ...conversationMessages];
 
       const result: TestResult = {
         id: testId,
@@ -365,7 +642,7 @@ export class AgentTestHarness {
         dataDiff,
         assertions,
         metrics,
-        agentResponse: agentResult.response,
+        agentResponse: lastResponse,
         startedAt,
         completedAt,
         messages: fullMessages,
@@ -381,8 +658,25 @@ export class AgentTestHarness {
         userMessage: scenario.input.userMessage,
         inputContext: scenario.input.context,
         stderrLogs: stderrLogs.length > 0 ? stderrLogs : undefined,
+        turns: scenario.turns && scenario.turns.length > 0 ? turnResults : undefined,
+        trial,
+        renderChecks: renderReport,
       };
 
+      // Nagraj kasetę (nie nagrywamy ponownie odtwarzanych przebiegów)
+      if (this.options.recordCassettesDir && !cassette) {
+        const cassettePath = saveCassette(this.options.recordCassettesDir, {
+          version: CASSETTE_VERSION,
+          scenarioId: scenario.id,
+          scenarioName: scenario.name,
+          recordedAt: completedAt,
+          source: 'recording',
+          systemPromptInfo: result.systemPromptInfo,
+          turns: cassetteTurns,
+        });
+        this.log(`Cassette recorded: ${cassettePath}`);
+      }
+
       this.log(`Scenario ${scenario.name}: ${allPassed ? 'PASSED' : 'FAILED'}`);
       this.options.onTestComplete(result);
 
@@ -393,15 +687,17 @@ export class AgentTestHarness {
 
       this.log(`Scenario ${scenario.name}: ERROR - ${errorMessage}`);
 
-      // Zbierz partial messages (jeśli agent istnieje)
-      const partialMessages = agent?.getCollectedMessages() || [];
+      // Zbierz partial messages - zakończone tury + bieżąca tura (jeśli agent istnieje)
+      const partialMessages = [
+        ...conversationMessages,
+        ...(turnInProgress ? agent?.getCollectedMessages() || [] : []),
+      ];
 
       // Zbierz partial tool calls z OBU źródeł (jak w happy path)
-      const mcpToolCalls = tracker?.getCalls() || [];
-      const sdkToolCalls = extractToolCallsFromMessages(partialMessages);
-      const mcpToolNames = new Set(mcpToolCalls.map(c => c.toolName));
-      const uniqueSdkCalls = sdkToolCalls.filter(c => !mcpToolNames.has(c.toolName));
-      const partialToolCalls = [...mcpToolCalls, ...uniqueSdkCalls];
+      const partialToolCalls = mergeToolCalls(
+        tracker.getCalls(),
+        extractToolCallsFromMessages(partialMessages)
+      );
 
       // Zbierz partial stderr logs (jeśli agent istnieje)
       const partialStderrLogs = agent?.getCollectedStderrLogs() || [];
@@ -416,31 +712,38 @@ export class AgentTestHarness {
         content: [{ type: 'text', text: partialPromptInfo?.resolvedPrompt || '' }],
       };
 
-      // Wiadomość użytkownika jako druga
-      const userMessageEntry: RawMessage = {
-        role: 'user',
-        timestamp: new Date(startedAt).getTime(),
-        content: [{ type: 'text', text: scenario.input.userMessage }],
-      };
+      // Wiadomość użytkownika jako druga (jeśli błąd wystąpił przed pierwszą turą)
+      const userMessageEntries: RawMessage[] = conversationMessages.length === 0
+        ? [{
+            role: 'user',
+            timestamp: new Date(startedAt).getTime(),
+            content: [{ type: 'text', text: scenario.input.userMessage }],
+          }]
+        : [];
 
-      // Partial data diff (jeśli storage istnieje i mamy beforeSnapshot)
+      // Partial data diff (jeśli fixtures zdążyły się załadować)
       let partialDataDiff = {
         blocks: { added: [] as unknown[], modified: [] as unknown[], deleted: [] as unknown[] },
         timelines: { added: [] as unknown[], modified: [] as unknown[], deleted: [] as unknown[] },
         mediaAssets: { added: [] as unknown[], modified: [] as unknown[], deleted: [] as unknown[] },
       };
 
-      if (this.storage && beforeSnapshot) {
+      if (beforeSnapshot) {
         try {
-          const afterSnapshot = this.storage.getSnapshot();
-          partialDataDiff = this.storage.diff(beforeSnapshot, afterSnapshot);
+          const afterSnapshot = storage.getSnapshot();
+          partialDataDiff = storage.diff(beforeSnapshot, afterSnapshot);
         } catch {
           // Jeśli diff się nie udał, zostaw puste arrays
         }
       }
 
       // Zbierz partial metrics (jeśli agent istnieje i ma metodę getPartialMetrics)
-      const partialMetrics = agent?.getPartialMetrics?.();
+      const currentTurnMetrics = turnInProgress ? agent?.getPartialMetrics?.() : undefined;
+      const partialMetrics = {
+        inputTokens: completedTurnsMetrics.inputTokens + (currentTurnMetrics?.inputTokens || 0),
+        outputTokens: completedTurnsMetrics.outputTokens + (currentTurnMetrics?.outputTokens || 0),
+        turnCount: completedTurnsMetrics.turnCount + (currentTurnMetrics?.turnCount || 0),
+      };
 
       const result: TestResult = {
         id: testId,
@@ -451,16 +754,16 @@ export class AgentTestHarness {
         dataDiff: partialDataDiff,
         assertions: [{ name: 'Execution', passed: false, message: errorMessage }],
         metrics: {
-          inputTokens: partialMetrics?.inputTokens || 0,
-          outputTokens: partialMetrics?.outputTokens || 0,
-          totalTokens: (partialMetrics?.inputTokens || 0) + (partialMetrics?.outputTokens || 0),
+          inputTokens: partialMetrics.inputTokens,
+          outputTokens: partialMetrics.outputTokens,
+          totalTokens: partialMetrics.inputTokens + partialMetrics.outputTokens,
           latencyMs: new Date(completedAt).getTime() - new Date(startedAt).getTime(),
-          turnCount: partialMetrics?.turnCount || partialToolCalls.length,
+          turnCount: partialMetrics.turnCount || partialToolCalls.length,
         },
         error: errorMessage,
         startedAt,
         completedAt,
-        messages: [systemMessageEntry, userMessageEntry, ...partialMessages],
+        messages: [systemMessageEntry, ...userMessageEntries, ...partialMessages],
         systemPromptInfo: partialPromptInfo
           ? {
               source: partialPromptInfo.source,
@@ -473,15 +776,12 @@ export class AgentTestHarness {
         userMessage: scenario.input.userMessage,
         inputContext: scenario.input.context,
         stderrLogs: partialStderrLogs.length > 0 ? partialStderrLogs : undefined,
+        turns: turnResults.length > 0 ? turnResults : undefined,
+        trial,
       };
 
       this.options.onTestComplete(result);
       return result;
-    } finally {
-      // 10. Przywróć domyślne storage (SQLite) i vector store
-      storageRegistry.resetToDefaults();
-      semanticSearchService.resetVectorStore();
-      this.storage = null;
     }
   }
 
@@ -509,13 +809,13 @@ export class AgentTestHarness {
       this.log(`Started suite run: ${this.currentSuiteRunId}`);
     }
 
-    for (const scenario of scenarios) {
-      const result = await this.runScenario(scenario);
+    const trials = await this.runTrialPlan(scenarios);
+
+    for (const { scenario, result } of trials) {
       results.push(result);
 
-      // Zapisz wynik scenariusza do bazy
+      // Zapisz wynik próby do bazy
       if (this.options.saveResults && this.currentSuiteRunId) {
-        const fixtures = this.storage?.getSnapshot() || {};
         evalStorageService.saveScenarioResult(
           this.currentSuiteRunId,
           scenario,
@@ -530,7 +830,8 @@ export class AgentTestHarness {
             startedAt: result.startedAt,
             completedAt: result.completedAt,
           },
-          fixtures as Record<string, unknown>
+          // Storage sandboxa jest zwalniany po przebiegu - fixtures nie są dostępne
+          {}
         );
       }
     }
@@ -587,6 +888,39 @@ export class AgentTestHarness {
     };
   }
 
+  /**
+   * Uruchamia scenariusz `repetitions` razy (każda próba na świeżych fixtures)
+   *
+   * Przy jednym powtórzeniu wynik nie ma numeru próby (jak w runScenario).
+   */
+  async runScenarioTrials(scenario: TestScenario): Promise<TestResult[]> {
+    const trials = await this.runTrialPlan([scenario]);
+    return trials.map((t) => t.result);
+  }
+
+  /**
+   * Uruchamia wszystkie próby scenariuszy z limitem `concurrency`
+   *
+   * Próby są startowane w kolejności scenariuszy, wyniki zachowują tę kolejność
+   * niezależnie od kolejności zakończenia.
+   */
+  private async runTrialPlan(scenarios: TestScenario[]): Promise<Array<{ scenario: TestScenario; result: TestResult }>> {
+    const { repetitions, concurrency, scenarioLimiter } = this.options;
+    const plan = scenarios.flatMap((scenario) =>
+      Array.from({ length: repetitions }, (_, i) => ({
+        scenario,
+        trial: repetitions > 1 ? i + 1 : undefined,
+      }))
+    );
+
+    return mapWithConcurrency(plan, concurrency, async ({ scenario, trial }) => ({
+      scenario,
+      result: scenarioLimiter
+        ? await scenarioLimiter.run(() => this.runScenario(scenario, trial))
+        : await this.runScenario(scenario, trial),
+    }));
+  }
+
   /**
    * Uruchamia scenariusz z różnymi wariantami polecenia
    */
@@ -615,10 +949,10 @@ export class AgentTestHarness {
   }
 
   /**
-   * Zwraca bieżący storage (dla debugowania)
+   * Zwraca storage sandboxa bieżącego przebiegu (dla debugowania, null poza przebiegiem)
    */
   getCurrentStorage(): JsonStorage | null {
-    return this.storage;
+    return getActiveSandbox()?.storage || null;
   }
 
   // ============================================================================
@@ -628,7 +962,7 @@ export class AgentTestHarness {
   private async runWithTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
-    agent?: TestableAgentAdapter
+    agent?: { cancel(): void }
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const timer = setTimeout(() => {
@@ -663,34 +997,49 @@ export class AgentTestHarness {
 // ============================================================================
 
 export interface TestSummary {
+  /** Liczba scenariuszy (unikalnych - próby są agregowane) */
   total: number;
+  /** Scenariusze, w których przeszły wszystkie próby */
   passed: number;
   failed: number;
+  /** Średni pass rate scenariuszy (przy 1 próbie = passed / total) */
   passRate: number;
+  /** Liczba wszystkich prób (= total gdy brak powtórzeń) */
+  totalTrials: number;
   totalTokens: number;
   totalLatencyMs: number;
   avgTokensPerTest: number;
   avgLatencyMs: number;
   failedScenarios: string[];
+  /** Scenariusze z mieszanymi wynikami prób */
+  flakyScenarios: string[];
+  /** Statystyki prób per scenariusz */
+  scenarioStats: ScenarioTrialStats[];
 }
 
 export function summarizeResults(results: TestResult[]): TestSummary {
-  const passed = results.filter((r) => r.passed).length;
-  const failed = results.length - passed;
+  const scenarioStats = computeTrialStats(results);
+  const passed = scenarioStats.filter((s) => s.flakiness === 'stable').length;
+  const failed = scenarioStats.length - passed;
 
   const totalTokens = results.reduce((sum, r) => sum + r.metrics.totalTokens, 0);
   const totalLatencyMs = results.reduce((sum, r) => sum + r.metrics.latencyMs, 0);
 
   return {
-    total: results.length,
+    total: scenarioStats.length,
     passed,
     failed,
-    passRate: results.length > 0 ? passed / results.length : 0,
+    passRate: scenarioStats.length > 0
+      ? scenarioStats.reduce((sum, s) => sum + s.passRate, 0) / scenarioStats.length
+      : 0,
+    totalTrials: results.length,
     totalTokens,
     totalLatencyMs,
     avgTokensPerTest: results.length > 0 ? totalTokens / results.length : 0,
     avgLatencyMs: results.length > 0 ? totalLatencyMs / results.length : 0,
-    failedScenarios: results.filter((r) => !r.passed).map((r) => r.scenarioId),
+    failedScenarios: scenarioStats.filter((s) => s.flakiness !== 'stable').map((s) => s.scenarioId),
+    flakyScenarios: scenarioStats.filter((s) => s.flakiness === 'flaky').map((s) => s.scenarioId),
+    scenarioStats,
   };
 }
 
@@ -700,12 +1049,24 @@ export function formatSummary(summary: TestSummary): string {
     `TEST SUMMARY`,
     `${'='.repeat(60)}`,
     `Total:    ${summary.total}`,
-    `Passed:   ${summary.passed} (${(summary.passRate * 100).toFixed(1)}%)`,
+    `Passed:   ${summary.passed} (pass rate: ${(summary.passRate * 100).toFixed(1)}%)`,
     `Failed:   ${summary.failed}`,
+  ];
+
+  const hasRepetitions = summary.totalTrials > summary.total;
+  if (hasRepetitions) {
+    lines.push(`Trials:   ${summary.totalTrials}`, `Flaky:    ${summary.flakyScenarios.length}`);
+  }
+
+  lines.push(
     ``,
     `Tokens:   ${summary.totalTokens} total (avg: ${summary.avgTokensPerTest.toFixed(0)}/test)`,
     `Latency:  ${(summary.totalLatencyMs / 1000).toFixed(1)}s total (avg: ${(summary.avgLatencyMs / 1000).toFixed(1)}s/test)`,
-  ];
+  );
+
+  if (hasRepetitions) {
+    lines.push(``, `Per scenario:`, ...summary.scenarioStats.map(formatTrialStats));
+  }
 
   if (summary.failedScenarios.length > 0) {
     lines.push(``, `Failed scenarios:`, ...summary.failedScenarios.map((s) => `  - ${s}`));
@@ -715,3 +1076,18 @@ export function formatSummary(summary: TestSummary): string {
 
   return lines.join('\n');
 }
+
+function formatTrialStats(stats: ScenarioTrialStats): string {
+  const ci = stats.confidenceInterval;
+  const passAtK = Object.entries(stats.passAtK)
+    .map(([k, value]) => `pass@${k}=${value.toFixed(2)}`)
+    .join(' ');
+
+  return [
+    `  [${stats.flakiness.toUpperCase()}] ${stats.scenarioId}`,
+    `    ${stats.passedTrials}/${stats.trials} passed (${(stats.passRate * 100).toFixed(0)}%, ` +
+      `${(ci.level * 100).toFixed(0)}% CI ${(ci.lower * 100).toFixed(0)}-${(ci.upper * 100).toFixed(0)}%) ${passAtK}`,
+    `    tokens ${stats.tokens.mean.toFixed(0)} ± ${stats.tokens.stdDev.toFixed(0)}, ` +
+      `latency ${(stats.latencyMs.mean / 1000).toFixed(1)}s ± ${(stats.latencyMs.stdDev / 1000).toFixed(1)}s`,
+  ].join('\n');
+}
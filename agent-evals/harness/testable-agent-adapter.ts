@@ -21,8 +21,9 @@ import { promptLoaderService } from '../../../desktop-app/electron/services/base
 import { agentPromptService } from '../../../desktop-app/electron/services/base/AgentPromptService';
 import { JsonStorage } from '../storage/json-storage';
 import { ToolTracker } from './tool-tracker';
-import { getToolDefinitionsForAgent } from './tool-definitions-provider';
+import { getToolDefinitionsForAgent, type ToolDefinition } from './tool-definitions-provider';
 import { MemoryLogger, type LogEntry } from './memory-logger';
+import { getActiveSandbox } from './sandbox';
 import type { ITestableAgent } from './test-harness';
 import type { ChatMessage, Project, Chapter } from '../../../desktop-app/shared/types';
 import type { ToolWrapper, TransAgentPromptConfig } from '../../../desktop-app/electron/services/mcp/types';
@@ -85,6 +86,198 @@ export interface ResolvedPromptInfo {
   mode?: 'append' | 'replace';
 }
 
+/**
+ * Wstrzykuje JsonStorage do electron's StorageRegistry.
+ * Od tego momentu wszystkie serwisy (BlockService, etc.) i narzędzia MCP używają JsonStorage.
+ *
+ * Storage sandboxa bieżącego przebiegu jest już podpięty przez routing (runInSandbox) -
+ * nadpisanie registry zepsułoby równoległe scenariusze.
+ */
+export function registerJsonStorage(storage: JsonStorage): void {
+  if (getActiveSandbox()?.storage === storage) {
+    return;
+  }
+
+  storageRegistry.setAll({
+    project: storage.getProjectStorage(),
+    chapter: storage.getChapterStorage(),
+    timeline: storage.getTimelineStorage(),
+    block: storage.getBlockStorage(),
+    mediaAsset: storage.getMediaAssetStorage(),
+    chat: storage.getChatStorage(),
+    enrichment: storage.getEnrichmentStorage(),
+    settings: storage.getSettingsStorage(),
+    person: storage.getPersonStorage(),
+    dynamicComposition: storage.getDynamicCompositionStorage(),
+  });
+
+  // Weryfikacja że storage został ustawiony
+  if (!storageRegistry.isInitialized()) {
+    console.error('[TestableAgentAdapter] CRITICAL: Storage not initialized after setAll()!');
+    console.error('[TestableAgentAdapter] This may indicate module resolution issue.');
+    console.error('[TestableAgentAdapter] storageRegistry instance:', storageRegistry);
+    throw new Error('StorageRegistry initialization failed - possible module singleton mismatch');
+  }
+  console.log('[TestableAgentAdapter] StorageRegistry initialized successfully');
+}
+
+/**
+ * Rozwiązuje system prompt agenta - custom (raw / plik / patche) lub domyślny
+ *
+ * Zwraca undefined tylko gdy brak konfiguracji i domyślny prompt nie istnieje.
+ */
+export function resolveSystemPromptInfo(
+  agentType: AgentType,
+  config?: SystemPromptConfig
+): ResolvedPromptInfo | undefined {
+  if (!config) {
+    const defaultPrompt = promptLoaderService.getAgentPrompt(agentType);
+    return defaultPrompt
+      ? { source: 'default', sourceFile: `shared/prompts/agents/${agentType}.md`, rawPrompt: defaultPrompt }
+      : undefined;
+  }
+
+  // Opcja 1: Pełny tekst promptu
+  if (config.raw) {
+    return {
+      source: 'custom-raw',
+      rawPrompt: config.raw,
+      mode: config.mode,
+    };
+  }
+
+  // Opcja 2: Prompt z pliku
+  if (config.file) {
+    const filePath = path.resolve(process.cwd(), config.file);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`[TestableAgentAdapter] Custom prompt file not found: ${filePath}`);
+    }
+    const fileContent = fs.readFileSync(filePath, 'utf-8');
+    return {
+      source: 'custom-file',
+      sourceFile: config.file,
+      rawPrompt: fileContent,
+      mode: config.mode,
+    };
+  }
+
+  // Opcja 3: Patche na domyślny prompt
+  if (config.patches && config.patches.length > 0) {
+    let prompt = promptLoaderService.getAgentPrompt(agentType);
+    if (!prompt) {
+      throw new Error(`[TestableAgentAdapter] Default prompt not found for agent: ${agentType}`);
+    }
+
+    for (const patch of config.patches) {
+      prompt = prompt.replace(patch.find, patch.replace);
+    }
+
+    return {
+      source: 'patched',
+      patches: config.patches,
+      rawPrompt: prompt,
+      mode: config.mode,
+    };
+  }
+
+  // Fallback - domyślny prompt
+  const defaultPrompt = promptLoaderService.getAgentPrompt(agentType);
+  if (!defaultPrompt) {
+    throw new Error(`[TestableAgentAdapter] Default prompt not found for agent: ${agentType}`);
+  }
+  return {
+    source: 'default',
+    sourceFile: `shared/prompts/agents/${agentType}.md`,
+    rawPrompt: defaultPrompt,
+    mode: config.mode,
+  };
+}
+
+/**
+ * Wylicza finalną listę włączonych narzędzi na podstawie konfiguracji
+ * Zwraca undefined jeśli nie ma żadnych filtrów (wszystkie narzędzia włączone)
+ */
+export function resolveEnabledTools(
+  agentType: AgentType,
+  toolsConfig?: TestableAgentToolsConfig
+): string[] | undefined {
+  if (!toolsConfig) {
+    return undefined;
+  }
+
+  const { enabledTools, disabledTools } = toolsConfig;
+
+  // Jeśli podano enabledTools, użyj ich bezpośrednio
+  if (enabledTools && enabledTools.length > 0) {
+    console.log(`[TestableAgentAdapter] Using ${enabledTools.length} enabled tools`);
+    return enabledTools;
+  }
+
+  // Jeśli podano disabledTools, pobierz wszystkie dozwolone dla agenta i odejmij wyłączone
+  if (disabledTools && disabledTools.length > 0) {
+    // Import dynamiczny żeby uniknąć circular dependency
+    const { MONTAGE_ALLOWED_TOOLS, SCRIPT_ALLOWED_TOOLS, isSdkBuiltinTool } = require('../../../desktop-app/shared/prompts/agents/allowed-tools');
+    const allTools = agentType === 'montage' ? MONTAGE_ALLOWED_TOOLS : SCRIPT_ALLOWED_TOOLS;
+
+    // Wyciąg nazwy - obsłuż zarówno MCP (z prefiksem) jak i SDK (bez prefiksu)
+    const allToolNames = allTools.map((t: string) => {
+      if (t.startsWith('mcp__clamka-mcp__')) {
+        return t.replace('mcp__clamka-mcp__', '');
+      }
+      if (t.startsWith('mcp__mcp-puppeteer__')) {
+        return t.replace('mcp__mcp-puppeteer__', '');
+      }
+      // SDK built-in tools (Task, TodoWrite, etc.) - bez prefiksu, zachowaj jak jest
+      if (isSdkBuiltinTool(t)) {
+        return t;
+      }
+      return t;
+    });
+
+    const filteredTools = allToolNames.filter((t: string) => !disabledTools.includes(t));
+    console.log(`[TestableAgentAdapter] Using ${filteredTools.length} tools (${disabledTools.length} disabled)`);
+    return filteredTools;
+  }
+
+  return undefined;
+}
+
+/**
+ * Nadpisuje opisy narzędzi i ich parametrów wartościami z konfiguracji
+ */
+export function applyToolDescriptionOverrides(
+  toolDefs: ToolDefinition[],
+  toolsConfig?: TestableAgentToolsConfig
+): ToolDefinition[] {
+  let result = toolDefs;
+
+  // Nadpisz opisy narzędzi jeśli podane w konfiguracji
+  if (toolsConfig?.toolDescriptions) {
+    result = result.map(def => ({
+      ...def,
+      description: toolsConfig.toolDescriptions![def.name] ?? def.description
+    }));
+  }
+
+  // Nadpisz opisy parametrów jeśli podane
+  if (toolsConfig?.toolParameterDescriptions) {
+    result = result.map(def => {
+      const paramOverrides = toolsConfig.toolParameterDescriptions![def.name];
+      if (!paramOverrides || !def.parameters) return def;
+
+      return {
+        ...def,
+        parameters: def.parameters.map(param => ({
+          ...param,
+          description: paramOverrides[param.name] ?? param.description
+        }))
+      };
+    });
+  }
+
+  return result;
+}
+
 /**
  * Adapter łączący MontageAgentService/ScriptAgentService z ITestableAgent
  *
@@ -153,45 +346,16 @@ export class TestableAgentAdapter implements ITestableAgent {
       console.log('[TestableAgentAdapter] config.mode:', customPromptConfig.mode);
     }
 
-    if (customPromptConfig) {
-      this.resolvedPromptInfo = this.resolveSystemPrompt(customPromptConfig);
+    this.resolvedPromptInfo = resolveSystemPromptInfo(agentType, customPromptConfig);
+    if (customPromptConfig && this.resolvedPromptInfo) {
       console.log(`[TestableAgentAdapter] Custom prompt source: ${this.resolvedPromptInfo.source}`);
-    } else {
-      // Dla domyślnego promptu też wypełnij resolvedPromptInfo
-      const defaultPrompt = promptLoaderService.getAgentPrompt(this.agentType);
-      if (defaultPrompt) {
-        this.resolvedPromptInfo = {
-          source: 'default',
-          sourceFile: `shared/prompts/agents/${this.agentType}.md`,
-          rawPrompt: defaultPrompt,
-        };
-        console.log(`[TestableAgentAdapter] Using default prompt for: ${this.agentType}`);
-      }
+    } else if (this.resolvedPromptInfo) {
+      console.log(`[TestableAgentAdapter] Using default prompt for: ${this.agentType}`);
     }
 
     // 1. Wstrzyknij JsonStorage do electron's StorageRegistry
     // Od teraz wszystkie serwisy (BlockService, etc.) używają JsonStorage
-    storageRegistry.setAll({
-      project: storage.getProjectStorage(),
-      chapter: storage.getChapterStorage(),
-      timeline: storage.getTimelineStorage(),
-      block: storage.getBlockStorage(),
-      mediaAsset: storage.getMediaAssetStorage(),
-      chat: storage.getChatStorage(),
-      enrichment: storage.getEnrichmentStorage(),
-      settings: storage.getSettingsStorage(),
-      person: storage.getPersonStorage(),
-      dynamicComposition: storage.getDynamicCompositionStorage(),
-    });
-
-    // Weryfikacja że storage został ustawiony
-    if (!storageRegistry.isInitialized()) {
-      console.error('[TestableAgentAdapter] CRITICAL: Storage not initialized after setAll()!');
-      console.error('[TestableAgentAdapter] This may indicate module resolution issue.');
-      console.error('[TestableAgentAdapter] storageRegistry instance:', storageRegistry);
-      throw new Error('StorageRegistry initialization failed - possible module singleton mismatch');
-    }
-    console.log('[TestableAgentAdapter] StorageRegistry initialized successfully');
+    registerJsonStorage(storage);
 
     // 2. Utwórz toolWrapper do precyzyjnego śledzenia tool calls
     this.toolWrapper = this.createToolWrapper();
@@ -207,66 +371,6 @@ export class TestableAgentAdapter implements ITestableAgent {
     }
   }
 
-  /**
-   * Rozwiązuje custom system prompt na podstawie konfiguracji
-   */
-  private resolveSystemPrompt(config: SystemPromptConfig): ResolvedPromptInfo {
-    // Opcja 1: Pełny tekst promptu
-    if (config.raw) {
-      return {
-        source: 'custom-raw',
-        rawPrompt: config.raw,
-        mode: config.mode,
-      };
-    }
-
-    // Opcja 2: Prompt z pliku
-    if (config.file) {
-      const filePath = path.resolve(process.cwd(), config.file);
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`[TestableAgentAdapter] Custom prompt file not found: ${filePath}`);
-      }
-      const fileContent = fs.readFileSync(filePath, 'utf-8');
-      return {
-        source: 'custom-file',
-        sourceFile: config.file,
-        rawPrompt: fileContent,
-        mode: config.mode,
-      };
-    }
-
-    // Opcja 3: Patche na domyślny prompt
-    if (config.patches && config.patches.length > 0) {
-      let prompt = promptLoaderService.getAgentPrompt(this.agentType);
-      if (!prompt) {
-        throw new Error(`[TestableAgentAdapter] Default prompt not found for agent: ${this.agentType}`);
-      }
-
-      for (const patch of config.patches) {
-        prompt = prompt.replace(patch.find, patch.replace);
-      }
-
-      return {
-        source: 'patched',
-        patches: config.patches,
-        rawPrompt: prompt,
-        mode: config.mode,
-      };
-    }
-
-    // Fallback - domyślny prompt
-    const defaultPrompt = promptLoaderService.getAgentPrompt(this.agentType);
-    if (!defaultPrompt) {
-      throw new Error(`[TestableAgentAdapter] Default prompt not found for agent: ${this.agentType}`);
-    }
-    return {
-      source: 'default',
-      sourceFile: `shared/prompts/agents/${this.agentType}.md`,
-      rawPrompt: defaultPrompt,
-      mode: config.mode,
-    };
-  }
-
   /**
    * Zwraca informacje o rozwiązanym prompcie (do zapisania w ConfigSnapshot)
    */
@@ -274,52 +378,6 @@ export class TestableAgentAdapter implements ITestableAgent {
     return this.resolvedPromptInfo;
   }
 
-  /**
-   * Wylicza finalną listę włączonych narzędzi na podstawie konfiguracji
-   * Zwraca undefined jeśli nie ma żadnych filtrów (wszystkie narzędzia włączone)
-   */
-  private computeEnabledTools(): string[] | undefined {
-    if (!this.toolsConfig) {
-      return undefined;
-    }
-
-    const { enabledTools, disabledTools } = this.toolsConfig;
-
-    // Jeśli podano enabledTools, użyj ich bezpośrednio
-    if (enabledTools && enabledTools.length > 0) {
-      console.log(`[TestableAgentAdapter] Using ${enabledTools.length} enabled tools`);
-      return enabledTools;
-    }
-
-    // Jeśli podano disabledTools, pobierz wszystkie dozwolone dla agenta i odejmij wyłączone
-    if (disabledTools && disabledTools.length > 0) {
-      // Import dynamiczny żeby uniknąć circular dependency
-      const { MONTAGE_ALLOWED_TOOLS, SCRIPT_ALLOWED_TOOLS, isSdkBuiltinTool } = require('../../../desktop-app/shared/prompts/agents/allowed-tools');
-      const allTools = this.agentType === 'montage' ? MONTAGE_ALLOWED_TOOLS : SCRIPT_ALLOWED_TOOLS;
-
-      // Wyciąg nazwy - obsłuż zarówno MCP (z prefiksem) jak i SDK (bez prefiksu)
-      const allToolNames = allTools.map((t: string) => {
-        if (t.startsWith('mcp__clamka-mcp__')) {
-          return t.replace('mcp__clamka-mcp__', '');
-        }
-        if (t.startsWith('mcp__mcp-puppeteer__')) {
-          return t.replace('mcp__mcp-puppeteer__', '');
-        }
-        // SDK built-in tools (Task, TodoWrite, etc.) - bez prefiksu, zachowaj jak jest
-        if (isSdkBuiltinTool(t)) {
-          return t;
-        }
-        return t;
-      });
-
-      const filteredTools = allToolNames.filter((t: string) => !disabledTools.includes(t));
-      console.log(`[TestableAgentAdapter] Using ${filteredTools.length} tools (${disabledTools.length} disabled)`);
-      return filteredTools;
-    }
-
-    return undefined;
-  }
-
   /**
    * Tworzy wrapper dla narzędzi MCP który śledzi wywołania z precyzyjnym timingiem
    */
@@ -403,34 +461,13 @@ export class TestableAgentAdapter implements ITestableAgent {
     const thinkingMode = (options.thinkingMode || 'think') as 'think' | 'hard' | 'harder' | 'ultrathink';
 
     // Przygotuj konfigurację narzędzi - wylicz finalną listę enabled tools
-    const enabledToolsForAgent = this.computeEnabledTools();
+    const enabledToolsForAgent = resolveEnabledTools(this.agentType, this.toolsConfig);
 
     // Pobierz definicje narzędzi i nadpisz opisy jeśli podane w konfiguracji
-    let toolDefs = getToolDefinitionsForAgent(this.agentType, enabledToolsForAgent);
-
-    // Nadpisz opisy narzędzi jeśli podane w konfiguracji
-    if (this.toolsConfig?.toolDescriptions) {
-      toolDefs = toolDefs.map(def => ({
-        ...def,
-        description: this.toolsConfig!.toolDescriptions![def.name] ?? def.description
-      }));
-    }
-
-    // Nadpisz opisy parametrów jeśli podane
-    if (this.toolsConfig?.toolParameterDescriptions) {
-      toolDefs = toolDefs.map(def => {
-        const paramOverrides = this.toolsConfig!.toolParameterDescriptions![def.name];
-        if (!paramOverrides || !def.parameters) return def;
-
-        return {
-          ...def,
-          parameters: def.parameters.map(param => ({
-            ...param,
-            description: paramOverrides[param.name] ?? param.description
-          }))
-        };
-      });
-    }
+    const toolDefs = applyToolDescriptionOverrides(
+      getToolDefinitionsForAgent(this.agentType, enabledToolsForAgent),
+      this.toolsConfig
+    );
 
     // Dodaj informację o narzędziach na początku stderr logs
     this.collectedStderrLogs.push(`[Config] Tools (${toolDefs.length}):`);
@@ -789,8 +826,10 @@ export class TestableAgentAdapter implements ITestableAgent {
   /**
    * Przywraca domyślne storage (SQLite) w registry
    * KRYTYCZNE: Musi być wywołane po zakończeniu testu!
+   * (w sandboxie registry przywraca runInSandbox po ostatnim przebiegu)
    */
   cleanup(): void {
+    if (getActiveSandbox()) return;
     storageRegistry.resetToDefaults();
   }
 
@@ -91,3 +91,30 @@ export function getToolDefinitionsForAgent(
 
   return filtered;
 }
+
+/** Handler narzędzia MCP (przyjmuje argumenty wywołania, zwraca wynik MCP) */
+export type ToolHandler = (input: Record<string, unknown>) => unknown;
+
+/**
+ * Pobiera handlery wszystkich narzędzi MCP dla danego kontekstu
+ *
+ * Używane przy odtwarzaniu kaset - handlery działają na aktualnie
+ * zarejestrowanym storage (JsonStorage z fixtures).
+ */
+export function getToolHandlers(context: McpServerContext): Map<string, ToolHandler> {
+  const handlers = new Map<string, ToolHandler>();
+
+  const captureTool = (
+    name: string,
+    description: string,
+    schema: Record<string, z.ZodTypeAny>,
+    handler: unknown
+  ) => {
+    handlers.set(name, handler as ToolHandler);
+    return { name, description, inputSchema: schema, handler };
+  };
+
+  getAllTools(captureTool, context);
+
+  return handlers;
+}
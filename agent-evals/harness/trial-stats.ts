@@ -0,0 +1,182 @@
+/**
+ * Trial Stats - statystyki powtarzanych przebiegów scenariuszy
+ *
+ * Przebiegi agenta są niedeterministyczne, więc pojedynczy pass/fail mówi niewiele.
+ * Przy `repetitions > 1` każdy scenariusz jest uruchamiany N razy, a tutaj liczymy:
+ * - pass rate i przedział ufności (Wilson score)
+ * - pass@k (nieobciążony estymator: szansa, że co najmniej 1 z k prób przejdzie)
+ * - średnią i wariancję tokenów oraz czasu
+ * - klasyfikację flakiness (stable / flaky / failing)
+ */
+
+import type { TestResult } from '../types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** stable = wszystkie próby przeszły, failing = żadna, flaky = wyniki mieszane */
+export type FlakinessLevel = 'stable' | 'flaky' | 'failing';
+
+export interface MetricStats {
+  mean: number;
+  /** Wariancja z próby (n - 1); 0 dla pojedynczej próby */
+  variance: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  /** Poziom ufności (np. 0.95) */
+  level: number;
+}
+
+export interface ScenarioTrialStats {
+  scenarioId: string;
+  scenarioName?: string;
+  trials: number;
+  passedTrials: number;
+  passRate: number;
+  /** pass@k dla k <= trials (klucz = k) */
+  passAtK: Record<number, number>;
+  confidenceInterval: ConfidenceInterval;
+  tokens: MetricStats;
+  latencyMs: MetricStats;
+  flakiness: FlakinessLevel;
+}
+
+/** Wartości k liczone dla pass@k (tylko k <= liczba prób) */
+export const PASS_AT_K_VALUES = [1, 3, 5, 10];
+
+/** z dla 95% przedziału ufności */
+const Z_95 = 1.96;
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+/**
+ * Nieobciążony estymator pass@k: 1 - C(n-c, k) / C(n, k)
+ *
+ * @param n Liczba prób
+ * @param c Liczba udanych prób
+ * @param k Liczba losowanych prób
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (k <= 0 || k > n) {
+    throw new Error(`pass@k requires 0 < k <= n (k=${k}, n=${n})`);
+  }
+  if (n - c < k) return 1;
+
+  // Iloczyn zamiast dwumianów - stabilny numerycznie dla dużych n
+  let allFail = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    allFail *= 1 - k / i;
+  }
+  return 1 - allFail;
+}
+
+/**
+ * Przedział ufności Wilsona dla proporcji - sensowny także dla małych n i p = 0/1
+ */
+export function wilsonInterval(successes: number, n: number, z: number = Z_95): ConfidenceInterval {
+  const level = z === Z_95 ? 0.95 : 2 * normalCdf(z) - 1;
+  if (n === 0) return { lower: 0, upper: 1, level };
+
+  const p = successes / n;
+  const z2 = z * z;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+    level,
+  };
+}
+
+/** Dystrybuanta rozkładu normalnego (aproksymacja Abramowitza-Stegun) */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const d = 0.3989423 * Math.exp((-z * z) / 2);
+  const tail = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return z > 0 ? 1 - tail : tail;
+}
+
+export function metricStats(values: number[]): MetricStats {
+  if (values.length === 0) {
+    return { mean: 0, variance: 0, stdDev: 0, min: 0, max: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+
+  return {
+    mean,
+    variance,
+    stdDev: Math.sqrt(variance),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+export function classifyFlakiness(passedTrials: number, trials: number): FlakinessLevel {
+  if (passedTrials === trials) return 'stable';
+  if (passedTrials === 0) return 'failing';
+  return 'flaky';
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * Grupuje wyniki po scenarioId (kolejność pierwszego wystąpienia)
+ */
+export function groupResultsByScenario<T extends Pick<TestResult, 'scenarioId'>>(results: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const result of results) {
+    const group = groups.get(result.scenarioId);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.set(result.scenarioId, [result]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Liczy statystyki prób dla każdego scenariusza
+ */
+export function computeTrialStats(results: TestResult[]): ScenarioTrialStats[] {
+  return [...groupResultsByScenario(results).values()].map((trials) => {
+    const passedTrials = trials.filter((r) => r.passed).length;
+
+    const passAtKValues: Record<number, number> = {};
+    for (const k of PASS_AT_K_VALUES) {
+      if (k <= trials.length) {
+        passAtKValues[k] = passAtK(trials.length, passedTrials, k);
+      }
+    }
+
+    return {
+      scenarioId: trials[0].scenarioId,
+      scenarioName: trials[0].scenarioName,
+      trials: trials.length,
+      passedTrials,
+      passRate: passedTrials / trials.length,
+      passAtK: passAtKValues,
+      confidenceInterval: wilsonInterval(passedTrials, trials.length),
+      tokens: metricStats(trials.map((r) => r.metrics.totalTokens)),
+      latencyMs: metricStats(trials.map((r) => r.metrics.latencyMs)),
+      flakiness: classifyFlakiness(passedTrials, trials.length),
+    };
+  });
+}
@@ -5,6 +5,9 @@
  * aby sprawdzić zawartość dalszych klatek w assetcie wideo.
  * Użytkownik chce wiedzieć czy może rozciągnąć blok wideo
  * który używa tylko pierwszej połowy materiału.
+ *
+ * test1.mov: id=d37a1b1d-dab2-455e-972e-41179a3f12be, 396 klatek - agent musi
+ * obejrzeć klatki tego assetu z zakresu 200-395, bez błędów i bez powtórzeń.
  */
 
 import type { TestScenario } from '../../../types/scenario';
@@ -32,6 +35,18 @@ export const scenario: TestScenario = {
         required: ['renderAssetFrame'],
         // Agent może też użyć getMediaAsset lub listMediaAssets
         optional: ['getMediaAsset', 'listMediaAssets'],
+        calls: [
+          {
+            tool: 'renderAssetFrame',
+            args: {
+              mediaAssetId: 'd37a1b1d-dab2-455e-972e-41179a3f12be',
+              frame: { gte: 200, lte: 395 },
+            },
+          },
+        ],
+        maxTotalCalls: 12,
+        noRepeatedCalls: true,
+        noErrors: true,
       },
       agentBehavior: {
         type: 'completion',
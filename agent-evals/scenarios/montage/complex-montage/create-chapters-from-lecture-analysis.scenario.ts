@@ -14,6 +14,7 @@
  * Oczekiwania:
  * - Agent przeanalizuje wykład i zidentyfikuje główne sekcje tematyczne
  * - Użyje narzędzia createChapters do utworzenia nowych rozdziałów
+ * - Powstaną co najmniej 2 nowe rozdziały
  */
 
 import type { TestScenario } from '../../../types/scenario';
@@ -55,7 +56,12 @@ export const scenario: TestScenario = {
           'listChapterTimelinesSimplifiedBlocks',
           'removeChapters',
         ],
-      }
+      },
+      finalState: {
+        chapters: {
+          addedCount: { gte: 2 },
+        },
+      },
     },
   ],
 
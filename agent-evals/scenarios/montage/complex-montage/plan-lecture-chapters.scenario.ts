@@ -47,6 +47,31 @@ export const scenario: TestScenario = {
         // Agent MUSI utworzyć chaptery
         required: ['Task']
       },
+
+      // Jakość planu oceniana przez judge'a
+      rubric: {
+        context: 'Wykład (~32 min) "Czytanie etykiet przy insulinooporności" ma zostać podzielony na rozdziały.',
+        passThreshold: 0.6,
+        criteria: [
+          {
+            id: 'proposes-chapters',
+            description: 'Proponuje podział na 4-6 rozdziałów z opisowymi tytułami',
+            keywords: ['rozdział|chapter', 'tytuł|nazw'],
+            minScore: 0.5,
+            weight: 2,
+          },
+          {
+            id: 'content-based',
+            description: 'Podział wynika z treści wykładu (tematy związane z etykietami i insulinoopornością)',
+            keywords: ['etykiet', 'insulinoopornoś|insulinooporn|cukier|cukr|węglowodan'],
+          },
+          {
+            id: 'time-ranges',
+            description: 'Każdy proponowany rozdział ma określony zakres czasowy',
+            keywords: ['minut|sekund|klatk|czas'],
+          },
+        ],
+      },
     },
   ],
 
@@ -9,6 +9,7 @@ export { scenario as moveBlockWhichOne } from './move-blocks/move-block-which-on
 export { scenario as moveFirstBlock } from './move-first-block.scenario';
 export { scenario as moveBlockWithContext } from './move-blocks/move-block-with-context.scenario';
 export { scenario as removeAllGaps } from './remove-gaps/remove-all-gaps.scenario';
+export { scenario as removeAllGapsRender } from './remove-gaps/remove-all-gaps-render.scenario';
 export { scenario as removeSecondBlock } from './remove-blocks/remove-second-block.scenario';
 export { scenario as videoResizeMode } from './info-questions/video-resize-mode.scenario';
 export { scenario as checkFrameContent } from './info-questions/check-frame-content.scenario';
@@ -26,6 +27,7 @@ import { scenario as moveBlockWhichOne } from './move-blocks/move-block-which-on
 import { scenario as moveFirstBlock } from './move-first-block.scenario';
 import { scenario as moveBlockWithContext } from './move-blocks/move-block-with-context.scenario';
 import { scenario as removeAllGaps } from './remove-gaps/remove-all-gaps.scenario';
+import { scenario as removeAllGapsRender } from './remove-gaps/remove-all-gaps-render.scenario';
 import { scenario as removeSecondBlock } from './remove-blocks/remove-second-block.scenario';
 import { scenario as videoResizeMode } from './info-questions/video-resize-mode.scenario';
 import { scenario as checkFrameContent } from './info-questions/check-frame-content.scenario';
@@ -47,6 +49,7 @@ export const allMontageScenarios = [
   moveFirstBlock,
   moveBlockWithContext,
   removeAllGaps,
+  removeAllGapsRender,
   removeSecondBlock,
   videoResizeMode,
   checkFrameContent,
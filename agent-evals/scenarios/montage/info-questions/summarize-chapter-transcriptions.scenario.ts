@@ -54,6 +54,32 @@ export const scenario: TestScenario = {
       agentBehavior: {
         type: 'completion',
       },
+
+      // Jakość podsumowania oceniana przez judge'a
+      rubric: {
+        context: 'Chapter "Hook" wykładu "Czytanie etykiet przy insulinooporności".',
+        passThreshold: 0.6,
+        criteria: [
+          {
+            id: 'on-topic',
+            description: 'Podsumowanie dotyczy czytania etykiet produktów w kontekście insulinooporności',
+            keywords: ['etykiet', 'insulinoopornoś|insulinooporn'],
+            minScore: 0.5,
+            weight: 2,
+          },
+          {
+            id: 'concrete-content',
+            description: 'Podsumowanie opisuje konkretne tematy poruszone w transkrypcji, a nie ogólniki',
+            keywords: ['cukier|cukr|węglowodan', 'skład|składnik', 'produkt'],
+          },
+          {
+            id: 'no-modification-claims',
+            description: 'Agent nie twierdzi, że zmodyfikował timeline',
+            keywords: ['podsumow|streszcz|chapter|rozdział'],
+            forbiddenKeywords: ['przesunąłem|usunąłem|przyciąłem|utworzyłem'],
+          },
+        ],
+      },
     },
   ],
 
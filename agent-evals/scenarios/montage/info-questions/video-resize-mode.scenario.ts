@@ -30,10 +30,41 @@ export const scenario: TestScenario = {
         forbidden: ['moveBlocks', 'trimBlock', 'removeBlocks', 'splitBlock', 'updateBlock'],
       },
 
+      // Wyjaśnienie, nie zmiana - resizeMode (timeline_settings) zostaje bez zmian
+      finalState: {
+        settings: {
+          unchanged: [{ scope: 'timeline', key: 'resizeMode' }],
+        },
+      },
+
       // Odpowiedź agenta powinna zawierać wzmiankę o resizeMode
       agentBehavior: {
         type: 'completion',
       },
+
+      // Jakość wyjaśnienia oceniana przez judge'a
+      rubric: {
+        context: 'Użytkownik pyta dlaczego wideo nie wypełnia rozdzielczości projektu.',
+        criteria: [
+          {
+            id: 'explains-resize-mode',
+            description: 'Wyjaśnia, że rozmiar wideo zależy od ustawienia resizeMode w settings bloku',
+            keywords: ['resizeMode|resize mode|tryb skalowania|tryb dopasowania'],
+            minScore: 1,
+            weight: 2,
+          },
+          {
+            id: 'describes-options',
+            description: 'Opisuje dostępne opcje dopasowania (np. wypełnienie kadru vs zachowanie proporcji)',
+            keywords: ['cover|fill|wypełn|przyci', 'contain|fit|dopasow|proporc'],
+          },
+          {
+            id: 'explains-fix',
+            description: 'Podpowiada jak zmienić ustawienie, żeby wideo wypełniło kadr',
+            keywords: ['zmień|ustaw|zmienić|ustawić|przełącz'],
+          },
+        ],
+      },
     },
   ],
 
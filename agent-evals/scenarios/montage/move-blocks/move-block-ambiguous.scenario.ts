@@ -3,6 +3,7 @@
  *
  * Testuje zachowanie agenta gdy kierunek nie jest jasny.
  * Agent powinien albo dopytać, albo wykonać operację w domyślnym kierunku.
+ * Jeśli dopyta - użytkownik odpowiada "później" i blok musi zostać przesunięty w prawo.
  */
 
 import type { TestScenario } from '../../../types/scenario';
@@ -42,6 +43,30 @@ export const scenario: TestScenario = {
     },
   }],
 
+  // Tura 2: odpowiedź na pytanie o kierunek (tylko gdy agent dopytał)
+  turns: [{
+    replies: [{
+      // Pytanie (zakończone "?") - nie potwierdzenie wykonanej operacji
+      whenResponseMatches: /(kierunek|prawo|lewo|później|wcześniej|w którą stronę|naprzód|wstecz)[^.!]*\?/i,
+      userMessage: 'Później, w prawo',
+    }],
+    expectations: [{
+      toolCalls: {
+        required: ['moveBlocks'],
+      },
+      finalState: {
+        blocks: {
+          modified: [{
+            match: { id: 'ab826b8c-b6da-40d9-999d-92465c756a3b' },
+            changes: {
+              timelineOffsetInFrames: { equals: 226 }, // 166 + 60
+            },
+          }],
+        },
+      },
+    }],
+  }],
+
   timeout: 40000,
 };
 
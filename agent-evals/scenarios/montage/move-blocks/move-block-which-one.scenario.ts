@@ -5,6 +5,8 @@
  * Akceptowalne zachowania:
  * 1. Agent dopytuje który blok i nie zmienia danych
  * 2. Agent przesuwa oba bloki
+ *
+ * Jeśli agent dopyta, użytkownik odpowiada "oba" i w drugiej turze oba bloki muszą być przesunięte.
  */
 
 import type { TestScenario } from '../../../types/scenario';
@@ -76,6 +78,38 @@ export const scenario: TestScenario = {
     },
   ],
 
+  // Tura 2: odpowiedź na pytanie który blok (tylko gdy agent dopytał)
+  turns: [{
+    replies: [{
+      // Pytanie (zakończone "?") - nie potwierdzenie przesunięcia obu bloków
+      whenResponseMatches: /(który|które|pierwszy|drugi|oba|wszystkie)[^.!]*\?/i,
+      userMessage: 'Oba',
+    }],
+    expectations: [{
+      toolCalls: {
+        required: ['moveBlocks'],
+      },
+      finalState: {
+        blocks: {
+          modified: [
+            {
+              match: { id: '46ebff95-61a4-431d-81a5-586f92eeffd7' },
+              changes: {
+                timelineOffsetInFrames: { equals: 85 },
+              },
+            },
+            {
+              match: { id: '07f2ee66-0c5a-4c6b-9994-98006cfd579e' },
+              changes: {
+                timelineOffsetInFrames: { equals: 508 },
+              },
+            },
+          ],
+        },
+      },
+    }],
+  }],
+
   timeout: 40000,
 };
 
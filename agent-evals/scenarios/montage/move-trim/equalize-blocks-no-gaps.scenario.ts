@@ -18,10 +18,9 @@
  * 4. Blok 2 (07f2ee66...) zaczyna się od offsetu 0
  * 5. Blok 1 (46ebff95...) zaczyna się zaraz po bloku 2 (bez przerwy)
  *
- * Możliwe strategie agenta:
- * - Skrócić blok 1 do ~187 frames (wyrównanie do bloku 2)
- * - Wydłużyć blok 2 do ~396 frames (wyrównanie do bloku 1)
- * - Kombinacja (oba bloki do wartości pośredniej ~290)
+ * Możliwe strategie agenta (skrócić blok 1, wydłużyć blok 2 albo oba do wartości
+ * pośredniej) są równoważne - zamiast wariantów z zakresami klatek sprawdzamy
+ * invarianty: brak przerw i nakładania, kolejność bloków i rozrzut długości ≤ 50.
  */
 
 import type { TestScenario } from '../../../types/scenario';
@@ -41,110 +40,21 @@ export const scenario: TestScenario = {
     },
   },
 
-  expectations: [
-    // Wariant A: Agent skraca blok 1 do długości bloku 2 (~187 frames)
-    // Po zamianie kolejności: Blok 2 jest pierwszy (offset=0), Blok 1 drugi
-    {
-      toolCalls: {
-        required: ['trimBlock', 'moveBlocks', 'moveBlocksTo'],
-      },
-      finalState: {
-        blocks: {
-          modified: [
-            {
-              // Blok 2 (pierwotnie drugi) - teraz PIERWSZY
-              match: { id: '07f2ee66-0c5a-4c6b-9994-98006cfd579e' },
-              changes: {
-                timelineOffsetInFrames: { equals: 0 },
-                // Zachowuje oryginalną długość lub nieznacznie zmieniony (~187 ±50)
-                durationInFrames: { gte: 137, lte: 237 },
-                fileRelativeStartFrame: { equals: 0 },
-              },
-            },
-            {
-              // Blok 1 (pierwotnie pierwszy) - teraz DRUGI
-              match: { id: '46ebff95-61a4-431d-81a5-586f92eeffd7' },
-              changes: {
-                // Offset = duration bloku 2 (w zakresie 137-237)
-                timelineOffsetInFrames: { gte: 137, lte: 237 },
-                // Skrócony do ~187 (±50 tolerancji = 137-237)
-                durationInFrames: { gte: 137, lte: 237 },
-                fileRelativeStartFrame: { equals: 0 },
-              },
-            },
-          ],
-        },
-      },
-    },
-    // Wariant B: Agent wydłuża blok 2 do długości bloku 1 (~396 frames)
-    // Po zamianie kolejności: Blok 2 jest pierwszy (offset=0), Blok 1 drugi
-    {
-      toolCalls: {
-        required: ['trimBlock', 'moveBlocks', 'moveBlocksTo'],
-      },
-      finalState: {
-        blocks: {
-          modified: [
-            {
-              // Blok 2 (pierwotnie drugi) - teraz PIERWSZY
-              match: { id: '07f2ee66-0c5a-4c6b-9994-98006cfd579e' },
-              changes: {
-                timelineOffsetInFrames: { equals: 0 },
-                // Wydłużony do ~396 (±50 tolerancji = 346-446)
-                durationInFrames: { gte: 346, lte: 446 },
-                fileRelativeStartFrame: { equals: 0 },
-              },
-            },
-            {
-              // Blok 1 (pierwotnie pierwszy) - teraz DRUGI
-              match: { id: '46ebff95-61a4-431d-81a5-586f92eeffd7' },
-              changes: {
-                // Offset = duration bloku 2 (w zakresie 346-446)
-                timelineOffsetInFrames: { gte: 346, lte: 446 },
-                // Zachowuje oryginalną długość lub nieznacznie zmieniony
-                durationInFrames: { gte: 346, lte: 446 },
-                fileRelativeStartFrame: { equals: 0 },
-              },
-            },
-          ],
-        },
-      },
+  expectations: [{
+    toolCalls: {
+      required: ['trimBlock', 'moveBlocks', 'moveBlocksTo'],
     },
-    // Wariant C: Agent wyrównuje oba bloki do wartości pośredniej (~291 frames)
-    // Po zamianie kolejności: Blok 2 jest pierwszy (offset=0), Blok 1 drugi
-    {
-      toolCalls: {
-        required: ['trimBlock', 'moveBlocks', 'moveBlocksTo'],
-      },
-      finalState: {
-        blocks: {
-          modified: [
-            {
-              // Blok 2 (pierwotnie drugi) - teraz PIERWSZY
-              match: { id: '07f2ee66-0c5a-4c6b-9994-98006cfd579e' },
-              changes: {
-                timelineOffsetInFrames: { equals: 0 },
-                // Wartość pośrednia (241-341)
-                durationInFrames: { gte: 187, lte: 200 },
-                fileRelativeStartFrame: { equals: 0 },
-              },
-            },
-            {
-              // Blok 1 (pierwotnie pierwszy) - teraz DRUGI
-              match: { id: '46ebff95-61a4-431d-81a5-586f92eeffd7' },
-              changes: {
-                // Offset = duration bloku 2
-                timelineOffsetInFrames: { gte: 185, lte: 200 },
-                // Wartość pośrednia (241-341)
-                durationInFrames: { gte: 185, lte: 200 },
-                fileRelativeStartFrame: { equals: 0 },
-              },
-            },
-          ],
-        },
+    invariants: {
+      noGaps: true,
+      noOverlaps: true,
+      withinSourceBounds: true,
+      // Blok 2 (pierwotnie drugi) - teraz PIERWSZY, Blok 1 - DRUGI
+      orderedBy: {
+        blockIds: ['07f2ee66-0c5a-4c6b-9994-98006cfd579e', '46ebff95-61a4-431d-81a5-586f92eeffd7'],
       },
+      durationSpread: { lte: 50 },
     },
-  ],
+  }],
 
   timeout: 120000,
 };
@@ -0,0 +1,54 @@
+/**
+ * Scenariusz: Usuń wszystkie przerwy - sprawdzenie wyrenderowanego filmu
+ *
+ * Ten sam chapter "Problem" co montage-remove-gaps-001:
+ * - Przed blokiem 1: 25 frames przerwy (~0.8 s czarnego obrazu)
+ * - Między blokami: 27 frames przerwy (~0.9 s czarnego obrazu)
+ *
+ * Poza DataDiff sprawdzany jest render stanu końcowego: po usunięciu przerw
+ * film nie może mieć czarnych fragmentów dłuższych niż 0.5 s, a jego długość
+ * musi odpowiadać timeline'owi (bloki 1 + 2 = 583 frames).
+ */
+
+import type { TestScenario } from '../../../types/scenario';
+
+export const scenario: TestScenario = {
+  id: 'montage-remove-gaps-002',
+  name: 'Usuń wszystkie przerwy - render bez czarnych fragmentów',
+  agent: 'montage',
+  tags: ['removeGaps', 'moveBlocks', 'compact', 'render'],
+  description: 'Agent powinien usunąć przerwy tak, żeby wyrenderowany film nie miał czarnych fragmentów między blokami',
+
+  input: {
+    userMessage: 'Usuń wszystkie przerwy z filmu',
+    context: {
+      projectId: 'e814f244-c66b-4b55-a681-b41a40efcd44',
+      chapterId: 'a59a6ce2-e9bd-4338-a260-f8428f8a4a67',
+    },
+  },
+
+  expectations: [{
+    toolCalls: {
+      required: ['moveBlocks'],
+    },
+
+    invariants: {
+      noGaps: true,
+      noOverlaps: true,
+      withinSourceBounds: true,
+    },
+
+    renderChecks: {
+      engine: 'remotion',
+      // Każda z usuwanych przerw dałaby ponad 0.5 s czerni
+      maxBlackSec: 0.5,
+      // Pauzy w wypowiedzi są naturalne - cisza nie jest tu sprawdzana
+      maxSilenceSec: false,
+      durationToleranceFrames: 1,
+    },
+  }],
+
+  timeout: 40000,
+};
+
+export default scenario;
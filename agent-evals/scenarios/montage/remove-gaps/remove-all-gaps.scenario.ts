@@ -13,6 +13,9 @@
  * Po usunięciu przerw:
  * - Blok 1: offset=0
  * - Blok 2: offset=396 (zaraz po bloku 1)
+ *
+ * Invarianty sprawdzają cały timeline (bez przerw od klatki 0, bez nakładania),
+ * a finalState - że przesunięte zostały właściwe bloki.
  */
 
 import type { TestScenario } from '../../../types/scenario';
@@ -41,6 +44,7 @@ export const scenario: TestScenario = {
       blocks: {
         modified: [
           {
+            as: 'first',
             match: { id: '46ebff95-61a4-431d-81a5-586f92eeffd7' },
             changes: {
               timelineOffsetInFrames: { equals: 0 },
@@ -49,12 +53,19 @@ export const scenario: TestScenario = {
           {
             match: { id: '07f2ee66-0c5a-4c6b-9994-98006cfd579e' },
             changes: {
-              timelineOffsetInFrames: { equals: 396 },
+              // Zaraz po bloku 1, niezależnie od jego długości
+              timelineOffsetInFrames: { equals: { expr: 'first.end' } },
             },
           },
         ],
       },
     },
+
+    invariants: {
+      noGaps: true,
+      noOverlaps: true,
+      withinSourceBounds: true,
+    },
   }],
 
   timeout: 40000,
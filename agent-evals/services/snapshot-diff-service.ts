@@ -6,8 +6,15 @@ import type {
   SuiteConfigSnapshot,
   ConfigDiff,
   ConfigDiffResult,
+  PromptDiffLine,
 } from '../types/config-snapshot';
 
+/** Liczba niezmienionych linii pokazywanych wokół zmian w diffie promptu */
+const PROMPT_DIFF_CONTEXT = 3;
+
+/** Limit komórek tablicy LCS - powyżej diff promptu to pełna wymiana linii */
+const MAX_LCS_CELLS = 4_000_000;
+
 // ============================================================================
 // SNAPSHOT DIFF SERVICE
 // ============================================================================
@@ -27,6 +34,7 @@ export class SnapshotDiffService {
           systemPrompt: [],
           mcpTools: [],
         },
+        promptDiff: [],
         summary: {
           totalChanges: 0,
           criticalChanges: [],
@@ -52,6 +60,10 @@ export class SnapshotDiffService {
         systemPrompt: systemPromptDiffs,
         mcpTools: mcpToolsDiffs,
       },
+      promptDiff:
+        snapshot1.systemPrompt.rawPrompt !== snapshot2.systemPrompt.rawPrompt
+          ? this.diffPromptLines(snapshot1.systemPrompt.rawPrompt, snapshot2.systemPrompt.rawPrompt)
+          : [],
       summary: {
         totalChanges: allDiffs.length,
         criticalChanges,
@@ -108,6 +120,70 @@ export class SnapshotDiffService {
       });
     }
 
+    diffs.push(...this.diffSubagents(config1.subagents || [], config2.subagents || []));
+
+    return diffs;
+  }
+
+  /**
+   * Diff subagentów (Task tool) - model, prompt i narzędzia
+   */
+  private diffSubagents(
+    subagents1: NonNullable<SuiteConfigSnapshot['agentConfig']['subagents']>,
+    subagents2: NonNullable<SuiteConfigSnapshot['agentConfig']['subagents']>
+  ): ConfigDiff[] {
+    const diffs: ConfigDiff[] = [];
+    const byName1 = new Map(subagents1.map((s) => [s.name, s]));
+    const byName2 = new Map(subagents2.map((s) => [s.name, s]));
+
+    for (const [name, sub2] of byName2) {
+      const sub1 = byName1.get(name);
+      const basePath = `agentConfig.subagents.${name}`;
+
+      if (!sub1) {
+        diffs.push({ path: basePath, type: 'added', newValue: name, severity: 'warning' });
+        continue;
+      }
+
+      if (sub1.model !== sub2.model) {
+        diffs.push({
+          path: `${basePath}.model`,
+          type: 'changed',
+          oldValue: sub1.model,
+          newValue: sub2.model,
+          severity: 'warning',
+        });
+      }
+
+      if ((sub1.prompt || '') !== (sub2.prompt || '')) {
+        diffs.push({
+          path: `${basePath}.prompt`,
+          type: 'changed',
+          oldValue: this.truncate(sub1.prompt || '', 100),
+          newValue: this.truncate(sub2.prompt || '', 100),
+          severity: 'warning',
+        });
+      }
+
+      const tools1 = sub1.tools || [];
+      const tools2 = sub2.tools || [];
+      const addedTools = tools2.filter((t) => !tools1.includes(t));
+      const removedTools = tools1.filter((t) => !tools2.includes(t));
+
+      if (addedTools.length > 0) {
+        diffs.push({ path: `${basePath}.tools`, type: 'added', newValue: addedTools, severity: 'warning' });
+      }
+      if (removedTools.length > 0) {
+        diffs.push({ path: `${basePath}.tools`, type: 'removed', oldValue: removedTools, severity: 'warning' });
+      }
+    }
+
+    for (const name of byName1.keys()) {
+      if (!byName2.has(name)) {
+        diffs.push({ path: `agentConfig.subagents.${name}`, type: 'removed', oldValue: name, severity: 'warning' });
+      }
+    }
+
     return diffs;
   }
 
@@ -120,6 +196,26 @@ export class SnapshotDiffService {
   ): ConfigDiff[] {
     const diffs: ConfigDiff[] = [];
 
+    if (prompt1.source !== prompt2.source) {
+      diffs.push({
+        path: 'systemPrompt.source',
+        type: 'changed',
+        oldValue: prompt1.source,
+        newValue: prompt2.source,
+        severity: 'info',
+      });
+    }
+
+    if ((prompt1.mode || 'append') !== (prompt2.mode || 'append')) {
+      diffs.push({
+        path: 'systemPrompt.mode',
+        type: 'changed',
+        oldValue: prompt1.mode || 'append',
+        newValue: prompt2.mode || 'append',
+        severity: 'critical',
+      });
+    }
+
     if (prompt1.rawPrompt !== prompt2.rawPrompt) {
       diffs.push({
         path: 'systemPrompt.rawPrompt',
@@ -160,6 +256,40 @@ export class SnapshotDiffService {
       }
     }
 
+    // Diff placeholderów - nowe / usunięte / z inną wartością
+    const placeholders1 = new Map((prompt1.placeholders || []).map((p) => [p.placeholder, p.value]));
+    const placeholders2 = new Map((prompt2.placeholders || []).map((p) => [p.placeholder, p.value]));
+
+    for (const [placeholder, value2] of placeholders2) {
+      if (!placeholders1.has(placeholder)) {
+        diffs.push({
+          path: `systemPrompt.placeholders.${placeholder}`,
+          type: 'added',
+          newValue: this.truncate(value2, 100),
+          severity: 'info',
+        });
+      } else if (placeholders1.get(placeholder) !== value2) {
+        diffs.push({
+          path: `systemPrompt.placeholders.${placeholder}`,
+          type: 'changed',
+          oldValue: this.truncate(placeholders1.get(placeholder)!, 100),
+          newValue: this.truncate(value2, 100),
+          severity: 'info',
+        });
+      }
+    }
+
+    for (const [placeholder, value1] of placeholders1) {
+      if (!placeholders2.has(placeholder)) {
+        diffs.push({
+          path: `systemPrompt.placeholders.${placeholder}`,
+          type: 'removed',
+          oldValue: this.truncate(value1, 100),
+          severity: 'info',
+        });
+      }
+    }
+
     return diffs;
   }
 
@@ -211,14 +341,17 @@ export class SnapshotDiffService {
           newValue: { name: def2.name, description: this.truncate(def2.description, 100) },
           severity: 'warning',
         });
-      } else if (def1.description !== def2.description) {
-        diffs.push({
-          path: `mcpTools.toolDefinitions.${name}.description`,
-          type: 'changed',
-          oldValue: this.truncate(def1.description, 100),
-          newValue: this.truncate(def2.description, 100),
-          severity: 'warning',
-        });
+      } else {
+        if (def1.description !== def2.description) {
+          diffs.push({
+            path: `mcpTools.toolDefinitions.${name}.description`,
+            type: 'changed',
+            oldValue: this.truncate(def1.description, 100),
+            newValue: this.truncate(def2.description, 100),
+            severity: 'warning',
+          });
+        }
+        diffs.push(...this.diffToolParameters(name, def1.parameters, def2.parameters));
       }
     }
 
@@ -236,6 +369,141 @@ export class SnapshotDiffService {
     return diffs;
   }
 
+  /**
+   * Diff parametrów narzędzia - nowe / usunięte / ze zmienionym opisem lub wymagalnością
+   */
+  private diffToolParameters(
+    toolName: string,
+    params1: SuiteConfigSnapshot['mcpTools']['toolDefinitions'][number]['parameters'],
+    params2: SuiteConfigSnapshot['mcpTools']['toolDefinitions'][number]['parameters']
+  ): ConfigDiff[] {
+    const diffs: ConfigDiff[] = [];
+    const byName1 = new Map(params1.map((p) => [p.name, p]));
+    const byName2 = new Map(params2.map((p) => [p.name, p]));
+    const basePath = `mcpTools.toolDefinitions.${toolName}.parameters`;
+
+    for (const [name, param2] of byName2) {
+      const param1 = byName1.get(name);
+
+      if (!param1) {
+        diffs.push({ path: `${basePath}.${name}`, type: 'added', newValue: param2.type, severity: 'warning' });
+        continue;
+      }
+
+      if (param1.description !== param2.description) {
+        diffs.push({
+          path: `${basePath}.${name}.description`,
+          type: 'changed',
+          oldValue: this.truncate(param1.description, 100),
+          newValue: this.truncate(param2.description, 100),
+          severity: 'info',
+        });
+      }
+
+      if (param1.required !== param2.required) {
+        diffs.push({
+          path: `${basePath}.${name}.required`,
+          type: 'changed',
+          oldValue: param1.required,
+          newValue: param2.required,
+          severity: 'warning',
+        });
+      }
+    }
+
+    for (const [name, param1] of byName1) {
+      if (!byName2.has(name)) {
+        diffs.push({ path: `${basePath}.${name}`, type: 'removed', oldValue: param1.type, severity: 'critical' });
+      }
+    }
+
+    return diffs;
+  }
+
+  /**
+   * Liniowy diff promptu (LCS) - zmienione linie z kilkoma liniami kontekstu
+   */
+  private diffPromptLines(oldText: string, newText: string): PromptDiffLine[] {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+
+    // Wspólny początek i koniec nie wymagają LCS - zwykle zmienia się mały fragment
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix &&
+      suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+    // lcs[i][j] = długość LCS dla oldMiddle[i..] i newMiddle[j..]
+    const useLcs = (oldMiddle.length + 1) * (newMiddle.length + 1) <= MAX_LCS_CELLS;
+    const lcs: number[][] = useLcs
+      ? Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0))
+      : [];
+    if (useLcs) {
+      for (let i = oldMiddle.length - 1; i >= 0; i--) {
+        for (let j = newMiddle.length - 1; j >= 0; j--) {
+          lcs[i][j] = oldMiddle[i] === newMiddle[j]
+            ? lcs[i + 1][j + 1] + 1
+            : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+      }
+    }
+
+    const lines: PromptDiffLine[] = [];
+    for (let k = 0; k < prefix; k++) {
+      lines.push({ type: 'context', text: oldLines[k], oldLine: k + 1, newLine: k + 1 });
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (useLcs && i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        lines.push({ type: 'context', text: oldMiddle[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+        i++;
+        j++;
+      } else if (
+        i < oldMiddle.length &&
+        (j >= newMiddle.length || !useLcs || lcs[i + 1][j] >= lcs[i][j + 1])
+      ) {
+        lines.push({ type: 'removed', text: oldMiddle[i], oldLine: prefix + i + 1 });
+        i++;
+      } else {
+        lines.push({ type: 'added', text: newMiddle[j], newLine: prefix + j + 1 });
+        j++;
+      }
+    }
+
+    for (let k = suffix; k > 0; k--) {
+      lines.push({
+        type: 'context',
+        text: oldLines[oldLines.length - k],
+        oldLine: oldLines.length - k + 1,
+        newLine: newLines.length - k + 1,
+      });
+    }
+
+    // Zostaw tylko zmiany i ich najbliższy kontekst
+    const keep = new Array<boolean>(lines.length).fill(false);
+    lines.forEach((line, index) => {
+      if (line.type === 'context') return;
+      const from = Math.max(0, index - PROMPT_DIFF_CONTEXT);
+      const to = Math.min(lines.length - 1, index + PROMPT_DIFF_CONTEXT);
+      for (let k = from; k <= to; k++) keep[k] = true;
+    });
+
+    return lines.filter((_, index) => keep[index]);
+  }
+
   /**
    * Pomocnik do skracania tekstu
    */
@@ -126,6 +126,12 @@ export class JsonDynamicCompositionStorage implements IDynamicCompositionStorage
     return this.compositions.delete(id);
   }
 
+  // ===== SNAPSHOT (dla testów) =====
+
+  getSnapshot(): Map<string, DynamicComposition> {
+    return new Map([...this.compositions].map(([k, v]) => [k, structuredClone(v)]));
+  }
+
   // ===== RESET (dla testów) =====
 
   reset(): void {
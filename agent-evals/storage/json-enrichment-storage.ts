@@ -22,6 +22,14 @@ import type {
   SceneDescription,
 } from '../../../desktop-app/shared/types';
 
+/** Kopia danych enrichment do diffu (JsonStorage.getSnapshot) */
+export interface EnrichmentSnapshot {
+  focusPoints: Map<string, MediaAssetFocusPoint>;
+  transcriptionSegments: Map<string, MediaAssetTranscriptionSegment>;
+  faces: Map<string, MediaAssetFace>;
+  scenes: Map<string, MediaAssetScene>;
+}
+
 export class JsonEnrichmentStorage implements IEnrichmentStorage {
   private focusPoints = new Map<string, MediaAssetFocusPoint>();
   private transcriptionSegments = new Map<string, MediaAssetTranscriptionSegment>();
@@ -439,6 +447,17 @@ export class JsonEnrichmentStorage implements IEnrichmentStorage {
     return this.getScenesByAssetId(assetId).length;
   }
 
+  // ===== SNAPSHOT (dla testów) =====
+
+  getSnapshot(): EnrichmentSnapshot {
+    return {
+      focusPoints: cloneMap(this.focusPoints),
+      transcriptionSegments: cloneMap(this.transcriptionSegments),
+      faces: cloneMap(this.faces),
+      scenes: cloneMap(this.scenes),
+    };
+  }
+
   // ===== RESET (dla testów) =====
 
   reset(): void {
@@ -448,3 +467,7 @@ export class JsonEnrichmentStorage implements IEnrichmentStorage {
     this.scenes.clear();
   }
 }
+
+function cloneMap<T>(map: Map<string, T>): Map<string, T> {
+  return new Map([...map].map(([k, v]) => [k, structuredClone(v)]));
+}
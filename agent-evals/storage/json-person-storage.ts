@@ -63,6 +63,12 @@ export class JsonPersonStorage implements IPersonStorage {
     return this.findByProjectId(projectId).length;
   }
 
+  // ===== SNAPSHOT (dla testów) =====
+
+  getSnapshot(): Map<string, MediaAssetPerson> {
+    return new Map([...this.persons].map(([k, v]) => [k, structuredClone(v)]));
+  }
+
   // ===== RESET (dla testów) =====
 
   reset(): void {
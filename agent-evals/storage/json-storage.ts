@@ -20,7 +20,7 @@ import type {
   IDynamicCompositionStorage,
 } from '../../../desktop-app/shared/storage';
 import { JsonChatStorage } from './json-chat-storage';
-import { JsonEnrichmentStorage } from './json-enrichment-storage';
+import { JsonEnrichmentStorage, type EnrichmentSnapshot } from './json-enrichment-storage';
 import { JsonSettingsStorage } from './json-settings-storage';
 import { JsonPersonStorage } from './json-person-storage';
 import { JsonDynamicCompositionStorage } from './json-dynamic-composition-storage';
@@ -36,8 +36,10 @@ import type {
   UpdateBlockInput,
   MediaAsset,
   CreateMediaAssetInput,
+  MediaAssetPerson,
+  DynamicComposition,
 } from '../../../desktop-app/shared/types';
-import type { FixtureSet, DataDiff } from '../types/scenario';
+import type { FixtureSet, DataDiff, EntityDiff, SettingChange } from '../types/scenario';
 
 // ============================================================================
 // DATA SNAPSHOT
@@ -53,6 +55,9 @@ export interface DataSnapshot {
   chapterSettings: Map<string, Map<string, string>>;
   timelineSettings: Map<string, Map<string, unknown>>;
   blockSettings: Map<string, Map<string, unknown>>;
+  enrichment: EnrichmentSnapshot;
+  persons: Map<string, MediaAssetPerson>;
+  dynamicCompositions: Map<string, DynamicComposition>;
 }
 
 // ============================================================================
@@ -345,6 +350,9 @@ export class JsonStorage {
       chapterSettings: new Map([...this.chapterSettings].map(([k, v]) => [k, new Map(v)])),
       timelineSettings: new Map([...this.timelineSettings].map(([k, v]) => [k, new Map(v)])),
       blockSettings: new Map([...this.blockSettings].map(([k, v]) => [k, new Map(v)])),
+      enrichment: (this.getEnrichmentStorage() as JsonEnrichmentStorage).getSnapshot(),
+      persons: (this.getPersonStorage() as JsonPersonStorage).getSnapshot(),
+      dynamicCompositions: (this.getDynamicCompositionStorage() as JsonDynamicCompositionStorage).getSnapshot(),
     };
   }
 
@@ -353,17 +361,62 @@ export class JsonStorage {
       blocks: this.diffEntities(before.blocks, after.blocks),
       timelines: this.diffEntities(before.timelines, after.timelines),
       mediaAssets: this.diffEntities(before.mediaAssets, after.mediaAssets),
+      chapters: this.diffEntities(before.chapters, after.chapters),
+      settings: {
+        project: this.diffSettings(before.projectSettings, after.projectSettings),
+        chapter: this.diffSettings(before.chapterSettings, after.chapterSettings),
+        timeline: this.diffSettings(before.timelineSettings, after.timelineSettings),
+        block: this.diffSettings(before.blockSettings, after.blockSettings),
+      },
+      enrichment: {
+        focusPoints: this.diffEntities(before.enrichment.focusPoints, after.enrichment.focusPoints),
+        transcriptionSegments: this.diffEntities(
+          before.enrichment.transcriptionSegments,
+          after.enrichment.transcriptionSegments
+        ),
+        faces: this.diffEntities(before.enrichment.faces, after.enrichment.faces),
+        scenes: this.diffEntities(before.enrichment.scenes, after.enrichment.scenes),
+      },
+      persons: this.diffEntities(before.persons, after.persons),
+      dynamicCompositions: this.diffEntities(before.dynamicCompositions, after.dynamicCompositions),
     };
   }
 
+  /**
+   * Diff ustawień na poziomie kluczy (właściciel -> klucz -> wartość)
+   */
+  private diffSettings(
+    before: Map<string, Map<string, unknown>>,
+    after: Map<string, Map<string, unknown>>
+  ): SettingChange[] {
+    const changes: SettingChange[] = [];
+    const ownerIds = new Set([...before.keys(), ...after.keys()]);
+
+    for (const ownerId of ownerIds) {
+      const beforeSettings = before.get(ownerId) ?? new Map<string, unknown>();
+      const afterSettings = after.get(ownerId) ?? new Map<string, unknown>();
+
+      for (const [key, value] of afterSettings) {
+        if (!beforeSettings.has(key)) {
+          changes.push({ ownerId, key, change: 'added', after: value });
+        } else if (JSON.stringify(beforeSettings.get(key)) !== JSON.stringify(value)) {
+          changes.push({ ownerId, key, change: 'modified', before: beforeSettings.get(key), after: value });
+        }
+      }
+      for (const [key, value] of beforeSettings) {
+        if (!afterSettings.has(key)) {
+          changes.push({ ownerId, key, change: 'deleted', before: value });
+        }
+      }
+    }
+
+    return changes;
+  }
+
   private diffEntities<T extends { id: string }>(
     before: Map<string, T>,
     after: Map<string, T>
-  ): {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
-  } {
+  ): EntityDiff {
     const added: Array<{ id: string; data: Record<string, unknown> }> = [];
     const modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }> = [];
     const deleted: Array<{ id: string; data: Record<string, unknown> }> = [];
@@ -54,6 +54,10 @@ export interface SubagentConfigSnapshot {
   agentType: string;
   model?: string;
   description?: string;
+  /** Prompt subagenta (domyślny lub nadpisany w konfiguracji) */
+  prompt?: string;
+  /** Dozwolone narzędzia subagenta */
+  tools?: string[];
 }
 
 // ============================================================================
@@ -76,6 +80,9 @@ export interface SystemPromptSnapshot {
   /** Patche nałożone na prompt (jeśli source='patched') */
   patches?: { find: string; replace: string }[];
 
+  /** Tryb aplikacji promptu (append do claude_code lub replace) */
+  mode?: 'append' | 'replace';
+
   /** Surowy prompt przed {{...}} */
   rawPrompt: string;
   /** Po rozwiązaniu placeholderów */
@@ -290,6 +297,16 @@ export interface ConfigDiff {
   severity: 'info' | 'warning' | 'critical';
 }
 
+/** Linia diffu promptu - context to niezmieniona linia wokół zmian */
+export interface PromptDiffLine {
+  type: 'added' | 'removed' | 'context';
+  text: string;
+  /** Numer linii w starym prompcie (od 1) */
+  oldLine?: number;
+  /** Numer linii w nowym prompcie (od 1) */
+  newLine?: number;
+}
+
 export interface ConfigDiffResult {
   identical: boolean;
   hashMatch: boolean;
@@ -298,6 +315,8 @@ export interface ConfigDiffResult {
     systemPrompt: ConfigDiff[];
     mcpTools: ConfigDiff[];
   };
+  /** Liniowy diff surowego promptu (tylko zmienione fragmenty z kontekstem) */
+  promptDiff: PromptDiffLine[];
   summary: {
     totalChanges: number;
     criticalChanges: string[];
@@ -49,20 +49,64 @@ export interface ToolCallExpectations {
   forbidden?: string[];
   /** Oczekiwana kolejność wywołań (podzbiór required) */
   order?: string[];
+  /** Oczekiwane wywołania z warunkami na argumenty / wynik i limitami liczby */
+  calls?: ToolCallMatch[];
+  /** Maksymalna łączna liczba wywołań narzędzi (budżet) */
+  maxTotalCalls?: number;
+  /** Brak powtórzeń identycznych wywołań (to samo narzędzie i argumenty); `ignore` - pomijane narzędzia */
+  noRepeatedCalls?: boolean | { ignore?: string[] };
+  /** Żadne wywołanie nie zwróciło błędu (`{ error }` z ToolTracker lub `isError`); `ignore` - pomijane narzędzia */
+  noErrors?: boolean | { ignore?: string[] };
+}
+
+/**
+ * Oczekiwanie dotyczące wywołań jednego narzędzia
+ *
+ * Liczone są wywołania pasujące do `args` i `output`. Bez `minCount` / `maxCount`
+ * wymagane jest co najmniej jedno; samo `maxCount` oznacza minCount = 0.
+ */
+export interface ToolCallMatch {
+  tool: string;
+  /** Warunki dla argumentów wywołania */
+  args?: Record<string, string | number | boolean | MatchCondition>;
+  /** Warunki dla pól wyniku wywołania */
+  output?: Record<string, string | number | boolean | MatchCondition>;
+  minCount?: number;
+  maxCount?: number;
+}
+
+/**
+ * Wyrażenie liczone w trakcie sprawdzania asercji
+ *
+ * Dostępne nazwy: `value` (sprawdzana wartość), `before` / `after` (stan bloku
+ * przed i po zmianie), aliasy bloków z `as` (stan po zmianie, `.before` - fixtures).
+ * Bloki mają dodatkowo wyliczone pola `start`, `duration` i `end` (w klatkach).
+ * Funkcje: abs, min, max, round, floor, ceil.
+ *
+ * Np. `{ expr: 'first.end' }`, `{ expr: 'before.durationInFrames - 10' }`
+ */
+export interface ConditionExpression {
+  expr: string;
 }
 
 export interface MatchCondition {
-  equals?: number | string | boolean;
-  gte?: number;
-  lte?: number;
-  gt?: number;
-  lt?: number;
+  equals?: number | string | boolean | ConditionExpression;
+  gte?: number | ConditionExpression;
+  lte?: number | ConditionExpression;
+  gt?: number | ConditionExpression;
+  lt?: number | ConditionExpression;
   contains?: string;
   matches?: string; // regex
   oneOf?: (number | string | boolean)[];
+  /** |value - of| <= tolerance, np. `{ of: { expr: 'second.duration' }, tolerance: 50 }` */
+  within?: { of: number | ConditionExpression; tolerance: number };
+  /** Dowolny warunek logiczny, np. `'value < before.durationInFrames'` */
+  expr?: string;
 }
 
 export interface BlockMatchCondition {
+  /** Alias bloku do użycia w wyrażeniach innych warunków (np. 'first') */
+  as?: string;
   match: {
     id?: string;
     timelineId?: string;
@@ -82,6 +126,11 @@ export interface FinalStateExpectations {
     modified?: BlockMatchCondition[];
     deleted?: string[]; // block IDs
     unchanged?: string[]; // block IDs
+    /**
+     * Bloki tylko do wyrażeń (bez własnych asercji) - dopasowywane do bloków chaptera
+     * sprzed przebiegu, także niezmienionych, np. { as: 'x', match: { id: '...' } } i { expr: 'x.end' } w warunkach
+     */
+    refs?: BlockMatchCondition[];
   };
   timelines?: {
     added?: Array<{ match: Record<string, unknown> }>;
@@ -91,6 +140,104 @@ export interface FinalStateExpectations {
   mediaAssets?: {
     added?: Array<{ match: Record<string, unknown> }>;
   };
+  /** Chaptery projektu (np. utworzone przez createChapters) */
+  chapters?: EntityExpectations;
+  /** Zmiany ustawień na poziomie kluczy (project / chapter / timeline / block) */
+  settings?: SettingsExpectations;
+  /** Dane enrichment media assetów */
+  enrichment?: {
+    focusPoints?: EntityExpectations;
+    transcriptionSegments?: EntityExpectations;
+    faces?: EntityExpectations;
+    scenes?: EntityExpectations;
+  };
+  persons?: EntityExpectations;
+  dynamicCompositions?: EntityExpectations;
+}
+
+/**
+ * Oczekiwania dla encji bez specjalnej logiki (chaptery, enrichment, osoby, kompozycje)
+ */
+export interface EntityExpectations {
+  added?: Array<{ match: Record<string, unknown> }>;
+  /** Liczba dodanych encji (np. `{ gte: 3 }` utworzonych chapterów) */
+  addedCount?: MatchCondition;
+  /** `match` dopasowywany do stanu przed zmianą, `changes` do stanu po */
+  modified?: Array<{ match: Record<string, unknown>; changes?: Record<string, MatchCondition> }>;
+  deleted?: string[];
+}
+
+export type SettingsScope = 'project' | 'chapter' | 'timeline' | 'block';
+
+/** Wskazanie klucza ustawień (bez ownerId = dowolny właściciel w danym zakresie) */
+export interface SettingKeyRef {
+  scope: SettingsScope;
+  /** ID projektu / chaptera / timeline'u / bloku */
+  ownerId?: string;
+  key: string;
+}
+
+export interface SettingExpectation extends SettingKeyRef {
+  /** Oczekiwana wartość po zmianie (wartość dosłowna porównywana jako string) */
+  value?: string | number | boolean | MatchCondition;
+  /** Rodzaj zmiany (domyślnie: added lub modified) */
+  change?: SettingChangeType;
+}
+
+export interface SettingsExpectations {
+  /** Klucze, które MUSZĄ się zmienić */
+  changed?: SettingExpectation[];
+  /** Klucze, które NIE MOGĄ się zmienić */
+  unchanged?: SettingKeyRef[];
+}
+
+// ============================================================================
+// INVARIANTS
+// ============================================================================
+
+/**
+ * Zakres timeline'ów sprawdzanych przez invarianty
+ *
+ * Domyślnie: wszystkie timeline'y chaptera z input.context i wszystkie ich bloki.
+ */
+export interface InvariantScope {
+  /** Tylko wskazane timeline'y */
+  timelineIds?: string[];
+  /** Tylko timeline'y danego typu (pole `type`, np. 'video') */
+  timelineType?: string;
+  /** Tylko bloki danych typów (np. ['video']) */
+  blockTypes?: string[];
+}
+
+/**
+ * Globalne własności stanu chaptera po przebiegu
+ *
+ * Sprawdzane na stanie odtworzonym z fixtures + DataDiff, więc nie wymagają
+ * wyliczania konkretnych offsetów - np. "bez przerw" zamiast trzech wariantów klatek.
+ */
+export interface InvariantExpectations {
+  scope?: InvariantScope;
+  /**
+   * Brak przerw między kolejnymi blokami na timeline.
+   * `fromStart` (domyślnie true) - pierwszy blok zaczyna się od klatki 0.
+   */
+  noGaps?: boolean | { fromStart?: boolean; tolerance?: number };
+  /** Bloki na timeline nie nachodzą na siebie */
+  noOverlaps?: boolean | { tolerance?: number };
+  /** Bloki zaczynają się od klatki >= 0 i kończą w długości chaptera (jeśli znana) */
+  withinChapterBounds?: boolean;
+  /** fileRelativeStartFrame + durationInFrames mieści się w długości media assetu (jeśli znana) */
+  withinSourceBounds?: boolean;
+  /** Bloki w podanej kolejności wg pola (domyślnie timelineOffsetInFrames, rosnąco) */
+  orderedBy?: {
+    blockIds: string[];
+    field?: string;
+    direction?: 'asc' | 'desc';
+  };
+  /** Koniec ostatniego bloku (długość montażu) w zakresie */
+  totalDuration?: MatchCondition;
+  /** Rozrzut długości bloków (max - min) - np. wyrównanie długości */
+  durationSpread?: MatchCondition;
 }
 
 // ============================================================================
@@ -142,6 +289,153 @@ export interface AgentBehaviorExpectation {
   oneOf?: AgentBehaviorExpectation[];
 }
 
+// ============================================================================
+// RUBRIC (LLM-as-judge)
+// ============================================================================
+
+/**
+ * Pojedyncze kryterium oceny odpowiedzi agenta
+ *
+ * Judge ocenia kryterium w skali 0-1 na podstawie `agentResponse` i `DataDiff`.
+ */
+export interface RubricCriterion {
+  /** Identyfikator kryterium (np. 'mentions-resize-mode') */
+  id: string;
+  /** Opis kryterium w języku naturalnym - to czyta judge LLM */
+  description: string;
+  /** Waga kryterium w wyniku łącznym (domyślnie: 1) */
+  weight?: number;
+  /** Minimalny wynik dla tego kryterium (0-1). Jeśli podano, kryterium poniżej progu failuje rubrykę */
+  minScore?: number;
+  /**
+   * Słowa kluczowe dla lokalnego judge'a (KeywordRubricJudge).
+   * Każdy element to alternatywy rozdzielone `|` (np. 'resizeMode|tryb skalowania').
+   */
+  keywords?: string[];
+  /** Słowa kluczowe które obniżają wynik (lokalny judge) */
+  forbiddenKeywords?: string[];
+}
+
+/**
+ * Oczekiwanie oceniane przez judge'a (LLM lub lokalny zamiennik)
+ *
+ * Używane dla odpowiedzi tekstowych (podsumowania, plany), których nie da się
+ * sprawdzić regexem.
+ */
+export interface RubricExpectation {
+  /** Kryteria oceny */
+  criteria: RubricCriterion[];
+  /** Minimalny ważony wynik łączny (0-1) - domyślnie 0.7 */
+  passThreshold?: number;
+  /** Dodatkowy kontekst dla judge'a (np. czego dotyczyło pytanie użytkownika) */
+  context?: string;
+}
+
+// ============================================================================
+// BUDGET
+// ============================================================================
+
+/**
+ * Limity kosztu i wydajności przebiegu
+ *
+ * Liczone dla całego przebiegu scenariusza (suma wszystkich tur), więc czytane
+ * tylko z `TestScenario.expectations` (w `turns` ignorowane). Przy kilku
+ * alternatywnych zestawach obowiązuje najłagodniejszy limit każdego pola; pola
+ * nie podane w scenariuszu są brane z domyślnego budżetu suite'a
+ * (`TestHarnessOptions.budget`).
+ */
+export interface BudgetExpectations {
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  maxTotalTokens?: number;
+  /** Maks. liczba tur agenta (TestMetrics.turnCount) */
+  maxTurns?: number;
+  maxLatencyMs?: number;
+  maxToolCalls?: number;
+  /** Maks. szacowany koszt w USD (wg cennika modelu z model-pricing) */
+  maxCostUsd?: number;
+  /** Przekroczenie budżetu jako soft check (nie failuje testu) - domyślnie false */
+  soft?: boolean;
+}
+
+// ============================================================================
+// RENDER CHECKS
+// ============================================================================
+
+/**
+ * Sprawdzenia wyrenderowanego chaptera po przebiegu
+ *
+ * Harness renderuje stan końcowy chaptera (`input.context.chapterId`) i analizuje
+ * plik: czarne i zamrożone kadry, cisza i skoki głośności na cięciach, długość
+ * względem timeline'u, rozjazd audio/wideo. Jak `budget` - czytane tylko z
+ * `TestScenario.expectations`, przy kilku zestawach obowiązuje najłagodniejszy
+ * limit. Limit `false` wyłącza dane sprawdzenie.
+ */
+export interface RenderChecksExpectation {
+  /** Silnik renderowania - domyślnie 'remotion' */
+  engine?: 'remotion' | 'puppeteer';
+  /** Maks. długość czarnego fragmentu w sekundach - domyślnie 0.5 */
+  maxBlackSec?: number | false;
+  /** Maks. długość zamrożonego obrazu w sekundach - domyślnie 2 */
+  maxFrozenSec?: number | false;
+  /** Maks. długość ciszy w sekundach - domyślnie 1 */
+  maxSilenceSec?: number | false;
+  /** Próg ciszy w dB - domyślnie -50 */
+  silenceThresholdDb?: number;
+  /** Maks. skok głośności (LU) między fragmentami przed i po cięciu - domyślnie 10 */
+  maxLoudnessJumpLu?: number | false;
+  /** Dopuszczalna różnica długości wideo względem timeline'u (klatki) - domyślnie 1 */
+  durationToleranceFrames?: number | false;
+  /** Maks. rozjazd startu/długości strumieni audio i wideo (ms) - domyślnie 100 */
+  maxAvDriftMs?: number | false;
+  /** Niezaliczone sprawdzenia jako soft check (nie failują testu) - domyślnie false */
+  soft?: boolean;
+}
+
+/** Fragment wideo wykryty przez analizę (czarny, zamrożony, cichy) */
+export interface RenderTimeSegment {
+  startSec: number;
+  endSec: number;
+  durationSec: number;
+}
+
+/** Głośność wokół cięcia (momentary loudness, LUFS) */
+export interface RenderCutLoudness {
+  /** Czas cięcia w sekundach */
+  timeSec: number;
+  beforeLufs?: number;
+  afterLufs?: number;
+  /** |afterLufs - beforeLufs| */
+  jumpLu?: number;
+}
+
+/**
+ * Wynik renderu i analizy pliku - zapisywany z wynikiem scenariusza
+ */
+export interface RenderCheckReport {
+  engine: 'remotion' | 'puppeteer';
+  renderJobId?: string;
+  outputPath?: string;
+  /** Błąd renderu albo analizy - pozostałe pola mogą być puste */
+  error?: string;
+  fps?: number;
+  /** Długość wg timeline'u (max koniec bloku) */
+  expectedDurationInFrames?: number;
+  /** Liczba klatek wyrenderowanego wideo */
+  frameCount?: number;
+  videoDurationSec?: number;
+  blackSegments: RenderTimeSegment[];
+  frozenSegments: RenderTimeSegment[];
+  hasAudio: boolean;
+  silenceSegments: RenderTimeSegment[];
+  /** Cięcia = granice bloków na timeline'ach wideo */
+  cutPoints: RenderCutLoudness[];
+  /** Największa różnica startu albo długości strumieni audio i wideo (ms) */
+  avDriftMs?: number;
+  /** Czas renderu + analizy */
+  analysisDurationMs?: number;
+}
+
 // ============================================================================
 // TEST SCENARIO
 // ============================================================================
@@ -174,15 +468,56 @@ export interface ScenarioInput {
   context: ScenarioInputContext;
 }
 
+/**
+ * Reguła odpowiedzi użytkownika zależna od ostatniej odpowiedzi agenta
+ *
+ * Np. agent dopytał o kierunek → użytkownik odpowiada "w prawo".
+ */
+export interface ScenarioReplyRule {
+  /** Wzorzec regex dopasowywany do ostatniej odpowiedzi agenta (RegExp lub string dla serializacji JSON) */
+  whenResponseMatches: RegExp | string;
+  /** Wiadomość użytkownika wysyłana gdy wzorzec pasuje */
+  userMessage: string;
+}
+
+/**
+ * Kolejna tura rozmowy w scenariuszu wieloetapowym
+ *
+ * Pierwsza tura to zawsze `input.userMessage` + `expectations` scenariusza.
+ * Każda kolejna tura jest wysyłana w tym samym wątku (threadId).
+ */
+export interface ScenarioTurn {
+  /**
+   * Stała wiadomość użytkownika dla tej tury.
+   * Jeśli podano `replies`, używana jako fallback gdy żadna reguła nie pasuje.
+   */
+  userMessage?: string;
+  /** Reguły odpowiedzi - wygrywa pierwsza pasująca do ostatniej odpowiedzi agenta */
+  replies?: ScenarioReplyRule[];
+  /**
+   * Oczekiwania dla tej tury (logika OR, jak w `TestScenario.expectations`).
+   * toolCalls i dataDiff są liczone tylko dla tej tury.
+   */
+  expectations?: ScenarioExpectations[];
+}
+
 export interface ScenarioExpectations {
   /** Oczekiwania dotyczące wywołań narzędzi */
   toolCalls?: ToolCallExpectations;
   /** Oczekiwany stan końcowy danych */
   finalState?: FinalStateExpectations;
+  /** Globalne własności timeline'ów po przebiegu (noGaps, noOverlaps, ...) */
+  invariants?: InvariantExpectations;
   /** Oczekiwane zachowanie agenta */
   agentBehavior?: AgentBehaviorExpectation;
   /** Oczekiwania dotyczące tagów referencyjnych w odpowiedzi */
   referenceTags?: ReferenceTagsExpectations;
+  /** Ocena odpowiedzi przez judge'a według kryteriów */
+  rubric?: RubricExpectation;
+  /** Limity tokenów, czasu, tur, wywołań narzędzi i kosztu */
+  budget?: BudgetExpectations;
+  /** Sprawdzenia wyrenderowanego chaptera (czarne kadry, cisza, cięcia, długość, A/V) */
+  renderChecks?: RenderChecksExpectation;
 }
 
 /**
@@ -266,7 +601,13 @@ export interface TestScenario {
    * Test przechodzi jeśli JEDEN z zestawów pasuje.
    */
   expectations: ScenarioExpectations[];
-  /** Timeout w ms (domyślnie 60000) */
+  /**
+   * Kolejne tury rozmowy (opcjonalnie).
+   * Jeśli żadna reguła nie pasuje i tura nie ma `userMessage`, rozmowa się kończy,
+   * a pozostałe tury są oznaczane jako pominięte (soft check).
+   */
+  turns?: ScenarioTurn[];
+  /** Timeout w ms dla pojedynczej tury (domyślnie 60000) */
   timeout?: number;
 
   /**
@@ -344,24 +685,63 @@ export interface AssertionResult {
   message?: string;
   expected?: unknown;
   actual?: unknown;
+  /** Numer tury (od 1) - tylko dla scenariuszy wieloetapowych */
+  turn?: number;
+  /** Wynik 0-1 - tylko dla asercji rubryki */
+  score?: number;
+  /** Próg zaliczenia 0-1 - tylko dla asercji rubryki */
+  threshold?: number;
+  /** Uzasadnienie oceny od judge'a - tylko dla asercji rubryki */
+  reasoning?: string;
+  /** ID kryterium rubryki (brak dla wyniku łącznego) */
+  criterionId?: string;
+}
+
+export interface EntityDiff {
+  added: Array<{ id: string; data: Record<string, unknown> }>;
+  modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
+  deleted: Array<{ id: string; data: Record<string, unknown> }>;
+}
+
+export type SettingChangeType = 'added' | 'modified' | 'deleted';
+
+/** Zmiana pojedynczego klucza ustawień */
+export interface SettingChange {
+  /** ID projektu / chaptera / timeline'u / bloku */
+  ownerId: string;
+  key: string;
+  change: SettingChangeType;
+  /** Brak dla 'added' */
+  before?: unknown;
+  /** Brak dla 'deleted' */
+  after?: unknown;
+}
+
+export type SettingsDiff = Record<SettingsScope, SettingChange[]>;
+
+export interface EnrichmentDiff {
+  focusPoints: EntityDiff;
+  transcriptionSegments: EntityDiff;
+  faces: EntityDiff;
+  scenes: EntityDiff;
 }
 
+/**
+ * Zmiany danych wykonane przez agenta
+ *
+ * Sekcje poza blocks / timelines / mediaAssets są opcjonalne - brak ich w wynikach
+ * i kasetach zapisanych przed ich dodaniem.
+ */
 export interface DataDiff {
-  blocks: {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
-  };
-  timelines: {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
-  };
-  mediaAssets: {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
-  };
+  blocks: EntityDiff;
+  timelines: EntityDiff;
+  mediaAssets: EntityDiff;
+  chapters?: EntityDiff;
+  /** Ustawienia jako zmiany kluczy (chaptery / timeline'y / bloki mają je też w encji) */
+  settings?: SettingsDiff;
+  enrichment?: EnrichmentDiff;
+  persons?: EntityDiff;
+  dynamicCompositions?: EntityDiff;
 }
 
 export interface TestMetrics {
@@ -370,6 +750,27 @@ export interface TestMetrics {
   totalTokens: number;
   latencyMs: number;
   turnCount: number;
+  /** Szacowany koszt w USD (brak gdy model nie ma cennika) */
+  costUsd?: number;
+}
+
+/**
+ * Wynik pojedynczej tury scenariusza wieloetapowego
+ */
+export interface TurnResult {
+  /** Numer tury (od 1) */
+  turn: number;
+  /** Wiadomość użytkownika wysłana w tej turze (brak gdy tura pominięta) */
+  userMessage?: string;
+  /** Odpowiedź agenta w tej turze */
+  agentResponse?: string;
+  passed: boolean;
+  /** Tura pominięta - żadna reguła odpowiedzi nie pasowała */
+  skipped?: boolean;
+  toolCalls: ToolCall[];
+  /** Zmiany danych wykonane w tej turze */
+  dataDiff: DataDiff;
+  assertions: AssertionResult[];
 }
 
 export interface TestResult {
@@ -400,6 +801,15 @@ export interface TestResult {
 
   /** Logi stderr z Claude CLI (surowy tekst) */
   stderrLogs?: string[];
+
+  /** Wyniki poszczególnych tur (tylko dla scenariuszy z `turns`) */
+  turns?: TurnResult[];
+
+  /** Numer próby (1..N) przy powtarzanych przebiegach (`repetitions`) */
+  trial?: number;
+
+  /** Render stanu końcowego i jego analiza (tylko scenariusze z `renderChecks`) */
+  renderChecks?: RenderCheckReport;
 }
 
 /**
@@ -6,17 +6,37 @@
  * - GET  /api/composition-tests/fixtures/:definitionId - Fixtures jednej kompozycji
  * - POST /api/composition-tests/render               - Renderuj fixture { fixtureId }
  * - POST /api/composition-tests/render-batch          - Renderuj wiele { definitionId? }
+ * - GET  /api/composition-tests/jobs                  - Historia jobów renderowania
  * - GET  /api/composition-tests/jobs/:jobId           - Status jednego joba
+ * - POST /api/composition-tests/jobs/:jobId/retry     - Ponów render zakończony błędem
  * - GET  /api/composition-tests/batch/:batchId        - Status batcha
  * - GET  /api/composition-tests/renders               - Lista wyrenderowanych plików
  * - GET  /api/composition-tests/renders/:fixtureId/video - Serwuj plik MP4
  * - DELETE /api/composition-tests/renders/:fixtureId  - Usuń renderowany plik
+ * - GET  /api/composition-tests/golden                - Stan baseline golden frames
+ * - GET  /api/composition-tests/golden/:fixtureId     - Baseline + ostatnie porównanie
+ * - POST /api/composition-tests/golden/check          - Porównaj wyrenderowane { definitionId? }
+ * - POST /api/composition-tests/golden/:fixtureId/check   - Porównaj klatki z baseline
+ * - POST /api/composition-tests/golden/:fixtureId/approve - Zatwierdź jako nowy baseline { frames? }
+ * - GET  /api/composition-tests/golden/:fixtureId/frames/:frame/:kind - Serwuj PNG
+ * - POST /api/composition-tests/parity                - Parity remotion vs puppeteer { fixtureId }
+ * - POST /api/composition-tests/parity/batch          - Parity wielu fixtures { definitionId? }
+ * - GET  /api/composition-tests/parity/matrix         - Macierz fixture x silnik (najnowsze przebiegi)
+ * - GET  /api/composition-tests/parity/runs           - Historia przebiegów parity
+ * - GET  /api/composition-tests/parity/runs/:runId    - Jeden przebieg parity
+ * - POST /api/composition-tests/fuzz                  - Sesja fuzzingu props { definitionId?, seed?, randomCases?, shrink? }
+ * - GET  /api/composition-tests/fuzz/sessions         - Lista sesji fuzzingu
+ * - GET  /api/composition-tests/fuzz/sessions/:sessionId - Stan jednej sesji
+ * - GET  /api/composition-tests/fuzz/failures         - Zapisane przypadki z fuzzingu
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import path from 'path';
 import fs from 'fs';
 import { compositionTestService } from '../services/composition-test-service';
+import { goldenFrameService, type GoldenFrameKind } from '../services/golden-frame-service';
+import { compositionParityService } from '../services/composition-parity-service';
+import { compositionFuzzService } from '../services/composition-fuzz-service';
 
 // ============================================================================
 // TYPES
@@ -30,6 +50,12 @@ interface JobIdParams {
   jobId: string;
 }
 
+interface JobsQuerystring {
+  fixtureId?: string;
+  status?: 'pending' | 'rendering' | 'encoding' | 'completed' | 'error';
+  limit?: string;
+}
+
 interface BatchIdParams {
   batchId: string;
 }
@@ -67,6 +93,62 @@ interface DeleteQuerystring {
   engine?: 'remotion' | 'puppeteer';
 }
 
+interface GoldenQuerystring {
+  engine?: 'remotion' | 'puppeteer';
+}
+
+interface GoldenCheckBody {
+  definitionId?: string;
+  engine?: 'remotion' | 'puppeteer';
+}
+
+interface GoldenFixtureBody {
+  engine?: 'remotion' | 'puppeteer';
+}
+
+interface GoldenApproveBody {
+  engine?: 'remotion' | 'puppeteer';
+  frames?: number[];
+}
+
+interface GoldenFrameParams {
+  fixtureId: string;
+  frame: string;
+  kind: string;
+}
+
+const GOLDEN_FRAME_KINDS: GoldenFrameKind[] = ['baseline', 'actual', 'diff'];
+const GOLDEN_ENGINES: unknown[] = ['remotion', 'puppeteer'];
+const INVALID_ENGINE_ERROR = 'Invalid engine (remotion | puppeteer)';
+
+interface ParityBody {
+  fixtureId: string;
+}
+
+interface ParityBatchBody {
+  definitionId?: string;
+}
+
+interface ParityRunsQuerystring {
+  fixtureId?: string;
+  limit?: string;
+}
+
+interface ParityRunParams {
+  runId: string;
+}
+
+interface FuzzBody {
+  definitionId?: string;
+  seed?: number;
+  randomCases?: number;
+  shrink?: boolean;
+}
+
+interface FuzzSessionParams {
+  sessionId: string;
+}
+
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -162,6 +244,27 @@ export default async function compositionTestsRoutes(
   // JOB STATUS
   // ==========================================================================
 
+  /**
+   * GET /api/composition-tests/jobs - Historia jobów (najnowsze pierwsze)
+   * Query: ?fixtureId=...&status=error&limit=100
+   */
+  fastify.get<{ Querystring: JobsQuerystring }>(
+    '/composition-tests/jobs',
+    async (request, reply) => {
+      const { fixtureId, status, limit } = request.query;
+      const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+      if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1)) {
+        return reply.status(400).send({ error: 'limit must be a positive integer' });
+      }
+
+      return compositionTestService.listJobs({
+        fixtureId,
+        status,
+        limit: parsedLimit,
+      });
+    }
+  );
+
   /**
    * GET /api/composition-tests/jobs/:jobId - Status jednego joba
    */
@@ -179,6 +282,38 @@ export default async function compositionTestsRoutes(
     }
   );
 
+  /**
+   * POST /api/composition-tests/jobs/:jobId/retry - Ponów render zakończony błędem (nowy job)
+   */
+  fastify.post<{ Params: JobIdParams }>(
+    '/composition-tests/jobs/:jobId/retry',
+    async (request, reply) => {
+      const job = compositionTestService.getJob(request.params.jobId);
+
+      if (!job) {
+        return reply.status(404).send({ error: 'Job not found' });
+      }
+      if (job.status !== 'error') {
+        return reply.status(400).send({ error: `Only failed render jobs can be retried (status: ${job.status})` });
+      }
+
+      try {
+        const retried = await compositionTestService.retryJob(job.jobId);
+        return reply.send({
+          jobId: retried.jobId,
+          status: retried.status,
+          attempt: retried.attempt,
+          message: 'Render queued',
+        });
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to retry render',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
   /**
    * GET /api/composition-tests/batch/:batchId - Status batcha
    */
@@ -256,4 +391,305 @@ export default async function compositionTestsRoutes(
       return reply.send({ success: true, message: `Render deleted (engine: ${engine})` });
     }
   );
+
+  // ==========================================================================
+  // GOLDEN FRAMES
+  // ==========================================================================
+
+  /**
+   * GET /api/composition-tests/golden - Stan baseline wszystkich fixtures
+   * Query: ?engine=remotion|puppeteer (domyslnie: remotion)
+   */
+  fastify.get<{ Querystring: GoldenQuerystring }>(
+    '/composition-tests/golden',
+    async (request, reply) => {
+      const { engine = 'remotion' } = request.query;
+
+      if (!GOLDEN_ENGINES.includes(engine)) {
+        return reply.status(400).send({ error: INVALID_ENGINE_ERROR });
+      }
+
+      return reply.send(goldenFrameService.listBaselines(engine));
+    }
+  );
+
+  /**
+   * GET /api/composition-tests/golden/:fixtureId - Baseline + ostatnie porównanie
+   */
+  fastify.get<{ Params: FixtureIdParams; Querystring: GoldenQuerystring }>(
+    '/composition-tests/golden/:fixtureId',
+    async (request, reply) => {
+      const { fixtureId } = request.params;
+      const { engine = 'remotion' } = request.query;
+
+      if (!GOLDEN_ENGINES.includes(engine)) {
+        return reply.status(400).send({ error: INVALID_ENGINE_ERROR });
+      }
+
+      if (!compositionTestService.getFixture(fixtureId)) {
+        return reply.status(404).send({ error: `Fixture not found: ${fixtureId}` });
+      }
+
+      return reply.send(goldenFrameService.getBaselineInfo(fixtureId, engine));
+    }
+  );
+
+  /**
+   * POST /api/composition-tests/golden/check - Porównaj wszystkie wyrenderowane fixtures
+   */
+  fastify.post<{ Body: GoldenCheckBody }>(
+    '/composition-tests/golden/check',
+    async (request, reply) => {
+      const { definitionId, engine = 'remotion' } = request.body || {};
+
+      if (!GOLDEN_ENGINES.includes(engine)) {
+        return reply.status(400).send({ error: INVALID_ENGINE_ERROR });
+      }
+
+      try {
+        return reply.send(await goldenFrameService.checkBatch(definitionId, engine));
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to compare golden frames',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/composition-tests/golden/:fixtureId/check - Porównaj klatki z baseline
+   */
+  fastify.post<{ Params: FixtureIdParams; Body: GoldenFixtureBody }>(
+    '/composition-tests/golden/:fixtureId/check',
+    async (request, reply) => {
+      const { fixtureId } = request.params;
+      const { engine = 'remotion' } = request.body || {};
+
+      if (!GOLDEN_ENGINES.includes(engine)) {
+        return reply.status(400).send({ error: INVALID_ENGINE_ERROR });
+      }
+
+      if (!compositionTestService.getFixture(fixtureId)) {
+        return reply.status(404).send({ error: `Fixture not found: ${fixtureId}` });
+      }
+
+      try {
+        return reply.send(await goldenFrameService.checkFixture(fixtureId, engine));
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to compare golden frames',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/composition-tests/golden/:fixtureId/approve - Zatwierdź aktualne klatki jako baseline
+   * Body: { engine?, frames? } - bez frames zatwierdza wszystkie klatki kluczowe
+   */
+  fastify.post<{ Params: FixtureIdParams; Body: GoldenApproveBody }>(
+    '/composition-tests/golden/:fixtureId/approve',
+    async (request, reply) => {
+      const { fixtureId } = request.params;
+      const { engine = 'remotion', frames } = request.body || {};
+
+      if (!GOLDEN_ENGINES.includes(engine)) {
+        return reply.status(400).send({ error: INVALID_ENGINE_ERROR });
+      }
+
+      if (!compositionTestService.getFixture(fixtureId)) {
+        return reply.status(404).send({ error: `Fixture not found: ${fixtureId}` });
+      }
+
+      try {
+        return reply.send(await goldenFrameService.approveBaseline(fixtureId, engine, frames));
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to approve baseline',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/composition-tests/golden/:fixtureId/frames/:frame/:kind - Serwuj PNG klatki
+   * kind: baseline | actual | diff
+   */
+  fastify.get<{ Params: GoldenFrameParams; Querystring: GoldenQuerystring }>(
+    '/composition-tests/golden/:fixtureId/frames/:frame/:kind',
+    async (request, reply) => {
+      const { fixtureId, frame, kind } = request.params;
+      const { engine = 'remotion' } = request.query;
+      const frameNumber = parseInt(frame, 10);
+
+      if (!GOLDEN_ENGINES.includes(engine)) {
+        return reply.status(400).send({ error: INVALID_ENGINE_ERROR });
+      }
+
+      if (!compositionTestService.getFixture(fixtureId)) {
+        return reply.status(404).send({ error: `Fixture not found: ${fixtureId}` });
+      }
+      if (Number.isNaN(frameNumber) || !GOLDEN_FRAME_KINDS.includes(kind as GoldenFrameKind)) {
+        return reply.status(400).send({ error: 'Invalid frame or kind (baseline | actual | diff)' });
+      }
+
+      const filePath = goldenFrameService.getFramePath(fixtureId, engine, frameNumber, kind as GoldenFrameKind);
+      if (!fs.existsSync(filePath)) {
+        return reply.status(404).send({ error: `Frame image not found (engine: ${engine})` });
+      }
+
+      return reply
+        .type('image/png')
+        .header('Cache-Control', 'no-cache')
+        .send(fs.createReadStream(filePath));
+    }
+  );
+
+  // ==========================================================================
+  // ENGINE PARITY
+  // ==========================================================================
+
+  /**
+   * POST /api/composition-tests/parity - Renderuj fixture obydwoma silnikami i porównaj
+   */
+  fastify.post<{ Body: ParityBody }>(
+    '/composition-tests/parity',
+    async (request, reply) => {
+      const { fixtureId } = request.body || {};
+
+      if (!fixtureId) {
+        return reply.status(400).send({ error: 'Missing required field: fixtureId' });
+      }
+      if (!compositionTestService.getFixture(fixtureId)) {
+        return reply.status(404).send({ error: `Fixture not found: ${fixtureId}` });
+      }
+
+      try {
+        return reply.send(compositionParityService.startRun(fixtureId));
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to start parity run',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/composition-tests/parity/batch - Parity dla wielu fixtures (kolejka)
+   */
+  fastify.post<{ Body: ParityBatchBody }>(
+    '/composition-tests/parity/batch',
+    async (request, reply) => {
+      const { definitionId } = request.body || {};
+
+      try {
+        const runs = compositionParityService.startBatch(definitionId);
+        return reply.send({
+          runIds: runs.map(r => r.runId),
+          totalCount: runs.length,
+          message: `Parity runs queued: ${runs.length}`,
+        });
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to start parity batch',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/composition-tests/parity/matrix - Fixtures z najnowszym przebiegiem parity
+   */
+  fastify.get('/composition-tests/parity/matrix', async () => {
+    return compositionParityService.getMatrix();
+  });
+
+  /**
+   * GET /api/composition-tests/parity/runs - Historia przebiegów
+   * Query: ?fixtureId=...&limit=50
+   */
+  fastify.get<{ Querystring: ParityRunsQuerystring }>(
+    '/composition-tests/parity/runs',
+    async (request) => {
+      const { fixtureId, limit } = request.query;
+      return compositionParityService.listRuns({
+        fixtureId,
+        limit: limit ? parseInt(limit, 10) : undefined,
+      });
+    }
+  );
+
+  /**
+   * GET /api/composition-tests/parity/runs/:runId - Jeden przebieg parity
+   */
+  fastify.get<{ Params: ParityRunParams }>(
+    '/composition-tests/parity/runs/:runId',
+    async (request, reply) => {
+      const run = compositionParityService.getRun(request.params.runId);
+
+      if (!run) {
+        return reply.status(404).send({ error: 'Parity run not found' });
+      }
+
+      return reply.send(run);
+    }
+  );
+
+  // ==========================================================================
+  // PROP FUZZING
+  // ==========================================================================
+
+  /**
+   * POST /api/composition-tests/fuzz - Uruchom sesję fuzzingu props (w tle)
+   */
+  fastify.post<{ Body: FuzzBody }>(
+    '/composition-tests/fuzz',
+    async (request, reply) => {
+      const { definitionId, seed, randomCases, shrink } = request.body || {};
+
+      try {
+        return reply.send(compositionFuzzService.startSession({ definitionId, seed, randomCases, shrink }));
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to start fuzz session',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
+  /**
+   * GET /api/composition-tests/fuzz/sessions - Lista sesji fuzzingu
+   */
+  fastify.get('/composition-tests/fuzz/sessions', async () => {
+    return compositionFuzzService.listSessions();
+  });
+
+  /**
+   * GET /api/composition-tests/fuzz/sessions/:sessionId - Stan jednej sesji
+   */
+  fastify.get<{ Params: FuzzSessionParams }>(
+    '/composition-tests/fuzz/sessions/:sessionId',
+    async (request, reply) => {
+      const session = compositionFuzzService.getSession(request.params.sessionId);
+
+      if (!session) {
+        return reply.status(404).send({ error: 'Fuzz session not found' });
+      }
+
+      return reply.send(session);
+    }
+  );
+
+  /**
+   * GET /api/composition-tests/fuzz/failures - Zapisane (zminimalizowane) przypadki
+   */
+  fastify.get('/composition-tests/fuzz/failures', async () => {
+    return compositionFuzzService.getSavedFailures();
+  });
 }
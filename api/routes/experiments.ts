@@ -0,0 +1,110 @@
+/**
+ * Experiments Routes - API endpoints dla eksperymentów A/B (scenariusze × macierz wariantów)
+ */
+
+import { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { getExperimentService } from '../services/experiment-service';
+import {
+  resolveExperimentVariants,
+  type ExperimentDefinition,
+} from '../../agent-evals/harness/experiment';
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export default async function experimentsRoutes(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const experimentService = getExperimentService();
+
+  /**
+   * GET /api/experiments - lista eksperymentów ze statusem zbiorczym
+   */
+  fastify.get<{
+    Querystring: { limit?: string; offset?: string };
+  }>('/experiments', async (request, reply) => {
+    const { limit, offset } = request.query;
+
+    const experiments = experimentService.listExperiments({
+      limit: limit ? parseInt(limit) : 50,
+      offset: offset ? parseInt(offset) : 0,
+    });
+
+    return reply.send(experiments);
+  });
+
+  /**
+   * POST /api/experiments - tworzy eksperyment i kolejkuje suite dla każdego wariantu
+   *
+   * Body: ExperimentDefinition - scenariusze (agent / scenarioIds / tags) oraz warianty
+   * (lista `variants` i/lub `matrix` rozwijana do iloczynu kartezjańskiego osi).
+   */
+  fastify.post<{
+    Body: ExperimentDefinition;
+  }>('/experiments', async (request, reply) => {
+    try {
+      const { experiment, cells } = await experimentService.startExperiment(request.body);
+      return reply.send({
+        experimentId: experiment.id,
+        variantCount: cells.length,
+        scenarioCount: experiment.scenarioIds.length,
+        cells,
+        message: 'Experiment enqueued',
+      });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * POST /api/experiments/preview - rozwija warianty bez uruchamiania (podgląd macierzy)
+   */
+  fastify.post<{
+    Body: ExperimentDefinition;
+  }>('/experiments/preview', async (request, reply) => {
+    try {
+      return reply.send({ variants: resolveExperimentVariants(request.body || { name: '' }) });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * GET /api/experiments/:id - szczegóły eksperymentu z leaderboardem wariantów
+   *
+   * Query: alpha - poziom istotności porównania z najlepszym wariantem (domyślnie 0.05)
+   */
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { alpha?: string };
+  }>('/experiments/:id', async (request, reply) => {
+    const { alpha } = request.query;
+
+    let detail: ReturnType<typeof experimentService.getExperimentDetail>;
+    try {
+      detail = experimentService.getExperimentDetail(request.params.id, {
+        alpha: alpha !== undefined ? parseFloat(alpha) : undefined,
+      });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    if (!detail) {
+      return reply.status(404).send({ error: 'Experiment not found' });
+    }
+
+    return reply.send(detail);
+  });
+
+  /**
+   * POST /api/experiments/:id/stop - zatrzymuje trwające suite'y eksperymentu
+   */
+  fastify.post<{
+    Params: { id: string };
+  }>('/experiments/:id/stop', async (request, reply) => {
+    const { stoppedSuiteIds } = await experimentService.stopExperiment(request.params.id);
+    return reply.send({ success: true, stoppedSuiteIds });
+  });
+}
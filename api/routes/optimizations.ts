@@ -0,0 +1,85 @@
+/**
+ * Optimizations Routes - API endpoints dla automatycznej optymalizacji system promptu
+ */
+
+import { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { getPromptOptimizationService } from '../services/prompt-optimization-service';
+import type { PromptOptimizationDefinition } from '../../agent-evals/harness/prompt-optimizer';
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+export default async function optimizationsRoutes(
+  fastify: FastifyInstance,
+  _opts: FastifyPluginOptions
+): Promise<void> {
+  const optimizationService = getPromptOptimizationService();
+
+  /**
+   * GET /api/optimizations - lista optymalizacji
+   */
+  fastify.get<{
+    Querystring: { limit?: string; offset?: string };
+  }>('/optimizations', async (request, reply) => {
+    const { limit, offset } = request.query;
+
+    const optimizations = optimizationService.listOptimizations({
+      limit: limit ? parseInt(limit) : 50,
+      offset: offset ? parseInt(offset) : 0,
+    });
+
+    return reply.send(optimizations);
+  });
+
+  /**
+   * POST /api/optimizations - uruchamia optymalizację promptu w tle
+   *
+   * Body: PromptOptimizationDefinition - agent, scenariusze, prompt bazowy,
+   * proposer ('snippets' z biblioteką patchy lub 'llm') oraz budżet (iteracje, tokeny, koszt).
+   */
+  fastify.post<{
+    Body: PromptOptimizationDefinition;
+  }>('/optimizations', async (request, reply) => {
+    try {
+      const optimization = await optimizationService.startOptimization(request.body);
+      return reply.send({
+        optimizationId: optimization.id,
+        scenarioCount: optimization.scenarioIds.length,
+        message: 'Optimization started',
+      });
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * GET /api/optimizations/:id - optymalizacja z rankingiem kandydatów i raportem końcowym
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>('/optimizations/:id', async (request, reply) => {
+    const detail = optimizationService.getOptimizationDetail(request.params.id);
+
+    if (!detail) {
+      return reply.status(404).send({ error: 'Optimization not found' });
+    }
+
+    return reply.send(detail);
+  });
+
+  /**
+   * POST /api/optimizations/:id/stop - zatrzymuje optymalizację po bieżącym kandydacie
+   */
+  fastify.post<{
+    Params: { id: string };
+  }>('/optimizations/:id/stop', async (request, reply) => {
+    const stopped = optimizationService.stopOptimization(request.params.id);
+
+    if (!stopped) {
+      return reply.status(404).send({ error: 'Optimization is not running' });
+    }
+
+    return reply.send({ success: true, message: 'Optimization will stop after the current candidate' });
+  });
+}
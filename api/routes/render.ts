@@ -2,14 +2,20 @@
  * Render Routes - API endpoints dla renderowania chapter'ów z fixtures
  *
  * Endpoints:
- * - POST /api/render/chapter - rozpocznij renderowanie
+ * - POST /api/render/chapter - rozpocznij renderowanie (kolejka - jeden render naraz)
  * - GET /api/render/:jobId/status - status renderowania
+ * - POST /api/render/:jobId/retry - ponów render zakończony błędem
  * - DELETE /api/render/:jobId - usuń render
+ * - GET /api/render/jobs - historia jobów (chapter + kompozycje)
+ * - GET /api/render/storage - zajętość dysku przez rendery + polityka retencji
+ * - POST /api/render/cleanup - uruchom retencję { maxAgeDays?, maxTotalBytes? }
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import fastifyStatic from '@fastify/static';
 import { renderService, RenderJob } from '../services/render-service';
+import { getRenderJobStore, type RenderJobKind, type RenderJobStatus } from '../services/render-job-store';
+import { renderQueue, type RenderRetentionPolicy } from '../services/render-queue';
 
 // ============================================================================
 // TYPES
@@ -27,6 +33,17 @@ interface RenderJobParams {
   jobId: string;
 }
 
+interface RenderJobsQuerystring {
+  kind?: RenderJobKind;
+  status?: RenderJobStatus;
+  suiteId?: string;
+  scenarioId?: string;
+  fixtureId?: string;
+  limit?: string;
+}
+
+type RenderCleanupBody = Partial<RenderRetentionPolicy>;
+
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -70,7 +87,7 @@ export default async function renderRoutes(
         return reply.send({
           jobId: job.jobId,
           status: job.status,
-          message: 'Render started',
+          message: 'Render queued',
         });
       } catch (error) {
         console.error('[RenderRoutes] Error starting render:', error);
@@ -102,13 +119,22 @@ export default async function renderRoutes(
         jobId: job.jobId,
         projectId: job.projectId,
         chapterId: job.chapterId,
+        suiteId: job.suiteId,
+        scenarioId: job.scenarioId,
+        engine: job.engine,
         status: job.status,
         progress: job.progress,
         currentFrame: job.currentFrame,
         totalFrames: job.totalFrames,
+        output: job.output,
+        outputDeletedAt: job.outputDeletedAt,
         error: job.error,
+        attempt: job.attempt,
+        retryOf: job.retryOf,
         startedAt: job.startedAt,
+        renderStartedAt: job.renderStartedAt,
         completedAt: job.completedAt,
+        renderDurationMs: job.renderDurationMs,
       };
 
       // Dodaj preview tylko jeśli nie jest zbyt stary
@@ -116,8 +142,8 @@ export default async function renderRoutes(
         response.previewFrame = job.previewFrame;
       }
 
-      // Dodaj URL do video jeśli zakończone
-      if (job.status === 'completed' && job.outputPath) {
+      // Dodaj URL do video jeśli zakończone (i plik nie został usunięty przez retencję)
+      if (job.status === 'completed' && job.outputPath && !job.outputDeletedAt) {
         response.videoUrl = `/api/renders/${job.jobId}.mp4`;
       }
 
@@ -125,6 +151,41 @@ export default async function renderRoutes(
     }
   );
 
+  /**
+   * POST /api/render/:jobId/retry - ponów render zakończony błędem (nowy job)
+   */
+  fastify.post<{ Params: RenderJobParams }>(
+    '/render/:jobId/retry',
+    async (request, reply) => {
+      const job = renderService.getJob(request.params.jobId);
+      if (!job) {
+        return reply.status(404).send({
+          error: 'Render job not found',
+        });
+      }
+      if (job.status !== 'error') {
+        return reply.status(400).send({
+          error: `Only failed render jobs can be retried (status: ${job.status})`,
+        });
+      }
+
+      try {
+        const retried = await renderService.retryJob(job.jobId);
+        return reply.send({
+          jobId: retried.jobId,
+          status: retried.status,
+          attempt: retried.attempt,
+          message: 'Render queued',
+        });
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to retry render',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
+
   /**
    * DELETE /api/render/:jobId - usuń render
    */
@@ -146,4 +207,76 @@ export default async function renderRoutes(
       });
     }
   );
+
+  // ==========================================================================
+  // HISTORY & RETENTION
+  // ==========================================================================
+
+  /**
+   * GET /api/render/jobs - historia jobów renderowania (najnowsze pierwsze)
+   * Query: ?kind=chapter|composition&status=error&suiteId=...&scenarioId=...&fixtureId=...&limit=100
+   */
+  fastify.get<{ Querystring: RenderJobsQuerystring }>(
+    '/render/jobs',
+    async (request, reply) => {
+      const { kind, status, suiteId, scenarioId, fixtureId, limit } = request.query;
+      const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+      if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1)) {
+        return reply.status(400).send({ error: 'limit must be a positive integer' });
+      }
+
+      return getRenderJobStore().listJobs({
+        kind,
+        status,
+        suiteId,
+        scenarioId,
+        fixtureId,
+        limit: parsedLimit,
+      });
+    }
+  );
+
+  /**
+   * GET /api/render/storage - zajętość katalogów renderów, polityka retencji i stan kolejki
+   */
+  fastify.get('/render/storage', async () => {
+    return {
+      ...renderQueue.getDiskUsage(),
+      queue: renderQueue.getStatus(),
+    };
+  });
+
+  /**
+   * POST /api/render/cleanup - uruchom retencję teraz
+   *
+   * Body (opcjonalnie) - nowa polityka, zapisywana w bazie jobów i obowiązująca też
+   * dla kolejnych renderów (także po restarcie):
+   * - maxAgeDays: pliki starsze niż N dni (0 = bez limitu)
+   * - maxTotalBytes: łączny limit rozmiaru (0 = bez limitu)
+   */
+  fastify.post<{ Body: RenderCleanupBody }>(
+    '/render/cleanup',
+    async (request, reply) => {
+      const { maxAgeDays, maxTotalBytes } = request.body || {};
+
+      for (const [field, value] of Object.entries({ maxAgeDays, maxTotalBytes })) {
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          return reply.status(400).send({ error: `${field} must be a non-negative number` });
+        }
+      }
+
+      try {
+        const policy = renderQueue.setPolicy({
+          ...(maxAgeDays !== undefined ? { maxAgeDays } : {}),
+          ...(maxTotalBytes !== undefined ? { maxTotalBytes } : {}),
+        });
+        return reply.send({ policy, ...renderQueue.applyRetention() });
+      } catch (error) {
+        return reply.status(500).send({
+          error: 'Failed to clean up renders',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  );
 }
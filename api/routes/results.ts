@@ -3,8 +3,91 @@
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
-import { getResultsStore } from '../services/results-store';
+import { getResultsStore, type ResultsStore, type SuiteRun } from '../services/results-store';
+import {
+  compareSuiteResults,
+  evaluateGate,
+  type GatePolicy,
+  type SuiteComparison,
+} from '../../agent-evals/harness/suite-comparison';
+import { clusterFailures } from '../../agent-evals/harness/failure-clustering';
+import { getReportFormatter, defaultDashboardUrl, type ReportFormatter } from '../../agent-evals/harness/reporters';
 import { getTestRunnerService } from '../services/test-runner';
+import { getSnapshotDiffService } from '../../agent-evals/services/snapshot-diff-service';
+import type { ConfigDiffResult } from '../../agent-evals/types/config-snapshot';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Buduje pule prób (suite + wcześniejsze suite'y o tym samym config_hash) i porównuje je
+ */
+function buildComparison(
+  resultsStore: ResultsStore,
+  baselineSuite: SuiteRun,
+  candidateSuite: SuiteRun,
+  options: { history?: number; alpha?: number }
+): { baselineSuiteIds: string[]; candidateSuiteIds: string[]; comparison: SuiteComparison } {
+  const history = options.history ?? 0;
+  if (!Number.isInteger(history) || history < 0) {
+    throw new Error(`history must be a non-negative integer (got ${options.history})`);
+  }
+
+  const resolvePool = (suite: SuiteRun, excludeIds: string[]): string[] => {
+    if (!suite.configHash || history === 0) return [suite.id];
+    return [
+      suite.id,
+      ...resultsStore.findSuiteIdsByConfigHash(suite.configHash, {
+        before: suite.createdAt,
+        limit: history,
+        excludeIds,
+      }),
+    ];
+  };
+
+  // Pule nie mogą się pokrywać - przy tym samym hashu historia kandydata zawierałaby baseline
+  const baselineSuiteIds = resolvePool(baselineSuite, [candidateSuite.id]);
+  const candidateSuiteIds = resolvePool(candidateSuite, baselineSuiteIds);
+
+  return {
+    baselineSuiteIds,
+    candidateSuiteIds,
+    comparison: compareSuiteResults(
+      resultsStore.getComparableResults(baselineSuiteIds),
+      resultsStore.getComparableResults(candidateSuiteIds),
+      { alpha: options.alpha }
+    ),
+  };
+}
+
+/**
+ * Diff pełnych snapshotów konfiguracji dla agentów obecnych w obu suite'ach
+ *
+ * Zwraca null gdy któryś suite nie ma snapshotów (np. suite sprzed snapshotowania).
+ */
+function buildConfigDiff(
+  resultsStore: ResultsStore,
+  baselineSuiteId: string,
+  candidateSuiteId: string
+): Record<string, ConfigDiffResult> | null {
+  const baselineSnapshots = resultsStore.getSuiteConfigSnapshots(baselineSuiteId);
+  const candidateSnapshots = resultsStore.getSuiteConfigSnapshots(candidateSuiteId);
+  if (!baselineSnapshots || !candidateSnapshots) return null;
+
+  const diffService = getSnapshotDiffService();
+  const configDiff: Record<string, ConfigDiffResult> = {};
+  for (const agentType of Object.keys(candidateSnapshots)) {
+    if (baselineSnapshots[agentType]) {
+      configDiff[agentType] = diffService.compare(baselineSnapshots[agentType], candidateSnapshots[agentType]);
+    }
+  }
+  return configDiff;
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
 
 export default async function resultsRoutes(
   fastify: FastifyInstance,
@@ -69,12 +152,14 @@ export default async function resultsRoutes(
 
   /**
    * GET /api/suites/:id/scenarios/:scenarioId - szczegóły scenariusza
+   * Query: ?trial=N - konkretna próba (domyślnie pierwsza)
    */
-  fastify.get<{ Params: { id: string; scenarioId: string } }>(
+  fastify.get<{ Params: { id: string; scenarioId: string }; Querystring: { trial?: string } }>(
     '/suites/:id/scenarios/:scenarioId',
     async (request, reply) => {
       const { id, scenarioId } = request.params;
-      const result = resultsStore.getScenarioResult(id, scenarioId);
+      const { trial } = request.query;
+      const result = resultsStore.getScenarioResult(id, scenarioId, trial ? parseInt(trial) : undefined);
 
       if (!result) {
         return reply.status(404).send({ error: 'Scenario result not found' });
@@ -103,12 +188,22 @@ export default async function resultsRoutes(
   );
 
   /**
-   * GET /api/suites/:id/compare/:otherId - porównanie dwóch suite'ów
+   * GET /api/suites/:id/compare/:otherId - statystyczne porównanie dwóch suite'ów
+   *
+   * Suite :id jest baseline, :otherId kandydatem. Query:
+   * - history - ile wcześniejszych suite'ów o tym samym config_hash dołączyć do każdej puli
+   * - alpha - poziom istotności testów (domyślnie 0.05)
+   *
+   * configDiff (klucz = typ agenta) pokazuje, co zmieniło się w konfiguracji między suite'ami.
    */
-  fastify.get<{ Params: { id: string; otherId: string } }>(
+  fastify.get<{
+    Params: { id: string; otherId: string };
+    Querystring: { history?: string; alpha?: string };
+  }>(
     '/suites/:id/compare/:otherId',
     async (request, reply) => {
       const { id, otherId } = request.params;
+      const { history, alpha } = request.query;
 
       const suite1 = resultsStore.getSuiteRun(id);
       const suite2 = resultsStore.getSuiteRun(otherId);
@@ -117,61 +212,14 @@ export default async function resultsRoutes(
         return reply.status(404).send({ error: 'One or both suites not found' });
       }
 
-      // Porównaj wyniki scenariuszy
-      const comparison: {
-        scenarioId: string;
-        suite1: { passed: boolean; tokens: number; latencyMs: number } | null;
-        suite2: { passed: boolean; tokens: number; latencyMs: number } | null;
-        change: 'fixed' | 'regressed' | 'unchanged' | 'new' | 'removed';
-        tokensDiff?: number;
-        tokensDiffPercent?: number;
-      }[] = [];
-
-      const suite1Results = new Map(suite1.results.map((r) => [r.scenarioId, r]));
-      const suite2Results = new Map(suite2.results.map((r) => [r.scenarioId, r]));
-
-      // Scenariusze z obu suite'ów
-      const allScenarioIds = new Set([...suite1Results.keys(), ...suite2Results.keys()]);
-
-      for (const scenarioId of allScenarioIds) {
-        const r1 = suite1Results.get(scenarioId);
-        const r2 = suite2Results.get(scenarioId);
-
-        let change: 'fixed' | 'regressed' | 'unchanged' | 'new' | 'removed';
-        if (!r1 && r2) {
-          change = 'new';
-        } else if (r1 && !r2) {
-          change = 'removed';
-        } else if (r1 && r2) {
-          if (!r1.passed && r2.passed) {
-            change = 'fixed';
-          } else if (r1.passed && !r2.passed) {
-            change = 'regressed';
-          } else {
-            change = 'unchanged';
-          }
-        } else {
-          continue;
-        }
-
-        const tokensDiff = r1 && r2 ? r2.metrics.totalTokens - r1.metrics.totalTokens : undefined;
-        const tokensDiffPercent =
-          r1 && r2 && r1.metrics.totalTokens > 0
-            ? ((r2.metrics.totalTokens - r1.metrics.totalTokens) / r1.metrics.totalTokens) * 100
-            : undefined;
-
-        comparison.push({
-          scenarioId,
-          suite1: r1
-            ? { passed: r1.passed, tokens: r1.metrics.totalTokens, latencyMs: r1.metrics.latencyMs }
-            : null,
-          suite2: r2
-            ? { passed: r2.passed, tokens: r2.metrics.totalTokens, latencyMs: r2.metrics.latencyMs }
-            : null,
-          change,
-          tokensDiff,
-          tokensDiffPercent,
+      let result: ReturnType<typeof buildComparison>;
+      try {
+        result = buildComparison(resultsStore, suite1, suite2, {
+          history: history !== undefined ? parseInt(history) : undefined,
+          alpha: alpha !== undefined ? parseFloat(alpha) : undefined,
         });
+      } catch (error) {
+        return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
       }
 
       return reply.send({
@@ -179,15 +227,20 @@ export default async function resultsRoutes(
           id: suite1.id,
           createdAt: suite1.createdAt,
           tags: suite1.tags,
+          configHash: suite1.configHash,
           summary: suite1.summary,
         },
         suite2: {
           id: suite2.id,
           createdAt: suite2.createdAt,
           tags: suite2.tags,
+          configHash: suite2.configHash,
           summary: suite2.summary,
         },
-        comparison,
+        baselineSuiteIds: result.baselineSuiteIds,
+        candidateSuiteIds: result.candidateSuiteIds,
+        ...result.comparison,
+        configDiff: buildConfigDiff(resultsStore, suite1.id, suite2.id),
         totalTokensDiff: suite2.totalTokens - suite1.totalTokens,
         totalTokensDiffPercent:
           suite1.totalTokens > 0
@@ -197,6 +250,72 @@ export default async function resultsRoutes(
     }
   );
 
+  /**
+   * POST /api/suites/:id/compare/:otherId/gate - werdykt bramki regresji dla kandydata
+   *
+   * Zwraca verdict pass / warn / fail i listę naruszeń polityki - do automatycznego
+   * blokowania zmian promptu (np. w CI).
+   */
+  fastify.post<{
+    Params: { id: string; otherId: string };
+    Body: { policy?: GatePolicy; history?: number; alpha?: number };
+  }>(
+    '/suites/:id/compare/:otherId/gate',
+    async (request, reply) => {
+      const { id, otherId } = request.params;
+      const { policy, history, alpha } = request.body || {};
+
+      const suite1 = resultsStore.getSuiteRun(id);
+      const suite2 = resultsStore.getSuiteRun(otherId);
+
+      if (!suite1 || !suite2) {
+        return reply.status(404).send({ error: 'One or both suites not found' });
+      }
+
+      try {
+        const result = buildComparison(resultsStore, suite1, suite2, { history, alpha });
+        const gate = evaluateGate(result.comparison, policy);
+
+        return reply.send({
+          verdict: gate.verdict,
+          violations: gate.violations,
+          policy: gate.policy,
+          baselineSuiteIds: result.baselineSuiteIds,
+          candidateSuiteIds: result.candidateSuiteIds,
+          comparison: result.comparison,
+        });
+      } catch (error) {
+        return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  );
+
+  /**
+   * GET /api/failures/clusters - klastry nieudanych prób po sygnaturze błędu
+   *
+   * Query:
+   * - suiteIds: suite'y do analizy (po przecinku)
+   * - recent: bez suiteIds - ostatnie N suite'ów (domyślnie 10), opcjonalnie z `tags`
+   * - examples: limit przykładów na klaster (domyślnie 5)
+   */
+  fastify.get<{
+    Querystring: { suiteIds?: string; recent?: string; tags?: string; examples?: string };
+  }>('/failures/clusters', async (request, reply) => {
+    const { suiteIds, recent, tags, examples } = request.query;
+
+    const ids = suiteIds
+      ? suiteIds.split(',').filter(Boolean)
+      : resultsStore
+          .listSuiteRuns({ limit: recent ? parseInt(recent) : 10, tags: tags ? tags.split(',') : undefined })
+          .map((suite) => suite.id);
+
+    const report = clusterFailures(resultsStore.getFailureRecords(ids), {
+      maxExamples: examples ? parseInt(examples) : undefined,
+    });
+
+    return reply.send({ suiteIds: ids, ...report });
+  });
+
   /**
    * GET /api/trends/:scenarioId - historia scenariusza przez wszystkie suite'y
    */
@@ -216,20 +335,59 @@ export default async function resultsRoutes(
   );
 
   /**
-   * GET /api/suites/:id/export - eksportuj suite do JSON
+   * GET /api/suites/:id/export - eksportuj suite (domyślnie JSON)
+   *
+   * Query:
+   * - format: json | junit | tap | markdown | html (lub inny zarejestrowany reporter)
+   * - baseline: ID suite'a bazowego - delty tokenów w Markdown/HTML
+   * - dashboardUrl: adres dashboardu do linków (domyślnie EVAL_DASHBOARD_URL / localhost)
    */
-  fastify.get<{ Params: { id: string } }>('/suites/:id/export', async (request, reply) => {
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { format?: string; baseline?: string; dashboardUrl?: string };
+  }>('/suites/:id/export', async (request, reply) => {
     const { id } = request.params;
-    const exported = resultsStore.exportSuiteToJson(id);
+    const { format = 'json', baseline, dashboardUrl } = request.query;
+
+    if (format === 'json') {
+      const exported = resultsStore.exportSuiteToJson(id);
 
-    if (!exported) {
+      if (!exported) {
+        return reply.status(404).send({ error: 'Suite not found' });
+      }
+
+      return reply
+        .header('Content-Type', 'application/json')
+        .header('Content-Disposition', `attachment; filename="suite-${id.substring(0, 8)}.json"`)
+        .send(exported);
+    }
+
+    let formatter: ReportFormatter;
+    try {
+      formatter = getReportFormatter(format);
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const suite = resultsStore.getSuiteRun(id);
+    if (!suite) {
       return reply.status(404).send({ error: 'Suite not found' });
     }
+    if (baseline && !resultsStore.getSuiteRun(baseline)) {
+      return reply.status(404).send({ error: 'Baseline suite not found' });
+    }
+
+    const report = formatter.format({
+      suite: { id: suite.id, createdAt: suite.createdAt, label: suite.label, tags: suite.tags },
+      results: suite.results,
+      baseline: baseline ? { suiteId: baseline, results: resultsStore.getComparableResults([baseline]) } : undefined,
+      dashboardUrl: dashboardUrl || defaultDashboardUrl(),
+    });
 
     return reply
-      .header('Content-Type', 'application/json')
-      .header('Content-Disposition', `attachment; filename="suite-${id.substring(0, 8)}.json"`)
-      .send(exported);
+      .header('Content-Type', `${formatter.contentType}; charset=utf-8`)
+      .header('Content-Disposition', `attachment; filename="suite-${id.substring(0, 8)}.${formatter.extension}"`)
+      .send(report);
   });
 
   /**
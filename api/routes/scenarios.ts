@@ -4,138 +4,61 @@
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
 import path from 'path';
-import fs from 'fs';
 import { getTestRunnerService } from '../services/test-runner';
 import { getResultsStore } from '../services/results-store';
-import type { TestScenario, SystemPromptConfig, TransAgentPromptConfig, SubagentPromptConfig } from '../../agent-evals/types/scenario';
-
-// Ścieżka do głównego katalogu projektu (relatywna do __dirname)
-// testing/api/routes/ -> ../../../ -> główny katalog projektu
-const PROJECT_ROOT = path.resolve(__dirname, '../../..');
+import { getScenarioValidator, type ScenarioValidationReport } from '../services/scenario-validator';
+import { getScenarioStore, storedScenarioPath } from '../services/scenario-store';
+import {
+  SCENARIOS_DIR,
+  loadScenario,
+  listScenarioFiles,
+  listScenarioEntries,
+  findScenarioById,
+  selectScenarios,
+} from '../services/scenario-loader';
+import { generateExpectationsForResult } from '../services/expectation-service';
+import { isRubricJudgeType, RUBRIC_JUDGE_TYPES, type RubricJudgeType } from '../services/rubric-judge-service';
+import {
+  finalStateFromDataDiff,
+  parseFrameTolerance,
+  type FrameTolerance,
+} from '../../agent-evals/harness/expectation-generator';
+import type {
+  SystemPromptConfig,
+  TransAgentPromptConfig,
+  SubagentPromptConfig,
+  TestScenario,
+} from '../../agent-evals/types/scenario';
 
 // ============================================================================
 // HELPERS
 // ============================================================================
 
 /**
- * Rekursywnie przeszukuje katalog w poszukiwaniu plików .scenario.ts
+ * Walidacja scenariusza przed zapisem do store'a - schemat, fixtures, narzędzia
+ * oraz kolizje ze scenariuszami z plików (ID i ścieżka)
  */
-function findScenarioFilesRecursive(
-  dir: string,
-  relativePath: string = ''
-): { filePath: string; relativePath: string }[] {
-  const results: { filePath: string; relativePath: string }[] = [];
-
-  if (!fs.existsSync(dir)) return results;
-
-  const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name);
-    const entryRelativePath = relativePath
-      ? `${relativePath}/${entry.name}`
-      : entry.name;
-
-    if (entry.isDirectory()) {
-      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
-      results.push(...findScenarioFilesRecursive(fullPath, entryRelativePath));
-    } else if (entry.name.endsWith('.scenario.ts')) {
-      results.push({
-        filePath: fullPath,
-        relativePath: entryRelativePath.replace('.scenario.ts', ''),
+async function validateStoredScenario(scenario: TestScenario): Promise<ScenarioValidationReport> {
+  const file = typeof scenario?.agent === 'string' && typeof scenario?.id === 'string'
+    ? storedScenarioPath(scenario)
+    : '(store)';
+  const report = await getScenarioValidator().validateScenario(scenario, file);
+  if (!report.scenarioId) return report;
+
+  for (const entry of listScenarioFiles()) {
+    const fileScenario = await loadScenario(entry.path);
+    if (entry.path === file || fileScenario?.id === scenario.id) {
+      report.issues.push({
+        severity: 'error',
+        path: 'id',
+        message: `Scenario id '${scenario.id}' is already used by file ${entry.path}.scenario.ts`,
       });
+      report.valid = false;
+      break;
     }
   }
 
-  return results;
-}
-
-async function loadScenario(scenarioPath: string): Promise<TestScenario | null> {
-  const fullPath = path.join(
-    PROJECT_ROOT,
-    'testing/agent-evals/scenarios',
-    `${scenarioPath}.scenario.ts`
-  );
-
-  if (!fs.existsSync(fullPath)) {
-    return null;
-  }
-
-  try {
-    const module = await import(fullPath);
-    return module.scenario || module.default;
-  } catch {
-    return null;
-  }
-}
-
-async function loadScenariosForAgent(agentType: string): Promise<TestScenario[]> {
-  const indexPath = path.join(
-    PROJECT_ROOT,
-    'testing/agent-evals/scenarios',
-    agentType,
-    'index.ts'
-  );
-
-  if (!fs.existsSync(indexPath)) {
-    return [];
-  }
-
-  try {
-    const module = await import(indexPath);
-    if (Array.isArray(module.default)) {
-      return module.default;
-    }
-
-    const scenarios: TestScenario[] = [];
-    for (const value of Object.values(module)) {
-      if (
-        value &&
-        typeof value === 'object' &&
-        'id' in value &&
-        'name' in value &&
-        'agent' in value
-      ) {
-        scenarios.push(value as TestScenario);
-      }
-    }
-    return scenarios;
-  } catch {
-    return [];
-  }
-}
-
-function listScenarioFiles(): { agent: string; id: string; path: string }[] {
-  const scenariosDir = path.join(PROJECT_ROOT, 'testing/agent-evals/scenarios');
-  const results: { agent: string; id: string; path: string }[] = [];
-
-  if (!fs.existsSync(scenariosDir)) {
-    return results;
-  }
-
-  // Pobierz katalogi agentów (pierwszy poziom)
-  const agents = fs.readdirSync(scenariosDir).filter((f) => {
-    const stat = fs.statSync(path.join(scenariosDir, f));
-    return stat.isDirectory() && !f.startsWith('.');
-  });
-
-  // Dla każdego agenta szukaj scenariuszy rekursywnie
-  for (const agent of agents) {
-    const agentDir = path.join(scenariosDir, agent);
-    const scenarioFiles = findScenarioFilesRecursive(agentDir);
-
-    for (const file of scenarioFiles) {
-      // relativePath już nie zawiera .scenario.ts
-      const id = file.relativePath;
-      results.push({
-        agent,
-        id,
-        path: `${agent}/${id}`,
-      });
-    }
-  }
-
-  return results;
+  return report;
 }
 
 // ============================================================================
@@ -152,11 +75,11 @@ export default async function scenariosRoutes(
    * GET /api/scenarios - lista wszystkich scenariuszy
    */
   fastify.get('/scenarios', async (_request, reply) => {
-    const files = listScenarioFiles();
+    const entries = listScenarioEntries();
 
     // Załaduj metadane scenariuszy
     const scenarios = await Promise.all(
-      files.map(async (f) => {
+      entries.map(async (f) => {
         const scenario = await loadScenario(f.path);
         if (!scenario) {
           return {
@@ -164,6 +87,7 @@ export default async function scenariosRoutes(
             agent: f.agent,
             id: f.id,
             name: f.id,
+            source: f.source,
             available: false,
           };
         }
@@ -174,6 +98,7 @@ export default async function scenariosRoutes(
           name: scenario.name,
           description: scenario.description,
           tags: scenario.tags,
+          source: f.source,
           available: true,
         };
       })
@@ -182,6 +107,117 @@ export default async function scenariosRoutes(
     return reply.send(scenarios);
   });
 
+  /**
+   * POST /api/scenarios/validate - walidacja plików scenariuszy
+   * (schemat JSON, fixtures.db, dozwolone narzędzia agenta, regexy i wyrażenia)
+   *
+   * Body (opcjonalne): { agent?: string; paths?: string[] } - domyślnie wszystkie scenariusze
+   */
+  fastify.post<{
+    Body: { agent?: string; paths?: string[] };
+  }>('/scenarios/validate', async (request, reply) => {
+    const { agent, paths } = request.body || {};
+    const files = listScenarioFiles()
+      .filter((f) => !agent || f.agent === agent)
+      .filter((f) => !paths || paths.length === 0 || paths.includes(f.path))
+      .map((f) => ({
+        filePath: path.join(SCENARIOS_DIR, `${f.path}.scenario.ts`),
+        relativePath: f.path,
+      }));
+
+    if (files.length === 0) {
+      return reply.status(400).send({ error: 'No scenarios found' });
+    }
+
+    const summary = await getScenarioValidator().validateFiles(files);
+    return reply.send(summary);
+  });
+
+  /**
+   * GET /api/scenarios/store - scenariusze zapisane w ScenarioStore
+   */
+  fastify.get<{ Querystring: { agent?: string } }>('/scenarios/store', async (request, reply) => {
+    return reply.send(getScenarioStore().listScenarios({ agent: request.query.agent }));
+  });
+
+  /**
+   * GET /api/scenarios/store/:id - scenariusz ze store'a
+   */
+  fastify.get<{ Params: { id: string } }>('/scenarios/store/:id', async (request, reply) => {
+    const record = getScenarioStore().getScenario(request.params.id);
+
+    if (!record) {
+      return reply.status(404).send({ error: 'Stored scenario not found' });
+    }
+
+    return reply.send(record);
+  });
+
+  /**
+   * POST /api/scenarios/store/validate - walidacja scenariusza bez zapisu (edytor)
+   */
+  fastify.post<{ Body: { scenario: TestScenario } }>('/scenarios/store/validate', async (request, reply) => {
+    return reply.send(await validateStoredScenario(request.body?.scenario));
+  });
+
+  /**
+   * POST /api/scenarios/store - nowy scenariusz
+   *
+   * Body: { scenario: TestScenario } - zapis tylko przy poprawnej walidacji
+   * (błędy w `issues`, ostrzeżenia nie blokują zapisu)
+   */
+  fastify.post<{ Body: { scenario: TestScenario } }>('/scenarios/store', async (request, reply) => {
+    const { scenario } = request.body || {};
+    const validation = await validateStoredScenario(scenario);
+    if (!validation.valid) {
+      return reply.status(400).send({ error: 'Scenario is invalid', issues: validation.issues });
+    }
+
+    try {
+      const record = getScenarioStore().createScenario(scenario);
+      return reply.send({ ...record, issues: validation.issues });
+    } catch (error) {
+      return reply.status(409).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  /**
+   * PUT /api/scenarios/store/:id - nadpisanie scenariusza (ID bez zmian)
+   */
+  fastify.put<{ Params: { id: string }; Body: { scenario: TestScenario } }>(
+    '/scenarios/store/:id',
+    async (request, reply) => {
+      const { scenario } = request.body || {};
+      const validation = await validateStoredScenario(scenario);
+      if (!validation.valid) {
+        return reply.status(400).send({ error: 'Scenario is invalid', issues: validation.issues });
+      }
+
+      try {
+        const record = getScenarioStore().updateScenario(request.params.id, scenario);
+        if (!record) {
+          return reply.status(404).send({ error: 'Stored scenario not found' });
+        }
+        return reply.send({ ...record, issues: validation.issues });
+      } catch (error) {
+        return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/scenarios/store/:id - usunięcie scenariusza (wyniki w bazie zostają)
+   */
+  fastify.delete<{ Params: { id: string } }>('/scenarios/store/:id', async (request, reply) => {
+    const deleted = getScenarioStore().deleteScenario(request.params.id);
+
+    if (!deleted) {
+      return reply.status(404).send({ error: 'Stored scenario not found' });
+    }
+
+    return reply.send({ success: true });
+  });
+
   /**
    * GET /api/scenarios/:agent/* - szczegóły scenariusza (obsługuje podfoldery)
    * np. /api/scenarios/montage/move-blocks/move-later
@@ -219,6 +255,12 @@ export default async function scenariosRoutes(
       transAgentPrompts?: Record<string, TransAgentPromptConfig>;
       transAgentEnabledTools?: Record<string, string[]>;
       subagentPrompts?: Record<string, SubagentPromptConfig>;
+      /** Liczba powtórzeń każdego scenariusza (pass rate / pass@k) */
+      repetitions?: number;
+      /** Maks. liczba prób wykonywanych równolegle (ograniczona globalnym EVAL_MAX_CONCURRENCY) */
+      concurrency?: number;
+      /** Judge oczekiwań rubric: keyword (domyślnie) albo llm */
+      judge?: RubricJudgeType;
     };
   }>('/scenarios/run-suite', async (request, reply) => {
     const {
@@ -236,6 +278,9 @@ export default async function scenariosRoutes(
       transAgentPrompts,
       transAgentEnabledTools,
       subagentPrompts,
+      repetitions,
+      concurrency,
+      judge,
     } = request.body || {};
 
     // Diagnostyka - do usunięcia po zdiagnozowaniu problemu
@@ -245,92 +290,171 @@ export default async function scenariosRoutes(
       console.log('[API run-suite] systemPrompt.mode:', systemPrompt.mode);
     }
 
-    let scenarios: TestScenario[] = [];
+    const scenarios = await selectScenarios({ agent, scenarioIds, tags });
 
-    if (agent) {
-      scenarios = await loadScenariosForAgent(agent);
-    } else if (scenarioIds && scenarioIds.length > 0) {
-      for (const id of scenarioIds) {
-        const scenario = await loadScenario(id);
-        if (scenario) {
-          scenarios.push(scenario);
-        }
-      }
+    if (scenarios.length === 0) {
+      return reply.status(400).send({ error: 'No scenarios found' });
     }
 
-    // Filtruj po tagach
-    if (tags && tags.length > 0) {
-      scenarios = scenarios.filter((s) => s.tags?.some((t) => tags.includes(t)));
+    if (repetitions !== undefined && (!Number.isInteger(repetitions) || repetitions < 1)) {
+      return reply.status(400).send({ error: 'repetitions must be a positive integer' });
     }
 
-    if (scenarios.length === 0) {
-      return reply.status(400).send({ error: 'No scenarios found' });
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      return reply.status(400).send({ error: 'concurrency must be a positive integer' });
     }
 
-    // Generuj jobId przed utworzeniem suite
-    const jobId = `test-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-
-    // Najpierw utwórz suite w bazie (status: running)
-    const resultsStore = getResultsStore();
-    const scenarioNames: Record<string, string> = {};
-    for (const s of scenarios) {
-      scenarioNames[s.id] = s.name;
+    if (judge !== undefined && !isRubricJudgeType(judge)) {
+      return reply.status(400).send({ error: `judge must be one of: ${RUBRIC_JUDGE_TYPES.join(', ')}` });
     }
-    const suiteRun = resultsStore.createSuiteRun({
-      jobId,
-      scenarioIds: scenarios.map((s) => s.id),
-      scenarioNames,
-      tags: ['api-triggered'],
-      label: scenarios.length === 1
-        ? `Single: ${scenarios[0].name}`
-        : `Suite: ${scenarios.length} scenarios`,
-      configSnapshot: {
-        model,
-        thinkingMode,
-        enabledTools,
-        disabledTools,
-        systemPromptSource: systemPrompt
-          ? (systemPrompt.raw ? 'custom-raw' : 'custom-file')
-          : 'default',
-        systemPromptMode: systemPrompt?.mode,
-        systemPromptRaw: systemPrompt?.raw,
-        toolDescriptions,
-        toolParameterDescriptions,
-        transAgentPrompts,
-        transAgentEnabledTools,
-        subagentPrompts,
-      },
-    });
 
-    // Enqueue test z suiteId i jobId
-    await testRunner.enqueueTest(
-      scenarios,
-      {
-        verbose,
-        systemPrompt,
-        model,
-        thinkingMode,
-        enabledTools,
-        disabledTools,
-        toolDescriptions,
-        toolParameterDescriptions,
-        transAgentPrompts,
-        transAgentEnabledTools,
-        subagentPrompts,
-      },
-      suiteRun.id,
-      jobId
-    );
+    const { jobId, suiteId } = await testRunner.startSuite(scenarios, {
+      verbose,
+      systemPrompt,
+      model,
+      thinkingMode,
+      enabledTools,
+      disabledTools,
+      toolDescriptions,
+      toolParameterDescriptions,
+      transAgentPrompts,
+      transAgentEnabledTools,
+      subagentPrompts,
+      repetitions,
+      concurrency,
+      judge,
+    });
 
     return reply.send({
       jobId,
-      suiteId: suiteRun.id,
+      suiteId,
       scenarioCount: scenarios.length,
       scenarioIds: scenarios.map((s) => s.id),
+      repetitions: repetitions || 1,
+      concurrency: concurrency || 1,
       message: 'Suite enqueued',
     });
   });
 
+  /**
+   * POST /api/suites/:id/scenarios/:scenarioId/reevaluate - ponowna ocena zapisanego wyniku
+   *
+   * Odtwarza nagrany przebieg z bazy na aktualnej definicji scenariusza
+   * (bez modelu). Z `?save=true` nowy wynik nadpisuje zapisany, `?trial=N` wybiera próbę.
+   */
+  fastify.post<{
+    Params: { id: string; scenarioId: string };
+    Querystring: { save?: string; trial?: string };
+  }>('/suites/:id/scenarios/:scenarioId/reevaluate', async (request, reply) => {
+    const { id, scenarioId } = request.params;
+    const save = request.query.save === 'true';
+    const trial = request.query.trial ? parseInt(request.query.trial) : undefined;
+
+    const resultsStore = getResultsStore();
+    const storedResult = resultsStore.getScenarioResult(id, scenarioId, trial);
+    if (!storedResult) {
+      return reply.status(404).send({ error: 'Scenario result not found' });
+    }
+    if (!storedResult.messages || storedResult.messages.length === 0) {
+      return reply.status(400).send({ error: 'Stored result has no recorded messages to replay' });
+    }
+
+    const scenario = await findScenarioById(scenarioId);
+    if (!scenario) {
+      return reply.status(404).send({ error: 'Scenario definition not found' });
+    }
+
+    try {
+      const result = await testRunner.reevaluateResult(scenario, storedResult, id);
+      if (save) {
+        resultsStore.saveScenarioResult(id, result);
+      }
+
+      return reply.send({
+        suiteId: id,
+        scenarioId,
+        previousPassed: storedResult.passed,
+        passed: result.passed,
+        saved: save,
+        result,
+      });
+    } catch (error) {
+      return reply.status(500).send({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  /**
+   * GET /api/suites/:id/scenarios/:scenarioId/final-state - oczekiwania finalState
+   * z DataDiff zapisanego wyniku ("promocja" poprawnego przebiegu do scenariusza)
+   */
+  fastify.get<{
+    Params: { id: string; scenarioId: string };
+    Querystring: { trial?: string };
+  }>('/suites/:id/scenarios/:scenarioId/final-state', async (request, reply) => {
+    const { id, scenarioId } = request.params;
+    const trial = request.query.trial ? parseInt(request.query.trial) : undefined;
+
+    const storedResult = getResultsStore().getScenarioResult(id, scenarioId, trial);
+    if (!storedResult) {
+      return reply.status(404).send({ error: 'Scenario result not found' });
+    }
+    if (!storedResult.dataDiff) {
+      return reply.status(400).send({ error: 'Stored result has no DataDiff' });
+    }
+
+    return reply.send({
+      suiteId: id,
+      scenarioId,
+      trial: storedResult.trial,
+      finalState: finalStateFromDataDiff(storedResult.dataDiff),
+    });
+  });
+
+  /**
+   * GET /api/suites/:id/scenarios/:scenarioId/expectations - zestaw oczekiwań z wyniku:
+   * finalState z tolerancją klatek, `unchanged` z fixtures, required / optional / forbidden
+   *
+   * Query: trial, tolerance (exact | <N>f | <N>%), forbidden=false - bez listy forbidden
+   */
+  fastify.get<{
+    Params: { id: string; scenarioId: string };
+    Querystring: { trial?: string; tolerance?: string; forbidden?: string };
+  }>('/suites/:id/scenarios/:scenarioId/expectations', async (request, reply) => {
+    const { id, scenarioId } = request.params;
+    const { tolerance: toleranceSpec, forbidden } = request.query;
+    const trial = request.query.trial ? parseInt(request.query.trial) : undefined;
+
+    let tolerance: FrameTolerance;
+    try {
+      tolerance = parseFrameTolerance(toleranceSpec ?? 'exact');
+    } catch (error) {
+      return reply.status(400).send({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    const storedResult = getResultsStore().getScenarioResult(id, scenarioId, trial);
+    if (!storedResult) {
+      return reply.status(404).send({ error: 'Scenario result not found' });
+    }
+    if (!storedResult.dataDiff) {
+      return reply.status(400).send({ error: 'Stored result has no DataDiff' });
+    }
+
+    const generated = await generateExpectationsForResult(storedResult, {
+      tolerance,
+      forbidUnused: forbidden !== 'false',
+    });
+
+    return reply.send({
+      suiteId: id,
+      scenarioId,
+      trial: generated.trial,
+      expectations: generated.expectations,
+      warnings: generated.warnings,
+    });
+  });
+
   /**
    * GET /api/jobs/:jobId - status joba
    */
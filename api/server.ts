@@ -7,6 +7,7 @@ import cors from '@fastify/cors';
 import websocket from '@fastify/websocket';
 import { createRedisConnection, closeRedisConnection } from './config/redis';
 import { getTestRunnerService } from './services/test-runner';
+import { getRenderJobStore } from './services/render-job-store';
 import scenariosRoutes from './routes/scenarios';
 import resultsRoutes from './routes/results';
 import streamRoutes from './routes/stream';
@@ -16,6 +17,8 @@ import claudeVisionRoutes from './routes/claude-vision';
 import renderRoutes from './routes/render';
 import compositionTestsRoutes from './routes/composition-tests';
 import transcriptionEvalsRoutes from './routes/transcription-evals';
+import experimentsRoutes from './routes/experiments';
+import optimizationsRoutes from './routes/optimizations';
 
 const PORT = parseInt(process.env.EVAL_API_PORT || '3100');
 const HOST = process.env.EVAL_API_HOST || '0.0.0.0';
@@ -58,6 +61,8 @@ async function start(): Promise<void> {
   await fastify.register(renderRoutes, { prefix: '/api' });
   await fastify.register(compositionTestsRoutes, { prefix: '/api' });
   await fastify.register(transcriptionEvalsRoutes, { prefix: '/api' });
+  await fastify.register(experimentsRoutes, { prefix: '/api' });
+  await fastify.register(optimizationsRoutes, { prefix: '/api' });
 
   // Health check
   fastify.get('/health', async () => ({ status: 'ok', timestamp: new Date().toISOString() }));
@@ -70,6 +75,8 @@ async function start(): Promise<void> {
       scenarios: '/api/scenarios',
       tools: '/api/tools',
       suites: '/api/suites',
+      experiments: '/api/experiments',
+      optimizations: '/api/optimizations',
       jobs: '/api/jobs/:jobId',
       stream: '/api/stream/:jobId (WebSocket)',
       fixtures: '/api/fixtures/projects',
@@ -79,6 +86,12 @@ async function start(): Promise<void> {
     },
   }));
 
+  // Joby renderowania przerwane zamknięciem poprzedniego procesu serwera
+  const interruptedRenders = getRenderJobStore().failInterruptedJobs();
+  if (interruptedRenders > 0) {
+    console.log(`[API] Marked ${interruptedRenders} interrupted render job(s) as error`);
+  }
+
   // Startuj test runner worker
   console.log('[API] Starting test runner worker...');
   const testRunner = getTestRunnerService();
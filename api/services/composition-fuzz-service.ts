@@ -0,0 +1,252 @@
+/**
+ * Composition Fuzz Service - renderowanie losowych wariantów props kompozycji
+ *
+ * Dla każdej definicji: pola props ze schematu, przypadki z wartościami
+ * skrajnymi (composition-tests/fuzz), render puppeteer (headless) i sprawdzenia
+ * klatek. Nieudane przypadki są minimalizowane (shrinking) i zapisywane do
+ * composition-tests/fuzz-failures jako zwykłe fixtures.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { builtinCompositionDefinitions } from '../../../desktop-app/shared/builtins/compositions/index';
+import { compositionTestService } from './composition-test-service';
+import { decodeVideoFrames } from './ffmpeg-frames';
+import { animationEndFrame } from '../../composition-tests/golden-frames';
+import {
+  checkRenderedFrames,
+  extractPropFields,
+  generateFuzzCases,
+  shrinkFixture,
+  type FuzzableDefinition,
+} from '../../composition-tests/fuzz';
+import { listSavedFuzzFailures, saveFuzzFailure } from '../../composition-tests/fixtures/fuzzFailures';
+import type {
+  CompositionFuzzSession,
+  CompositionTestFixture,
+  FuzzCaseResult,
+  FuzzCheckFailure,
+  FuzzFailureKind,
+  SavedFuzzFailure,
+} from '../../composition-tests/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FuzzSessionOptions {
+  definitionId?: string;
+  seed?: number;
+  /** Losowe przypadki na definicję (poza pokryciem enumów) */
+  randomCases?: number;
+  /** Minimalizuj nieudane przypadki przed zapisem (domyślnie true) */
+  shrink?: boolean;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const DEFAULT_RANDOM_CASES = 20;
+
+// Dłuższy bok klatek do sprawdzeń - wystarcza do wykrycia pustych kadrów i krawędzi
+const CHECK_FRAME_SIZE = 160;
+
+function checkFrameSize(fixture: CompositionTestFixture): { width: number; height: number } {
+  const scale = CHECK_FRAME_SIZE / Math.max(fixture.width, fixture.height);
+  const even = (value: number) => Math.max(2, Math.round((value * scale) / 2) * 2);
+  return { width: even(fixture.width), height: even(fixture.height) };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class CompositionFuzzService {
+  private sessions: Map<string, CompositionFuzzSession> = new Map();
+
+  // ==========================================================================
+  // SESSIONS
+  // ==========================================================================
+
+  /**
+   * Uruchamia sesję fuzzingu w tle i zwraca ją w stanie `running`
+   */
+  startSession(options: FuzzSessionOptions = {}): CompositionFuzzSession {
+    const definitions = (builtinCompositionDefinitions as unknown as FuzzableDefinition[])
+      .filter(d => !options.definitionId || d.id === options.definitionId);
+    if (definitions.length === 0) {
+      throw new Error(`Composition definition not found: ${options.definitionId}`);
+    }
+
+    const session: CompositionFuzzSession = {
+      sessionId: uuidv4(),
+      definitionIds: definitions.map(d => d.id),
+      seed: options.seed ?? Math.floor(Math.random() * 1_000_000),
+      status: 'running',
+      totalCases: 0,
+      completedCases: 0,
+      cases: [],
+      startedAt: new Date().toISOString(),
+    };
+    this.sessions.set(session.sessionId, session);
+
+    this.executeSession(session, definitions, options).catch((error) => {
+      session.status = 'error';
+      session.error = error instanceof Error ? error.message : String(error);
+      session.completedAt = new Date().toISOString();
+      console.error(`[CompositionFuzzService] Session ${session.sessionId} error:`, error);
+    });
+
+    return session;
+  }
+
+  getSession(sessionId: string): CompositionFuzzSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  listSessions(): CompositionFuzzSession[] {
+    return Array.from(this.sessions.values()).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  getSavedFailures(): SavedFuzzFailure[] {
+    return listSavedFuzzFailures();
+  }
+
+  // ==========================================================================
+  // EXECUTE
+  // ==========================================================================
+
+  private async executeSession(
+    session: CompositionFuzzSession,
+    definitions: FuzzableDefinition[],
+    options: FuzzSessionOptions
+  ): Promise<void> {
+    const plans = definitions.map(definition => {
+      const knownProps = [
+        ...(definition.examples ?? []).map(e => e.props),
+        ...compositionTestService.getFixturesByDefinition(definition.id).map(f => f.props),
+      ];
+      const fields = extractPropFields(definition, knownProps);
+      const cases = generateFuzzCases(definition, fields, {
+        seed: session.seed,
+        randomCases: options.randomCases ?? DEFAULT_RANDOM_CASES,
+      });
+      return { definition, cases };
+    });
+
+    // +1 na definicję: przebieg bazowego przykładu
+    session.totalCases = plans.reduce((sum, p) => sum + p.cases.length + 1, 0);
+
+    for (const { definition, cases } of plans) {
+      if (cases.length === 0) {
+        session.completedCases++;
+        continue;
+      }
+
+      // Błędy, które ma już bazowy przykład, nie są winą fuzzowanych props
+      const base = cases[0].base;
+      const baseFailures = await this.runCase(base);
+      const ignoredKinds = new Set<FuzzFailureKind>(baseFailures.map(f => f.kind));
+      session.cases.push({
+        fixtureId: base.id,
+        compositionDefinitionId: definition.id,
+        mutatedProps: [],
+        status: baseFailures.length > 0 ? 'failed' : 'passed',
+        failures: baseFailures,
+      });
+      session.completedCases++;
+
+      for (const fuzzCase of cases) {
+        const failures = (await this.runCase(fuzzCase.fixture)).filter(f => !ignoredKinds.has(f.kind));
+        const result: FuzzCaseResult = {
+          fixtureId: fuzzCase.fixture.id,
+          compositionDefinitionId: definition.id,
+          mutatedProps: fuzzCase.mutatedProps,
+          status: failures.length > 0 ? 'failed' : 'passed',
+          failures,
+        };
+
+        if (failures.length > 0) {
+          const saved = await this.minimizeAndSave(fuzzCase.fixture, base, failures, ignoredKinds, session.seed, options.shrink !== false);
+          result.savedPath = saved.path;
+          result.shrinkAttempts = saved.attempts;
+          result.failures = saved.failures;
+        }
+
+        session.cases.push(result);
+        session.completedCases++;
+      }
+    }
+
+    session.status = 'completed';
+    session.completedAt = new Date().toISOString();
+    const failed = session.cases.filter(c => c.status === 'failed').length;
+    console.log(`[CompositionFuzzService] Session ${session.sessionId} completed: ${failed}/${session.cases.length} failed`);
+  }
+
+  private async minimizeAndSave(
+    fixture: CompositionTestFixture,
+    base: CompositionTestFixture,
+    failures: FuzzCheckFailure[],
+    ignoredKinds: Set<FuzzFailureKind>,
+    seed: number,
+    shrink: boolean
+  ): Promise<{ path: string; attempts: number; failures: FuzzCheckFailure[] }> {
+    let minimal = fixture;
+    let minimalFailures = failures;
+    let attempts = 0;
+
+    if (shrink) {
+      const kind = failures[0].kind;
+      const result = await shrinkFixture(fixture, base, async (candidate) => {
+        const candidateFailures = (await this.runCase({ ...candidate, id: `${fixture.id}-shrink` }))
+          .filter(f => !ignoredKinds.has(f.kind));
+        if (candidateFailures.some(f => f.kind === kind)) {
+          minimalFailures = candidateFailures;
+          return true;
+        }
+        return false;
+      });
+      minimal = result.fixture;
+      attempts = result.attempts;
+    }
+
+    const path = saveFuzzFailure({
+      fixture: {
+        ...minimal,
+        id: fixture.id,
+        tags: ['fuzz', ...new Set(minimalFailures.map(f => f.kind))],
+      },
+      failures: minimalFailures,
+      seed,
+      foundAt: new Date().toISOString(),
+    });
+    console.log(`[CompositionFuzzService] Saved failing case ${fixture.id} (${attempts} shrink attempts): ${path}`);
+
+    return { path, attempts, failures: minimalFailures };
+  }
+
+  /**
+   * Renderuje przypadek (puppeteer), sprawdza klatki i usuwa plik renderu
+   */
+  private async runCase(fixture: CompositionTestFixture): Promise<FuzzCheckFailure[]> {
+    const job = await compositionTestService.renderFixture(fixture, 'puppeteer');
+    await compositionTestService.waitForJob(job.jobId);
+    const finished = compositionTestService.getJob(job.jobId);
+
+    if (finished?.status !== 'completed' || !finished.outputPath) {
+      return [{ kind: 'crash', message: finished?.error ?? 'Render job lost' }];
+    }
+
+    try {
+      const { width, height } = checkFrameSize(fixture);
+      const frames = await decodeVideoFrames(finished.outputPath, width, height);
+      return checkRenderedFrames(frames, animationEndFrame(fixture) ?? 0);
+    } finally {
+      compositionTestService.deleteRender(fixture.id, 'puppeteer');
+    }
+  }
+}
+
+// Singleton
+export const compositionFuzzService = new CompositionFuzzService();
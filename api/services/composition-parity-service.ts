@@ -0,0 +1,200 @@
+/**
+ * Composition Parity Service - ten sam fixture renderowany przez remotion i puppeteer
+ *
+ * Przebieg: render obu silników (kolejka - jeden przebieg naraz), ffprobe obu
+ * plików, dekodowanie klatek w niskiej rozdzielczości i raport parity
+ * (composition-tests/parity.ts). Każdy etap zapisywany w CompositionParityStore.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { compositionTestService } from './composition-test-service';
+import { getCompositionParityStore, type CompositionParityStore } from './composition-parity-store';
+import { decodeVideoFrames, probeVideo } from './ffmpeg-frames';
+import { analyzeParity } from '../../composition-tests/parity';
+import type {
+  CompositionParityRun,
+  CompositionTestFixture,
+  ParityEngineRender,
+  RenderEngine,
+} from '../../composition-tests/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ParityMatrixRow {
+  fixtureId: string;
+  compositionDefinitionId: string;
+  variantName: string;
+  latestRun?: CompositionParityRun;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const PARITY_ENGINES: RenderEngine[] = ['remotion', 'puppeteer'];
+
+// Szerokość klatek do porównania - wystarcza dla SSIM, a cały render mieści się w pamięci
+const COMPARE_WIDTH = 192;
+
+function compareSize(fixture: CompositionTestFixture): { width: number; height: number } {
+  const height = Math.max(2, Math.round((COMPARE_WIDTH * fixture.height) / fixture.width / 2) * 2);
+  return { width: COMPARE_WIDTH, height };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class CompositionParityService {
+  private queue: Promise<void> = Promise.resolve();
+  private parityStore: CompositionParityStore | null = null;
+
+  /**
+   * Store otwierany przy pierwszym użyciu - przebiegi sprzed restartu oznacza jako przerwane
+   */
+  private get store(): CompositionParityStore {
+    if (!this.parityStore) {
+      this.parityStore = getCompositionParityStore();
+      const interrupted = this.parityStore.failInterruptedRuns();
+      if (interrupted > 0) {
+        console.log(`[CompositionParityService] Marked ${interrupted} interrupted parity run(s) as error`);
+      }
+    }
+    return this.parityStore;
+  }
+
+  // ==========================================================================
+  // START
+  // ==========================================================================
+
+  /**
+   * Dodaje przebieg parity do kolejki i zwraca go w stanie `pending`
+   */
+  startRun(fixtureId: string): CompositionParityRun {
+    const fixture = compositionTestService.getFixture(fixtureId);
+    if (!fixture) {
+      throw new Error(`Fixture not found: ${fixtureId}`);
+    }
+
+    const run = this.store.createRun({
+      runId: uuidv4(),
+      fixtureId,
+      compositionDefinitionId: fixture.compositionDefinitionId,
+      status: 'pending',
+      renders: PARITY_ENGINES.map(engine => ({ engine, status: 'pending' })),
+      createdAt: new Date().toISOString(),
+    });
+
+    this.queue = this.queue.then(() =>
+      this.executeRun(run.runId, fixture).catch((error) => {
+        console.error(`[CompositionParityService] Parity run ${run.runId} error:`, error);
+        this.store.updateRun(run.runId, {
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date().toISOString(),
+        });
+      })
+    );
+
+    return run;
+  }
+
+  /**
+   * Przebiegi dla wszystkich fixtures (opcjonalnie jednej kompozycji)
+   */
+  startBatch(definitionId?: string): CompositionParityRun[] {
+    const fixtures = definitionId
+      ? compositionTestService.getFixturesByDefinition(definitionId)
+      : compositionTestService.getFixtures();
+    return fixtures.map(f => this.startRun(f.id));
+  }
+
+  // ==========================================================================
+  // EXECUTE
+  // ==========================================================================
+
+  private async executeRun(runId: string, fixture: CompositionTestFixture): Promise<void> {
+    console.log(`[CompositionParityService] Starting parity run ${runId} for ${fixture.id}`);
+    const renders: ParityEngineRender[] = PARITY_ENGINES.map(engine => ({ engine, status: 'pending' }));
+    this.store.updateRun(runId, { status: 'rendering', renders });
+
+    // Silniki po kolei - oba renderują do własnych katalogów, ale dzielą CPU
+    for (const render of renders) {
+      render.status = 'rendering';
+      this.store.updateRun(runId, { renders });
+
+      const job = await compositionTestService.renderComposition(fixture.id, render.engine);
+      await compositionTestService.waitForJob(job.jobId);
+      const finished = compositionTestService.getJob(job.jobId);
+
+      if (finished?.status === 'completed' && finished.outputPath) {
+        render.status = 'completed';
+        render.renderDurationMs = finished.renderDurationMs;
+        render.outputPath = finished.outputPath;
+        render.video = await probeVideo(finished.outputPath);
+      } else {
+        render.status = 'error';
+        render.error = finished?.error ?? 'Render job lost';
+      }
+      this.store.updateRun(runId, { renders });
+    }
+
+    const failed = renders.filter(r => r.status === 'error');
+    if (failed.length > 0) {
+      this.store.updateRun(runId, {
+        status: 'error',
+        error: failed.map(r => `${r.engine}: ${r.error}`).join('; '),
+        completedAt: new Date().toISOString(),
+      });
+      return;
+    }
+
+    this.store.updateRun(runId, { status: 'analyzing' });
+
+    const [remotion, puppeteer] = renders;
+    const { width, height } = compareSize(fixture);
+    const remotionFrames = await decodeVideoFrames(remotion.outputPath!, width, height);
+    const puppeteerFrames = await decodeVideoFrames(puppeteer.outputPath!, width, height);
+    const report = analyzeParity(remotionFrames, puppeteerFrames, remotion.video!, puppeteer.video!);
+
+    this.store.updateRun(runId, {
+      status: 'completed',
+      report,
+      completedAt: new Date().toISOString(),
+    });
+    console.log(
+      `[CompositionParityService] Parity run ${runId} for ${fixture.id}: ` +
+      `${report.diverged ? 'DIVERGED' : 'ok'} (mean SSIM ${report.meanSsim.toFixed(4)}, offset ${report.frameOffset})`
+    );
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  getRun(runId: string): CompositionParityRun | null {
+    return this.store.getRun(runId);
+  }
+
+  listRuns(options?: { fixtureId?: string; limit?: number }): CompositionParityRun[] {
+    return this.store.listRuns(options);
+  }
+
+  /**
+   * Wszystkie fixtures z najnowszym przebiegiem parity
+   */
+  getMatrix(): ParityMatrixRow[] {
+    const latest = new Map(this.store.getLatestRuns().map(run => [run.fixtureId, run]));
+    return compositionTestService.getFixtures().map(fixture => ({
+      fixtureId: fixture.id,
+      compositionDefinitionId: fixture.compositionDefinitionId,
+      variantName: fixture.variantName,
+      latestRun: latest.get(fixture.id),
+    }));
+  }
+}
+
+// Singleton
+export const compositionParityService = new CompositionParityService();
@@ -0,0 +1,180 @@
+/**
+ * Composition Parity Store - przebiegi parity remotion vs puppeteer (SQLite)
+ *
+ * Stan przebiegu jest zapisywany na każdym etapie, więc historia i ostatni
+ * wynik per fixture przeżywają restart serwera (joby renderowania, na które
+ * czeka przebieg, są w render-job-store).
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type {
+  CompositionParityReport,
+  CompositionParityRun,
+  ParityEngineRender,
+} from '../../composition-tests/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ParityRunRow {
+  id: string;
+  fixture_id: string;
+  definition_id: string;
+  status: CompositionParityRun['status'];
+  diverged: number | null;
+  renders: string;
+  report: string | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type ParityRunUpdate = Partial<Pick<CompositionParityRun, 'status' | 'renders' | 'report' | 'error' | 'completedAt'>>;
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS composition_parity_runs (
+  id TEXT PRIMARY KEY,
+  fixture_id TEXT NOT NULL,
+  definition_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  diverged INTEGER,
+  renders TEXT NOT NULL,
+  report TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_parity_runs_fixture ON composition_parity_runs(fixture_id, created_at);
+`;
+
+function rowToRun(row: ParityRunRow): CompositionParityRun {
+  return {
+    runId: row.id,
+    fixtureId: row.fixture_id,
+    compositionDefinitionId: row.definition_id,
+    status: row.status,
+    renders: JSON.parse(row.renders) as ParityEngineRender[],
+    report: row.report ? (JSON.parse(row.report) as CompositionParityReport) : undefined,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class CompositionParityStore {
+  private db: Database.Database;
+
+  constructor(dbPath?: string) {
+    const baseDir = path.join(__dirname, '../../agent-evals/results');
+    if (!fs.existsSync(baseDir)) {
+      fs.mkdirSync(baseDir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath || path.join(baseDir, 'composition-parity.db'));
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  createRun(run: CompositionParityRun): CompositionParityRun {
+    this.db.prepare(`
+      INSERT INTO composition_parity_runs (id, fixture_id, definition_id, status, diverged, renders, report, error, created_at, completed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      run.runId,
+      run.fixtureId,
+      run.compositionDefinitionId,
+      run.status,
+      run.report ? Number(run.report.diverged) : null,
+      JSON.stringify(run.renders),
+      run.report ? JSON.stringify(run.report) : null,
+      run.error ?? null,
+      run.createdAt,
+      run.completedAt ?? null
+    );
+    return run;
+  }
+
+  updateRun(runId: string, update: ParityRunUpdate): CompositionParityRun | null {
+    const current = this.getRun(runId);
+    if (!current) return null;
+
+    const next: CompositionParityRun = { ...current, ...update };
+    this.db.prepare(`
+      UPDATE composition_parity_runs
+      SET status = ?, diverged = ?, renders = ?, report = ?, error = ?, completed_at = ?
+      WHERE id = ?
+    `).run(
+      next.status,
+      next.report ? Number(next.report.diverged) : null,
+      JSON.stringify(next.renders),
+      next.report ? JSON.stringify(next.report) : null,
+      next.error ?? null,
+      next.completedAt ?? null,
+      runId
+    );
+    return next;
+  }
+
+  getRun(runId: string): CompositionParityRun | null {
+    const row = this.db.prepare('SELECT * FROM composition_parity_runs WHERE id = ?').get(runId) as ParityRunRow | undefined;
+    return row ? rowToRun(row) : null;
+  }
+
+  listRuns(options?: { fixtureId?: string; limit?: number }): CompositionParityRun[] {
+    const limit = options?.limit ?? 50;
+    const rows = options?.fixtureId
+      ? this.db.prepare('SELECT * FROM composition_parity_runs WHERE fixture_id = ? ORDER BY created_at DESC LIMIT ?')
+        .all(options.fixtureId, limit)
+      : this.db.prepare('SELECT * FROM composition_parity_runs ORDER BY created_at DESC LIMIT ?').all(limit);
+    return (rows as ParityRunRow[]).map(rowToRun);
+  }
+
+  /**
+   * Najnowszy przebieg każdego fixture'a (macierz fixture x silnik)
+   */
+  getLatestRuns(): CompositionParityRun[] {
+    const rows = this.db.prepare(`
+      SELECT r.* FROM composition_parity_runs r
+      WHERE r.created_at = (
+        SELECT MAX(created_at) FROM composition_parity_runs WHERE fixture_id = r.fixture_id
+      )
+      ORDER BY r.fixture_id
+    `).all() as ParityRunRow[];
+    return rows.map(rowToRun);
+  }
+
+  /**
+   * Przebiegi przerwane restartem serwera - oznacza je jako błąd
+   *
+   * @returns liczba oznaczonych przebiegów
+   */
+  failInterruptedRuns(): number {
+    return this.db.prepare(`
+      UPDATE composition_parity_runs
+      SET status = 'error', error = 'Interrupted by server restart', completed_at = ?
+      WHERE status IN ('pending', 'rendering', 'analyzing')
+    `).run(new Date().toISOString()).changes;
+  }
+}
+
+// Singleton
+let instance: CompositionParityStore | null = null;
+
+export function getCompositionParityStore(): CompositionParityStore {
+  if (!instance) {
+    instance = new CompositionParityStore();
+  }
+  return instance;
+}
@@ -17,6 +17,9 @@ import type { Block, Project, Chapter, Timeline, ProjectExportConfig } from '../
 import type { ChapterProgressCallback } from '../../../desktop-app/electron/services/RemotionExportService';
 import type { CompositionTestFixture, CompositionRenderJob, CompositionBatchJob, RenderEngine } from '../../composition-tests/types';
 import { getAllFixtures, getFixtureById, getFixturesByDefinitionId } from '../../composition-tests/fixtures';
+import { getRenderJobStore, type RenderJobRecord, type RenderJobStore } from './render-job-store';
+import { renderQueue } from './render-queue';
+import { probeVideo } from './ffmpeg-frames';
 
 // Inicjalizuj ścieżkę root projektu
 const PROJECT_ROOT = path.resolve(__dirname, '../../../desktop-app');
@@ -33,8 +36,30 @@ const RENDERS_PUPPETEER_DIR = path.resolve(__dirname, '../../agent-evals/results
 // SERVICE
 // ============================================================================
 
+function toCompositionJob(record: RenderJobRecord): CompositionRenderJob {
+  return {
+    jobId: record.jobId,
+    fixtureId: record.fixtureId ?? '',
+    compositionDefinitionId: record.compositionDefinitionId ?? '',
+    variantName: record.variantName ?? '',
+    status: record.status,
+    progress: record.progress,
+    outputPath: record.outputPath,
+    error: record.error,
+    renderDurationMs: record.renderDurationMs,
+    startedAt: record.startedAt,
+    renderStartedAt: record.renderStartedAt,
+    completedAt: record.completedAt,
+    engine: record.engine,
+    useBackgroundVideo: record.params?.useBackgroundVideo as boolean | undefined,
+    output: record.output,
+    outputDeletedAt: record.outputDeletedAt,
+    attempt: record.attempt,
+    retryOf: record.retryOf,
+  };
+}
+
 class CompositionTestService extends EventEmitter {
-  private jobs: Map<string, CompositionRenderJob> = new Map();
   private batches: Map<string, CompositionBatchJob> = new Map();
 
   constructor() {
@@ -45,6 +70,12 @@ class CompositionTestService extends EventEmitter {
     if (!fs.existsSync(RENDERS_PUPPETEER_DIR)) {
       fs.mkdirSync(RENDERS_PUPPETEER_DIR, { recursive: true });
     }
+    renderQueue.registerOutputDir(RENDERS_OUTPUT_DIR);
+    renderQueue.registerOutputDir(RENDERS_PUPPETEER_DIR);
+  }
+
+  private get store(): RenderJobStore {
+    return getRenderJobStore();
   }
 
   // ==========================================================================
@@ -162,48 +193,110 @@ class CompositionTestService extends EventEmitter {
       throw new Error(`Fixture not found: ${fixtureId}`);
     }
 
+    return this.renderFixture(fixture, engine, useBackgroundVideo, debug);
+  }
+
+  /**
+   * Renderuje fixture spoza rejestru (np. przypadek z fuzzingu) - plik `${fixture.id}.mp4`
+   */
+  async renderFixture(
+    fixture: CompositionTestFixture,
+    engine: RenderEngine = 'remotion',
+    useBackgroundVideo?: boolean,
+    debug?: boolean,
+    retryOf?: RenderJobRecord
+  ): Promise<CompositionRenderJob> {
     // Background video wymusza puppeteer (WebCodecs feature)
     if (useBackgroundVideo) {
       engine = 'puppeteer';
     }
 
     const jobId = uuidv4();
-    const job: CompositionRenderJob = {
+    const record = this.store.createJob({
       jobId,
-      fixtureId,
-      compositionDefinitionId: fixture.compositionDefinitionId,
-      variantName: fixture.variantName,
+      kind: 'composition',
+      engine,
       status: 'pending',
       progress: 0,
+      fixtureId: fixture.id,
+      compositionDefinitionId: fixture.compositionDefinitionId,
+      variantName: fixture.variantName,
+      // Snapshot fixture'a - retry działa też dla fixtures spoza rejestru (fuzzing)
+      params: { useBackgroundVideo, debug, fixture },
+      attempt: retryOf ? retryOf.attempt + 1 : 1,
+      retryOf: retryOf?.jobId,
       startedAt: new Date().toISOString(),
-      engine,
-      useBackgroundVideo,
-    };
+    });
 
-    this.jobs.set(jobId, job);
+    // Renderuj w kolejce (jeden render naraz)
+    renderQueue.enqueue(jobId, async () => {
+      try {
+        if (engine === 'puppeteer') {
+          await this.executePuppeteerRender(jobId, fixture, useBackgroundVideo, debug);
+        } else {
+          await this.executeRender(jobId, fixture);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.store.updateJob(jobId, { status: 'error', error: message, completedAt: new Date().toISOString() });
+        this.emit('render:error', { jobId, error: message });
+      }
+      return this.store.getJob(jobId)?.outputPath;
+    });
 
-    // Renderuj asynchronicznie
-    const renderFn = engine === 'puppeteer'
-      ? this.executePuppeteerRender(jobId, fixture, useBackgroundVideo, debug)
-      : this.executeRender(jobId, fixture);
+    return toCompositionJob(record);
+  }
 
-    renderFn.catch((error) => {
-      const currentJob = this.jobs.get(jobId);
-      if (currentJob) {
-        currentJob.status = 'error';
-        currentJob.error = error instanceof Error ? error.message : String(error);
-        this.emit('render:error', { jobId, error: currentJob.error });
-      }
+  /**
+   * Ponów render zakończony błędem - nowy job z tym samym fixture'em i parametrami
+   */
+  async retryJob(jobId: string): Promise<CompositionRenderJob> {
+    const record = this.store.getJob(jobId);
+    if (!record || record.kind !== 'composition') {
+      throw new Error(`Render job not found: ${jobId}`);
+    }
+    if (record.status !== 'error') {
+      throw new Error(`Only failed render jobs can be retried (status: ${record.status})`);
+    }
+
+    const fixture = (record.params?.fixture as CompositionTestFixture | undefined)
+      ?? this.getFixture(record.fixtureId ?? '');
+    if (!fixture) {
+      throw new Error(`Fixture not found: ${record.fixtureId}`);
+    }
+
+    return this.renderFixture(
+      fixture,
+      record.engine,
+      record.params?.useBackgroundVideo as boolean | undefined,
+      record.params?.debug as boolean | undefined,
+      record
+    );
+  }
+
+  /**
+   * Zapisuje zakończony render: ffprobe pliku, czas renderu i oznacza
+   * starsze joby tego samego pliku jako nadpisane
+   */
+  private async completeJob(jobId: string, outputPath: string, renderDurationMs: number): Promise<void> {
+    const output = await probeVideo(outputPath).catch((error) => {
+      console.warn(`[CompositionTestService] ffprobe failed for ${outputPath}:`, error);
+      return undefined;
     });
 
-    return job;
+    this.store.updateJob(jobId, {
+      status: 'completed',
+      progress: 100,
+      output,
+      completedAt: new Date().toISOString(),
+      renderDurationMs,
+    });
+    this.store.markOutputDeleted(outputPath, jobId);
   }
 
   private async executeRender(jobId: string, fixture: CompositionTestFixture): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
-
     const startTime = Date.now();
+    this.store.updateJob(jobId, { renderStartedAt: new Date(startTime).toISOString() });
     console.log(`[CompositionTestService] Starting render job ${jobId} for fixture ${fixture.id}`);
 
     // 1. Buduj minimalną strukturę danych
@@ -245,17 +338,14 @@ class CompositionTestService extends EventEmitter {
 
       // 4. Output path - użyj fixtureId jako nazwy pliku
       const outputPath = path.join(RENDERS_OUTPUT_DIR, `${fixture.id}.mp4`);
-      job.outputPath = outputPath;
+      this.store.updateJob(jobId, { outputPath });
 
       // 5. Progress callback
       const onProgress: ChapterProgressCallback = (progress) => {
-        job.progress = progress.progress;
-
-        if (progress.status === 'rendering') {
-          job.status = 'rendering';
-        } else if (progress.status === 'encoding') {
-          job.status = 'encoding';
-        }
+        this.store.updateProgress(jobId, {
+          status: progress.status === 'encoding' ? 'encoding' : 'rendering',
+          progress: progress.progress,
+        });
 
         this.emit('render:progress', {
           jobId,
@@ -267,7 +357,7 @@ class CompositionTestService extends EventEmitter {
 
       // 6. Renderuj
       console.log('[CompositionTestService] Starting Remotion export...');
-      job.status = 'rendering';
+      this.store.updateProgress(jobId, { status: 'rendering', progress: 0 });
       this.emit('render:start', { jobId, fixtureId: fixture.id });
 
       const { remotionExportService } = await import('../../../desktop-app/electron/services/RemotionExportService');
@@ -283,12 +373,10 @@ class CompositionTestService extends EventEmitter {
       );
 
       // 7. Zakończ
-      job.status = 'completed';
-      job.progress = 100;
-      job.completedAt = new Date().toISOString();
-      job.renderDurationMs = Date.now() - startTime;
+      const renderDurationMs = Date.now() - startTime;
+      await this.completeJob(jobId, outputPath, renderDurationMs);
 
-      console.log(`[CompositionTestService] Render job ${jobId} completed in ${job.renderDurationMs}ms: ${outputPath}`);
+      console.log(`[CompositionTestService] Render job ${jobId} completed in ${renderDurationMs}ms: ${outputPath}`);
       this.emit('render:complete', { jobId, fixtureId: fixture.id, outputPath });
     } finally {
       storageRegistry.resetToDefaults();
@@ -301,18 +389,16 @@ class CompositionTestService extends EventEmitter {
   // ==========================================================================
 
   private async executePuppeteerRender(jobId: string, fixture: CompositionTestFixture, useBackgroundVideo?: boolean, debug?: boolean): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
-
     const startTime = Date.now();
+    this.store.updateJob(jobId, { renderStartedAt: new Date(startTime).toISOString() });
     console.log(`[CompositionTestService] Starting Puppeteer render job ${jobId} for fixture ${fixture.id}${useBackgroundVideo ? ' (with background video)' : ''}`);
 
     try {
-      job.status = 'rendering';
+      this.store.updateProgress(jobId, { status: 'rendering', progress: 0 });
       this.emit('render:start', { jobId, fixtureId: fixture.id });
 
       const outputPath = path.join(RENDERS_PUPPETEER_DIR, `${fixture.id}.mp4`);
-      job.outputPath = outputPath;
+      this.store.updateJob(jobId, { outputPath });
 
       const { puppeteerCompositionRenderer } = await import(
         '../../../desktop-app/electron/services/render-engine/PuppeteerCompositionRenderer'
@@ -332,7 +418,7 @@ class CompositionTestService extends EventEmitter {
           filePath: await this.ensureSampleVideo(),
         } : undefined,
         onProgress: (progress) => {
-          job.progress = progress;
+          this.store.updateProgress(jobId, { status: 'rendering', progress });
           this.emit('render:progress', {
             jobId,
             fixtureId: fixture.id,
@@ -342,18 +428,15 @@ class CompositionTestService extends EventEmitter {
         },
       });
 
-      job.status = 'completed';
-      job.progress = 100;
-      job.completedAt = new Date().toISOString();
-      job.renderDurationMs = result.renderDurationMs;
+      await this.completeJob(jobId, outputPath, result.renderDurationMs);
 
-      console.log(`[CompositionTestService] Puppeteer render job ${jobId} completed in ${job.renderDurationMs}ms: ${outputPath}`);
+      console.log(`[CompositionTestService] Puppeteer render job ${jobId} completed in ${result.renderDurationMs}ms: ${outputPath}`);
       this.emit('render:complete', { jobId, fixtureId: fixture.id, outputPath });
     } catch (error) {
-      job.status = 'error';
-      job.error = error instanceof Error ? error.message : String(error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.store.updateJob(jobId, { status: 'error', error: message, completedAt: new Date().toISOString() });
       console.error(`[CompositionTestService] Puppeteer render error:`, error);
-      this.emit('render:error', { jobId, error: job.error });
+      this.emit('render:error', { jobId, error: message });
     }
   }
 
@@ -478,10 +561,13 @@ class CompositionTestService extends EventEmitter {
     this.emit('batch:complete', { batchId, completedCount: batch.completedCount });
   }
 
-  private waitForJob(jobId: string): Promise<void> {
+  /**
+   * Czeka na zakończenie joba (completed albo error)
+   */
+  waitForJob(jobId: string): Promise<void> {
     return new Promise((resolve) => {
       const check = () => {
-        const job = this.jobs.get(jobId);
+        const job = this.store.getJob(jobId);
         if (!job || job.status === 'completed' || job.status === 'error') {
           resolve();
           return;
@@ -497,11 +583,23 @@ class CompositionTestService extends EventEmitter {
   // ==========================================================================
 
   getJob(jobId: string): CompositionRenderJob | undefined {
-    return this.jobs.get(jobId);
+    const record = this.store.getJob(jobId);
+    return record && record.kind === 'composition' ? toCompositionJob(record) : undefined;
+  }
+
+  /**
+   * Historia renderów kompozycji (najnowsze pierwsze)
+   */
+  listJobs(options?: { fixtureId?: string; status?: CompositionRenderJob['status']; limit?: number }): CompositionRenderJob[] {
+    return this.store.listJobs({ ...options, kind: 'composition' }).map(toCompositionJob);
   }
 
   getBatch(batchId: string): CompositionBatchJob | undefined {
-    return this.batches.get(batchId);
+    const batch = this.batches.get(batchId);
+    if (!batch) return undefined;
+
+    // Joby batcha z aktualnym stanem z bazy
+    return { ...batch, jobs: batch.jobs.map(j => this.getJob(j.jobId) ?? j) };
   }
 
   // ==========================================================================
@@ -551,6 +649,7 @@ class CompositionTestService extends EventEmitter {
     const filePath = path.join(dir, `${fixtureId}.mp4`);
     if (fs.existsSync(filePath)) {
       fs.unlinkSync(filePath);
+      this.store.markOutputDeleted(filePath);
       return true;
     }
     return false;
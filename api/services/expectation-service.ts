@@ -0,0 +1,83 @@
+/**
+ * Expectation Service - oczekiwania scenariusza wygenerowane z zapisanego wyniku
+ *
+ * Łączy wynik z bazy (DataDiff, wywołania narzędzi) z kontekstem scenariusza:
+ * blokami chaptera z fixtures (lista `unchanged`) i narzędziami dozwolonymi
+ * dla agenta (`forbidden`). Używane przez API (ScenarioDetail, edytor) i CLI.
+ */
+
+import path from 'path';
+import { generateExpectations, type FrameTolerance } from '../../agent-evals/harness/expectation-generator';
+import { findScenarioById } from './scenario-loader';
+import { getAllowedToolNames } from './scenario-validator';
+import { loadFixturesFromSqlite } from './sqlite-fixture-loader';
+import type { ScenarioExpectations, TestResult, TestScenario } from '../../agent-evals/types/scenario';
+
+const FIXTURES_DB_PATH = path.resolve(__dirname, '../../agent-evals/fixtures/clamka.db');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ResultExpectationsOptions {
+  tolerance?: FrameTolerance;
+  /** Niewywołane narzędzia modyfikujące jako `forbidden` (domyślnie true) */
+  forbidUnused?: boolean;
+}
+
+export interface ResultExpectations {
+  scenarioId: string;
+  trial?: number;
+  /** Definicja scenariusza (null, gdy scenariusza nie ma już w plikach ani w store) */
+  scenario: TestScenario | null;
+  expectations: ScenarioExpectations;
+  /** Brakujący kontekst - np. fixtures niedostępne, więc bez listy `unchanged` */
+  warnings: string[];
+}
+
+// ============================================================================
+// GENERATOR
+// ============================================================================
+
+/**
+ * Oczekiwania z wyniku uznanego za poprawny - wynik musi mieć DataDiff
+ */
+export async function generateExpectationsForResult(
+  result: TestResult,
+  options: ResultExpectationsOptions = {}
+): Promise<ResultExpectations> {
+  if (!result.dataDiff) {
+    throw new Error('Stored result has no DataDiff');
+  }
+
+  const warnings: string[] = [];
+  const scenario = await findScenarioById(result.scenarioId);
+  if (!scenario) {
+    warnings.push(`Scenario '${result.scenarioId}' not found - no unchanged blocks or forbidden tools`);
+  }
+
+  let fixtureBlocks: Array<{ id: string }> | undefined;
+  if (scenario) {
+    try {
+      const { projectId, chapterId } = scenario.input.context;
+      fixtureBlocks = (await loadFixturesFromSqlite(projectId, chapterId, FIXTURES_DB_PATH)).blocks;
+    } catch (error) {
+      warnings.push(`Fixtures not loaded: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const allowed = scenario && options.forbidUnused !== false ? getAllowedToolNames(scenario.agent) : undefined;
+
+  return {
+    scenarioId: result.scenarioId,
+    trial: result.trial,
+    scenario,
+    expectations: generateExpectations(result.dataDiff, {
+      tolerance: options.tolerance,
+      fixtureBlocks,
+      toolCalls: result.toolCalls,
+      allowedTools: allowed ? [...allowed] : undefined,
+    }),
+    warnings,
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Experiment Service - eksperymenty A/B: zestaw scenariuszy × macierz wariantów konfiguracji
+ *
+ * Każdy wariant to osobny suite w kolejce TestRunnerService, powiązany z eksperymentem
+ * w ResultsStore (experiment_id / variant_id). Leaderboard liczony jest z prób wszystkich
+ * suite'ów wariantu.
+ */
+
+import { getResultsStore, type ExperimentRecord, type ExperimentSuiteLink, type SuiteStatus } from './results-store';
+import { getTestRunnerService, type TestRunOptions } from './test-runner';
+import { selectScenarios } from './scenario-loader';
+import {
+  resolveExperimentVariants,
+  buildExperimentLeaderboard,
+  type ExperimentDefinition,
+  type ExperimentVariant,
+  type VariantLeaderboardEntry,
+} from '../../agent-evals/harness/experiment';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExperimentStatus = 'running' | 'completed' | 'failed' | 'stopped';
+
+export interface ExperimentSummary extends ExperimentRecord {
+  status: ExperimentStatus;
+}
+
+export interface ExperimentLeaderboardEntry extends VariantLeaderboardEntry {
+  /** Suite'y wariantu - przy kilku próby są łączone */
+  suiteIds: string[];
+  status: SuiteStatus;
+}
+
+export interface ExperimentDetail extends ExperimentSummary {
+  suites: ExperimentSuiteLink[];
+  leaderboard: ExperimentLeaderboardEntry[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Status zbiorczy - eksperyment trwa, dopóki trwa którykolwiek suite
+ */
+function aggregateStatus(statuses: SuiteStatus[]): ExperimentStatus {
+  if (statuses.some((st) => st === 'running' || st === 'pending')) return 'running';
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('stopped')) return 'stopped';
+  return 'completed';
+}
+
+function variantRunOptions(variant: ExperimentVariant, definition: ExperimentDefinition): TestRunOptions {
+  return {
+    systemPrompt: variant.systemPrompt,
+    model: variant.model,
+    thinkingMode: variant.thinkingMode,
+    toolDescriptions: variant.toolDescriptions,
+    subagentPrompts: variant.subagentPrompts,
+    enabledTools: variant.enabledTools,
+    repetitions: definition.repetitions,
+    concurrency: definition.concurrency,
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ExperimentService {
+  /**
+   * Tworzy eksperyment i dodaje do kolejki suite dla każdego wariantu
+   *
+   * Rzuca błąd przy niepoprawnej definicji (brak wariantów, duplikaty id, brak scenariuszy).
+   */
+  async startExperiment(definition: ExperimentDefinition): Promise<{
+    experiment: ExperimentRecord;
+    cells: Array<{ variantId: string; suiteId: string; jobId: string }>;
+  }> {
+    if (!definition.name?.trim()) {
+      throw new Error('Experiment name is required');
+    }
+    for (const field of ['repetitions', 'concurrency'] as const) {
+      const value = definition[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`${field} must be a positive integer`);
+      }
+    }
+
+    const variants = resolveExperimentVariants(definition);
+    const scenarios = await selectScenarios(definition);
+    if (scenarios.length === 0) {
+      throw new Error('No scenarios found');
+    }
+
+    const experiment = getResultsStore().createExperiment({
+      name: definition.name.trim(),
+      description: definition.description,
+      definition,
+      variants,
+      scenarioIds: scenarios.map((s) => s.id),
+    });
+
+    const testRunner = getTestRunnerService();
+    const cells: Array<{ variantId: string; suiteId: string; jobId: string }> = [];
+    for (const variant of variants) {
+      const { jobId, suiteId } = await testRunner.startSuite(scenarios, variantRunOptions(variant, definition), {
+        tags: ['experiment'],
+        label: `${experiment.name}: ${variant.label ?? variant.id}`,
+        experimentId: experiment.id,
+        variantId: variant.id,
+      });
+      cells.push({ variantId: variant.id, suiteId, jobId });
+    }
+
+    console.log(`[ExperimentService] Experiment ${experiment.id} started: ${variants.length} variants × ${scenarios.length} scenarios`);
+    return { experiment, cells };
+  }
+
+  listExperiments(options?: { limit?: number; offset?: number }): ExperimentSummary[] {
+    const resultsStore = getResultsStore();
+    return resultsStore.listExperiments(options).map((experiment) => ({
+      ...experiment,
+      status: aggregateStatus(resultsStore.getExperimentSuites(experiment.id).map((s) => s.status)),
+    }));
+  }
+
+  /**
+   * Szczegóły eksperymentu z leaderboardem wariantów
+   *
+   * @param alpha Poziom istotności testu vsBest (domyślnie 0.05)
+   */
+  getExperimentDetail(experimentId: string, options: { alpha?: number } = {}): ExperimentDetail | null {
+    const resultsStore = getResultsStore();
+    const experiment = resultsStore.getExperiment(experimentId);
+    if (!experiment) return null;
+
+    const suites = resultsStore.getExperimentSuites(experimentId);
+    const suitesByVariant = new Map<string, ExperimentSuiteLink[]>();
+    for (const suite of suites) {
+      suitesByVariant.set(suite.variantId, [...(suitesByVariant.get(suite.variantId) ?? []), suite]);
+    }
+
+    const leaderboard = buildExperimentLeaderboard(
+      experiment.variants.map((variant) => ({
+        variantId: variant.id,
+        label: variant.label,
+        results: resultsStore.getComparableResults((suitesByVariant.get(variant.id) ?? []).map((s) => s.suiteId)),
+      })),
+      options
+    ).map((entry): ExperimentLeaderboardEntry => {
+      const variantSuites = suitesByVariant.get(entry.variantId) ?? [];
+      return {
+        ...entry,
+        suiteIds: variantSuites.map((s) => s.suiteId),
+        // Status ostatniego suite'a wariantu
+        status: variantSuites.length > 0 ? variantSuites[variantSuites.length - 1].status : 'pending',
+      };
+    });
+
+    return {
+      ...experiment,
+      status: aggregateStatus(suites.map((s) => s.status)),
+      suites,
+      leaderboard,
+    };
+  }
+
+  /**
+   * Zatrzymuje wszystkie trwające suite'y eksperymentu
+   */
+  async stopExperiment(experimentId: string): Promise<{ stoppedSuiteIds: string[] }> {
+    const testRunner = getTestRunnerService();
+    const running = getResultsStore()
+      .getExperimentSuites(experimentId)
+      .filter((s) => s.status === 'running' || s.status === 'pending');
+
+    for (const suite of running) {
+      await testRunner.stopSuite(suite.suiteId);
+    }
+
+    return { stoppedSuiteIds: running.map((s) => s.suiteId) };
+  }
+}
+
+// Singleton
+let instance: ExperimentService | null = null;
+
+export function getExperimentService(): ExperimentService {
+  if (!instance) {
+    instance = new ExperimentService();
+  }
+  return instance;
+}
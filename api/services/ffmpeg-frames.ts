@@ -0,0 +1,187 @@
+/**
+ * FFmpeg Frames - klatki wideo jako piksele RGB24 (ffmpeg/ffprobe z PATH)
+ *
+ * Wspólne dla golden frames i parity silników renderowania.
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { spawn as spawnProcess } from 'child_process';
+import type { RgbImage } from '../../composition-tests/golden-frames';
+import type { RenderedVideoInfo } from '../../composition-tests/types';
+
+// ============================================================================
+// PROCESS
+// ============================================================================
+
+/**
+ * Uruchamia ffmpeg/ffprobe i zwraca stdout (opcjonalnie z danymi na stdin)
+ */
+function runTool(command: 'ffmpeg' | 'ffprobe', args: string[], input?: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawnProcess(command, ['-v', 'error', ...args], {
+      stdio: [input ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+    });
+
+    const chunks: Buffer[] = [];
+    let stderr = '';
+    child.stdout?.on('data', (data: Buffer) => chunks.push(data));
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', (code: number) => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`${command} failed (code ${code}): ${stderr.slice(-500)}`));
+      }
+    });
+
+    child.on('error', (err: Error) => {
+      reject(new Error(`${command} spawn error: ${err.message}`));
+    });
+
+    if (input) {
+      child.stdin?.end(input);
+    }
+  });
+}
+
+// ============================================================================
+// PAM
+// ============================================================================
+
+const PAM_HEADER_END = 'ENDHDR\n';
+
+/**
+ * Dzieli strumień PAM (image2pipe) na obrazy RGB24 - każdy niesie wymiary w nagłówku
+ */
+function parsePamFrames(pam: Buffer): RgbImage[] {
+  const frames: RgbImage[] = [];
+  let offset = 0;
+
+  while (offset < pam.length) {
+    const headerEnd = pam.indexOf(PAM_HEADER_END, offset);
+    if (headerEnd === -1) {
+      throw new Error('Invalid PAM output from ffmpeg');
+    }
+
+    const header = pam.subarray(offset, headerEnd).toString('ascii');
+    const width = Number(/WIDTH (\d+)/.exec(header)?.[1]);
+    const height = Number(/HEIGHT (\d+)/.exec(header)?.[1]);
+    const dataStart = headerEnd + PAM_HEADER_END.length;
+    const size = width * height * 3;
+
+    frames.push({
+      width,
+      height,
+      data: new Uint8Array(pam.buffer, pam.byteOffset + dataStart, size),
+    });
+    offset = dataStart + size;
+  }
+
+  return frames;
+}
+
+// ============================================================================
+// FRAMES
+// ============================================================================
+
+/**
+ * Zapisuje pojedynczą klatkę wideo jako PNG
+ */
+export async function extractFrame(videoPath: string, frame: number, outputPath: string): Promise<void> {
+  await runTool('ffmpeg', [
+    '-i', videoPath,
+    '-vf', `select=eq(n\\,${frame})`,
+    '-vsync', '0',
+    '-frames:v', '1',
+    '-y',
+    outputPath,
+  ]);
+  if (!fs.existsSync(outputPath)) {
+    throw new Error(`Frame ${frame} not found in ${path.basename(videoPath)}`);
+  }
+}
+
+export async function decodePng(filePath: string): Promise<RgbImage> {
+  const [image] = parsePamFrames(
+    await runTool('ffmpeg', ['-i', filePath, '-f', 'image2pipe', '-vcodec', 'pam', '-pix_fmt', 'rgb24', '-'])
+  );
+  if (!image) {
+    throw new Error(`No image decoded from ${path.basename(filePath)}`);
+  }
+  return image;
+}
+
+export async function encodePng(image: RgbImage, outputPath: string): Promise<void> {
+  await runTool(
+    'ffmpeg',
+    [
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgb24',
+      '-s', `${image.width}x${image.height}`,
+      '-i', '-',
+      '-frames:v', '1',
+      '-y',
+      outputPath,
+    ],
+    Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength)
+  );
+}
+
+/**
+ * Wszystkie klatki wideo przeskalowane do `width` x `height` (do porównań całych renderów)
+ */
+export async function decodeVideoFrames(videoPath: string, width: number, height: number): Promise<RgbImage[]> {
+  return parsePamFrames(
+    await runTool('ffmpeg', [
+      '-i', videoPath,
+      '-vf', `scale=${width}:${height}`,
+      '-vsync', '0',
+      '-f', 'image2pipe',
+      '-vcodec', 'pam',
+      '-pix_fmt', 'rgb24',
+      '-',
+    ])
+  );
+}
+
+// ============================================================================
+// PROBE
+// ============================================================================
+
+/**
+ * Metadane pierwszego strumienia wideo (liczba klatek z policzonych pakietów)
+ */
+export async function probeVideo(videoPath: string): Promise<RenderedVideoInfo> {
+  const output = await runTool('ffprobe', [
+    '-select_streams', 'v:0',
+    '-count_packets',
+    '-show_entries', 'stream=codec_name,width,height,r_frame_rate,nb_read_packets:format=duration',
+    '-of', 'json',
+    videoPath,
+  ]);
+
+  const probe = JSON.parse(output.toString()) as {
+    streams?: Array<{ codec_name?: string; width?: number; height?: number; r_frame_rate?: string; nb_read_packets?: string }>;
+    format?: { duration?: string };
+  };
+  const stream = probe.streams?.[0];
+  if (!stream) {
+    throw new Error(`No video stream in ${path.basename(videoPath)}`);
+  }
+
+  const [num, den] = (stream.r_frame_rate ?? '0/1').split('/').map(Number);
+
+  return {
+    codec: stream.codec_name ?? 'unknown',
+    width: stream.width ?? 0,
+    height: stream.height ?? 0,
+    fps: den ? num / den : 0,
+    frameCount: Number(stream.nb_read_packets ?? 0),
+    durationSec: Number(probe.format?.duration ?? 0),
+    sizeBytes: fs.statSync(videoPath).size,
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Golden Frame Service - visual regression dla fixtures kompozycji
+ *
+ * Z wyrenderowanego MP4 wyciąga klatki kluczowe (ffmpeg), porównuje je
+ * z zatwierdzonymi PNG w composition-tests/baselines i zapisuje obrazy różnic.
+ * Zatwierdzenie kopiuje aktualne klatki jako nowy baseline.
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { compositionTestService } from './composition-test-service';
+import { decodePng, encodePng, extractFrame } from './ffmpeg-frames';
+import {
+  compareImages,
+  passesThresholds,
+  resolveKeyframes,
+  resolveThresholds,
+} from '../../composition-tests/golden-frames';
+import type {
+  CompositionTestFixture,
+  FrameComparison,
+  GoldenBaselineInfo,
+  RenderEngine,
+  VisualRegressionResult,
+} from '../../composition-tests/types';
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+const BASELINES_DIR = path.resolve(__dirname, '../../composition-tests/baselines');
+const FRAMES_OUTPUT_DIR = path.resolve(__dirname, '../../agent-evals/results/composition-frames');
+
+const RESULT_FILE = 'result.json';
+
+export type GoldenFrameKind = 'baseline' | 'actual' | 'diff';
+
+/**
+ * Katalog fixture'a wewnątrz root - engine i fixtureId pochodzą z requestu,
+ * więc ścieżka wychodząca poza root (np. "../..") jest odrzucana
+ */
+function resolveInside(root: string, ...segments: string[]): string {
+  const dir = path.resolve(root, ...segments);
+  if (!dir.startsWith(root + path.sep)) {
+    throw new Error(`Path escapes ${path.basename(root)} directory: ${segments.join('/')}`);
+  }
+  return dir;
+}
+
+function frameFileName(kind: GoldenFrameKind, frame: number): string {
+  const prefix = kind === 'baseline' ? 'frame' : kind;
+  return `${prefix}-${String(frame).padStart(4, '0')}.png`;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class GoldenFrameService {
+  // ==========================================================================
+  // PATHS
+  // ==========================================================================
+
+  getBaselineDir(fixtureId: string, engine: RenderEngine): string {
+    return resolveInside(BASELINES_DIR, engine, fixtureId);
+  }
+
+  getFramesDir(fixtureId: string, engine: RenderEngine): string {
+    return resolveInside(FRAMES_OUTPUT_DIR, engine, fixtureId);
+  }
+
+  /**
+   * Ścieżka PNG danej klatki (baseline, aktualna klatka albo obraz różnic)
+   */
+  getFramePath(fixtureId: string, engine: RenderEngine, frame: number, kind: GoldenFrameKind): string {
+    const dir = kind === 'baseline' ? this.getBaselineDir(fixtureId, engine) : this.getFramesDir(fixtureId, engine);
+    return path.join(dir, frameFileName(kind, frame));
+  }
+
+  private getRenderPath(fixtureId: string, engine: RenderEngine): string {
+    return path.join(compositionTestService.getRendersDir(engine), `${fixtureId}.mp4`);
+  }
+
+  private requireFixture(fixtureId: string): CompositionTestFixture {
+    const fixture = compositionTestService.getFixture(fixtureId);
+    if (!fixture) {
+      throw new Error(`Fixture not found: ${fixtureId}`);
+    }
+    return fixture;
+  }
+
+  // ==========================================================================
+  // BASELINES
+  // ==========================================================================
+
+  getBaselineInfo(fixtureId: string, engine: RenderEngine): GoldenBaselineInfo {
+    const dir = this.getBaselineDir(fixtureId, engine);
+    const frames: number[] = [];
+    let approvedAt: string | undefined;
+
+    if (fs.existsSync(dir)) {
+      for (const file of fs.readdirSync(dir)) {
+        const match = /^frame-(\d+)\.png$/.exec(file);
+        if (!match) continue;
+        frames.push(Number(match[1]));
+        const modified = fs.statSync(path.join(dir, file)).mtime.toISOString();
+        if (!approvedAt || modified > approvedAt) approvedAt = modified;
+      }
+    }
+
+    return {
+      fixtureId,
+      engine,
+      frames: frames.sort((a, b) => a - b),
+      approvedAt,
+      lastResult: this.getLastResult(fixtureId, engine),
+    };
+  }
+
+  /**
+   * Stan baseline dla wszystkich fixtures silnika
+   */
+  listBaselines(engine: RenderEngine): GoldenBaselineInfo[] {
+    return compositionTestService.getFixtures().map(f => this.getBaselineInfo(f.id, engine));
+  }
+
+  getLastResult(fixtureId: string, engine: RenderEngine): VisualRegressionResult | undefined {
+    const filePath = path.join(this.getFramesDir(fixtureId, engine), RESULT_FILE);
+    if (!fs.existsSync(filePath)) return undefined;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as VisualRegressionResult;
+  }
+
+  /**
+   * Zatwierdza aktualne klatki jako nowy baseline i porównuje ponownie.
+   * Bez `frames` zatwierdza wszystkie klatki kluczowe i usuwa baseline
+   * klatek, których fixture już nie definiuje.
+   */
+  async approveBaseline(fixtureId: string, engine: RenderEngine, frames?: number[]): Promise<VisualRegressionResult> {
+    const fixture = this.requireFixture(fixtureId);
+    const keyframes = resolveKeyframes(fixture).map(k => k.frame);
+    const toApprove = frames ?? keyframes;
+
+    const unknown = toApprove.filter(frame => !keyframes.includes(frame));
+    if (unknown.length > 0) {
+      throw new Error(`Frames are not keyframes of ${fixtureId}: ${unknown.join(', ')}`);
+    }
+
+    const baselineDir = this.getBaselineDir(fixtureId, engine);
+    fs.mkdirSync(baselineDir, { recursive: true });
+    fs.mkdirSync(this.getFramesDir(fixtureId, engine), { recursive: true });
+
+    // Klatki z bieżącego renderu - render mógł się zmienić od ostatniego porównania
+    const renderPath = this.requireRender(fixtureId, engine);
+    for (const frame of toApprove) {
+      const actualPath = this.getFramePath(fixtureId, engine, frame, 'actual');
+      await extractFrame(renderPath, frame, actualPath);
+      fs.copyFileSync(actualPath, this.getFramePath(fixtureId, engine, frame, 'baseline'));
+    }
+
+    if (!frames) {
+      for (const frame of this.getBaselineInfo(fixtureId, engine).frames) {
+        if (!keyframes.includes(frame)) {
+          fs.unlinkSync(this.getFramePath(fixtureId, engine, frame, 'baseline'));
+        }
+      }
+    }
+
+    console.log(`[GoldenFrameService] Approved ${toApprove.length} baseline frame(s) for ${fixtureId} (${engine})`);
+    return this.checkFixture(fixtureId, engine);
+  }
+
+  // ==========================================================================
+  // CHECK
+  // ==========================================================================
+
+  private requireRender(fixtureId: string, engine: RenderEngine): string {
+    const renderPath = this.getRenderPath(fixtureId, engine);
+    if (!fs.existsSync(renderPath)) {
+      throw new Error(`Render not found for ${fixtureId} (engine: ${engine}) - render the fixture first`);
+    }
+    return renderPath;
+  }
+
+  /**
+   * Porównuje klatki kluczowe ostatniego renderu z baseline
+   */
+  async checkFixture(fixtureId: string, engine: RenderEngine): Promise<VisualRegressionResult> {
+    const fixture = this.requireFixture(fixtureId);
+    const renderPath = this.requireRender(fixtureId, engine);
+    const thresholds = resolveThresholds(fixture);
+
+    // Wyniki poprzedniego porównania są nieaktualne
+    const framesDir = this.getFramesDir(fixtureId, engine);
+    fs.rmSync(framesDir, { recursive: true, force: true });
+    fs.mkdirSync(framesDir, { recursive: true });
+
+    const frames: FrameComparison[] = [];
+
+    for (const { frame, label } of resolveKeyframes(fixture)) {
+      const actualPath = this.getFramePath(fixtureId, engine, frame, 'actual');
+      const baselinePath = this.getFramePath(fixtureId, engine, frame, 'baseline');
+      await extractFrame(renderPath, frame, actualPath);
+
+      if (!fs.existsSync(baselinePath)) {
+        frames.push({ frame, label, status: 'missing-baseline', hasDiff: false });
+        continue;
+      }
+
+      const [baseline, actual] = await Promise.all([decodePng(baselinePath), decodePng(actualPath)]);
+      if (baseline.width !== actual.width || baseline.height !== actual.height) {
+        frames.push({ frame, label, status: 'size-mismatch', hasDiff: false });
+        continue;
+      }
+
+      const comparison = compareImages(baseline, actual, thresholds);
+      await encodePng(comparison.diff, this.getFramePath(fixtureId, engine, frame, 'diff'));
+
+      frames.push({
+        frame,
+        label,
+        status: passesThresholds(comparison, thresholds) ? 'passed' : 'failed',
+        ssim: comparison.ssim,
+        pixelDeltaRatio: comparison.pixelDeltaRatio,
+        maxChannelDelta: comparison.maxChannelDelta,
+        hasDiff: true,
+      });
+    }
+
+    const result: VisualRegressionResult = {
+      fixtureId,
+      engine,
+      status: frames.some(f => f.status === 'failed' || f.status === 'size-mismatch')
+        ? 'failed'
+        : frames.some(f => f.status === 'missing-baseline') ? 'missing-baseline' : 'passed',
+      thresholds,
+      frames,
+      checkedAt: new Date().toISOString(),
+    };
+
+    fs.writeFileSync(path.join(framesDir, RESULT_FILE), JSON.stringify(result, null, 2));
+    console.log(`[GoldenFrameService] ${fixtureId} (${engine}): ${result.status}`);
+    return result;
+  }
+
+  /**
+   * Porównuje wszystkie wyrenderowane fixtures (opcjonalnie jednej kompozycji).
+   * Fixtures bez renderu trafiają do `skipped`.
+   */
+  async checkBatch(definitionId: string | undefined, engine: RenderEngine): Promise<{
+    results: VisualRegressionResult[];
+    skipped: string[];
+  }> {
+    const fixtures = definitionId
+      ? compositionTestService.getFixturesByDefinition(definitionId)
+      : compositionTestService.getFixtures();
+
+    const results: VisualRegressionResult[] = [];
+    const skipped: string[] = [];
+
+    for (const fixture of fixtures) {
+      if (!fs.existsSync(this.getRenderPath(fixture.id, engine))) {
+        skipped.push(fixture.id);
+        continue;
+      }
+      results.push(await this.checkFixture(fixture.id, engine));
+    }
+
+    return { results, skipped };
+  }
+}
+
+// Singleton
+export const goldenFrameService = new GoldenFrameService();
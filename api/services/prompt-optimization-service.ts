@@ -0,0 +1,229 @@
+/**
+ * Prompt Optimization Service - pętla automatycznego szukania patchy system promptu
+ *
+ * Optymalizacja działa w procesie API (jak ewaluacje transkrypcji), bo kolejne kandydaty
+ * zależą od wyników poprzednich. Każdy oceniony kandydat jest zapisywany w ResultsStore:
+ * wyniki prób jako suite (tag 'optimization'), wynik kandydata w prompt_candidates.
+ * Próby dzielą globalny limit EVAL_MAX_CONCURRENCY z kolejką testów.
+ */
+
+import { ClaudeCodeCLIService } from '../../../desktop-app/electron/services/cli/ClaudeCodeCLIService';
+import { getResultsStore, buildConfigSnapshot, type PromptOptimizationRecord, type PromptCandidateRecord } from './results-store';
+import { selectScenarios } from './scenario-loader';
+import { scenarioLimiter } from './test-runner';
+import { renderCheckService } from './render-check-service';
+import { collectSuiteConfigSnapshots } from '../../agent-evals/harness/suite-config-snapshot';
+import type { SuiteConfigSnapshot } from '../../agent-evals/types/config-snapshot';
+import {
+  optimizePrompt,
+  compareCandidateScores,
+  SnippetPatchProposer,
+  LlmPatchProposer,
+  type PatchProposer,
+  type PromptOptimizationDefinition,
+} from '../../agent-evals/harness/prompt-optimizer';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PromptOptimizationDetail extends PromptOptimizationRecord {
+  /** Kandydaci od najlepszego (także w trakcie optymalizacji) */
+  candidates: PromptCandidateRecord[];
+}
+
+/** Timeout pojedynczego zapytania proposera LLM */
+const PROPOSER_TIMEOUT_MS = 300000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createProposer(definition: PromptOptimizationDefinition): PatchProposer {
+  const config = definition.proposer;
+
+  if (config?.type === 'snippets') {
+    if (!Array.isArray(config.snippets) || config.snippets.length === 0) {
+      throw new Error('Snippet proposer needs a non-empty snippets library');
+    }
+    return new SnippetPatchProposer(config.snippets, { seed: config.seed });
+  }
+
+  if (config?.type === 'llm') {
+    const claudeCLI = new ClaudeCodeCLIService();
+    return new LlmPatchProposer(async (prompt) => {
+      const result = await claudeCLI.queryWithContentBlocks({
+        contentBlocks: [{ type: 'text', text: prompt }],
+        allowedTools: [],
+        settingSources: ['project'],
+        timeout: PROPOSER_TIMEOUT_MS,
+        model: config.model,
+      });
+      return result.text;
+    });
+  }
+
+  throw new Error("proposer.type must be 'snippets' or 'llm'");
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class PromptOptimizationService {
+  /** Optymalizacje trwające w tym procesie - flaga zatrzymania sprawdzana przed każdą oceną */
+  private running = new Map<string, { stopRequested: boolean }>();
+
+  /**
+   * Tworzy optymalizację i uruchamia ją w tle
+   *
+   * Rzuca błąd przy niepoprawnej definicji (brak nazwy, proposera, scenariuszy agenta).
+   */
+  async startOptimization(definition: PromptOptimizationDefinition): Promise<PromptOptimizationRecord> {
+    if (!definition.name?.trim()) {
+      throw new Error('Optimization name is required');
+    }
+    if (definition.agent !== 'montage' && definition.agent !== 'script') {
+      throw new Error("agent must be 'montage' or 'script'");
+    }
+    for (const field of ['repetitions', 'concurrency'] as const) {
+      const value = definition[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new Error(`${field} must be a positive integer`);
+      }
+    }
+
+    const proposer = createProposer(definition);
+    const scenarios = (
+      await selectScenarios(
+        definition.scenarioIds && definition.scenarioIds.length > 0
+          ? { scenarioIds: definition.scenarioIds, tags: definition.tags }
+          : { agent: definition.agent, tags: definition.tags }
+      )
+    ).filter((s) => s.agent === definition.agent);
+    if (scenarios.length === 0) {
+      throw new Error(`No ${definition.agent} scenarios found`);
+    }
+
+    const resultsStore = getResultsStore();
+    const optimization = resultsStore.createPromptOptimization({
+      name: definition.name.trim(),
+      agent: definition.agent,
+      definition,
+      scenarioIds: scenarios.map((s) => s.id),
+    });
+
+    const state = { stopRequested: false };
+    this.running.set(optimization.id, state);
+
+    optimizePrompt({
+      agentType: definition.agent,
+      basePrompt: definition.basePrompt,
+      scenarios,
+      proposer,
+      budget: definition.budget,
+      harnessOptions: {
+        model: definition.model,
+        thinkingMode: definition.thinkingMode,
+        repetitions: definition.repetitions,
+        concurrency: definition.concurrency,
+        scenarioLimiter,
+        renderChecker: renderCheckService,
+      },
+      shouldStop: () => state.stopRequested,
+      onCandidate: async (candidate, results, systemPrompt) => {
+        // Pełny snapshot konfiguracji kandydata - brak snapshotu nie blokuje zapisu wyników
+        let suiteConfigSnapshots: Record<string, SuiteConfigSnapshot> | undefined;
+        try {
+          suiteConfigSnapshots = await collectSuiteConfigSnapshots([definition.agent], {
+            systemPrompt,
+            model: definition.model,
+            thinkingMode: definition.thinkingMode,
+          });
+        } catch (err) {
+          console.error('[PromptOptimization] Failed to collect config snapshots:', err);
+        }
+
+        const suite = resultsStore.saveSuiteRun(results, {
+          tags: ['optimization'],
+          label: `${optimization.name}: ${candidate.id}`,
+          configSnapshot: buildConfigSnapshot({
+            systemPrompt,
+            model: definition.model,
+            thinkingMode: definition.thinkingMode,
+            repetitions: definition.repetitions,
+            concurrency: definition.concurrency,
+          }),
+          suiteConfigSnapshots,
+        });
+        resultsStore.savePromptCandidate(optimization.id, candidate, suite.id);
+        console.log(
+          `[PromptOptimization] ${optimization.id} ${candidate.id}: ${(candidate.score.passRate * 100).toFixed(1)}% (${candidate.score.totalTokens} tokens)`
+        );
+      },
+    })
+      .then((report) => {
+        resultsStore.finishPromptOptimization(optimization.id, {
+          status: report.stopReason === 'stopped' ? 'stopped' : 'completed',
+          report,
+        });
+        console.log(`[PromptOptimization] ${optimization.id} finished (${report.stopReason}), best: ${report.best.id}`);
+      })
+      .catch((error) => {
+        console.error(`[PromptOptimization] ${optimization.id} failed:`, error);
+        resultsStore.finishPromptOptimization(optimization.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        this.running.delete(optimization.id);
+      });
+
+    return optimization;
+  }
+
+  listOptimizations(options?: { limit?: number; offset?: number }): PromptOptimizationRecord[] {
+    return getResultsStore().listPromptOptimizations(options);
+  }
+
+  getOptimizationDetail(optimizationId: string): PromptOptimizationDetail | null {
+    const resultsStore = getResultsStore();
+    const optimization = resultsStore.getPromptOptimization(optimizationId);
+    if (!optimization) return null;
+
+    return {
+      ...optimization,
+      candidates: resultsStore
+        .getPromptCandidates(optimizationId)
+        .sort((a, b) => compareCandidateScores(a.score, b.score)),
+    };
+  }
+
+  /**
+   * Zatrzymuje optymalizację po bieżącej ocenie - raport powstaje z dotychczasowych kandydatów
+   *
+   * @returns false, gdy optymalizacja nie trwa w tym procesie
+   */
+  stopOptimization(optimizationId: string): boolean {
+    const state = this.running.get(optimizationId);
+    if (!state) return false;
+    state.stopRequested = true;
+    return true;
+  }
+}
+
+// Singleton
+let instance: PromptOptimizationService | null = null;
+
+export function getPromptOptimizationService(): PromptOptimizationService {
+  if (!instance) {
+    instance = new PromptOptimizationService();
+    // Pętla działa w pamięci procesu - optymalizacje sprzed restartu już nie wrócą
+    const interrupted = getResultsStore().failInterruptedPromptOptimizations();
+    if (interrupted > 0) {
+      console.log(`[PromptOptimization] Marked ${interrupted} interrupted optimization(s) as failed`);
+    }
+  }
+  return instance;
+}
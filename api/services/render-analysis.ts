@@ -0,0 +1,279 @@
+/**
+ * Render Analysis - analiza wyrenderowanego chaptera filtrami ffmpeg
+ *
+ * Jeden przebieg ffmpeg (blackdetect, freezedetect, silencedetect, ebur128)
+ * zbiera czarne i zamrożone fragmenty, ciszę oraz głośność momentary (co 100 ms),
+ * z której liczone są skoki głośności na cięciach. ffprobe podaje czasy
+ * strumieni do wyliczenia rozjazdu audio/wideo.
+ */
+
+import path from 'path';
+import { spawn as spawnProcess } from 'child_process';
+import type { RenderCutLoudness, RenderTimeSegment } from '../../agent-evals/types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RenderAnalysisOptions {
+  /** Próg ciszy w dB */
+  silenceThresholdDb: number;
+  /** Czasy cięć w sekundach */
+  cutTimesSec: number[];
+}
+
+export interface RenderAnalysis {
+  blackSegments: RenderTimeSegment[];
+  frozenSegments: RenderTimeSegment[];
+  hasAudio: boolean;
+  silenceSegments: RenderTimeSegment[];
+  cutPoints: RenderCutLoudness[];
+  avDriftMs?: number;
+}
+
+/** Pomiar głośności momentary (okno 400 ms kończące się w `timeSec`) */
+export interface LoudnessSample {
+  timeSec: number;
+  lufs: number;
+}
+
+export interface FilterLog {
+  blackSegments: RenderTimeSegment[];
+  frozenSegments: RenderTimeSegment[];
+  silenceSegments: RenderTimeSegment[];
+  loudness: LoudnessSample[];
+}
+
+interface StreamTiming {
+  codecType: 'video' | 'audio';
+  startSec: number;
+  endSec: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+// Najkrótsze raportowane fragmenty - limity scenariuszy porównują najdłuższy
+const BLACK_MIN_SEC = 0.1;
+const FREEZE_MIN_SEC = 0.5;
+const SILENCE_MIN_SEC = 0.2;
+
+// Okno uśredniania głośności po obu stronach cięcia
+const CUT_WINDOW_SEC = 0.5;
+// Pomiar momentary obejmuje 400 ms wstecz - po cięciu czekamy aż okno zawiera tylko nowe audio
+const MOMENTARY_WINDOW_SEC = 0.4;
+// Cisza cyfrowa daje ok. -120 LUFS - przycinamy, żeby skok do ciszy nie był absurdalnie duży
+const LOUDNESS_FLOOR_LUFS = -70;
+
+// ============================================================================
+// PROCESS
+// ============================================================================
+
+/**
+ * Uruchamia ffmpeg/ffprobe i zwraca stdout + stderr (filtry analizy logują na stderr)
+ */
+function runTool(command: 'ffmpeg' | 'ffprobe', args: string[]): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawnProcess(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', (code: number) => {
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new Error(`${command} failed (code ${code}): ${stderr.slice(-500)}`));
+      }
+    });
+
+    child.on('error', (err: Error) => {
+      reject(new Error(`${command} spawn error: ${err.message}`));
+    });
+  });
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function segment(startSec: number, endSec: number): RenderTimeSegment {
+  return { startSec, endSec, durationSec: Math.max(0, endSec - startSec) };
+}
+
+/**
+ * Wyciąga fragmenty i pomiary głośności z logu filtrów ffmpeg
+ *
+ * Fragment otwarty na końcu pliku (freezedetect i starsze silencedetect
+ * nie logują końca) kończy się na `durationSec`.
+ */
+export function parseFilterLog(log: string, durationSec: number): FilterLog {
+  const result: FilterLog = { blackSegments: [], frozenSegments: [], silenceSegments: [], loudness: [] };
+  let freezeStart: number | undefined;
+  let silenceStart: number | undefined;
+
+  for (const line of log.split(/\r?\n/)) {
+    const black = /black_start:\s*([\d.]+)\s+black_end:\s*([\d.]+)/.exec(line);
+    if (black) {
+      result.blackSegments.push(segment(Number(black[1]), Number(black[2])));
+      continue;
+    }
+
+    const freeze = /lavfi\.freezedetect\.freeze_(start|end):\s*([\d.]+)/.exec(line);
+    if (freeze) {
+      if (freeze[1] === 'start') {
+        freezeStart = Number(freeze[2]);
+      } else if (freezeStart !== undefined) {
+        result.frozenSegments.push(segment(freezeStart, Number(freeze[2])));
+        freezeStart = undefined;
+      }
+      continue;
+    }
+
+    const silence = /silence_(start|end):\s*(-?[\d.]+)/.exec(line);
+    if (silence) {
+      // silencedetect potrafi podać ujemny start dla ciszy od początku pliku
+      const time = Math.max(0, Number(silence[2]));
+      if (silence[1] === 'start') {
+        silenceStart = time;
+      } else if (silenceStart !== undefined) {
+        result.silenceSegments.push(segment(silenceStart, time));
+        silenceStart = undefined;
+      }
+      continue;
+    }
+
+    const loudness = /\bt:\s*([\d.]+)\s+.*?\bM:\s*(-?[\d.]+|-inf)/.exec(line);
+    if (loudness) {
+      const lufs = loudness[2] === '-inf' ? LOUDNESS_FLOOR_LUFS : Number(loudness[2]);
+      result.loudness.push({ timeSec: Number(loudness[1]), lufs: Math.max(LOUDNESS_FLOOR_LUFS, lufs) });
+    }
+  }
+
+  if (freezeStart !== undefined) {
+    result.frozenSegments.push(segment(freezeStart, durationSec));
+  }
+  if (silenceStart !== undefined) {
+    result.silenceSegments.push(segment(silenceStart, durationSec));
+  }
+
+  return result;
+}
+
+/**
+ * Średnia energetyczna pomiarów w przedziale [fromSec, toSec]
+ */
+function averageLoudness(samples: LoudnessSample[], fromSec: number, toSec: number): number | undefined {
+  const inRange = samples.filter(s => s.timeSec >= fromSec && s.timeSec <= toSec);
+  if (inRange.length === 0) return undefined;
+  const energy = inRange.reduce((sum, s) => sum + 10 ** (s.lufs / 10), 0) / inRange.length;
+  return Math.round(10 * Math.log10(energy) * 10) / 10;
+}
+
+/**
+ * Głośność przed i po każdym cięciu
+ *
+ * Przed: okna kończące się w (t - 0.5 s, t]. Po: okna kończące się po t + 0.4 s,
+ * czyli zawierające już tylko audio za cięciem.
+ */
+export function measureCutLoudness(samples: LoudnessSample[], cutTimesSec: number[]): RenderCutLoudness[] {
+  return cutTimesSec.map(timeSec => {
+    const beforeLufs = averageLoudness(samples, timeSec - CUT_WINDOW_SEC, timeSec);
+    const afterStart = timeSec + MOMENTARY_WINDOW_SEC;
+    const afterLufs = averageLoudness(samples, afterStart, afterStart + CUT_WINDOW_SEC);
+    return {
+      timeSec,
+      beforeLufs,
+      afterLufs,
+      jumpLu: beforeLufs !== undefined && afterLufs !== undefined
+        ? Math.round(Math.abs(afterLufs - beforeLufs) * 10) / 10
+        : undefined,
+    };
+  });
+}
+
+// ============================================================================
+// PROBE
+// ============================================================================
+
+async function probeStreams(videoPath: string): Promise<{ durationSec: number; streams: StreamTiming[] }> {
+  const { stdout } = await runTool('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'stream=codec_type,start_time,duration:format=duration',
+    '-of', 'json',
+    videoPath,
+  ]);
+
+  const probe = JSON.parse(stdout) as {
+    streams?: Array<{ codec_type?: string; start_time?: string; duration?: string }>;
+    format?: { duration?: string };
+  };
+
+  const streams = (probe.streams ?? [])
+    .filter(s => s.codec_type === 'video' || s.codec_type === 'audio')
+    .map(s => {
+      const startSec = Number(s.start_time ?? 0) || 0;
+      return {
+        codecType: s.codec_type as 'video' | 'audio',
+        startSec,
+        endSec: startSec + (Number(s.duration ?? 0) || 0),
+      };
+    });
+
+  return { durationSec: Number(probe.format?.duration ?? 0) || 0, streams };
+}
+
+/**
+ * Największa różnica startu albo końca pierwszych strumieni audio i wideo (ms)
+ */
+function avDrift(streams: StreamTiming[]): number | undefined {
+  const video = streams.find(s => s.codecType === 'video');
+  const audio = streams.find(s => s.codecType === 'audio');
+  if (!video || !audio) return undefined;
+  const drift = Math.max(Math.abs(audio.startSec - video.startSec), Math.abs(audio.endSec - video.endSec));
+  return Math.round(drift * 1000);
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Analizuje plik wideo (wymaga ffmpeg i ffprobe w PATH)
+ */
+export async function analyzeRender(videoPath: string, options: RenderAnalysisOptions): Promise<RenderAnalysis> {
+  const { durationSec, streams } = await probeStreams(videoPath);
+  if (!streams.some(s => s.codecType === 'video')) {
+    throw new Error(`No video stream in ${path.basename(videoPath)}`);
+  }
+  const hasAudio = streams.some(s => s.codecType === 'audio');
+
+  const args = [
+    '-hide_banner', '-nostats',
+    '-i', videoPath,
+    '-vf', `blackdetect=d=${BLACK_MIN_SEC}:pix_th=0.10,freezedetect=d=${FREEZE_MIN_SEC}`,
+  ];
+  if (hasAudio) {
+    args.push('-af', `silencedetect=n=${options.silenceThresholdDb}dB:d=${SILENCE_MIN_SEC},ebur128=framelog=info`);
+  }
+  args.push('-f', 'null', '-');
+
+  const { stderr } = await runTool('ffmpeg', args);
+  const log = parseFilterLog(stderr, durationSec);
+
+  return {
+    blackSegments: log.blackSegments,
+    frozenSegments: log.frozenSegments,
+    hasAudio,
+    silenceSegments: log.silenceSegments,
+    cutPoints: hasAudio ? measureCutLoudness(log.loudness, options.cutTimesSec) : [],
+    avDriftMs: avDrift(streams),
+  };
+}
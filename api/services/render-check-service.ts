@@ -0,0 +1,71 @@
+/**
+ * Render Check Service - implementacja RenderChecker dla harness
+ *
+ * Renderuje stan końcowy chaptera (fixtures + DataDiff agenta) przez wspólną
+ * kolejkę RenderService, a potem analizuje plik (render-analysis). Job renderu
+ * jest powiązany z suite/scenariuszem, więc plik można obejrzeć w dashboardzie.
+ */
+
+import { renderService } from './render-service';
+import { analyzeRender } from './render-analysis';
+import type { RenderChecker, RenderCheckRequest } from '../../agent-evals/harness/render-checks';
+import type { RenderCheckReport } from '../../agent-evals/types/scenario';
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class RenderCheckService implements RenderChecker {
+  async check(request: RenderCheckRequest): Promise<RenderCheckReport> {
+    const startedAt = Date.now();
+    const { expectation } = request;
+    const report: RenderCheckReport = {
+      engine: expectation.engine,
+      blackSegments: [],
+      frozenSegments: [],
+      hasAudio: false,
+      silenceSegments: [],
+      cutPoints: [],
+    };
+
+    try {
+      const timing = await renderService.getChapterTiming(request.projectId, request.chapterId, request.dataDiff);
+      report.fps = timing.fps;
+      report.expectedDurationInFrames = timing.durationInFrames;
+
+      const job = await renderService.renderChapter(
+        request.suiteId ?? null,
+        request.scenarioId,
+        request.projectId,
+        request.chapterId,
+        expectation.engine,
+        { dataDiff: request.dataDiff }
+      );
+      report.renderJobId = job.jobId;
+
+      await renderService.waitForJob(job.jobId);
+      const finished = renderService.getJob(job.jobId);
+      if (finished?.status !== 'completed' || !finished.outputPath) {
+        throw new Error(finished?.error ?? 'Render job lost');
+      }
+      report.outputPath = finished.outputPath;
+      report.frameCount = finished.output?.frameCount;
+      report.videoDurationSec = finished.output?.durationSec;
+
+      const analysis = await analyzeRender(finished.outputPath, {
+        silenceThresholdDb: expectation.silenceThresholdDb,
+        cutTimesSec: timing.cutFrames.map(frame => frame / timing.fps),
+      });
+      Object.assign(report, analysis);
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      console.error(`[RenderCheckService] Render checks failed for ${request.scenarioId}:`, error);
+    }
+
+    report.analysisDurationMs = Date.now() - startedAt;
+    return report;
+  }
+}
+
+// Singleton
+export const renderCheckService = new RenderCheckService();
@@ -0,0 +1,422 @@
+/**
+ * Render Job Store - historia jobów renderowania (SQLite)
+ *
+ * Wspólny dla renderów chapter'ów (RenderService) i kompozycji
+ * (CompositionTestService). Status, postęp, czasy, metadane pliku wyjściowego
+ * (ffprobe) i źródło (suite/scenariusz albo fixture) przeżywają restart serwera.
+ * Tabela render_settings trzyma ustawienia kolejki (np. politykę retencji).
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type { RenderEngine, RenderedVideoInfo } from '../../composition-tests/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RenderJobKind = 'chapter' | 'composition';
+
+export type RenderJobStatus = 'pending' | 'rendering' | 'encoding' | 'completed' | 'error';
+
+export interface RenderJobRecord {
+  jobId: string;
+  kind: RenderJobKind;
+  engine: RenderEngine;
+  status: RenderJobStatus;
+  progress: number;
+  currentFrame?: number;
+  totalFrames?: number;
+
+  // Źródło - chapter z suite/scenariusza albo fixture kompozycji
+  projectId?: string;
+  chapterId?: string;
+  suiteId?: string;
+  scenarioId?: string;
+  fixtureId?: string;
+  compositionDefinitionId?: string;
+  variantName?: string;
+  /** Parametry potrzebne do ponowienia joba (np. snapshot fixture'a) */
+  params?: Record<string, unknown>;
+
+  outputPath?: string;
+  output?: RenderedVideoInfo;
+  /** Plik usunięty (retencja, ręcznie albo nadpisany nowszym renderem) */
+  outputDeletedAt?: string;
+
+  error?: string;
+  attempt: number;
+  retryOf?: string;
+
+  startedAt: string;           // utworzenie joba (wejście do kolejki)
+  renderStartedAt?: string;    // początek renderowania
+  completedAt?: string;
+  renderDurationMs?: number;
+}
+
+export type RenderJobUpdate = Partial<Omit<RenderJobRecord, 'jobId' | 'kind' | 'startedAt'>>;
+
+export interface RenderJobFilter {
+  kind?: RenderJobKind;
+  status?: RenderJobStatus;
+  fixtureId?: string;
+  suiteId?: string;
+  scenarioId?: string;
+  limit?: number;
+}
+
+interface RenderJobRow {
+  id: string;
+  kind: RenderJobKind;
+  engine: RenderEngine;
+  status: RenderJobStatus;
+  progress: number;
+  current_frame: number | null;
+  total_frames: number | null;
+  project_id: string | null;
+  chapter_id: string | null;
+  suite_id: string | null;
+  scenario_id: string | null;
+  fixture_id: string | null;
+  definition_id: string | null;
+  variant_name: string | null;
+  params: string | null;
+  output_path: string | null;
+  output_info: string | null;
+  output_deleted_at: string | null;
+  error: string | null;
+  attempt: number;
+  retry_of: string | null;
+  started_at: string;
+  render_started_at: string | null;
+  completed_at: string | null;
+  render_duration_ms: number | null;
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS render_jobs (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  engine TEXT NOT NULL,
+  status TEXT NOT NULL,
+  progress REAL NOT NULL DEFAULT 0,
+  current_frame INTEGER,
+  total_frames INTEGER,
+  project_id TEXT,
+  chapter_id TEXT,
+  suite_id TEXT,
+  scenario_id TEXT,
+  fixture_id TEXT,
+  definition_id TEXT,
+  variant_name TEXT,
+  params TEXT,
+  output_path TEXT,
+  output_info TEXT,
+  output_deleted_at TEXT,
+  error TEXT,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  retry_of TEXT,
+  started_at TEXT NOT NULL,
+  render_started_at TEXT,
+  completed_at TEXT,
+  render_duration_ms INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS render_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+`;
+
+/** Postęp zapisywany do bazy co najmniej o tyle punktów procentowych... */
+const PROGRESS_MIN_DELTA = 1;
+/** ...albo po tym czasie od poprzedniego zapisu */
+const PROGRESS_MIN_INTERVAL_MS = 500;
+
+// Kolumny dodane do tabeli z pierwszej wersji (same joby kompozycji)
+const MIGRATED_COLUMNS: Array<[string, string]> = [
+  ['kind', "TEXT NOT NULL DEFAULT 'composition'"],
+  ['current_frame', 'INTEGER'],
+  ['total_frames', 'INTEGER'],
+  ['project_id', 'TEXT'],
+  ['chapter_id', 'TEXT'],
+  ['suite_id', 'TEXT'],
+  ['scenario_id', 'TEXT'],
+  ['output_info', 'TEXT'],
+  ['output_deleted_at', 'TEXT'],
+  ['attempt', 'INTEGER NOT NULL DEFAULT 1'],
+  ['retry_of', 'TEXT'],
+  ['render_started_at', 'TEXT'],
+];
+
+const INDEXES = `
+CREATE INDEX IF NOT EXISTS idx_render_jobs_kind ON render_jobs(kind, started_at);
+CREATE INDEX IF NOT EXISTS idx_render_jobs_status ON render_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_render_jobs_fixture ON render_jobs(fixture_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_render_jobs_scenario ON render_jobs(suite_id, scenario_id);
+CREATE INDEX IF NOT EXISTS idx_render_jobs_output ON render_jobs(output_path);
+`;
+
+function rowToJob(row: RenderJobRow): RenderJobRecord {
+  return {
+    jobId: row.id,
+    kind: row.kind,
+    engine: row.engine,
+    status: row.status,
+    progress: row.progress,
+    currentFrame: row.current_frame ?? undefined,
+    totalFrames: row.total_frames ?? undefined,
+    projectId: row.project_id ?? undefined,
+    chapterId: row.chapter_id ?? undefined,
+    suiteId: row.suite_id ?? undefined,
+    scenarioId: row.scenario_id ?? undefined,
+    fixtureId: row.fixture_id ?? undefined,
+    compositionDefinitionId: row.definition_id ?? undefined,
+    variantName: row.variant_name ?? undefined,
+    params: row.params ? (JSON.parse(row.params) as Record<string, unknown>) : undefined,
+    outputPath: row.output_path ?? undefined,
+    output: row.output_info ? (JSON.parse(row.output_info) as RenderedVideoInfo) : undefined,
+    outputDeletedAt: row.output_deleted_at ?? undefined,
+    error: row.error ?? undefined,
+    attempt: row.attempt,
+    retryOf: row.retry_of ?? undefined,
+    startedAt: row.started_at,
+    renderStartedAt: row.render_started_at ?? undefined,
+    completedAt: row.completed_at ?? undefined,
+    renderDurationMs: row.render_duration_ms ?? undefined,
+  };
+}
+
+function jobToParams(job: RenderJobRecord): unknown[] {
+  return [
+    job.kind,
+    job.engine,
+    job.status,
+    job.progress,
+    job.currentFrame ?? null,
+    job.totalFrames ?? null,
+    job.projectId ?? null,
+    job.chapterId ?? null,
+    job.suiteId ?? null,
+    job.scenarioId ?? null,
+    job.fixtureId ?? null,
+    job.compositionDefinitionId ?? null,
+    job.variantName ?? null,
+    job.params ? JSON.stringify(job.params) : null,
+    job.outputPath ?? null,
+    job.output ? JSON.stringify(job.output) : null,
+    job.outputDeletedAt ?? null,
+    job.error ?? null,
+    job.attempt,
+    job.retryOf ?? null,
+    job.startedAt,
+    job.renderStartedAt ?? null,
+    job.completedAt ?? null,
+    job.renderDurationMs ?? null,
+  ];
+}
+
+const COLUMNS = [
+  'kind', 'engine', 'status', 'progress', 'current_frame', 'total_frames',
+  'project_id', 'chapter_id', 'suite_id', 'scenario_id', 'fixture_id', 'definition_id', 'variant_name',
+  'params', 'output_path', 'output_info', 'output_deleted_at', 'error', 'attempt', 'retry_of',
+  'started_at', 'render_started_at', 'completed_at', 'render_duration_ms',
+];
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class RenderJobStore {
+  private db: Database.Database;
+  /** Ostatnio zapisany postęp jobów w toku - do dławienia zapisów updateProgress */
+  private lastProgressWrites = new Map<string, { status: RenderJobStatus; progress: number; writtenAt: number }>();
+
+  constructor(dbPath?: string) {
+    const baseDir = path.join(__dirname, '../../agent-evals/results');
+    if (!fs.existsSync(baseDir)) {
+      fs.mkdirSync(baseDir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath || path.join(baseDir, 'render-jobs.db'));
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    this.migrateSchema();
+    this.db.exec(INDEXES);
+  }
+
+  private migrateSchema(): void {
+    const columns = this.db.prepare('PRAGMA table_info(render_jobs)').all() as Array<{ name: string }>;
+    const columnNames = new Set(columns.map(c => c.name));
+    for (const [name, definition] of MIGRATED_COLUMNS) {
+      if (!columnNames.has(name)) {
+        this.db.exec(`ALTER TABLE render_jobs ADD COLUMN ${name} ${definition}`);
+      }
+    }
+  }
+
+  createJob(job: RenderJobRecord): RenderJobRecord {
+    this.db.prepare(`
+      INSERT INTO render_jobs (id, ${COLUMNS.join(', ')})
+      VALUES (?, ${COLUMNS.map(() => '?').join(', ')})
+    `).run(job.jobId, ...jobToParams(job));
+    return job;
+  }
+
+  updateJob(jobId: string, update: RenderJobUpdate): RenderJobRecord | null {
+    const current = this.getJob(jobId);
+    if (!current) return null;
+
+    const next: RenderJobRecord = { ...current, ...update };
+    this.lastProgressWrites.delete(jobId);
+    this.db.prepare(`
+      UPDATE render_jobs
+      SET ${COLUMNS.map(c => `${c} = ?`).join(', ')}
+      WHERE id = ?
+    `).run(...jobToParams(next), jobId);
+    return next;
+  }
+
+  /**
+   * Sam postęp - wywoływane na każdą klatkę, więc bez odczytu całego wiersza.
+   * Zapis tylko przy zmianie statusu, zmianie postępu o PROGRESS_MIN_DELTA albo
+   * po PROGRESS_MIN_INTERVAL_MS - synchroniczny zapis na każdą klatkę blokowałby render.
+   */
+  updateProgress(
+    jobId: string,
+    progress: { status: RenderJobStatus; progress: number; currentFrame?: number; totalFrames?: number }
+  ): void {
+    const now = Date.now();
+    const last = this.lastProgressWrites.get(jobId);
+    if (
+      last &&
+      last.status === progress.status &&
+      Math.abs(progress.progress - last.progress) < PROGRESS_MIN_DELTA &&
+      now - last.writtenAt < PROGRESS_MIN_INTERVAL_MS
+    ) {
+      return;
+    }
+    this.lastProgressWrites.set(jobId, { status: progress.status, progress: progress.progress, writtenAt: now });
+
+    this.db.prepare(`
+      UPDATE render_jobs
+      SET status = ?, progress = ?, current_frame = COALESCE(?, current_frame), total_frames = COALESCE(?, total_frames)
+      WHERE id = ?
+    `).run(progress.status, progress.progress, progress.currentFrame ?? null, progress.totalFrames ?? null, jobId);
+  }
+
+  getJob(jobId: string): RenderJobRecord | null {
+    const row = this.db.prepare('SELECT * FROM render_jobs WHERE id = ?').get(jobId) as RenderJobRow | undefined;
+    return row ? rowToJob(row) : null;
+  }
+
+  listJobs(filter: RenderJobFilter = {}): RenderJobRecord[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.kind) {
+      conditions.push('kind = ?');
+      params.push(filter.kind);
+    }
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+    if (filter.fixtureId) {
+      conditions.push('fixture_id = ?');
+      params.push(filter.fixtureId);
+    }
+    if (filter.suiteId) {
+      conditions.push('suite_id = ?');
+      params.push(filter.suiteId);
+    }
+    if (filter.scenarioId) {
+      conditions.push('scenario_id = ?');
+      params.push(filter.scenarioId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM render_jobs ${where} ORDER BY started_at DESC LIMIT ?`)
+      .all(...params, filter.limit ?? 100) as RenderJobRow[];
+    return rows.map(rowToJob);
+  }
+
+  /**
+   * Joby, których plik wyjściowy nadal istnieje (wg bazy)
+   */
+  listJobsWithOutput(): RenderJobRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM render_jobs
+      WHERE output_path IS NOT NULL AND output_deleted_at IS NULL
+      ORDER BY started_at DESC
+    `).all() as RenderJobRow[];
+    return rows.map(rowToJob);
+  }
+
+  deleteJob(jobId: string): boolean {
+    return this.db.prepare('DELETE FROM render_jobs WHERE id = ?').run(jobId).changes > 0;
+  }
+
+  /**
+   * Oznacza plik jako usunięty we wszystkich jobach, które na niego wskazują
+   * (poza `exceptJobId` - render kompozycji nadpisuje plik poprzedniego joba)
+   *
+   * @returns liczba oznaczonych jobów
+   */
+  markOutputDeleted(outputPath: string, exceptJobId?: string): number {
+    return this.db.prepare(`
+      UPDATE render_jobs
+      SET output_deleted_at = ?
+      WHERE output_path = ? AND output_deleted_at IS NULL AND id != ?
+    `).run(new Date().toISOString(), outputPath, exceptJobId ?? '').changes;
+  }
+
+  /**
+   * Joby przerwane restartem serwera - oznacza je jako błąd
+   *
+   * Wywoływane tylko przy starcie serwera API - CLI otwiera tę samą bazę,
+   * a joby renderowane w tym czasie przez serwer nie są przerwane.
+   *
+   * @returns liczba oznaczonych jobów
+   */
+  failInterruptedJobs(): number {
+    return this.db.prepare(`
+      UPDATE render_jobs
+      SET status = 'error', error = 'Interrupted by server restart', completed_at = ?
+      WHERE status IN ('pending', 'rendering', 'encoding')
+    `).run(new Date().toISOString()).changes;
+  }
+
+  // ==========================================================================
+  // SETTINGS
+  // ==========================================================================
+
+  getSetting<T>(key: string): T | undefined {
+    const row = this.db.prepare('SELECT value FROM render_settings WHERE key = ?').get(key) as
+      | { value: string }
+      | undefined;
+    return row ? (JSON.parse(row.value) as T) : undefined;
+  }
+
+  setSetting(key: string, value: unknown): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO render_settings (key, value, updated_at) VALUES (?, ?, ?)
+    `).run(key, JSON.stringify(value), new Date().toISOString());
+  }
+}
+
+// Singleton
+let instance: RenderJobStore | null = null;
+
+export function getRenderJobStore(): RenderJobStore {
+  if (!instance) {
+    instance = new RenderJobStore();
+  }
+  return instance;
+}
@@ -0,0 +1,200 @@
+/**
+ * Render Queue - wspólna kolejka renderów + retencja plików wyjściowych
+ *
+ * Render chapter'a i render kompozycji podmieniają globalny storageRegistry,
+ * więc dwa rendery naraz nadpisywałyby sobie dane - kolejka wykonuje je po
+ * kolei. Po każdym renderze retencja usuwa najstarsze pliki MP4 z katalogów
+ * renderów, gdy przekroczą limit wieku albo łącznego rozmiaru. Polityka ustawiona
+ * przez API jest zapisywana w render-job-store (render_settings).
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { getRenderJobStore } from './render-job-store';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RenderRetentionPolicy {
+  /** Pliki starsze niż N dni są usuwane (0 = bez limitu) */
+  maxAgeDays: number;
+  /** Łączny limit rozmiaru plików we wszystkich katalogach renderów (0 = bez limitu) */
+  maxTotalBytes: number;
+}
+
+export interface RenderDiskUsage {
+  totalBytes: number;
+  fileCount: number;
+  dirs: Array<{ dir: string; bytes: number; fileCount: number }>;
+  policy: RenderRetentionPolicy;
+}
+
+export interface RetentionResult {
+  deletedFiles: string[];
+  freedBytes: number;
+  remainingBytes: number;
+}
+
+interface RenderFile {
+  filePath: string;
+  sizeBytes: number;
+  modifiedMs: number;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const GB = 1024 * 1024 * 1024;
+
+const DEFAULT_RETENTION_POLICY: RenderRetentionPolicy = {
+  maxAgeDays: parseInt(process.env.RENDER_RETENTION_MAX_AGE_DAYS || '30') || 0,
+  maxTotalBytes: (parseFloat(process.env.RENDER_RETENTION_MAX_GB || '10') || 0) * GB,
+};
+
+const RETENTION_POLICY_SETTING = 'retentionPolicy';
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+class RenderQueue {
+  private tail: Promise<void> = Promise.resolve();
+  private waiting = 0;
+  private running = false;
+  private outputDirs: Set<string> = new Set();
+  private currentPolicy: RenderRetentionPolicy | null = null;
+
+  /**
+   * Katalog z plikami MP4 objęty retencją (rejestrowany przez serwisy renderujące)
+   */
+  registerOutputDir(dir: string): void {
+    this.outputDirs.add(dir);
+  }
+
+  /**
+   * Dodaje render do kolejki. `task` sam zapisuje status joba (także błąd);
+   * zwracana ścieżka pliku jest chroniona przed retencją uruchamianą zaraz po nim.
+   */
+  enqueue(jobId: string, task: () => Promise<string | undefined>): void {
+    this.waiting++;
+    this.tail = this.tail.then(async () => {
+      this.waiting--;
+      this.running = true;
+      let outputPath: string | undefined;
+
+      try {
+        outputPath = await task();
+      } catch (error) {
+        console.error(`[RenderQueue] Render job ${jobId} failed:`, error);
+      } finally {
+        this.running = false;
+      }
+
+      try {
+        this.applyRetention(outputPath ? [outputPath] : []);
+      } catch (error) {
+        console.error('[RenderQueue] Retention error:', error);
+      }
+    });
+  }
+
+  getStatus(): { running: boolean; waiting: number } {
+    return { running: this.running, waiting: this.waiting };
+  }
+
+  // ==========================================================================
+  // RETENTION
+  // ==========================================================================
+
+  /**
+   * Polityka wczytywana przy pierwszym użyciu - zapisana nadpisuje wartości z env
+   */
+  private get policy(): RenderRetentionPolicy {
+    if (!this.currentPolicy) {
+      const saved = getRenderJobStore().getSetting<Partial<RenderRetentionPolicy>>(RETENTION_POLICY_SETTING);
+      this.currentPolicy = { ...DEFAULT_RETENTION_POLICY, ...saved };
+    }
+    return this.currentPolicy;
+  }
+
+  getPolicy(): RenderRetentionPolicy {
+    return { ...this.policy };
+  }
+
+  setPolicy(policy: Partial<RenderRetentionPolicy>): RenderRetentionPolicy {
+    this.currentPolicy = { ...this.policy, ...policy };
+    getRenderJobStore().setSetting(RETENTION_POLICY_SETTING, this.currentPolicy);
+    return this.getPolicy();
+  }
+
+  private listFiles(dir: string): RenderFile[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+      .filter(f => f.endsWith('.mp4'))
+      .map(f => {
+        const filePath = path.join(dir, f);
+        const stats = fs.statSync(filePath);
+        return { filePath, sizeBytes: stats.size, modifiedMs: stats.mtimeMs };
+      });
+  }
+
+  getDiskUsage(): RenderDiskUsage {
+    const dirs = [...this.outputDirs].map(dir => {
+      const files = this.listFiles(dir);
+      return { dir, bytes: files.reduce((sum, f) => sum + f.sizeBytes, 0), fileCount: files.length };
+    });
+    return {
+      totalBytes: dirs.reduce((sum, d) => sum + d.bytes, 0),
+      fileCount: dirs.reduce((sum, d) => sum + d.fileCount, 0),
+      dirs,
+      policy: this.getPolicy(),
+    };
+  }
+
+  /**
+   * Usuwa pliki starsze niż maxAgeDays, potem najstarsze aż łączny rozmiar
+   * zmieści się w maxTotalBytes. Nie rusza plików z `keepPaths` ani renderów
+   * w toku; joby wskazujące na usunięte pliki dostają outputDeletedAt.
+   */
+  applyRetention(keepPaths: string[] = []): RetentionResult {
+    const store = getRenderJobStore();
+    const keep = new Set(keepPaths);
+    for (const job of store.listJobs({ status: 'rendering' }).concat(store.listJobs({ status: 'encoding' }))) {
+      if (job.outputPath) keep.add(job.outputPath);
+    }
+
+    const files = [...this.outputDirs]
+      .flatMap(dir => this.listFiles(dir))
+      .sort((a, b) => a.modifiedMs - b.modifiedMs);
+    let remainingBytes = files.reduce((sum, f) => sum + f.sizeBytes, 0);
+    const maxAgeMs = this.policy.maxAgeDays * 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    const deletedFiles: string[] = [];
+    let freedBytes = 0;
+
+    for (const file of files) {
+      if (keep.has(file.filePath)) continue;
+
+      const tooOld = maxAgeMs > 0 && now - file.modifiedMs > maxAgeMs;
+      const overLimit = this.policy.maxTotalBytes > 0 && remainingBytes > this.policy.maxTotalBytes;
+      if (!tooOld && !overLimit) continue;
+
+      fs.rmSync(file.filePath, { force: true });
+      store.markOutputDeleted(file.filePath);
+      deletedFiles.push(file.filePath);
+      freedBytes += file.sizeBytes;
+      remainingBytes -= file.sizeBytes;
+    }
+
+    if (deletedFiles.length > 0) {
+      console.log(`[RenderQueue] Retention removed ${deletedFiles.length} render(s), freed ${(freedBytes / 1024 / 1024).toFixed(1)} MB`);
+    }
+
+    return { deletedFiles, freedBytes, remainingBytes };
+  }
+}
+
+// Singleton
+export const renderQueue = new RenderQueue();
@@ -4,7 +4,8 @@
  * Renderuje chapter'y używając danych z SQLite fixtures + data_diff z evals.db.
  * Workflow:
  * 1. Ładuje fixtures z SQLite (stan początkowy)
- * 2. Pobiera data_diff z evals.db (zmiany wykonane przez agenta)
+ * 2. Pobiera data_diff z evals.db (zmiany wykonane przez agenta) - albo bierze
+ *    podany wprost (render checks w harness, zanim wynik trafi do bazy)
  * 3. Stosuje diff na fixtures → stan końcowy
  * 4. Wywołuje RemotionExportService
  */
@@ -16,7 +17,13 @@ import { EventEmitter } from 'events';
 import { initializeElectronEnvWithPath } from '../../../desktop-app/electron/utils/electronEnv';
 import { loadFixturesFromSqlite, type SqliteFixtureData } from './sqlite-fixture-loader';
 import { getResultsStore } from './results-store';
+import { getRenderJobStore, type RenderJobFilter, type RenderJobRecord, type RenderJobStore } from './render-job-store';
+import { renderQueue } from './render-queue';
+import { probeVideo } from './ffmpeg-frames';
 import { JsonStorage } from '../../agent-evals/storage/json-storage';
+import { getActiveSandbox } from '../../agent-evals/harness/sandbox';
+import type { DataDiff } from '../../agent-evals/types/scenario';
+import type { RenderEngine, RenderedVideoInfo } from '../../composition-tests/types';
 import { storageRegistry } from '../../../desktop-app/shared/storage';
 import type { Block, MediaAsset, Project, Chapter, Timeline, ProjectExportConfig } from '../../../desktop-app/shared/types';
 import type { ChapterProgressCallback } from '../../../desktop-app/electron/services/RemotionExportService';
@@ -42,15 +49,41 @@ export interface RenderJob {
   jobId: string;
   projectId: string;
   chapterId: string;
+  suiteId?: string;
+  scenarioId?: string;
+  engine: RenderEngine;
   status: RenderStatus;
   progress: number;
   currentFrame?: number;
   totalFrames?: number;
   previewFrame?: string;  // Base64 encoded JPEG
   outputPath?: string;
+  output?: RenderedVideoInfo;   // ffprobe zakończonego renderu
+  outputDeletedAt?: string;
   error?: string;
+  attempt: number;
+  retryOf?: string;
   startedAt: string;
+  renderStartedAt?: string;
   completedAt?: string;
+  renderDurationMs?: number;
+}
+
+export interface RenderChapterOptions {
+  /** Job, który jest ponawiany (numer próby + powiązanie) */
+  retryOf?: RenderJobRecord;
+  /** Zmiany agenta - zamiast data_diff zapisanego w evals.db */
+  dataDiff?: DataDiff;
+}
+
+/**
+ * Oczekiwany przebieg chaptera wg timeline'u (do porównania z renderem)
+ */
+export interface ChapterTiming {
+  fps: number;
+  durationInFrames: number;
+  /** Granice bloków na timeline'ach wideo (bez początku i końca chaptera) */
+  cutFrames: number[];
 }
 
 export interface RenderProgress {
@@ -65,8 +98,35 @@ export interface RenderProgress {
 // RENDER SERVICE
 // ============================================================================
 
+function toRenderJob(record: RenderJobRecord, previewFrame?: string): RenderJob {
+  return {
+    jobId: record.jobId,
+    projectId: record.projectId ?? '',
+    chapterId: record.chapterId ?? '',
+    suiteId: record.suiteId,
+    scenarioId: record.scenarioId,
+    engine: record.engine,
+    status: record.status,
+    progress: record.progress,
+    currentFrame: record.currentFrame,
+    totalFrames: record.totalFrames,
+    previewFrame,
+    outputPath: record.outputPath,
+    output: record.output,
+    outputDeletedAt: record.outputDeletedAt,
+    error: record.error,
+    attempt: record.attempt,
+    retryOf: record.retryOf,
+    startedAt: record.startedAt,
+    renderStartedAt: record.renderStartedAt,
+    completedAt: record.completedAt,
+    renderDurationMs: record.renderDurationMs,
+  };
+}
+
 class RenderService extends EventEmitter {
-  private jobs: Map<string, RenderJob> = new Map();
+  // Podgląd klatki tylko w pamięci (base64 JPEG) - nie trafia do bazy
+  private previews: Map<string, string> = new Map();
 
   constructor() {
     super();
@@ -74,6 +134,11 @@ class RenderService extends EventEmitter {
     if (!fs.existsSync(RENDERS_OUTPUT_DIR)) {
       fs.mkdirSync(RENDERS_OUTPUT_DIR, { recursive: true });
     }
+    renderQueue.registerOutputDir(RENDERS_OUTPUT_DIR);
+  }
+
+  private get store(): RenderJobStore {
+    return getRenderJobStore();
   }
 
   /**
@@ -84,53 +149,113 @@ class RenderService extends EventEmitter {
    * @param projectId - ID projektu
    * @param chapterId - ID chaptera do wyrenderowania
    * @param engine - silnik renderowania: 'remotion' (default) lub 'puppeteer'
+   * @param options - ponowienie joba / data_diff podany wprost
    */
   async renderChapter(
     suiteId: string | null,
     scenarioId: string | null,
     projectId: string,
     chapterId: string,
-    engine: 'remotion' | 'puppeteer' = 'remotion'
+    engine: RenderEngine = 'remotion',
+    options: RenderChapterOptions = {}
   ): Promise<RenderJob> {
     const jobId = uuidv4();
+    const { retryOf, dataDiff } = options;
 
     // Utwórz job
-    const job: RenderJob = {
+    const record = this.store.createJob({
       jobId,
-      projectId,
-      chapterId,
+      kind: 'chapter',
+      engine,
       status: 'pending',
       progress: 0,
+      projectId,
+      chapterId,
+      suiteId: suiteId ?? undefined,
+      scenarioId: scenarioId ?? undefined,
+      params: dataDiff ? { dataDiff } : undefined,
+      attempt: retryOf ? retryOf.attempt + 1 : 1,
+      retryOf: retryOf?.jobId,
       startedAt: new Date().toISOString(),
-    };
-
-    this.jobs.set(jobId, job);
+    });
 
-    // Renderuj asynchronicznie
-    this.executeRender(jobId, suiteId, scenarioId, projectId, chapterId, engine).catch((error) => {
-      const currentJob = this.jobs.get(jobId);
-      if (currentJob) {
-        currentJob.status = 'error';
-        currentJob.error = error instanceof Error ? error.message : String(error);
-        this.emit('render:error', { jobId, error: currentJob.error });
+    // Renderuj w kolejce (jeden render naraz)
+    renderQueue.enqueue(jobId, async () => {
+      try {
+        await this.executeRender(jobId, suiteId, scenarioId, projectId, chapterId, engine, dataDiff);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.store.updateJob(jobId, { status: 'error', error: message, completedAt: new Date().toISOString() });
+        this.emit('render:error', { jobId, error: message });
+      } finally {
+        this.previews.delete(jobId);
       }
+      return this.store.getJob(jobId)?.outputPath;
     });
 
-    return job;
+    return toRenderJob(record);
+  }
+
+  /**
+   * Ponów renderowanie zakończone błędem - nowy job z tymi samymi parametrami
+   */
+  async retryJob(jobId: string): Promise<RenderJob> {
+    const record = this.store.getJob(jobId);
+    if (!record || record.kind !== 'chapter') {
+      throw new Error(`Render job not found: ${jobId}`);
+    }
+    if (record.status !== 'error') {
+      throw new Error(`Only failed render jobs can be retried (status: ${record.status})`);
+    }
+
+    return this.renderChapter(
+      record.suiteId ?? null,
+      record.scenarioId ?? null,
+      record.projectId ?? '',
+      record.chapterId ?? '',
+      record.engine,
+      { retryOf: record, dataDiff: record.params?.dataDiff as DataDiff | undefined }
+    );
+  }
+
+  /**
+   * Czeka na zakończenie joba (completed albo error)
+   */
+  waitForJob(jobId: string): Promise<void> {
+    return new Promise((resolve) => {
+      const check = () => {
+        const job = this.store.getJob(jobId);
+        if (!job || job.status === 'completed' || job.status === 'error') {
+          resolve();
+          return;
+        }
+        setTimeout(check, 500);
+      };
+      check();
+    });
   }
 
   /**
    * Pobierz status renderowania
    */
   getJob(jobId: string): RenderJob | undefined {
-    return this.jobs.get(jobId);
+    const record = this.store.getJob(jobId);
+    if (!record || record.kind !== 'chapter') return undefined;
+    return toRenderJob(record, this.previews.get(jobId));
+  }
+
+  /**
+   * Historia renderów chapter'ów (najnowsze pierwsze)
+   */
+  listJobs(filter: Omit<RenderJobFilter, 'kind' | 'fixtureId'> = {}): RenderJob[] {
+    return this.store.listJobs({ ...filter, kind: 'chapter' }).map(r => toRenderJob(r));
   }
 
   /**
    * Usuń renderowanie (plik + job)
    */
   deleteRender(jobId: string): boolean {
-    const job = this.jobs.get(jobId);
+    const job = this.getJob(jobId);
     if (!job) return false;
 
     // Usuń plik jeśli istnieje
@@ -138,7 +263,7 @@ class RenderService extends EventEmitter {
       fs.unlinkSync(job.outputPath);
     }
 
-    this.jobs.delete(jobId);
+    this.store.deleteJob(jobId);
     return true;
   }
 
@@ -149,20 +274,60 @@ class RenderService extends EventEmitter {
     return RENDERS_OUTPUT_DIR;
   }
 
+  /**
+   * Oczekiwana długość chaptera i punkty cięć po nałożeniu data_diff na fixtures
+   */
+  async getChapterTiming(projectId: string, chapterId: string, dataDiff: DataDiff | null): Promise<ChapterTiming> {
+    const fixtureData = await loadFixturesFromSqlite(projectId, chapterId, FIXTURES_DB_PATH);
+    const finalData = this.applyDataDiff(fixtureData, dataDiff);
+
+    const timelines = finalData.timelines.filter(t => t.chapterId === chapterId);
+    const timelineIds = new Set(timelines.map(t => t.id));
+    const videoTimelineIds = new Set(timelines.filter(t => t.type === 'video').map(t => t.id));
+    const blocks = this.enrichBlocksWithAssets(
+      finalData.blocks.filter(b => timelineIds.has(b.timelineId)),
+      finalData.mediaAssets
+    );
+
+    const projectSettings = finalData.project.projectSettings || finalData.project.settings || {};
+    const fps = Number(projectSettings['project.fps']) || 30;
+    const durationInFrames = this.calculateDuration(blocks, fps);
+
+    const cutFrames = new Set<number>();
+    for (const block of blocks.filter(b => videoTimelineIds.has(b.timelineId))) {
+      const { startFrame, endFrame } = this.blockFrameRange(block, fps);
+      cutFrames.add(startFrame);
+      cutFrames.add(endFrame);
+    }
+
+    return {
+      fps,
+      durationInFrames,
+      cutFrames: [...cutFrames].filter(f => f > 0 && f < durationInFrames).sort((a, b) => a - b),
+    };
+  }
+
+  /**
+   * Zakres klatek bloku na timeline (w fps projektu)
+   */
+  private blockFrameRange(block: Block, fps: number): { startFrame: number; endFrame: number } {
+    const offset = block.timelineOffsetInFrames ?? 0;
+    const sourceFps = block.mediaAsset?.metadata?.sourceFps ?? fps;
+    const sourceDuration = block.mediaAsset?.metadata?.sourceDurationInFrames ?? 90;
+    const startFrame = block.fileRelativeStartFrame ?? 0;
+    const endFrame = block.fileRelativeEndFrame ?? sourceDuration;
+    const durationInSourceFps = endFrame - startFrame;
+    const durationInProjectFps = Math.round(durationInSourceFps * fps / sourceFps);
+    return { startFrame: offset, endFrame: offset + durationInProjectFps };
+  }
+
   /**
    * Oblicz calkowity czas trwania chaptera w klatkach (max endFrame z blocks).
    */
   private calculateDuration(blocks: Block[], fps: number): number {
     let maxEndFrame = 0;
     for (const block of blocks) {
-      const offset = block.timelineOffsetInFrames ?? 0;
-      const sourceFps = block.mediaAsset?.metadata?.sourceFps ?? fps;
-      const sourceDuration = block.mediaAsset?.metadata?.sourceDurationInFrames ?? 90;
-      const startFrame = block.fileRelativeStartFrame ?? 0;
-      const endFrame = block.fileRelativeEndFrame ?? sourceDuration;
-      const durationInSourceFps = endFrame - startFrame;
-      const durationInProjectFps = Math.round(durationInSourceFps * fps / sourceFps);
-      const blockEnd = offset + durationInProjectFps;
+      const blockEnd = this.blockFrameRange(block, fps).endFrame;
       if (blockEnd > maxEndFrame) {
         maxEndFrame = blockEnd;
       }
@@ -179,10 +344,11 @@ class RenderService extends EventEmitter {
     scenarioId: string | null,
     projectId: string,
     chapterId: string,
-    engine: 'remotion' | 'puppeteer' = 'remotion'
+    engine: RenderEngine = 'remotion',
+    dataDiffOverride?: DataDiff
   ): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
+    const renderStartedAt = new Date();
+    this.store.updateJob(jobId, { renderStartedAt: renderStartedAt.toISOString() });
 
     console.log(`[RenderService] Starting render job ${jobId} for chapter ${chapterId}`);
 
@@ -190,12 +356,12 @@ class RenderService extends EventEmitter {
     console.log('[RenderService] Loading fixtures from SQLite...');
     const fixtureData = await loadFixturesFromSqlite(projectId, chapterId, FIXTURES_DB_PATH);
 
-    // 2. Pobierz data_diff z evals.db (zmiany wykonane przez agenta)
-    console.log('[RenderService] Loading data_diff from evals.db...');
-    const resultsStore = getResultsStore();
-    const dataDiff = (suiteId && scenarioId)
-      ? resultsStore.getScenarioDataDiff(suiteId, scenarioId)
-      : null;
+    // 2. Pobierz data_diff z evals.db (zmiany wykonane przez agenta), o ile nie podano wprost
+    let dataDiff: DataDiff | null = dataDiffOverride ?? null;
+    if (!dataDiffOverride && suiteId && scenarioId) {
+      console.log('[RenderService] Loading data_diff from evals.db...');
+      dataDiff = getResultsStore().getScenarioDataDiff(suiteId, scenarioId);
+    }
 
     // 3. Zastosuj diff na fixtures → stan końcowy
     const finalData = this.applyDataDiff(fixtureData, dataDiff);
@@ -203,23 +369,29 @@ class RenderService extends EventEmitter {
 
     // 4. Zainicjalizuj StorageRegistry z danymi z fixtures
     // RemotionExportService używa mediaAssetService.findById() wewnętrznie (do serwowania plików przez HTTP)
-    const jsonStorage = new JsonStorage();
-    this.loadDataToJsonStorage(jsonStorage, finalData);
-
-    storageRegistry.setAll({
-      project: jsonStorage.getProjectStorage(),
-      chapter: jsonStorage.getChapterStorage(),
-      timeline: jsonStorage.getTimelineStorage(),
-      block: jsonStorage.getBlockStorage(),
-      mediaAsset: jsonStorage.getMediaAssetStorage(),
-      chat: jsonStorage.getChatStorage(),
-      enrichment: jsonStorage.getEnrichmentStorage(),
-      settings: jsonStorage.getSettingsStorage(),
-      person: jsonStorage.getPersonStorage(),
-      dynamicComposition: jsonStorage.getDynamicCompositionStorage(),
-    });
-
-    console.log('[RenderService] Initialized StorageRegistry with fixture data');
+    // Render z sandboxa scenariusza (render checks w harness) zostawia rejestr w spokoju -
+    // kieruje on już do storage scenariusza (ten sam stan końcowy), a podmiana
+    // zepsułaby routing scenariuszy działających równolegle.
+    const inSandbox = getActiveSandbox() !== null;
+    if (!inSandbox) {
+      const jsonStorage = new JsonStorage();
+      this.loadDataToJsonStorage(jsonStorage, finalData);
+
+      storageRegistry.setAll({
+        project: jsonStorage.getProjectStorage(),
+        chapter: jsonStorage.getChapterStorage(),
+        timeline: jsonStorage.getTimelineStorage(),
+        block: jsonStorage.getBlockStorage(),
+        mediaAsset: jsonStorage.getMediaAssetStorage(),
+        chat: jsonStorage.getChatStorage(),
+        enrichment: jsonStorage.getEnrichmentStorage(),
+        settings: jsonStorage.getSettingsStorage(),
+        person: jsonStorage.getPersonStorage(),
+        dynamicComposition: jsonStorage.getDynamicCompositionStorage(),
+      });
+
+      console.log('[RenderService] Initialized StorageRegistry with fixture data');
+    }
 
     try {
       // 5. Wyciągnij dane
@@ -271,20 +443,19 @@ class RenderService extends EventEmitter {
 
       // 10. Ścieżka wyjściowa
       const outputPath = path.join(RENDERS_OUTPUT_DIR, `${jobId}.mp4`);
-      job.outputPath = outputPath;
+      this.store.updateJob(jobId, { outputPath });
 
       // 11. Progress callback
       const onProgress: ChapterProgressCallback = (progress) => {
-        job.progress = progress.progress;
-        job.currentFrame = progress.currentFrame;
-        job.totalFrames = progress.totalFrames;
-        job.previewFrame = progress.previewFrame;
-
-        if (progress.status === 'rendering') {
-          job.status = 'rendering';
-        } else if (progress.status === 'encoding') {
-          job.status = 'encoding';
+        if (progress.previewFrame) {
+          this.previews.set(jobId, progress.previewFrame);
         }
+        this.store.updateProgress(jobId, {
+          status: progress.status === 'encoding' ? 'encoding' : 'rendering',
+          progress: progress.progress,
+          currentFrame: progress.currentFrame,
+          totalFrames: progress.totalFrames,
+        });
 
         this.emit('render:progress', {
           jobId,
@@ -297,7 +468,7 @@ class RenderService extends EventEmitter {
       };
 
       // 12. Wykonaj renderowanie
-      job.status = 'rendering';
+      this.store.updateProgress(jobId, { status: 'rendering', progress: 0 });
       this.emit('render:start', { jobId });
 
       if (engine === 'puppeteer') {
@@ -336,12 +507,7 @@ class RenderService extends EventEmitter {
 
         // Puppeteer progress adapter
         const puppeteerOnProgress = (progress: number) => {
-          job.progress = progress;
-          if (progress < 80) {
-            job.status = 'rendering';
-          } else {
-            job.status = 'encoding';
-          }
+          this.store.updateProgress(jobId, { status: progress < 80 ? 'rendering' : 'encoding', progress });
           this.emit('render:progress', {
             jobId,
             progress,
@@ -377,17 +543,29 @@ class RenderService extends EventEmitter {
         );
       }
 
-      // 13. Zakończ
-      job.status = 'completed';
-      job.progress = 100;
-      job.completedAt = new Date().toISOString();
+      // 13. Metadane pliku (ffprobe) - brak ffprobe nie psuje renderu
+      const output = await probeVideo(outputPath).catch((error) => {
+        console.warn(`[RenderService] ffprobe failed for ${outputPath}:`, error);
+        return undefined;
+      });
+
+      // 14. Zakończ
+      this.store.updateJob(jobId, {
+        status: 'completed',
+        progress: 100,
+        output,
+        completedAt: new Date().toISOString(),
+        renderDurationMs: Date.now() - renderStartedAt.getTime(),
+      });
 
       console.log(`[RenderService] Render job ${jobId} completed: ${outputPath}`);
       this.emit('render:complete', { jobId, outputPath });
     } finally {
       // Przywróć domyślne storage (usuń tymczasowe JsonStorage)
-      storageRegistry.resetToDefaults();
-      console.log('[RenderService] StorageRegistry reset to defaults');
+      if (!inSandbox) {
+        storageRegistry.resetToDefaults();
+        console.log('[RenderService] StorageRegistry reset to defaults');
+      }
     }
   }
 
@@ -396,23 +574,7 @@ class RenderService extends EventEmitter {
    */
   private applyDataDiff(
     fixtures: SqliteFixtureData,
-    dataDiff: {
-      blocks: {
-        added: Array<{ id: string; data: Record<string, unknown> }>;
-        modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-        deleted: Array<{ id: string; data: Record<string, unknown> }>;
-      };
-      timelines: {
-        added: Array<{ id: string; data: Record<string, unknown> }>;
-        modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-        deleted: Array<{ id: string; data: Record<string, unknown> }>;
-      };
-      mediaAssets: {
-        added: Array<{ id: string; data: Record<string, unknown> }>;
-        modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-        deleted: Array<{ id: string; data: Record<string, unknown> }>;
-      };
-    } | null
+    dataDiff: DataDiff | null
   ): SqliteFixtureData {
     // Jeśli brak diff, zwróć oryginalne fixtures
     if (!dataDiff) {
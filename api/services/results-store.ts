@@ -2,14 +2,32 @@
  * Results Store - przechowywanie wyników testów
  *
  * Używa SQLite jako jedynego źródła danych (bez plików JSON).
- * Schemat: suite_runs, scenario_results, tool_calls, messages
+ * Schemat: suite_runs, scenario_results, tool_calls, messages,
+ * experiments, prompt_optimizations, prompt_candidates
  */
 
 import Database from 'better-sqlite3';
 import path from 'path';
+import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import type { TestResult, TestScenario } from '../../agent-evals/types/scenario';
+import type {
+  TestResult,
+  TestScenario,
+  DataDiff,
+  SystemPromptConfig,
+  SubagentPromptConfig,
+} from '../../agent-evals/types/scenario';
 import { summarizeResults, type TestSummary } from '../../agent-evals/harness/test-harness';
+import { classifyFlakiness, type FlakinessLevel } from '../../agent-evals/harness/trial-stats';
+import type { ComparableResult } from '../../agent-evals/harness/suite-comparison';
+import type { FailureRecord } from '../../agent-evals/harness/failure-clustering';
+import type { ExperimentDefinition, ExperimentVariant } from '../../agent-evals/harness/experiment';
+import type {
+  EvaluatedCandidate,
+  PromptOptimizationDefinition,
+  PromptOptimizationReport,
+} from '../../agent-evals/harness/prompt-optimizer';
+import type { SuiteConfigSnapshot } from '../../agent-evals/types/config-snapshot';
 
 // ============================================================================
 // TYPES
@@ -26,6 +44,12 @@ export interface ConfigSnapshot {
   toolDescriptions?: Record<string, string>;
   toolParameterDescriptions?: Record<string, Record<string, string>>;
   transAgentPrompts?: Record<string, { raw?: string; mode?: 'append' | 'replace' }>;
+  transAgentEnabledTools?: Record<string, string[]>;
+  subagentPrompts?: Record<string, SubagentPromptConfig>;
+  /** Liczba powtórzeń każdego scenariusza */
+  repetitions?: number;
+  /** Maks. liczba prób wykonywanych równolegle */
+  concurrency?: number;
 }
 
 export type SuiteStatus = 'pending' | 'running' | 'completed' | 'failed' | 'stopped';
@@ -41,14 +65,18 @@ export interface SuiteRun {
   totalTokens: number;
   totalLatencyMs: number;
   configSnapshot?: ConfigSnapshot;
+  /** Hash konfiguracji - suite'y o tym samym hashu można łączyć w porównaniach */
+  configHash?: string;
   scenarioIds?: string[];
   scenarioNames?: Record<string, string>;
   /** Status suite'a - running/completed/failed */
   status?: SuiteStatus;
   /** ID joba w kolejce (jobId) */
   jobId?: string;
-  /** Aktualnie wykonywany scenariusz (tylko dla running) */
+  /** Ostatnio uruchomiony scenariusz (tylko dla running) */
   currentScenario?: string;
+  /** Scenariusze wykonywane w tej chwili (przy równoległym przebiegu może być kilka) */
+  runningScenarios?: string[];
   /** Postęp wykonania */
   progress?: {
     completed: number;
@@ -56,6 +84,62 @@ export interface SuiteRun {
   };
   /** Lista scenariuszy z ich statusami */
   scenarioStatuses?: Record<string, 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'>;
+  /** Liczba prób na scenariusz (1 = bez powtórzeń) */
+  repetitions?: number;
+  /** Średni pass rate scenariuszy (0-1) */
+  passRate?: number;
+  /** Eksperyment, do którego należy suite (jeden suite = jeden wariant) */
+  experimentId?: string;
+  variantId?: string;
+}
+
+/**
+ * Eksperyment - zestaw scenariuszy × macierz wariantów konfiguracji
+ */
+export interface ExperimentRecord {
+  id: string;
+  createdAt: string;
+  name: string;
+  description?: string;
+  definition: ExperimentDefinition;
+  /** Warianty po rozwinięciu macierzy */
+  variants: ExperimentVariant[];
+  scenarioIds: string[];
+}
+
+/** Suite wariantu eksperymentu (bez wyników scenariuszy) */
+export interface ExperimentSuiteLink {
+  suiteId: string;
+  variantId: string;
+  createdAt: string;
+  status: SuiteStatus;
+  totalTokens: number;
+  totalLatencyMs: number;
+}
+
+export type PromptOptimizationStatus = 'running' | 'completed' | 'failed' | 'stopped';
+
+/**
+ * Optymalizacja promptu - pętla proponowania i oceny patchy system promptu
+ */
+export interface PromptOptimizationRecord {
+  id: string;
+  createdAt: string;
+  name: string;
+  agent: string;
+  status: PromptOptimizationStatus;
+  definition: PromptOptimizationDefinition;
+  scenarioIds: string[];
+  /** Raport końcowy (ranking i zwycięski prompt) - po zakończeniu */
+  report?: PromptOptimizationReport;
+  error?: string;
+  completedAt?: string;
+}
+
+/** Oceniony kandydat optymalizacji z suite'em, w którym zapisano jego wyniki */
+export interface PromptCandidateRecord extends EvaluatedCandidate {
+  suiteId?: string;
+  createdAt: string;
 }
 
 export interface SuiteRunWithResults extends SuiteRun {
@@ -80,6 +164,203 @@ export interface ScenarioResultEntry {
   error?: string;
 }
 
+/**
+ * ID wiersza scenario_results - pierwsza próba zachowuje stary format (kompatybilność)
+ */
+function scenarioResultId(suiteId: string, scenarioId: string, trial: number): string {
+  return trial > 1 ? `${suiteId}_${scenarioId}_${trial}` : `${suiteId}_${scenarioId}`;
+}
+
+type ScenarioRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Status scenariusza wyliczony ze statusów jego prób
+ *
+ * running - któraś próba trwa lub część już się zakończyła, a część czeka;
+ * completed/failed - wszystkie zakończone próby przeszły / któraś nie przeszła.
+ */
+function aggregateTrialStatuses(statuses: ScenarioRunStatus[]): ScenarioRunStatus {
+  const finished = statuses.filter((st) => st === 'completed' || st === 'failed');
+
+  if (statuses.includes('running') || (statuses.includes('pending') && finished.length > 0)) {
+    return 'running';
+  }
+  if (statuses.every((st) => st === 'pending')) {
+    return 'pending';
+  }
+  if (finished.length === 0) {
+    return 'cancelled';
+  }
+  return finished.every((st) => st === 'completed') ? 'completed' : 'failed';
+}
+
+function runningScenarioIds(scenarioStatuses: Record<string, ScenarioRunStatus>): string[] {
+  return Object.keys(scenarioStatuses).filter((id) => scenarioStatuses[id] === 'running');
+}
+
+/**
+ * Płaski snapshot konfiguracji z opcji przebiegu (kolumna config_snapshot, ponowne uruchomienie z dashboardu)
+ */
+export function buildConfigSnapshot(
+  options: Omit<ConfigSnapshot, 'systemPromptSource' | 'systemPromptMode' | 'systemPromptRaw'> & {
+    systemPrompt?: SystemPromptConfig;
+  }
+): ConfigSnapshot {
+  const { systemPrompt } = options;
+  // Pola wymienione jawnie - opcje przebiegu zawierają też ustawienia spoza konfiguracji (np. verbose)
+  return {
+    model: options.model,
+    thinkingMode: options.thinkingMode,
+    enabledTools: options.enabledTools,
+    disabledTools: options.disabledTools,
+    toolDescriptions: options.toolDescriptions,
+    toolParameterDescriptions: options.toolParameterDescriptions,
+    transAgentPrompts: options.transAgentPrompts,
+    transAgentEnabledTools: options.transAgentEnabledTools,
+    subagentPrompts: options.subagentPrompts,
+    repetitions: options.repetitions,
+    concurrency: options.concurrency,
+    systemPromptSource: !systemPrompt
+      ? 'default'
+      : systemPrompt.raw
+        ? 'custom-raw'
+        : systemPrompt.file
+          ? 'custom-file'
+          : systemPrompt.patches?.length
+            ? 'patched'
+            : 'default',
+    systemPromptMode: systemPrompt?.mode,
+    systemPromptRaw: systemPrompt?.raw,
+  };
+}
+
+/**
+ * Hash konfiguracji suite'a
+ *
+ * Pomija parametry wykonania (repetitions, concurrency) - nie zmieniają zachowania agenta,
+ * więc suite'y różniące się tylko nimi mogą być łączone w jedną pulę prób.
+ */
+function hashConfigSnapshot(
+  snapshot?: ConfigSnapshot | null,
+  suiteConfigSnapshots?: Record<string, SuiteConfigSnapshot> | null
+): string | null {
+  if (!snapshot) return null;
+  const { repetitions: _repetitions, concurrency: _concurrency, ...config } = snapshot;
+
+  // Hashe pełnych snapshotów wychwytują zmiany domyślnego promptu i narzędzi w kodzie agenta
+  const agentConfigHashes = suiteConfigSnapshots
+    ? Object.fromEntries(Object.entries(suiteConfigSnapshots).map(([agentType, s]) => [agentType, s.configHash]))
+    : undefined;
+
+  return createHash('sha256')
+    .update(stableStringify({ ...config, agentConfigHashes }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/** JSON z posortowanymi kluczami - ten sam obiekt daje zawsze ten sam hash */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+interface ExperimentRow {
+  id: string;
+  created_at: string;
+  name: string;
+  description: string | null;
+  definition: string;
+  variants: string;
+  scenario_ids: string;
+}
+
+function mapExperimentRow(row: ExperimentRow): ExperimentRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    name: row.name,
+    description: row.description || undefined,
+    definition: JSON.parse(row.definition),
+    variants: JSON.parse(row.variants),
+    scenarioIds: JSON.parse(row.scenario_ids),
+  };
+}
+
+interface PromptOptimizationRow {
+  id: string;
+  created_at: string;
+  name: string;
+  agent: string;
+  status: string;
+  definition: string;
+  scenario_ids: string;
+  report: string | null;
+  error: string | null;
+  completed_at: string | null;
+}
+
+function mapPromptOptimizationRow(row: PromptOptimizationRow): PromptOptimizationRecord {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    name: row.name,
+    agent: row.agent,
+    status: row.status as PromptOptimizationStatus,
+    definition: JSON.parse(row.definition),
+    scenarioIds: JSON.parse(row.scenario_ids),
+    report: row.report ? JSON.parse(row.report) : undefined,
+    error: row.error || undefined,
+    completedAt: row.completed_at || undefined,
+  };
+}
+
+interface PromptCandidateRow {
+  candidate_id: string;
+  iteration: number;
+  parent_id: string | null;
+  patches: string;
+  rationale: string | null;
+  suite_id: string | null;
+  trials: number;
+  passed_trials: number;
+  pass_rate: number;
+  total_tokens: number;
+  total_cost_usd: number | null;
+  avg_latency_ms: number;
+  failures: string;
+  created_at: string;
+}
+
+function mapPromptCandidateRow(row: PromptCandidateRow): PromptCandidateRecord {
+  return {
+    id: row.candidate_id,
+    iteration: row.iteration,
+    parentId: row.parent_id || undefined,
+    patches: JSON.parse(row.patches),
+    rationale: row.rationale || undefined,
+    suiteId: row.suite_id || undefined,
+    score: {
+      trials: row.trials,
+      passedTrials: row.passed_trials,
+      passRate: row.pass_rate,
+      totalTokens: row.total_tokens,
+      totalCostUsd: row.total_cost_usd ?? undefined,
+      avgLatencyMs: row.avg_latency_ms,
+    },
+    failures: JSON.parse(row.failures),
+    createdAt: row.created_at,
+  };
+}
+
 // ============================================================================
 // RESULTS STORE
 // ============================================================================
@@ -128,6 +409,55 @@ export class ResultsStore {
       CREATE INDEX IF NOT EXISTS idx_scenario_suite ON scenario_results(suite_run_id);
       CREATE INDEX IF NOT EXISTS idx_scenario_id ON scenario_results(scenario_id);
       CREATE INDEX IF NOT EXISTS idx_scenario_passed ON scenario_results(passed);
+
+      CREATE TABLE IF NOT EXISTS experiments (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        name TEXT NOT NULL,
+        description TEXT,
+        definition TEXT NOT NULL,
+        variants TEXT NOT NULL,
+        scenario_ids TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_experiment_date ON experiments(created_at);
+
+      CREATE TABLE IF NOT EXISTS prompt_optimizations (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        name TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        status TEXT NOT NULL,
+        definition TEXT NOT NULL,
+        scenario_ids TEXT NOT NULL,
+        report TEXT,
+        error TEXT,
+        completed_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_optimization_date ON prompt_optimizations(created_at);
+
+      CREATE TABLE IF NOT EXISTS prompt_candidates (
+        id TEXT PRIMARY KEY,
+        optimization_id TEXT NOT NULL,
+        candidate_id TEXT NOT NULL,
+        iteration INTEGER NOT NULL,
+        parent_id TEXT,
+        patches TEXT NOT NULL,
+        rationale TEXT,
+        suite_id TEXT,
+        trials INTEGER NOT NULL,
+        passed_trials INTEGER NOT NULL,
+        pass_rate REAL NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        total_cost_usd REAL,
+        avg_latency_ms REAL NOT NULL,
+        failures TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        FOREIGN KEY (optimization_id) REFERENCES prompt_optimizations(id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_candidate_optimization ON prompt_candidates(optimization_id);
     `);
 
     // 2. Migracja - dodaj nowe kolumny i indeksy
@@ -155,6 +485,34 @@ export class ResultsStore {
     if (!suiteColumnNames.has('scenario_names')) {
       this.db.exec("ALTER TABLE suite_runs ADD COLUMN scenario_names TEXT"); // JSON object
     }
+    if (!suiteColumnNames.has('repetitions')) {
+      this.db.exec("ALTER TABLE suite_runs ADD COLUMN repetitions INTEGER DEFAULT 1");
+    }
+    if (!suiteColumnNames.has('pass_rate')) {
+      this.db.exec("ALTER TABLE suite_runs ADD COLUMN pass_rate REAL");
+    }
+    if (!suiteColumnNames.has('config_hash')) {
+      this.db.exec("ALTER TABLE suite_runs ADD COLUMN config_hash TEXT");
+
+      // Uzupełnij hash dla istniejących suite'ów
+      const rows = this.db.prepare('SELECT id, config_snapshot FROM suite_runs WHERE config_snapshot IS NOT NULL').all() as Array<{
+        id: string;
+        config_snapshot: string;
+      }>;
+      const updateHash = this.db.prepare('UPDATE suite_runs SET config_hash = ? WHERE id = ?');
+      for (const row of rows) {
+        updateHash.run(hashConfigSnapshot(JSON.parse(row.config_snapshot)), row.id);
+      }
+    }
+    if (!suiteColumnNames.has('experiment_id')) {
+      this.db.exec("ALTER TABLE suite_runs ADD COLUMN experiment_id TEXT");
+    }
+    if (!suiteColumnNames.has('variant_id')) {
+      this.db.exec("ALTER TABLE suite_runs ADD COLUMN variant_id TEXT");
+    }
+    if (!suiteColumnNames.has('suite_config_snapshot')) {
+      this.db.exec("ALTER TABLE suite_runs ADD COLUMN suite_config_snapshot TEXT"); // JSON (agentType -> SuiteConfigSnapshot)
+    }
 
     // Migracja scenario_results - nowe kolumny
     const scenarioColumns = this.db.prepare("PRAGMA table_info(scenario_results)").all() as Array<{ name: string }>;
@@ -205,6 +563,18 @@ export class ResultsStore {
     if (!scenarioColumnNames.has('stderr_logs')) {
       this.db.exec("ALTER TABLE scenario_results ADD COLUMN stderr_logs TEXT"); // JSON array
     }
+    if (!scenarioColumnNames.has('turns')) {
+      this.db.exec("ALTER TABLE scenario_results ADD COLUMN turns TEXT"); // JSON array (multi-turn)
+    }
+    if (!scenarioColumnNames.has('trial')) {
+      this.db.exec("ALTER TABLE scenario_results ADD COLUMN trial INTEGER DEFAULT 1");
+    }
+    if (!scenarioColumnNames.has('cost_usd')) {
+      this.db.exec("ALTER TABLE scenario_results ADD COLUMN cost_usd REAL");
+    }
+    if (!scenarioColumnNames.has('render_checks')) {
+      this.db.exec("ALTER TABLE scenario_results ADD COLUMN render_checks TEXT"); // JSON (RenderCheckReport)
+    }
 
     // Nowe tabele: tool_calls i messages
     this.db.exec(`
@@ -238,6 +608,8 @@ export class ResultsStore {
     this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_suite_status ON suite_runs(status);
       CREATE INDEX IF NOT EXISTS idx_suite_job_id ON suite_runs(job_id);
+      CREATE INDEX IF NOT EXISTS idx_suite_config_hash ON suite_runs(config_hash);
+      CREATE INDEX IF NOT EXISTS idx_suite_experiment ON suite_runs(experiment_id);
     `);
 
     // Migracja messages - dodaj parent_tool_use_id
@@ -253,7 +625,9 @@ export class ResultsStore {
   // In-memory store dla live status (scenarioStatuses, currentScenario)
   private liveStatus = new Map<string, {
     currentScenario?: string;
-    scenarioStatuses: Record<string, 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'>;
+    scenarioStatuses: Record<string, ScenarioRunStatus>;
+    /** Statusy prób (indeks = trial - 1) - scenarioStatuses jest z nich wyliczany */
+    trialStatuses: Record<string, ScenarioRunStatus[]>;
   }>();
 
   /**
@@ -266,15 +640,23 @@ export class ResultsStore {
     tags?: string[];
     label?: string;
     configSnapshot?: ConfigSnapshot;
+    /** Pełne snapshoty konfiguracji agentów (klucz = typ agenta) */
+    suiteConfigSnapshots?: Record<string, SuiteConfigSnapshot>;
+    /** Liczba prób na scenariusz (domyślnie: 1) */
+    repetitions?: number;
+    experimentId?: string;
+    variantId?: string;
   }): SuiteRun {
     const suiteId = uuidv4();
     const createdAt = new Date().toISOString();
+    const repetitions = options.repetitions || 1;
 
     // Zapisz do SQLite
     const stmt = this.db.prepare(`
-      INSERT INTO suite_runs (id, created_at, tags, label, json_path, total_scenarios, passed_scenarios, failed_scenarios, total_tokens, total_latency_ms, status, job_id, config_snapshot, scenario_ids, scenario_names)
-      VALUES (?, ?, ?, ?, '', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO suite_runs (id, created_at, tags, label, json_path, total_scenarios, passed_scenarios, failed_scenarios, total_tokens, total_latency_ms, status, job_id, config_snapshot, suite_config_snapshot, config_hash, scenario_ids, scenario_names, repetitions, experiment_id, variant_id)
+      VALUES (?, ?, ?, ?, '', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    const configHash = hashConfigSnapshot(options.configSnapshot, options.suiteConfigSnapshots);
     stmt.run(
       suiteId,
       createdAt,
@@ -288,26 +670,34 @@ export class ResultsStore {
       'running',
       options.jobId,
       options.configSnapshot ? JSON.stringify(options.configSnapshot) : null,
+      options.suiteConfigSnapshots ? JSON.stringify(options.suiteConfigSnapshots) : null,
+      configHash,
       JSON.stringify(options.scenarioIds),
-      options.scenarioNames ? JSON.stringify(options.scenarioNames) : null
+      options.scenarioNames ? JSON.stringify(options.scenarioNames) : null,
+      repetitions,
+      options.experimentId ?? null,
+      options.variantId ?? null
     );
 
-    // Utwórz rekordy scenario_results dla wszystkich scenariuszy ze statusem 'pending'
+    // Utwórz rekordy scenario_results dla wszystkich scenariuszy (i prób) ze statusem 'pending'
     const insertScenario = this.db.prepare(`
-      INSERT INTO scenario_results (id, suite_run_id, scenario_id, scenario_name, passed, tokens, latency_ms, json_path, status)
-      VALUES (?, ?, ?, ?, 0, 0, 0, '', 'pending')
+      INSERT INTO scenario_results (id, suite_run_id, scenario_id, scenario_name, passed, tokens, latency_ms, json_path, status, trial)
+      VALUES (?, ?, ?, ?, 0, 0, 0, '', 'pending', ?)
     `);
 
-    const scenarioStatuses: Record<string, 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'> = {};
+    const scenarioStatuses: Record<string, ScenarioRunStatus> = {};
+    const trialStatuses: Record<string, ScenarioRunStatus[]> = {};
     for (const scenarioId of options.scenarioIds) {
-      const resultId = `${suiteId}_${scenarioId}`;
       const scenarioName = options.scenarioNames?.[scenarioId] || scenarioId;
-      insertScenario.run(resultId, suiteId, scenarioId, scenarioName);
+      for (let trial = 1; trial <= repetitions; trial++) {
+        insertScenario.run(scenarioResultId(suiteId, scenarioId, trial), suiteId, scenarioId, scenarioName, trial);
+      }
       scenarioStatuses[scenarioId] = 'pending';
+      trialStatuses[scenarioId] = Array.from({ length: repetitions }, (): ScenarioRunStatus => 'pending');
     }
 
     // Inicjalizuj live status (nadal potrzebne dla currentScenario)
-    this.liveStatus.set(suiteId, { scenarioStatuses });
+    this.liveStatus.set(suiteId, { scenarioStatuses, trialStatuses });
 
     return {
       id: suiteId,
@@ -320,19 +710,39 @@ export class ResultsStore {
       totalTokens: 0,
       totalLatencyMs: 0,
       configSnapshot: options.configSnapshot,
+      configHash: configHash ?? undefined,
+      experimentId: options.experimentId,
+      variantId: options.variantId,
       scenarioIds: options.scenarioIds,
       scenarioNames: options.scenarioNames,
       status: 'running',
       jobId: options.jobId,
       progress: { completed: 0, total: options.scenarioIds.length },
       scenarioStatuses,
+      repetitions,
     };
   }
 
   /**
    * Aktualizuje status scenariusza w bazie danych
+   *
+   * Bez `trial` aktualizowane są wszystkie próby scenariusza.
    */
-  updateScenarioStatus(suiteId: string, scenarioId: string, status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'): void {
+  updateScenarioStatus(
+    suiteId: string,
+    scenarioId: string,
+    status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled',
+    trial?: number
+  ): void {
+    if (trial !== undefined) {
+      this.db.prepare(`
+        UPDATE scenario_results
+        SET status = ?
+        WHERE suite_run_id = ? AND scenario_id = ? AND trial = ?
+      `).run(status, suiteId, scenarioId, trial);
+      return;
+    }
+
     this.db.prepare(`
       UPDATE scenario_results
       SET status = ?
@@ -344,7 +754,8 @@ export class ResultsStore {
    * Zapisuje pełne wyniki scenariusza do bazy (wywoływane w onTestComplete)
    */
   saveScenarioResult(suiteId: string, result: TestResult): void {
-    const scenarioResultId = `${suiteId}_${result.scenarioId}`;
+    const trial = result.trial ?? 1;
+    const resultId = scenarioResultId(suiteId, result.scenarioId, trial);
     const resultStatus = result.passed ? 'completed' : 'failed';
 
     // Aktualizuj scenario_results
@@ -352,11 +763,11 @@ export class ResultsStore {
       UPDATE scenario_results
       SET passed = ?, tokens = ?, latency_ms = ?,
           scenario_name = COALESCE(?, scenario_name),
-          input_tokens = ?, output_tokens = ?, turn_count = ?,
+          input_tokens = ?, output_tokens = ?, turn_count = ?, cost_usd = ?,
           started_at = ?, completed_at = ?, agent_response = ?, error = ?,
           data_diff = ?, assertions = ?, system_prompt_info = ?,
-          status = ?, input_context = ?, stderr_logs = ?
-      WHERE suite_run_id = ? AND scenario_id = ?
+          status = ?, input_context = ?, stderr_logs = ?, turns = ?, render_checks = ?
+      WHERE suite_run_id = ? AND scenario_id = ? AND trial = ?
     `).run(
       result.passed ? 1 : 0,
       result.metrics.totalTokens,
@@ -365,6 +776,7 @@ export class ResultsStore {
       result.metrics.inputTokens || null,
       result.metrics.outputTokens || null,
       result.metrics.turnCount || null,
+      result.metrics.costUsd ?? null,
       result.startedAt || null,
       result.completedAt || null,
       result.agentResponse || null,
@@ -375,10 +787,17 @@ export class ResultsStore {
       resultStatus,
       result.inputContext ? JSON.stringify(result.inputContext) : null,
       result.stderrLogs ? JSON.stringify(result.stderrLogs) : null,
+      result.turns ? JSON.stringify(result.turns) : null,
+      result.renderChecks ? JSON.stringify(result.renderChecks) : null,
       suiteId,
-      result.scenarioId
+      result.scenarioId,
+      trial
     );
 
+    // Usuń poprzednie tool_calls/messages (ponowny zapis, np. po re-ewaluacji)
+    this.db.prepare('DELETE FROM tool_calls WHERE scenario_result_id = ?').run(resultId);
+    this.db.prepare('DELETE FROM messages WHERE scenario_result_id = ?').run(resultId);
+
     // Zapisz tool_calls
     if (result.toolCalls && result.toolCalls.length > 0) {
       const insertToolCall = this.db.prepare(`
@@ -387,7 +806,7 @@ export class ResultsStore {
       `);
       for (const tc of result.toolCalls) {
         insertToolCall.run(
-          scenarioResultId,
+          resultId,
           tc.order ?? 0,
           tc.toolName,
           tc.input ? JSON.stringify(tc.input) : null,
@@ -407,7 +826,7 @@ export class ResultsStore {
       let msgOrder = 0;
       for (const msg of result.messages) {
         insertMessage.run(
-          scenarioResultId,
+          resultId,
           msgOrder++,
           msg.role,
           msg.timestamp || null,
@@ -420,10 +839,14 @@ export class ResultsStore {
 
   /**
    * Aktualizuje live status suite'a (scenarioStatuses, currentScenario)
+   *
+   * Status scenariusza jest agregowany ze statusów prób - przy równoległych próbach
+   * zakończenie jednej nie oznacza scenariusza jako zakończonego.
    */
   updateLiveStatus(suiteId: string, update: {
     currentScenario?: string | null;
-    scenarioStatus?: { scenarioId: string; status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' };
+    /** `trial` - status konkretnej próby (bez `trial` - wszystkie próby scenariusza) */
+    scenarioStatus?: { scenarioId: string; status: ScenarioRunStatus; trial?: number };
   }): void {
     const live = this.liveStatus.get(suiteId);
     if (!live) return;
@@ -432,21 +855,49 @@ export class ResultsStore {
       live.currentScenario = update.currentScenario || undefined;
     }
     if (update.scenarioStatus) {
-      live.scenarioStatuses[update.scenarioStatus.scenarioId] = update.scenarioStatus.status;
+      const { scenarioId, status, trial } = update.scenarioStatus;
+      const trials = live.trialStatuses[scenarioId] || [];
+      if (trial !== undefined) {
+        trials[trial - 1] = status;
+      } else {
+        trials.fill(status);
+      }
+      live.trialStatuses[scenarioId] = trials.length > 0 ? trials : [status];
+      live.scenarioStatuses[scenarioId] = aggregateTrialStatuses(live.trialStatuses[scenarioId]);
+
       // Aktualizuj status w bazie danych
-      this.updateScenarioStatus(suiteId, update.scenarioStatus.scenarioId, update.scenarioStatus.status);
+      this.updateScenarioStatus(
+        suiteId,
+        update.scenarioStatus.scenarioId,
+        update.scenarioStatus.status,
+        update.scenarioStatus.trial
+      );
     }
   }
 
   /**
    * Pobiera live status suite'a
    */
-  getLiveStatus(suiteId: string): { currentScenario?: string; scenarioStatuses: Record<string, 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'> } | null {
-    return this.liveStatus.get(suiteId) || null;
+  getLiveStatus(suiteId: string): {
+    currentScenario?: string;
+    runningScenarios: string[];
+    scenarioStatuses: Record<string, ScenarioRunStatus>;
+  } | null {
+    const live = this.liveStatus.get(suiteId);
+    if (!live) return null;
+
+    return {
+      currentScenario: live.currentScenario,
+      runningScenarios: runningScenarioIds(live.scenarioStatuses),
+      scenarioStatuses: live.scenarioStatuses,
+    };
   }
 
   /**
    * Pobiera statusy scenariuszy z bazy danych
+   *
+   * Przy powtórzeniach próby są agregowane per scenariusz: tokeny/czas to średnie
+   * z zakończonych prób, a `passed` oznacza że przeszły wszystkie zakończone próby.
    */
   getScenarioStatuses(suiteId: string): Array<{
     id: string;
@@ -457,11 +908,17 @@ export class ResultsStore {
     latencyMs?: number;
     turnCount?: number;
     error?: string;
+    trials: number;
+    completedTrials: number;
+    passedTrials: number;
+    passRate?: number;
+    flakiness?: FlakinessLevel;
   }> {
     const rows = this.db.prepare(`
-      SELECT scenario_id, scenario_name, status, passed, tokens, latency_ms, turn_count, error
+      SELECT scenario_id, scenario_name, status, passed, tokens, latency_ms, turn_count, error, trial
       FROM scenario_results
       WHERE suite_run_id = ?
+      ORDER BY rowid
     `).all(suiteId) as Array<{
       scenario_id: string;
       scenario_name: string | null;
@@ -471,18 +928,45 @@ export class ResultsStore {
       latency_ms: number | null;
       turn_count: number | null;
       error: string | null;
+      trial: number | null;
     }>;
 
-    return rows.map(row => ({
-      id: row.scenario_id,
-      name: row.scenario_name || row.scenario_id,
-      status: (row.status || 'pending') as 'pending' | 'running' | 'completed' | 'failed' | 'cancelled',
-      passed: row.passed === 1,
-      tokens: row.tokens || undefined,
-      latencyMs: row.latency_ms || undefined,
-      turnCount: row.turn_count || undefined,
-      error: row.error || undefined,
-    }));
+    const byScenario = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const group = byScenario.get(row.scenario_id);
+      if (group) {
+        group.push(row);
+      } else {
+        byScenario.set(row.scenario_id, [row]);
+      }
+    }
+
+    return [...byScenario.values()].map((trials) => {
+      const finished = trials.filter((t) => t.status === 'completed' || t.status === 'failed');
+      const passedTrials = finished.filter((t) => t.passed === 1).length;
+      const mean = (values: Array<number | null>) => {
+        const present = values.filter((v): v is number => v !== null);
+        return present.length > 0 ? Math.round(present.reduce((a, b) => a + b, 0) / present.length) : undefined;
+      };
+
+      const status = aggregateTrialStatuses(trials.map((t) => (t.status || 'pending') as ScenarioRunStatus));
+
+      return {
+        id: trials[0].scenario_id,
+        name: trials[0].scenario_name || trials[0].scenario_id,
+        status,
+        passed: finished.length > 0 && passedTrials === finished.length,
+        tokens: mean(finished.map((t) => t.tokens)) || undefined,
+        latencyMs: mean(finished.map((t) => t.latency_ms)) || undefined,
+        turnCount: mean(finished.map((t) => t.turn_count)) || undefined,
+        error: finished.find((t) => t.error)?.error || undefined,
+        trials: trials.length,
+        completedTrials: finished.length,
+        passedTrials,
+        passRate: finished.length > 0 ? passedTrials / finished.length : undefined,
+        flakiness: finished.length > 0 ? classifyFlakiness(passedTrials, finished.length) : undefined,
+      };
+    });
   }
 
   /**
@@ -507,7 +991,7 @@ export class ResultsStore {
     // Aktualizuj suite_runs w SQLite (podsumowanie)
     this.db.prepare(`
       UPDATE suite_runs
-      SET total_scenarios = ?, passed_scenarios = ?, failed_scenarios = ?, total_tokens = ?, total_latency_ms = ?, status = ?
+      SET total_scenarios = ?, passed_scenarios = ?, failed_scenarios = ?, total_tokens = ?, total_latency_ms = ?, status = ?, pass_rate = ?
       WHERE id = ?
     `).run(
       summary.total,
@@ -516,6 +1000,7 @@ export class ResultsStore {
       summary.totalTokens,
       summary.totalLatencyMs,
       status,
+      summary.passRate,
       suiteId
     );
 
@@ -534,17 +1019,29 @@ export class ResultsStore {
   /**
    * Zapisuje wyniki suite'a (synchronicznie, bez kolejki)
    */
-  saveSuiteRun(results: TestResult[], options?: { tags?: string[]; label?: string; configSnapshot?: ConfigSnapshot }): SuiteRun {
+  saveSuiteRun(
+    results: TestResult[],
+    options?: {
+      tags?: string[];
+      label?: string;
+      configSnapshot?: ConfigSnapshot;
+      suiteConfigSnapshots?: Record<string, SuiteConfigSnapshot>;
+      experimentId?: string;
+      variantId?: string;
+    }
+  ): SuiteRun {
     const suiteId = uuidv4();
     const createdAt = new Date().toISOString();
     const summary = summarizeResults(results);
-    const scenarioIds = results.map(r => r.scenarioId);
+    const scenarioIds = [...new Set(results.map(r => r.scenarioId))];
+    const repetitions = Math.max(1, ...results.map(r => r.trial ?? 1));
 
     // Zapisz suite do SQLite
     const stmt = this.db.prepare(`
-      INSERT INTO suite_runs (id, created_at, tags, label, json_path, total_scenarios, passed_scenarios, failed_scenarios, total_tokens, total_latency_ms, status, config_snapshot, scenario_ids)
-      VALUES (?, ?, ?, ?, '', ?, ?, ?, ?, ?, 'completed', ?, ?)
+      INSERT INTO suite_runs (id, created_at, tags, label, json_path, total_scenarios, passed_scenarios, failed_scenarios, total_tokens, total_latency_ms, status, config_snapshot, suite_config_snapshot, config_hash, scenario_ids, repetitions, pass_rate, experiment_id, variant_id)
+      VALUES (?, ?, ?, ?, '', ?, ?, ?, ?, ?, 'completed', ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    const configHash = hashConfigSnapshot(options?.configSnapshot, options?.suiteConfigSnapshots);
     stmt.run(
       suiteId,
       createdAt,
@@ -556,17 +1053,23 @@ export class ResultsStore {
       summary.totalTokens,
       summary.totalLatencyMs,
       options?.configSnapshot ? JSON.stringify(options.configSnapshot) : null,
-      JSON.stringify(scenarioIds)
+      options?.suiteConfigSnapshots ? JSON.stringify(options.suiteConfigSnapshots) : null,
+      configHash,
+      JSON.stringify(scenarioIds),
+      repetitions,
+      summary.passRate,
+      options?.experimentId ?? null,
+      options?.variantId ?? null
     );
 
     // Zapisz poszczególne scenariusze do SQLite
     const scenarioStmt = this.db.prepare(`
       INSERT INTO scenario_results
       (id, suite_run_id, scenario_id, passed, tokens, latency_ms, json_path,
-       scenario_name, input_tokens, output_tokens, turn_count,
+       scenario_name, input_tokens, output_tokens, turn_count, cost_usd,
        started_at, completed_at, agent_response, error,
-       data_diff, assertions, system_prompt_info, input_context, stderr_logs)
-      VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       data_diff, assertions, system_prompt_info, input_context, stderr_logs, turns, trial, render_checks)
+      VALUES (?, ?, ?, ?, ?, ?, '', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const insertToolCall = this.db.prepare(`
@@ -580,10 +1083,10 @@ export class ResultsStore {
     `);
 
     for (const result of results) {
-      const scenarioResultId = result.id || uuidv4();
+      const resultId = result.id || uuidv4();
 
       scenarioStmt.run(
-        scenarioResultId,
+        resultId,
         suiteId,
         result.scenarioId,
         result.passed ? 1 : 0,
@@ -593,6 +1096,7 @@ export class ResultsStore {
         result.metrics.inputTokens || null,
         result.metrics.outputTokens || null,
         result.metrics.turnCount || null,
+        result.metrics.costUsd ?? null,
         result.startedAt || null,
         result.completedAt || null,
         result.agentResponse || null,
@@ -601,14 +1105,17 @@ export class ResultsStore {
         result.assertions ? JSON.stringify(result.assertions) : null,
         result.systemPromptInfo ? JSON.stringify(result.systemPromptInfo) : null,
         result.inputContext ? JSON.stringify(result.inputContext) : null,
-        result.stderrLogs ? JSON.stringify(result.stderrLogs) : null
+        result.stderrLogs ? JSON.stringify(result.stderrLogs) : null,
+        result.turns ? JSON.stringify(result.turns) : null,
+        result.trial ?? 1,
+        result.renderChecks ? JSON.stringify(result.renderChecks) : null
       );
 
       // Zapisz tool_calls
       if (result.toolCalls && result.toolCalls.length > 0) {
         for (const tc of result.toolCalls) {
           insertToolCall.run(
-            scenarioResultId,
+            resultId,
             tc.order ?? 0,
             tc.toolName,
             tc.input ? JSON.stringify(tc.input) : null,
@@ -624,7 +1131,7 @@ export class ResultsStore {
         let msgOrder = 0;
         for (const msg of result.messages) {
           insertMessage.run(
-            scenarioResultId,
+            resultId,
             msgOrder++,
             msg.role,
             msg.timestamp || null,
@@ -646,8 +1153,13 @@ export class ResultsStore {
       totalTokens: summary.totalTokens,
       totalLatencyMs: summary.totalLatencyMs,
       configSnapshot: options?.configSnapshot,
+      configHash: configHash ?? undefined,
+      experimentId: options?.experimentId,
+      variantId: options?.variantId,
       scenarioIds,
       status: 'completed',
+      repetitions,
+      passRate: summary.passRate,
     };
   }
 
@@ -689,8 +1201,13 @@ export class ResultsStore {
       status: string | null;
       job_id: string | null;
       config_snapshot: string | null;
+      config_hash: string | null;
       scenario_ids: string | null;
       scenario_names: string | null;
+      repetitions: number | null;
+      pass_rate: number | null;
+      experiment_id: string | null;
+      variant_id: string | null;
     }>;
 
     return rows.map((row) => {
@@ -710,12 +1227,18 @@ export class ResultsStore {
         totalTokens: row.total_tokens,
         totalLatencyMs: row.total_latency_ms,
         configSnapshot: row.config_snapshot ? JSON.parse(row.config_snapshot) : undefined,
+        configHash: row.config_hash || undefined,
         scenarioIds: row.scenario_ids ? JSON.parse(row.scenario_ids) : undefined,
         scenarioNames: row.scenario_names ? JSON.parse(row.scenario_names) : undefined,
         status: (row.status || 'completed') as SuiteStatus,
         jobId: row.job_id || undefined,
         currentScenario: liveStatus?.currentScenario,
+        runningScenarios: liveStatus ? runningScenarioIds(liveStatus.scenarioStatuses) : undefined,
         progress: { completed: completedCount, total: row.total_scenarios },
+        repetitions: row.repetitions || 1,
+        passRate: row.pass_rate ?? undefined,
+        experimentId: row.experiment_id || undefined,
+        variantId: row.variant_id || undefined,
       };
     });
   }
@@ -737,15 +1260,20 @@ export class ResultsStore {
       status: string | null;
       job_id: string | null;
       config_snapshot: string | null;
+      config_hash: string | null;
       scenario_ids: string | null;
       scenario_names: string | null;
+      repetitions: number | null;
+      pass_rate: number | null;
+      experiment_id: string | null;
+      variant_id: string | null;
     } | undefined;
 
     if (!row) return null;
 
     // Pobierz wyniki scenariuszy z SQLite
     const scenarioRows = this.db.prepare(`
-      SELECT * FROM scenario_results WHERE suite_run_id = ?
+      SELECT * FROM scenario_results WHERE suite_run_id = ? ORDER BY rowid
     `).all(suiteId) as Array<{
       id: string;
       scenario_id: string;
@@ -756,6 +1284,7 @@ export class ResultsStore {
       input_tokens: number | null;
       output_tokens: number | null;
       turn_count: number | null;
+      cost_usd: number | null;
       started_at: string | null;
       completed_at: string | null;
       agent_response: string | null;
@@ -765,6 +1294,9 @@ export class ResultsStore {
       system_prompt_info: string | null;
       input_context: string | null;
       stderr_logs: string | null;
+      turns: string | null;
+      trial: number | null;
+      render_checks: string | null;
     }>;
 
     // Pobierz tool_calls i messages dla każdego scenariusza
@@ -820,6 +1352,7 @@ export class ResultsStore {
           totalTokens: sr.tokens,
           latencyMs: sr.latency_ms,
           turnCount: sr.turn_count || 0,
+          costUsd: sr.cost_usd ?? undefined,
         },
         agentResponse: sr.agent_response || undefined,
         error: sr.error || undefined,
@@ -828,6 +1361,9 @@ export class ResultsStore {
         systemPromptInfo: sr.system_prompt_info ? JSON.parse(sr.system_prompt_info) : undefined,
         inputContext: sr.input_context ? JSON.parse(sr.input_context) : undefined,
         stderrLogs: sr.stderr_logs ? JSON.parse(sr.stderr_logs) : undefined,
+        turns: sr.turns ? JSON.parse(sr.turns) : undefined,
+        trial: sr.trial ?? undefined,
+        renderChecks: sr.render_checks ? JSON.parse(sr.render_checks) : undefined,
       };
     });
 
@@ -854,6 +1390,7 @@ export class ResultsStore {
       totalTokens: row.total_tokens,
       totalLatencyMs: row.total_latency_ms,
       configSnapshot: row.config_snapshot ? JSON.parse(row.config_snapshot) : undefined,
+      configHash: row.config_hash || undefined,
       scenarioIds: row.scenario_ids ? JSON.parse(row.scenario_ids) : undefined,
       scenarioNames: row.scenario_names ? JSON.parse(row.scenario_names) : undefined,
       results,
@@ -861,18 +1398,28 @@ export class ResultsStore {
       status,
       jobId: row.job_id || undefined,
       currentScenario: liveStatus?.currentScenario,
+      runningScenarios: liveStatus ? runningScenarioIds(liveStatus.scenarioStatuses) : undefined,
       progress: { completed: completedCount, total: row.total_scenarios },
       scenarioStatuses: liveStatus?.scenarioStatuses,
+      repetitions: row.repetitions || 1,
+      passRate: row.pass_rate ?? (status === 'running' ? undefined : summary.passRate),
+      experimentId: row.experiment_id || undefined,
+      variantId: row.variant_id || undefined,
     };
   }
 
   /**
    * Pobiera wynik scenariusza
+   *
+   * @param trial Numer próby (domyślnie: pierwsza próba)
    */
-  getScenarioResult(suiteId: string, scenarioId: string): TestResult | null {
+  getScenarioResult(suiteId: string, scenarioId: string, trial?: number): TestResult | null {
     const sr = this.db.prepare(`
-      SELECT * FROM scenario_results WHERE suite_run_id = ? AND scenario_id = ?
-    `).get(suiteId, scenarioId) as {
+      SELECT * FROM scenario_results
+      WHERE suite_run_id = ? AND scenario_id = ? AND (? IS NULL OR trial = ?)
+      ORDER BY trial
+      LIMIT 1
+    `).get(suiteId, scenarioId, trial ?? null, trial ?? null) as {
       id: string;
       scenario_id: string;
       scenario_name: string | null;
@@ -882,6 +1429,7 @@ export class ResultsStore {
       input_tokens: number | null;
       output_tokens: number | null;
       turn_count: number | null;
+      cost_usd: number | null;
       started_at: string | null;
       completed_at: string | null;
       agent_response: string | null;
@@ -891,6 +1439,9 @@ export class ResultsStore {
       system_prompt_info: string | null;
       input_context: string | null;
       stderr_logs: string | null;
+      turns: string | null;
+      trial: number | null;
+      render_checks: string | null;
     } | undefined;
 
     if (!sr) return null;
@@ -944,6 +1495,7 @@ export class ResultsStore {
         totalTokens: sr.tokens,
         latencyMs: sr.latency_ms,
         turnCount: sr.turn_count || 0,
+        costUsd: sr.cost_usd ?? undefined,
       },
       agentResponse: sr.agent_response || undefined,
       error: sr.error || undefined,
@@ -952,6 +1504,9 @@ export class ResultsStore {
       systemPromptInfo: sr.system_prompt_info ? JSON.parse(sr.system_prompt_info) : undefined,
       inputContext: sr.input_context ? JSON.parse(sr.input_context) : undefined,
       stderrLogs: sr.stderr_logs ? JSON.parse(sr.stderr_logs) : undefined,
+      turns: sr.turns ? JSON.parse(sr.turns) : undefined,
+      trial: sr.trial ?? undefined,
+      renderChecks: sr.render_checks ? JSON.parse(sr.render_checks) : undefined,
     };
   }
 
@@ -959,26 +1514,12 @@ export class ResultsStore {
    * Pobiera data_diff dla scenariusza
    * Używane przez RenderService do aplikowania zmian na fixtures
    */
-  getScenarioDataDiff(suiteId: string, scenarioId: string): {
-    blocks: {
-      added: Array<{ id: string; data: Record<string, unknown> }>;
-      modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-      deleted: Array<{ id: string; data: Record<string, unknown> }>;
-    };
-    timelines: {
-      added: Array<{ id: string; data: Record<string, unknown> }>;
-      modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-      deleted: Array<{ id: string; data: Record<string, unknown> }>;
-    };
-    mediaAssets: {
-      added: Array<{ id: string; data: Record<string, unknown> }>;
-      modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-      deleted: Array<{ id: string; data: Record<string, unknown> }>;
-    };
-  } | null {
+  getScenarioDataDiff(suiteId: string, scenarioId: string): DataDiff | null {
     const row = this.db.prepare(`
       SELECT data_diff FROM scenario_results
       WHERE suite_run_id = ? AND scenario_id = ?
+      ORDER BY trial
+      LIMIT 1
     `).get(suiteId, scenarioId) as { data_diff: string | null } | undefined;
 
     return row?.data_diff ? JSON.parse(row.data_diff) : null;
@@ -998,6 +1539,358 @@ export class ResultsStore {
     }
   }
 
+  /**
+   * Pełne snapshoty konfiguracji agentów suite'a (klucz = typ agenta)
+   *
+   * Zwraca null dla suite'ów sprzed snapshotowania lub gdy zbieranie się nie powiodło.
+   */
+  getSuiteConfigSnapshots(suiteId: string): Record<string, SuiteConfigSnapshot> | null {
+    const row = this.db.prepare('SELECT suite_config_snapshot FROM suite_runs WHERE id = ?').get(suiteId) as
+      | { suite_config_snapshot: string | null }
+      | undefined;
+
+    return row?.suite_config_snapshot ? JSON.parse(row.suite_config_snapshot) : null;
+  }
+
+  /**
+   * Najnowszy zakończony suite o danej etykiecie (nazwany baseline, np. 'main')
+   */
+  findLatestSuiteIdByLabel(label: string): string | null {
+    const row = this.db.prepare(
+      "SELECT id FROM suite_runs WHERE label = ? AND status = 'completed' ORDER BY created_at DESC LIMIT 1"
+    ).get(label) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+
+  /**
+   * Zakończone suite'y o danym hashu konfiguracji (od najnowszych)
+   *
+   * @param before Tylko suite'y utworzone wcześniej niż podana data (ISO)
+   */
+  findSuiteIdsByConfigHash(configHash: string, options?: {
+    before?: string;
+    limit?: number;
+    excludeIds?: string[];
+  }): string[] {
+    let query = "SELECT id FROM suite_runs WHERE config_hash = ? AND status = 'completed'";
+    const params: unknown[] = [configHash];
+
+    if (options?.before) {
+      query += ' AND created_at < ?';
+      params.push(options.before);
+    }
+
+    query += ' ORDER BY created_at DESC';
+
+    const rows = this.db.prepare(query).all(...params) as Array<{ id: string }>;
+
+    const excluded = new Set(options?.excludeIds ?? []);
+    return rows
+      .map((row) => row.id)
+      .filter((id) => !excluded.has(id))
+      .slice(0, options?.limit ?? rows.length);
+  }
+
+  /**
+   * Wyniki prób do porównań statystycznych (bez tool calls i wiadomości)
+   *
+   * Próby bez completed_at (pending / przerwane) są pomijane.
+   */
+  getComparableResults(suiteIds: string[]): ComparableResult[] {
+    if (suiteIds.length === 0) return [];
+
+    const rows = this.db.prepare(`
+      SELECT scenario_id, scenario_name, passed, tokens, latency_ms, input_tokens, output_tokens,
+             turn_count, cost_usd, assertions
+      FROM scenario_results
+      WHERE suite_run_id IN (${suiteIds.map(() => '?').join(', ')}) AND completed_at IS NOT NULL
+      ORDER BY rowid
+    `).all(...suiteIds) as Array<{
+      scenario_id: string;
+      scenario_name: string | null;
+      passed: number;
+      tokens: number;
+      latency_ms: number;
+      input_tokens: number | null;
+      output_tokens: number | null;
+      turn_count: number | null;
+      cost_usd: number | null;
+      assertions: string | null;
+    }>;
+
+    return rows.map((row) => ({
+      scenarioId: row.scenario_id,
+      scenarioName: row.scenario_name || row.scenario_id,
+      passed: row.passed === 1,
+      metrics: {
+        inputTokens: row.input_tokens || 0,
+        outputTokens: row.output_tokens || 0,
+        totalTokens: row.tokens,
+        latencyMs: row.latency_ms,
+        turnCount: row.turn_count || 0,
+        costUsd: row.cost_usd ?? undefined,
+      },
+      assertions: row.assertions ? JSON.parse(row.assertions) : [],
+    }));
+  }
+
+  /**
+   * Nieudane, zakończone próby z suite'ów - wejście dla klastrowania błędów
+   * (asercje, tool calls, błąd, stderr, odpowiedź agenta, DataDiff; bez wiadomości)
+   */
+  getFailureRecords(suiteIds: string[]): FailureRecord[] {
+    if (suiteIds.length === 0) return [];
+
+    const rows = this.db.prepare(`
+      SELECT id, suite_run_id, scenario_id, scenario_name, trial, assertions, error, stderr_logs,
+             agent_response, data_diff
+      FROM scenario_results
+      WHERE suite_run_id IN (${suiteIds.map(() => '?').join(', ')}) AND completed_at IS NOT NULL AND passed = 0
+      ORDER BY rowid
+    `).all(...suiteIds) as Array<{
+      id: string;
+      suite_run_id: string;
+      scenario_id: string;
+      scenario_name: string | null;
+      trial: number | null;
+      assertions: string | null;
+      error: string | null;
+      stderr_logs: string | null;
+      agent_response: string | null;
+      data_diff: string | null;
+    }>;
+
+    const toolCallsStmt = this.db.prepare(`
+      SELECT tool_order, tool_name, input, output, timestamp, duration_ms
+      FROM tool_calls WHERE scenario_result_id = ? ORDER BY tool_order
+    `);
+
+    return rows.map((row) => {
+      const toolCalls = toolCallsStmt.all(row.id) as Array<{
+        tool_order: number;
+        tool_name: string;
+        input: string | null;
+        output: string | null;
+        timestamp: number | null;
+        duration_ms: number | null;
+      }>;
+
+      return {
+        suiteId: row.suite_run_id,
+        scenarioId: row.scenario_id,
+        scenarioName: row.scenario_name || row.scenario_id,
+        trial: row.trial ?? undefined,
+        assertions: row.assertions ? JSON.parse(row.assertions) : [],
+        toolCalls: toolCalls.map((tc) => ({
+          toolName: tc.tool_name,
+          input: tc.input ? JSON.parse(tc.input) : {},
+          output: tc.output ? JSON.parse(tc.output) : undefined,
+          timestamp: tc.timestamp || 0,
+          order: tc.tool_order,
+          durationMs: tc.duration_ms || 0,
+        })),
+        error: row.error || undefined,
+        stderrLogs: row.stderr_logs ? JSON.parse(row.stderr_logs) : undefined,
+        agentResponse: row.agent_response || undefined,
+        dataDiff: row.data_diff ? JSON.parse(row.data_diff) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Tworzy eksperyment (suite'y wariantów linkowane przez experimentId w createSuiteRun / saveSuiteRun)
+   */
+  createExperiment(options: {
+    name: string;
+    description?: string;
+    definition: ExperimentDefinition;
+    variants: ExperimentVariant[];
+    scenarioIds: string[];
+  }): ExperimentRecord {
+    const experiment: ExperimentRecord = {
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      ...options,
+    };
+
+    this.db.prepare(`
+      INSERT INTO experiments (id, created_at, name, description, definition, variants, scenario_ids)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      experiment.id,
+      experiment.createdAt,
+      experiment.name,
+      experiment.description || null,
+      JSON.stringify(experiment.definition),
+      JSON.stringify(experiment.variants),
+      JSON.stringify(experiment.scenarioIds)
+    );
+
+    return experiment;
+  }
+
+  /**
+   * Lista eksperymentów (od najnowszych)
+   */
+  listExperiments(options?: { limit?: number; offset?: number }): ExperimentRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM experiments ORDER BY created_at DESC LIMIT ? OFFSET ?
+    `).all(options?.limit ?? -1, options?.offset ?? 0) as ExperimentRow[];
+
+    return rows.map(mapExperimentRow);
+  }
+
+  getExperiment(experimentId: string): ExperimentRecord | null {
+    const row = this.db.prepare('SELECT * FROM experiments WHERE id = ?').get(experimentId) as ExperimentRow | undefined;
+    return row ? mapExperimentRow(row) : null;
+  }
+
+  /**
+   * Suite'y wariantów eksperymentu (od najstarszych)
+   */
+  getExperimentSuites(experimentId: string): ExperimentSuiteLink[] {
+    const rows = this.db.prepare(`
+      SELECT id, variant_id, created_at, status, total_tokens, total_latency_ms
+      FROM suite_runs
+      WHERE experiment_id = ?
+      ORDER BY created_at
+    `).all(experimentId) as Array<{
+      id: string;
+      variant_id: string;
+      created_at: string;
+      status: string | null;
+      total_tokens: number;
+      total_latency_ms: number;
+    }>;
+
+    return rows.map((row) => ({
+      suiteId: row.id,
+      variantId: row.variant_id,
+      createdAt: row.created_at,
+      status: (row.status || 'completed') as SuiteStatus,
+      totalTokens: row.total_tokens,
+      totalLatencyMs: row.total_latency_ms,
+    }));
+  }
+
+  /**
+   * Tworzy optymalizację promptu w statusie 'running'
+   */
+  createPromptOptimization(options: {
+    name: string;
+    agent: string;
+    definition: PromptOptimizationDefinition;
+    scenarioIds: string[];
+  }): PromptOptimizationRecord {
+    const optimization: PromptOptimizationRecord = {
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      status: 'running',
+      ...options,
+    };
+
+    this.db.prepare(`
+      INSERT INTO prompt_optimizations (id, created_at, name, agent, status, definition, scenario_ids)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      optimization.id,
+      optimization.createdAt,
+      optimization.name,
+      optimization.agent,
+      optimization.status,
+      JSON.stringify(optimization.definition),
+      JSON.stringify(optimization.scenarioIds)
+    );
+
+    return optimization;
+  }
+
+  /**
+   * Zapisuje ocenionego kandydata (wyniki prób są w suite'cie `suiteId`)
+   */
+  savePromptCandidate(optimizationId: string, candidate: EvaluatedCandidate, suiteId?: string): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO prompt_candidates (
+        id, optimization_id, candidate_id, iteration, parent_id, patches, rationale, suite_id,
+        trials, passed_trials, pass_rate, total_tokens, total_cost_usd, avg_latency_ms, failures, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      `${optimizationId}:${candidate.id}`,
+      optimizationId,
+      candidate.id,
+      candidate.iteration,
+      candidate.parentId || null,
+      JSON.stringify(candidate.patches),
+      candidate.rationale || null,
+      suiteId || null,
+      candidate.score.trials,
+      candidate.score.passedTrials,
+      candidate.score.passRate,
+      candidate.score.totalTokens,
+      candidate.score.totalCostUsd ?? null,
+      candidate.score.avgLatencyMs,
+      JSON.stringify(candidate.failures),
+      new Date().toISOString()
+    );
+  }
+
+  /**
+   * Kończy optymalizację - raport przy sukcesie (także po zatrzymaniu), błąd przy porażce
+   */
+  finishPromptOptimization(
+    optimizationId: string,
+    outcome: { status: Exclude<PromptOptimizationStatus, 'running'>; report?: PromptOptimizationReport; error?: string }
+  ): void {
+    this.db.prepare(`
+      UPDATE prompt_optimizations SET status = ?, report = ?, error = ?, completed_at = ? WHERE id = ?
+    `).run(
+      outcome.status,
+      outcome.report ? JSON.stringify(outcome.report) : null,
+      outcome.error || null,
+      new Date().toISOString(),
+      optimizationId
+    );
+  }
+
+  /**
+   * Optymalizacje przerwane restartem serwera (pętla działa w procesie API) - oznacza je jako błąd
+   *
+   * @returns liczba oznaczonych optymalizacji
+   */
+  failInterruptedPromptOptimizations(): number {
+    return this.db.prepare(`
+      UPDATE prompt_optimizations
+      SET status = 'failed', error = 'Interrupted by server restart', completed_at = ?
+      WHERE status = 'running'
+    `).run(new Date().toISOString()).changes;
+  }
+
+  listPromptOptimizations(options?: { limit?: number; offset?: number }): PromptOptimizationRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM prompt_optimizations ORDER BY created_at DESC LIMIT ? OFFSET ?
+    `).all(options?.limit ?? -1, options?.offset ?? 0) as PromptOptimizationRow[];
+
+    return rows.map(mapPromptOptimizationRow);
+  }
+
+  getPromptOptimization(optimizationId: string): PromptOptimizationRecord | null {
+    const row = this.db.prepare('SELECT * FROM prompt_optimizations WHERE id = ?').get(optimizationId) as
+      | PromptOptimizationRow
+      | undefined;
+    return row ? mapPromptOptimizationRow(row) : null;
+  }
+
+  /**
+   * Kandydaci optymalizacji w kolejności oceny
+   */
+  getPromptCandidates(optimizationId: string): PromptCandidateRecord[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM prompt_candidates WHERE optimization_id = ? ORDER BY created_at, rowid
+    `).all(optimizationId) as PromptCandidateRow[];
+
+    return rows.map(mapPromptCandidateRow);
+  }
+
   /**
    * Historia scenariusza przez wszystkie suite'y
    */
@@ -0,0 +1,54 @@
+/**
+ * Rubric Judge Service - wybór judge'a oczekiwań `rubric` dla CLI i API
+ *
+ * Harness nie zależy od desktop-app, więc LlmRubricJudge dostaje tu funkcję
+ * completion opartą o ClaudeCodeCLIService.
+ */
+
+import { ClaudeCodeCLIService } from '../../../desktop-app/electron/services/cli/ClaudeCodeCLIService';
+import { KeywordRubricJudge, LlmRubricJudge, type RubricJudge } from '../../agent-evals/harness/rubric-judge';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const RUBRIC_JUDGE_TYPES = ['keyword', 'llm'] as const;
+
+export type RubricJudgeType = typeof RUBRIC_JUDGE_TYPES[number];
+
+export interface RubricJudgeOptions {
+  /** Model judge'a LLM (domyślnie: domyślny model Claude CLI) */
+  model?: 'haiku' | 'sonnet' | 'opus';
+}
+
+/** Timeout pojedynczej oceny judge'a LLM */
+const JUDGE_TIMEOUT_MS = 120000;
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+export function isRubricJudgeType(value: unknown): value is RubricJudgeType {
+  return (RUBRIC_JUDGE_TYPES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Tworzy judge'a danego typu - 'keyword' to lokalny, domyślny judge harnessu
+ */
+export function createRubricJudge(type: RubricJudgeType = 'keyword', options: RubricJudgeOptions = {}): RubricJudge {
+  if (type === 'keyword') {
+    return new KeywordRubricJudge();
+  }
+
+  const claudeCLI = new ClaudeCodeCLIService();
+  return new LlmRubricJudge(async (prompt) => {
+    const result = await claudeCLI.queryWithContentBlocks({
+      contentBlocks: [{ type: 'text', text: prompt }],
+      allowedTools: [],
+      settingSources: ['project'],
+      timeout: JUDGE_TIMEOUT_MS,
+      model: options.model,
+    });
+    return result.text;
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Scenario Loader - wyszukiwanie i ładowanie scenariuszy
+ *
+ * Źródła: pliki .scenario.ts i scenariusze zapisane w ScenarioStore (dashboard).
+ * Przy tym samym ID lub ścieżce wygrywa plik.
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { getScenarioStore, mergeStoredScenarios } from './scenario-store';
+import type { TestScenario } from '../../agent-evals/types/scenario';
+
+// Ścieżka do głównego katalogu projektu (relatywna do __dirname)
+// testing/api/services/ -> ../../../ -> główny katalog projektu
+const PROJECT_ROOT = path.resolve(__dirname, '../../..');
+
+/** Katalog z plikami .scenario.ts (podkatalog = typ agenta) */
+export const SCENARIOS_DIR = path.join(PROJECT_ROOT, 'testing/agent-evals/scenarios');
+
+/**
+ * Rekursywnie przeszukuje katalog w poszukiwaniu plików .scenario.ts
+ */
+export function findScenarioFilesRecursive(
+  dir: string,
+  relativePath: string = ''
+): { filePath: string; relativePath: string }[] {
+  const results: { filePath: string; relativePath: string }[] = [];
+
+  if (!fs.existsSync(dir)) return results;
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    const entryRelativePath = relativePath
+      ? `${relativePath}/${entry.name}`
+      : entry.name;
+
+    if (entry.isDirectory()) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+      results.push(...findScenarioFilesRecursive(fullPath, entryRelativePath));
+    } else if (entry.name.endsWith('.scenario.ts')) {
+      results.push({
+        filePath: fullPath,
+        relativePath: entryRelativePath.replace('.scenario.ts', ''),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Ładuje scenariusz po ścieżce (względem katalogu scenariuszy, bez .scenario.ts) -
+ * z pliku, a gdy pliku nie ma, ze ScenarioStore
+ */
+export async function loadScenario(scenarioPath: string): Promise<TestScenario | null> {
+  const fullPath = path.join(SCENARIOS_DIR, `${scenarioPath}.scenario.ts`);
+
+  if (!fs.existsSync(fullPath)) {
+    return getScenarioStore().getScenarioByPath(scenarioPath)?.scenario ?? null;
+  }
+
+  try {
+    const module = await import(fullPath);
+    return module.scenario || module.default;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ładuje wszystkie scenariusze agenta - z jego index.ts i ze ScenarioStore
+ */
+export async function loadScenariosForAgent(agentType: string): Promise<TestScenario[]> {
+  return mergeStoredScenarios(
+    await loadFileScenariosForAgent(agentType),
+    getScenarioStore().listScenarios({ agent: agentType })
+  );
+}
+
+async function loadFileScenariosForAgent(agentType: string): Promise<TestScenario[]> {
+  const indexPath = path.join(SCENARIOS_DIR, agentType, 'index.ts');
+
+  if (!fs.existsSync(indexPath)) {
+    return [];
+  }
+
+  try {
+    const module = await import(indexPath);
+    if (Array.isArray(module.default)) {
+      return module.default;
+    }
+
+    const scenarios: TestScenario[] = [];
+    for (const value of Object.values(module)) {
+      if (
+        value &&
+        typeof value === 'object' &&
+        'id' in value &&
+        'name' in value &&
+        'agent' in value
+      ) {
+        scenarios.push(value as TestScenario);
+      }
+    }
+    return scenarios;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lista plików scenariuszy wszystkich agentów (path = `agent/id`)
+ */
+export function listScenarioFiles(): { agent: string; id: string; path: string }[] {
+  const scenariosDir = SCENARIOS_DIR;
+  const results: { agent: string; id: string; path: string }[] = [];
+
+  if (!fs.existsSync(scenariosDir)) {
+    return results;
+  }
+
+  // Pobierz katalogi agentów (pierwszy poziom)
+  const agents = fs.readdirSync(scenariosDir).filter((f) => {
+    const stat = fs.statSync(path.join(scenariosDir, f));
+    return stat.isDirectory() && !f.startsWith('.');
+  });
+
+  // Dla każdego agenta szukaj scenariuszy rekursywnie
+  for (const agent of agents) {
+    const agentDir = path.join(scenariosDir, agent);
+    const scenarioFiles = findScenarioFilesRecursive(agentDir);
+
+    for (const file of scenarioFiles) {
+      // relativePath już nie zawiera .scenario.ts
+      const id = file.relativePath;
+      results.push({
+        agent,
+        id,
+        path: `${agent}/${id}`,
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Lista scenariuszy z obu źródeł (plik wygrywa przy tej samej ścieżce)
+ */
+export function listScenarioEntries(): { agent: string; id: string; path: string; source: 'file' | 'store' }[] {
+  const files = listScenarioFiles().map((f) => ({ ...f, source: 'file' as const }));
+  const filePaths = new Set(files.map((f) => f.path));
+  const stored = getScenarioStore()
+    .listScenarios()
+    .filter((record) => !filePaths.has(record.path))
+    .map((record) => ({ agent: record.agent, id: record.id, path: record.path, source: 'store' as const }));
+
+  return [...files, ...stored];
+}
+
+/**
+ * Szuka definicji scenariusza po jego `id` (id w wynikach != ścieżka pliku)
+ */
+export async function findScenarioById(scenarioId: string): Promise<TestScenario | null> {
+  for (const file of listScenarioFiles()) {
+    const scenario = await loadScenario(file.path);
+    if (scenario?.id === scenarioId) {
+      return scenario;
+    }
+  }
+  return getScenarioStore().getScenario(scenarioId)?.scenario ?? null;
+}
+
+/**
+ * Wybiera scenariusze do przebiegu - wszystkie agenta albo wskazane ścieżki, opcjonalnie zawężone tagami
+ */
+export async function selectScenarios(selection: {
+  agent?: string;
+  scenarioIds?: string[];
+  tags?: string[];
+}): Promise<TestScenario[]> {
+  let scenarios: TestScenario[] = [];
+
+  if (selection.agent) {
+    scenarios = await loadScenariosForAgent(selection.agent);
+  } else if (selection.scenarioIds && selection.scenarioIds.length > 0) {
+    for (const id of selection.scenarioIds) {
+      const scenario = await loadScenario(id);
+      if (scenario) {
+        scenarios.push(scenario);
+      }
+    }
+  }
+
+  // Filtruj po tagach
+  const { tags } = selection;
+  if (tags && tags.length > 0) {
+    scenarios = scenarios.filter((s) => s.tags?.some((t) => tags.includes(t)));
+  }
+
+  return scenarios;
+}
@@ -0,0 +1,467 @@
+/**
+ * Scenario Schema - JSON Schema scenariusza testowego (TestScenario)
+ *
+ * Odzwierciedla typy z agent-evals/types/scenario.ts. Obiekty o znanym kształcie
+ * mają `additionalProperties: false`, żeby literówki w kluczach (np. `requried`)
+ * były wykrywane przed uruchomieniem. Wyjątek: `match` bloków / timeline'ów i
+ * argumenty narzędzi - tam klucze są dowolne (sprawdzane osobno względem fixtures).
+ */
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+/** RegExp w scenariuszu .ts albo string w JSON */
+const regexLike = { anyOf: [{ type: 'string' }, { type: 'object' }] };
+
+const scenarioDefinitions = {
+  expression: {
+    type: 'object',
+    required: ['expr'],
+    properties: { expr: { type: 'string' } },
+    additionalProperties: false,
+  },
+  numberOrExpression: {
+    anyOf: [{ type: 'number' }, { $ref: '#/$defs/expression' }],
+  },
+  matchCondition: {
+    type: 'object',
+    minProperties: 1,
+    properties: {
+      equals: { anyOf: [{ type: ['number', 'string', 'boolean'] }, { $ref: '#/$defs/expression' }] },
+      gte: { $ref: '#/$defs/numberOrExpression' },
+      lte: { $ref: '#/$defs/numberOrExpression' },
+      gt: { $ref: '#/$defs/numberOrExpression' },
+      lt: { $ref: '#/$defs/numberOrExpression' },
+      contains: { type: 'string' },
+      matches: { type: 'string' },
+      oneOf: { type: 'array', items: { type: ['number', 'string', 'boolean'] } },
+      within: {
+        type: 'object',
+        required: ['of', 'tolerance'],
+        properties: {
+          of: { $ref: '#/$defs/numberOrExpression' },
+          tolerance: { type: 'number', minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+      expr: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  /** Wartość dosłowna albo MatchCondition */
+  fieldCondition: {
+    anyOf: [{ type: ['string', 'number', 'boolean'] }, { $ref: '#/$defs/matchCondition' }],
+  },
+  blockMatchCondition: {
+    type: 'object',
+    required: ['match'],
+    properties: {
+      as: { type: 'string', pattern: '^[A-Za-z_$][\\w$]*$' },
+      match: { type: 'object', additionalProperties: { $ref: '#/$defs/fieldCondition' } },
+      changes: { type: 'object', additionalProperties: { $ref: '#/$defs/matchCondition' } },
+    },
+    additionalProperties: false,
+  },
+  toolCallMatch: {
+    type: 'object',
+    required: ['tool'],
+    properties: {
+      tool: { type: 'string' },
+      args: { type: 'object', additionalProperties: { $ref: '#/$defs/fieldCondition' } },
+      output: { type: 'object', additionalProperties: { $ref: '#/$defs/fieldCondition' } },
+      minCount: { type: 'integer', minimum: 0 },
+      maxCount: { type: 'integer', minimum: 0 },
+    },
+    additionalProperties: false,
+  },
+  toolIgnoreOption: {
+    anyOf: [
+      { type: 'boolean' },
+      { type: 'object', properties: { ignore: stringArray }, additionalProperties: false },
+    ],
+  },
+  toolCalls: {
+    type: 'object',
+    properties: {
+      required: stringArray,
+      optional: stringArray,
+      forbidden: stringArray,
+      order: stringArray,
+      calls: { type: 'array', items: { $ref: '#/$defs/toolCallMatch' } },
+      maxTotalCalls: { type: 'integer', minimum: 0 },
+      noRepeatedCalls: { $ref: '#/$defs/toolIgnoreOption' },
+      noErrors: { $ref: '#/$defs/toolIgnoreOption' },
+    },
+    additionalProperties: false,
+  },
+  entityExpectations: {
+    type: 'object',
+    properties: {
+      added: {
+        type: 'array',
+        items: { type: 'object', required: ['match'], properties: { match: { type: 'object' } }, additionalProperties: false },
+      },
+      addedCount: { $ref: '#/$defs/matchCondition' },
+      modified: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['match'],
+          properties: {
+            match: { type: 'object' },
+            changes: { type: 'object', additionalProperties: { $ref: '#/$defs/matchCondition' } },
+          },
+          additionalProperties: false,
+        },
+      },
+      deleted: stringArray,
+    },
+    additionalProperties: false,
+  },
+  settingKeyRef: {
+    type: 'object',
+    required: ['scope', 'key'],
+    properties: {
+      scope: { enum: ['project', 'chapter', 'timeline', 'block'] },
+      ownerId: { type: 'string' },
+      key: { type: 'string', minLength: 1 },
+    },
+    additionalProperties: false,
+  },
+  settingExpectation: {
+    type: 'object',
+    required: ['scope', 'key'],
+    properties: {
+      scope: { enum: ['project', 'chapter', 'timeline', 'block'] },
+      ownerId: { type: 'string' },
+      key: { type: 'string', minLength: 1 },
+      value: { $ref: '#/$defs/fieldCondition' },
+      change: { enum: ['added', 'modified', 'deleted'] },
+    },
+    additionalProperties: false,
+  },
+  finalState: {
+    type: 'object',
+    properties: {
+      blocks: {
+        type: 'object',
+        properties: {
+          added: { type: 'array', items: { $ref: '#/$defs/blockMatchCondition' } },
+          modified: { type: 'array', items: { $ref: '#/$defs/blockMatchCondition' } },
+          deleted: stringArray,
+          unchanged: stringArray,
+          refs: { type: 'array', items: { $ref: '#/$defs/blockMatchCondition' } },
+        },
+        additionalProperties: false,
+      },
+      timelines: {
+        type: 'object',
+        properties: {
+          added: {
+            type: 'array',
+            items: { type: 'object', required: ['match'], properties: { match: { type: 'object' } }, additionalProperties: false },
+          },
+          modified: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['match', 'changes'],
+              properties: {
+                match: { type: 'object' },
+                changes: { type: 'object', additionalProperties: { $ref: '#/$defs/matchCondition' } },
+              },
+              additionalProperties: false,
+            },
+          },
+          deleted: stringArray,
+        },
+        additionalProperties: false,
+      },
+      mediaAssets: {
+        type: 'object',
+        properties: {
+          added: {
+            type: 'array',
+            items: { type: 'object', required: ['match'], properties: { match: { type: 'object' } }, additionalProperties: false },
+          },
+        },
+        additionalProperties: false,
+      },
+      chapters: { $ref: '#/$defs/entityExpectations' },
+      settings: {
+        type: 'object',
+        properties: {
+          changed: { type: 'array', items: { $ref: '#/$defs/settingExpectation' } },
+          unchanged: { type: 'array', items: { $ref: '#/$defs/settingKeyRef' } },
+        },
+        additionalProperties: false,
+      },
+      enrichment: {
+        type: 'object',
+        properties: {
+          focusPoints: { $ref: '#/$defs/entityExpectations' },
+          transcriptionSegments: { $ref: '#/$defs/entityExpectations' },
+          faces: { $ref: '#/$defs/entityExpectations' },
+          scenes: { $ref: '#/$defs/entityExpectations' },
+        },
+        additionalProperties: false,
+      },
+      persons: { $ref: '#/$defs/entityExpectations' },
+      dynamicCompositions: { $ref: '#/$defs/entityExpectations' },
+    },
+    additionalProperties: false,
+  },
+  invariants: {
+    type: 'object',
+    properties: {
+      scope: {
+        type: 'object',
+        properties: {
+          timelineIds: stringArray,
+          timelineType: { type: 'string' },
+          blockTypes: stringArray,
+        },
+        additionalProperties: false,
+      },
+      noGaps: {
+        anyOf: [
+          { type: 'boolean' },
+          {
+            type: 'object',
+            properties: { fromStart: { type: 'boolean' }, tolerance: { type: 'number', minimum: 0 } },
+            additionalProperties: false,
+          },
+        ],
+      },
+      noOverlaps: {
+        anyOf: [
+          { type: 'boolean' },
+          { type: 'object', properties: { tolerance: { type: 'number', minimum: 0 } }, additionalProperties: false },
+        ],
+      },
+      withinChapterBounds: { type: 'boolean' },
+      withinSourceBounds: { type: 'boolean' },
+      orderedBy: {
+        type: 'object',
+        required: ['blockIds'],
+        properties: {
+          blockIds: stringArray,
+          field: { type: 'string' },
+          direction: { enum: ['asc', 'desc'] },
+        },
+        additionalProperties: false,
+      },
+      totalDuration: { $ref: '#/$defs/matchCondition' },
+      durationSpread: { $ref: '#/$defs/matchCondition' },
+    },
+    additionalProperties: false,
+  },
+  agentBehavior: {
+    type: 'object',
+    required: ['type'],
+    properties: {
+      type: { enum: ['clarification_question', 'tool_call', 'completion'] },
+      pattern: regexLike,
+      tool: { type: 'string' },
+      args: { type: 'object', additionalProperties: { $ref: '#/$defs/matchCondition' } },
+      oneOf: { type: 'array', items: { $ref: '#/$defs/agentBehavior' } },
+    },
+    additionalProperties: false,
+  },
+  referenceTag: {
+    type: 'object',
+    required: ['tag'],
+    properties: {
+      tag: { type: 'string' },
+      attrs: {
+        type: 'object',
+        additionalProperties: { anyOf: [{ type: 'string' }, { $ref: '#/$defs/matchCondition' }] },
+      },
+      label: { $ref: '#/$defs/matchCondition' },
+    },
+    additionalProperties: false,
+  },
+  tagCount: {
+    type: 'object',
+    required: ['tag', 'count'],
+    properties: { tag: { type: 'string' }, count: { type: 'integer', minimum: 0 } },
+    additionalProperties: false,
+  },
+  referenceTags: {
+    type: 'object',
+    properties: {
+      required: { type: 'array', items: { $ref: '#/$defs/referenceTag' } },
+      forbidden: { type: 'array', items: { $ref: '#/$defs/referenceTag' } },
+      minCount: { type: 'array', items: { $ref: '#/$defs/tagCount' } },
+      maxCount: { type: 'array', items: { $ref: '#/$defs/tagCount' } },
+    },
+    additionalProperties: false,
+  },
+  rubric: {
+    type: 'object',
+    required: ['criteria'],
+    properties: {
+      criteria: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          required: ['id', 'description'],
+          properties: {
+            id: { type: 'string' },
+            description: { type: 'string' },
+            weight: { type: 'number', exclusiveMinimum: 0 },
+            minScore: { type: 'number', minimum: 0, maximum: 1 },
+            keywords: stringArray,
+            forbiddenKeywords: stringArray,
+          },
+          additionalProperties: false,
+        },
+      },
+      passThreshold: { type: 'number', minimum: 0, maximum: 1 },
+      context: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  budget: {
+    type: 'object',
+    properties: {
+      maxInputTokens: { type: 'integer', minimum: 0 },
+      maxOutputTokens: { type: 'integer', minimum: 0 },
+      maxTotalTokens: { type: 'integer', minimum: 0 },
+      maxTurns: { type: 'integer', minimum: 1 },
+      maxLatencyMs: { type: 'number', minimum: 0 },
+      maxToolCalls: { type: 'integer', minimum: 0 },
+      maxCostUsd: { type: 'number', minimum: 0 },
+      soft: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  renderLimit: {
+    anyOf: [{ type: 'number', minimum: 0 }, { const: false }],
+  },
+  renderChecks: {
+    type: 'object',
+    properties: {
+      engine: { enum: ['remotion', 'puppeteer'] },
+      maxBlackSec: { $ref: '#/$defs/renderLimit' },
+      maxFrozenSec: { $ref: '#/$defs/renderLimit' },
+      maxSilenceSec: { $ref: '#/$defs/renderLimit' },
+      silenceThresholdDb: { type: 'number', maximum: 0 },
+      maxLoudnessJumpLu: { $ref: '#/$defs/renderLimit' },
+      durationToleranceFrames: { $ref: '#/$defs/renderLimit' },
+      maxAvDriftMs: { $ref: '#/$defs/renderLimit' },
+      soft: { type: 'boolean' },
+    },
+    additionalProperties: false,
+  },
+  expectations: {
+    type: 'object',
+    properties: {
+      toolCalls: { $ref: '#/$defs/toolCalls' },
+      finalState: { $ref: '#/$defs/finalState' },
+      invariants: { $ref: '#/$defs/invariants' },
+      agentBehavior: { $ref: '#/$defs/agentBehavior' },
+      referenceTags: { $ref: '#/$defs/referenceTags' },
+      rubric: { $ref: '#/$defs/rubric' },
+      budget: { $ref: '#/$defs/budget' },
+      renderChecks: { $ref: '#/$defs/renderChecks' },
+    },
+    additionalProperties: false,
+  },
+  expectationSets: {
+    type: 'array',
+    minItems: 1,
+    items: { $ref: '#/$defs/expectations' },
+  },
+};
+
+// ============================================================================
+// SCENARIO SCHEMA
+// ============================================================================
+
+export const SCENARIO_JSON_SCHEMA = {
+  $id: 'clamka://agent-evals/test-scenario',
+  type: 'object',
+  required: ['id', 'name', 'agent', 'input', 'expectations'],
+  properties: {
+    id: { type: 'string', minLength: 1 },
+    name: { type: 'string', minLength: 1 },
+    agent: { type: 'string', minLength: 1 },
+    tags: stringArray,
+    description: { type: 'string' },
+    input: {
+      type: 'object',
+      required: ['userMessage', 'context'],
+      properties: {
+        userMessage: { type: 'string', minLength: 1 },
+        context: {
+          type: 'object',
+          required: ['projectId', 'chapterId'],
+          properties: {
+            projectId: { type: 'string', minLength: 1 },
+            chapterId: { type: 'string', minLength: 1 },
+            contextRefs: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['type', 'id'],
+                properties: { type: { type: 'string' }, id: { type: 'string' } },
+              },
+            },
+            customFps: { type: 'number', exclusiveMinimum: 0 },
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    expectations: { $ref: '#/$defs/expectationSets' },
+    turns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          userMessage: { type: 'string' },
+          replies: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['whenResponseMatches', 'userMessage'],
+              properties: {
+                whenResponseMatches: regexLike,
+                userMessage: { type: 'string' },
+              },
+              additionalProperties: false,
+            },
+          },
+          expectations: { $ref: '#/$defs/expectationSets' },
+        },
+        additionalProperties: false,
+      },
+    },
+    timeout: { type: 'integer', exclusiveMinimum: 0 },
+    systemPrompt: {
+      type: 'object',
+      properties: {
+        raw: { type: 'string' },
+        file: { type: 'string' },
+        patches: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['find', 'replace'],
+            properties: { find: { type: 'string' }, replace: { type: 'string' } },
+            additionalProperties: false,
+          },
+        },
+        mode: { enum: ['append', 'replace'] },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+  $defs: scenarioDefinitions,
+};
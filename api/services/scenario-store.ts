@@ -0,0 +1,190 @@
+/**
+ * Scenario Store - scenariusze tworzone w dashboardzie (SQLite)
+ *
+ * Uzupełnia pliki .scenario.ts: scenariusz ze store'a ma ścieżkę `agent/id` i jest
+ * widoczny dla loaderów API i CLI tak samo jak scenariusz z pliku. Przy kolizji
+ * ID lub ścieżki wygrywa plik.
+ */
+
+import Database from 'better-sqlite3';
+import path from 'path';
+import fs from 'fs';
+import type { TestScenario } from '../../agent-evals/types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StoredScenarioRecord {
+  /** ID scenariusza (TestScenario.id) */
+  id: string;
+  /** Ścieżka jak dla plików: `agent/id` */
+  path: string;
+  agent: string;
+  name: string;
+  tags: string[];
+  scenario: TestScenario;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StoredScenarioRow {
+  id: string;
+  path: string;
+  agent: string;
+  name: string;
+  tags: string;
+  definition: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS stored_scenarios (
+  id TEXT PRIMARY KEY,
+  path TEXT NOT NULL UNIQUE,
+  agent TEXT NOT NULL,
+  name TEXT NOT NULL,
+  tags TEXT NOT NULL,
+  definition TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stored_scenarios_agent ON stored_scenarios(agent);
+`;
+
+/** Ścieżka scenariusza ze store'a */
+export function storedScenarioPath(scenario: Pick<TestScenario, 'agent' | 'id'>): string {
+  return `${scenario.agent}/${scenario.id}`;
+}
+
+function rowToRecord(row: StoredScenarioRow): StoredScenarioRecord {
+  return {
+    id: row.id,
+    path: row.path,
+    agent: row.agent,
+    name: row.name,
+    tags: JSON.parse(row.tags),
+    scenario: JSON.parse(row.definition),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export class ScenarioStore {
+  private db: Database.Database;
+
+  constructor(dbPath?: string) {
+    const baseDir = path.join(__dirname, '../../agent-evals/results');
+    if (!fs.existsSync(baseDir)) {
+      fs.mkdirSync(baseDir, { recursive: true });
+    }
+
+    this.db = new Database(dbPath || path.join(baseDir, 'scenarios.db'));
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  listScenarios(options?: { agent?: string }): StoredScenarioRecord[] {
+    const rows = options?.agent
+      ? this.db.prepare('SELECT * FROM stored_scenarios WHERE agent = ? ORDER BY path').all(options.agent)
+      : this.db.prepare('SELECT * FROM stored_scenarios ORDER BY path').all();
+    return (rows as StoredScenarioRow[]).map(rowToRecord);
+  }
+
+  getScenario(id: string): StoredScenarioRecord | null {
+    const row = this.db.prepare('SELECT * FROM stored_scenarios WHERE id = ?').get(id) as StoredScenarioRow | undefined;
+    return row ? rowToRecord(row) : null;
+  }
+
+  getScenarioByPath(scenarioPath: string): StoredScenarioRecord | null {
+    const row = this.db.prepare('SELECT * FROM stored_scenarios WHERE path = ?').get(scenarioPath) as
+      | StoredScenarioRow
+      | undefined;
+    return row ? rowToRecord(row) : null;
+  }
+
+  /**
+   * Zapisuje nowy scenariusz - rzuca błąd, gdy ID jest już zajęte
+   */
+  createScenario(scenario: TestScenario): StoredScenarioRecord {
+    if (this.getScenario(scenario.id)) {
+      throw new Error(`Scenario '${scenario.id}' already exists`);
+    }
+
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO stored_scenarios (id, path, agent, name, tags, definition, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      scenario.id,
+      storedScenarioPath(scenario),
+      scenario.agent,
+      scenario.name,
+      JSON.stringify(scenario.tags ?? []),
+      JSON.stringify(scenario),
+      now,
+      now
+    );
+
+    return this.getScenario(scenario.id)!;
+  }
+
+  /**
+   * Nadpisuje definicję scenariusza (ID bez zmian)
+   *
+   * @returns null, gdy scenariusza nie ma w store
+   */
+  updateScenario(id: string, scenario: TestScenario): StoredScenarioRecord | null {
+    if (scenario.id !== id) {
+      throw new Error(`Scenario id cannot be changed (${id} -> ${scenario.id})`);
+    }
+
+    const result = this.db.prepare(`
+      UPDATE stored_scenarios
+      SET path = ?, agent = ?, name = ?, tags = ?, definition = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      storedScenarioPath(scenario),
+      scenario.agent,
+      scenario.name,
+      JSON.stringify(scenario.tags ?? []),
+      JSON.stringify(scenario),
+      new Date().toISOString(),
+      id
+    );
+
+    return result.changes > 0 ? this.getScenario(id) : null;
+  }
+
+  deleteScenario(id: string): boolean {
+    return this.db.prepare('DELETE FROM stored_scenarios WHERE id = ?').run(id).changes > 0;
+  }
+}
+
+// Singleton
+let instance: ScenarioStore | null = null;
+
+export function getScenarioStore(): ScenarioStore {
+  if (!instance) {
+    instance = new ScenarioStore();
+  }
+  return instance;
+}
+
+/**
+ * Scalenie scenariuszy z plików i ze store'a - przy tym samym ID wygrywa plik
+ */
+export function mergeStoredScenarios(fileScenarios: TestScenario[], stored: StoredScenarioRecord[]): TestScenario[] {
+  const fileIds = new Set(fileScenarios.map((s) => s.id));
+  return [...fileScenarios, ...stored.filter((record) => !fileIds.has(record.id)).map((record) => record.scenario)];
+}
@@ -0,0 +1,634 @@
+/**
+ * Scenario Validator - walidacja (lint) plików scenariuszy przed uruchomieniem
+ *
+ * Wykrywa błędy, które inaczej wychodzą dopiero przy nieudanym przebiegu:
+ * 1. Zgodność ze schematem JSON (SCENARIO_JSON_SCHEMA) - literówki w kluczach, złe typy
+ * 2. Referencje do fixtures.db (sqlite-fixture-loader) - projekt, chapter, ID bloków
+ *    i timeline'ów, pola w `match` / `changes`
+ * 3. Nazwy narzędzi względem listy dozwolonych narzędzi agenta
+ * 4. Poprawność regexów i wyrażeń (`expr`)
+ *
+ * Każdy problem ma ścieżkę pola w scenariuszu (np. `expectations[0].toolCalls.required[1]`).
+ */
+
+import path from 'path';
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import {
+  MONTAGE_ALLOWED_TOOLS,
+  SCRIPT_ALLOWED_TOOLS,
+  MEDIA_SCOUT_TRANSAGENT_ALLOWED_TOOLS,
+} from '../../../desktop-app/shared/prompts/agents/allowed-tools';
+import { loadFixturesFromSqlite } from './sqlite-fixture-loader';
+import { SCENARIO_JSON_SCHEMA } from './scenario-schema';
+import { checkExpressionSyntax } from '../../agent-evals/harness/assertions';
+import type {
+  TestScenario,
+  ScenarioExpectations,
+  AgentBehaviorExpectation,
+  BlockMatchCondition,
+} from '../../agent-evals/types/scenario';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ScenarioValidationSeverity = 'error' | 'warning';
+
+export interface ScenarioValidationIssue {
+  severity: ScenarioValidationSeverity;
+  /** Ścieżka pola w scenariuszu (pusta = cały plik) */
+  path: string;
+  message: string;
+}
+
+export interface ScenarioValidationReport {
+  /** Ścieżka pliku względem katalogu scenariuszy (bez .scenario.ts) */
+  file: string;
+  scenarioId?: string;
+  /** false gdy jest co najmniej jeden błąd (ostrzeżenia nie wpływają) */
+  valid: boolean;
+  issues: ScenarioValidationIssue[];
+}
+
+export interface ScenarioValidationSummary {
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  reports: ScenarioValidationReport[];
+}
+
+export interface ScenarioFileRef {
+  filePath: string;
+  relativePath: string;
+}
+
+/** Identyfikatory z fixtures dla pary projekt / chapter */
+interface FixtureIndex {
+  blockIds: Set<string>;
+  timelineIds: Set<string>;
+  /** Wszystkie znane ID (projekt, chaptery, timeline'y, bloki, media assety) */
+  knownIds: Set<string>;
+  blockFields: Set<string>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_FIXTURES_DB_PATH = path.resolve(__dirname, '../../agent-evals/fixtures/clamka.db');
+
+const TOOL_PREFIX = /^mcp__.+?__/;
+
+/** Pola bloku z fixtures + pola wyliczane przez asercje */
+const BLOCK_FIELDS = [
+  'id', 'timelineId', 'blockType', 'mediaAssetId', 'timelineOffsetInFrames',
+  'fileRelativeStartFrame', 'fileRelativeEndFrame', 'orderIndex', 'createdDate',
+  'modifiedDate', 'blockSettings', 'focusPoints', 'transcriptionSegments', 'faces',
+  'durationInFrames', 'startFrame',
+];
+
+const TIMELINE_FIELDS = [
+  'id', 'chapterId', 'type', 'label', 'orderIndex', 'createdDate', 'modifiedDate', 'timelineSettings',
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// SCENARIO VALIDATOR
+// ============================================================================
+
+export class ScenarioValidator {
+  private readonly validateSchema: ValidateFunction;
+  /** Cache fixtures na jedno wywołanie validateFiles (klucz = projectId/chapterId) */
+  private fixtureCache = new Map<string, Promise<FixtureIndex | string>>();
+
+  constructor(private readonly fixturesDbPath: string = DEFAULT_FIXTURES_DB_PATH) {
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    this.validateSchema = ajv.compile(SCENARIO_JSON_SCHEMA);
+  }
+
+  /**
+   * Waliduje listę plików scenariuszy (wykrywa też zduplikowane ID)
+   */
+  async validateFiles(files: ScenarioFileRef[]): Promise<ScenarioValidationSummary> {
+    this.fixtureCache = new Map();
+    const reports: ScenarioValidationReport[] = [];
+    const seenIds = new Map<string, string>();
+
+    for (const file of files) {
+      const report = await this.validateFile(file);
+
+      if (report.scenarioId) {
+        const firstFile = seenIds.get(report.scenarioId);
+        if (firstFile) {
+          report.issues.push({
+            severity: 'error',
+            path: 'id',
+            message: `Duplicate scenario id '${report.scenarioId}' (already used in ${firstFile})`,
+          });
+          report.valid = false;
+        } else {
+          seenIds.set(report.scenarioId, file.relativePath);
+        }
+      }
+
+      reports.push(report);
+    }
+
+    const issues = reports.flatMap((r) => r.issues);
+    const errorCount = issues.filter((i) => i.severity === 'error').length;
+
+    return {
+      valid: errorCount === 0,
+      errorCount,
+      warningCount: issues.length - errorCount,
+      reports,
+    };
+  }
+
+  /**
+   * Ładuje plik .scenario.ts i waliduje wyeksportowany scenariusz
+   */
+  async validateFile(file: ScenarioFileRef): Promise<ScenarioValidationReport> {
+    let scenario: unknown;
+    try {
+      const module = await import(file.filePath);
+      scenario = module.scenario || module.default;
+    } catch (error) {
+      return {
+        file: file.relativePath,
+        valid: false,
+        issues: [{
+          severity: 'error',
+          path: '',
+          message: `Failed to load scenario file: ${error instanceof Error ? error.message : String(error)}`,
+        }],
+      };
+    }
+
+    if (!scenario) {
+      return {
+        file: file.relativePath,
+        valid: false,
+        issues: [{ severity: 'error', path: '', message: 'File does not export `scenario` or a default export' }],
+      };
+    }
+
+    return this.validateScenario(scenario, file.relativePath);
+  }
+
+  /**
+   * Waliduje obiekt scenariusza (schemat + fixtures + narzędzia + regexy / wyrażenia)
+   */
+  async validateScenario(scenario: unknown, file: string): Promise<ScenarioValidationReport> {
+    const issues: ScenarioValidationIssue[] = this.checkSchema(scenario);
+
+    if (isRecord(scenario)) {
+      const typed = scenario as unknown as TestScenario;
+      const expectationSets = collectExpectationSets(typed);
+
+      issues.push(...checkPatterns(scenario));
+      issues.push(...checkToolNames(typed.agent, expectationSets));
+
+      const context = typed.input?.context;
+      if (typeof context?.projectId === 'string' && typeof context?.chapterId === 'string') {
+        const fixtures = await this.loadFixtureIndex(context.projectId, context.chapterId);
+        if (typeof fixtures === 'string') {
+          issues.push({ severity: 'error', path: 'input.context', message: fixtures });
+        } else {
+          issues.push(...checkFixtureReferences(typed, expectationSets, fixtures));
+        }
+      }
+    }
+
+    return {
+      file,
+      scenarioId: isRecord(scenario) && typeof scenario.id === 'string' ? scenario.id : undefined,
+      valid: !issues.some((i) => i.severity === 'error'),
+      issues,
+    };
+  }
+
+  private checkSchema(scenario: unknown): ScenarioValidationIssue[] {
+    if (this.validateSchema(scenario)) {
+      return [];
+    }
+    return describeSchemaErrors(this.validateSchema.errors || []);
+  }
+
+  private loadFixtureIndex(projectId: string, chapterId: string): Promise<FixtureIndex | string> {
+    const key = `${projectId}/${chapterId}`;
+    let cached = this.fixtureCache.get(key);
+
+    if (!cached) {
+      cached = loadFixturesFromSqlite(projectId, chapterId, this.fixturesDbPath)
+        .then((data): FixtureIndex => {
+          const blockFields = new Set(BLOCK_FIELDS);
+          for (const block of data.blocks) {
+            Object.keys(block).forEach((field) => blockFields.add(field));
+          }
+
+          return {
+            blockIds: new Set(data.blocks.map((b) => b.id)),
+            timelineIds: new Set(data.timelines.map((t) => t.id)),
+            knownIds: new Set([
+              data.project.id,
+              ...data.chapters.map((c) => c.id),
+              ...data.timelines.map((t) => t.id),
+              ...data.blocks.map((b) => b.id),
+              ...data.mediaAssets.map((a) => a.id),
+            ]),
+            blockFields,
+          };
+        })
+        .catch((error: unknown) => error instanceof Error ? error.message : String(error));
+      this.fixtureCache.set(key, cached);
+    }
+
+    return cached;
+  }
+}
+
+// ============================================================================
+// SCHEMA ERRORS
+// ============================================================================
+
+/**
+ * Zamienia błędy Ajv na czytelne problemy
+ *
+ * Przy `anyOf` Ajv zgłasza błąd każdej gałęzi - odrzucamy niedopasowania typu
+ * gałęzi i zostawiamy konkretne przyczyny (np. nieznany klucz w MatchCondition).
+ */
+function describeSchemaErrors(errors: ErrorObject[]): ScenarioValidationIssue[] {
+  const anyOfPaths = new Set(errors.filter((e) => e.keyword === 'anyOf').map((e) => e.instancePath));
+  const specific = errors.filter((e) =>
+    e.keyword !== 'anyOf' &&
+    !(anyOfPaths.has(e.instancePath) && (e.keyword === 'type' || e.keyword === 'required'))
+  );
+
+  const issues = specific.map((error): ScenarioValidationIssue => {
+    if (error.keyword === 'additionalProperties') {
+      const field = (error.params as { additionalProperty: string }).additionalProperty;
+      return {
+        severity: 'error',
+        path: joinPath(toFieldPath(error.instancePath), field),
+        message: `Unknown field '${field}'`,
+      };
+    }
+    return { severity: 'error', path: toFieldPath(error.instancePath), message: error.message || error.keyword };
+  });
+
+  for (const anyOfPath of anyOfPaths) {
+    const explained = specific.some((e) => e.instancePath === anyOfPath || e.instancePath.startsWith(`${anyOfPath}/`));
+    if (!explained) {
+      issues.push({ severity: 'error', path: toFieldPath(anyOfPath), message: 'has an invalid value type' });
+    }
+  }
+
+  const seen = new Set<string>();
+  return issues.filter((issue) => {
+    const key = `${issue.path}|${issue.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** '/expectations/0/toolCalls' -> 'expectations[0].toolCalls' */
+function toFieldPath(instancePath: string): string {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce(joinPath, '');
+}
+
+function joinPath(base: string, segment: string | number): string {
+  if (typeof segment === 'number' || /^\d+$/.test(segment)) {
+    return `${base}[${segment}]`;
+  }
+  if (!/^[A-Za-z_$][\w$]*$/.test(segment)) {
+    return `${base}[${JSON.stringify(segment)}]`;
+  }
+  return base ? `${base}.${segment}` : segment;
+}
+
+// ============================================================================
+// PATTERNS & EXPRESSIONS
+// ============================================================================
+
+const REGEX_FIELDS = new Set(['matches', 'pattern', 'whenResponseMatches']);
+
+/**
+ * Regexy (`matches`, `pattern`, `whenResponseMatches`) i wyrażenia (`expr`) w całym scenariuszu
+ */
+function checkPatterns(scenario: Record<string, unknown>): ScenarioValidationIssue[] {
+  const issues: ScenarioValidationIssue[] = [];
+
+  const visit = (value: unknown, fieldPath: string, key?: string) => {
+    if (typeof value === 'string' && key && REGEX_FIELDS.has(key)) {
+      try {
+        new RegExp(value);
+      } catch (error) {
+        issues.push({ severity: 'error', path: fieldPath, message: `Invalid regex: ${(error as Error).message}` });
+      }
+      return;
+    }
+    if (typeof value === 'string' && key === 'expr') {
+      const syntaxError = checkExpressionSyntax(value);
+      if (syntaxError) {
+        issues.push({ severity: 'error', path: fieldPath, message: `Invalid expression: ${syntaxError}` });
+      }
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, joinPath(fieldPath, index)));
+    } else if (isRecord(value)) {
+      for (const [childKey, child] of Object.entries(value)) {
+        visit(child, joinPath(fieldPath, childKey), childKey);
+      }
+    }
+  };
+
+  visit(scenario, '');
+  return issues;
+}
+
+// ============================================================================
+// TOOL NAMES
+// ============================================================================
+
+/**
+ * Dozwolone narzędzia agenta bez prefiksu serwera MCP (undefined = nieznany agent)
+ */
+export function getAllowedToolNames(agent: string): Set<string> | undefined {
+  const allowed =
+    agent === 'montage' ? MONTAGE_ALLOWED_TOOLS
+      : agent === 'script' ? SCRIPT_ALLOWED_TOOLS
+        : agent === 'media-scout' ? MEDIA_SCOUT_TRANSAGENT_ALLOWED_TOOLS
+          : undefined;
+
+  return allowed ? new Set(allowed.map((t: string) => t.replace(TOOL_PREFIX, ''))) : undefined;
+}
+
+function checkToolNames(
+  agent: unknown,
+  expectationSets: { path: string; expectations: ScenarioExpectations }[]
+): ScenarioValidationIssue[] {
+  if (typeof agent !== 'string') {
+    return [];
+  }
+
+  const allowed = getAllowedToolNames(agent);
+  if (!allowed) {
+    return [{ severity: 'warning', path: 'agent', message: `Unknown agent '${agent}' - tool names not checked` }];
+  }
+
+  const issues: ScenarioValidationIssue[] = [];
+  const check = (tool: unknown, fieldPath: string, severity: ScenarioValidationSeverity) => {
+    if (typeof tool === 'string' && !allowed.has(tool.replace(TOOL_PREFIX, ''))) {
+      issues.push({
+        severity,
+        path: fieldPath,
+        message: `Tool '${tool}' is not allowed for agent '${agent}'${suggest(tool, allowed)}`,
+      });
+    }
+  };
+  const checkList = (tools: unknown, fieldPath: string, severity: ScenarioValidationSeverity) => {
+    if (Array.isArray(tools)) {
+      tools.forEach((tool, index) => check(tool, joinPath(fieldPath, index), severity));
+    }
+  };
+
+  for (const { path: setPath, expectations } of expectationSets) {
+    const toolCalls = expectations.toolCalls;
+    if (toolCalls) {
+      const toolCallsPath = joinPath(setPath, 'toolCalls');
+      checkList(toolCalls.required, joinPath(toolCallsPath, 'required'), 'error');
+      checkList(toolCalls.optional, joinPath(toolCallsPath, 'optional'), 'error');
+      checkList(toolCalls.order, joinPath(toolCallsPath, 'order'), 'error');
+      // Zakazane narzędzie spoza listy i tak nie zostanie wywołane - to tylko martwa asercja
+      checkList(toolCalls.forbidden, joinPath(toolCallsPath, 'forbidden'), 'warning');
+      toolCalls.calls?.forEach((call, index) =>
+        check(call?.tool, joinPath(joinPath(joinPath(toolCallsPath, 'calls'), index), 'tool'), 'error')
+      );
+      for (const option of ['noRepeatedCalls', 'noErrors'] as const) {
+        const value = toolCalls[option];
+        if (isRecord(value)) {
+          checkList(value.ignore, joinPath(joinPath(toolCallsPath, option), 'ignore'), 'warning');
+        }
+      }
+    }
+
+    if (expectations.agentBehavior) {
+      const visitBehavior = (behavior: AgentBehaviorExpectation, fieldPath: string) => {
+        check(behavior.tool, joinPath(fieldPath, 'tool'), 'error');
+        behavior.oneOf?.forEach((alternative, index) =>
+          visitBehavior(alternative, joinPath(joinPath(fieldPath, 'oneOf'), index))
+        );
+      };
+      visitBehavior(expectations.agentBehavior, joinPath(setPath, 'agentBehavior'));
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// FIXTURE REFERENCES
+// ============================================================================
+
+function checkFixtureReferences(
+  scenario: TestScenario,
+  expectationSets: { path: string; expectations: ScenarioExpectations }[],
+  fixtures: FixtureIndex
+): ScenarioValidationIssue[] {
+  const issues: ScenarioValidationIssue[] = [];
+  const chapterId = scenario.input.context.chapterId;
+
+  const checkId = (id: unknown, ids: Set<string>, kind: string, fieldPath: string) => {
+    if (typeof id === 'string' && !ids.has(id)) {
+      issues.push({ severity: 'error', path: fieldPath, message: `${kind} '${id}' not found in chapter ${chapterId}` });
+    }
+  };
+  const checkIds = (ids: unknown, known: Set<string>, kind: string, fieldPath: string) => {
+    if (Array.isArray(ids)) {
+      ids.forEach((id, index) => checkId(id, known, kind, joinPath(fieldPath, index)));
+    }
+  };
+  const checkFields = (fields: unknown, known: Set<string>, kind: string, fieldPath: string) => {
+    if (isRecord(fields)) {
+      for (const field of Object.keys(fields)) {
+        if (!known.has(field)) {
+          issues.push({
+            severity: 'error',
+            path: joinPath(fieldPath, field),
+            message: `Unknown ${kind} field '${field}'${suggest(field, known)}`,
+          });
+        }
+      }
+    }
+  };
+  const checkBlockConditions = (conditions: BlockMatchCondition[] | undefined, fieldPath: string, existing: boolean) => {
+    conditions?.forEach((condition, index) => {
+      const conditionPath = joinPath(fieldPath, index);
+      if (existing) {
+        checkId(condition?.match?.id, fixtures.blockIds, 'Block', joinPath(joinPath(conditionPath, 'match'), 'id'));
+      }
+      checkId(condition?.match?.timelineId, fixtures.timelineIds, 'Timeline', joinPath(joinPath(conditionPath, 'match'), 'timelineId'));
+      checkFields(condition?.match, fixtures.blockFields, 'block', joinPath(conditionPath, 'match'));
+      checkFields(condition?.changes, fixtures.blockFields, 'block', joinPath(conditionPath, 'changes'));
+    });
+  };
+
+  scenario.input.context.contextRefs?.forEach((ref, index) => {
+    const refPath = joinPath(joinPath('input.context.contextRefs', index), 'id');
+    if (typeof ref?.id === 'string' && !fixtures.knownIds.has(ref.id)) {
+      issues.push({ severity: 'error', path: refPath, message: `Context ref '${ref.id}' not found in fixtures` });
+    }
+  });
+
+  const timelineFields = new Set(TIMELINE_FIELDS);
+
+  for (const { path: setPath, expectations } of expectationSets) {
+    const blocks = expectations.finalState?.blocks;
+    if (blocks) {
+      const blocksPath = joinPath(joinPath(setPath, 'finalState'), 'blocks');
+      // Dodane bloki dostają nowe ID - sprawdzamy tylko pola i timeline
+      checkBlockConditions(blocks.added, joinPath(blocksPath, 'added'), false);
+      checkBlockConditions(blocks.modified, joinPath(blocksPath, 'modified'), true);
+      checkIds(blocks.deleted, fixtures.blockIds, 'Block', joinPath(blocksPath, 'deleted'));
+      checkIds(blocks.unchanged, fixtures.blockIds, 'Block', joinPath(blocksPath, 'unchanged'));
+      checkBlockConditions(blocks.refs, joinPath(blocksPath, 'refs'), true);
+    }
+
+    const timelines = expectations.finalState?.timelines;
+    if (timelines) {
+      const timelinesPath = joinPath(joinPath(setPath, 'finalState'), 'timelines');
+      timelines.added?.forEach((t, index) =>
+        checkFields(t?.match, timelineFields, 'timeline', joinPath(joinPath(joinPath(timelinesPath, 'added'), index), 'match'))
+      );
+      timelines.modified?.forEach((t, index) => {
+        const modifiedPath = joinPath(joinPath(timelinesPath, 'modified'), index);
+        checkId(t?.match?.id, fixtures.timelineIds, 'Timeline', joinPath(joinPath(modifiedPath, 'match'), 'id'));
+        checkFields(t?.match, timelineFields, 'timeline', joinPath(modifiedPath, 'match'));
+        checkFields(t?.changes, timelineFields, 'timeline', joinPath(modifiedPath, 'changes'));
+      });
+      checkIds(timelines.deleted, fixtures.timelineIds, 'Timeline', joinPath(timelinesPath, 'deleted'));
+    }
+
+    const invariants = expectations.invariants;
+    if (invariants) {
+      const invariantsPath = joinPath(setPath, 'invariants');
+      checkIds(invariants.scope?.timelineIds, fixtures.timelineIds, 'Timeline', joinPath(joinPath(invariantsPath, 'scope'), 'timelineIds'));
+      checkIds(invariants.orderedBy?.blockIds, fixtures.blockIds, 'Block', joinPath(joinPath(invariantsPath, 'orderedBy'), 'blockIds'));
+      if (invariants.orderedBy?.field && !fixtures.blockFields.has(invariants.orderedBy.field)) {
+        issues.push({
+          severity: 'error',
+          path: joinPath(joinPath(invariantsPath, 'orderedBy'), 'field'),
+          message: `Unknown block field '${invariants.orderedBy.field}'${suggest(invariants.orderedBy.field, fixtures.blockFields)}`,
+        });
+      }
+    }
+
+    // Pozostałe UUID (argumenty narzędzi, tagi) - mogą odnosić się do encji tworzonych w trakcie
+    for (const key of ['toolCalls', 'agentBehavior', 'referenceTags'] as const) {
+      collectUuids(expectations[key], joinPath(setPath, key)).forEach(({ id, path: uuidPath }) => {
+        if (!fixtures.knownIds.has(id)) {
+          issues.push({ severity: 'warning', path: uuidPath, message: `ID '${id}' not found in fixtures` });
+        }
+      });
+    }
+  }
+
+  return issues;
+}
+
+function collectUuids(value: unknown, fieldPath: string): { id: string; path: string }[] {
+  if (typeof value === 'string') {
+    return UUID_PATTERN.test(value) ? [{ id: value, path: fieldPath }] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectUuids(item, joinPath(fieldPath, index)));
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).flatMap(([key, child]) => collectUuids(child, joinPath(fieldPath, key)));
+  }
+  return [];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Zestawy oczekiwań scenariusza i tur (ze ścieżkami)
+ */
+function collectExpectationSets(scenario: TestScenario): { path: string; expectations: ScenarioExpectations }[] {
+  const sets: { path: string; expectations: ScenarioExpectations }[] = [];
+  const add = (expectations: unknown, fieldPath: string) => {
+    if (Array.isArray(expectations)) {
+      expectations.forEach((set, index) => {
+        if (isRecord(set)) {
+          sets.push({ path: joinPath(fieldPath, index), expectations: set as ScenarioExpectations });
+        }
+      });
+    }
+  };
+
+  add(scenario.expectations, 'expectations');
+  if (Array.isArray(scenario.turns)) {
+    scenario.turns.forEach((turn, index) => add(turn?.expectations, `turns[${index}].expectations`));
+  }
+  return sets;
+}
+
+/**
+ * Podpowiedź " (did you mean 'x'?)" dla najbliższej nazwy (odległość Levenshteina <= 3)
+ */
+function suggest(name: string, candidates: Iterable<string>): string {
+  let best: string | undefined;
+  let bestDistance = 4;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best ? ` (did you mean '${best}'?)` : '';
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Singleton
+let instance: ScenarioValidator | null = null;
+
+export function getScenarioValidator(): ScenarioValidator {
+  if (!instance) {
+    instance = new ScenarioValidator();
+  }
+  return instance;
+}
@@ -7,10 +7,31 @@ import { Queue, Worker, Job } from 'bullmq';
 import { EventEmitter } from 'events';
 import { getRedisConnection } from '../config/redis';
 import { AgentTestHarness, summarizeResults } from '../../agent-evals/harness/test-harness';
-import { getResultsStore } from './results-store';
+import { cassetteFromTestResult } from '../../agent-evals/harness/cassette';
+import { ConcurrencyLimiter, mapWithConcurrency } from '../../agent-evals/harness/concurrency';
+import { collectSuiteConfigSnapshots } from '../../agent-evals/harness/suite-config-snapshot';
+import type { SuiteConfigSnapshot } from '../../agent-evals/types/config-snapshot';
+import { getResultsStore, buildConfigSnapshot } from './results-store';
+import { renderCheckService } from './render-check-service';
+import { createRubricJudge, type RubricJudgeType } from './rubric-judge-service';
 import { initializeElectronEnvWithPath } from '../../../desktop-app/electron/utils/electronEnv';
 import type { TestScenario, TestResult, ToolCall, RawMessage, SystemPromptConfig, TransAgentPromptConfig, SubagentPromptConfig } from '../../agent-evals/types/scenario';
 
+// ============================================================================
+// CONCURRENCY
+// ============================================================================
+
+/** Globalny limit równolegle wykonywanych scenariuszy (wszystkie suite'y razem) */
+const MAX_CONCURRENT_SCENARIOS = parseInt(process.env.EVAL_MAX_CONCURRENCY || '4') || 4;
+/** Liczba suite'ów przetwarzanych jednocześnie przez worker */
+const MAX_CONCURRENT_SUITES = parseInt(process.env.EVAL_MAX_CONCURRENT_SUITES || '1') || 1;
+
+/**
+ * Wspólny dla wszystkich jobów i innych przebiegów w procesie API (optymalizacja promptu) -
+ * ogranicza scenariusze wykonywane naraz w całym API
+ */
+export const scenarioLimiter = new ConcurrencyLimiter(MAX_CONCURRENT_SCENARIOS);
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -43,9 +64,18 @@ export interface TestJob {
     transAgentEnabledTools?: Record<string, string[]>;
     /** Custom konfiguracja subagentów (Task tool) */
     subagentPrompts?: Record<string, SubagentPromptConfig>;
+    /** Liczba powtórzeń każdego scenariusza (domyślnie: 1) */
+    repetitions?: number;
+    /** Maks. liczba prób wykonywanych równolegle w tym suite (domyślnie: 1, ograniczona limitem globalnym) */
+    concurrency?: number;
+    /** Judge oczekiwań rubric (domyślnie: keyword; llm ocenia modelem przebiegu) */
+    judge?: RubricJudgeType;
   };
 }
 
+/** Opcje przebiegu suite'a (model, prompt, narzędzia, powtórzenia) */
+export type TestRunOptions = NonNullable<TestJob['options']>;
+
 export interface TestJobProgress {
   jobId: string;
   status: 'waiting' | 'running' | 'completed' | 'failed';
@@ -58,9 +88,9 @@ export interface TestJobProgress {
 
 export type TestEvent =
   | { type: 'job:start'; jobId: string; suiteId?: string; totalScenarios: number }
-  | { type: 'scenario:start'; jobId: string; suiteId?: string; scenarioId: string; scenarioName: string }
-  | { type: 'tool:call'; jobId: string; suiteId?: string; scenarioId: string; toolCall: ToolCall }
-  | { type: 'message:received'; jobId: string; suiteId?: string; scenarioId: string; message: RawMessage }
+  | { type: 'scenario:start'; jobId: string; suiteId?: string; scenarioId: string; scenarioName: string; trial?: number }
+  | { type: 'tool:call'; jobId: string; suiteId?: string; scenarioId: string; trial?: number; toolCall: ToolCall }
+  | { type: 'message:received'; jobId: string; suiteId?: string; scenarioId: string; trial?: number; message: RawMessage }
   | { type: 'scenario:complete'; jobId: string; suiteId?: string; scenarioId: string; result: TestResult }
   | { type: 'job:complete'; jobId: string; suiteId?: string; summary: ReturnType<typeof summarizeResults> }
   | { type: 'job:error'; jobId: string; suiteId?: string; error: string }
@@ -75,6 +105,7 @@ export class TestRunnerService extends EventEmitter {
   private worker: Worker<TestJob, TestResult[]> | null = null;
   private harness: AgentTestHarness;
   private stoppedSuites = new Set<string>();
+  private scenarioLimiter = scenarioLimiter;
 
   constructor() {
     super();
@@ -96,6 +127,7 @@ export class TestRunnerService extends EventEmitter {
 
     this.harness = new AgentTestHarness({
       verbose: true,
+      renderChecker: renderCheckService,
     });
   }
 
@@ -117,11 +149,12 @@ export class TestRunnerService extends EventEmitter {
       },
       {
         connection,
-        concurrency: 1, // Jeden test na raz - zasobożerne
+        // Suite'y równolegle tylko gdy pozwala konfiguracja - scenariusze i tak limituje scenarioLimiter
+        concurrency: MAX_CONCURRENT_SUITES,
       }
     );
 
-    this.worker.on('completed', (job, result) => {
+    this.worker.on('completed', async (job, result) => {
       const summary = summarizeResults(result);
       const suiteId = job.data.suiteId;
 
@@ -140,23 +173,20 @@ export class TestRunnerService extends EventEmitter {
           console.log(`[TestRunner] Suite finalized: ${suiteId} (${finalStatus})`);
         } else {
           // Stara ścieżka - zapisz nowy suite (dla kompatybilności)
+          const suiteConfigSnapshots = await collectSuiteConfigSnapshots(
+            job.data.scenarios.map((s) => s.agent),
+            job.data.options ?? {}
+          ).catch((err) => {
+            console.error('[TestRunner] Failed to collect config snapshots:', err);
+            return undefined;
+          });
           const suiteRun = getResultsStore().saveSuiteRun(result, {
             tags: ['api-triggered'],
             label: job.data.scenarios.length === 1
               ? `Single: ${job.data.scenarios[0].name}`
               : `Suite: ${job.data.scenarios.length} scenarios`,
-            configSnapshot: {
-              model: job.data.options?.model,
-              thinkingMode: job.data.options?.thinkingMode,
-              enabledTools: job.data.options?.enabledTools,
-              disabledTools: job.data.options?.disabledTools,
-              systemPromptSource: job.data.options?.systemPrompt
-                ? (job.data.options.systemPrompt.raw ? 'custom-raw' : 'custom-file')
-                : 'default',
-              transAgentPrompts: job.data.options?.transAgentPrompts,
-              transAgentEnabledTools: job.data.options?.transAgentEnabledTools,
-              subagentPrompts: job.data.options?.subagentPrompts,
-            },
+            configSnapshot: buildConfigSnapshot(job.data.options ?? {}),
+            suiteConfigSnapshots,
           });
           console.log(`[TestRunner] Results saved: ${suiteRun.id}`);
         }
@@ -211,19 +241,7 @@ export class TestRunnerService extends EventEmitter {
    */
   async enqueueTest(
     scenarios: TestScenario[],
-    options?: {
-      verbose?: boolean;
-      systemPrompt?: SystemPromptConfig;
-      model?: 'haiku' | 'sonnet' | 'opus';
-      thinkingMode?: 'think' | 'hard' | 'harder' | 'ultrathink';
-      enabledTools?: string[];
-      disabledTools?: string[];
-      toolDescriptions?: Record<string, string>;
-      toolParameterDescriptions?: Record<string, Record<string, string>>;
-      transAgentPrompts?: Record<string, TransAgentPromptConfig>;
-      transAgentEnabledTools?: Record<string, string[]>;
-      subagentPrompts?: Record<string, SubagentPromptConfig>;
-    },
+    options?: TestRunOptions,
     suiteId?: string,
     existingJobId?: string
   ): Promise<string> {
@@ -247,6 +265,49 @@ export class TestRunnerService extends EventEmitter {
     return job.id!;
   }
 
+  /**
+   * Tworzy suite w bazie (status: running) ze snapshotem konfiguracji i dodaje go do kolejki
+   */
+  async startSuite(
+    scenarios: TestScenario[],
+    options: TestRunOptions,
+    meta: { tags?: string[]; label?: string; experimentId?: string; variantId?: string } = {}
+  ): Promise<{ jobId: string; suiteId: string }> {
+    // Generuj jobId przed utworzeniem suite
+    const jobId = `test-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+
+    const scenarioNames: Record<string, string> = {};
+    for (const s of scenarios) {
+      scenarioNames[s.id] = s.name;
+    }
+
+    // Pełny snapshot konfiguracji (prompt, narzędzia, subagenci) - brak snapshotu nie blokuje testów
+    let suiteConfigSnapshots: Record<string, SuiteConfigSnapshot> | undefined;
+    try {
+      suiteConfigSnapshots = await collectSuiteConfigSnapshots(scenarios.map((s) => s.agent), options);
+    } catch (err) {
+      console.error('[TestRunner] Failed to collect config snapshots:', err);
+    }
+
+    const suiteRun = getResultsStore().createSuiteRun({
+      jobId,
+      scenarioIds: scenarios.map((s) => s.id),
+      scenarioNames,
+      tags: meta.tags ?? ['api-triggered'],
+      label: meta.label ?? (scenarios.length === 1
+        ? `Single: ${scenarios[0].name}`
+        : `Suite: ${scenarios.length} scenarios`),
+      configSnapshot: buildConfigSnapshot(options),
+      suiteConfigSnapshots,
+      repetitions: options.repetitions,
+      experimentId: meta.experimentId,
+      variantId: meta.variantId,
+    });
+
+    await this.enqueueTest(scenarios, options, suiteRun.id, jobId);
+    return { jobId, suiteId: suiteRun.id };
+  }
+
   /**
    * Pobiera status joba
    */
@@ -262,7 +323,7 @@ export class TestRunnerService extends EventEmitter {
       status: state === 'active' ? 'running' : state === 'completed' ? 'completed' : state === 'failed' ? 'failed' : 'waiting',
       currentScenario: progress.currentScenario,
       completedScenarios: progress.completedScenarios || 0,
-      totalScenarios: progress.totalScenarios || job.data.scenarios.length,
+      totalScenarios: progress.totalScenarios || job.data.scenarios.length * (job.data.options?.repetitions || 1),
       results: progress.results || [],
       toolCalls: progress.toolCalls || [],
     };
@@ -282,7 +343,7 @@ export class TestRunnerService extends EventEmitter {
   }
 
   /**
-   * Zatrzymuje suite - aktualny scenariusz się kończy, pozostałe są anulowane
+   * Zatrzymuje suite - trwające scenariusze się kończą, pozostałe są anulowane
    */
   async stopSuite(suiteId: string): Promise<{
     success: boolean;
@@ -310,7 +371,9 @@ export class TestRunnerService extends EventEmitter {
 
     const progress = activeJob.progress as { completedScenarios?: number; currentScenario?: string };
     const completed = progress?.completedScenarios || 0;
-    const remaining = activeJob.data.scenarios.length - completed - 1;
+    const totalTrials = activeJob.data.scenarios.length * (activeJob.data.options?.repetitions || 1);
+    const inFlight = Math.min(activeJob.data.options?.concurrency || 1, totalTrials - completed);
+    const remaining = totalTrials - completed - inFlight;
 
     return {
       success: true,
@@ -319,6 +382,32 @@ export class TestRunnerService extends EventEmitter {
     };
   }
 
+  /**
+   * Ponownie ocenia zapisany wynik scenariusza - odtwarza nagrany przebieg
+   * (bez wywoływania modelu) i liczy DataDiff oraz asercje od nowa.
+   *
+   * Przydatne po zmianie oczekiwań scenariusza. Nie przechodzi przez kolejkę -
+   * replay jest szybki i nie zużywa tokenów.
+   */
+  async reevaluateResult(
+    scenario: TestScenario,
+    storedResult: TestResult,
+    suiteId: string
+  ): Promise<TestResult> {
+    const projectRoot = path.resolve(__dirname, '../../../');
+    initializeElectronEnvWithPath(projectRoot);
+
+    const cassette = cassetteFromTestResult(storedResult, suiteId);
+    const harness = new AgentTestHarness({
+      verbose: false,
+      fixturesPath: path.join(__dirname, '../../agent-evals/fixtures'),
+      replayCassettes: new Map([[scenario.id, cassette]]),
+      renderChecker: renderCheckService,
+    });
+
+    return harness.runScenario(scenario, storedResult.trial);
+  }
+
   /**
    * Przetwarza job
    */
@@ -329,14 +418,23 @@ export class TestRunnerService extends EventEmitter {
     initializeElectronEnvWithPath(projectRoot);
 
     const { scenarios, options, suiteId } = job.data;
+    const repetitions = Math.max(1, options?.repetitions || 1);
+    const concurrency = Math.max(1, options?.concurrency || 1);
+    const totalTrials = scenarios.length * repetitions;
     const results: TestResult[] = [];
     const allToolCalls: ToolCall[] = [];
 
+    // Próby w trakcie (klucz = scenarioId#trial) - przy równoległym przebiegu może być kilka
+    const runningTrials = new Map<string, string>();
+    const trialKey = (scenarioId: string, trial?: number) => `${scenarioId}#${trial ?? 1}`;
+    const currentScenarioLabel = () =>
+      runningTrials.size > 0 ? [...runningTrials.values()].join(', ') : undefined;
+
     this.emit('event', {
       type: 'job:start',
       jobId: job.id!,
       suiteId,
-      totalScenarios: scenarios.length,
+      totalScenarios: totalTrials,
     } as TestEvent);
 
     // Konfiguruj harness z callbackami
@@ -355,27 +453,32 @@ export class TestRunnerService extends EventEmitter {
       transAgentPrompts: options?.transAgentPrompts,
       transAgentEnabledTools: options?.transAgentEnabledTools,
       subagentPrompts: options?.subagentPrompts,
-      onToolCall: (toolCall) => {
+      rubricJudge: createRubricJudge(options?.judge, { model: options?.model }),
+      renderChecker: renderCheckService,
+      onToolCall: (toolCall, scenarioId, trial) => {
         allToolCalls.push(toolCall);
         this.emit('event', {
           type: 'tool:call',
           jobId: job.id!,
           suiteId,
-          scenarioId: job.data.scenarios[results.length]?.id || 'unknown',
+          scenarioId,
+          trial,
           toolCall,
         } as TestEvent);
       },
-      onMessage: (message, scenarioId) => {
+      onMessage: (message, scenarioId, trial) => {
         this.emit('event', {
           type: 'message:received',
           jobId: job.id!,
           suiteId,
           scenarioId,
+          trial,
           message,
         } as TestEvent);
       },
       onTestComplete: (result) => {
         results.push(result);
+        runningTrials.delete(trialKey(result.scenarioId, result.trial));
 
         if (suiteId) {
           // Zapisz pełne wyniki scenariusza do bazy (real-time persistence)
@@ -383,7 +486,11 @@ export class TestRunnerService extends EventEmitter {
 
           // Aktualizuj live status (in-memory + status w bazie)
           getResultsStore().updateLiveStatus(suiteId, {
-            scenarioStatus: { scenarioId: result.scenarioId, status: result.passed ? 'completed' : 'failed' },
+            scenarioStatus: {
+              scenarioId: result.scenarioId,
+              status: result.passed ? 'completed' : 'failed',
+              trial: result.trial,
+            },
           });
         }
 
@@ -397,44 +504,43 @@ export class TestRunnerService extends EventEmitter {
 
         // Update progress
         job.updateProgress({
-          currentScenario: undefined,
+          currentScenario: currentScenarioLabel(),
           completedScenarios: results.length,
-          totalScenarios: scenarios.length,
+          totalScenarios: totalTrials,
           results,
           toolCalls: allToolCalls,
         });
       },
     });
 
-    for (const scenario of scenarios) {
-      // Sprawdź czy suite został zatrzymany
-      if (suiteId && this.stoppedSuites.has(suiteId)) {
-        console.log(`[TestRunner] Suite ${suiteId} stopped - skipping remaining scenarios`);
-
-        // Oznacz pozostałe scenariusze jako cancelled
-        const currentIndex = scenarios.indexOf(scenario);
-        for (let i = currentIndex; i < scenarios.length; i++) {
-          getResultsStore().updateLiveStatus(suiteId, {
-            scenarioStatus: { scenarioId: scenarios[i].id, status: 'cancelled' },
-          });
-        }
-
-        this.emit('event', {
-          type: 'suite:stopped',
-          jobId: job.id!,
-          suiteId,
-          completedScenarios: results.length,
-          totalScenarios: scenarios.length,
-        } as TestEvent);
+    // Plan prób w kolejności scenariuszy - startowane po `concurrency` naraz
+    const plan = scenarios.flatMap((scenario) =>
+      Array.from({ length: repetitions }, (_, i) => ({
+        scenario,
+        trial: repetitions > 1 ? i + 1 : undefined,
+      }))
+    );
 
-        break;
+    // Globalny limit jest zajmowany przed startem próby - status 'running' tylko gdy faktycznie działa
+    const orderedResults = await mapWithConcurrency(plan, concurrency, ({ scenario, trial }) => this.scenarioLimiter.run(async () => {
+      // Zatrzymany suite - niewystartowane próby są anulowane, trwające kończą się normalnie
+      if (suiteId && this.stoppedSuites.has(suiteId)) {
+        getResultsStore().updateLiveStatus(suiteId, {
+          scenarioStatus: { scenarioId: scenario.id, status: 'cancelled', trial },
+        });
+        return null;
       }
 
+      runningTrials.set(
+        trialKey(scenario.id, trial),
+        trial ? `${scenario.name} (${trial}/${repetitions})` : scenario.name
+      );
+
       // Aktualizuj live status - scenariusz w trakcie
       if (suiteId) {
         getResultsStore().updateLiveStatus(suiteId, {
           currentScenario: scenario.id,
-          scenarioStatus: { scenarioId: scenario.id, status: 'running' },
+          scenarioStatus: { scenarioId: scenario.id, status: 'running', trial },
         });
       }
 
@@ -444,20 +550,33 @@ export class TestRunnerService extends EventEmitter {
         suiteId,
         scenarioId: scenario.id,
         scenarioName: scenario.name,
+        trial,
       } as TestEvent);
 
       job.updateProgress({
-        currentScenario: scenario.name,
+        currentScenario: currentScenarioLabel(),
         completedScenarios: results.length,
-        totalScenarios: scenarios.length,
+        totalScenarios: totalTrials,
         results,
         toolCalls: allToolCalls,
       });
 
-      await harness.runScenario(scenario);
+      return harness.runScenario(scenario, trial);
+    }));
+
+    if (suiteId && this.stoppedSuites.has(suiteId) && results.length < totalTrials) {
+      console.log(`[TestRunner] Suite ${suiteId} stopped - remaining scenarios cancelled`);
+
+      this.emit('event', {
+        type: 'suite:stopped',
+        jobId: job.id!,
+        suiteId,
+        completedScenarios: results.length,
+        totalScenarios: totalTrials,
+      } as TestEvent);
     }
 
-    return results;
+    return orderedResults.filter((result): result is TestResult => result !== null);
   }
 
   /**
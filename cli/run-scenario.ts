@@ -6,23 +6,143 @@
  *   npx ts-node testing/cli/run-scenario.ts montage/move-block-later
  *   npx ts-node testing/cli/run-scenario.ts --agent montage
  *   npx ts-node testing/cli/run-scenario.ts --all
+ *   npx ts-node testing/cli/run-scenario.ts --all --record
+ *   npx ts-node testing/cli/run-scenario.ts --replay <suiteId|plik|katalog>
+ *   npx ts-node testing/cli/run-scenario.ts --agent montage --repetitions 5
+ *   npx ts-node testing/cli/run-scenario.ts --all --concurrency 4
+ *   npx ts-node testing/cli/run-scenario.ts validate [--agent montage] [scenariusz]
+ *   npx ts-node testing/cli/run-scenario.ts experiment <definicja.json> [--repetitions 3]
+ *   npx ts-node testing/cli/run-scenario.ts --all --reporter junit --output results.xml
+ *   npx ts-node testing/cli/run-scenario.ts --ci --agent montage --tag smoke --baseline main --repeat 3
+ *   npx ts-node testing/cli/run-scenario.ts expectations <suiteId> <scenarioId> --tolerance 5f --patch
  */
 
 import path from 'path';
 import fs from 'fs';
 import { AgentTestHarness, summarizeResults, formatSummary } from '../agent-evals/harness/test-harness';
-import type { TestScenario, TestResult } from '../agent-evals/types/scenario';
+import { loadCassettes, cassetteFromTestResult, type Cassette } from '../agent-evals/harness/cassette';
+import { getResultsStore, buildConfigSnapshot, type SuiteRun } from '../api/services/results-store';
+import { getScenarioValidator, type ScenarioValidationReport } from '../api/services/scenario-validator';
+import { getScenarioStore, mergeStoredScenarios } from '../api/services/scenario-store';
+import { generateExpectationsForResult } from '../api/services/expectation-service';
+import { parseFrameTolerance, type FrameTolerance } from '../agent-evals/harness/expectation-generator';
+import { collectSuiteConfigSnapshots } from '../agent-evals/harness/suite-config-snapshot';
+import { createRubricJudge, isRubricJudgeType, RUBRIC_JUDGE_TYPES, type RubricJudgeType } from '../api/services/rubric-judge-service';
+import { renderCheckService } from '../api/services/render-check-service';
+import {
+  resolveExperimentVariants,
+  buildExperimentLeaderboard,
+  type ExperimentDefinition,
+  type VariantLeaderboardEntry,
+} from '../agent-evals/harness/experiment';
+import { getReportFormatter, defaultDashboardUrl, type ReportFormatter, type ReportInput } from '../agent-evals/harness/reporters';
+import { compareSuiteResults, evaluateGate, type GatePolicy, type GateResult } from '../agent-evals/harness/suite-comparison';
+import type { TestScenario, TestResult, SystemPromptConfig, ScenarioExpectations } from '../agent-evals/types/scenario';
+import type { SuiteConfigSnapshot } from '../agent-evals/types/config-snapshot';
 
 // ============================================================================
 // CLI ARGUMENTS
 // ============================================================================
 
 interface CliArgs {
+  /**
+   * Komenda: 'validate' - tylko walidacja plików scenariuszy, bez uruchamiania;
+   * 'experiment' - eksperyment A/B z pliku definicji (warianty / macierz);
+   * 'expectations' - oczekiwania wygenerowane z zapisanego wyniku
+   */
+  command?: 'validate' | 'experiment' | 'expectations';
   scenarioPath?: string;
+  /** Plik JSON z ExperimentDefinition (dla komendy `experiment`) */
+  experimentFile?: string;
+
+  // === EXPECTATIONS ===
+
+  /** Suite i scenariusz wyniku uznanego za poprawny */
+  resultSuiteId?: string;
+  resultScenarioId?: string;
+  trial?: number;
+  /** Tolerancja pól klatkowych: exact, <N>f, <N>% */
+  tolerance?: string;
+  /** Bez listy forbidden (niewywołane narzędzia modyfikujące) */
+  noForbidden?: boolean;
+  /** Nowy plik scenariusza z wygenerowanymi oczekiwaniami */
+  writeFile?: string;
+  /** ID scenariusza zapisywanego przez --write (domyślnie: <id>-golden) */
+  newScenarioId?: string;
+  /** Podmień oczekiwania w pliku scenariusza (albo w ScenarioStore) */
+  patch?: boolean;
+  /** Zestaw oczekiwań (od 1) nadpisywany przez --patch / --write - bez niego dodawany jest nowy zestaw */
+  expectationSet?: number;
   agent?: string;
   all?: boolean;
   verbose?: boolean;
   help?: boolean;
+  /** Nagrywaj kasety z przebiegów */
+  record?: boolean;
+  /** Źródło kaset do odtworzenia: suiteId z bazy, plik lub katalog kaset */
+  replay?: string;
+  /** Katalog kaset (domyślnie: testing/agent-evals/cassettes) */
+  cassettesDir?: string;
+  /** Liczba powtórzeń każdego scenariusza */
+  repetitions?: number;
+  /** Maks. liczba prób uruchamianych równolegle */
+  concurrency?: number;
+  /** Format raportu: junit | tap | markdown | html */
+  reporter?: string;
+  /** Plik raportu (domyślnie: stdout) */
+  output?: string;
+  /** Suite bazowy z bazy wyników (ID lub etykieta) - porównanie, bramka regresji i delty w raporcie */
+  baseline?: string;
+
+  // === FILTROWANIE SCENARIUSZY ===
+
+  /** Tylko scenariusze z co najmniej jednym z tagów */
+  tags?: string[];
+  /** Wzorce glob na ID scenariusza (np. montage-*-gaps-*) */
+  filters?: string[];
+
+  // === KONFIGURACJA AGENTA ===
+
+  model?: 'haiku' | 'sonnet' | 'opus';
+  thinkingMode?: 'think' | 'hard' | 'harder' | 'ultrathink';
+  /** Plik z system promptem (zastępuje domyślny) */
+  promptFile?: string;
+  enabledTools?: string[];
+  disabledTools?: string[];
+  /** Judge oczekiwań rubric: keyword (lokalny, domyślny) albo llm */
+  judge?: RubricJudgeType;
+
+  // === CI ===
+
+  /** Tryb CI: zwięzłe logi, zapis do bazy wyników (tag 'ci') */
+  ci?: boolean;
+  /** Zapisz wyniki do bazy wyników */
+  save?: boolean;
+  /** Etykieta zapisanego suite'a (np. 'main' - nazwany baseline dla kolejnych przebiegów) */
+  label?: string;
+  /** Plik JSON z GatePolicy (domyślnie: DEFAULT_GATE_POLICY) */
+  policyFile?: string;
+  /** Liczba wcześniejszych suite'ów o tym samym config_hash dołączanych do puli baseline */
+  history?: number;
+  /** Werdykt 'warn' bramki też kończy się kodem 1 */
+  failOnWarn?: boolean;
+}
+
+const DEFAULT_CASSETTES_DIR = 'testing/agent-evals/cassettes';
+
+const MODELS = ['haiku', 'sonnet', 'opus'] as const;
+const THINKING_MODES = ['think', 'hard', 'harder', 'ultrathink'] as const;
+
+/**
+ * Kody wyjścia: 1 = nieudane scenariusze albo regresja wg bramki, 2 = błąd konfiguracji / uruchomienia
+ */
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+/** Lista rozdzielona przecinkami; flaga może wystąpić wielokrotnie */
+function appendList(list: string[] | undefined, value: string | undefined): string[] {
+  return [...(list ?? []), ...(value ?? '').split(',').map((v) => v.trim()).filter(Boolean)];
 }
 
 function parseArgs(args: string[]): CliArgs {
@@ -39,6 +159,75 @@ function parseArgs(args: string[]): CliArgs {
       result.all = true;
     } else if (arg === '--agent') {
       result.agent = args[++i];
+    } else if (arg === '--record') {
+      result.record = true;
+    } else if (arg === '--replay') {
+      result.replay = args[++i];
+    } else if (arg === '--cassettes-dir') {
+      result.cassettesDir = args[++i];
+    } else if (arg === '--repetitions' || arg === '--repeat' || arg === '-n') {
+      result.repetitions = parseInt(args[++i], 10);
+    } else if (arg === '--concurrency' || arg === '-j') {
+      result.concurrency = parseInt(args[++i], 10);
+    } else if (arg === '--reporter') {
+      result.reporter = args[++i];
+    } else if (arg === '--output' || arg === '-o') {
+      result.output = args[++i];
+    } else if (arg === '--baseline') {
+      result.baseline = args[++i];
+    } else if (arg === '--tag' || arg === '-t') {
+      result.tags = appendList(result.tags, args[++i]);
+    } else if (arg === '--filter' || arg === '-f') {
+      result.filters = appendList(result.filters, args[++i]);
+    } else if (arg === '--model') {
+      result.model = args[++i] as CliArgs['model'];
+    } else if (arg === '--thinking') {
+      result.thinkingMode = args[++i] as CliArgs['thinkingMode'];
+    } else if (arg === '--prompt-file') {
+      result.promptFile = args[++i];
+    } else if (arg === '--tools') {
+      result.enabledTools = appendList(result.enabledTools, args[++i]);
+    } else if (arg === '--disable-tools') {
+      result.disabledTools = appendList(result.disabledTools, args[++i]);
+    } else if (arg === '--judge') {
+      result.judge = args[++i] as CliArgs['judge'];
+    } else if (arg === '--ci') {
+      result.ci = true;
+    } else if (arg === '--save') {
+      result.save = true;
+    } else if (arg === '--label') {
+      result.label = args[++i];
+    } else if (arg === '--policy') {
+      result.policyFile = args[++i];
+    } else if (arg === '--history') {
+      result.history = parseInt(args[++i], 10);
+    } else if (arg === '--fail-on-warn') {
+      result.failOnWarn = true;
+    } else if (arg === '--trial') {
+      result.trial = parseInt(args[++i], 10);
+    } else if (arg === '--tolerance') {
+      result.tolerance = args[++i];
+    } else if (arg === '--no-forbidden') {
+      result.noForbidden = true;
+    } else if (arg === '--write') {
+      result.writeFile = args[++i];
+    } else if (arg === '--id') {
+      result.newScenarioId = args[++i];
+    } else if (arg === '--patch') {
+      result.patch = true;
+    } else if (arg === '--set') {
+      result.expectationSet = parseInt(args[++i], 10);
+    } else if (arg === 'validate' && i === 0) {
+      result.command = 'validate';
+    } else if (arg === 'experiment' && i === 0) {
+      result.command = 'experiment';
+    } else if (arg === 'expectations' && i === 0) {
+      result.command = 'expectations';
+    } else if (!arg.startsWith('-') && result.command === 'experiment') {
+      result.experimentFile = arg;
+    } else if (!arg.startsWith('-') && result.command === 'expectations') {
+      if (result.resultSuiteId === undefined) result.resultSuiteId = arg;
+      else result.resultScenarioId = arg;
     } else if (!arg.startsWith('-')) {
       result.scenarioPath = arg;
     }
@@ -53,6 +242,21 @@ Agent Evaluation CLI - Uruchamianie scenariuszy testowych
 
 Użycie:
   npx ts-node testing/cli/run-scenario.ts [opcje] [scenariusz]
+  npx ts-node testing/cli/run-scenario.ts validate [--agent <typ>] [scenariusz]
+  npx ts-node testing/cli/run-scenario.ts experiment <definicja.json> [opcje]
+  npx ts-node testing/cli/run-scenario.ts expectations <suiteId> <scenarioId> [opcje]
+
+Komendy:
+  validate            Sprawdź scenariusze bez uruchamiania: schemat, fixtures.db
+                      (projekt, chapter, ID bloków, pola match), dozwolone narzędzia,
+                      regexy i wyrażenia. Kod wyjścia 1 przy błędach.
+  experiment          Uruchom eksperyment A/B z pliku JSON (ExperimentDefinition):
+                      scenariusze (agent / scenarioIds / tags) × warianty (variants / matrix).
+                      Każdy wariant zapisywany jako suite w bazie wyników, na końcu leaderboard.
+                      --repetitions i --concurrency nadpisują wartości z definicji.
+  expectations        Wygeneruj oczekiwania z zapisanego wyniku uznanego za poprawny:
+                      finalState z DataDiff, unchanged z fixtures, required / optional /
+                      forbidden z wywołań narzędzi. Bez --write / --patch wypisuje JSON.
 
 Argumenty:
   scenariusz          Ścieżka do scenariusza (np. montage/move-block-later)
@@ -61,12 +265,80 @@ Opcje:
   --agent <typ>       Uruchom wszystkie scenariusze dla danego agenta
   --all, -a           Uruchom wszystkie scenariusze
   --verbose, -v       Szczegółowe logi
+  --record            Nagraj kasety z przebiegów (do --cassettes-dir)
+  --replay <źródło>   Odtwórz kasety zamiast wywoływać model (suiteId, plik lub katalog kaset)
+                      Bez wskazania scenariuszy odtwarzane są wszystkie nagrane scenariusze
+  --cassettes-dir <k> Katalog kaset (domyślnie: ${DEFAULT_CASSETTES_DIR})
+  --repetitions, --repeat, -n <N>
+                      Uruchom każdy scenariusz N razy (pass rate, pass@k, flakiness)
+  --concurrency, -j <N>
+                      Uruchamiaj do N prób równolegle (każda na własnych fixtures)
+  --reporter <format> Zapisz raport: junit, tap, markdown lub html
+  --output, -o <plik> Plik raportu (domyślnie: stdout po podsumowaniu)
   --help, -h          Pokaż pomoc
 
+Filtrowanie (bez scenariusza / --agent / --all filtruje wszystkie scenariusze):
+  --tag, -t <tagi>    Tylko scenariusze z jednym z tagów (lista po przecinku, flaga powtarzalna)
+  --filter, -f <glob> Tylko scenariusze o ID pasującym do wzorca (* i ?, flaga powtarzalna)
+
+Konfiguracja agenta:
+  --model <model>     haiku, sonnet lub opus
+  --thinking <tryb>   think, hard, harder lub ultrathink
+  --prompt-file <p>   Plik z system promptem (zastępuje domyślny)
+  --tools <lista>     Włączone narzędzia (po przecinku)
+  --disable-tools <lista>
+                      Wyłączone narzędzia (po przecinku)
+  --judge <judge>     Judge oczekiwań rubric: keyword (domyślnie, lokalny) lub llm
+                      (model przez Claude CLI, --model wybiera też model judge'a)
+
+Oczekiwania (komenda expectations):
+  --trial <N>         Próba wyniku (domyślnie pierwsza)
+  --tolerance <t>     Pola klatkowe: exact (domyślnie), <N>f (± N klatek), <N>% (± N%)
+  --no-forbidden      Bez listy forbidden
+  --patch             Dodaj wygenerowane toolCalls i finalState jako nowy alternatywny zestaw
+                      oczekiwań w pliku scenariusza (albo w ScenarioStore). Komentarze wewnątrz
+                      expectations nie są zachowywane.
+  --write <plik>      Zapisz nowy plik .scenario.ts (kopia scenariusza z nowymi oczekiwaniami)
+  --set <N>           Zamiast dodawać zestaw, podmień toolCalls i finalState zestawu N (od 1)
+  --id <id>           ID scenariusza dla --write (domyślnie: <id>-golden)
+
+CI:
+  --ci                Tryb CI: zwięzłe logi, zapis wyników do bazy (tag 'ci')
+  --save              Zapisz wyniki do bazy wyników (bez --ci)
+  --label <etykieta>  Etykieta zapisanego suite'a (implikuje --save)
+  --baseline <suite>  Suite bazowy (ID lub etykieta - najnowszy suite o tej etykiecie).
+                      Kod wyjścia wg bramki regresji zamiast surowego pass/fail
+  --policy <plik>     Polityka bramki regresji (JSON z GatePolicy)
+  --history <N>       Dołącz do baseline N wcześniejszych suite'ów o tym samym config_hash
+  --fail-on-warn      Werdykt 'warn' bramki kończy się kodem 1
+
+Kody wyjścia:
+  0                   Wszystkie scenariusze przeszły / bramka: pass (lub warn)
+  1                   Nieudane scenariusze / bramka: fail
+  2                   Błąd konfiguracji lub uruchomienia
+
 Przykłady:
   npx ts-node testing/cli/run-scenario.ts montage/move-block-later
   npx ts-node testing/cli/run-scenario.ts --agent montage
   npx ts-node testing/cli/run-scenario.ts --all --verbose
+  npx ts-node testing/cli/run-scenario.ts --agent montage --record
+  npx ts-node testing/cli/run-scenario.ts --replay testing/agent-evals/cassettes
+  npx ts-node testing/cli/run-scenario.ts --replay 3f2c1a7e-... montage/move-block-later
+  npx ts-node testing/cli/run-scenario.ts --agent montage --repetitions 5
+  npx ts-node testing/cli/run-scenario.ts --all --concurrency 4
+  npx ts-node testing/cli/run-scenario.ts --agent script --judge llm --model sonnet
+  npx ts-node testing/cli/run-scenario.ts validate
+  npx ts-node testing/cli/run-scenario.ts validate montage/remove-gaps/remove-all-gaps
+  npx ts-node testing/cli/run-scenario.ts experiment experiments/prompt-v2.json -n 3
+  npx ts-node testing/cli/run-scenario.ts --all --reporter junit --output eval-results.xml
+  npx ts-node testing/cli/run-scenario.ts --agent montage --reporter markdown --baseline 3f2c1a7e-...
+  npx ts-node testing/cli/run-scenario.ts --all --label main --repeat 3
+  npx ts-node testing/cli/run-scenario.ts --ci --tag smoke --baseline main --repeat 3 --reporter junit -o eval.xml
+  npx ts-node testing/cli/run-scenario.ts --ci -f 'montage-*' --model haiku --prompt-file prompts/montage-v2.md --baseline main
+  npx ts-node testing/cli/run-scenario.ts expectations 3f2c1a7e-... montage-remove-gaps-001 --tolerance 5f
+  npx ts-node testing/cli/run-scenario.ts expectations 3f2c1a7e-... montage-remove-gaps-001 --tolerance 10% --patch
+  npx ts-node testing/cli/run-scenario.ts expectations 3f2c1a7e-... montage-remove-gaps-001 --patch --set 1
+  npx ts-node testing/cli/run-scenario.ts expectations 3f2c1a7e-... montage-remove-gaps-001 --write testing/agent-evals/scenarios/montage/remove-gaps/golden.scenario.ts
 `);
 }
 
@@ -107,6 +379,9 @@ function findScenarioFilesRecursive(
   return results;
 }
 
+/**
+ * Scenariusz z pliku, a gdy pliku nie ma - ze ScenarioStore (scenariusze z dashboardu)
+ */
 async function loadScenario(scenarioPath: string): Promise<TestScenario> {
   const fullPath = path.join(
     process.cwd(),
@@ -114,6 +389,11 @@ async function loadScenario(scenarioPath: string): Promise<TestScenario> {
     `${scenarioPath}.scenario.ts`
   );
 
+  const stored = fs.existsSync(fullPath) ? null : getScenarioStore().getScenarioByPath(scenarioPath);
+  if (stored) {
+    return stored.scenario;
+  }
+
   try {
     const module = await import(fullPath);
     return module.scenario || module.default;
@@ -122,7 +402,21 @@ async function loadScenario(scenarioPath: string): Promise<TestScenario> {
   }
 }
 
+/**
+ * Scenariusze agenta z plików i ze ScenarioStore (przy tym samym ID wygrywa plik)
+ */
 async function loadScenariosForAgent(agentType: string): Promise<TestScenario[]> {
+  const stored = getScenarioStore().listScenarios({ agent: agentType });
+  let fileScenarios: TestScenario[] = [];
+  try {
+    fileScenarios = await loadFileScenariosForAgent(agentType);
+  } catch (error) {
+    if (stored.length === 0) throw error;
+  }
+  return mergeStoredScenarios(fileScenarios, stored);
+}
+
+async function loadFileScenariosForAgent(agentType: string): Promise<TestScenario[]> {
   const agentDir = path.join(
     process.cwd(),
     'testing/agent-evals/scenarios',
@@ -197,6 +491,55 @@ async function loadAllScenarios(): Promise<TestScenario[]> {
   return allScenarios;
 }
 
+/**
+ * Wzorzec glob na ID scenariusza: `*` - dowolny ciąg, `?` - jeden znak
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Filtr --tag (dowolny z tagów) i --filter (dowolny z wzorców)
+ */
+function filterScenarios(scenarios: TestScenario[], args: CliArgs): TestScenario[] {
+  const { tags, filters } = args;
+  const patterns = (filters ?? []).map(globToRegExp);
+
+  return scenarios.filter((scenario) =>
+    (!tags?.length || scenario.tags?.some((tag) => tags.includes(tag))) &&
+    (patterns.length === 0 || patterns.some((pattern) => pattern.test(scenario.id)))
+  );
+}
+
+// ============================================================================
+// CASSETTES
+// ============================================================================
+
+/**
+ * Ładuje kasety do odtworzenia - z pliku/katalogu lub z zapisanego suite run'a
+ */
+function loadReplayCassettes(source: string): Map<string, Cassette> {
+  const sourcePath = path.resolve(process.cwd(), source);
+  if (fs.existsSync(sourcePath)) {
+    return loadCassettes(sourcePath);
+  }
+
+  const suite = getResultsStore().getSuiteRun(source);
+  if (!suite) {
+    throw new Error(`Nie znaleziono kaset ani suite run'a: ${source}`);
+  }
+
+  const cassettes = new Map<string, Cassette>();
+  for (const result of suite.results) {
+    cassettes.set(result.scenarioId, cassetteFromTestResult(result, suite.id));
+  }
+  return cassettes;
+}
+
 // ============================================================================
 // RESULT FORMATTING
 // ============================================================================
@@ -204,7 +547,7 @@ async function loadAllScenarios(): Promise<TestScenario[]> {
 function formatResult(result: TestResult): string {
   const status = result.passed ? '✓ PASS' : '✗ FAIL';
   const lines = [
-    `\n${status}: ${result.scenarioName}`,
+    `\n${status}: ${result.scenarioName}${result.trial ? ` (trial ${result.trial})` : ''}`,
     `  ID: ${result.scenarioId}`,
     `  Tokens: ${result.metrics.totalTokens} (${result.metrics.inputTokens} in / ${result.metrics.outputTokens} out)`,
     `  Latency: ${(result.metrics.latencyMs / 1000).toFixed(2)}s`,
@@ -212,6 +555,27 @@ function formatResult(result: TestResult): string {
     `  Tool calls: ${result.toolCalls.map((c) => c.toolName).join(' → ') || 'none'}`,
   ];
 
+  if (result.turns && result.turns.length > 0) {
+    lines.push('  Conversation:');
+    for (const turn of result.turns) {
+      const turnStatus = turn.skipped ? '- SKIP' : turn.passed ? '✓' : '✗';
+      lines.push(`    ${turnStatus} Turn ${turn.turn}: ${turn.userMessage ?? '(no matching reply)'}`);
+    }
+  }
+
+  const rubricScores = result.assertions.filter((a) => a.score !== undefined);
+  if (rubricScores.length > 0) {
+    lines.push('  Rubric:');
+    for (const assertion of rubricScores) {
+      const mark = assertion.passed ? '✓' : assertion.softCheck ? '~' : '✗';
+      const label = assertion.criterionId
+        ? `${assertion.turn ? `[Turn ${assertion.turn}] ` : ''}${assertion.criterionId}`
+        : assertion.name;
+      const reasoning = assertion.reasoning ? ` - ${assertion.reasoning}` : '';
+      lines.push(`    ${mark} ${label}: ${assertion.score!.toFixed(2)} (>= ${assertion.threshold})${reasoning}`);
+    }
+  }
+
   if (!result.passed) {
     lines.push('  Failed assertions:');
     for (const assertion of result.assertions.filter((a) => !a.passed)) {
@@ -226,6 +590,511 @@ function formatResult(result: TestResult): string {
   return lines.join('\n');
 }
 
+/** Jedna linia na próbę - tryb CI */
+function formatResultLine(result: TestResult): string {
+  const status = result.passed ? '✓' : '✗';
+  const trial = result.trial ? ` #${result.trial}` : '';
+  const failed = result.assertions.filter((a) => !a.passed && !a.softCheck).map((a) => a.name);
+  const details = result.passed ? '' : ` - ${result.error ?? failed.join('; ')}`;
+  return `${status} ${result.scenarioId}${trial} (${result.metrics.totalTokens} tok, ${(result.metrics.latencyMs / 1000).toFixed(1)}s)${details}`;
+}
+
+function formatGateResult(gate: GateResult, baselineSuiteIds: string[]): string {
+  const lines = [
+    `\nBramka regresji vs ${baselineSuiteIds[0]}${baselineSuiteIds.length > 1 ? ` (+${baselineSuiteIds.length - 1} suite'ów z historii)` : ''}: ${gate.verdict.toUpperCase()}`,
+  ];
+  for (const violation of gate.violations) {
+    const scope = violation.scenarioId ? `${violation.scenarioId}: ` : '';
+    lines.push(`  ${violation.severity === 'fail' ? '✗' : '!'} [${violation.rule}] ${scope}${violation.message}`);
+  }
+  return lines.join('\n');
+}
+
+function formatValidationReport(report: ScenarioValidationReport): string {
+  const status = report.valid ? '✓' : '✗';
+  const lines = [`${status} ${report.file}${report.scenarioId ? ` (${report.scenarioId})` : ''}`];
+
+  for (const issue of report.issues) {
+    const severity = issue.severity === 'error' ? 'error  ' : 'warning';
+    lines.push(`    ${severity} ${issue.path || '(file)'}: ${issue.message}`);
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// VALIDATE
+// ============================================================================
+
+/**
+ * Komenda `validate` - waliduje pliki scenariuszy (wskazany, agenta lub wszystkie)
+ */
+async function runValidate(args: CliArgs): Promise<void> {
+  const scenariosDir = path.join(process.cwd(), 'testing/agent-evals/scenarios');
+  let files: { filePath: string; relativePath: string }[];
+
+  if (args.scenarioPath) {
+    files = [{
+      filePath: path.join(scenariosDir, `${args.scenarioPath}.scenario.ts`),
+      relativePath: args.scenarioPath,
+    }];
+  } else if (args.agent) {
+    files = findScenarioFilesRecursive(path.join(scenariosDir, args.agent), args.agent);
+  } else {
+    files = findScenarioFilesRecursive(scenariosDir);
+  }
+
+  if (files.length === 0) {
+    console.error('Nie znaleziono żadnych scenariuszy');
+    process.exit(1);
+  }
+
+  console.log(`Walidacja ${files.length} scenariuszy...\n`);
+  const summary = await getScenarioValidator().validateFiles(files);
+
+  for (const report of summary.reports) {
+    console.log(formatValidationReport(report));
+  }
+
+  console.log(`\n${summary.valid ? '✓' : '✗'} ${summary.reports.length} plików, ${summary.errorCount} błędów, ${summary.warningCount} ostrzeżeń`);
+  process.exit(summary.valid ? 0 : 1);
+}
+
+// ============================================================================
+// EXPERIMENT
+// ============================================================================
+
+function formatLeaderboard(leaderboard: VariantLeaderboardEntry[]): string {
+  const lines = ['\nLeaderboard:'];
+
+  for (const entry of leaderboard) {
+    const cost = entry.avgCostUsd !== undefined ? `$${entry.avgCostUsd.toFixed(4)}` : '-';
+    const vsBest = entry.vsBest
+      ? ` | vs #1: ${(entry.vsBest.diff * 100).toFixed(1)}pp (p=${entry.vsBest.pValue.toFixed(3)}${entry.vsBest.significant ? ', istotne' : ''})`
+      : '';
+    lines.push(
+      `  #${entry.rank} ${entry.label ?? entry.variantId}: ${(entry.passRate * 100).toFixed(1)}% (${entry.passedTrials}/${entry.trials})` +
+      ` | ${Math.round(entry.avgTokens)} tok | ${(entry.avgLatencyMs / 1000).toFixed(2)}s | ${cost}${vsBest}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Komenda `experiment` - uruchamia każdy wariant jako osobny suite i zapisuje wyniki
+ * powiązane z eksperymentem (widoczne w dashboardzie, tak jak eksperymenty z API)
+ */
+async function runExperiment(args: CliArgs): Promise<void> {
+  if (!args.experimentFile) {
+    console.error('Podaj plik definicji eksperymentu: experiment <definicja.json>');
+    process.exit(1);
+  }
+
+  const definition: ExperimentDefinition = JSON.parse(
+    fs.readFileSync(path.resolve(process.cwd(), args.experimentFile), 'utf-8')
+  );
+  if (!definition.name?.trim()) {
+    console.error('Definicja eksperymentu wymaga pola name');
+    process.exit(1);
+  }
+
+  const variants = resolveExperimentVariants(definition);
+  const repetitions = args.repetitions ?? definition.repetitions;
+  const concurrency = args.concurrency ?? definition.concurrency;
+
+  // Scenariusze - jak w run-suite: agent, wskazane ścieżki albo wszystkie
+  let scenarios: TestScenario[];
+  if (definition.agent) {
+    scenarios = await loadScenariosForAgent(definition.agent);
+  } else if (definition.scenarioIds && definition.scenarioIds.length > 0) {
+    scenarios = await Promise.all(definition.scenarioIds.map((id) => loadScenario(id)));
+  } else {
+    scenarios = await loadAllScenarios();
+  }
+  const { tags } = definition;
+  if (tags && tags.length > 0) {
+    scenarios = scenarios.filter((s) => s.tags?.some((t) => tags.includes(t)));
+  }
+
+  if (scenarios.length === 0) {
+    console.error('Nie znaleziono żadnych scenariuszy');
+    process.exit(1);
+  }
+
+  const store = getResultsStore();
+  const experiment = store.createExperiment({
+    name: definition.name.trim(),
+    description: definition.description,
+    definition: { ...definition, repetitions, concurrency },
+    variants,
+    scenarioIds: scenarios.map((s) => s.id),
+  });
+
+  console.log(`Eksperyment ${experiment.name} (${experiment.id}): ${variants.length} wariantów × ${scenarios.length} scenariuszy\n`);
+
+  const variantSuites: Array<{ variantId: string; label?: string; suiteId: string }> = [];
+  for (const variant of variants) {
+    const label = variant.label ?? variant.id;
+    console.log(`Wariant ${label}...`);
+
+    const runConfig = {
+      systemPrompt: variant.systemPrompt,
+      model: variant.model,
+      thinkingMode: variant.thinkingMode,
+      toolDescriptions: variant.toolDescriptions,
+      subagentPrompts: variant.subagentPrompts,
+      enabledTools: variant.enabledTools,
+    };
+
+    const harness = new AgentTestHarness({
+      verbose: args.verbose,
+      defaultSystemPrompt: variant.systemPrompt,
+      model: variant.model,
+      thinkingMode: variant.thinkingMode,
+      toolDescriptions: variant.toolDescriptions,
+      subagentPrompts: variant.subagentPrompts,
+      enabledTools: variant.enabledTools,
+      repetitions,
+      concurrency,
+      rubricJudge: createRubricJudge(args.judge, { model: variant.model }),
+      renderChecker: renderCheckService,
+    });
+    const { results } = await harness.runScenarios(scenarios);
+
+    // Pełny snapshot konfiguracji - brak snapshotu nie blokuje zapisu wyników
+    let suiteConfigSnapshots: Record<string, SuiteConfigSnapshot> | undefined;
+    try {
+      suiteConfigSnapshots = await collectSuiteConfigSnapshots(scenarios.map((s) => s.agent), runConfig);
+    } catch (error) {
+      console.warn(`  Nie udało się zebrać snapshotu konfiguracji: ${error}`);
+    }
+
+    const suite = store.saveSuiteRun(results, {
+      tags: ['cli', 'experiment'],
+      label: `${experiment.name}: ${label}`,
+      configSnapshot: buildConfigSnapshot({ ...runConfig, repetitions, concurrency }),
+      suiteConfigSnapshots,
+      experimentId: experiment.id,
+      variantId: variant.id,
+    });
+    variantSuites.push({ variantId: variant.id, label: variant.label, suiteId: suite.id });
+
+    const summary = summarizeResults(results);
+    console.log(`  ${summary.passed}/${summary.total} passed → suite ${suite.id}\n`);
+  }
+
+  const leaderboard = buildExperimentLeaderboard(
+    variantSuites.map((v) => ({
+      variantId: v.variantId,
+      label: v.label,
+      results: store.getComparableResults([v.suiteId]),
+    }))
+  );
+  console.log(formatLeaderboard(leaderboard));
+
+  process.exit(0);
+}
+
+// ============================================================================
+// EXPECTATIONS
+// ============================================================================
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Maks. długość literału w jednej linii */
+const INLINE_LITERAL_WIDTH = 80;
+
+/**
+ * Wartość jako literał TS w stylu plików scenariuszy: klucze bez cudzysłowów,
+ * stringi w apostrofach, regexy jako literały /.../, krótkie tablice i obiekty w jednej linii
+ */
+function toTsLiteral(value: unknown, indent = ''): string {
+  const inner = `${indent}  `;
+
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (value instanceof RegExp) {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+    throw new Error(`Nie można zapisać wartości typu ${typeof value} jako literału scenariusza`);
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.map((item) => toTsLiteral(item, inner));
+    const oneLine = `[${items.join(', ')}]`;
+    if (!oneLine.includes('\n') && indent.length + oneLine.length <= INLINE_LITERAL_WIDTH) {
+      return oneLine;
+    }
+    return `[\n${items.map((item) => `${inner}${item},`).join('\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return '{}';
+    const fields = entries.map(([key, v]) => `${IDENTIFIER.test(key) ? key : toTsLiteral(key)}: ${toTsLiteral(v, inner)}`);
+    const oneLine = `{ ${fields.join(', ')} }`;
+    if (!oneLine.includes('\n') && indent.length + oneLine.length <= INLINE_LITERAL_WIDTH) {
+      return oneLine;
+    }
+    return `{\n${fields.map((field) => `${inner}${field},`).join('\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Podmienia tablicę `expectations` scenariusza (najpłycej wcięte wystąpienie - nie te z `turns`)
+ */
+function replaceExpectationsLiteral(source: string, expectations: ScenarioExpectations[]): string {
+  const matches = [...source.matchAll(/^([ \t]*)expectations:\s*\[/gm)];
+  if (matches.length === 0) {
+    throw new Error('Nie znaleziono tablicy expectations w pliku scenariusza');
+  }
+  const match = matches.reduce((best, m) => (m[1].length < best[1].length ? m : best));
+
+  const start = match.index! + match[0].length - 1;
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i) - 1;
+      if (i < 0) break;
+    } else if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i) + 1;
+      if (i <= 0) break;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return source.slice(0, start) + toTsLiteral(expectations, match[1]) + source.slice(i + 1);
+    }
+  }
+
+  throw new Error('Niedomknięta tablica expectations w pliku scenariusza');
+}
+
+/**
+ * Wygenerowane toolCalls i finalState jako nowy alternatywny zestaw (pozostałe pola z pierwszego
+ * zestawu) albo podmienione w zestawie `setIndex` - ręcznie pisane zestawy nie są nadpisywane
+ */
+function mergeGeneratedExpectations(
+  current: ScenarioExpectations[],
+  generated: ScenarioExpectations,
+  setIndex?: number
+): ScenarioExpectations[] {
+  const generatedFields = { toolCalls: generated.toolCalls, finalState: generated.finalState };
+  if (setIndex === undefined) {
+    return [...current, { ...current[0], ...generatedFields }];
+  }
+  return current.map((set, i) => (i === setIndex ? { ...set, ...generatedFields } : set));
+}
+
+async function findScenarioFileById(scenarioId: string): Promise<string | null> {
+  const scenariosDir = path.join(process.cwd(), 'testing/agent-evals/scenarios');
+  for (const file of findScenarioFilesRecursive(scenariosDir)) {
+    try {
+      const module = await import(file.filePath);
+      if ((module.scenario || module.default)?.id === scenarioId) return file.filePath;
+    } catch {
+      // Plik z błędem - pomijany, jak w loaderze API
+    }
+  }
+  return null;
+}
+
+function scenarioFileContent(scenario: TestScenario, filePath: string, source: string): string {
+  const typesPath = path.relative(path.dirname(filePath), path.join(process.cwd(), 'testing/agent-evals/types/scenario'));
+  const importPath = typesPath.startsWith('.') ? typesPath : `./${typesPath}`;
+
+  return `/**
+ * Scenariusz: ${scenario.name}
+ *
+ * Oczekiwania wygenerowane z wyniku ${source} - do przejrzenia i poluzowania.
+ */
+
+import type { TestScenario } from '${importPath.split(path.sep).join('/')}';
+
+export const scenario: TestScenario = ${toTsLiteral(scenario)};
+
+export default scenario;
+`;
+}
+
+async function runExpectations(args: CliArgs): Promise<void> {
+  if (!args.resultSuiteId || !args.resultScenarioId) {
+    console.error('Podaj wynik: expectations <suiteId> <scenarioId>');
+    process.exit(EXIT_ERROR);
+  }
+  if (args.trial !== undefined && (!Number.isInteger(args.trial) || args.trial < 1)) {
+    console.error('--trial wymaga dodatniej liczby całkowitej');
+    process.exit(EXIT_ERROR);
+  }
+  if (args.expectationSet !== undefined && (!Number.isInteger(args.expectationSet) || args.expectationSet < 1)) {
+    console.error('--set wymaga dodatniej liczby całkowitej');
+    process.exit(EXIT_ERROR);
+  }
+
+  let tolerance: FrameTolerance;
+  try {
+    tolerance = parseFrameTolerance(args.tolerance ?? 'exact');
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(EXIT_ERROR);
+  }
+
+  const result = getResultsStore().getScenarioResult(args.resultSuiteId, args.resultScenarioId, args.trial);
+  if (!result) {
+    console.error(`Nie znaleziono wyniku: ${args.resultSuiteId} / ${args.resultScenarioId}`);
+    process.exit(EXIT_ERROR);
+  }
+  if (!result.dataDiff) {
+    console.error('Wynik nie ma DataDiff - nie można wygenerować finalState');
+    process.exit(EXIT_ERROR);
+  }
+
+  const generated = await generateExpectationsForResult(result, { tolerance, forbidUnused: !args.noForbidden });
+  generated.warnings.forEach((warning) => console.error(`⚠ ${warning}`));
+  const source = `${args.resultSuiteId} (${result.scenarioId}, próba ${result.trial ?? 1})`;
+
+  if (!args.patch && !args.writeFile) {
+    console.log(JSON.stringify(generated.expectations, null, 2));
+    return;
+  }
+
+  const scenario = generated.scenario;
+  if (!scenario) {
+    console.error(`Nie znaleziono scenariusza ${result.scenarioId} - użyj wydruku JSON`);
+    process.exit(EXIT_ERROR);
+  }
+  const setIndex = args.expectationSet !== undefined ? args.expectationSet - 1 : undefined;
+  if (setIndex !== undefined && setIndex >= scenario.expectations.length) {
+    console.error(`--set: scenariusz ma ${scenario.expectations.length} zestaw(ów) oczekiwań`);
+    process.exit(EXIT_ERROR);
+  }
+
+  if (args.writeFile) {
+    const filePath = path.resolve(process.cwd(), args.writeFile);
+    if (fs.existsSync(filePath)) {
+      console.error(`Plik już istnieje: ${filePath} (użyj --patch)`);
+      process.exit(EXIT_ERROR);
+    }
+
+    const written: TestScenario = {
+      ...scenario,
+      id: args.newScenarioId ?? `${scenario.id}-golden`,
+      expectations: mergeGeneratedExpectations(scenario.expectations, generated.expectations, setIndex),
+    };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, scenarioFileContent(written, filePath, source));
+    console.log(`✓ Zapisano scenariusz ${written.id}: ${filePath}`);
+    return;
+  }
+
+  const expectations = mergeGeneratedExpectations(scenario.expectations, generated.expectations, setIndex);
+  const filePath = await findScenarioFileById(scenario.id);
+  if (filePath) {
+    fs.writeFileSync(filePath, replaceExpectationsLiteral(fs.readFileSync(filePath, 'utf-8'), expectations));
+    console.log(`✓ Zaktualizowano oczekiwania: ${filePath}`);
+    return;
+  }
+
+  const updated = getScenarioStore().updateScenario(scenario.id, { ...scenario, expectations });
+  if (!updated) {
+    console.error(`Scenariusz ${scenario.id} nie ma pliku ani wpisu w ScenarioStore`);
+    process.exit(EXIT_ERROR);
+  }
+  console.log(`✓ Zaktualizowano oczekiwania w ScenarioStore: ${updated.path}`);
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+/**
+ * Zapisuje raport przebiegu do pliku (--output) lub na stdout
+ *
+ * Linki do dashboardu tylko dla przebiegu zapisanego w bazie wyników.
+ */
+function writeReport(
+  reporter: ReportFormatter,
+  results: TestResult[],
+  args: CliArgs,
+  context: { savedSuite?: SuiteRun; baselineSuiteId?: string }
+): void {
+  const startedAt = results.reduce(
+    (earliest, r) => (r.startedAt < earliest ? r.startedAt : earliest),
+    results[0]?.startedAt ?? new Date().toISOString()
+  );
+
+  const input: ReportInput = {
+    suite: context.savedSuite
+      ? { id: context.savedSuite.id, createdAt: context.savedSuite.createdAt, label: context.savedSuite.label, tags: context.savedSuite.tags }
+      : { id: `cli-${Date.parse(startedAt)}`, createdAt: startedAt, label: 'CLI run', tags: ['cli'] },
+    results,
+    baseline: context.baselineSuiteId
+      ? { suiteId: context.baselineSuiteId, results: getResultsStore().getComparableResults([context.baselineSuiteId]) }
+      : undefined,
+    dashboardUrl: context.savedSuite ? defaultDashboardUrl() : undefined,
+  };
+  const report = reporter.format(input);
+
+  if (args.output) {
+    const outputPath = path.resolve(process.cwd(), args.output);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, report);
+    console.log(`Raport ${reporter.name}: ${outputPath}`);
+  } else {
+    console.log(report);
+  }
+}
+
+// ============================================================================
+// BASELINE
+// ============================================================================
+
+/**
+ * Suite bazowy po ID albo etykiecie (najnowszy zakończony suite o tej etykiecie)
+ */
+function resolveBaselineSuiteId(reference: string): string | null {
+  const store = getResultsStore();
+  return store.getSuiteRun(reference) ? reference : store.findLatestSuiteIdByLabel(reference);
+}
+
+/**
+ * Porównuje wyniki przebiegu z pulą baseline i ocenia bramkę regresji
+ *
+ * Pula baseline = suite bazowy + do `history` wcześniejszych suite'ów o tym samym config_hash.
+ */
+function compareWithBaseline(
+  results: TestResult[],
+  baselineSuiteId: string,
+  options: { policy?: GatePolicy; history?: number }
+): { baselineSuiteIds: string[]; gate: GateResult } {
+  const store = getResultsStore();
+  const baseline = store.getSuiteRun(baselineSuiteId)!;
+
+  const baselineSuiteIds = [
+    baselineSuiteId,
+    ...(baseline.configHash && options.history
+      ? store.findSuiteIdsByConfigHash(baseline.configHash, {
+          before: baseline.createdAt,
+          limit: options.history,
+        })
+      : []),
+  ];
+
+  const comparison = compareSuiteResults(store.getComparableResults(baselineSuiteIds), results);
+  return { baselineSuiteIds, gate: evaluateGate(comparison, options.policy) };
+}
+
 // ============================================================================
 // MAIN
 // ============================================================================
@@ -235,14 +1104,120 @@ async function main(): Promise<void> {
 
   if (args.help) {
     printHelp();
-    process.exit(0);
+    process.exit(EXIT_OK);
+  }
+
+  if (args.command === 'validate') {
+    await runValidate(args);
+    return;
+  }
+
+  if (args.command === 'expectations') {
+    await runExpectations(args);
+    return;
+  }
+
+  if (args.repetitions !== undefined && (!Number.isInteger(args.repetitions) || args.repetitions < 1)) {
+    console.error('--repetitions wymaga dodatniej liczby całkowitej');
+    process.exit(EXIT_ERROR);
+  }
+
+  if (args.concurrency !== undefined && (!Number.isInteger(args.concurrency) || args.concurrency < 1)) {
+    console.error('--concurrency wymaga dodatniej liczby całkowitej');
+    process.exit(EXIT_ERROR);
+  }
+
+  if (args.judge && !isRubricJudgeType(args.judge)) {
+    console.error(`--judge: ${RUBRIC_JUDGE_TYPES.join(', ')}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  if (args.command === 'experiment') {
+    await runExperiment(args);
+    return;
+  }
+
+  if (args.model && !(MODELS as readonly string[]).includes(args.model)) {
+    console.error(`--model: ${MODELS.join(', ')}`);
+    process.exit(EXIT_ERROR);
+  }
+  if (args.thinkingMode && !(THINKING_MODES as readonly string[]).includes(args.thinkingMode)) {
+    console.error(`--thinking: ${THINKING_MODES.join(', ')}`);
+    process.exit(EXIT_ERROR);
+  }
+  if (args.history !== undefined && (!Number.isInteger(args.history) || args.history < 0)) {
+    console.error('--history wymaga nieujemnej liczby całkowitej');
+    process.exit(EXIT_ERROR);
+  }
+
+  let reporter: ReportFormatter | undefined;
+  if (args.reporter) {
+    try {
+      reporter = getReportFormatter(args.reporter);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(EXIT_ERROR);
+    }
+  } else if (args.output) {
+    console.error('--output wymaga --reporter');
+    process.exit(EXIT_ERROR);
+  }
+
+  let baselineSuiteId: string | undefined;
+  if (args.baseline) {
+    baselineSuiteId = resolveBaselineSuiteId(args.baseline) ?? undefined;
+    if (!baselineSuiteId) {
+      console.error(`Nie znaleziono suite'a bazowego (ID ani etykieta): ${args.baseline}`);
+      process.exit(EXIT_ERROR);
+    }
+  }
+
+  let policy: GatePolicy | undefined;
+  let systemPrompt: SystemPromptConfig | undefined;
+  try {
+    policy = args.policyFile
+      ? JSON.parse(fs.readFileSync(path.resolve(process.cwd(), args.policyFile), 'utf-8'))
+      : undefined;
+    // Treść promptu zamiast ścieżki - trafia do snapshotu konfiguracji i hasha suite'a
+    systemPrompt = args.promptFile
+      ? { raw: fs.readFileSync(path.resolve(process.cwd(), args.promptFile), 'utf-8') }
+      : undefined;
+  } catch (error) {
+    console.error(`Nie można wczytać pliku: ${error instanceof Error ? error.message : error}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  const replayCassettes = args.replay ? loadReplayCassettes(args.replay) : undefined;
+  if (replayCassettes) {
+    console.log(`Tryb replay: ${replayCassettes.size} kaset z ${args.replay}`);
   }
 
+  const runConfig = {
+    systemPrompt,
+    model: args.model,
+    thinkingMode: args.thinkingMode,
+    enabledTools: args.enabledTools,
+    disabledTools: args.disabledTools,
+  };
+
   const harness = new AgentTestHarness({
     verbose: args.verbose,
-    onToolCall: (call) => {
+    recordCassettesDir: args.record
+      ? path.resolve(process.cwd(), args.cassettesDir || DEFAULT_CASSETTES_DIR)
+      : undefined,
+    replayCassettes,
+    defaultSystemPrompt: systemPrompt,
+    model: args.model,
+    thinkingMode: args.thinkingMode,
+    enabledTools: args.enabledTools,
+    disabledTools: args.disabledTools,
+    repetitions: args.repetitions,
+    concurrency: args.concurrency,
+    rubricJudge: createRubricJudge(args.judge, { model: args.model }),
+    renderChecker: renderCheckService,
+    onToolCall: (call, scenarioId) => {
       if (args.verbose) {
-        console.log(`  [Tool] ${call.toolName} (${call.durationMs}ms)`);
+        console.log(`  [Tool] ${call.toolName} (${call.durationMs}ms)${args.concurrency && args.concurrency > 1 ? ` [${scenarioId}]` : ''}`);
       }
     },
   });
@@ -260,43 +1235,64 @@ async function main(): Promise<void> {
     console.log(`Ładowanie scenariusza: ${args.scenarioPath}`);
     const scenario = await loadScenario(args.scenarioPath);
     scenarios = [scenario];
+  } else if (replayCassettes) {
+    // Replay bez wskazania scenariuszy - wszystkie nagrane scenariusze
+    console.log('Ładowanie nagranych scenariuszy...');
+    scenarios = (await loadAllScenarios()).filter((s) => replayCassettes.has(s.id));
+  } else if (args.tags?.length || args.filters?.length) {
+    console.log('Ładowanie wszystkich scenariuszy (z filtrem)...');
+    scenarios = await loadAllScenarios();
   } else {
     printHelp();
-    process.exit(1);
+    process.exit(EXIT_ERROR);
   }
 
+  scenarios = filterScenarios(scenarios, args);
+
   if (scenarios.length === 0) {
     console.error('Nie znaleziono żadnych scenariuszy');
-    process.exit(1);
+    process.exit(EXIT_ERROR);
   }
 
   console.log(`\nUruchamianie ${scenarios.length} scenariuszy...\n`);
 
   // Uruchom scenariusze
   const results: TestResult[] = [];
+  const printResult = (result: TestResult) => console.log(args.ci ? formatResultLine(result) : formatResult(result));
 
-  for (const scenario of scenarios) {
-    console.log(`Running: ${scenario.name}...`);
-
-    try {
-      const result = await harness.runScenario(scenario);
+  if (args.concurrency && args.concurrency > 1) {
+    // Równolegle - wyniki wypisywane po zakończeniu wszystkich prób (w kolejności scenariuszy)
+    console.log(`Równolegle: do ${args.concurrency} prób naraz\n`);
+    const { results: parallelResults } = await harness.runScenarios(scenarios);
+    for (const result of parallelResults) {
       results.push(result);
-      console.log(formatResult(result));
-    } catch (error) {
-      console.error(`  ERROR: ${error}`);
-      results.push({
-        id: 'error',
-        scenarioId: scenario.id,
-        scenarioName: scenario.name,
-        passed: false,
-        toolCalls: [],
-        dataDiff: { blocks: { added: [], modified: [], deleted: [] }, timelines: { added: [], modified: [], deleted: [] }, mediaAssets: { added: [], modified: [], deleted: [] } },
-        assertions: [{ name: 'Execution', passed: false, message: String(error) }],
-        metrics: { inputTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, turnCount: 0 },
-        error: String(error),
-        startedAt: new Date().toISOString(),
-        completedAt: new Date().toISOString(),
-      });
+      printResult(result);
+    }
+  } else {
+    for (const scenario of scenarios) {
+      if (!args.ci) console.log(`Running: ${scenario.name}...`);
+
+      try {
+        for (const result of await harness.runScenarioTrials(scenario)) {
+          results.push(result);
+          printResult(result);
+        }
+      } catch (error) {
+        console.error(`  ERROR: ${error}`);
+        results.push({
+          id: 'error',
+          scenarioId: scenario.id,
+          scenarioName: scenario.name,
+          passed: false,
+          toolCalls: [],
+          dataDiff: { blocks: { added: [], modified: [], deleted: [] }, timelines: { added: [], modified: [], deleted: [] }, mediaAssets: { added: [], modified: [], deleted: [] } },
+          assertions: [{ name: 'Execution', passed: false, message: String(error) }],
+          metrics: { inputTokens: 0, outputTokens: 0, totalTokens: 0, latencyMs: 0, turnCount: 0 },
+          error: String(error),
+          startedAt: new Date().toISOString(),
+          completedAt: new Date().toISOString(),
+        });
+      }
     }
   }
 
@@ -304,11 +1300,49 @@ async function main(): Promise<void> {
   const summary = summarizeResults(results);
   console.log(formatSummary(summary));
 
-  // Exit code
-  process.exit(summary.failed > 0 ? 1 : 0);
+  // Zapis do bazy wyników (--ci, --save, --label)
+  let savedSuite: SuiteRun | undefined;
+  if (args.ci || args.save || args.label) {
+    let suiteConfigSnapshots: Record<string, SuiteConfigSnapshot> | undefined;
+    try {
+      suiteConfigSnapshots = await collectSuiteConfigSnapshots(scenarios.map((s) => s.agent), runConfig);
+    } catch (error) {
+      console.warn(`Nie udało się zebrać snapshotu konfiguracji: ${error}`);
+    }
+
+    savedSuite = getResultsStore().saveSuiteRun(results, {
+      tags: args.ci ? ['cli', 'ci', ...(args.tags ?? [])] : ['cli', ...(args.tags ?? [])],
+      label: args.label,
+      configSnapshot: buildConfigSnapshot({ ...runConfig, repetitions: args.repetitions, concurrency: args.concurrency }),
+      suiteConfigSnapshots,
+    });
+    console.log(`\nZapisano suite ${savedSuite.id}${args.label ? ` (${args.label})` : ''}`);
+  }
+
+  // Bramka regresji - z baseline kod wyjścia zależy od werdyktu, nie od surowego pass/fail
+  let exitCode = summary.failed > 0 ? EXIT_FAILED : EXIT_OK;
+  if (baselineSuiteId) {
+    try {
+      const { baselineSuiteIds, gate } = compareWithBaseline(results, baselineSuiteId, {
+        policy,
+        history: args.history,
+      });
+      console.log(formatGateResult(gate, baselineSuiteIds));
+      exitCode = gate.verdict === 'fail' || (gate.verdict === 'warn' && args.failOnWarn) ? EXIT_FAILED : EXIT_OK;
+    } catch (error) {
+      console.error(`Nie można ocenić bramki regresji: ${error instanceof Error ? error.message : error}`);
+      exitCode = EXIT_ERROR;
+    }
+  }
+
+  if (reporter) {
+    writeReport(reporter, results, args, { savedSuite, baselineSuiteId });
+  }
+
+  process.exit(exitCode);
 }
 
 main().catch((error) => {
   console.error('Fatal error:', error);
-  process.exit(1);
+  process.exit(EXIT_ERROR);
 });
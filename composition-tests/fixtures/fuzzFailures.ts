@@ -0,0 +1,51 @@
+/**
+ * Fixtures z fuzzingu - zminimalizowane przypadki zapisane w composition-tests/fuzz-failures
+ *
+ * Każdy plik to SavedFuzzFailure (JSON); wczytane fixtures dostają tag
+ * 'fuzz-failure' i są renderowane/porównywane jak manualne warianty.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { CompositionTestFixture, SavedFuzzFailure } from '../types';
+
+export const FUZZ_FAILURES_DIR = path.resolve(__dirname, '../fuzz-failures');
+
+export function listSavedFuzzFailures(): SavedFuzzFailure[] {
+  if (!fs.existsSync(FUZZ_FAILURES_DIR)) return [];
+
+  const saved: SavedFuzzFailure[] = [];
+  for (const definitionDir of fs.readdirSync(FUZZ_FAILURES_DIR)) {
+    const dir = path.join(FUZZ_FAILURES_DIR, definitionDir);
+    if (!fs.statSync(dir).isDirectory()) continue;
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+      // Uszkodzony plik nie może zablokować listy fixtures - pomijany z ostrzeżeniem
+      const filePath = path.join(dir, file);
+      try {
+        saved.push(JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SavedFuzzFailure);
+      } catch (error) {
+        console.warn(`[FuzzFailures] Skipping unreadable fuzz failure ${filePath}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+  return saved;
+}
+
+export function loadFuzzFailureFixtures(): CompositionTestFixture[] {
+  return listSavedFuzzFailures().map(({ fixture }) => ({
+    ...fixture,
+    tags: fixture.tags.includes('fuzz-failure') ? fixture.tags : [...fixture.tags, 'fuzz-failure'],
+  }));
+}
+
+/**
+ * Zapisuje przypadek jako `<definitionId>/<fixtureId>.json` i zwraca ścieżkę
+ */
+export function saveFuzzFailure(failure: SavedFuzzFailure): string {
+  const dir = path.join(FUZZ_FAILURES_DIR, failure.fixture.compositionDefinitionId);
+  fs.mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${failure.fixture.id}.json`);
+  fs.writeFileSync(filePath, JSON.stringify(failure, null, 2) + '\n');
+  return filePath;
+}
@@ -9,9 +9,11 @@ import { youtubeSubscribeCardFixtures } from './youtubeSubscribeCard';
 import { xPostFixtures } from './xPost';
 import { blurBackgroundImageFixtures } from './blurBackgroundImage';
 import { facebookPostFixtures } from './facebookPost';
+import { loadFuzzFailureFixtures } from './fuzzFailures';
 
 /**
  * Zwraca wszystkie fixtures - auto-generowane z definicji + manualne warianty
+ * + zminimalizowane przypadki z fuzzingu
  */
 export function getAllFixtures(): CompositionTestFixture[] {
   const autoGenerated = generateFixturesFromDefinitions();
@@ -24,7 +26,7 @@ export function getAllFixtures(): CompositionTestFixture[] {
     ...facebookPostFixtures,
   ];
 
-  return [...autoGenerated, ...manual];
+  return [...autoGenerated, ...manual, ...loadFuzzFailureFixtures()];
 }
 
 /**
@@ -0,0 +1,121 @@
+/**
+ * Sprawdzenia renderu przypadku fuzzingu na zdekodowanych klatkach
+ *
+ * - blank-frames: cała "ustabilizowana" część kompozycji (po animacji wejścia,
+ *   przed wyjściem) to jednolity kolor
+ * - out-of-frame: treść dotyka 1-3 krawędzi kadru - jest przycięta
+ *   (treść na wszystkich 4 krawędziach to pełnoekranowe tło, nie błąd)
+ */
+
+import type { RgbImage } from '../golden-frames';
+import type { FuzzCheckFailure } from '../types';
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+// Maksymalny rozrzut kanału, przy którym klatka jest uznana za jednolitą
+const BLANK_TOLERANCE = 6;
+// Różnica od koloru tła, od której piksel należy do treści
+const CONTENT_TOLERANCE = 32;
+// Część kompozycji przed wyjściem uznawana za ustabilizowaną
+const SETTLED_END_RATIO = 0.75;
+
+export type FrameEdge = 'left' | 'top' | 'right' | 'bottom';
+
+// ============================================================================
+// FRAME ANALYSIS
+// ============================================================================
+
+export function isBlankFrame(frame: RgbImage, tolerance = BLANK_TOLERANCE): boolean {
+  const { data } = frame;
+  if (data.length === 0) return true;
+
+  const min = [data[0], data[1], data[2]];
+  const max = [data[0], data[1], data[2]];
+  for (let p = 0; p < data.length; p += 3) {
+    for (let c = 0; c < 3; c++) {
+      if (data[p + c] < min[c]) min[c] = data[p + c];
+      if (data[p + c] > max[c]) max[c] = data[p + c];
+    }
+    if (max[0] - min[0] > tolerance || max[1] - min[1] > tolerance || max[2] - min[2] > tolerance) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Kolor tła - mediana kanałów z czterech narożników
+ */
+function backgroundColor(frame: RgbImage): [number, number, number] {
+  const { width, height, data } = frame;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(i => i * 3);
+  const median = (c: number) => {
+    const values = corners.map(p => data[p + c]).sort((a, b) => a - b);
+    return Math.round((values[1] + values[2]) / 2);
+  };
+  return [median(0), median(1), median(2)];
+}
+
+/**
+ * Krawędzie kadru, których dotyka treść (piksele różne od tła)
+ */
+export function contentEdges(frame: RgbImage, tolerance = CONTENT_TOLERANCE): FrameEdge[] {
+  const { width, height, data } = frame;
+  const [r, g, b] = backgroundColor(frame);
+  const isContent = (x: number, y: number) => {
+    const p = (y * width + x) * 3;
+    return Math.max(Math.abs(data[p] - r), Math.abs(data[p + 1] - g), Math.abs(data[p + 2] - b)) > tolerance;
+  };
+
+  const edges: FrameEdge[] = [];
+  const column = (x: number) => Array.from({ length: height }, (_, y) => y).some(y => isContent(x, y));
+  const row = (y: number) => Array.from({ length: width }, (_, x) => x).some(x => isContent(x, y));
+
+  if (column(0)) edges.push('left');
+  if (row(0)) edges.push('top');
+  if (column(width - 1)) edges.push('right');
+  if (row(height - 1)) edges.push('bottom');
+  return edges;
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Sprawdza klatki renderu. `animationEndFrame` przesuwa początek części
+ * ustabilizowanej (animacja wejścia może legalnie zaczynać od pustego kadru).
+ */
+export function checkRenderedFrames(frames: RgbImage[], animationEndFrame = 0): FuzzCheckFailure[] {
+  if (frames.length === 0) {
+    return [{ kind: 'blank-frames', message: 'Render has no frames' }];
+  }
+
+  const settledStart = Math.min(animationEndFrame, frames.length - 1);
+  const settledEnd = Math.max(settledStart + 1, Math.floor(frames.length * SETTLED_END_RATIO));
+  const settled = frames.slice(settledStart, settledEnd);
+  const failures: FuzzCheckFailure[] = [];
+
+  if (settled.every(frame => isBlankFrame(frame))) {
+    failures.push({
+      kind: 'blank-frames',
+      message: `Frames ${settledStart}-${settledEnd - 1} are blank (single color)`,
+      frame: settledStart,
+    });
+    return failures;
+  }
+
+  const probeFrame = settledStart + Math.floor(settled.length / 2);
+  const edges = contentEdges(frames[probeFrame]);
+  if (edges.length > 0 && edges.length < 4) {
+    failures.push({
+      kind: 'out-of-frame',
+      message: `Content touches frame edge(s): ${edges.join(', ')}`,
+      frame: probeFrame,
+    });
+  }
+
+  return failures;
+}
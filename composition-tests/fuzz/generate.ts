@@ -0,0 +1,239 @@
+/**
+ * Generator losowych (ale poprawnych typowo) wariantów props kompozycji
+ *
+ * Każdy przypadek to bazowy przykład definicji z kilkoma polami ustawionymi
+ * na wartości skrajne. Dodatkowo deterministyczne przypadki pokrywające
+ * każdą wartość każdego pola enum (animationType, anchorPoint...).
+ */
+
+import type { CompositionTestFixture } from '../types';
+import type { FuzzableDefinition, PropField } from './schema';
+
+// ============================================================================
+// RANDOM
+// ============================================================================
+
+/** Deterministyczny PRNG (mulberry32) - ten sam seed = te same przypadki */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// ============================================================================
+// EXTREME VALUES
+// ============================================================================
+
+const LOREM = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. ';
+
+export const EXTREME_TEXTS: readonly string[] = [
+  '',
+  ' ',
+  'W',
+  'W'.repeat(300),
+  LOREM.repeat(40),
+  'Supercalifragilisticexpialidocious'.repeat(8),
+  'linia 1\nlinia 2\nlinia 3\n\n\nlinia 6',
+  '😀🎬🔥👩‍👩‍👧‍👦🏳️‍🌈'.repeat(10),
+  '漢字かなカナ한국어'.repeat(15),
+  'مرحبا بالعالم هذا نص عربي طويل',
+  'שלום עולם - טקסט בעברית',
+  'Mixed English עם עברית and العربية 123',
+  'Z̴̡̧̛̖̳a̷̢̛̱̟l̸̨̰̈́g̶̢̛̙o̵̧̺͌',
+  '<b>html</b> &amp; "quotes" \'single\' `back`',
+  '\u200B\u200B\u200B',
+];
+
+export const BOUNDARY_COLORS: readonly string[] = [
+  '#000000',
+  '#FFFFFF',
+  '#FF00FF',
+  'transparent',
+  'rgba(0, 0, 0, 0)',
+  'rgba(255, 255, 255, 1)',
+  '#000',
+  '#00000000',
+];
+
+const BROKEN_URLS: readonly string[] = ['', 'https://invalid.invalid/missing.png', 'not-a-url'];
+
+// Pozycje względne (0..1) i skala - wartości na i poza krawędzią kadru
+const POSITION_EXTREMES = [0, 1, -0.5, 1.5, 0.999];
+const SCALE_EXTREMES = [0.01, 0.1, 3, 10];
+
+/**
+ * Nietypowe rozdzielczości - nieparzyste, skrajne proporcje, 4K
+ */
+export const ODD_RESOLUTIONS: ReadonlyArray<{ width: number; height: number }> = [
+  { width: 1921, height: 1081 },
+  { width: 853, height: 479 },
+  { width: 3840, height: 2160 },
+  { width: 1080, height: 1920 },
+  { width: 1920, height: 240 },
+  { width: 240, height: 1920 },
+  { width: 64, height: 64 },
+];
+
+function extremeNumber(random: () => number, field: PropField): number {
+  if (/^position[XY]$/.test(field.key)) return pick(random, POSITION_EXTREMES);
+  if (/scale$/i.test(field.key)) return pick(random, SCALE_EXTREMES);
+  if (/opacity$/i.test(field.key)) return pick(random, [0, 1]);
+
+  const candidates = [0, -1, 1, 9999];
+  if (field.min !== undefined) candidates.push(field.min);
+  if (field.max !== undefined) candidates.push(field.max);
+  const value = pick(random, candidates);
+  // Schemat z zakresem - zostań w zakresie (walidacja UI i tak by nie przepuściła)
+  if (field.min !== undefined && value < field.min) return field.min;
+  if (field.max !== undefined && value > field.max) return field.max;
+  return value;
+}
+
+/**
+ * Wartość skrajna dla pola danego typu
+ */
+export function extremeValue(random: () => number, field: PropField): unknown {
+  switch (field.kind) {
+    case 'text':
+      return pick(random, EXTREME_TEXTS);
+    case 'color':
+      return pick(random, BOUNDARY_COLORS);
+    case 'number':
+      return extremeNumber(random, field);
+    case 'boolean':
+      return random() < 0.5;
+    case 'enum':
+      return field.options && field.options.length > 0 ? pick(random, field.options) : undefined;
+    case 'url':
+      return pick(random, BROKEN_URLS);
+  }
+}
+
+// ============================================================================
+// CASES
+// ============================================================================
+
+export interface FuzzCase {
+  fixture: CompositionTestFixture;
+  /** Bazowy fixture (przykład definicji) - punkt odniesienia dla shrinkingu */
+  base: CompositionTestFixture;
+  mutatedProps: string[];
+}
+
+export interface GenerateFuzzCasesOptions {
+  seed: number;
+  /** Liczba losowych przypadków (poza pokryciem enumów) */
+  randomCases: number;
+  /** Maksymalna liczba pól zmienianych w jednym przypadku */
+  maxMutations?: number;
+  /** Szansa na nietypową rozdzielczość (0..1) */
+  resolutionChance?: number;
+}
+
+/**
+ * Bazowy fixture definicji - pierwszy przykład albo same domyślne wymiary
+ */
+export function baseFixtureForDefinition(definition: FuzzableDefinition): CompositionTestFixture {
+  const example = definition.examples?.[0];
+  return {
+    id: `${definition.id}--fuzz-base`,
+    compositionDefinitionId: definition.id,
+    variantName: 'Fuzz base',
+    description: `${definition.name} - bazowy przykład do fuzzingu`,
+    props: { ...(example?.props ?? {}) },
+    width: example?.width || 1920,
+    height: example?.height || 1080,
+    durationInFrames: definition.defaultDurationInFrames,
+    fps: 30,
+    tags: ['fuzz'],
+  };
+}
+
+function fuzzFixture(
+  base: CompositionTestFixture,
+  seed: number,
+  index: number,
+  props: Record<string, unknown>,
+  resolution: { width: number; height: number },
+  description: string
+): CompositionTestFixture {
+  return {
+    ...base,
+    id: `${base.compositionDefinitionId}--fuzz-${seed}-${index}`,
+    variantName: `Fuzz ${seed}/${index}`,
+    description,
+    props,
+    width: resolution.width,
+    height: resolution.height,
+  };
+}
+
+/**
+ * Przypadki fuzzingu dla jednej definicji: najpierw każda wartość każdego enuma,
+ * potem `randomCases` losowych kombinacji wartości skrajnych.
+ */
+export function generateFuzzCases(
+  definition: FuzzableDefinition,
+  fields: PropField[],
+  options: GenerateFuzzCasesOptions
+): FuzzCase[] {
+  const random = createRandom(options.seed);
+  const base = baseFixtureForDefinition(definition);
+  const baseResolution = { width: base.width, height: base.height };
+  const maxMutations = options.maxMutations ?? 3;
+  const resolutionChance = options.resolutionChance ?? 0.25;
+  const cases: FuzzCase[] = [];
+
+  // Pokrycie enumów
+  for (const field of fields) {
+    if (field.kind !== 'enum' || !field.options) continue;
+    for (const value of field.options) {
+      if (base.props[field.key] === value) continue;
+      const index = cases.length;
+      cases.push({
+        base,
+        mutatedProps: [field.key],
+        fixture: fuzzFixture(base, options.seed, index, { ...base.props, [field.key]: value }, baseResolution,
+          `${field.key} = ${JSON.stringify(value)}`),
+      });
+    }
+  }
+
+  // Losowe kombinacje wartości skrajnych
+  const mutable = fields.filter(f => f.kind !== 'enum' || (f.options?.length ?? 0) > 1);
+  for (let i = 0; i < options.randomCases && mutable.length > 0; i++) {
+    const count = 1 + Math.floor(random() * maxMutations);
+    const props = { ...base.props };
+    const mutated = new Set<string>();
+
+    for (let m = 0; m < count; m++) {
+      const field = pick(random, mutable);
+      const value = extremeValue(random, field);
+      if (value === undefined) continue;
+      props[field.key] = value;
+      mutated.add(field.key);
+    }
+
+    const resolution = random() < resolutionChance ? pick(random, ODD_RESOLUTIONS) : baseResolution;
+    const index = cases.length;
+    const changes = [...mutated].map(key => `${key} = ${JSON.stringify(props[key]).slice(0, 40)}`);
+    if (resolution !== baseResolution) changes.push(`${resolution.width}x${resolution.height}`);
+
+    cases.push({
+      base,
+      mutatedProps: [...mutated],
+      fixture: fuzzFixture(base, options.seed, index, props, resolution, changes.join(', ')),
+    });
+  }
+
+  return cases;
+}
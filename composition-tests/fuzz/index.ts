@@ -0,0 +1,20 @@
+/**
+ * Fuzzing props kompozycji - generowanie, sprawdzenia renderu i shrinking
+ */
+
+export { extractPropFields, ANCHOR_POINTS } from './schema';
+export type { PropField, PropFieldKind, FuzzableDefinition } from './schema';
+export {
+  createRandom,
+  generateFuzzCases,
+  baseFixtureForDefinition,
+  extremeValue,
+  EXTREME_TEXTS,
+  BOUNDARY_COLORS,
+  ODD_RESOLUTIONS,
+} from './generate';
+export type { FuzzCase, GenerateFuzzCasesOptions } from './generate';
+export { checkRenderedFrames, isBlankFrame, contentEdges } from './checks';
+export type { FrameEdge } from './checks';
+export { shrinkFixture } from './shrink';
+export type { ShrinkResult } from './shrink';
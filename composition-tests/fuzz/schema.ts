@@ -0,0 +1,151 @@
+/**
+ * Pola props kompozycji do fuzzingu
+ *
+ * Schemat props żyje w definicjach desktop-app, więc czytamy go tolerancyjnie:
+ * każdy obiekt z `key` + `type` (na dowolnym poziomie zagnieżdżenia) to pole.
+ * Props z przykładów i fixtures, których schemat nie opisuje, dostają typ
+ * wywnioskowany z wartości i nazwy klucza.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PropFieldKind = 'text' | 'number' | 'boolean' | 'color' | 'enum' | 'url';
+
+export interface PropField {
+  key: string;
+  kind: PropFieldKind;
+  /** Dozwolone wartości (enum) */
+  options?: unknown[];
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Minimalny kształt definicji kompozycji potrzebny fuzzerowi
+ */
+export interface FuzzableDefinition {
+  id: string;
+  name: string;
+  defaultDurationInFrames: number;
+  examples?: Array<{ name: string; props: Record<string, unknown>; width?: number; height?: number }>;
+  [key: string]: unknown;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PROPS_PREFIX = 'composition.props.';
+
+export const ANCHOR_POINTS = ['top', 'center', 'bottom'].flatMap(v => ['left', 'center', 'right'].map(h => `${v}-${h}`));
+
+// Klucze z wartościami wyliczeniowymi, gdy schemat nie podaje opcji
+const ENUM_KEY_PATTERN = /(type|Type|[dD]irection|anchorPoint|theme|easing|flipAxis|privacyIcon|dataSource)$/;
+const COLOR_VALUE_PATTERN = /^(#[0-9a-f]{3,8}|rgba?\(.*\)|hsla?\(.*\)|transparent)$/i;
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+function kindFromSchemaType(type: string, hasOptions: boolean): PropFieldKind | undefined {
+  const t = type.toLowerCase();
+  if (hasOptions || ['select', 'enum', 'radio', 'dropdown'].some(s => t.includes(s))) return 'enum';
+  if (t.includes('color')) return 'color';
+  if (['number', 'slider', 'range', 'int', 'float'].some(s => t.includes(s))) return 'number';
+  if (['bool', 'toggle', 'switch', 'checkbox'].some(s => t.includes(s))) return 'boolean';
+  if (['image', 'asset', 'url', 'media'].some(s => t.includes(s))) return 'url';
+  if (['text', 'string'].some(s => t.includes(s))) return 'text';
+  return undefined;
+}
+
+function optionValues(options: unknown): unknown[] | undefined {
+  if (!Array.isArray(options) || options.length === 0) return undefined;
+  return options.map(o => (o && typeof o === 'object' && 'value' in o ? (o as { value: unknown }).value : o));
+}
+
+/**
+ * Zbiera pola schematu z definicji (bez `examples`)
+ */
+function collectSchemaFields(node: unknown, fields: Map<string, PropField>, depth = 0): void {
+  if (!node || typeof node !== 'object' || depth > 8) return;
+
+  if (Array.isArray(node)) {
+    for (const item of node) collectSchemaFields(item, fields, depth + 1);
+    return;
+  }
+
+  const record = node as Record<string, unknown>;
+  if (typeof record.key === 'string' && typeof record.type === 'string') {
+    const options = optionValues(record.options);
+    const kind = kindFromSchemaType(record.type, !!options);
+    if (kind) {
+      const key = record.key.startsWith(PROPS_PREFIX) ? record.key.slice(PROPS_PREFIX.length) : record.key;
+      fields.set(key, {
+        key,
+        kind,
+        options,
+        min: typeof record.min === 'number' ? record.min : undefined,
+        max: typeof record.max === 'number' ? record.max : undefined,
+      });
+    }
+  }
+
+  for (const [name, value] of Object.entries(record)) {
+    if (name === 'examples') continue;
+    collectSchemaFields(value, fields, depth + 1);
+  }
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+function inferField(key: string, values: unknown[]): PropField | undefined {
+  const sample = values.find(v => v !== undefined && v !== null);
+  if (sample === undefined) return undefined;
+
+  if (key === 'anchorPoint') return { key, kind: 'enum', options: ANCHOR_POINTS };
+  if (typeof sample === 'boolean') return { key, kind: 'boolean' };
+  if (typeof sample === 'number') return { key, kind: 'number' };
+  if (typeof sample !== 'string') return undefined;
+
+  if (/color/i.test(key) || COLOR_VALUE_PATTERN.test(sample)) return { key, kind: 'color' };
+  if (/(image|avatar|url|asset)/i.test(key)) return { key, kind: 'url' };
+  if (ENUM_KEY_PATTERN.test(key)) {
+    return { key, kind: 'enum', options: [...new Set(values.filter(v => typeof v === 'string'))] };
+  }
+  return { key, kind: 'text' };
+}
+
+/**
+ * Pola props definicji: schemat + typy wywnioskowane z przykładów/fixtures.
+ * `knownProps` to props wszystkich znanych wariantów tej kompozycji.
+ */
+export function extractPropFields(definition: FuzzableDefinition, knownProps: Array<Record<string, unknown>>): PropField[] {
+  const fields = new Map<string, PropField>();
+  collectSchemaFields(definition, fields);
+
+  const valuesByKey = new Map<string, unknown[]>();
+  for (const props of knownProps) {
+    for (const [key, value] of Object.entries(props)) {
+      valuesByKey.set(key, [...(valuesByKey.get(key) ?? []), value]);
+    }
+  }
+
+  for (const [key, values] of valuesByKey) {
+    const existing = fields.get(key);
+    if (existing) {
+      // Enum ze schematu bez opcji - uzupełnij wartościami z przykładów
+      if (existing.kind === 'enum' && !existing.options) {
+        existing.options = [...new Set(values)];
+      }
+      continue;
+    }
+    const inferred = inferField(key, values);
+    if (inferred) fields.set(key, inferred);
+  }
+
+  return [...fields.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,67 @@
+/**
+ * Shrinking - minimalizacja przypadku, który nie przechodzi sprawdzeń
+ *
+ * Cofa zmiany względem bazowego fixture'a (rozdzielczość, pojedyncze props),
+ * a potem skraca pozostałe teksty, dopóki błąd nadal występuje.
+ */
+
+import type { CompositionTestFixture } from '../types';
+
+export interface ShrinkResult {
+  fixture: CompositionTestFixture;
+  attempts: number;
+}
+
+/**
+ * @param stillFails - renderuje kandydata i sprawdza, czy błąd tego samego rodzaju nadal występuje
+ */
+export async function shrinkFixture(
+  failing: CompositionTestFixture,
+  base: CompositionTestFixture,
+  stillFails: (candidate: CompositionTestFixture) => Promise<boolean>,
+  maxAttempts = 30
+): Promise<ShrinkResult> {
+  let current = failing;
+  let attempts = 0;
+
+  const tryCandidate = async (candidate: CompositionTestFixture): Promise<boolean> => {
+    if (attempts >= maxAttempts) return false;
+    attempts++;
+    if (await stillFails(candidate)) {
+      current = candidate;
+      return true;
+    }
+    return false;
+  };
+
+  // 1. Rozdzielczość bazowa
+  if (current.width !== base.width || current.height !== base.height) {
+    await tryCandidate({ ...current, width: base.width, height: base.height });
+  }
+
+  // 2. Props po kolei z powrotem do wartości bazowych
+  for (const key of Object.keys(current.props)) {
+    if (Object.is(current.props[key], base.props[key])) continue;
+
+    const props = { ...current.props };
+    if (key in base.props) {
+      props[key] = base.props[key];
+    } else {
+      delete props[key];
+    }
+    await tryCandidate({ ...current, props });
+  }
+
+  // 3. Pozostałe zmienione teksty - połowa, dopóki błąd zostaje
+  for (const key of Object.keys(current.props)) {
+    let value = current.props[key];
+    while (typeof value === 'string' && value !== base.props[key] && [...value].length > 1) {
+      const chars = [...value];
+      const shorter = chars.slice(0, Math.ceil(chars.length / 2)).join('');
+      if (!(await tryCandidate({ ...current, props: { ...current.props, [key]: shorter } }))) break;
+      value = shorter;
+    }
+  }
+
+  return { fixture: current, attempts };
+}
@@ -0,0 +1,232 @@
+/**
+ * Golden frames - wybór klatek i porównanie percepcyjne z baseline
+ *
+ * Czyste funkcje bez I/O: dekodowanie PNG i zapis obrazów różnic
+ * robi serwis API (ffmpeg), tutaj tylko liczby i piksele RGB.
+ */
+
+import type {
+  CompositionTestFixture,
+  KeyframeSpec,
+  ResolvedKeyframe,
+  VisualThresholds,
+} from './types';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_KEYFRAMES: KeyframeSpec[] = ['start', 'animation-end', 'mid', 'last'];
+
+export const DEFAULT_VISUAL_THRESHOLDS: VisualThresholds = {
+  minSsim: 0.98,
+  maxPixelDeltaRatio: 0.005,
+  pixelDeltaThreshold: 24,
+};
+
+// Okno SSIM (bloki NxN bez nakładania)
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// ============================================================================
+// KEYFRAMES
+// ============================================================================
+
+// Props z długością animacji wejścia (w klatkach) - różne nazwy w różnych kompozycjach
+const ANIMATION_IN_PROPS = ['animation.fadeIn.frames', 'animationDuration', 'slideInDuration'];
+
+/**
+ * Koniec animacji wejścia z flat props (x-post, subscribe-cta, youtube-subscribe-card...)
+ */
+export function animationEndFrame(fixture: Pick<CompositionTestFixture, 'props'>): number | undefined {
+  if (fixture.props.animationType === 'none') return undefined;
+  for (const key of ANIMATION_IN_PROPS) {
+    const frames = fixture.props[key];
+    if (typeof frames === 'number' && frames > 0) return frames;
+  }
+  return undefined;
+}
+
+/**
+ * Zamienia specyfikację klatek fixture'a na numery klatek.
+ * Klatki spoza zakresu są przycinane, duplikaty łączone (pierwsza etykieta wygrywa),
+ * 'animation-end' jest pomijane, gdy fixture nie ma animacji wejścia.
+ */
+export function resolveKeyframes(fixture: CompositionTestFixture): ResolvedKeyframe[] {
+  const last = Math.max(0, fixture.durationInFrames - 1);
+  const byFrame = new Map<number, ResolvedKeyframe>();
+
+  for (const spec of fixture.keyframes ?? DEFAULT_KEYFRAMES) {
+    let frame: number | undefined;
+    let label: string | undefined;
+
+    switch (spec) {
+      case 'start':
+        frame = 0;
+        label = 'start';
+        break;
+      case 'animation-end':
+        frame = animationEndFrame(fixture);
+        label = 'animation-end';
+        break;
+      case 'mid':
+        frame = Math.floor(last / 2);
+        label = 'mid';
+        break;
+      case 'last':
+        frame = last;
+        label = 'last';
+        break;
+      default:
+        frame = Math.round(spec);
+    }
+
+    if (frame === undefined) continue;
+    frame = Math.min(Math.max(frame, 0), last);
+    if (!byFrame.has(frame)) {
+      byFrame.set(frame, { frame, label: label ?? `frame ${frame}` });
+    }
+  }
+
+  return [...byFrame.values()].sort((a, b) => a.frame - b.frame);
+}
+
+export function resolveThresholds(fixture: CompositionTestFixture): VisualThresholds {
+  return { ...DEFAULT_VISUAL_THRESHOLDS, ...fixture.visualThresholds };
+}
+
+// ============================================================================
+// IMAGE COMPARISON
+// ============================================================================
+
+/**
+ * Obraz RGB24 (3 bajty na piksel, wiersz po wierszu)
+ */
+export interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface ImageComparison {
+  ssim: number;
+  pixelDeltaRatio: number;
+  maxChannelDelta: number;
+  /** Baseline wyszarzony, zmienione piksele na czerwono */
+  diff: RgbImage;
+}
+
+function toLuma(image: RgbImage): Float64Array {
+  const luma = new Float64Array(image.width * image.height);
+  for (let i = 0, p = 0; i < luma.length; i++, p += 3) {
+    luma[i] = 0.299 * image.data[p] + 0.587 * image.data[p + 1] + 0.114 * image.data[p + 2];
+  }
+  return luma;
+}
+
+/**
+ * Średnie SSIM luminancji liczone w blokach SSIM_WINDOW x SSIM_WINDOW
+ */
+export function computeSsim(a: RgbImage, b: RgbImage): number {
+  const lumaA = toLuma(a);
+  const lumaB = toLuma(b);
+  const { width, height } = a;
+  let total = 0;
+  let windows = 0;
+
+  for (let y0 = 0; y0 < height; y0 += SSIM_WINDOW) {
+    for (let x0 = 0; x0 < width; x0 += SSIM_WINDOW) {
+      const y1 = Math.min(y0 + SSIM_WINDOW, height);
+      const x1 = Math.min(x0 + SSIM_WINDOW, width);
+      const n = (y1 - y0) * (x1 - x0);
+
+      let sumA = 0;
+      let sumB = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sumA += lumaA[y * width + x];
+          sumB += lumaB[y * width + x];
+        }
+      }
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+
+      let varA = 0;
+      let varB = 0;
+      let cov = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const da = lumaA[y * width + x] - meanA;
+          const db = lumaB[y * width + x] - meanB;
+          varA += da * da;
+          varB += db * db;
+          cov += da * db;
+        }
+      }
+      varA /= n;
+      varB /= n;
+      cov /= n;
+
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * cov + SSIM_C2))
+        / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows === 0 ? 1 : total / windows;
+}
+
+/**
+ * Porównuje aktualną klatkę z baseline. Obrazy muszą mieć te same wymiary.
+ */
+export function compareImages(
+  baseline: RgbImage,
+  actual: RgbImage,
+  thresholds: VisualThresholds
+): ImageComparison {
+  if (baseline.width !== actual.width || baseline.height !== actual.height) {
+    throw new Error(
+      `Image size mismatch: baseline ${baseline.width}x${baseline.height}, actual ${actual.width}x${actual.height}`
+    );
+  }
+
+  const pixels = baseline.width * baseline.height;
+  const diffData = new Uint8Array(pixels * 3);
+  let changed = 0;
+  let maxChannelDelta = 0;
+
+  for (let p = 0; p < pixels * 3; p += 3) {
+    const delta = Math.max(
+      Math.abs(baseline.data[p] - actual.data[p]),
+      Math.abs(baseline.data[p + 1] - actual.data[p + 1]),
+      Math.abs(baseline.data[p + 2] - actual.data[p + 2])
+    );
+    if (delta > maxChannelDelta) maxChannelDelta = delta;
+
+    if (delta > thresholds.pixelDeltaThreshold) {
+      changed++;
+      diffData[p] = 255;
+      diffData[p + 1] = 0;
+      diffData[p + 2] = 0;
+    } else {
+      // Wyblakły baseline jako kontekst dla zaznaczonych zmian
+      const luma = 0.299 * baseline.data[p] + 0.587 * baseline.data[p + 1] + 0.114 * baseline.data[p + 2];
+      const faded = Math.round(255 - (255 - luma) * 0.2);
+      diffData[p] = faded;
+      diffData[p + 1] = faded;
+      diffData[p + 2] = faded;
+    }
+  }
+
+  return {
+    ssim: computeSsim(baseline, actual),
+    pixelDeltaRatio: pixels === 0 ? 0 : changed / pixels,
+    maxChannelDelta,
+    diff: { width: baseline.width, height: baseline.height, data: diffData },
+  };
+}
+
+export function passesThresholds(comparison: Pick<ImageComparison, 'ssim' | 'pixelDeltaRatio'>, thresholds: VisualThresholds): boolean {
+  return comparison.ssim >= thresholds.minSsim && comparison.pixelDeltaRatio <= thresholds.maxPixelDeltaRatio;
+}
@@ -0,0 +1,187 @@
+/**
+ * Parity silników - porównanie renderów remotion i puppeteer tego samego fixture'a
+ *
+ * Czyste funkcje na zdekodowanych klatkach (RGB24) i metadanych ffprobe:
+ * wyrównanie w czasie po krzywej ruchu, SSIM klatka do klatki, różnice formatu.
+ */
+
+import { computeSsim, type RgbImage } from './golden-frames';
+import type {
+  CompositionParityReport,
+  ParityFrameSimilarity,
+  ParityMismatch,
+  ParityThresholds,
+  RenderedVideoInfo,
+} from './types';
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_PARITY_THRESHOLDS: ParityThresholds = {
+  minFrameSsim: 0.9,
+  minMeanSsim: 0.97,
+  maxFrameOffset: 1,
+};
+
+// Maksymalne szukane przesunięcie animacji (klatki)
+const MAX_SEARCHED_OFFSET = 15;
+
+// ============================================================================
+// TIMING
+// ============================================================================
+
+/**
+ * Średnia zmiana pikseli względem poprzedniej klatki (0 dla pierwszej)
+ */
+export function motionCurve(frames: RgbImage[]): number[] {
+  return frames.map((frame, i) => {
+    if (i === 0) return 0;
+    const previous = frames[i - 1].data;
+    let sum = 0;
+    for (let p = 0; p < frame.data.length; p++) {
+      sum += Math.abs(frame.data[p] - previous[p]);
+    }
+    return frame.data.length === 0 ? 0 : sum / frame.data.length;
+  });
+}
+
+/**
+ * Klatka szczytu animacji - największa zmiana między klatkami
+ */
+export function peakFrame(curve: number[]): number {
+  let peak = 0;
+  for (let i = 1; i < curve.length; i++) {
+    if (curve[i] > curve[peak]) peak = i;
+  }
+  return peak;
+}
+
+/**
+ * Przesunięcie `b` względem `a`, przy którym krzywe ruchu najlepiej się pokrywają.
+ * Przy remisie wygrywa mniejsze przesunięcie; statyczne kompozycje dają 0.
+ */
+export function findFrameOffset(a: number[], b: number[], maxOffset: number): number {
+  let bestOffset = 0;
+  let bestError = Infinity;
+
+  for (let offset = -maxOffset; offset <= maxOffset; offset++) {
+    let error = 0;
+    let overlap = 0;
+    for (let i = 0; i < a.length; i++) {
+      const j = i + offset;
+      if (j < 0 || j >= b.length) continue;
+      error += Math.abs(a[i] - b[j]);
+      overlap++;
+    }
+    if (overlap < Math.min(a.length, b.length) / 2) continue;
+
+    const meanError = error / overlap;
+    if (meanError < bestError || (meanError === bestError && Math.abs(offset) < Math.abs(bestOffset))) {
+      bestError = meanError;
+      bestOffset = offset;
+    }
+  }
+
+  return bestOffset;
+}
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+export function compareVideoInfo(remotion: RenderedVideoInfo, puppeteer: RenderedVideoInfo): ParityMismatch[] {
+  const mismatches: ParityMismatch[] = [];
+
+  if (remotion.codec !== puppeteer.codec) {
+    mismatches.push({ field: 'codec', remotion: remotion.codec, puppeteer: puppeteer.codec });
+  }
+  if (remotion.width !== puppeteer.width || remotion.height !== puppeteer.height) {
+    mismatches.push({
+      field: 'resolution',
+      remotion: `${remotion.width}x${remotion.height}`,
+      puppeteer: `${puppeteer.width}x${puppeteer.height}`,
+    });
+  }
+  if (Math.abs(remotion.fps - puppeteer.fps) > 0.01) {
+    mismatches.push({ field: 'fps', remotion: remotion.fps, puppeteer: puppeteer.fps });
+  }
+  if (remotion.frameCount !== puppeteer.frameCount) {
+    mismatches.push({ field: 'frameCount', remotion: remotion.frameCount, puppeteer: puppeteer.frameCount });
+  }
+  // Kontener może dodać ułamek klatki - różnica do jednej klatki jest dopuszczalna
+  const frameDuration = remotion.fps > 0 ? 1 / remotion.fps : 0;
+  if (Math.abs(remotion.durationSec - puppeteer.durationSec) > frameDuration + 0.001) {
+    mismatches.push({ field: 'duration', remotion: remotion.durationSec, puppeteer: puppeteer.durationSec });
+  }
+
+  return mismatches;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Raport parity z klatek obu renderów (przeskalowanych do tego samego rozmiaru)
+ */
+export function analyzeParity(
+  remotionFrames: RgbImage[],
+  puppeteerFrames: RgbImage[],
+  remotionInfo: RenderedVideoInfo,
+  puppeteerInfo: RenderedVideoInfo,
+  thresholds: ParityThresholds = DEFAULT_PARITY_THRESHOLDS
+): CompositionParityReport {
+  const remotionCurve = motionCurve(remotionFrames);
+  const puppeteerCurve = motionCurve(puppeteerFrames);
+  const maxOffset = Math.min(MAX_SEARCHED_OFFSET, Math.floor(Math.min(remotionFrames.length, puppeteerFrames.length) / 4));
+  const frameOffset = findFrameOffset(remotionCurve, puppeteerCurve, maxOffset);
+
+  const frames: ParityFrameSimilarity[] = [];
+  for (let frame = 0; frame < remotionFrames.length; frame++) {
+    const alignedFrame = frame + frameOffset;
+    if (alignedFrame < 0 || alignedFrame >= puppeteerFrames.length) continue;
+    frames.push({ frame, alignedFrame, ssim: computeSsim(remotionFrames[frame], puppeteerFrames[alignedFrame]) });
+  }
+
+  const worst = frames.reduce<ParityFrameSimilarity | undefined>(
+    (min, f) => (!min || f.ssim < min.ssim ? f : min),
+    undefined
+  );
+  const meanSsim = frames.length > 0 ? frames.reduce((sum, f) => sum + f.ssim, 0) / frames.length : 0;
+  const minSsim = worst?.ssim ?? 0;
+  const mismatches = compareVideoInfo(remotionInfo, puppeteerInfo);
+
+  const reasons: string[] = [];
+  if (frames.length === 0) {
+    reasons.push('No overlapping frames to compare');
+  }
+  if (frames.length > 0 && meanSsim < thresholds.minMeanSsim) {
+    reasons.push(`Mean SSIM ${meanSsim.toFixed(4)} < ${thresholds.minMeanSsim}`);
+  }
+  if (worst && worst.ssim < thresholds.minFrameSsim) {
+    reasons.push(`Frame ${worst.frame}: SSIM ${worst.ssim.toFixed(4)} < ${thresholds.minFrameSsim}`);
+  }
+  if (Math.abs(frameOffset) > thresholds.maxFrameOffset) {
+    reasons.push(`Animation drift: ${frameOffset} frame(s) (max ${thresholds.maxFrameOffset})`);
+  }
+  for (const mismatch of mismatches) {
+    reasons.push(`${mismatch.field} mismatch: remotion ${mismatch.remotion}, puppeteer ${mismatch.puppeteer}`);
+  }
+
+  return {
+    frameOffset,
+    animationPeaks: {
+      remotion: peakFrame(remotionCurve),
+      puppeteer: peakFrame(puppeteerCurve),
+    },
+    meanSsim,
+    minSsim,
+    worstFrame: worst?.frame ?? 0,
+    frames,
+    mismatches,
+    thresholds,
+    diverged: reasons.length > 0,
+    reasons,
+  };
+}
@@ -13,6 +13,8 @@ export interface CompositionTestFixture {
   durationInFrames: number;                // czas trwania kompozycji
   fps: number;                             // default 30
   tags: string[];
+  keyframes?: KeyframeSpec[];              // klatki golden frames (domyślnie DEFAULT_KEYFRAMES)
+  visualThresholds?: Partial<VisualThresholds>;
 }
 
 export type RenderEngine = 'remotion' | 'puppeteer';
@@ -28,9 +30,14 @@ export interface CompositionRenderJob {
   error?: string;
   renderDurationMs?: number;
   startedAt: string;
+  renderStartedAt?: string;      // wyjęcie z kolejki renderów
   completedAt?: string;
   engine: RenderEngine;
   useBackgroundVideo?: boolean;
+  output?: RenderedVideoInfo;    // ffprobe zakończonego renderu
+  outputDeletedAt?: string;      // plik usunięty (retencja) albo nadpisany nowszym renderem
+  attempt: number;
+  retryOf?: string;
 }
 
 export interface CompositionBatchJob {
@@ -40,3 +47,173 @@ export interface CompositionBatchJob {
   completedCount: number;
   totalCount: number;
 }
+
+// ============================================================================
+// GOLDEN FRAMES (visual regression)
+// ============================================================================
+
+/**
+ * Klatka do porównania: numer albo punkt względny
+ * - 'start'         - klatka 0
+ * - 'animation-end' - koniec animacji wejścia (props 'animation.fadeIn.frames')
+ * - 'mid'           - środek kompozycji
+ * - 'last'          - ostatnia klatka
+ */
+export type KeyframeSpec = 'start' | 'animation-end' | 'mid' | 'last' | number;
+
+export interface ResolvedKeyframe {
+  frame: number;
+  label: string;                           // np. 'start', 'mid', 'frame 42'
+}
+
+export interface VisualThresholds {
+  minSsim: number;                         // 0..1, poniżej = regresja
+  maxPixelDeltaRatio: number;              // 0..1, udział zmienionych pikseli
+  pixelDeltaThreshold: number;             // 0..255, różnica kanału liczona jako zmiana
+}
+
+export type FrameComparisonStatus = 'passed' | 'failed' | 'missing-baseline' | 'size-mismatch';
+
+export interface FrameComparison {
+  frame: number;
+  label: string;
+  status: FrameComparisonStatus;
+  ssim?: number;
+  pixelDeltaRatio?: number;
+  maxChannelDelta?: number;
+  hasDiff: boolean;                        // czy zapisano obraz różnic
+}
+
+export interface VisualRegressionResult {
+  fixtureId: string;
+  engine: RenderEngine;
+  status: 'passed' | 'failed' | 'missing-baseline';
+  thresholds: VisualThresholds;
+  frames: FrameComparison[];
+  checkedAt: string;
+}
+
+export interface GoldenBaselineInfo {
+  fixtureId: string;
+  engine: RenderEngine;
+  frames: number[];                        // klatki z zatwierdzonym PNG
+  approvedAt?: string;
+  lastResult?: VisualRegressionResult;
+}
+
+// ============================================================================
+// ENGINE PARITY (remotion vs puppeteer)
+// ============================================================================
+
+/**
+ * Metadane wyrenderowanego pliku (ffprobe)
+ */
+export interface RenderedVideoInfo {
+  codec: string;
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  durationSec: number;
+  sizeBytes: number;
+}
+
+export interface ParityEngineRender {
+  engine: RenderEngine;
+  status: 'pending' | 'rendering' | 'completed' | 'error';
+  renderDurationMs?: number;
+  outputPath?: string;
+  video?: RenderedVideoInfo;
+  error?: string;
+}
+
+export interface ParityThresholds {
+  minFrameSsim: number;                    // najgorsza klatka po wyrównaniu
+  minMeanSsim: number;
+  maxFrameOffset: number;                  // dopuszczalny dryf animacji w klatkach
+}
+
+export interface ParityFrameSimilarity {
+  frame: number;                           // klatka renderu remotion
+  alignedFrame: number;                    // odpowiadająca klatka puppeteer (frame + frameOffset)
+  ssim: number;
+}
+
+export interface ParityMismatch {
+  field: 'codec' | 'resolution' | 'fps' | 'frameCount' | 'duration';
+  remotion: string | number;
+  puppeteer: string | number;
+}
+
+export interface CompositionParityReport {
+  /** Przesunięcie puppeteer względem remotion (dodatnie = puppeteer później) */
+  frameOffset: number;
+  /** Klatka największego ruchu (szczyt animacji) per silnik */
+  animationPeaks: Record<RenderEngine, number>;
+  meanSsim: number;
+  minSsim: number;
+  worstFrame: number;
+  frames: ParityFrameSimilarity[];
+  mismatches: ParityMismatch[];
+  thresholds: ParityThresholds;
+  diverged: boolean;
+  reasons: string[];
+}
+
+export interface CompositionParityRun {
+  runId: string;
+  fixtureId: string;
+  compositionDefinitionId: string;
+  status: 'pending' | 'rendering' | 'analyzing' | 'completed' | 'error';
+  renders: ParityEngineRender[];
+  report?: CompositionParityReport;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// ============================================================================
+// PROP FUZZING
+// ============================================================================
+
+export type FuzzFailureKind = 'crash' | 'blank-frames' | 'out-of-frame';
+
+export interface FuzzCheckFailure {
+  kind: FuzzFailureKind;
+  message: string;
+  frame?: number;
+}
+
+export interface FuzzCaseResult {
+  fixtureId: string;
+  compositionDefinitionId: string;
+  mutatedProps: string[];                  // klucze zmienione względem bazowego przykładu
+  status: 'passed' | 'failed';
+  failures: FuzzCheckFailure[];
+  /** Zminimalizowany fixture zapisany na dysk (tylko dla failed) */
+  savedPath?: string;
+  shrinkAttempts?: number;
+}
+
+export interface CompositionFuzzSession {
+  sessionId: string;
+  definitionIds: string[];
+  seed: number;
+  status: 'running' | 'completed' | 'error';
+  totalCases: number;
+  completedCases: number;
+  cases: FuzzCaseResult[];
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Zapisany przypadek z fuzzingu - do odtworzenia jako zwykły fixture
+ */
+export interface SavedFuzzFailure {
+  fixture: CompositionTestFixture;
+  failures: FuzzCheckFailure[];
+  seed: number;
+  foundAt: string;
+}
@@ -20,16 +20,22 @@ import {
   Visibility as VisionIcon,
   Brush as BrushIcon,
   Mic as MicIcon,
+  Science as ScienceIcon,
 } from '@mui/icons-material';
 
 import PrepareTests from './pages/PrepareTests';
 import ScenarioList from './pages/ScenarioList';
+import ScenarioEditor from './pages/ScenarioEditor';
 import Results from './pages/Results';
+import Experiments from './pages/Experiments';
+import ExperimentDetail from './pages/ExperimentDetail';
 import ResultDetail from './pages/ResultDetail';
+import FailureClusters from './pages/FailureClusters';
 import ScenarioDetail from './pages/ScenarioDetail';
 import FixturesPreview from './pages/FixturesPreview';
 import ClaudeVisionScenes from './pages/ClaudeVisionScenes';
 import CompositionTests from './pages/CompositionTests';
+import CompositionParity from './pages/CompositionParity';
 import TranscriptionEvals from './pages/TranscriptionEvals';
 
 const DRAWER_WIDTH = 240;
@@ -38,6 +44,7 @@ const navItems = [
   { path: '/', label: 'Przygotuj testy', icon: <PlayIcon /> },
   { path: '/scenarios', label: 'Scenariusze', icon: <SettingsIcon /> },
   { path: '/results', label: 'Historia', icon: <HistoryIcon /> },
+  { path: '/experiments', label: 'Eksperymenty', icon: <ScienceIcon /> },
   { path: '/fixtures', label: 'Fixtures', icon: <StorageIcon /> },
   { path: '/claude-vision', label: 'Claude Vision', icon: <VisionIcon /> },
   { path: '/composition-tests', label: 'Kompozycje', icon: <BrushIcon /> },
@@ -123,13 +130,20 @@ export default function App() {
         <Routes>
           <Route path="/" element={<PrepareTests />} />
           <Route path="/scenarios" element={<ScenarioList />} />
+          <Route path="/scenarios/new" element={<ScenarioEditor />} />
+          <Route path="/scenarios/edit/:scenarioId" element={<ScenarioEditor />} />
           <Route path="/results" element={<Results />} />
+          <Route path="/results/failures" element={<FailureClusters />} />
           <Route path="/results/:suiteId" element={<ResultDetail />} />
+          <Route path="/results/:suiteId/failures" element={<FailureClusters />} />
           <Route path="/results/:suiteId/compare/:otherSuiteId" element={<ResultDetail />} />
           <Route path="/results/:suiteId/scenario/:scenarioId" element={<ScenarioDetail />} />
+          <Route path="/experiments" element={<Experiments />} />
+          <Route path="/experiments/:experimentId" element={<ExperimentDetail />} />
           <Route path="/fixtures" element={<FixturesPreview />} />
           <Route path="/claude-vision" element={<ClaudeVisionScenes />} />
           <Route path="/composition-tests" element={<CompositionTests />} />
+          <Route path="/composition-tests/parity" element={<CompositionParity />} />
           <Route path="/transcription-evals" element={<TranscriptionEvals />} />
         </Routes>
       </Box>
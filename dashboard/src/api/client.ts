@@ -15,6 +15,8 @@ export interface Scenario {
   name: string;
   description?: string;
   tags?: string[];
+  /** Plik .scenario.ts albo scenariusz zapisany w edytorze */
+  source?: 'file' | 'store';
   available: boolean;
 }
 
@@ -40,6 +42,8 @@ export interface TestResult {
     totalTokens: number;
     latencyMs: number;
     turnCount: number;
+    /** Szacowany koszt w USD */
+    costUsd?: number;
   };
   error?: string;
   messages?: RawMessage[];
@@ -53,6 +57,141 @@ export interface TestResult {
   inputContext?: ScenarioInputContext;
   /** Logi stderr z Claude CLI */
   stderrLogs?: string[];
+  /** Wyniki asercji */
+  assertions?: AssertionResult[];
+  /** Numer próby (1..N) przy powtarzanych przebiegach */
+  trial?: number;
+}
+
+export type FlakinessLevel = 'stable' | 'flaky' | 'failing';
+
+export interface MetricStats {
+  mean: number;
+  variance: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+/** Statystyki prób scenariusza (przy repetitions > 1) */
+export interface ScenarioTrialStats {
+  scenarioId: string;
+  scenarioName?: string;
+  trials: number;
+  passedTrials: number;
+  passRate: number;
+  /** pass@k (klucz = k) */
+  passAtK: Record<number, number>;
+  confidenceInterval: { lower: number; upper: number; level: number };
+  tokens: MetricStats;
+  latencyMs: MetricStats;
+  flakiness: FlakinessLevel;
+}
+
+export interface SuiteSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  /** Średni pass rate scenariuszy */
+  passRate: number;
+  totalTrials: number;
+  flakyScenarios: string[];
+  scenarioStats: ScenarioTrialStats[];
+}
+
+/** Różnica pass rate z przedziałem ufności i p-value (test Fishera) */
+export interface RateDelta {
+  baseline: number;
+  candidate: number;
+  diff: number;
+  confidenceInterval: { lower: number; upper: number; level: number };
+  pValue: number;
+  significant: boolean;
+}
+
+/** Różnica średnich z przedziałem ufności i p-value (test t Welcha) */
+export interface MetricDelta {
+  baseline: number;
+  candidate: number;
+  diff: number;
+  diffPercent?: number;
+  confidenceInterval?: { lower: number; upper: number; level: number };
+  pValue: number;
+  significant: boolean;
+}
+
+export interface AssertionChange {
+  name: string;
+  turn?: number;
+  change: 'started-failing' | 'more-failures' | 'stopped-failing' | 'fewer-failures' | 'removed';
+  baselineFailures: number;
+  baselineTrials: number;
+  candidateFailures: number;
+  candidateTrials: number;
+  pValue: number;
+  significant: boolean;
+}
+
+export type ScenarioChange = 'improved' | 'regressed' | 'unchanged' | 'new' | 'removed';
+
+export interface ScenarioComparison {
+  scenarioId: string;
+  scenarioName?: string;
+  change: ScenarioChange;
+  baselineTrials: number;
+  candidateTrials: number;
+  passRate?: RateDelta;
+  tokens?: MetricDelta;
+  latencyMs?: MetricDelta;
+  assertions: AssertionChange[];
+}
+
+/** Pojedyncza zmiana konfiguracji między suite'ami (ścieżka w SuiteConfigSnapshot) */
+export interface ConfigDiff {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  oldValue?: unknown;
+  newValue?: unknown;
+  severity: 'info' | 'warning' | 'critical';
+}
+
+/** Linia diffu promptu - context to niezmieniona linia wokół zmian */
+export interface PromptDiffLine {
+  type: 'added' | 'removed' | 'context';
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+export interface ConfigDiffResult {
+  identical: boolean;
+  hashMatch: boolean;
+  differences: {
+    agentConfig: ConfigDiff[];
+    systemPrompt: ConfigDiff[];
+    mcpTools: ConfigDiff[];
+  };
+  promptDiff: PromptDiffLine[];
+  summary: {
+    totalChanges: number;
+    criticalChanges: string[];
+  };
+}
+
+export interface AssertionResult {
+  name: string;
+  passed: boolean;
+  softCheck?: boolean;
+  message?: string;
+  expected?: unknown;
+  actual?: unknown;
+  turn?: number;
+  /** Wynik 0-1 - tylko dla asercji rubryki */
+  score?: number;
+  threshold?: number;
+  /** Uzasadnienie oceny od judge'a */
+  reasoning?: string;
+  criterionId?: string;
 }
 
 export interface ToolCall {
@@ -111,6 +250,10 @@ export interface ConfigSnapshot {
   transAgentEnabledTools?: Record<string, string[]>;
   /** Custom konfiguracja subagentów (Task tool) */
   subagentPrompts?: Record<string, SubagentPromptConfig>;
+  /** Liczba powtórzeń każdego scenariusza */
+  repetitions?: number;
+  /** Maks. liczba prób wykonywanych równolegle */
+  concurrency?: number;
 }
 
 export type SuiteStatus = 'pending' | 'running' | 'completed' | 'failed' | 'stopped';
@@ -126,16 +269,30 @@ export interface SuiteRun {
   totalTokens: number;
   totalLatencyMs: number;
   configSnapshot?: ConfigSnapshot;
+  /** Hash konfiguracji - suite'y o tym samym hashu są łączone w porównaniach */
+  configHash?: string;
   status?: SuiteStatus;
   jobId?: string;
   currentScenario?: string;
+  /** Scenariusze wykonywane w tej chwili (przy równoległym przebiegu może być kilka) */
+  runningScenarios?: string[];
   progress?: {
     completed: number;
     total: number;
   };
   scenarioStatuses?: Record<string, 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'>;
+  /** Liczba prób na scenariusz (1 = bez powtórzeń) */
+  repetitions?: number;
+  /** Średni pass rate scenariuszy (0-1) */
+  passRate?: number;
+  /** Eksperyment, w ramach którego uruchomiono suite (i wariant macierzy) */
+  experimentId?: string;
+  variantId?: string;
 }
 
+/** Formaty eksportu suite'a (GET /suites/:id/export?format=) */
+export type SuiteExportFormat = 'json' | 'junit' | 'tap' | 'markdown' | 'html';
+
 export interface QueueStats {
   waiting: number;
   active: number;
@@ -185,6 +342,10 @@ export interface RunSuiteParams {
   transAgentEnabledTools?: Record<string, string[]>;
   /** Custom konfiguracja subagentów (Task tool) */
   subagentPrompts?: Record<string, SubagentPromptConfig>;
+  /** Liczba powtórzeń każdego scenariusza */
+  repetitions?: number;
+  /** Maks. liczba prób wykonywanych równolegle */
+  concurrency?: number;
 }
 
 export interface AgentPromptResponse {
@@ -231,6 +392,117 @@ export interface SubagentToolsResponse {
   tools: string[];
 }
 
+// ============================================================================
+// FAILURE CLUSTER TYPES
+// ============================================================================
+
+export type FailureCategory =
+  | 'timeout'
+  | 'tool-error'
+  | 'execution-error'
+  | 'asked-instead-of-acting'
+  | 'gave-up'
+  | 'wrong-tool'
+  | 'wrong-block-id'
+  | 'wrong-result';
+
+export interface FailureCluster {
+  key: string;
+  category: FailureCategory;
+  label: string;
+  signature: {
+    category: FailureCategory;
+    failedAssertions: string[];
+    missingTools: string[];
+    forbiddenTools: string[];
+    toolErrors: string[];
+    stderrPatterns: string[];
+    timedOut: boolean;
+  };
+  count: number;
+  scenarioIds: string[];
+  suiteIds: string[];
+  examples: Array<{ suiteId: string; scenarioId: string; scenarioName: string; trial?: number }>;
+}
+
+export interface FailureClusterReport {
+  suiteIds: string[];
+  totalFailures: number;
+  clusters: FailureCluster[];
+  categoryCounts: Record<FailureCategory, number>;
+}
+
+// ============================================================================
+// EXPERIMENT TYPES
+// ============================================================================
+
+/** Wariant eksperymentu - nadpisania konfiguracji względem domyślnej */
+export interface ExperimentVariant {
+  id: string;
+  label?: string;
+  systemPrompt?: { raw?: string; mode?: 'append' | 'replace' };
+  model?: 'haiku' | 'sonnet' | 'opus';
+  thinkingMode?: 'think' | 'hard' | 'harder' | 'ultrathink';
+  toolDescriptions?: Record<string, string>;
+  subagentPrompts?: Record<string, SubagentPromptConfig>;
+  enabledTools?: string[];
+}
+
+export interface ExperimentDefinition {
+  name: string;
+  description?: string;
+  agent?: string;
+  scenarioIds?: string[];
+  tags?: string[];
+  variants?: ExperimentVariant[];
+  /** Osie macierzy - warianty to iloczyn kartezjański (model/thinkingMode jako listy wartości) */
+  matrix?: Record<string, unknown[]>;
+  repetitions?: number;
+  concurrency?: number;
+}
+
+export type ExperimentStatus = 'running' | 'completed' | 'failed' | 'stopped';
+
+export interface ExperimentSummary {
+  id: string;
+  createdAt: string;
+  name: string;
+  description?: string;
+  definition: ExperimentDefinition;
+  variants: ExperimentVariant[];
+  scenarioIds: string[];
+  status: ExperimentStatus;
+}
+
+export interface ExperimentLeaderboardEntry {
+  variantId: string;
+  label?: string;
+  rank: number;
+  trials: number;
+  passedTrials: number;
+  passRate: number;
+  avgTokens: number;
+  avgLatencyMs: number;
+  totalCostUsd?: number;
+  avgCostUsd?: number;
+  /** Różnica pass rate względem wariantu z rank 1 */
+  vsBest?: RateDelta;
+  suiteIds: string[];
+  status: SuiteStatus;
+}
+
+export interface ExperimentDetail extends ExperimentSummary {
+  suites: Array<{
+    suiteId: string;
+    variantId: string;
+    createdAt: string;
+    status: SuiteStatus;
+    totalTokens: number;
+    totalLatencyMs: number;
+  }>;
+  leaderboard: ExperimentLeaderboardEntry[];
+}
+
 // ============================================================================
 // FIXTURES TYPES
 // ============================================================================
@@ -343,22 +615,42 @@ export interface ScenarioInput {
   context: ScenarioInputContext;
 }
 
+export interface EntityDiff {
+  added: Array<{ id: string; data: Record<string, unknown> }>;
+  modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
+  deleted: Array<{ id: string; data: Record<string, unknown> }>;
+}
+
+export interface SettingChange {
+  ownerId: string;
+  key: string;
+  change: 'added' | 'modified' | 'deleted';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SettingsDiff {
+  project: SettingChange[];
+  chapter: SettingChange[];
+  timeline: SettingChange[];
+  block: SettingChange[];
+}
+
+/** Sekcje poza blocks / timelines / mediaAssets brak w starszych wynikach */
 export interface DataDiff {
-  blocks: {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
-  };
-  timelines: {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
-  };
-  mediaAssets: {
-    added: Array<{ id: string; data: Record<string, unknown> }>;
-    modified: Array<{ id: string; before: Record<string, unknown>; after: Record<string, unknown> }>;
-    deleted: Array<{ id: string; data: Record<string, unknown> }>;
+  blocks: EntityDiff;
+  timelines: EntityDiff;
+  mediaAssets: EntityDiff;
+  chapters?: EntityDiff;
+  settings?: SettingsDiff;
+  enrichment?: {
+    focusPoints: EntityDiff;
+    transcriptionSegments: EntityDiff;
+    faces: EntityDiff;
+    scenes: EntityDiff;
   };
+  persons?: EntityDiff;
+  dynamicCompositions?: EntityDiff;
 }
 
 export interface TestScenarioDefinition {
@@ -378,6 +670,75 @@ export interface TestScenarioDefinition {
   };
 }
 
+// ============================================================================
+// SCENARIO EDITOR TYPES
+// ============================================================================
+
+/** Wyrażenie liczone przy sprawdzaniu asercji (np. `before.durationInFrames - 10`) */
+export interface ConditionExpression {
+  expr: string;
+}
+
+export interface MatchCondition {
+  equals?: number | string | boolean | ConditionExpression;
+  gte?: number | ConditionExpression;
+  lte?: number | ConditionExpression;
+  gt?: number | ConditionExpression;
+  lt?: number | ConditionExpression;
+  contains?: string;
+  matches?: string;
+  oneOf?: (number | string | boolean)[];
+  within?: { of: number | ConditionExpression; tolerance: number };
+  expr?: string;
+}
+
+export interface BlockMatchCondition {
+  as?: string;
+  match: Record<string, string | MatchCondition | undefined>;
+  changes?: Record<string, MatchCondition>;
+}
+
+/** Sekcje poza `blocks` edytowane jako JSON */
+export interface FinalStateExpectations {
+  blocks?: {
+    added?: BlockMatchCondition[];
+    modified?: BlockMatchCondition[];
+    deleted?: string[];
+    unchanged?: string[];
+  };
+  [section: string]: unknown;
+}
+
+/** Zestaw oczekiwań wygenerowany z wyniku (toolCalls + finalState) */
+export interface GeneratedExpectations {
+  toolCalls?: { required?: string[]; optional?: string[]; forbidden?: string[] };
+  finalState?: FinalStateExpectations;
+}
+
+export interface StoredScenarioRecord {
+  id: string;
+  path: string;
+  agent: string;
+  name: string;
+  tags: string[];
+  scenario: TestScenarioDefinition;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScenarioValidationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface ScenarioValidationReport {
+  file: string;
+  scenarioId?: string;
+  valid: boolean;
+  issues: ScenarioValidationIssue[];
+}
+
 // ============================================================================
 // CLAUDE VISION TEST TYPES
 // ============================================================================
@@ -488,15 +849,24 @@ export interface RenderJob {
   jobId: string;
   projectId: string;
   chapterId: string;
+  suiteId?: string;
+  scenarioId?: string;
+  engine?: 'remotion' | 'puppeteer';
   status: RenderStatus;
   progress: number;
   currentFrame?: number;
   totalFrames?: number;
   previewFrame?: string;
   videoUrl?: string;
+  output?: RenderedVideoInfo;
+  outputDeletedAt?: string;
   error?: string;
+  attempt?: number;
+  retryOf?: string;
   startedAt: string;
+  renderStartedAt?: string;
   completedAt?: string;
+  renderDurationMs?: number;
 }
 
 // ============================================================================
@@ -514,6 +884,8 @@ export interface CompositionTestFixture {
   durationInFrames: number;
   fps: number;
   tags: string[];
+  keyframes?: Array<'start' | 'animation-end' | 'mid' | 'last' | number>;
+  visualThresholds?: Partial<GoldenVisualThresholds>;
 }
 
 export interface CompositionRenderJobStatus {
@@ -527,7 +899,12 @@ export interface CompositionRenderJobStatus {
   error?: string;
   renderDurationMs?: number;
   startedAt: string;
+  renderStartedAt?: string;
   completedAt?: string;
+  output?: RenderedVideoInfo;
+  outputDeletedAt?: string;
+  attempt?: number;
+  retryOf?: string;
 }
 
 export interface CompositionBatchStatus {
@@ -544,6 +921,96 @@ export interface CompositionRenderedFile {
   engine: 'remotion' | 'puppeteer';
 }
 
+export interface GoldenVisualThresholds {
+  minSsim: number;
+  maxPixelDeltaRatio: number;
+  pixelDeltaThreshold: number;
+}
+
+export type GoldenFrameKind = 'baseline' | 'actual' | 'diff';
+
+export interface GoldenFrameComparison {
+  frame: number;
+  label: string;
+  status: 'passed' | 'failed' | 'missing-baseline' | 'size-mismatch';
+  ssim?: number;
+  pixelDeltaRatio?: number;
+  maxChannelDelta?: number;
+  hasDiff: boolean;
+}
+
+export interface GoldenCheckResult {
+  fixtureId: string;
+  engine: 'remotion' | 'puppeteer';
+  status: 'passed' | 'failed' | 'missing-baseline';
+  thresholds: GoldenVisualThresholds;
+  frames: GoldenFrameComparison[];
+  checkedAt: string;
+}
+
+export interface GoldenBaselineInfo {
+  fixtureId: string;
+  engine: 'remotion' | 'puppeteer';
+  frames: number[];
+  approvedAt?: string;
+  lastResult?: GoldenCheckResult;
+}
+
+export interface RenderedVideoInfo {
+  codec: string;
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  durationSec: number;
+  sizeBytes: number;
+}
+
+export interface ParityEngineRender {
+  engine: 'remotion' | 'puppeteer';
+  status: 'pending' | 'rendering' | 'completed' | 'error';
+  renderDurationMs?: number;
+  outputPath?: string;
+  video?: RenderedVideoInfo;
+  error?: string;
+}
+
+export interface CompositionParityReport {
+  frameOffset: number;
+  animationPeaks: Record<'remotion' | 'puppeteer', number>;
+  meanSsim: number;
+  minSsim: number;
+  worstFrame: number;
+  frames: Array<{ frame: number; alignedFrame: number; ssim: number }>;
+  mismatches: Array<{
+    field: 'codec' | 'resolution' | 'fps' | 'frameCount' | 'duration';
+    remotion: string | number;
+    puppeteer: string | number;
+  }>;
+  thresholds: { minFrameSsim: number; minMeanSsim: number; maxFrameOffset: number };
+  diverged: boolean;
+  reasons: string[];
+}
+
+export interface CompositionParityRun {
+  runId: string;
+  fixtureId: string;
+  compositionDefinitionId: string;
+  status: 'pending' | 'rendering' | 'analyzing' | 'completed' | 'error';
+  renders: ParityEngineRender[];
+  report?: CompositionParityReport;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface ParityMatrixRow {
+  fixtureId: string;
+  compositionDefinitionId: string;
+  variantName: string;
+  latestRun?: CompositionParityRun;
+}
+
 // ============================================================================
 // TRANSCRIPTION EVAL TYPES
 // ============================================================================
@@ -679,6 +1146,52 @@ export const api = {
   getScenarioDefinition: (scenarioPath: string) =>
     fetchJson<TestScenarioDefinition>(`/scenarios/${scenarioPath}`),
 
+  // Scenario store (edytor)
+  getStoredScenario: (id: string) =>
+    fetchJson<StoredScenarioRecord>(`/scenarios/store/${encodeURIComponent(id)}`),
+
+  validateStoredScenario: (scenario: TestScenarioDefinition) =>
+    fetchJson<ScenarioValidationReport>('/scenarios/store/validate', {
+      method: 'POST',
+      body: JSON.stringify({ scenario }),
+    }),
+
+  createStoredScenario: (scenario: TestScenarioDefinition) =>
+    fetchJson<StoredScenarioRecord & { issues: ScenarioValidationIssue[] }>('/scenarios/store', {
+      method: 'POST',
+      body: JSON.stringify({ scenario }),
+    }),
+
+  updateStoredScenario: (id: string, scenario: TestScenarioDefinition) =>
+    fetchJson<StoredScenarioRecord & { issues: ScenarioValidationIssue[] }>(`/scenarios/store/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ scenario }),
+    }),
+
+  deleteStoredScenario: (id: string) =>
+    fetchJson<{ success: boolean }>(`/scenarios/store/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+
+  /** Oczekiwania wygenerowane z zapisanego wyniku (finalState, unchanged, required / forbidden) */
+  getGeneratedExpectations: (
+    suiteId: string,
+    scenarioId: string,
+    /** tolerance: exact, `<N>f` (± N klatek), `<N>%` */
+    options?: { trial?: number; tolerance?: string; forbidden?: boolean }
+  ) => {
+    const params = new URLSearchParams();
+    if (options?.trial) params.set('trial', String(options.trial));
+    if (options?.tolerance) params.set('tolerance', options.tolerance);
+    if (options?.forbidden === false) params.set('forbidden', 'false');
+    const query = params.toString();
+    return fetchJson<{
+      suiteId: string;
+      scenarioId: string;
+      trial?: number;
+      expectations: GeneratedExpectations;
+      warnings: string[];
+    }>(`/suites/${suiteId}/scenarios/${encodeURIComponent(scenarioId)}/expectations${query ? `?${query}` : ''}`);
+  },
+
   runScenario: (path: string, options?: { verbose?: boolean }) =>
     fetchJson<{ jobId: string; scenarioId: string }>(`/scenarios/${path}/run`, {
       method: 'POST',
@@ -728,7 +1241,8 @@ export const api = {
     return fetchJson<SuiteRun[]>(`/suites?${query}`);
   },
 
-  getSuite: (suiteId: string) => fetchJson<SuiteRun & { results: TestResult[] }>(`/suites/${suiteId}`),
+  getSuite: (suiteId: string) =>
+    fetchJson<SuiteRun & { results: TestResult[]; summary?: SuiteSummary }>(`/suites/${suiteId}`),
 
   getSuiteScenarios: (suiteId: string) =>
     fetchJson<
@@ -741,27 +1255,50 @@ export const api = {
         turnCount: number;
         toolCalls: string[];
         error?: string;
+        trials: number;
+        completedTrials: number;
+        passedTrials: number;
+        passRate?: number;
+        flakiness?: FlakinessLevel;
       }>
     >(`/suites/${suiteId}/scenarios`),
 
-  getScenarioResult: (suiteId: string, scenarioId: string) =>
-    fetchJson<TestResult>(`/suites/${suiteId}/scenarios/${encodeURIComponent(scenarioId)}`),
+  getScenarioResult: (suiteId: string, scenarioId: string, trial?: number) =>
+    fetchJson<TestResult>(
+      `/suites/${suiteId}/scenarios/${encodeURIComponent(scenarioId)}${trial ? `?trial=${trial}` : ''}`
+    ),
 
-  compareSuites: (suiteId1: string, suiteId2: string) =>
+  reevaluateScenarioResult: (suiteId: string, scenarioId: string, save = false) =>
     fetchJson<{
-      suite1: { id: string; createdAt: string; tags: string[] };
-      suite2: { id: string; createdAt: string; tags: string[] };
-      comparison: Array<{
-        scenarioId: string;
-        suite1: { passed: boolean; tokens: number; latencyMs: number } | null;
-        suite2: { passed: boolean; tokens: number; latencyMs: number } | null;
-        change: 'fixed' | 'regressed' | 'unchanged' | 'new' | 'removed';
-        tokensDiff?: number;
-        tokensDiffPercent?: number;
-      }>;
+      suiteId: string;
+      scenarioId: string;
+      previousPassed: boolean;
+      passed: boolean;
+      saved: boolean;
+      result: TestResult;
+    }>(
+      `/suites/${suiteId}/scenarios/${encodeURIComponent(scenarioId)}/reevaluate${save ? '?save=true' : ''}`,
+      { method: 'POST' }
+    ),
+
+  compareSuites: (suiteId1: string, suiteId2: string, history?: number) =>
+    fetchJson<{
+      suite1: { id: string; createdAt: string; tags: string[]; configHash?: string };
+      suite2: { id: string; createdAt: string; tags: string[]; configHash?: string };
+      /** Suite'y w pulach prób (suite + historia o tym samym config_hash) */
+      baselineSuiteIds: string[];
+      candidateSuiteIds: string[];
+      alpha: number;
+      baselineTrials: number;
+      candidateTrials: number;
+      overall: { passRate: RateDelta; tokens: MetricDelta; latencyMs: MetricDelta };
+      scenarios: ScenarioComparison[];
+      counts: Record<ScenarioChange, number>;
+      /** Diff konfiguracji per typ agenta (null = suite bez snapshotu konfiguracji) */
+      configDiff: Record<string, ConfigDiffResult> | null;
       totalTokensDiff: number;
       totalTokensDiffPercent: number;
-    }>(`/suites/${suiteId1}/compare/${suiteId2}`),
+    }>(`/suites/${suiteId1}/compare/${suiteId2}${history ? `?history=${history}` : ''}`),
 
   addTag: (suiteId: string, tag: string) =>
     fetchJson<{ success: boolean }>(`/suites/${suiteId}/tag`, {
@@ -778,6 +1315,58 @@ export const api = {
       remainingScenarios: number;
     }>(`/suites/${suiteId}/stop`, { method: 'POST' }),
 
+  // Experiments
+  getExperiments: (params?: { limit?: number; offset?: number }) => {
+    const query = new URLSearchParams();
+    if (params?.limit) query.set('limit', String(params.limit));
+    if (params?.offset) query.set('offset', String(params.offset));
+    return fetchJson<ExperimentSummary[]>(`/experiments?${query}`);
+  },
+
+  getExperiment: (experimentId: string, alpha?: number) =>
+    fetchJson<ExperimentDetail>(`/experiments/${experimentId}${alpha !== undefined ? `?alpha=${alpha}` : ''}`),
+
+  createExperiment: (definition: ExperimentDefinition) =>
+    fetchJson<{
+      experimentId: string;
+      variantCount: number;
+      scenarioCount: number;
+      cells: Array<{ variantId: string; suiteId: string; jobId: string }>;
+      message: string;
+    }>('/experiments', {
+      method: 'POST',
+      body: JSON.stringify(definition),
+    }),
+
+  previewExperiment: (definition: ExperimentDefinition) =>
+    fetchJson<{ variants: ExperimentVariant[] }>('/experiments/preview', {
+      method: 'POST',
+      body: JSON.stringify(definition),
+    }),
+
+  stopExperiment: (experimentId: string) =>
+    fetchJson<{ success: boolean; stoppedSuiteIds: string[] }>(`/experiments/${experimentId}/stop`, {
+      method: 'POST',
+    }),
+
+  /**
+   * URL eksportu suite'a (json | junit | tap | markdown | html) - do pobrania przez link
+   */
+  getSuiteExportUrl: (suiteId: string, format: SuiteExportFormat, baselineSuiteId?: string) => {
+    const query = new URLSearchParams({ format, dashboardUrl: window.location.origin });
+    if (baselineSuiteId) query.set('baseline', baselineSuiteId);
+    return `${API_BASE}/suites/${suiteId}/export?${query}`;
+  },
+
+  // Failures
+  getFailureClusters: (params: { suiteIds?: string[]; recent?: number; tags?: string[] }) => {
+    const query = new URLSearchParams();
+    if (params.suiteIds) query.set('suiteIds', params.suiteIds.join(','));
+    if (params.recent) query.set('recent', String(params.recent));
+    if (params.tags) query.set('tags', params.tags.join(','));
+    return fetchJson<FailureClusterReport>(`/failures/clusters?${query}`);
+  },
+
   // Trends
   getScenarioTrend: (scenarioId: string, limit?: number) =>
     fetchJson<{
@@ -891,6 +1480,11 @@ export const api = {
   getRenderStatus: (jobId: string) =>
     fetchJson<RenderJob>(`/render/${jobId}/status`),
 
+  retryRender: (jobId: string) =>
+    fetchJson<{ jobId: string; status: string; attempt: number; message: string }>(`/render/${jobId}/retry`, {
+      method: 'POST',
+    }),
+
   deleteRender: (jobId: string) =>
     fetchJson<{ success: boolean; message: string }>(`/render/${jobId}`, {
       method: 'DELETE',
@@ -918,6 +1512,11 @@ export const api = {
   getCompositionJobStatus: (jobId: string) =>
     fetchJson<CompositionRenderJobStatus>(`/composition-tests/jobs/${jobId}`),
 
+  retryCompositionJob: (jobId: string) =>
+    fetchJson<{ jobId: string; status: string; attempt: number; message: string }>(`/composition-tests/jobs/${jobId}/retry`, {
+      method: 'POST',
+    }),
+
   getCompositionBatchStatus: (batchId: string) =>
     fetchJson<CompositionBatchStatus>(`/composition-tests/batch/${batchId}`),
 
@@ -930,6 +1529,60 @@ export const api = {
       { method: 'DELETE' }
     ),
 
+  // Composition Tests - Golden Frames
+  getGoldenBaselines: (engine: 'remotion' | 'puppeteer') =>
+    fetchJson<GoldenBaselineInfo[]>(`/composition-tests/golden?engine=${engine}`),
+
+  checkGoldenFrames: (fixtureId: string, engine: 'remotion' | 'puppeteer') =>
+    fetchJson<GoldenCheckResult>(`/composition-tests/golden/${fixtureId}/check`, {
+      method: 'POST',
+      body: JSON.stringify({ engine }),
+    }),
+
+  checkGoldenFramesBatch: (definitionId: string | undefined, engine: 'remotion' | 'puppeteer') =>
+    fetchJson<{ results: GoldenCheckResult[]; skipped: string[] }>('/composition-tests/golden/check', {
+      method: 'POST',
+      body: JSON.stringify({ definitionId, engine }),
+    }),
+
+  approveGoldenBaseline: (fixtureId: string, engine: 'remotion' | 'puppeteer', frames?: number[]) =>
+    fetchJson<GoldenCheckResult>(`/composition-tests/golden/${fixtureId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ engine, frames }),
+    }),
+
+  // Composition Tests - Engine Parity
+  getParityMatrix: () =>
+    fetchJson<ParityMatrixRow[]>('/composition-tests/parity/matrix'),
+
+  getParityRuns: (fixtureId?: string, limit?: number) => {
+    const query = new URLSearchParams();
+    if (fixtureId) query.set('fixtureId', fixtureId);
+    if (limit) query.set('limit', String(limit));
+    return fetchJson<CompositionParityRun[]>(`/composition-tests/parity/runs?${query}`);
+  },
+
+  startParityRun: (fixtureId: string) =>
+    fetchJson<CompositionParityRun>('/composition-tests/parity', {
+      method: 'POST',
+      body: JSON.stringify({ fixtureId }),
+    }),
+
+  startParityBatch: (definitionId?: string) =>
+    fetchJson<{ runIds: string[]; totalCount: number; message: string }>('/composition-tests/parity/batch', {
+      method: 'POST',
+      body: JSON.stringify({ definitionId }),
+    }),
+
+  /**
+   * URL obrazka klatki - `version` (np. checkedAt) omija cache przeglądarki po ponownym porównaniu
+   */
+  getGoldenFrameUrl: (fixtureId: string, frame: number, kind: GoldenFrameKind, engine: 'remotion' | 'puppeteer', version?: string) => {
+    const query = new URLSearchParams({ engine });
+    if (version) query.set('v', version);
+    return `${API_BASE}/composition-tests/golden/${fixtureId}/frames/${frame}/${kind}?${query}`;
+  },
+
   // Transcription Evals - Backends
   getTranscriptionBackends: () =>
     fetchJson<Record<TranscriptionBackend, BackendStatus>>('/transcription-evals/backends'),
@@ -1100,6 +1753,7 @@ export interface SuiteEvent {
   suiteId?: string;
   scenarioId?: string;
   scenarioName?: string;
+  trial?: number;
   toolCall?: ToolCall;
   message?: RawMessage;
   result?: TestResult;
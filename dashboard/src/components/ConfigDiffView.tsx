@@ -0,0 +1,202 @@
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Stack,
+} from '@mui/material';
+import type { ConfigDiff, ConfigDiffResult, PromptDiffLine } from '../api/client';
+
+interface ConfigDiffViewProps {
+  /** Diff konfiguracji per typ agenta (null = brak snapshotu w którymś suite) */
+  configDiff: Record<string, ConfigDiffResult> | null;
+}
+
+const SECTION_LABELS: Record<keyof ConfigDiffResult['differences'], string> = {
+  agentConfig: 'Agent',
+  systemPrompt: 'Prompt',
+  mcpTools: 'Narzedzia',
+};
+
+const SEVERITY_COLORS: Record<ConfigDiff['severity'], 'default' | 'warning' | 'error'> = {
+  info: 'default',
+  warning: 'warning',
+  critical: 'error',
+};
+
+const LINE_STYLES: Record<PromptDiffLine['type'], { prefix: string; bgcolor?: string; color?: string }> = {
+  added: { prefix: '+', bgcolor: 'rgba(46, 125, 50, 0.15)', color: 'success.light' },
+  removed: { prefix: '-', bgcolor: 'rgba(211, 47, 47, 0.15)', color: 'error.light' },
+  context: { prefix: ' ' },
+};
+
+/** Zmiany wyróżnione chipami - model i tryb myślenia zmieniają zachowanie całego suite'a */
+const HIGHLIGHTED_PATHS = ['agentConfig.model', 'agentConfig.thinkingMode', 'systemPrompt.mode'];
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '-';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Diff promptu w stylu unified - przerwy w numeracji oznaczają pominięte niezmienione linie
+ */
+function PromptDiff({ lines }: { lines: PromptDiffLine[] }) {
+  // Początek nowego fragmentu = skok numeracji w starym lub nowym prompcie
+  let lastOld: number | undefined;
+  let lastNew: number | undefined;
+  const hunkStarts = lines.map((line) => {
+    const jump =
+      (line.oldLine !== undefined && lastOld !== undefined && line.oldLine - lastOld > 1) ||
+      (line.newLine !== undefined && lastNew !== undefined && line.newLine - lastNew > 1);
+    lastOld = line.oldLine ?? lastOld;
+    lastNew = line.newLine ?? lastNew;
+    return jump;
+  });
+
+  return (
+    <Box
+      sx={{
+        fontFamily: 'monospace',
+        fontSize: 12,
+        bgcolor: 'rgba(0,0,0,0.2)',
+        borderRadius: 1,
+        maxHeight: 400,
+        overflow: 'auto',
+        py: 0.5,
+      }}
+    >
+      {lines.map((line, index) => {
+        const style = LINE_STYLES[line.type];
+
+        return (
+          <Box key={index}>
+            {hunkStarts[index] && (
+              <Box sx={{ px: 1, color: 'text.disabled' }}>⋯</Box>
+            )}
+            <Box sx={{ display: 'flex', bgcolor: style.bgcolor, color: style.color, px: 1, whiteSpace: 'pre-wrap' }}>
+              <Box component="span" sx={{ width: 40, flexShrink: 0, color: 'text.disabled', textAlign: 'right', pr: 1 }}>
+                {line.type === 'added' ? line.newLine : line.oldLine}
+              </Box>
+              <Box component="span" sx={{ width: 16, flexShrink: 0 }}>
+                {style.prefix}
+              </Box>
+              <Box component="span" sx={{ wordBreak: 'break-word' }}>
+                {line.text}
+              </Box>
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
+
+function AgentConfigDiff({ agentType, diff }: { agentType: string; diff: ConfigDiffResult }) {
+  const rows = (Object.keys(SECTION_LABELS) as Array<keyof ConfigDiffResult['differences']>).flatMap((section) =>
+    diff.differences[section].map((change) => ({ section, ...change }))
+  );
+  const highlighted = rows.filter((row) => HIGHLIGHTED_PATHS.includes(row.path));
+
+  return (
+    <Box mb={2}>
+      <Stack direction="row" alignItems="center" spacing={1} mb={1}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          {agentType}
+        </Typography>
+        <Chip
+          label={diff.identical ? 'bez zmian' : `${diff.summary.totalChanges} zmian`}
+          size="small"
+          color={diff.identical ? 'success' : 'warning'}
+          variant="outlined"
+        />
+        {highlighted.map((row) => (
+          <Chip
+            key={row.path}
+            label={`${row.path.split('.').pop()}: ${formatValue(row.oldValue)} → ${formatValue(row.newValue)}`}
+            size="small"
+            color="error"
+          />
+        ))}
+      </Stack>
+
+      {rows.length > 0 && (
+        <TableContainer sx={{ mb: 2 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Sekcja</TableCell>
+                <TableCell>Sciezka</TableCell>
+                <TableCell>Zmiana</TableCell>
+                <TableCell>Przed</TableCell>
+                <TableCell>Po</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={`${row.path}-${row.type}-${index}`} hover>
+                  <TableCell>{SECTION_LABELS[row.section]}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2" fontFamily="monospace">
+                      {row.path}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={row.type} size="small" color={SEVERITY_COLORS[row.severity]} variant="outlined" />
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace', fontSize: 12 }}>{formatValue(row.oldValue)}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace', fontSize: 12 }}>{formatValue(row.newValue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {diff.promptDiff.length > 0 && (
+        <>
+          <Typography variant="caption" color="text.secondary" display="block" mb={0.5}>
+            Diff promptu
+          </Typography>
+          <PromptDiff lines={diff.promptDiff} />
+        </>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Co zmieniło się w konfiguracji między suite'ami (model, prompt, narzędzia, subagenci)
+ *
+ * Pokazywane obok porównania wyników, żeby regresję dało się powiązać z konkretną zmianą.
+ */
+export function ConfigDiffView({ configDiff }: ConfigDiffViewProps) {
+  const agentTypes = configDiff ? Object.keys(configDiff) : [];
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="h6" mb={1}>
+        Zmiany konfiguracji
+      </Typography>
+      {!configDiff ? (
+        <Typography color="text.secondary" variant="body2">
+          Brak snapshotu konfiguracji w jednym z suite'ow
+        </Typography>
+      ) : agentTypes.length === 0 ? (
+        <Typography color="text.secondary" variant="body2">
+          Suite'y nie maja wspolnego typu agenta
+        </Typography>
+      ) : (
+        agentTypes.map((agentType) => (
+          <AgentConfigDiff key={agentType} agentType={agentType} diff={configDiff[agentType]} />
+        ))
+      )}
+    </Paper>
+  );
+}
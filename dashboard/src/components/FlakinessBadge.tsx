@@ -0,0 +1,45 @@
+import { Chip, Tooltip } from '@mui/material';
+import type { FlakinessLevel } from '../api/client';
+
+interface FlakinessBadgeProps {
+  /** Liczba zakończonych prób */
+  trials: number;
+  passedTrials: number;
+  size?: 'small' | 'medium';
+}
+
+const LABELS: Record<FlakinessLevel, string> = {
+  stable: 'Stabilny',
+  flaky: 'Flaky',
+  failing: 'Failing',
+};
+
+const COLORS: Record<FlakinessLevel, 'success' | 'warning' | 'error'> = {
+  stable: 'success',
+  flaky: 'warning',
+  failing: 'error',
+};
+
+/**
+ * Badge flakiness scenariusza przy powtarzanych próbach (pass rate w etykiecie)
+ *
+ * Nic nie renderuje dla pojedynczej próby - wtedy wystarcza ikona PASS/FAIL.
+ */
+export function FlakinessBadge({ trials, passedTrials, size = 'small' }: FlakinessBadgeProps) {
+  if (trials <= 1) return null;
+
+  const level: FlakinessLevel =
+    passedTrials === trials ? 'stable' : passedTrials === 0 ? 'failing' : 'flaky';
+  const passRate = (passedTrials / trials) * 100;
+
+  return (
+    <Tooltip title={`Przeszło ${passedTrials} z ${trials} prób`}>
+      <Chip
+        label={`${LABELS[level]} ${passRate.toFixed(0)}%`}
+        color={COLORS[level]}
+        size={size}
+        variant={level === 'stable' ? 'outlined' : 'filled'}
+      />
+    </Tooltip>
+  );
+}
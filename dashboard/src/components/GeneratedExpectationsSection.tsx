@@ -0,0 +1,120 @@
+/**
+ * GeneratedExpectationsSection - oczekiwania wygenerowane z wyniku scenariusza
+ *
+ * finalState z DataDiff (z tolerancją klatek), lista unchanged z fixtures
+ * i zbiory narzędzi - do skopiowania albo otwarcia w edytorze scenariuszy.
+ */
+
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Stack,
+  Alert,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress,
+} from '@mui/material';
+import { AutoFixHigh as GenerateIcon, NoteAdd as NoteAddIcon } from '@mui/icons-material';
+import { api, GeneratedExpectations } from '../api/client';
+import { CopyButton } from './fixtures';
+import { ToleranceSelect } from './scenario-editor';
+
+interface GeneratedExpectationsSectionProps {
+  suiteId: string;
+  scenarioId: string;
+  trial?: number;
+}
+
+export function GeneratedExpectationsSection({ suiteId, scenarioId, trial }: GeneratedExpectationsSectionProps) {
+  const navigate = useNavigate();
+  const [tolerance, setTolerance] = useState('exact');
+  const [forbidden, setForbidden] = useState(true);
+  const [expectations, setExpectations] = useState<GeneratedExpectations | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.getGeneratedExpectations(suiteId, scenarioId, { trial, tolerance, forbidden });
+      setExpectations(data.expectations);
+      setWarnings(data.warnings);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Blad generowania oczekiwan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openInEditor = () => {
+    const params = new URLSearchParams({ fromSuite: suiteId, fromScenario: scenarioId, tolerance });
+    if (trial) params.set('trial', String(trial));
+    navigate(`/scenarios/new?${params.toString()}`);
+  };
+
+  const json = expectations ? JSON.stringify(expectations, null, 2) : '';
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Stack direction="row" alignItems="center" spacing={2} mb={expectations || error ? 2 : 0}>
+        <Typography variant="subtitle2">Oczekiwania z wyniku</Typography>
+        <ToleranceSelect value={tolerance} onChange={setTolerance} />
+        <FormControlLabel
+          control={<Checkbox size="small" checked={forbidden} onChange={(e) => setForbidden(e.target.checked)} />}
+          label="forbidden"
+        />
+        <Box flex={1} />
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={loading ? <CircularProgress size={16} /> : <GenerateIcon />}
+          onClick={generate}
+          disabled={loading}
+        >
+          Generuj
+        </Button>
+        <Button size="small" variant="outlined" startIcon={<NoteAddIcon />} onClick={openInEditor}>
+          Utworz scenariusz
+        </Button>
+      </Stack>
+
+      {error && <Alert severity="error">{error}</Alert>}
+      {warnings.map((warning) => (
+        <Alert key={warning} severity="warning" sx={{ mb: 1 }}>
+          {warning}
+        </Alert>
+      ))}
+
+      {expectations && (
+        <Box position="relative">
+          <Box position="absolute" top={4} right={4}>
+            <CopyButton text={json} />
+          </Box>
+          <Box
+            component="pre"
+            sx={{
+              m: 0,
+              maxHeight: 400,
+              overflow: 'auto',
+              fontFamily: 'monospace',
+              fontSize: 12,
+              p: 1.5,
+              backgroundColor: 'action.hover',
+              borderRadius: 1,
+              border: '1px solid',
+              borderColor: 'divider',
+            }}
+          >
+            {json}
+          </Box>
+        </Box>
+      )}
+    </Paper>
+  );
+}
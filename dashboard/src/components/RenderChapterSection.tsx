@@ -101,6 +101,31 @@ export function RenderChapterSection({ suiteId, scenarioId, projectId, chapterId
     }
   };
 
+  // Retry failed render (nowy job z tymi samymi parametrami)
+  const handleRetryRender = async () => {
+    if (!renderJob) return;
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const result = await api.retryRender(renderJob.jobId);
+      setRenderJob({
+        jobId: result.jobId,
+        projectId,
+        chapterId,
+        status: 'pending',
+        progress: 0,
+        attempt: result.attempt,
+        startedAt: new Date().toISOString(),
+      });
+      startPolling(result.jobId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Nie udalo sie ponowic renderowania');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
   // Delete render
   const handleDeleteRender = async () => {
     if (!renderJob) return;
@@ -200,7 +225,7 @@ export function RenderChapterSection({ suiteId, scenarioId, projectId, chapterId
               <Typography variant="body2" color="text.secondary">
                 {renderJob.currentFrame !== undefined && renderJob.totalFrames
                   ? `Klatka ${renderJob.currentFrame} / ${renderJob.totalFrames}`
-                  : 'Przygotowywanie...'}
+                  : renderJob.status === 'pending' ? 'W kolejce...' : 'Przygotowywanie...'}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 {renderJob.progress.toFixed(1)}%
@@ -264,6 +289,15 @@ export function RenderChapterSection({ suiteId, scenarioId, projectId, chapterId
             />
           </Box>
 
+          {renderJob.output && (
+            <Typography variant="caption" color="text.secondary" component="div" sx={{ mb: 1 }}>
+              {renderJob.output.codec} {renderJob.output.width}x{renderJob.output.height}
+              {' '}@ {renderJob.output.fps.toFixed(2)} fps, {renderJob.output.frameCount} klatek,
+              {' '}{(renderJob.output.sizeBytes / 1024 / 1024).toFixed(1)} MB
+              {renderJob.renderDurationMs !== undefined && `, render ${(renderJob.renderDurationMs / 1000).toFixed(1)}s`}
+            </Typography>
+          )}
+
           <Stack direction="row" spacing={1}>
             <Button
               variant="outlined"
@@ -293,7 +327,7 @@ export function RenderChapterSection({ suiteId, scenarioId, projectId, chapterId
           <Button
             variant="outlined"
             startIcon={<RefreshIcon />}
-            onClick={handleStartRender}
+            onClick={handleRetryRender}
             disabled={isStarting}
           >
             Sprobuj ponownie
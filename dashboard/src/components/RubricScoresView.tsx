@@ -0,0 +1,94 @@
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Chip,
+  Stack,
+  LinearProgress,
+} from '@mui/material';
+import type { AssertionResult } from '../api/client';
+
+interface RubricScoresViewProps {
+  assertions: AssertionResult[];
+}
+
+function scoreColor(assertion: AssertionResult): 'success' | 'warning' | 'error' {
+  if (assertion.passed) return 'success';
+  return assertion.softCheck ? 'warning' : 'error';
+}
+
+/**
+ * Wyniki oceny rubryki (LLM-as-judge) - wynik per kryterium z uzasadnieniem
+ *
+ * Wyświetla tylko asercje z `score` (kryteria rubryki + wynik łączny).
+ */
+export function RubricScoresView({ assertions }: RubricScoresViewProps) {
+  const rubricAssertions = assertions.filter((a) => a.score !== undefined);
+  if (rubricAssertions.length === 0) return null;
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="h6" mb={2}>
+        Ocena rubryki
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Kryterium</TableCell>
+            <TableCell width={220}>Wynik</TableCell>
+            <TableCell width={80}>Próg</TableCell>
+            <TableCell>Uzasadnienie</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rubricAssertions.map((assertion, i) => (
+            <TableRow key={i} sx={assertion.criterionId ? undefined : { backgroundColor: 'action.hover' }}>
+              <TableCell>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  {assertion.turn && <Chip label={`Tura ${assertion.turn}`} size="small" variant="outlined" />}
+                  <Typography variant="body2" fontWeight={assertion.criterionId ? 400 : 600}>
+                    {assertion.criterionId || assertion.name}
+                  </Typography>
+                </Stack>
+                {assertion.message && !assertion.passed && (
+                  <Typography variant="caption" color="text.secondary">
+                    {assertion.message}
+                  </Typography>
+                )}
+              </TableCell>
+              <TableCell>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Box flex={1}>
+                    <LinearProgress
+                      variant="determinate"
+                      value={(assertion.score ?? 0) * 100}
+                      color={scoreColor(assertion)}
+                    />
+                  </Box>
+                  <Typography variant="body2" fontFamily="monospace">
+                    {(assertion.score ?? 0).toFixed(2)}
+                  </Typography>
+                </Stack>
+              </TableCell>
+              <TableCell>
+                <Typography variant="body2" fontFamily="monospace">
+                  {assertion.threshold?.toFixed(2) ?? '-'}
+                </Typography>
+              </TableCell>
+              <TableCell>
+                <Typography variant="body2" color="text.secondary">
+                  {assertion.reasoning || '-'}
+                </Typography>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+}
@@ -19,8 +19,10 @@ import {
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import CompareIcon from '@mui/icons-material/Compare';
 import CompositionVideoPreview from './CompositionVideoPreview';
-import type { CompositionTestFixture, CompositionRenderJobStatus } from '../../api/client';
+import GoldenFrameDiffViewer, { GoldenStatusChip } from './GoldenFrameDiffViewer';
+import type { CompositionTestFixture, CompositionRenderJobStatus, GoldenCheckResult } from '../../api/client';
 
 interface CompositionTestCardProps {
   definitionId: string;
@@ -29,9 +31,13 @@ interface CompositionTestCardProps {
   renderedFixtureIds: Set<string>;
   renderingJobs: Map<string, CompositionRenderJobStatus>;
   engine: 'remotion' | 'puppeteer';
+  goldenResults: Map<string, GoldenCheckResult>;
+  goldenChecking: boolean;
   onRenderFixture: (fixtureId: string) => void;
   onRenderAll: (definitionId: string) => void;
   onDeleteRender: (fixtureId: string) => void;
+  onGoldenCheckAll: (definitionId: string) => void;
+  onGoldenResult: (result: GoldenCheckResult) => void;
 }
 
 export default function CompositionTestCard({
@@ -41,11 +47,28 @@ export default function CompositionTestCard({
   renderedFixtureIds,
   renderingJobs,
   engine,
+  goldenResults,
+  goldenChecking,
   onRenderFixture,
   onRenderAll,
   onDeleteRender,
+  onGoldenCheckAll,
+  onGoldenResult,
 }: CompositionTestCardProps) {
   const [expanded, setExpanded] = useState(true);
+  const [goldenOpen, setGoldenOpen] = useState<Set<string>>(new Set());
+
+  const toggleGolden = useCallback((fixtureId: string) => {
+    setGoldenOpen(prev => {
+      const next = new Set(prev);
+      if (next.has(fixtureId)) {
+        next.delete(fixtureId);
+      } else {
+        next.add(fixtureId);
+      }
+      return next;
+    });
+  }, []);
 
   const isAnyRendering = fixtures.some(f => {
     const job = renderingJobs.get(f.id);
@@ -53,6 +76,7 @@ export default function CompositionTestCard({
   });
 
   const renderedCount = fixtures.filter(f => renderedFixtureIds.has(f.id)).length;
+  const regressionCount = fixtures.filter(f => goldenResults.get(f.id)?.status === 'failed').length;
 
   return (
     <Card sx={{ mb: 2 }}>
@@ -74,8 +98,25 @@ export default function CompositionTestCard({
                 variant="outlined"
               />
             )}
+            {regressionCount > 0 && (
+              <Chip
+                label={`${regressionCount} regresji`}
+                size="small"
+                color="error"
+                variant="outlined"
+              />
+            )}
           </Stack>
           <Stack direction="row" spacing={1} alignItems="center">
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<CompareIcon />}
+              onClick={() => onGoldenCheckAll(definitionId)}
+              disabled={goldenChecking || renderedCount === 0}
+            >
+              Porównaj z baseline
+            </Button>
             <Button
               variant="contained"
               size="small"
@@ -97,6 +138,7 @@ export default function CompositionTestCard({
               const job = renderingJobs.get(fixture.id);
               const isRendered = renderedFixtureIds.has(fixture.id);
               const isRendering = job && (job.status === 'pending' || job.status === 'rendering' || job.status === 'encoding');
+              const goldenResult = goldenResults.get(fixture.id);
 
               return (
                 <Box
@@ -116,6 +158,7 @@ export default function CompositionTestCard({
                       {fixture.tags.map(tag => (
                         <Chip key={tag} label={tag} size="small" sx={{ height: 20, fontSize: 11 }} />
                       ))}
+                      {goldenResult && <GoldenStatusChip status={goldenResult.status} />}
                     </Stack>
                     {!isRendered && !isRendering && (
                       <Button
@@ -126,6 +169,11 @@ export default function CompositionTestCard({
                         Renderuj
                       </Button>
                     )}
+                    {isRendered && (
+                      <Button size="small" onClick={() => toggleGolden(fixture.id)}>
+                        {goldenOpen.has(fixture.id) ? 'Ukryj klatki' : 'Golden frames'}
+                      </Button>
+                    )}
                   </Stack>
 
                   <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
@@ -164,6 +212,15 @@ export default function CompositionTestCard({
                       onDelete={onDeleteRender}
                     />
                   )}
+
+                  {isRendered && goldenOpen.has(fixture.id) && (
+                    <GoldenFrameDiffViewer
+                      fixtureId={fixture.id}
+                      engine={engine}
+                      result={goldenResult}
+                      onResult={onGoldenResult}
+                    />
+                  )}
                 </Box>
               );
             })}
@@ -0,0 +1,187 @@
+/**
+ * Porównanie klatek kluczowych renderu z zatwierdzonym baseline (golden frames)
+ */
+
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Stack,
+  Chip,
+  Alert,
+  CircularProgress,
+  ToggleButtonGroup,
+  ToggleButton,
+} from '@mui/material';
+import CompareIcon from '@mui/icons-material/Compare';
+import CheckIcon from '@mui/icons-material/Check';
+import {
+  api,
+  type GoldenCheckResult,
+  type GoldenFrameComparison,
+  type GoldenFrameKind,
+} from '../../api/client';
+
+interface GoldenFrameDiffViewerProps {
+  fixtureId: string;
+  engine: 'remotion' | 'puppeteer';
+  result?: GoldenCheckResult;
+  onResult: (result: GoldenCheckResult) => void;
+}
+
+const STATUS_COLORS: Record<GoldenFrameComparison['status'] | GoldenCheckResult['status'], 'success' | 'error' | 'warning'> = {
+  passed: 'success',
+  failed: 'error',
+  'missing-baseline': 'warning',
+  'size-mismatch': 'error',
+};
+
+const STATUS_LABELS: Record<GoldenFrameComparison['status'] | GoldenCheckResult['status'], string> = {
+  passed: 'OK',
+  failed: 'Regresja',
+  'missing-baseline': 'Brak baseline',
+  'size-mismatch': 'Inny rozmiar',
+};
+
+const KIND_LABELS: Record<GoldenFrameKind, string> = {
+  baseline: 'Baseline',
+  actual: 'Aktualna',
+  diff: 'Różnice',
+};
+
+export function GoldenStatusChip({ status }: { status: GoldenCheckResult['status'] }) {
+  return <Chip label={STATUS_LABELS[status]} size="small" color={STATUS_COLORS[status]} variant="outlined" />;
+}
+
+function FrameImage({ src, label }: { src: string; label: string }) {
+  return (
+    <Box sx={{ flex: 1, minWidth: 0 }}>
+      <Typography variant="caption" color="text.secondary">{label}</Typography>
+      <Box
+        component="img"
+        src={src}
+        alt={label}
+        sx={{ width: '100%', display: 'block', borderRadius: 0.5, border: '1px solid', borderColor: 'divider', bgcolor: 'black' }}
+      />
+    </Box>
+  );
+}
+
+export default function GoldenFrameDiffViewer({ fixtureId, engine, result, onResult }: GoldenFrameDiffViewerProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Tryb podglądu: trzy klatki obok siebie albo sam obraz różnic
+  const [view, setView] = useState<'side-by-side' | 'diff'>('side-by-side');
+
+  const run = async (action: () => Promise<GoldenCheckResult>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onResult(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd porównania klatek');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const frameUrl = (frame: number, kind: GoldenFrameKind) =>
+    api.getGoldenFrameUrl(fixtureId, frame, kind, engine, result?.checkedAt);
+
+  return (
+    <Box sx={{ mt: 1 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">Golden frames</Typography>
+        {result && <GoldenStatusChip status={result.status} />}
+        {result && (
+          <Typography variant="caption" color="text.secondary">
+            SSIM &ge; {result.thresholds.minSsim}, zmienione piksele &le; {(result.thresholds.maxPixelDeltaRatio * 100).toFixed(2)}%
+          </Typography>
+        )}
+        <Box flex={1} />
+        <ToggleButtonGroup value={view} exclusive onChange={(_, v) => v && setView(v)} size="small">
+          <ToggleButton value="side-by-side">Obok siebie</ToggleButton>
+          <ToggleButton value="diff">Różnice</ToggleButton>
+        </ToggleButtonGroup>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={busy ? <CircularProgress size={14} /> : <CompareIcon />}
+          onClick={() => run(() => api.checkGoldenFrames(fixtureId, engine))}
+          disabled={busy}
+        >
+          Porównaj
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          color="warning"
+          startIcon={<CheckIcon />}
+          onClick={() => run(() => api.approveGoldenBaseline(fixtureId, engine))}
+          disabled={busy || !result || result.status === 'passed'}
+        >
+          Zatwierdź wszystkie
+        </Button>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 1 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!result && (
+        <Typography variant="body2" color="text.secondary">
+          Brak porównania dla tego renderu
+        </Typography>
+      )}
+
+      {result?.frames.map((frame) => (
+        <Box key={frame.frame} sx={{ p: 1, mb: 1, borderRadius: 1, border: '1px solid', borderColor: 'divider' }}>
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+            <Typography variant="body2" fontWeight={600}>
+              {frame.label} (klatka {frame.frame})
+            </Typography>
+            <Chip label={STATUS_LABELS[frame.status]} size="small" color={STATUS_COLORS[frame.status]} variant="outlined" />
+            {frame.ssim !== undefined && (
+              <Chip label={`SSIM ${frame.ssim.toFixed(4)}`} size="small" variant="outlined" />
+            )}
+            {frame.pixelDeltaRatio !== undefined && (
+              <Chip label={`Δ ${(frame.pixelDeltaRatio * 100).toFixed(2)}%`} size="small" variant="outlined" />
+            )}
+            {frame.maxChannelDelta !== undefined && (
+              <Chip label={`max ${frame.maxChannelDelta}`} size="small" variant="outlined" />
+            )}
+            <Box flex={1} />
+            {frame.status !== 'passed' && (
+              <Button
+                size="small"
+                color="warning"
+                onClick={() => run(() => api.approveGoldenBaseline(fixtureId, engine, [frame.frame]))}
+                disabled={busy}
+              >
+                Zatwierdź
+              </Button>
+            )}
+          </Stack>
+
+          {view === 'side-by-side' ? (
+            <Stack direction="row" spacing={1}>
+              {frame.status !== 'missing-baseline' && <FrameImage src={frameUrl(frame.frame, 'baseline')} label={KIND_LABELS.baseline} />}
+              <FrameImage src={frameUrl(frame.frame, 'actual')} label={KIND_LABELS.actual} />
+              {frame.hasDiff && <FrameImage src={frameUrl(frame.frame, 'diff')} label={KIND_LABELS.diff} />}
+            </Stack>
+          ) : (
+            <Box sx={{ maxWidth: 480 }}>
+              <FrameImage
+                src={frameUrl(frame.frame, frame.hasDiff ? 'diff' : 'actual')}
+                label={frame.hasDiff ? KIND_LABELS.diff : KIND_LABELS.actual}
+              />
+            </Box>
+          )}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -11,15 +11,19 @@ import {
   Alert,
   Chip,
   Stack,
+  Checkbox,
 } from '@mui/material';
 import { api, FixtureBlock } from '../../api/client';
 import { CopyButton } from './CopyButton';
 
 interface BlocksTableProps {
   timelineId: string;
+  /** Tryb wyboru (edytor scenariuszy) - kolumna z checkboxami */
+  selectedIds?: string[];
+  onToggleSelect?: (blockId: string) => void;
 }
 
-export function BlocksTable({ timelineId }: BlocksTableProps) {
+export function BlocksTable({ timelineId, selectedIds, onToggleSelect }: BlocksTableProps) {
   const [blocks, setBlocks] = useState<FixtureBlock[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -49,6 +53,7 @@ export function BlocksTable({ timelineId }: BlocksTableProps) {
       <Table size="small">
         <TableHead>
           <TableRow>
+            {onToggleSelect && <TableCell padding="checkbox" />}
             <TableCell>ID</TableCell>
             <TableCell>Typ</TableCell>
             <TableCell>Offset (frames)</TableCell>
@@ -60,6 +65,15 @@ export function BlocksTable({ timelineId }: BlocksTableProps) {
         <TableBody>
           {blocks.map((block) => (
             <TableRow key={block.id} hover>
+              {onToggleSelect && (
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={selectedIds?.includes(block.id) ?? false}
+                    onChange={() => onToggleSelect(block.id)}
+                  />
+                </TableCell>
+              )}
               <TableCell>
                 <Stack direction="row" alignItems="center" spacing={0.5}>
                   <Typography variant="caption" fontFamily="monospace">
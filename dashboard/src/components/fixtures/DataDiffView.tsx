@@ -23,9 +23,12 @@ import {
   Delete as DeleteIcon,
   KeyboardArrowDown,
   KeyboardArrowRight,
+  Tune as TuneIcon,
 } from '@mui/icons-material';
-import { DataDiff } from '../../api/client';
+import { DataDiff, EntityDiff } from '../../api/client';
 import { DiffBlocksTable } from './DiffBlocksTable';
+import { DiffEntitiesTable, DiffEntityColumn } from './DiffEntitiesTable';
+import { DiffSettingsTable } from './DiffSettingsTable';
 import { CopyButton } from './CopyButton';
 
 interface DataDiffViewProps {
@@ -436,6 +439,121 @@ function DiffMediaAssetsTable({ assets, changeType }: DiffMediaAssetsTableProps)
   );
 }
 
+// ============================================================================
+// Pozostałe encje (chaptery, enrichment, osoby, kompozycje)
+// ============================================================================
+
+interface EntitySection {
+  /** Liczba mnoga w dopełniaczu/mianowniku, np. 'chaptery' */
+  label: string;
+  diff?: EntityDiff;
+  columns: DiffEntityColumn[];
+}
+
+function buildEntitySections(dataDiff: DataDiff): EntitySection[] {
+  return [
+    {
+      label: 'chaptery',
+      diff: dataDiff.chapters,
+      columns: [
+        { label: 'Tytul', field: 'title' },
+        { label: 'Order Index', field: 'orderIndex' },
+        { label: 'Dlugosc (kl.)', field: 'durationInFrames' },
+      ],
+    },
+    {
+      label: 'focus pointy',
+      diff: dataDiff.enrichment?.focusPoints,
+      columns: [
+        { label: 'Klatka', field: 'fileRelativeFrame' },
+        { label: 'Opis', field: 'description' },
+      ],
+    },
+    {
+      label: 'segmenty transkrypcji',
+      diff: dataDiff.enrichment?.transcriptionSegments,
+      columns: [
+        { label: 'Start', field: 'fileRelativeStartFrame' },
+        { label: 'Koniec', field: 'fileRelativeEndFrame' },
+        { label: 'Tekst', field: 'text' },
+        { label: 'Osoba', field: 'personId' },
+      ],
+    },
+    {
+      label: 'twarze',
+      diff: dataDiff.enrichment?.faces,
+      columns: [
+        { label: 'Osoba', field: 'personId' },
+        { label: 'Start', field: 'fileRelativeStartFrame' },
+        { label: 'Koniec', field: 'fileRelativeEndFrame' },
+      ],
+    },
+    {
+      label: 'sceny',
+      diff: dataDiff.enrichment?.scenes,
+      columns: [
+        { label: 'Start', field: 'fileRelativeStartFrame' },
+        { label: 'Koniec', field: 'fileRelativeEndFrame' },
+        { label: 'Order Index', field: 'orderIndex' },
+      ],
+    },
+    {
+      label: 'osoby',
+      diff: dataDiff.persons,
+      columns: [{ label: 'Nazwa', field: 'name' }],
+    },
+    {
+      label: 'kompozycje dynamiczne',
+      diff: dataDiff.dynamicCompositions,
+      columns: [
+        { label: 'Nazwa', field: 'name' },
+        { label: 'Status', field: 'compilationStatus' },
+        { label: 'Wersja', field: 'version' },
+      ],
+    },
+  ];
+}
+
+function countChanges(diff?: EntityDiff): number {
+  return diff ? diff.added.length + diff.modified.length + diff.deleted.length : 0;
+}
+
+function EntityDiffAccordions({ section }: { section: EntitySection }) {
+  const { label, diff, columns } = section;
+  if (!diff) return null;
+
+  return (
+    <>
+      <DiffAccordion
+        title={`Dodane ${label}`}
+        count={diff.added.length}
+        color="success"
+        icon={<AddIcon fontSize="small" color="success" />}
+      >
+        <DiffEntitiesTable items={diff.added} changeType="added" columns={columns} emptyLabel={`Brak: ${label}`} />
+      </DiffAccordion>
+
+      <DiffAccordion
+        title={`Zmodyfikowane ${label}`}
+        count={diff.modified.length}
+        color="warning"
+        icon={<EditIcon fontSize="small" color="warning" />}
+      >
+        <DiffEntitiesTable items={diff.modified} changeType="modified" columns={columns} emptyLabel={`Brak: ${label}`} />
+      </DiffAccordion>
+
+      <DiffAccordion
+        title={`Usuniete ${label}`}
+        count={diff.deleted.length}
+        color="error"
+        icon={<DeleteIcon fontSize="small" color="error" />}
+      >
+        <DiffEntitiesTable items={diff.deleted} changeType="deleted" columns={columns} emptyLabel={`Brak: ${label}`} />
+      </DiffAccordion>
+    </>
+  );
+}
+
 // ============================================================================
 // DataDiffView - Main Component
 // ============================================================================
@@ -499,10 +617,17 @@ export function DataDiffView({ dataDiff }: DataDiffViewProps) {
   const hasMediaAssetsModified = dataDiff.mediaAssets.modified.length > 0;
   const hasMediaAssetsDeleted = dataDiff.mediaAssets.deleted.length > 0;
 
+  const entitySections = buildEntitySections(dataDiff);
+  const settingsChangeCount = dataDiff.settings
+    ? Object.values(dataDiff.settings).reduce((sum, changes) => sum + changes.length, 0)
+    : 0;
+
   const hasAnyChanges =
     hasBlocksAdded || hasBlocksModified || hasBlocksDeleted ||
     hasTimelinesAdded || hasTimelinesModified || hasTimelinesDeleted ||
-    hasMediaAssetsAdded || hasMediaAssetsModified || hasMediaAssetsDeleted;
+    hasMediaAssetsAdded || hasMediaAssetsModified || hasMediaAssetsDeleted ||
+    settingsChangeCount > 0 ||
+    entitySections.some((section) => countChanges(section.diff) > 0);
 
   if (!hasAnyChanges) {
     return (
@@ -603,6 +728,21 @@ export function DataDiffView({ dataDiff }: DataDiffViewProps) {
       >
         <DiffMediaAssetsTable assets={dataDiff.mediaAssets.deleted} changeType="deleted" />
       </DiffAccordion>
+
+      {/* Ustawienia */}
+      <DiffAccordion
+        title="Zmienione ustawienia"
+        count={settingsChangeCount}
+        color="warning"
+        icon={<TuneIcon fontSize="small" color="warning" />}
+      >
+        {dataDiff.settings && <DiffSettingsTable settings={dataDiff.settings} />}
+      </DiffAccordion>
+
+      {/* Chaptery, enrichment, osoby, kompozycje */}
+      {entitySections.map((section) => (
+        <EntityDiffAccordions key={section.label} section={section} />
+      ))}
     </Box>
   );
 }
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import {
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Stack,
+  IconButton,
+  Collapse,
+  Box,
+} from '@mui/material';
+import { KeyboardArrowDown, KeyboardArrowRight } from '@mui/icons-material';
+import { CopyButton } from './CopyButton';
+
+type ChangeType = 'added' | 'modified' | 'deleted';
+
+interface DiffEntityItem {
+  id: string;
+  data?: Record<string, unknown>;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/** Kolumna tabeli - pole encji wyświetlane w wierszu */
+export interface DiffEntityColumn {
+  label: string;
+  field: string;
+}
+
+interface DiffEntitiesTableProps {
+  items: DiffEntityItem[];
+  changeType: ChangeType;
+  columns: DiffEntityColumn[];
+  emptyLabel: string;
+}
+
+const ROW_COLORS: Record<ChangeType, string> = {
+  added: 'rgba(46, 125, 50, 0.08)',
+  modified: 'rgba(237, 108, 2, 0.08)',
+  deleted: 'rgba(211, 47, 47, 0.08)',
+};
+
+const TEXT_COLORS: Record<ChangeType, string> = {
+  added: 'success.main',
+  modified: 'warning.main',
+  deleted: 'error.main',
+};
+
+const jsonBoxSx = {
+  m: 0,
+  mt: 0.5,
+  fontSize: 11,
+  fontFamily: 'monospace',
+  bgcolor: 'rgba(0,0,0,0.2)',
+  p: 1,
+  borderRadius: 1,
+  overflow: 'auto',
+  maxHeight: 200,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+};
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+function JsonBox({ label, value }: { label: string; value: unknown }) {
+  return (
+    <Box sx={{ flex: 1, minWidth: 0 }}>
+      <Typography variant="caption" color="text.secondary" fontWeight="bold">
+        {label}
+      </Typography>
+      <Box component="pre" sx={jsonBoxSx}>
+        {JSON.stringify(value, null, 2)}
+      </Box>
+    </Box>
+  );
+}
+
+function EntityRow({
+  item,
+  changeType,
+  columns,
+}: {
+  item: DiffEntityItem;
+  changeType: ChangeType;
+  columns: DiffEntityColumn[];
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const source = changeType === 'modified' ? item.after ?? item.before : item.data;
+
+  return (
+    <>
+      <TableRow
+        hover
+        sx={{
+          bgcolor: ROW_COLORS[changeType],
+          '& > *': { borderBottom: expanded ? 0 : undefined }
+        }}
+      >
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <KeyboardArrowDown fontSize="small" /> : <KeyboardArrowRight fontSize="small" />}
+          </IconButton>
+        </TableCell>
+        <TableCell>
+          <Stack direction="row" alignItems="center" spacing={0.5}>
+            <Typography variant="caption" fontFamily="monospace" color={TEXT_COLORS[changeType]}>
+              {item.id.slice(0, 8)}...
+            </Typography>
+            <CopyButton text={item.id} />
+          </Stack>
+        </TableCell>
+        {columns.map((column) => (
+          <TableCell key={column.field}>{formatCell(source?.[column.field])}</TableCell>
+        ))}
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={columns.length + 2} sx={{ py: 0, bgcolor: ROW_COLORS[changeType] }}>
+          <Collapse in={expanded} timeout="auto" unmountOnExit>
+            <Box sx={{ py: 2, px: 1, overflow: 'hidden' }}>
+              {changeType === 'modified' ? (
+                <Stack direction="row" spacing={2} sx={{ width: '100%' }}>
+                  <JsonBox label="Przed:" value={item.before} />
+                  <JsonBox label="Po:" value={item.after} />
+                </Stack>
+              ) : (
+                <JsonBox label="Szczegoly:" value={item.data} />
+              )}
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+/**
+ * Tabela zmian encji bez dedykowanego widoku (chaptery, enrichment, osoby, kompozycje)
+ */
+export function DiffEntitiesTable({ items, changeType, columns, emptyLabel }: DiffEntitiesTableProps) {
+  if (items.length === 0) {
+    return (
+      <Typography color="text.secondary" variant="body2">
+        {emptyLabel}
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox" />
+            <TableCell>ID</TableCell>
+            {columns.map((column) => (
+              <TableCell key={column.field}>{column.label}</TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((item) => (
+            <EntityRow key={item.id} item={item} changeType={changeType} columns={columns} />
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
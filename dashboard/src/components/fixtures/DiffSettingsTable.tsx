@@ -0,0 +1,90 @@
+import {
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Stack,
+} from '@mui/material';
+import { SettingChange, SettingsDiff } from '../../api/client';
+import { CopyButton } from './CopyButton';
+
+const SCOPE_LABELS: Record<keyof SettingsDiff, string> = {
+  project: 'Projekt',
+  chapter: 'Chapter',
+  timeline: 'Timeline',
+  block: 'Blok',
+};
+
+const CHANGE_COLORS: Record<SettingChange['change'], 'success' | 'warning' | 'error'> = {
+  added: 'success',
+  modified: 'warning',
+  deleted: 'error',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '-';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Zmiany ustawień na poziomie kluczy (project / chapter / timeline / block settings)
+ */
+export function DiffSettingsTable({ settings }: { settings: SettingsDiff }) {
+  const rows = (Object.keys(SCOPE_LABELS) as Array<keyof SettingsDiff>).flatMap((scope) =>
+    (settings[scope] ?? []).map((change) => ({ scope, ...change }))
+  );
+
+  if (rows.length === 0) {
+    return (
+      <Typography color="text.secondary" variant="body2">
+        Brak zmian ustawien
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Zakres</TableCell>
+            <TableCell>Wlasciciel</TableCell>
+            <TableCell>Klucz</TableCell>
+            <TableCell>Zmiana</TableCell>
+            <TableCell>Przed</TableCell>
+            <TableCell>Po</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={`${row.scope}-${row.ownerId}-${row.key}`} hover>
+              <TableCell>{SCOPE_LABELS[row.scope]}</TableCell>
+              <TableCell>
+                <Stack direction="row" alignItems="center" spacing={0.5}>
+                  <Typography variant="caption" fontFamily="monospace">
+                    {row.ownerId.slice(0, 8)}...
+                  </Typography>
+                  <CopyButton text={row.ownerId} />
+                </Stack>
+              </TableCell>
+              <TableCell>
+                <Typography variant="body2" fontFamily="monospace">
+                  {row.key}
+                </Typography>
+              </TableCell>
+              <TableCell>
+                <Chip label={row.change} size="small" color={CHANGE_COLORS[row.change]} variant="outlined" />
+              </TableCell>
+              <TableCell sx={{ fontFamily: 'monospace', fontSize: 12 }}>{formatValue(row.before)}</TableCell>
+              <TableCell sx={{ fontFamily: 'monospace', fontSize: 12 }}>{formatValue(row.after)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
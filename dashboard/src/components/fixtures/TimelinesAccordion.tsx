@@ -17,9 +17,12 @@ import { BlocksTable } from './BlocksTable';
 
 interface TimelinesAccordionProps {
   chapterId: string;
+  /** Wybór bloków - przekazywany do BlocksTable */
+  selectedBlockIds?: string[];
+  onToggleBlock?: (blockId: string) => void;
 }
 
-export function TimelinesAccordion({ chapterId }: TimelinesAccordionProps) {
+export function TimelinesAccordion({ chapterId, selectedBlockIds, onToggleBlock }: TimelinesAccordionProps) {
   const [timelines, setTimelines] = useState<FixtureTimeline[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -64,7 +67,7 @@ export function TimelinesAccordion({ chapterId }: TimelinesAccordionProps) {
             </Stack>
           </AccordionSummary>
           <AccordionDetails>
-            <BlocksTable timelineId={timeline.id} />
+            <BlocksTable timelineId={timeline.id} selectedIds={selectedBlockIds} onToggleSelect={onToggleBlock} />
           </AccordionDetails>
         </Accordion>
       ))}
@@ -4,6 +4,8 @@ export { BlocksTable, StaticBlocksTable } from './BlocksTable';
 export { TimelinesAccordion } from './TimelinesAccordion';
 export { MediaAssetsSection } from './MediaAssetsSection';
 export { DiffBlocksTable } from './DiffBlocksTable';
+export { DiffEntitiesTable } from './DiffEntitiesTable';
+export { DiffSettingsTable } from './DiffSettingsTable';
 export { DataDiffView } from './DataDiffView';
 export { LanceDbSection } from './LanceDbSection';
 export { LanceDbTableAccordion } from './LanceDbTableAccordion';
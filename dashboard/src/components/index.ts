@@ -4,3 +4,7 @@ export { ToolsListView } from './ToolsListView';
 export { ToolCallsDetailView } from './ToolCallsDetailView';
 export { ScenarioFixturesSection } from './ScenarioFixturesSection';
 export { RenderChapterSection } from './RenderChapterSection';
+export { RubricScoresView } from './RubricScoresView';
+export { FlakinessBadge } from './FlakinessBadge';
+export { ConfigDiffView } from './ConfigDiffView';
+export { GeneratedExpectationsSection } from './GeneratedExpectationsSection';
@@ -5,6 +5,7 @@ import {
   Paper,
   Select,
   Stack,
+  TextField,
   Typography,
 } from '@mui/material';
 import { AgentType, ModelType, ThinkingMode } from '../../pages/prepareTestsTypes';
@@ -13,18 +14,26 @@ export interface TestConfigSectionProps {
   agent: AgentType;
   model: ModelType;
   thinkingMode: ThinkingMode;
+  repetitions: number;
+  concurrency: number;
   onAgentChange: (agent: AgentType) => void;
   onModelChange: (model: ModelType) => void;
   onThinkingModeChange: (mode: ThinkingMode) => void;
+  onRepetitionsChange: (repetitions: number) => void;
+  onConcurrencyChange: (concurrency: number) => void;
 }
 
 export function TestConfigSection({
   agent,
   model,
   thinkingMode,
+  repetitions,
+  concurrency,
   onAgentChange,
   onModelChange,
   onThinkingModeChange,
+  onRepetitionsChange,
+  onConcurrencyChange,
 }: TestConfigSectionProps) {
   return (
     <Paper sx={{ p: 3 }}>
@@ -70,6 +79,26 @@ export function TestConfigSection({
             <MenuItem value="ultrathink">ultrathink (64k)</MenuItem>
           </Select>
         </FormControl>
+
+        <TextField
+          type="number"
+          label="Powtórzenia"
+          value={repetitions}
+          onChange={(e) => onRepetitionsChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          inputProps={{ min: 1, max: 20 }}
+          helperText="Pass rate / pass@k przy > 1"
+          sx={{ width: 160 }}
+        />
+
+        <TextField
+          type="number"
+          label="Równolegle"
+          value={concurrency}
+          onChange={(e) => onConcurrencyChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          inputProps={{ min: 1, max: 8 }}
+          helperText="Maks. prób naraz"
+          sx={{ width: 160 }}
+        />
       </Stack>
     </Paper>
   );
@@ -0,0 +1,105 @@
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import type { FixtureBlock } from '../../api/client';
+import { MatchConditionEditor } from './MatchConditionEditor';
+import { BLOCK_FIELDS, BlockConditionDraft } from './conditions';
+
+interface BlockConditionsEditorProps {
+  /** modified - blok wskazany po ID + warunki zmian; added - tylko warunki `match` */
+  mode: 'modified' | 'added';
+  drafts: BlockConditionDraft[];
+  onChange: (drafts: BlockConditionDraft[]) => void;
+  /** Bloki chaptera z fixtures (wybór `match.id`) */
+  blocks: FixtureBlock[];
+}
+
+function blockLabel(block: FixtureBlock): string {
+  return `${block.blockType} @ ${block.timelineOffsetInFrames} (${block.id.slice(0, 8)}...)`;
+}
+
+export function BlockConditionsEditor({ mode, drafts, onChange, blocks }: BlockConditionsEditorProps) {
+  const updateDraft = (index: number, patch: Partial<BlockConditionDraft>) => {
+    onChange(drafts.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)));
+  };
+
+  const addDraft = () => {
+    onChange([...drafts, { alias: '', blockId: '', matchRows: [], changeRows: [] }]);
+  };
+
+  return (
+    <Box>
+      {drafts.map((draft, index) => (
+        <Paper key={index} variant="outlined" sx={{ p: 2, mb: 1 }}>
+          <Stack direction="row" spacing={1} alignItems="center" mb={2}>
+            {mode === 'modified' && (
+              <TextField
+                select
+                size="small"
+                label="Blok"
+                value={draft.blockId}
+                onChange={(e) => updateDraft(index, { blockId: e.target.value })}
+                sx={{ minWidth: 320 }}
+              >
+                {/* Blok spoza fixtures (np. z wczytanego wyniku) nadal musi byc wybieralny */}
+                {draft.blockId && !blocks.some((b) => b.id === draft.blockId) && (
+                  <MenuItem value={draft.blockId}>{draft.blockId}</MenuItem>
+                )}
+                {blocks.map((block) => (
+                  <MenuItem key={block.id} value={block.id}>
+                    {blockLabel(block)}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+            <TextField
+              size="small"
+              label="Alias (as)"
+              value={draft.alias}
+              onChange={(e) => updateDraft(index, { alias: e.target.value })}
+              sx={{ width: 160 }}
+            />
+            <Box flex={1} />
+            <IconButton size="small" onClick={() => onChange(drafts.filter((_, i) => i !== index))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Stack>
+
+          <Typography variant="caption" color="text.secondary" display="block" mb={1}>
+            {mode === 'modified' ? 'Dodatkowe warunki match (stan przed zmiana)' : 'Warunki match'}
+          </Typography>
+          <MatchConditionEditor
+            rows={draft.matchRows}
+            onChange={(matchRows) => updateDraft(index, { matchRows })}
+            fieldOptions={BLOCK_FIELDS}
+          />
+
+          {mode === 'modified' && (
+            <>
+              <Typography variant="caption" color="text.secondary" display="block" mt={2} mb={1}>
+                Zmiany (stan po)
+              </Typography>
+              <MatchConditionEditor
+                rows={draft.changeRows}
+                onChange={(changeRows) => updateDraft(index, { changeRows })}
+                fieldOptions={BLOCK_FIELDS}
+                emptyLabel="Brak warunkow zmian"
+              />
+            </>
+          )}
+        </Paper>
+      ))}
+      <Button size="small" variant="outlined" startIcon={<AddIcon />} onClick={addDraft}>
+        {mode === 'modified' ? 'Dodaj zmodyfikowany blok' : 'Dodaj nowy blok'}
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,89 @@
+import { useId } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { CONDITION_OPERATORS, ConditionOperator, ConditionRow } from './conditions';
+
+interface MatchConditionEditorProps {
+  rows: ConditionRow[];
+  onChange: (rows: ConditionRow[]) => void;
+  /** Podpowiedzi nazw pól (np. pola bloku) */
+  fieldOptions?: string[];
+  emptyLabel?: string;
+}
+
+export function MatchConditionEditor({ rows, onChange, fieldOptions, emptyLabel }: MatchConditionEditorProps) {
+  const updateRow = (index: number, patch: Partial<ConditionRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const datalistId = useId();
+  const listId = fieldOptions ? datalistId : undefined;
+
+  return (
+    <Box>
+      {rows.length === 0 && (
+        <Typography variant="body2" color="text.secondary" mb={1}>
+          {emptyLabel ?? 'Brak warunkow'}
+        </Typography>
+      )}
+      {listId && (
+        <datalist id={listId}>
+          {fieldOptions!.map((field) => (
+            <option key={field} value={field} />
+          ))}
+        </datalist>
+      )}
+      {rows.map((row, index) => (
+        <Stack key={index} direction="row" spacing={1} alignItems="center" mb={1}>
+          <TextField
+            size="small"
+            label="Pole"
+            value={row.field}
+            onChange={(e) => updateRow(index, { field: e.target.value })}
+            inputProps={{ list: listId }}
+            sx={{ width: 200 }}
+          />
+          <Select
+            size="small"
+            value={row.operator}
+            onChange={(e) => updateRow(index, { operator: e.target.value as ConditionOperator })}
+            sx={{ width: 120 }}
+          >
+            {CONDITION_OPERATORS.map((operator) => (
+              <MenuItem key={operator} value={operator}>
+                {operator}
+              </MenuItem>
+            ))}
+          </Select>
+          <TextField
+            size="small"
+            label="Wartosc"
+            placeholder={row.operator === 'within' ? '120±5' : '=before.durationInFrames - 10'}
+            value={row.value}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <IconButton size="small" onClick={() => onChange(rows.filter((_, i) => i !== index))}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Stack>
+      ))}
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        onClick={() => onChange([...rows, { field: '', operator: 'equals', value: '' }])}
+      >
+        Dodaj warunek
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,55 @@
+import { MenuItem, Stack, TextField } from '@mui/material';
+
+type ToleranceKind = 'exact' | 'frames' | 'percent';
+
+/** Spec tolerancji dla API: `exact`, `<N>f`, `<N>%` */
+function parseSpec(spec: string): { kind: ToleranceKind; amount: string } {
+  if (spec.endsWith('f')) return { kind: 'frames', amount: spec.slice(0, -1) };
+  if (spec.endsWith('%')) return { kind: 'percent', amount: spec.slice(0, -1) };
+  return { kind: 'exact', amount: '' };
+}
+
+function toSpec(kind: ToleranceKind, amount: string): string {
+  if (kind === 'exact') return 'exact';
+  return `${amount || (kind === 'frames' ? '5' : '10')}${kind === 'frames' ? 'f' : '%'}`;
+}
+
+interface ToleranceSelectProps {
+  value: string;
+  onChange: (spec: string) => void;
+}
+
+/**
+ * Tolerancja pól klatkowych generowanych oczekiwań (exact, ± N klatek, ± N%)
+ */
+export function ToleranceSelect({ value, onChange }: ToleranceSelectProps) {
+  const { kind, amount } = parseSpec(value);
+
+  return (
+    <Stack direction="row" spacing={1}>
+      <TextField
+        select
+        size="small"
+        label="Tolerancja"
+        value={kind}
+        onChange={(e) => onChange(toSpec(e.target.value as ToleranceKind, ''))}
+        sx={{ width: 150 }}
+      >
+        <MenuItem value="exact">Dokladnie</MenuItem>
+        <MenuItem value="frames">± klatek</MenuItem>
+        <MenuItem value="percent">± %</MenuItem>
+      </TextField>
+      {kind !== 'exact' && (
+        <TextField
+          size="small"
+          type="number"
+          label={kind === 'frames' ? 'Klatki' : '%'}
+          value={amount}
+          onChange={(e) => onChange(toSpec(kind, e.target.value))}
+          inputProps={{ min: 0 }}
+          sx={{ width: 90 }}
+        />
+      )}
+    </Stack>
+  );
+}
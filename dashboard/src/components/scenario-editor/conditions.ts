@@ -0,0 +1,192 @@
+import type { BlockMatchCondition, ConditionExpression, MatchCondition } from '../../api/client';
+
+/**
+ * Edycja MatchCondition jako wierszy (pole, operator, wartość tekstowa)
+ *
+ * Format wartości:
+ * - `=wyrażenie` - ConditionExpression (`{ expr }`), np. `=before.durationInFrames - 10`
+ * - liczby i true/false są parsowane, pozostałe wartości zostają stringami
+ * - oneOf: wartości po przecinku
+ * - within: `wartość±tolerancja` (albo `wartość+-tolerancja`), np. `=second.duration±50`
+ */
+
+export const CONDITION_OPERATORS = [
+  'equals',
+  'gte',
+  'lte',
+  'gt',
+  'lt',
+  'contains',
+  'matches',
+  'oneOf',
+  'within',
+  'expr',
+] as const;
+
+export type ConditionOperator = (typeof CONDITION_OPERATORS)[number];
+
+export interface ConditionRow {
+  field: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+type ConditionValue = number | string | boolean | ConditionExpression;
+
+function isExpression(value: unknown): value is ConditionExpression {
+  return typeof value === 'object' && value !== null && 'expr' in value;
+}
+
+function formatValue(value: unknown): string {
+  if (isExpression(value)) return `=${value.expr}`;
+  return String(value);
+}
+
+function parseLiteral(text: string): number | string | boolean {
+  const trimmed = text.trim();
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed !== '' && !isNaN(Number(trimmed))) return Number(trimmed);
+  return trimmed;
+}
+
+function parseValue(text: string): ConditionValue {
+  const trimmed = text.trim();
+  return trimmed.startsWith('=') ? { expr: trimmed.slice(1).trim() } : parseLiteral(trimmed);
+}
+
+function formatOperatorValue(operator: ConditionOperator, value: unknown): string {
+  switch (operator) {
+    case 'oneOf':
+      return (value as unknown[]).map(String).join(', ');
+    case 'within': {
+      const within = value as NonNullable<MatchCondition['within']>;
+      return `${formatValue(within.of)}±${within.tolerance}`;
+    }
+    case 'expr':
+      return String(value);
+    default:
+      return formatValue(value);
+  }
+}
+
+function parseOperatorValue(operator: ConditionOperator, text: string): unknown {
+  switch (operator) {
+    case 'contains':
+    case 'matches':
+    case 'expr':
+      return text;
+    case 'oneOf':
+      return text
+        .split(',')
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .map(parseLiteral);
+    case 'within': {
+      const [of, tolerance] = text.split(/±|\+-/);
+      return { of: parseValue(of ?? ''), tolerance: Number(tolerance ?? 0) || 0 };
+    }
+    default:
+      return parseValue(text);
+  }
+}
+
+/**
+ * Warunki pól -> wiersze edytora (jeden wiersz na operator)
+ *
+ * Stringi w `match` bloku są traktowane jak `equals`.
+ */
+export function conditionsToRows(conditions: Record<string, string | MatchCondition | undefined> | undefined): ConditionRow[] {
+  if (!conditions) return [];
+
+  return Object.entries(conditions).flatMap(([field, condition]): ConditionRow[] => {
+    if (condition === undefined) return [];
+    if (typeof condition !== 'object') return [{ field, operator: 'equals', value: String(condition) }];
+
+    return CONDITION_OPERATORS.filter((operator) => condition[operator] !== undefined).map((operator) => ({
+      field,
+      operator,
+      value: formatOperatorValue(operator, condition[operator]),
+    }));
+  });
+}
+
+/**
+ * Wiersze edytora -> warunki pól (wiersze bez nazwy pola są pomijane)
+ *
+ * @param literalStrings - `equals` ze stringiem zapisywany jako sam string (format `match` bloku)
+ */
+export function rowsToConditions(
+  rows: ConditionRow[],
+  literalStrings = false
+): Record<string, string | MatchCondition> {
+  const result: Record<string, string | MatchCondition> = {};
+
+  for (const row of rows) {
+    const field = row.field.trim();
+    if (!field) continue;
+
+    const value = parseOperatorValue(row.operator, row.value);
+    const existing = result[field];
+    if (literalStrings && row.operator === 'equals' && typeof value === 'string' && existing === undefined) {
+      result[field] = value;
+      continue;
+    }
+
+    const condition: MatchCondition =
+      typeof existing === 'string' ? { equals: existing } : { ...(existing ?? {}) };
+    (condition as Record<string, unknown>)[row.operator] = value;
+    result[field] = condition;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// BLOCK CONDITIONS
+// ============================================================================
+
+/** Pola bloku podpowiadane w edytorze */
+export const BLOCK_FIELDS = [
+  'timelineId',
+  'blockType',
+  'mediaAssetId',
+  'startFrame',
+  'durationInFrames',
+  'timelineOffsetInFrames',
+  'fileRelativeStartFrame',
+  'fileRelativeEndFrame',
+  'orderIndex',
+];
+
+/** BlockMatchCondition w postaci edytowalnej */
+export interface BlockConditionDraft {
+  alias: string;
+  /** `match.id` - dla zmodyfikowanych bloków */
+  blockId: string;
+  matchRows: ConditionRow[];
+  changeRows: ConditionRow[];
+}
+
+export function draftFromBlockCondition(condition: BlockMatchCondition): BlockConditionDraft {
+  const { id, ...match } = condition.match;
+  // match.id jako warunek (nie string) zostaje zwykłym wierszem
+  return {
+    alias: condition.as ?? '',
+    blockId: typeof id === 'string' ? id : '',
+    matchRows: conditionsToRows(typeof id === 'string' ? match : condition.match),
+    changeRows: conditionsToRows(condition.changes),
+  };
+}
+
+export function blockConditionFromDraft(draft: BlockConditionDraft): BlockMatchCondition {
+  const changes = rowsToConditions(draft.changeRows) as Record<string, MatchCondition>;
+  return {
+    ...(draft.alias.trim() && { as: draft.alias.trim() }),
+    match: {
+      ...(draft.blockId && { id: draft.blockId }),
+      ...rowsToConditions(draft.matchRows, true),
+    },
+    ...(Object.keys(changes).length > 0 && { changes }),
+  };
+}
@@ -0,0 +1,12 @@
+export { MatchConditionEditor } from './MatchConditionEditor';
+export { BlockConditionsEditor } from './BlockConditionsEditor';
+export { ToleranceSelect } from './ToleranceSelect';
+export {
+  conditionsToRows,
+  rowsToConditions,
+  draftFromBlockCondition,
+  blockConditionFromDraft,
+  CONDITION_OPERATORS,
+  BLOCK_FIELDS,
+} from './conditions';
+export type { ConditionRow, ConditionOperator, BlockConditionDraft } from './conditions';
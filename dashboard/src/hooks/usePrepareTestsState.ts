@@ -23,9 +23,13 @@ export interface UsePrepareTestsStateReturn {
   agent: AgentType;
   model: ModelType;
   thinkingMode: ThinkingMode;
+  repetitions: number;
+  concurrency: number;
   setAgent: (agent: AgentType) => void;
   setModel: (model: ModelType) => void;
   setThinkingMode: (mode: ThinkingMode) => void;
+  setRepetitions: (repetitions: number) => void;
+  setConcurrency: (concurrency: number) => void;
 
   // Prompt
   systemPrompt: string;
@@ -120,6 +124,8 @@ export function usePrepareTestsState(): UsePrepareTestsStateReturn {
   const [agent, setAgent] = useState<AgentType>('montage');
   const [model, setModel] = useState<ModelType>('sonnet');
   const [thinkingMode, setThinkingMode] = useState<ThinkingMode>('think');
+  const [repetitions, setRepetitions] = useState(1);
+  const [concurrency, setConcurrency] = useState(1);
 
   // Trans Agent Prompts
   const [transAgentPrompts, setTransAgentPrompts] = useState<Record<TransAgentType, TransAgentPromptConfig>>(
@@ -312,6 +318,8 @@ export function usePrepareTestsState(): UsePrepareTestsStateReturn {
           setAgent(validAgent);
           setModel((suiteData.configSnapshot?.model as ModelType) || 'sonnet');
           setThinkingMode((suiteData.configSnapshot?.thinkingMode as ThinkingMode) || 'think');
+          setRepetitions(suiteData.repetitions || 1);
+          setConcurrency(suiteData.configSnapshot?.concurrency || 1);
 
           // Prompt
           setDefaultPrompt(promptResponse.prompt);
@@ -698,6 +706,8 @@ export function usePrepareTestsState(): UsePrepareTestsStateReturn {
         verbose: true,
         model,
         thinkingMode,
+        repetitions: repetitions > 1 ? repetitions : undefined,
+        concurrency: concurrency > 1 ? concurrency : undefined,
       };
 
       // Diagnostyka - do usunięcia po zdiagnozowaniu problemu
@@ -806,9 +816,13 @@ export function usePrepareTestsState(): UsePrepareTestsStateReturn {
     agent,
     model,
     thinkingMode,
+    repetitions,
+    concurrency,
     setAgent,
     setModel,
     setThinkingMode,
+    setRepetitions,
+    setConcurrency,
 
     // Prompt
     systemPrompt,
@@ -0,0 +1,320 @@
+/**
+ * Parity silników - macierz fixture x silnik (remotion vs puppeteer)
+ */
+
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Button,
+  Stack,
+  CircularProgress,
+  Alert,
+  Chip,
+  Paper,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  IconButton,
+  Collapse,
+  Tooltip,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import {
+  api,
+  type CompositionParityRun,
+  type CompositionParityReport,
+  type ParityEngineRender,
+  type ParityMatrixRow,
+} from '../api/client';
+
+const ACTIVE_STATUSES: CompositionParityRun['status'][] = ['pending', 'rendering', 'analyzing'];
+
+function isActive(run?: CompositionParityRun): boolean {
+  return !!run && ACTIVE_STATUSES.includes(run.status);
+}
+
+// ============================================================================
+// CELLS
+// ============================================================================
+
+function EngineCell({ render }: { render?: ParityEngineRender }) {
+  if (!render) {
+    return <Typography variant="caption" color="text.secondary">-</Typography>;
+  }
+
+  if (render.status === 'error') {
+    return (
+      <Tooltip title={render.error || ''}>
+        <Chip label="Błąd" size="small" color="error" variant="outlined" />
+      </Tooltip>
+    );
+  }
+
+  if (render.status !== 'completed') {
+    return <Chip label={render.status === 'rendering' ? 'Renderowanie' : 'Oczekuje'} size="small" variant="outlined" />;
+  }
+
+  const video = render.video;
+  return (
+    <Stack spacing={0.5}>
+      <Typography variant="caption">
+        {render.renderDurationMs !== undefined ? `${(render.renderDurationMs / 1000).toFixed(1)}s` : '-'}
+      </Typography>
+      {video && (
+        <Typography variant="caption" color="text.secondary">
+          {video.width}x{video.height}, {video.fps.toFixed(2)} fps, {video.codec}, {video.frameCount} klatek
+        </Typography>
+      )}
+    </Stack>
+  );
+}
+
+function ParityCell({ run }: { run?: CompositionParityRun }) {
+  if (!run) {
+    return <Typography variant="caption" color="text.secondary">Nie sprawdzano</Typography>;
+  }
+  if (isActive(run)) {
+    return <Chip label={run.status === 'analyzing' ? 'Analiza' : 'W toku'} size="small" icon={<CircularProgress size={12} />} />;
+  }
+  if (run.status === 'error' || !run.report) {
+    return (
+      <Tooltip title={run.error || ''}>
+        <Chip label="Błąd" size="small" color="error" variant="outlined" />
+      </Tooltip>
+    );
+  }
+
+  const { report } = run;
+  return (
+    <Stack direction="row" spacing={0.5} alignItems="center" flexWrap="wrap">
+      <Chip
+        label={report.diverged ? 'Rozbieżne' : 'Zgodne'}
+        size="small"
+        color={report.diverged ? 'error' : 'success'}
+        variant="outlined"
+      />
+      <Typography variant="caption">
+        SSIM {report.meanSsim.toFixed(3)} (min {report.minSsim.toFixed(3)}), offset {report.frameOffset}
+      </Typography>
+    </Stack>
+  );
+}
+
+/**
+ * SSIM klatka po klatce jako pasek słupków - najgorsze klatki od razu widać
+ */
+function SsimStrip({ report }: { report: CompositionParityReport }) {
+  const floor = Math.min(report.thresholds.minFrameSsim, report.minSsim) - 0.02;
+
+  return (
+    <Stack direction="row" alignItems="flex-end" sx={{ height: 48, gap: '1px' }}>
+      {report.frames.map(f => (
+        <Tooltip key={f.frame} title={`Klatka ${f.frame} -> ${f.alignedFrame}: SSIM ${f.ssim.toFixed(4)}`}>
+          <Box
+            sx={{
+              flex: 1,
+              minWidth: 1,
+              height: `${Math.max(4, ((f.ssim - floor) / (1 - floor)) * 100)}%`,
+              bgcolor: f.ssim < report.thresholds.minFrameSsim ? 'error.main' : 'success.main',
+              opacity: 0.8,
+            }}
+          />
+        </Tooltip>
+      ))}
+    </Stack>
+  );
+}
+
+function ParityDetails({ run }: { run: CompositionParityRun }) {
+  const report = run.report;
+
+  return (
+    <Box sx={{ p: 2 }}>
+      {run.error && <Alert severity="error" sx={{ mb: 1 }}>{run.error}</Alert>}
+      {report && (
+        <>
+          {report.reasons.map(reason => (
+            <Alert key={reason} severity="warning" sx={{ mb: 1 }}>{reason}</Alert>
+          ))}
+          <Stack direction="row" spacing={1} sx={{ mb: 1 }}>
+            <Chip label={`Szczyt animacji: remotion ${report.animationPeaks.remotion}, puppeteer ${report.animationPeaks.puppeteer}`} size="small" variant="outlined" />
+            <Chip label={`Najgorsza klatka: ${report.worstFrame}`} size="small" variant="outlined" />
+            <Chip label={`Porównano ${report.frames.length} klatek`} size="small" variant="outlined" />
+          </Stack>
+          <SsimStrip report={report} />
+        </>
+      )}
+      <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+        Przebieg {run.runId.slice(0, 8)} z {new Date(run.createdAt).toLocaleString()}
+      </Typography>
+    </Box>
+  );
+}
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+export default function CompositionParity() {
+  const navigate = useNavigate();
+  const [rows, setRows] = useState<ParityMatrixRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [onlyDiverged, setOnlyDiverged] = useState(false);
+
+  const loadMatrix = useCallback(async () => {
+    try {
+      setRows(await api.getParityMatrix());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd ładowania parity');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMatrix();
+  }, [loadMatrix]);
+
+  // Polling, dopóki jakiś przebieg jest w kolejce
+  const hasActive = rows.some(r => isActive(r.latestRun));
+  useEffect(() => {
+    if (!hasActive) return;
+    const interval = setInterval(loadMatrix, 3000);
+    return () => clearInterval(interval);
+  }, [hasActive, loadMatrix]);
+
+  const handleRun = useCallback(async (fixtureId: string) => {
+    try {
+      await api.startParityRun(fixtureId);
+      await loadMatrix();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd uruchamiania parity');
+    }
+  }, [loadMatrix]);
+
+  const handleRunAll = useCallback(async () => {
+    try {
+      await api.startParityBatch();
+      await loadMatrix();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd uruchamiania parity');
+    }
+  }, [loadMatrix]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const divergedCount = rows.filter(r => r.latestRun?.report?.diverged).length;
+  const visibleRows = onlyDiverged ? rows.filter(r => r.latestRun?.report?.diverged) : rows;
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 3 }}>
+        <Stack direction="row" alignItems="center" spacing={1}>
+          <IconButton onClick={() => navigate('/composition-tests')}>
+            <ArrowBackIcon />
+          </IconButton>
+          <Typography variant="h5" fontWeight={600}>
+            Parity silników
+          </Typography>
+          {divergedCount > 0 && (
+            <Chip label={`${divergedCount} rozbieżnych`} size="small" color="error" variant="outlined" />
+          )}
+        </Stack>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <FormControlLabel
+            control={<Checkbox size="small" checked={onlyDiverged} onChange={(_, checked) => setOnlyDiverged(checked)} />}
+            label="Tylko rozbieżne"
+          />
+          <Button variant="contained" startIcon={<CompareArrowsIcon />} onClick={handleRunAll} disabled={hasActive}>
+            Sprawdź wszystkie
+          </Button>
+        </Stack>
+      </Stack>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              <TableCell>Fixture</TableCell>
+              <TableCell>Remotion</TableCell>
+              <TableCell>Puppeteer</TableCell>
+              <TableCell>Parity</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleRows.map(row => {
+              const run = row.latestRun;
+              const isExpanded = expanded === row.fixtureId;
+
+              return (
+                <Fragment key={row.fixtureId}>
+                  <TableRow hover>
+                    <TableCell padding="checkbox">
+                      {run && (
+                        <IconButton size="small" onClick={() => setExpanded(isExpanded ? null : row.fixtureId)}>
+                          {isExpanded ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+                        </IconButton>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{row.variantName}</Typography>
+                      <Typography variant="caption" color="text.secondary">{row.compositionDefinitionId}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <EngineCell render={run?.renders.find(r => r.engine === 'remotion')} />
+                    </TableCell>
+                    <TableCell>
+                      <EngineCell render={run?.renders.find(r => r.engine === 'puppeteer')} />
+                    </TableCell>
+                    <TableCell>
+                      <ParityCell run={run} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button size="small" onClick={() => handleRun(row.fixtureId)} disabled={isActive(run)}>
+                        Sprawdź
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {run && (
+                    <TableRow>
+                      <TableCell colSpan={6} sx={{ p: 0, borderBottom: isExpanded ? undefined : 'none' }}>
+                        <Collapse in={isExpanded} unmountOnExit>
+                          <ParityDetails run={run} />
+                        </Collapse>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Paper>
+    </Box>
+  );
+}
@@ -3,6 +3,7 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -17,8 +18,9 @@ import {
   FormControlLabel,
 } from '@mui/material';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
 import CompositionTestCard from '../components/composition-tests/CompositionTestCard';
-import { api, type CompositionTestFixture, type CompositionRenderJobStatus } from '../api/client';
+import { api, type CompositionTestFixture, type CompositionRenderJobStatus, type GoldenCheckResult } from '../api/client';
 
 // Grupuj fixtures po definitionId
 function groupByDefinition(fixtures: CompositionTestFixture[]): Map<string, CompositionTestFixture[]> {
@@ -41,6 +43,7 @@ const DEFINITION_NAMES: Record<string, string> = {
 };
 
 export default function CompositionTests() {
+  const navigate = useNavigate();
   const [fixtures, setFixtures] = useState<CompositionTestFixture[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -51,6 +54,8 @@ export default function CompositionTests() {
   const [engine, setEngine] = useState<'remotion' | 'puppeteer'>('puppeteer');
   const [useBackgroundVideo, setUseBackgroundVideo] = useState(false);
   const [debug, setDebug] = useState(false);
+  const [goldenResults, setGoldenResults] = useState<Map<string, GoldenCheckResult>>(new Map());
+  const [goldenChecking, setGoldenChecking] = useState(false);
   const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Załaduj fixtures
@@ -75,6 +80,39 @@ export default function CompositionTests() {
     loadRendered();
   }, [loadRendered]);
 
+  // Załaduj ostatnie porównania golden frames
+  useEffect(() => {
+    api.getGoldenBaselines(engine)
+      .then(baselines => {
+        const results = new Map<string, GoldenCheckResult>();
+        for (const baseline of baselines) {
+          if (baseline.lastResult) results.set(baseline.fixtureId, baseline.lastResult);
+        }
+        setGoldenResults(results);
+      })
+      .catch(() => setGoldenResults(new Map()));
+  }, [engine]);
+
+  const handleGoldenResult = useCallback((result: GoldenCheckResult) => {
+    setGoldenResults(prev => new Map(prev).set(result.fixtureId, result));
+  }, []);
+
+  const handleGoldenCheckAll = useCallback(async (definitionId: string) => {
+    setGoldenChecking(true);
+    try {
+      const { results } = await api.checkGoldenFramesBatch(definitionId, engine);
+      setGoldenResults(prev => {
+        const next = new Map(prev);
+        for (const result of results) next.set(result.fixtureId, result);
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Błąd porównania golden frames');
+    } finally {
+      setGoldenChecking(false);
+    }
+  }, [engine]);
+
   // Polling dla aktywnych jobów
   useEffect(() => {
     const activeJobs = Array.from(renderingJobs.entries())
@@ -248,6 +286,13 @@ export default function CompositionTests() {
           <Typography variant="body2" color="text.secondary">
             {fixtures.length} fixtures, {renderedFixtureIds.size} renderów
           </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<CompareArrowsIcon />}
+            onClick={() => navigate('/composition-tests/parity')}
+          >
+            Parity silników
+          </Button>
           <Button
             variant="contained"
             startIcon={<PlayArrowIcon />}
@@ -286,9 +331,13 @@ export default function CompositionTests() {
           renderedFixtureIds={renderedFixtureIds}
           renderingJobs={renderingJobs}
           engine={engine}
+          goldenResults={goldenResults}
+          goldenChecking={goldenChecking}
           onRenderFixture={handleRenderFixture}
           onRenderAll={handleRenderAll}
           onDeleteRender={handleDeleteRender}
+          onGoldenCheckAll={handleGoldenCheckAll}
+          onGoldenResult={handleGoldenResult}
         />
       ))}
     </Box>
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Stack,
+  CircularProgress,
+  Alert,
+  Button,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  ArrowBack as BackIcon,
+  Stop as StopIcon,
+  Visibility as ViewIcon,
+  CompareArrows as CompareIcon,
+  EmojiEvents as BestIcon,
+} from '@mui/icons-material';
+import { api, ExperimentDetail as ExperimentDetailData, ExperimentLeaderboardEntry } from '../api/client';
+
+/** Odświeżanie leaderboardu w trakcie eksperymentu */
+const POLL_INTERVAL_MS = 5000;
+
+function formatPercent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/** Najnowszy suite wariantu */
+function latestSuiteId(entry: ExperimentLeaderboardEntry | undefined): string | undefined {
+  return entry && entry.suiteIds.length > 0 ? entry.suiteIds[entry.suiteIds.length - 1] : undefined;
+}
+
+function VsBestCell({ entry }: { entry: ExperimentLeaderboardEntry }) {
+  if (entry.rank === 1) {
+    return <BestIcon color="warning" fontSize="small" />;
+  }
+  if (!entry.vsBest) {
+    return <Typography color="text.secondary">-</Typography>;
+  }
+
+  const { diff, confidenceInterval, pValue, significant } = entry.vsBest;
+  return (
+    <Tooltip
+      title={`95% CI: ${formatPercent(confidenceInterval.lower)} .. ${formatPercent(confidenceInterval.upper)}, p=${pValue.toFixed(3)}`}
+    >
+      <Chip
+        label={`${diff > 0 ? '+' : ''}${(diff * 100).toFixed(1)}pp`}
+        size="small"
+        color={significant ? 'error' : 'default'}
+        variant={significant ? 'filled' : 'outlined'}
+      />
+    </Tooltip>
+  );
+}
+
+export default function ExperimentDetail() {
+  const { experimentId } = useParams<{ experimentId: string }>();
+  const navigate = useNavigate();
+  const [experiment, setExperiment] = useState<ExperimentDetailData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stopping, setStopping] = useState(false);
+
+  const loadExperiment = useCallback(async () => {
+    if (!experimentId) return;
+    try {
+      setExperiment(await api.getExperiment(experimentId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load experiment');
+    } finally {
+      setLoading(false);
+    }
+  }, [experimentId]);
+
+  useEffect(() => {
+    loadExperiment();
+  }, [loadExperiment]);
+
+  useEffect(() => {
+    if (experiment?.status !== 'running') return;
+    const interval = setInterval(loadExperiment, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [experiment?.status, loadExperiment]);
+
+  const handleStop = async () => {
+    if (!experimentId) return;
+    try {
+      setStopping(true);
+      await api.stopExperiment(experimentId);
+      await loadExperiment();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to stop experiment');
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="50vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!experiment) {
+    return <Alert severity="error">{error || 'Experiment not found'}</Alert>;
+  }
+
+  const bestSuiteId = latestSuiteId(experiment.leaderboard[0]);
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" spacing={2} mb={3}>
+        <IconButton onClick={() => navigate('/experiments')}>
+          <BackIcon />
+        </IconButton>
+        <Box flexGrow={1}>
+          <Typography variant="h4" fontWeight={600}>
+            {experiment.name}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {experiment.variants.length} wariantow × {experiment.scenarioIds.length} scenariuszy
+            {(experiment.definition.repetitions ?? 1) > 1 && ` × ${experiment.definition.repetitions} prob`}
+            {experiment.description && ` - ${experiment.description}`}
+          </Typography>
+        </Box>
+        <Chip label={experiment.status} color={experiment.status === 'running' ? 'info' : 'default'} />
+        {experiment.status === 'running' && (
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={stopping ? <CircularProgress size={16} /> : <StopIcon />}
+            onClick={handleStop}
+            disabled={stopping}
+          >
+            Zatrzymaj
+          </Button>
+        )}
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>#</TableCell>
+              <TableCell>Wariant</TableCell>
+              <TableCell>Pass rate</TableCell>
+              <TableCell>vs #1</TableCell>
+              <TableCell>Sr. tokeny</TableCell>
+              <TableCell>Sr. czas</TableCell>
+              <TableCell>Koszt</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Akcje</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {experiment.leaderboard.map((entry) => {
+              const suiteId = latestSuiteId(entry);
+
+              return (
+                <TableRow key={entry.variantId} hover>
+                  <TableCell>{entry.trials > 0 ? entry.rank : '-'}</TableCell>
+                  <TableCell>
+                    <Typography variant="body2" fontFamily="monospace">
+                      {entry.label ?? entry.variantId}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Typography>{formatPercent(entry.passRate)}</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {entry.passedTrials}/{entry.trials}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <VsBestCell entry={entry} />
+                  </TableCell>
+                  <TableCell>{Math.round(entry.avgTokens).toLocaleString()}</TableCell>
+                  <TableCell>{(entry.avgLatencyMs / 1000).toFixed(1)}s</TableCell>
+                  <TableCell>
+                    {entry.totalCostUsd !== undefined ? (
+                      <Tooltip title={`Srednio $${entry.avgCostUsd?.toFixed(4)} na probe`}>
+                        <Typography>${entry.totalCostUsd.toFixed(2)}</Typography>
+                      </Tooltip>
+                    ) : (
+                      '-'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Chip label={entry.status} size="small" variant="outlined" />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Stack direction="row" spacing={1} justifyContent="flex-end">
+                      {suiteId && (
+                        <Tooltip title="Zobacz suite">
+                          <IconButton size="small" onClick={() => navigate(`/results/${suiteId}`)}>
+                            <ViewIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {suiteId && bestSuiteId && suiteId !== bestSuiteId && (
+                        <Tooltip title="Porownaj z najlepszym wariantem">
+                          <IconButton
+                            size="small"
+                            onClick={() => navigate(`/results/${bestSuiteId}/compare/${suiteId}`)}
+                          >
+                            <CompareIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Stack,
+  CircularProgress,
+  Alert,
+  Button,
+  TextField,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  PlayArrow as PlayIcon,
+  Visibility as ViewIcon,
+  Preview as PreviewIcon,
+} from '@mui/icons-material';
+import { api, ExperimentDefinition, ExperimentStatus, ExperimentSummary } from '../api/client';
+
+const STATUS_COLORS: Record<ExperimentStatus, 'default' | 'info' | 'success' | 'error' | 'warning'> = {
+  running: 'info',
+  completed: 'success',
+  failed: 'error',
+  stopped: 'warning',
+};
+
+const DEFAULT_VARIANTS_JSON = `{
+  "matrix": {
+    "model": ["sonnet", "opus"],
+    "thinkingMode": ["think", "hard"]
+  }
+}`;
+
+function formatDate(isoDate: string) {
+  return new Date(isoDate).toLocaleString('pl-PL', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function Experiments() {
+  const navigate = useNavigate();
+  const [experiments, setExperiments] = useState<ExperimentSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Formularz nowego eksperymentu
+  const [name, setName] = useState('');
+  const [agent, setAgent] = useState('');
+  const [scenarioIds, setScenarioIds] = useState('');
+  const [tags, setTags] = useState('');
+  const [repetitions, setRepetitions] = useState(1);
+  const [concurrency, setConcurrency] = useState(1);
+  const [variantsJson, setVariantsJson] = useState(DEFAULT_VARIANTS_JSON);
+  const [previewIds, setPreviewIds] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadExperiments();
+  }, []);
+
+  const loadExperiments = async () => {
+    try {
+      setLoading(true);
+      setExperiments(await api.getExperiments({ limit: 50 }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load experiments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /** Definicja z formularza - warianty/macierz z pola JSON, reszta z pól */
+  const buildDefinition = (): ExperimentDefinition => {
+    const parsed = JSON.parse(variantsJson) as Pick<ExperimentDefinition, 'variants' | 'matrix'>;
+    const splitList = (value: string) =>
+      value.split(',').map((item) => item.trim()).filter(Boolean);
+
+    return {
+      name: name.trim(),
+      agent: agent.trim() || undefined,
+      scenarioIds: splitList(scenarioIds).length > 0 ? splitList(scenarioIds) : undefined,
+      tags: splitList(tags).length > 0 ? splitList(tags) : undefined,
+      variants: parsed.variants,
+      matrix: parsed.matrix,
+      repetitions,
+      concurrency,
+    };
+  };
+
+  const handlePreview = async () => {
+    try {
+      setError(null);
+      const { variants } = await api.previewExperiment(buildDefinition());
+      setPreviewIds(variants.map((v) => v.label ?? v.id));
+    } catch (e) {
+      setPreviewIds(null);
+      setError(e instanceof Error ? e.message : 'Invalid experiment definition');
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const { experimentId } = await api.createExperiment(buildDefinition());
+      navigate(`/experiments/${experimentId}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to start experiment');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="50vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Typography variant="h4" fontWeight={600} mb={3}>
+        Eksperymenty A/B
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" mb={2}>
+          Nowy eksperyment
+        </Typography>
+        <Stack spacing={2}>
+          <Stack direction="row" spacing={2}>
+            <TextField label="Nazwa" size="small" value={name} onChange={(e) => setName(e.target.value)} fullWidth />
+            <TextField
+              label="Agent"
+              size="small"
+              value={agent}
+              onChange={(e) => setAgent(e.target.value)}
+              placeholder="montage"
+              sx={{ minWidth: 160 }}
+            />
+            <TextField
+              label="Powtorzenia"
+              size="small"
+              type="number"
+              value={repetitions}
+              onChange={(e) => setRepetitions(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              sx={{ width: 130 }}
+            />
+            <TextField
+              label="Rownolegle"
+              size="small"
+              type="number"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              sx={{ width: 130 }}
+            />
+          </Stack>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Scenariusze (po przecinku, zamiast agenta)"
+              size="small"
+              value={scenarioIds}
+              onChange={(e) => setScenarioIds(e.target.value)}
+              placeholder="montage/move-block-later, montage/remove-gaps/remove-all-gaps"
+              fullWidth
+            />
+            <TextField
+              label="Tagi"
+              size="small"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              sx={{ minWidth: 200 }}
+            />
+          </Stack>
+          <TextField
+            label="Warianty (JSON: variants i/lub matrix)"
+            multiline
+            minRows={6}
+            value={variantsJson}
+            onChange={(e) => {
+              setVariantsJson(e.target.value);
+              setPreviewIds(null);
+            }}
+            InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+          />
+          {previewIds && (
+            <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+              <Typography variant="body2" color="text.secondary" mr={1}>
+                {previewIds.length} wariantow:
+              </Typography>
+              {previewIds.map((id) => (
+                <Chip key={id} label={id} size="small" variant="outlined" />
+              ))}
+            </Stack>
+          )}
+          <Stack direction="row" spacing={1} justifyContent="flex-end">
+            <Button startIcon={<PreviewIcon />} onClick={handlePreview}>
+              Podglad wariantow
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={submitting ? <CircularProgress size={16} /> : <PlayIcon />}
+              onClick={handleStart}
+              disabled={submitting || !name.trim()}
+            >
+              Uruchom
+            </Button>
+          </Stack>
+        </Stack>
+      </Paper>
+
+      <TableContainer component={Paper}>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Data</TableCell>
+              <TableCell>Nazwa</TableCell>
+              <TableCell>Warianty</TableCell>
+              <TableCell>Scenariusze</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Akcje</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {experiments.map((experiment) => (
+              <TableRow key={experiment.id} hover>
+                <TableCell>
+                  <Typography>{formatDate(experiment.createdAt)}</Typography>
+                </TableCell>
+                <TableCell>
+                  <Typography>{experiment.name}</Typography>
+                  {experiment.description && (
+                    <Typography variant="caption" color="text.secondary">
+                      {experiment.description}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{experiment.variants.length}</TableCell>
+                <TableCell>
+                  {experiment.scenarioIds.length}
+                  {(experiment.definition.repetitions ?? 1) > 1 && ` ×${experiment.definition.repetitions}`}
+                </TableCell>
+                <TableCell>
+                  <Chip label={experiment.status} size="small" color={STATUS_COLORS[experiment.status]} />
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title="Leaderboard">
+                    <IconButton size="small" onClick={() => navigate(`/experiments/${experiment.id}`)}>
+                      <ViewIcon />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      {experiments.length === 0 && (
+        <Box textAlign="center" py={4}>
+          <Typography color="text.secondary">Brak eksperymentow</Typography>
+        </Box>
+      )}
+    </Box>
+  );
+}
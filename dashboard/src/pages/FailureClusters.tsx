@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link as RouterLink } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Stack,
+  CircularProgress,
+  Alert,
+  Button,
+  Link,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import { ArrowBack as BackIcon } from '@mui/icons-material';
+import { api, FailureCategory, FailureCluster, FailureClusterReport } from '../api/client';
+
+const CATEGORY_LABELS: Record<FailureCategory, string> = {
+  timeout: 'Timeout',
+  'tool-error': 'Blad narzedzia',
+  'execution-error': 'Blad wykonania',
+  'asked-instead-of-acting': 'Dopytal zamiast dzialac',
+  'gave-up': 'Poddal sie',
+  'wrong-tool': 'Zle narzedzie',
+  'wrong-block-id': 'Zle ID bloku',
+  'wrong-result': 'Zly wynik',
+};
+
+const CATEGORY_COLORS: Record<FailureCategory, 'default' | 'error' | 'warning' | 'info' | 'secondary'> = {
+  timeout: 'warning',
+  'tool-error': 'error',
+  'execution-error': 'error',
+  'asked-instead-of-acting': 'info',
+  'gave-up': 'secondary',
+  'wrong-tool': 'warning',
+  'wrong-block-id': 'warning',
+  'wrong-result': 'default',
+};
+
+/** Zakres analizy: bieżący suite albo ostatnie N suite'ów */
+type Scope = 'suite' | 'recent';
+
+const RECENT_SUITES = 10;
+
+function SignatureList({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <Box mb={1}>
+      <Typography variant="caption" color="text.secondary">
+        {title}
+      </Typography>
+      {items.map((item) => (
+        <Typography key={item} variant="body2" fontFamily="monospace" fontSize={12}>
+          {item}
+        </Typography>
+      ))}
+    </Box>
+  );
+}
+
+function ClusterCard({ cluster, total }: { cluster: FailureCluster; total: number }) {
+  const { signature } = cluster;
+
+  return (
+    <Paper sx={{ p: 2, mb: 2 }}>
+      <Stack direction="row" alignItems="center" spacing={1} mb={1}>
+        <Typography variant="h6" sx={{ minWidth: 48 }}>
+          {cluster.count}×
+        </Typography>
+        <Chip label={CATEGORY_LABELS[cluster.category]} size="small" color={CATEGORY_COLORS[cluster.category]} />
+        <Typography fontWeight={600} sx={{ flex: 1, wordBreak: 'break-word' }}>
+          {cluster.label}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {((cluster.count / total) * 100).toFixed(0)}% bledow · {cluster.scenarioIds.length} scenariuszy
+        </Typography>
+      </Stack>
+
+      <SignatureList title="Nieudane asercje" items={signature.failedAssertions} />
+      <SignatureList title="Brakujace narzedzia" items={signature.missingTools} />
+      <SignatureList title="Zabronione narzedzia" items={signature.forbiddenTools} />
+      <SignatureList title="Bledy narzedzi" items={signature.toolErrors} />
+      <SignatureList title="stderr" items={signature.stderrPatterns} />
+
+      <Typography variant="caption" color="text.secondary">
+        Przyklady
+      </Typography>
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+        {cluster.examples.map((example) => (
+          <Link
+            key={`${example.suiteId}-${example.scenarioId}-${example.trial ?? 1}`}
+            component={RouterLink}
+            to={`/results/${example.suiteId}/scenario/${encodeURIComponent(example.scenarioId)}${
+              example.trial ? `?trial=${example.trial}` : ''
+            }`}
+            variant="body2"
+          >
+            {example.scenarioName}
+            {example.trial && example.trial > 1 ? ` (proba ${example.trial})` : ''}
+          </Link>
+        ))}
+      </Stack>
+    </Paper>
+  );
+}
+
+/**
+ * Klastry błędów - nieudane próby pogrupowane po sygnaturze (asercje, narzędzia, błędy, stderr)
+ */
+export default function FailureClusters() {
+  const { suiteId } = useParams<{ suiteId: string }>();
+  const navigate = useNavigate();
+  const [scope, setScope] = useState<Scope>(suiteId ? 'suite' : 'recent');
+  const [report, setReport] = useState<FailureClusterReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadClusters = async () => {
+      try {
+        setLoading(true);
+        setReport(
+          await api.getFailureClusters(
+            scope === 'suite' && suiteId ? { suiteIds: [suiteId] } : { recent: RECENT_SUITES }
+          )
+        );
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load failure clusters');
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadClusters();
+  }, [scope, suiteId]);
+
+  const categories = report
+    ? (Object.keys(report.categoryCounts) as FailureCategory[]).filter((c) => report.categoryCounts[c] > 0)
+    : [];
+
+  return (
+    <Box>
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 2 }}>
+        <Button startIcon={<BackIcon />} onClick={() => navigate(suiteId ? `/results/${suiteId}` : '/results')}>
+          Wroc
+        </Button>
+        <Typography variant="h4" fontWeight={600} sx={{ flex: 1 }}>
+          Klastry bledow
+        </Typography>
+        {suiteId && (
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={scope}
+            onChange={(_, value: Scope | null) => value && setScope(value)}
+          >
+            <ToggleButton value="suite">Ten suite</ToggleButton>
+            <ToggleButton value="recent">Ostatnie {RECENT_SUITES} suite'ow</ToggleButton>
+          </ToggleButtonGroup>
+        )}
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="30vh">
+          <CircularProgress />
+        </Box>
+      ) : report && report.totalFailures === 0 ? (
+        <Alert severity="success">Brak nieudanych prob w {report.suiteIds.length} suite'ach</Alert>
+      ) : (
+        report && (
+          <>
+            <Paper sx={{ p: 2, mb: 3 }}>
+              <Typography variant="body2" color="text.secondary" mb={1}>
+                {report.totalFailures} nieudanych prob w {report.suiteIds.length} suite'ach · {report.clusters.length}{' '}
+                klastrow
+              </Typography>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {categories.map((category) => (
+                  <Chip
+                    key={category}
+                    label={`${CATEGORY_LABELS[category]}: ${report.categoryCounts[category]}`}
+                    color={CATEGORY_COLORS[category]}
+                    variant="outlined"
+                  />
+                ))}
+              </Stack>
+            </Paper>
+
+            {report.clusters.map((cluster) => (
+              <ClusterCard key={cluster.key} cluster={cluster} total={report.totalFailures} />
+            ))}
+          </>
+        )
+      )}
+    </Box>
+  );
+}
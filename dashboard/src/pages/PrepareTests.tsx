@@ -71,9 +71,13 @@ export default function PrepareTests() {
           agent={state.agent}
           model={state.model}
           thinkingMode={state.thinkingMode}
+          repetitions={state.repetitions}
+          concurrency={state.concurrency}
           onAgentChange={state.setAgent}
           onModelChange={state.setModel}
           onThinkingModeChange={state.setThinkingMode}
+          onRepetitionsChange={state.setRepetitions}
+          onConcurrencyChange={state.setConcurrency}
         />
 
         {/* 2. NARZĘDZIA (edycja opisów) */}
@@ -19,6 +19,8 @@ import {
   IconButton,
   LinearProgress,
   Grid,
+  Menu,
+  MenuItem,
 } from '@mui/material';
 import {
   CheckCircle as PassIcon,
@@ -31,9 +33,55 @@ import {
   Replay as ReplayIcon,
   HourglassEmpty as PendingIcon,
   Stop as StopIcon,
+  BugReport as BugIcon,
+  Download as DownloadIcon,
 } from '@mui/icons-material';
-import { api, subscribeToSuite, SuiteEvent, ToolInfo, RawMessage, ToolCall, SuiteStatus } from '../api/client';
-import { ToolsListView, ScenarioMessagesView } from '../components';
+import {
+  api,
+  subscribeToSuite,
+  SuiteEvent,
+  ToolInfo,
+  RawMessage,
+  ToolCall,
+  SuiteStatus,
+  RateDelta,
+  MetricDelta,
+  ScenarioChange,
+  SuiteExportFormat,
+} from '../api/client';
+import { ToolsListView, ScenarioMessagesView, FlakinessBadge, ConfigDiffView } from '../components';
+
+const EXPORT_FORMATS: { format: SuiteExportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'junit', label: 'JUnit XML' },
+  { format: 'tap', label: 'TAP' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+];
+
+function ExportMenu({ suiteId }: { suiteId: string }) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+
+  return (
+    <>
+      <Button startIcon={<DownloadIcon />} onClick={(e) => setAnchor(e.currentTarget)} variant="outlined">
+        Eksport
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <MenuItem
+            key={format}
+            component="a"
+            href={api.getSuiteExportUrl(suiteId, format)}
+            onClick={() => setAnchor(null)}
+          >
+            {label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
 
 type ScenarioStatusType = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 
@@ -47,6 +95,68 @@ interface ScenarioSummary {
   toolCalls?: string[];
   error?: string;
   status?: ScenarioStatusType;
+  /** Liczba prób (przy repetitions > 1) */
+  trials?: number;
+  completedTrials?: number;
+  passedTrials?: number;
+}
+
+/** Stream wiadomości jednej próby (przy równoległym przebiegu działa kilka naraz) */
+interface LiveStream {
+  scenarioId: string;
+  trial?: number;
+  messages: RawMessage[];
+  toolCalls: ToolCall[];
+}
+
+function streamKey(scenarioId: string, trial?: number): string {
+  return `${scenarioId}#${trial ?? 1}`;
+}
+
+function streamLabel(stream: LiveStream): string {
+  return stream.trial ? `${stream.scenarioId} (#${stream.trial})` : stream.scenarioId;
+}
+
+const CHANGE_COLORS: Record<ScenarioChange, 'success' | 'error' | 'default' | 'info'> = {
+  improved: 'success',
+  regressed: 'error',
+  unchanged: 'default',
+  new: 'info',
+  removed: 'info',
+};
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p<0.001' : `p=${pValue.toFixed(3)}`;
+}
+
+/** Np. "-40pp [-70, -5] p=0.011" */
+function formatRateDelta(delta: RateDelta): string {
+  const pp = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100)}`;
+  const ci = delta.confidenceInterval;
+  return `${pp(delta.diff)}pp [${pp(ci.lower)}, ${pp(ci.upper)}] ${formatPValue(delta.pValue)}`;
+}
+
+function formatMetricDelta(delta: MetricDelta): string {
+  const sign = delta.diff > 0 ? '+' : '';
+  const percent = delta.diffPercent !== undefined ? ` (${sign}${delta.diffPercent.toFixed(1)}%)` : '';
+  return `${sign}${Math.round(delta.diff)}${percent} ${formatPValue(delta.pValue)}`;
+}
+
+/** Kolor różnicy - wyraźny tylko dla zmian istotnych (dodatnia = poprawa) */
+function deltaColor(diff: number, significant: boolean): string {
+  if (diff === 0) return 'text.secondary';
+  if (!significant) return diff > 0 ? 'success.light' : 'warning.main';
+  return diff > 0 ? 'success.main' : 'error.main';
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const next = { ...record };
+  delete next[key];
+  return next;
 }
 
 export default function ResultDetail() {
@@ -61,10 +171,11 @@ export default function ResultDetail() {
 
   // Live state
   const [suiteStatus, setSuiteStatus] = useState<SuiteStatus>('completed');
-  const [currentScenario, setCurrentScenario] = useState<string | null>(null);
   const [scenarioStatuses, setScenarioStatuses] = useState<Record<string, ScenarioStatusType>>({});
-  const [liveMessages, setLiveMessages] = useState<RawMessage[]>([]);
-  const [liveToolCalls, setLiveToolCalls] = useState<ToolCall[]>([]);
+  // Streamy trwających prób (klucz = streamKey) w kolejności startu
+  const [liveStreams, setLiveStreams] = useState<Record<string, LiveStream>>({});
+  // Stream wybrany przez użytkownika (domyślnie ostatnio uruchomiony)
+  const [selectedStream, setSelectedStream] = useState<string | null>(null);
   const [isStopping, setIsStopping] = useState(false);
 
   // Compare view
@@ -112,57 +223,84 @@ export default function ResultDetail() {
         break;
 
       case 'scenario:start':
-        setCurrentScenario(event.scenarioId || null);
-        setLiveMessages([]); // Clear messages for new scenario
-        setLiveToolCalls([]);
         if (event.scenarioId) {
+          const key = streamKey(event.scenarioId, event.trial);
+          setLiveStreams((prev) => ({
+            ...prev,
+            [key]: { scenarioId: event.scenarioId!, trial: event.trial, messages: [], toolCalls: [] },
+          }));
           setScenarioStatuses((prev) => ({ ...prev, [event.scenarioId!]: 'running' }));
         }
         break;
 
       case 'tool:call':
-        if (event.toolCall) {
-          setLiveToolCalls((prev) => [...prev, event.toolCall!]);
+        if (event.scenarioId && event.toolCall) {
+          const key = streamKey(event.scenarioId, event.trial);
+          setLiveStreams((prev) => prev[key]
+            ? { ...prev, [key]: { ...prev[key], toolCalls: [...prev[key].toolCalls, event.toolCall!] } }
+            : prev);
         }
         break;
 
       case 'message:received':
-        if (event.message) {
-          setLiveMessages((prev) => [...prev, event.message!]);
+        if (event.scenarioId && event.message) {
+          const key = streamKey(event.scenarioId, event.trial);
+          setLiveStreams((prev) => prev[key]
+            ? { ...prev, [key]: { ...prev[key], messages: [...prev[key].messages, event.message!] } }
+            : prev);
         }
         break;
 
       case 'scenario:complete':
         if (event.scenarioId && event.result) {
-          setScenarioStatuses((prev) => ({
-            ...prev,
-            [event.scenarioId!]: event.result!.passed ? 'completed' : 'failed',
-          }));
+          const trial = event.result.trial;
+          const key = streamKey(event.scenarioId, trial);
+          setLiveStreams((prev) => withoutKey(prev, key));
+          // Status bierzemy z listy scenariuszy (agregat prób) - live status tylko dla startu
+          setScenarioStatuses((prev) => withoutKey(prev, event.scenarioId!));
           // Update scenario in list with result data
           setScenarios((prev) =>
-            prev.map((s) =>
-              s.id === event.scenarioId
-                ? {
-                    ...s,
-                    passed: event.result!.passed,
-                    tokens: event.result!.metrics.totalTokens,
-                    latencyMs: event.result!.metrics.latencyMs,
-                    turnCount: event.result!.metrics.turnCount,
-                    toolCalls: event.result!.toolCalls.map((c) => c.toolName),
-                    error: event.result!.error,
-                    status: event.result!.passed ? 'completed' : 'failed',
-                  }
-                : s
-            )
+            prev.map((s) => {
+              if (s.id !== event.scenarioId) return s;
+              if (!trial) {
+                return {
+                  ...s,
+                  passed: event.result!.passed,
+                  tokens: event.result!.metrics.totalTokens,
+                  latencyMs: event.result!.metrics.latencyMs,
+                  turnCount: event.result!.metrics.turnCount,
+                  toolCalls: event.result!.toolCalls.map((c) => c.toolName),
+                  error: event.result!.error,
+                  status: event.result!.passed ? 'completed' : 'failed',
+                };
+              }
+              // Przy powtórzeniach próby kończą się w dowolnej kolejności (także równolegle) -
+              // scenariusz przechodzi tylko gdy przeszły wszystkie próby
+              const completedTrials = (s.completedTrials ?? 0) + 1;
+              const passedTrials = (s.passedTrials ?? 0) + (event.result!.passed ? 1 : 0);
+              const passed = passedTrials === completedTrials;
+              const finished = completedTrials >= (s.trials ?? 1);
+              return {
+                ...s,
+                passed,
+                completedTrials,
+                passedTrials,
+                tokens: event.result!.metrics.totalTokens,
+                latencyMs: event.result!.metrics.latencyMs,
+                turnCount: event.result!.metrics.turnCount,
+                toolCalls: event.result!.toolCalls.map((c) => c.toolName),
+                error: event.result!.error,
+                status: !finished ? 'running' : passed ? 'completed' : 'failed',
+              };
+            })
           );
         }
         break;
 
       case 'job:complete':
         setSuiteStatus('completed');
-        setCurrentScenario(null);
-        setLiveMessages([]);
-        setLiveToolCalls([]);
+        setLiveStreams({});
+        setSelectedStream(null);
         // Reload data to get final results
         loadData();
         break;
@@ -174,7 +312,8 @@ export default function ResultDetail() {
 
       case 'suite:stopped':
         setSuiteStatus('stopped');
-        setCurrentScenario(null);
+        setLiveStreams({});
+        setSelectedStream(null);
         setIsStopping(false);
         loadData();
         break;
@@ -211,7 +350,6 @@ export default function ResultDetail() {
 
         // Set suite status
         setSuiteStatus(suiteData.status || 'completed');
-        setCurrentScenario(suiteData.currentScenario || null);
       }
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to load data');
@@ -307,7 +445,18 @@ export default function ResultDetail() {
           <Typography variant="h6" mb={1}>
             Podsumowanie
           </Typography>
-          <Stack direction="row" spacing={3}>
+          <Stack direction="row" spacing={4}>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Pass rate ({comparison.baselineTrials} vs {comparison.candidateTrials} prob)
+              </Typography>
+              <Typography variant="h6" color={deltaColor(comparison.overall.passRate.diff, comparison.overall.passRate.significant)}>
+                {formatRate(comparison.overall.passRate.baseline)} → {formatRate(comparison.overall.passRate.candidate)}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {formatRateDelta(comparison.overall.passRate)}
+              </Typography>
+            </Box>
             <Box>
               <Typography variant="caption" color="text.secondary">
                 Roznica tokenow
@@ -319,10 +468,39 @@ export default function ResultDetail() {
                 {comparison.totalTokensDiff > 0 ? '+' : ''}
                 {comparison.totalTokensDiff.toLocaleString()} ({comparison.totalTokensDiffPercent.toFixed(1)}%)
               </Typography>
+              <Typography variant="caption" color="text.secondary">
+                srednio na probe: {formatMetricDelta(comparison.overall.tokens)}
+              </Typography>
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Zmiany scenariuszy
+              </Typography>
+              <Stack direction="row" spacing={0.5} mt={0.5}>
+                {(Object.keys(comparison.counts) as ScenarioChange[])
+                  .filter((change) => comparison.counts[change] > 0)
+                  .map((change) => (
+                    <Chip
+                      key={change}
+                      label={`${change}: ${comparison.counts[change]}`}
+                      size="small"
+                      color={CHANGE_COLORS[change]}
+                      variant="outlined"
+                    />
+                  ))}
+              </Stack>
             </Box>
           </Stack>
+          {(comparison.baselineSuiteIds.length > 1 || comparison.candidateSuiteIds.length > 1) && (
+            <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+              Pule prob: A = {comparison.baselineSuiteIds.length} suite(y), B = {comparison.candidateSuiteIds.length} suite(y)
+              o tym samym config hash
+            </Typography>
+          )}
         </Paper>
 
+        <ConfigDiffView configDiff={comparison.configDiff} />
+
         <TableContainer component={Paper}>
           <Table>
             <TableHead>
@@ -331,71 +509,88 @@ export default function ResultDetail() {
                 <TableCell>Suite A</TableCell>
                 <TableCell>Suite B</TableCell>
                 <TableCell>Zmiana</TableCell>
+                <TableCell>Roznica pass rate</TableCell>
                 <TableCell>Roznica tokenow</TableCell>
+                <TableCell>Asercje</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
-              {comparison.comparison.map((c) => (
+              {comparison.scenarios.map((c) => (
                 <TableRow key={c.scenarioId}>
                   <TableCell>{c.scenarioId}</TableCell>
                   <TableCell>
-                    {c.suite1 ? (
-                      <Stack direction="row" alignItems="center" spacing={1}>
-                        {c.suite1.passed ? <PassIcon color="success" fontSize="small" /> : <FailIcon color="error" fontSize="small" />}
-                        <Typography variant="body2">{c.suite1.tokens} tok</Typography>
-                      </Stack>
+                    {c.baselineTrials > 0 ? (
+                      <Typography variant="body2">
+                        {c.passRate ? formatRate(c.passRate.baseline) : '-'} ({c.baselineTrials} prob)
+                        {c.tokens && ` · ${Math.round(c.tokens.baseline)} tok`}
+                      </Typography>
                     ) : (
                       <Typography color="text.secondary">-</Typography>
                     )}
                   </TableCell>
                   <TableCell>
-                    {c.suite2 ? (
-                      <Stack direction="row" alignItems="center" spacing={1}>
-                        {c.suite2.passed ? <PassIcon color="success" fontSize="small" /> : <FailIcon color="error" fontSize="small" />}
-                        <Typography variant="body2">{c.suite2.tokens} tok</Typography>
-                      </Stack>
+                    {c.candidateTrials > 0 ? (
+                      <Typography variant="body2">
+                        {c.passRate ? formatRate(c.passRate.candidate) : '-'} ({c.candidateTrials} prob)
+                        {c.tokens && ` · ${Math.round(c.tokens.candidate)} tok`}
+                      </Typography>
                     ) : (
                       <Typography color="text.secondary">-</Typography>
                     )}
                   </TableCell>
                   <TableCell>
                     <Chip
-                      label={c.change}
+                      label={c.passRate?.significant ? `${c.change} *` : c.change}
                       size="small"
-                      color={
-                        c.change === 'fixed'
-                          ? 'success'
-                          : c.change === 'regressed'
-                          ? 'error'
-                          : c.change === 'unchanged'
-                          ? 'default'
-                          : 'info'
-                      }
+                      color={CHANGE_COLORS[c.change]}
+                      variant={c.passRate?.significant || c.change === 'unchanged' ? 'filled' : 'outlined'}
                     />
                   </TableCell>
                   <TableCell>
-                    {c.tokensDiff !== undefined && (
+                    {c.passRate && (
+                      <Typography variant="body2" color={deltaColor(c.passRate.diff, c.passRate.significant)}>
+                        {formatRateDelta(c.passRate)}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {c.tokens && (
                       <Stack direction="row" alignItems="center" spacing={0.5}>
-                        {c.tokensDiff < 0 ? (
+                        {c.tokens.diff < 0 ? (
                           <DownIcon color="success" fontSize="small" />
-                        ) : c.tokensDiff > 0 ? (
+                        ) : c.tokens.diff > 0 ? (
                           <UpIcon color="error" fontSize="small" />
                         ) : null}
                         <Typography
                           variant="body2"
-                          color={c.tokensDiff < 0 ? 'success.main' : c.tokensDiff > 0 ? 'error.main' : 'text.secondary'}
+                          color={deltaColor(-c.tokens.diff, c.tokens.significant)}
                         >
-                          {c.tokensDiff > 0 ? '+' : ''}
-                          {c.tokensDiff} ({c.tokensDiffPercent?.toFixed(1)}%)
+                          {formatMetricDelta(c.tokens)}
                         </Typography>
                       </Stack>
                     )}
                   </TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      {c.assertions.map((a) => (
+                        <Chip
+                          key={`${a.turn ?? 0}-${a.name}`}
+                          label={`${a.turn ? `T${a.turn} ` : ''}${a.name} ${a.baselineFailures}/${a.baselineTrials} → ${a.change === 'removed' ? 'usunieta' : `${a.candidateFailures}/${a.candidateTrials}`}${a.significant ? '*' : ''}`}
+                          size="small"
+                          color={a.change === 'removed' ? 'default' : a.change === 'started-failing' || a.change === 'more-failures' ? 'error' : 'success'}
+                          variant={a.change === 'started-failing' || a.change === 'stopped-failing' ? 'filled' : 'outlined'}
+                        />
+                      ))}
+                    </Stack>
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
           </Table>
         </TableContainer>
+        <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+          * zmiana istotna statystycznie (p &lt; {comparison.alpha}); przedzialy ufnosci {Math.round((1 - comparison.alpha) * 100)}%
+        </Typography>
       </Box>
     );
   }
@@ -408,10 +603,22 @@ export default function ResultDetail() {
   };
 
   const isRunning = suiteStatus === 'running';
+
+  // Trwające scenariusze i wyświetlany stream (wybrany lub ostatnio uruchomiony)
+  const runningScenarioIds = scenarios
+    .filter((s) => (scenarioStatuses[s.id] || s.status) === 'running')
+    .map((s) => s.id);
+  const streamKeys = Object.keys(liveStreams);
+  const shownStreamKey = selectedStream && liveStreams[selectedStream]
+    ? selectedStream
+    : streamKeys[streamKeys.length - 1] ?? null;
+  const shownStream = shownStreamKey ? liveStreams[shownStreamKey] : null;
   const completedCount = scenarios.filter((s) => s.status === 'completed' || s.status === 'failed').length;
   const progress = suite.totalScenarios > 0 ? (completedCount / suite.totalScenarios) * 100 : 0;
   const passedCount = scenarios.filter((s) => s.status === 'completed' && s.passed).length;
   const failedCount = scenarios.filter((s) => s.status === 'failed' || (s.status === 'completed' && !s.passed)).length;
+  const repetitions = suite.repetitions || 1;
+  const suitePassRate = suite.passRate ?? (suite.totalScenarios > 0 ? suite.passedScenarios / suite.totalScenarios : 0);
 
   return (
     <Box>
@@ -424,6 +631,12 @@ export default function ResultDetail() {
             Uruchom ponownie
           </Button>
         )}
+        {failedCount > 0 && (
+          <Button startIcon={<BugIcon />} onClick={() => navigate(`/results/${suiteId}/failures`)} variant="outlined">
+            Klastry bledow
+          </Button>
+        )}
+        {!isRunning && suiteId && <ExportMenu suiteId={suiteId} />}
       </Stack>
 
       {/* Header z progress */}
@@ -470,9 +683,9 @@ export default function ResultDetail() {
                 {isStopping ? 'Zatrzymywanie...' : 'Zatrzymaj'}
               </Button>
             </Stack>
-            {currentScenario && (
+            {runningScenarioIds.length > 0 && (
               <Typography variant="body2" color="text.secondary" mt={1}>
-                Aktualnie: {currentScenario}
+                Aktualnie: {runningScenarioIds.join(', ')}
               </Typography>
             )}
           </Box>
@@ -485,8 +698,13 @@ export default function ResultDetail() {
             </Typography>
             <Typography variant="h5">
               {isRunning ? `${passedCount}/${completedCount}` : `${suite.passedScenarios}/${suite.totalScenarios}`}
-              {!isRunning && ` (${((suite.passedScenarios / suite.totalScenarios) * 100).toFixed(0)}%)`}
+              {!isRunning && ` (${(suitePassRate * 100).toFixed(0)}%)`}
             </Typography>
+            {repetitions > 1 && !isRunning && (
+              <Typography variant="caption" color="text.secondary">
+                pass rate, {repetitions} prób/scenariusz
+              </Typography>
+            )}
           </Box>
           {!isRunning && (
             <>
@@ -695,7 +913,7 @@ export default function ResultDetail() {
             <Stack spacing={1}>
               {scenarios.map((scenario) => {
                 const status = scenarioStatuses[scenario.id] || scenario.status || 'pending';
-                const isCurrent = currentScenario === scenario.id;
+                const isCurrent = status === 'running';
 
                 return (
                   <Paper
@@ -713,6 +931,7 @@ export default function ResultDetail() {
                     <Stack direction="row" spacing={2} alignItems="center">
                       {getStatusIcon(status, scenario.passed)}
                       <Typography flex={1}>{scenario.name}</Typography>
+                      <FlakinessBadge trials={scenario.completedTrials ?? 0} passedTrials={scenario.passedTrials ?? 0} />
                       {status === 'completed' || status === 'failed' ? (
                         <>
                           <Chip label={`${scenario.tokens ?? 0} tok`} size="small" variant="outlined" />
@@ -736,17 +955,31 @@ export default function ResultDetail() {
           <Grid item xs={12} md={6}>
             <Box sx={{ position: 'sticky', top: 16 }}>
               <Typography variant="h6" mb={2}>
-                Stream{currentScenario ? `: ${currentScenario}` : ''}
+                Stream{shownStream ? `: ${streamLabel(shownStream)}` : ''}
               </Typography>
+              {streamKeys.length > 1 && (
+                <Stack direction="row" spacing={0.5} flexWrap="wrap" mb={1} useFlexGap>
+                  {streamKeys.map((key) => (
+                    <Chip
+                      key={key}
+                      label={streamLabel(liveStreams[key])}
+                      size="small"
+                      color={key === shownStreamKey ? 'primary' : 'default'}
+                      variant={key === shownStreamKey ? 'filled' : 'outlined'}
+                      onClick={() => setSelectedStream(key)}
+                    />
+                  ))}
+                </Stack>
+              )}
               <Paper sx={{ p: 2 }}>
-                {currentScenario ? (
+                {shownStream ? (
                   <>
                     <Box sx={{ maxHeight: 'calc(100vh - 350px)', overflow: 'auto' }}>
-                      <ScenarioMessagesView messages={liveMessages} liveMode={true} />
+                      <ScenarioMessagesView messages={shownStream.messages} liveMode={true} />
                     </Box>
-                    {liveToolCalls.length > 0 && (
+                    {shownStream.toolCalls.length > 0 && (
                       <Stack direction="row" spacing={0.5} flexWrap="wrap" mt={1} useFlexGap>
-                        {liveToolCalls.slice(-10).map((tc, i) => (
+                        {shownStream.toolCalls.slice(-10).map((tc, i) => (
                           <Chip key={i} label={tc.toolName} size="small" variant="outlined" />
                         ))}
                       </Stack>
@@ -782,6 +1015,7 @@ export default function ResultDetail() {
                   <Stack direction="row" spacing={2} alignItems="center">
                     {getStatusIcon(status, scenario.passed)}
                     <Typography flex={1}>{scenario.name}</Typography>
+                    <FlakinessBadge trials={scenario.completedTrials ?? 0} passedTrials={scenario.passedTrials ?? 0} />
                     {status === 'completed' || status === 'failed' ? (
                       <>
                         <Chip label={`${scenario.tokens ?? 0} tok`} size="small" variant="outlined" />
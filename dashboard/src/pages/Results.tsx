@@ -16,12 +16,14 @@ import {
   Alert,
   IconButton,
   Tooltip,
+  Button,
 } from '@mui/material';
 import {
   CheckCircle as PassIcon,
   Cancel as FailIcon,
   Visibility as ViewIcon,
   CompareArrows as CompareIcon,
+  BugReport as BugIcon,
 } from '@mui/icons-material';
 import { api, SuiteRun } from '../api/client';
 
@@ -78,9 +80,14 @@ export default function Results() {
 
   return (
     <Box>
-      <Typography variant="h4" fontWeight={600} mb={3}>
-        Historia Testów
-      </Typography>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4" fontWeight={600}>
+          Historia Testów
+        </Typography>
+        <Button startIcon={<BugIcon />} onClick={() => navigate('/results/failures')} variant="outlined">
+          Klastry bledow
+        </Button>
+      </Stack>
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
@@ -134,8 +141,13 @@ export default function Results() {
                       {suite.passedScenarios}/{suite.totalScenarios}
                     </Typography>
                     <Typography variant="caption" color="text.secondary">
-                      ({((suite.passedScenarios / suite.totalScenarios) * 100).toFixed(0)}%)
+                      ({((suite.passRate ?? suite.passedScenarios / suite.totalScenarios) * 100).toFixed(0)}%)
                     </Typography>
+                    {(suite.repetitions ?? 1) > 1 && (
+                      <Tooltip title="Liczba prób na scenariusz - procent to średni pass rate">
+                        <Chip label={`×${suite.repetitions}`} size="small" variant="outlined" />
+                      </Tooltip>
+                    )}
                   </Stack>
                 </TableCell>
                 <TableCell>
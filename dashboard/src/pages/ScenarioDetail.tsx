@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Paper,
@@ -21,17 +21,27 @@ import {
   Token as TokenIcon,
   Timer as TimerIcon,
   Replay as TurnIcon,
+  AttachMoney as CostIcon,
   ExpandMore as ExpandMoreIcon,
   ExpandLess as ExpandLessIcon,
 } from '@mui/icons-material';
 import { api, subscribeToSuite, SuiteEvent, TestResult, RawMessage, ToolCall } from '../api/client';
-import { ScenarioMessagesView, ToolCallsDetailView, ScenarioFixturesSection, RenderChapterSection } from '../components';
+import {
+  ScenarioMessagesView,
+  ToolCallsDetailView,
+  ScenarioFixturesSection,
+  RenderChapterSection,
+  RubricScoresView,
+  GeneratedExpectationsSection,
+} from '../components';
 
 type ScenarioStatus = 'pending' | 'running' | 'completed' | 'failed';
 
 export default function ScenarioDetail() {
   const { suiteId, scenarioId } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const trial = searchParams.get('trial') ? parseInt(searchParams.get('trial')!, 10) : undefined;
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -48,6 +58,9 @@ export default function ScenarioDetail() {
   // Suite status (do sprawdzenia czy subskrybowac WebSocket)
   const [suiteStatus, setSuiteStatus] = useState<string>('completed');
 
+  // Liczba prób na scenariusz (selektor próby gdy > 1)
+  const [repetitions, setRepetitions] = useState(1);
+
   useEffect(() => {
     if (!suiteId || !scenarioId) {
       setError('Brak parametrow');
@@ -62,6 +75,7 @@ export default function ScenarioDetail() {
         // Najpierw pobierz status suite'a
         const suiteData = await api.getSuite(suiteId);
         setSuiteStatus(suiteData.status || 'completed');
+        setRepetitions(suiteData.repetitions || 1);
 
         // Sprawdz status scenariusza w suite
         const scenarioStatus = suiteData.scenarioStatuses?.[decodeURIComponent(scenarioId)];
@@ -73,7 +87,7 @@ export default function ScenarioDetail() {
         } else {
           // Probuj pobrac wyniki scenariusza
           try {
-            const result = await api.getScenarioResult(suiteId, scenarioId);
+            const result = await api.getScenarioResult(suiteId, scenarioId, trial);
             setScenario(result);
             setStatus('completed');
           } catch (e) {
@@ -95,7 +109,7 @@ export default function ScenarioDetail() {
     };
 
     loadData();
-  }, [suiteId, scenarioId]);
+  }, [suiteId, scenarioId, trial]);
 
   // WebSocket subscription dla live updates
   useEffect(() => {
@@ -239,6 +253,26 @@ export default function ScenarioDetail() {
           )}
         </Stack>
 
+        {/* Selektor próby (powtarzane przebiegi) */}
+        {repetitions > 1 && (
+          <Stack direction="row" spacing={1} alignItems="center" mb={2}>
+            <Typography variant="body2" color="text.secondary">
+              Próba:
+            </Typography>
+            {Array.from({ length: repetitions }, (_, i) => i + 1).map((n) => (
+              <Chip
+                key={n}
+                label={n}
+                size="small"
+                clickable
+                color={(scenario?.trial ?? 1) === n ? 'primary' : 'default'}
+                variant={(scenario?.trial ?? 1) === n ? 'filled' : 'outlined'}
+                onClick={() => setSearchParams({ trial: String(n) })}
+              />
+            ))}
+          </Stack>
+        )}
+
         {/* Metryki */}
         {metrics && (
           <Stack direction="row" spacing={4}>
@@ -278,6 +312,19 @@ export default function ScenarioDetail() {
                 </Typography>
               </Box>
             </Box>
+            {metrics.costUsd != null && (
+              <Box display="flex" alignItems="center" gap={1}>
+                <CostIcon fontSize="small" color="primary" />
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Koszt (szac.)
+                  </Typography>
+                  <Typography variant="h6">
+                    ${metrics.costUsd.toFixed(4)}
+                  </Typography>
+                </Box>
+              </Box>
+            )}
           </Stack>
         )}
       </Paper>
@@ -337,6 +384,9 @@ export default function ScenarioDetail() {
         </Paper>
       )}
 
+      {/* Ocena rubryki (LLM-as-judge) */}
+      {scenario?.assertions && <RubricScoresView assertions={scenario.assertions} />}
+
       {/* System Prompt - przetworzony dla tego scenariusza */}
       {scenario?.systemPromptInfo && (
         <Paper sx={{ p: 2, mb: 3 }}>
@@ -384,6 +434,11 @@ export default function ScenarioDetail() {
         />
       )}
 
+      {/* Oczekiwania wygenerowane z wyniku (snapshot -> finalState / toolCalls) */}
+      {suiteId && status === 'completed' && scenario?.dataDiff && (
+        <GeneratedExpectationsSection suiteId={suiteId} scenarioId={scenario.scenarioId} trial={scenario.trial} />
+      )}
+
       {/* Sekcja Renderowania - renderuj chapter i obejrzyj wynik */}
       {suiteId && scenarioId && scenario?.inputContext?.projectId && scenario?.inputContext?.chapterId && status === 'completed' && (
         <RenderChapterSection
@@ -0,0 +1,613 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Paper,
+  Typography,
+  Stack,
+  TextField,
+  MenuItem,
+  Button,
+  Alert,
+  CircularProgress,
+  Autocomplete,
+  Chip,
+  Divider,
+} from '@mui/material';
+import {
+  ArrowBack as BackIcon,
+  Save as SaveIcon,
+  FactCheck as ValidateIcon,
+  Download as PromoteIcon,
+} from '@mui/icons-material';
+import {
+  api,
+  FixtureProject,
+  FixtureChapter,
+  FixtureBlock,
+  FinalStateExpectations,
+  ScenarioValidationIssue,
+  TestScenarioDefinition,
+} from '../api/client';
+import { TimelinesAccordion } from '../components/fixtures';
+import {
+  BlockConditionsEditor,
+  BlockConditionDraft,
+  ToleranceSelect,
+  blockConditionFromDraft,
+  draftFromBlockCondition,
+} from '../components/scenario-editor';
+
+const AGENTS = ['montage', 'script', 'media-scout'];
+
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+export default function ScenarioEditor() {
+  const { scenarioId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const isEdit = !!scenarioId;
+
+  const [loading, setLoading] = useState(isEdit);
+  const [error, setError] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ScenarioValidationIssue[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Pola spoza formularza (systemPrompt, turns, kolejne zestawy oczekiwań) są zachowywane
+  const [base, setBase] = useState<TestScenarioDefinition | null>(null);
+
+  // Podstawowe dane
+  const [id, setId] = useState('');
+  const [name, setName] = useState('');
+  const [agent, setAgent] = useState('montage');
+  const [tags, setTags] = useState('');
+  const [description, setDescription] = useState('');
+  const [userMessage, setUserMessage] = useState('');
+  const [timeout, setTimeoutMs] = useState('');
+
+  // Kontekst z fixtures
+  const [projects, setProjects] = useState<FixtureProject[]>([]);
+  const [chapters, setChapters] = useState<FixtureChapter[]>([]);
+  const [chapterBlocks, setChapterBlocks] = useState<FixtureBlock[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [chapterId, setChapterId] = useState('');
+  const [contextBlockIds, setContextBlockIds] = useState<string[]>([]);
+
+  // Oczekiwania (pierwszy zestaw)
+  const [agentTools, setAgentTools] = useState<string[]>([]);
+  const [requiredTools, setRequiredTools] = useState<string[]>([]);
+  const [forbiddenTools, setForbiddenTools] = useState<string[]>([]);
+  const [modifiedBlocks, setModifiedBlocks] = useState<BlockConditionDraft[]>([]);
+  const [addedBlocks, setAddedBlocks] = useState<BlockConditionDraft[]>([]);
+  const [deletedBlocks, setDeletedBlocks] = useState<string[]>([]);
+  const [unchangedBlocks, setUnchangedBlocks] = useState<string[]>([]);
+  const [otherFinalStateJson, setOtherFinalStateJson] = useState('');
+
+  // Promocja wyniku do finalState
+  const [promoteSuiteId, setPromoteSuiteId] = useState(searchParams.get('fromSuite') ?? '');
+  const [promoteScenarioId, setPromoteScenarioId] = useState(searchParams.get('fromScenario') ?? '');
+  const [promoteTrial, setPromoteTrial] = useState(searchParams.get('trial') ?? '');
+  const [promoteTolerance, setPromoteTolerance] = useState(searchParams.get('tolerance') ?? 'exact');
+  const [promoteWarnings, setPromoteWarnings] = useState<string[]>([]);
+  const [promoting, setPromoting] = useState(false);
+
+  useEffect(() => {
+    api.getFixtureProjects().then(setProjects).catch(() => setProjects([]));
+  }, []);
+
+  useEffect(() => {
+    if (!scenarioId) return;
+    api
+      .getStoredScenario(scenarioId)
+      .then((record) => applyScenario(record.scenario))
+      .catch((e) => setError(e instanceof Error ? e.message : 'Blad ladowania scenariusza'))
+      .finally(() => setLoading(false));
+  }, [scenarioId]);
+
+  useEffect(() => {
+    if (searchParams.get('fromSuite') && searchParams.get('fromScenario')) {
+      promoteFromResult();
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!projectId) return;
+    api.getFixtureChapters(projectId).then(setChapters).catch(() => setChapters([]));
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!chapterId) {
+      setChapterBlocks([]);
+      return;
+    }
+    api
+      .getFixtureTimelines(chapterId)
+      .then((timelines) => Promise.all(timelines.map((t) => api.getFixtureBlocks(t.id))))
+      .then((blocks) => setChapterBlocks(blocks.flat()))
+      .catch(() => setChapterBlocks([]));
+  }, [chapterId]);
+
+  useEffect(() => {
+    api
+      .getTools(agent)
+      .then((data) => setAgentTools(data.allowedForAgent))
+      .catch(() => setAgentTools([]));
+  }, [agent]);
+
+  const applyFinalState = (finalState: FinalStateExpectations | undefined) => {
+    const { blocks, ...other } = finalState ?? {};
+    setModifiedBlocks((blocks?.modified ?? []).map(draftFromBlockCondition));
+    setAddedBlocks((blocks?.added ?? []).map(draftFromBlockCondition));
+    setDeletedBlocks(blocks?.deleted ?? []);
+    setUnchangedBlocks(blocks?.unchanged ?? []);
+    setOtherFinalStateJson(Object.keys(other).length > 0 ? JSON.stringify(other, null, 2) : '');
+  };
+
+  const applyScenario = (scenario: TestScenarioDefinition) => {
+    setBase(scenario);
+    setId(scenario.id);
+    setName(scenario.name);
+    setAgent(scenario.agent);
+    setTags((scenario.tags ?? []).join(', '));
+    setDescription(scenario.description ?? '');
+    setUserMessage(scenario.input.userMessage);
+    setTimeoutMs(scenario.timeout ? String(scenario.timeout) : '');
+    setProjectId(scenario.input.context.projectId);
+    setChapterId(scenario.input.context.chapterId);
+    setContextBlockIds(
+      (scenario.input.context.contextRefs ?? []).filter((ref) => ref.type === 'block').map((ref) => ref.id)
+    );
+
+    const first = scenario.expectations[0] as
+      | { toolCalls?: { required?: string[]; forbidden?: string[] }; finalState?: FinalStateExpectations }
+      | undefined;
+    setRequiredTools(first?.toolCalls?.required ?? []);
+    setForbiddenTools(first?.toolCalls?.forbidden ?? []);
+    applyFinalState(first?.finalState);
+  };
+
+  const promoteFromResult = async () => {
+    if (!promoteSuiteId || !promoteScenarioId) return;
+    try {
+      setPromoting(true);
+      const trial = promoteTrial ? parseInt(promoteTrial, 10) : undefined;
+      const { expectations, warnings } = await api.getGeneratedExpectations(promoteSuiteId, promoteScenarioId, {
+        trial,
+        tolerance: promoteTolerance,
+      });
+      setRequiredTools(expectations.toolCalls?.required ?? []);
+      setForbiddenTools(expectations.toolCalls?.forbidden ?? []);
+      applyFinalState(expectations.finalState);
+      setPromoteWarnings(warnings);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Blad wczytywania wyniku');
+    } finally {
+      setPromoting(false);
+    }
+  };
+
+  const toggleContextBlock = (blockId: string) => {
+    setContextBlockIds((ids) => (ids.includes(blockId) ? ids.filter((i) => i !== blockId) : [...ids, blockId]));
+  };
+
+  /** Składa definicję scenariusza z formularza (rzuca błąd przy niepoprawnym JSON) */
+  const buildScenario = (): TestScenarioDefinition => {
+    const otherFinalState = otherFinalStateJson.trim() ? JSON.parse(otherFinalStateJson) : {};
+    if (typeof otherFinalState !== 'object' || Array.isArray(otherFinalState)) {
+      throw new Error('Pozostale sekcje finalState musza byc obiektem JSON');
+    }
+
+    const blocks: NonNullable<FinalStateExpectations['blocks']> = {
+      ...(modifiedBlocks.length > 0 && { modified: modifiedBlocks.map(blockConditionFromDraft) }),
+      ...(addedBlocks.length > 0 && { added: addedBlocks.map(blockConditionFromDraft) }),
+      ...(deletedBlocks.length > 0 && { deleted: deletedBlocks }),
+      ...(unchangedBlocks.length > 0 && { unchanged: unchangedBlocks }),
+    };
+    const finalState: FinalStateExpectations = {
+      ...otherFinalState,
+      ...(Object.keys(blocks).length > 0 && { blocks }),
+    };
+
+    const [baseFirst = {}, ...baseRest] = base?.expectations ?? [];
+    const { toolCalls: baseToolCalls, finalState: _baseFinalState, ...firstRest } = baseFirst as Record<string, unknown>;
+    const toolCalls = {
+      ...(baseToolCalls as Record<string, unknown> | undefined),
+      required: requiredTools.length > 0 ? requiredTools : undefined,
+      forbidden: forbiddenTools.length > 0 ? forbiddenTools : undefined,
+    };
+    const hasToolCalls = Object.values(toolCalls).some((value) => value !== undefined);
+
+    const firstSet = {
+      ...firstRest,
+      ...(hasToolCalls && { toolCalls }),
+      ...(Object.keys(finalState).length > 0 && { finalState }),
+    };
+
+    return {
+      ...base,
+      id: id.trim(),
+      name: name.trim(),
+      agent,
+      tags: splitList(tags),
+      description: description.trim() || undefined,
+      timeout: timeout ? parseInt(timeout, 10) : undefined,
+      input: {
+        ...base?.input,
+        userMessage,
+        context: {
+          ...base?.input.context,
+          projectId,
+          chapterId,
+          contextRefs: contextBlockIds.length > 0 ? contextBlockIds.map((blockId) => ({ type: 'block', id: blockId })) : undefined,
+        },
+      },
+      expectations: [firstSet, ...baseRest],
+    };
+  };
+
+  const validate = async (): Promise<boolean> => {
+    try {
+      const report = await api.validateStoredScenario(buildScenario());
+      setIssues(report.issues);
+      setError(null);
+      return report.valid;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Blad walidacji');
+      return false;
+    }
+  };
+
+  const save = async () => {
+    try {
+      setSaving(true);
+      if (!(await validate())) return;
+
+      const scenario = buildScenario();
+      if (isEdit) {
+        await api.updateStoredScenario(scenarioId!, scenario);
+      } else {
+        await api.createStoredScenario(scenario);
+      }
+      navigate('/scenarios');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Blad zapisu scenariusza');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="50vh">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  const blockOptions = chapterBlocks.map((block) => block.id);
+
+  return (
+    <Box>
+      <Button startIcon={<BackIcon />} onClick={() => navigate('/scenarios')} sx={{ mb: 2 }}>
+        Wroc do scenariuszy
+      </Button>
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Typography variant="h4" fontWeight={600}>
+          {isEdit ? 'Edycja scenariusza' : 'Nowy scenariusz'}
+        </Typography>
+        <Stack direction="row" spacing={2}>
+          <Button variant="outlined" startIcon={<ValidateIcon />} onClick={validate}>
+            Waliduj
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />}
+            onClick={save}
+            disabled={saving || !id.trim() || !name.trim()}
+          >
+            Zapisz
+          </Button>
+        </Stack>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {issues && (
+        <Paper sx={{ p: 2, mb: 3 }}>
+          {issues.length === 0 ? (
+            <Alert severity="success">Scenariusz poprawny</Alert>
+          ) : (
+            <Stack spacing={1}>
+              {issues.map((issue, i) => (
+                <Alert key={i} severity={issue.severity === 'error' ? 'error' : 'warning'}>
+                  <strong>{issue.path}</strong>: {issue.message}
+                </Alert>
+              ))}
+            </Stack>
+          )}
+        </Paper>
+      )}
+
+      {/* Podstawowe dane */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" mb={2}>
+          Scenariusz
+        </Typography>
+        <Stack spacing={2}>
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="ID"
+              size="small"
+              value={id}
+              onChange={(e) => setId(e.target.value)}
+              disabled={isEdit}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              select
+              label="Agent"
+              size="small"
+              value={agent}
+              onChange={(e) => setAgent(e.target.value)}
+              sx={{ minWidth: 180 }}
+            >
+              {[...new Set([...AGENTS, agent])].map((a) => (
+                <MenuItem key={a} value={a}>
+                  {a}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Timeout (ms)"
+              size="small"
+              type="number"
+              value={timeout}
+              onChange={(e) => setTimeoutMs(e.target.value)}
+              sx={{ width: 160 }}
+            />
+          </Stack>
+          <TextField label="Nazwa" size="small" value={name} onChange={(e) => setName(e.target.value)} />
+          <TextField
+            label="Tagi (po przecinku)"
+            size="small"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+          <TextField
+            label="Opis"
+            size="small"
+            multiline
+            minRows={2}
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+          <TextField
+            label="Wiadomosc uzytkownika"
+            multiline
+            minRows={3}
+            value={userMessage}
+            onChange={(e) => setUserMessage(e.target.value)}
+          />
+        </Stack>
+      </Paper>
+
+      {/* Kontekst */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" mb={2}>
+          Kontekst
+        </Typography>
+        <Stack direction="row" spacing={2} mb={2}>
+          <TextField
+            select
+            label="Projekt"
+            size="small"
+            value={projectId}
+            onChange={(e) => {
+              setProjectId(e.target.value);
+              setChapterId('');
+            }}
+            sx={{ minWidth: 280 }}
+          >
+            {projectId && !projects.some((p) => p.id === projectId) && (
+              <MenuItem value={projectId}>{projectId}</MenuItem>
+            )}
+            {projects.map((project) => (
+              <MenuItem key={project.id} value={project.id}>
+                {project.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Chapter"
+            size="small"
+            value={chapterId}
+            onChange={(e) => setChapterId(e.target.value)}
+            disabled={!projectId}
+            sx={{ minWidth: 280 }}
+          >
+            {chapterId && !chapters.some((c) => c.id === chapterId) && (
+              <MenuItem value={chapterId}>{chapterId}</MenuItem>
+            )}
+            {chapters.map((chapter) => (
+              <MenuItem key={chapter.id} value={chapter.id}>
+                {chapter.title}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Stack>
+
+        {contextBlockIds.length > 0 && (
+          <Stack direction="row" spacing={0.5} mb={2} flexWrap="wrap" useFlexGap>
+            <Typography variant="body2" color="text.secondary" mr={1}>
+              Zaznaczone bloki (contextRefs):
+            </Typography>
+            {contextBlockIds.map((blockId) => (
+              <Chip
+                key={blockId}
+                label={`${blockId.slice(0, 8)}...`}
+                size="small"
+                onDelete={() => toggleContextBlock(blockId)}
+              />
+            ))}
+          </Stack>
+        )}
+
+        {chapterId && (
+          <TimelinesAccordion
+            chapterId={chapterId}
+            selectedBlockIds={contextBlockIds}
+            onToggleBlock={toggleContextBlock}
+          />
+        )}
+      </Paper>
+
+      {/* Oczekiwania */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="h6" mb={2}>
+          Oczekiwania
+        </Typography>
+        {(base?.expectations.length ?? 0) > 1 && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Edytowany jest pierwszy zestaw oczekiwan - pozostale ({base!.expectations.length - 1}) zostaja bez zmian.
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" mb={1}>
+          Wywolania narzedzi
+        </Typography>
+        <Stack direction="row" spacing={2} mb={3}>
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={agentTools}
+            value={requiredTools}
+            onChange={(_, value) => setRequiredTools(value)}
+            renderInput={(params) => <TextField {...params} label="Wymagane" />}
+            sx={{ flex: 1 }}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={agentTools}
+            value={forbiddenTools}
+            onChange={(_, value) => setForbiddenTools(value)}
+            renderInput={(params) => <TextField {...params} label="Zabronione" />}
+            sx={{ flex: 1 }}
+          />
+        </Stack>
+
+        <Divider sx={{ mb: 2 }} />
+
+        {/* Promocja wyniku */}
+        <Typography variant="subtitle2" mb={1}>
+          Oczekiwania z wyniku
+        </Typography>
+        <Stack direction="row" spacing={2} mb={3} alignItems="center">
+          <TextField
+            label="Suite ID"
+            size="small"
+            value={promoteSuiteId}
+            onChange={(e) => setPromoteSuiteId(e.target.value)}
+            sx={{ width: 220 }}
+          />
+          <TextField
+            label="Scenario ID"
+            size="small"
+            value={promoteScenarioId}
+            onChange={(e) => setPromoteScenarioId(e.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            label="Proba"
+            size="small"
+            type="number"
+            value={promoteTrial}
+            onChange={(e) => setPromoteTrial(e.target.value)}
+            sx={{ width: 100 }}
+          />
+          <ToleranceSelect value={promoteTolerance} onChange={setPromoteTolerance} />
+          <Button
+            variant="outlined"
+            startIcon={promoting ? <CircularProgress size={16} /> : <PromoteIcon />}
+            onClick={promoteFromResult}
+            disabled={promoting || !promoteSuiteId || !promoteScenarioId}
+          >
+            Wczytaj
+          </Button>
+        </Stack>
+        {promoteWarnings.map((warning) => (
+          <Alert key={warning} severity="warning" sx={{ mb: 2 }}>
+            {warning}
+          </Alert>
+        ))}
+
+        <Typography variant="subtitle2" mb={1}>
+          Zmodyfikowane bloki
+        </Typography>
+        <Box mb={3}>
+          <BlockConditionsEditor
+            mode="modified"
+            drafts={modifiedBlocks}
+            onChange={setModifiedBlocks}
+            blocks={chapterBlocks}
+          />
+        </Box>
+
+        <Typography variant="subtitle2" mb={1}>
+          Dodane bloki
+        </Typography>
+        <Box mb={3}>
+          <BlockConditionsEditor mode="added" drafts={addedBlocks} onChange={setAddedBlocks} blocks={chapterBlocks} />
+        </Box>
+
+        <Stack direction="row" spacing={2} mb={3}>
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={blockOptions}
+            value={deletedBlocks}
+            onChange={(_, value) => setDeletedBlocks(value)}
+            renderInput={(params) => <TextField {...params} label="Usuniete bloki" />}
+            sx={{ flex: 1 }}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={blockOptions}
+            value={unchangedBlocks}
+            onChange={(_, value) => setUnchangedBlocks(value)}
+            renderInput={(params) => <TextField {...params} label="Bloki bez zmian" />}
+            sx={{ flex: 1 }}
+          />
+        </Stack>
+
+        <TextField
+          label="Pozostale sekcje finalState (JSON)"
+          multiline
+          fullWidth
+          minRows={3}
+          value={otherFinalStateJson}
+          onChange={(e) => setOtherFinalStateJson(e.target.value)}
+          placeholder='{ "timelines": { "added": [] } }'
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+        />
+      </Paper>
+    </Box>
+  );
+}
@@ -20,8 +20,15 @@ import {
   MenuItem,
   TextField,
   Stack,
+  IconButton,
 } from '@mui/material';
-import { PlayArrow as PlayIcon, PlaylistPlay as SuiteIcon } from '@mui/icons-material';
+import {
+  PlayArrow as PlayIcon,
+  PlaylistPlay as SuiteIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
 import { api, Scenario } from '../api/client';
 
 export default function ScenarioList() {
@@ -70,6 +77,16 @@ export default function ScenarioList() {
     }
   };
 
+  const deleteStoredScenario = async (scenario: Scenario) => {
+    if (!window.confirm(`Usunac scenariusz ${scenario.id}?`)) return;
+    try {
+      await api.deleteStoredScenario(scenario.id);
+      await loadScenarios();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to delete scenario');
+    }
+  };
+
   const agents = [...new Set(scenarios.map((s) => s.agent))];
 
   const filteredScenarios = scenarios.filter((s) => {
@@ -93,6 +110,9 @@ export default function ScenarioList() {
           Scenariusze Testowe
         </Typography>
         <Stack direction="row" spacing={2}>
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={() => navigate('/scenarios/new')}>
+            Nowy scenariusz
+          </Button>
           {agentFilter !== 'all' && (
             <Button
               variant="contained"
@@ -159,6 +179,7 @@ export default function ScenarioList() {
                 </TableCell>
                 <TableCell>
                   <Stack direction="row" spacing={0.5}>
+                    {scenario.source === 'store' && <Chip label="edytor" size="small" color="secondary" />}
                     {scenario.tags?.map((tag) => (
                       <Chip key={tag} label={tag} size="small" variant="outlined" />
                     ))}
@@ -172,6 +193,19 @@ export default function ScenarioList() {
                   )}
                 </TableCell>
                 <TableCell align="right">
+                  {scenario.source === 'store' && (
+                    <>
+                      <IconButton
+                        size="small"
+                        onClick={() => navigate(`/scenarios/edit/${encodeURIComponent(scenario.id)}`)}
+                      >
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => deleteStoredScenario(scenario)} sx={{ mr: 1 }}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </>
+                  )}
                   <Button
                     variant="contained"
                     size="small"